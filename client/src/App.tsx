@@ -54,6 +54,7 @@ import LenderDirectoryPage from "@/pages/operations/lender-directory";
 import MarketIntelligencePage from "@/pages/operations/market-intelligence";
 import ApiClientsPage from "@/pages/operations/api-clients";
 import FundAdminPage from "@/pages/operations/fund-admin";
+import NotificationDeliveriesPage from "@/pages/operations/notification-deliveries";
 import SecuritySettingsPage from "@/pages/operations/security-settings";
 import NAVValuationPage from "@/pages/operations/nav-valuation";
 import NotFound from "@/pages/not-found";
@@ -240,6 +241,7 @@ function AppContent() {
               <Route path="/operations/nav-valuation" component={NAVValuationPage} />
               <Route path="/operations/api-clients" component={ApiClientsPage} />
               <Route path="/operations/fund-admin" component={FundAdminPage} />
+              <Route path="/operations/notification-deliveries" component={NotificationDeliveriesPage} />
               <Route path="/operations/security" component={SecuritySettingsPage} />
               <Route path="/advisor" component={AdvisorDashboard} />
               <Route path="/advisor/submit-deal" component={AdvisorSubmitDeal} />
@@ -0,0 +1,408 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Copy, Loader2, RefreshCw, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import type { WebhookDelivery } from "@shared/schema";
+
+export const availableWebhookEvents = [
+  { value: "covenant.breached", label: "Covenant breached", scope: "read:covenants" },
+  { value: "draw_request.approved", label: "Draw request approved", scope: "read:draws" },
+  { value: "facility.nav_updated", label: "Facility NAV updated", scope: "read:facilities" },
+  { value: "cash_flow.overdue", label: "Payment overdue", scope: "read:facilities" },
+  { value: "term_sheet.submitted", label: "Term sheet submitted", scope: "read:facilities" },
+];
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "text-muted-foreground" },
+  sending: { label: "Sending", className: "bg-blue-500/10 text-blue-600 border-blue-500/20" },
+  retrying: { label: "Retrying", className: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20" },
+  delivered: { label: "Delivered", className: "bg-green-500/10 text-green-600 border-green-500/20" },
+  dead_letter: { label: "Dead letter", className: "bg-red-500/10 text-red-600 border-red-500/20" },
+};
+
+interface WebhookDeliveryLog {
+  counts: Record<string, number>;
+  deliveries: WebhookDelivery[];
+}
+
+export interface WebhookClient {
+  id: string;
+  clientName: string;
+  allowedScopes: string[] | null;
+  webhookUrl: string | null;
+  webhookEvents: string[] | null;
+}
+
+function invalidateClientWebhooks(clientId: string) {
+  queryClient.invalidateQueries({
+    predicate: (query) =>
+      typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith(`/api/oauth/clients/${clientId}/webhooks`),
+  });
+}
+
+export function WebhookEventCheckboxes({
+  selected,
+  onChange,
+  allowedScopes,
+}: {
+  selected: string[];
+  onChange: (events: string[]) => void;
+  allowedScopes: string[];
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2 mt-2">
+      {availableWebhookEvents.map((event) => {
+        const permitted = allowedScopes.includes(event.scope);
+        return (
+          <div key={event.value} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id={`webhook-event-${event.value}`}
+              checked={permitted && selected.includes(event.value)}
+              disabled={!permitted}
+              onChange={(e) => {
+                onChange(e.target.checked
+                  ? [...selected, event.value]
+                  : selected.filter((value) => value !== event.value));
+              }}
+              className="rounded border-input"
+              data-testid={`checkbox-webhook-event-${event.value}`}
+            />
+            <label
+              htmlFor={`webhook-event-${event.value}`}
+              className={`text-sm ${permitted ? "" : "text-muted-foreground"}`}
+              title={permitted ? event.value : `Requires the ${event.scope} scope`}
+            >
+              {event.label}
+            </label>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function WebhookSecretField({ secret }: { secret: string }) {
+  const { toast } = useToast();
+  return (
+    <div>
+      <label className="text-sm font-medium">Webhook Signing Secret</label>
+      <div className="flex gap-2 mt-1">
+        <Input value={secret} readOnly className="font-mono text-sm" data-testid="input-webhook-secret" />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            navigator.clipboard.writeText(secret);
+            toast({ title: "Copied!", description: "Webhook secret copied to clipboard" });
+          }}
+          data-testid="button-copy-webhook-secret"
+        >
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        Verify the X-AlphaNAV-Signature header: HMAC-SHA256 of "&lt;t&gt;.&lt;raw body&gt;" with this secret.
+      </p>
+    </div>
+  );
+}
+
+export function WebhookSettingsDialog({
+  client,
+  open,
+  onOpenChange,
+}: {
+  client: WebhookClient;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [webhookUrl, setWebhookUrl] = useState(client.webhookUrl ?? "");
+  const [events, setEvents] = useState<string[]>(
+    client.webhookEvents ?? availableWebhookEvents.map((event) => event.value)
+  );
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", `/api/oauth/clients/${client.id}`, {
+        webhookUrl: webhookUrl.trim(),
+        webhookEvents: events,
+      });
+      return await res.json();
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/oauth/clients"] });
+      // A client's first webhook URL generates its signing secret
+      if (!client.webhookUrl && updated.webhookSecret) {
+        setSecret(updated.webhookSecret);
+      } else {
+        onOpenChange(false);
+      }
+      toast({ title: "Webhook Updated", description: `Webhook settings saved for ${client.clientName}` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Update Failed", description: error.message || "Failed to update webhook", variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/oauth/clients/${client.id}/webhook-secret`);
+      return await res.json() as { webhookSecret: string };
+    },
+    onSuccess: (data) => {
+      setSecret(data.webhookSecret);
+      toast({ title: "Secret Rotated", description: "Update the client's verifier - the old secret no longer signs payloads" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Rotation Failed", description: error.message || "Failed to rotate secret", variant: "destructive" });
+    },
+  });
+
+  const urlValid = webhookUrl.trim() === "" || /^https?:\/\/\S+$/.test(webhookUrl.trim());
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setSecret(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Webhook Settings</DialogTitle>
+          <DialogDescription>
+            Events are POSTed to {client.clientName}'s endpoint as signed JSON and retried with backoff on failure
+          </DialogDescription>
+        </DialogHeader>
+
+        {secret ? (
+          <div className="space-y-4">
+            <WebhookSecretField secret={secret} />
+            <Button className="w-full" onClick={() => { setSecret(null); onOpenChange(false); }} data-testid="button-webhook-done">
+              Done
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium">Webhook URL</label>
+              <Input
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+                placeholder="https://treasury.example.com/alphanav/webhooks"
+                className="mt-1"
+                data-testid="input-webhook-url"
+              />
+              {!urlValid && <p className="text-sm text-destructive mt-1">Enter a valid http(s) URL</p>}
+              <p className="text-xs text-muted-foreground mt-1">Leave blank to stop sending webhooks to this client.</p>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Events</label>
+              <WebhookEventCheckboxes
+                selected={events}
+                onChange={setEvents}
+                allowedScopes={client.allowedScopes ?? []}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              {client.webhookUrl && (
+                <Button
+                  variant="outline"
+                  onClick={() => rotateMutation.mutate()}
+                  disabled={rotateMutation.isPending}
+                  data-testid="button-rotate-webhook-secret"
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Rotate Secret
+                </Button>
+              )}
+              <Button
+                className="flex-1"
+                onClick={() => saveMutation.mutate()}
+                disabled={!urlValid || saveMutation.isPending}
+                data-testid="button-save-webhook"
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function WebhookDeliveryLogDialog({
+  client,
+  open,
+  onOpenChange,
+}: {
+  client: WebhookClient;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<string>("all");
+
+  const { data: log, isLoading } = useQuery<WebhookDeliveryLog>({
+    queryKey: [`/api/oauth/clients/${client.id}/webhooks?status=${status}`],
+    enabled: open,
+    refetchInterval: open ? 30000 : false,
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      const res = await apiRequest("POST", `/api/oauth/clients/${client.id}/webhooks/${deliveryId}/redeliver`);
+      return await res.json() as WebhookDelivery;
+    },
+    onSuccess: (delivery) => {
+      invalidateClientWebhooks(client.id);
+      toast({
+        title: delivery.status === "delivered" ? "Event Delivered" : "Event Requeued",
+        description: delivery.status === "delivered"
+          ? `Endpoint responded ${delivery.responseStatus}.`
+          : `Delivery failed again (${delivery.error}); it will be retried automatically.`,
+        variant: delivery.status === "delivered" ? "default" : "destructive",
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Redelivery Failed", description: error.message || "Failed to redeliver event", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <div className="flex items-start justify-between gap-4 pr-6">
+            <div>
+              <DialogTitle>Webhook Deliveries</DialogTitle>
+              <DialogDescription>
+                Most recent 100 events sent to {client.webhookUrl ?? client.clientName}
+              </DialogDescription>
+            </div>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-40" data-testid="select-webhook-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="delivered">Delivered</SelectItem>
+                <SelectItem value="retrying">Retrying</SelectItem>
+                <SelectItem value="dead_letter">Dead letter</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </DialogHeader>
+
+        <div className="flex gap-4 text-sm">
+          {(["delivered", "retrying", "dead_letter"] as const).map((key) => (
+            <div key={key}>
+              <span className="text-muted-foreground">{STATUS_BADGES[key].label}: </span>
+              <span className="font-mono tabular-nums" data-testid={`text-webhook-count-${key}`}>
+                {log?.counts[key] ?? 0}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {isLoading ? (
+            <Skeleton className="h-48" />
+          ) : !log || log.deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No webhook deliveries match this filter.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {log.deliveries.map((delivery) => {
+                  const badge = STATUS_BADGES[delivery.status] ?? { label: delivery.status, className: "" };
+                  const canRedeliver = delivery.status === "dead_letter" || delivery.status === "delivered";
+                  return (
+                    <TableRow key={delivery.id} data-testid={`row-webhook-delivery-${delivery.id}`}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(delivery.createdAt), "MMM d, HH:mm")}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-mono text-xs">{delivery.eventType}</div>
+                        <div className="text-xs text-muted-foreground truncate max-w-xs" title={delivery.eventId}>
+                          {delivery.eventId}
+                        </div>
+                      </TableCell>
+                      <TableCell className="max-w-sm">
+                        {delivery.responseStatus && (
+                          <div className="text-sm font-mono">HTTP {delivery.responseStatus}</div>
+                        )}
+                        {delivery.error && (
+                          <div className="text-xs text-red-600 truncate" title={delivery.error}>
+                            {delivery.error}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono tabular-nums">{delivery.attempts}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={badge.className}>{badge.label}</Badge>
+                        {delivery.status === "retrying" && delivery.nextAttemptAt && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            next {format(new Date(delivery.nextAttemptAt), "HH:mm")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canRedeliver && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => redeliverMutation.mutate(delivery.id)}
+                            disabled={redeliverMutation.isPending}
+                            data-testid={`button-redeliver-${delivery.id}`}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            Redeliver
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
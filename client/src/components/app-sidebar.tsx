@@ -1,4 +1,4 @@
-import { LayoutDashboard, GitBranch, FileText, Scale, TrendingUp, Activity, DollarSign, GraduationCap, Settings, Users, Target, Building2, BarChart3, Upload, Building, Database, Key, Link as LinkIcon, Bell } from "lucide-react";
+import { LayoutDashboard, GitBranch, FileText, Scale, TrendingUp, Activity, DollarSign, GraduationCap, Settings, Users, Target, Building2, BarChart3, Upload, Building, Database, Key, Link as LinkIcon, Bell, Send } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -103,6 +103,11 @@ const operationsNavItems = [
     url: "/notifications",
     icon: Bell,
   },
+  {
+    title: "Notification Deliveries",
+    url: "/operations/notification-deliveries",
+    icon: Send,
+  },
   {
     title: "Security",
     url: "/operations/security",
@@ -0,0 +1,322 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Landmark } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type IneligibleReason = "excluded_status" | "listed" | "below_minimum" | "unvalued";
+
+interface BorrowingBaseLine {
+  companyId: string;
+  companyName: string;
+  sector: string | null;
+  assetClass: string | null;
+  status: string;
+  value: number;
+  eligible: boolean;
+  ineligibleReason: IneligibleReason | null;
+  singleNameHaircut: number;
+  top3Haircut: number;
+  sectorHaircut: number;
+  eligibleValue: number;
+  advanceRate: number;
+  advanceValue: number;
+}
+
+interface ConcentrationTest {
+  limit: "single_name" | "top_3" | "sector";
+  name: string;
+  exposure: number;
+  exposurePercent: number;
+  capPercent: number;
+  excess: number;
+}
+
+interface FacilityBorrowingBase {
+  facilityId: string;
+  fundName: string;
+  grossNav: number;
+  ineligibleValue: number;
+  concentrationHaircut: number;
+  eligibleNav: number;
+  borrowingBase: number;
+  outstandingBalance: number;
+  availability: number;
+  utilizationPercent: number | null;
+  lines: BorrowingBaseLine[];
+  concentrations: ConcentrationTest[];
+}
+
+interface BorrowingBaseCertificate {
+  id: string;
+  periodEnd: string;
+  eligibleNav: number;
+  borrowingBase: number;
+  outstandingBalance: number;
+  availability: number;
+  createdAt: string;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(amount);
+
+const INELIGIBLE_LABELS: Record<IneligibleReason, string> = {
+  excluded_status: "Exited / written off",
+  listed: "Listed",
+  below_minimum: "Below minimum",
+  unvalued: "No valuation",
+};
+
+const LIMIT_LABELS: Record<ConcentrationTest["limit"], string> = {
+  single_name: "Single name",
+  top_3: "Top 3",
+  sector: "Sector",
+};
+
+interface BorrowingBaseCardProps {
+  facilityId: string;
+  canIssue?: boolean; // Operations can issue period certificates
+}
+
+export function BorrowingBaseCard({ facilityId, canIssue = false }: BorrowingBaseCardProps) {
+  const { toast } = useToast();
+  const [periodEnd, setPeriodEnd] = useState<string>("");
+
+  const { data: result, isLoading } = useQuery<FacilityBorrowingBase>({
+    queryKey: ["/api/facilities", facilityId, "borrowing-base"],
+  });
+
+  const { data: certificates = [] } = useQuery<BorrowingBaseCertificate[]>({
+    queryKey: ["/api/facilities", facilityId, "borrowing-base", "certificates"],
+  });
+
+  const issueMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/facilities/${facilityId}/borrowing-base/certificates`, {
+        periodEnd,
+      });
+      return await res.json() as BorrowingBaseCertificate;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/facilities", facilityId, "borrowing-base", "certificates"] });
+      setPeriodEnd("");
+      toast({
+        title: "Certificate Issued",
+        description: "The borrowing base certificate has been recorded for the period.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Issue Failed",
+        description: error.message || "Failed to issue borrowing base certificate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const breaches = result?.concentrations.filter((test) => test.excess > 0) ?? [];
+
+  return (
+    <Card data-testid="card-borrowing-base">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="w-5 h-5" />
+          Borrowing Base
+        </CardTitle>
+        <CardDescription>
+          Eligible holdings after concentration caps, advanced at each asset class's rate
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-48" />
+        ) : !result ? (
+          <p className="text-sm text-muted-foreground">Borrowing base is unavailable for this facility.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-3 rounded-lg border">
+                <p className="text-sm text-muted-foreground">Gross NAV</p>
+                <p className="text-xl font-mono tabular-nums">{formatCurrency(result.grossNav)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(result.ineligibleValue)} ineligible
+                </p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-sm text-muted-foreground">Eligible NAV</p>
+                <p className="text-xl font-mono tabular-nums" data-testid="text-eligible-nav">
+                  {formatCurrency(result.eligibleNav)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(result.concentrationHaircut)} over concentration caps
+                </p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-sm text-muted-foreground">Borrowing Base</p>
+                <p className="text-xl font-mono tabular-nums" data-testid="text-borrowing-base">
+                  {formatCurrency(result.borrowingBase)}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-sm text-muted-foreground">Availability</p>
+                <p
+                  className={`text-xl font-mono tabular-nums ${result.availability < 0 ? "text-red-600" : ""}`}
+                  data-testid="text-availability"
+                >
+                  {formatCurrency(result.availability)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatCurrency(result.outstandingBalance)} outstanding
+                  {result.utilizationPercent !== null && ` (${result.utilizationPercent.toFixed(1)}% used)`}
+                </p>
+              </div>
+            </div>
+
+            {breaches.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {breaches.map((test) => (
+                  <Badge
+                    key={`${test.limit}-${test.name}`}
+                    variant="outline"
+                    className="bg-yellow-500/10 text-yellow-600 border-yellow-500/20"
+                  >
+                    {LIMIT_LABELS[test.limit]}: {test.name} {test.exposurePercent.toFixed(1)}% vs {test.capPercent}% cap
+                  </Badge>
+                ))}
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Holding</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Concentration Haircut</TableHead>
+                  <TableHead className="text-right">Eligible</TableHead>
+                  <TableHead className="text-right">Advance Rate</TableHead>
+                  <TableHead className="text-right">Advance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.lines.map((line) => {
+                  const haircut = line.singleNameHaircut + line.top3Haircut + line.sectorHaircut;
+                  return (
+                    <TableRow key={line.companyId} data-testid={`row-borrowing-base-${line.companyId}`}>
+                      <TableCell>
+                        <div className="font-medium">{line.companyName}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {[line.assetClass?.replace(/_/g, " "), line.sector].filter(Boolean).join(" • ")}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono tabular-nums">{formatCurrency(line.value)}</TableCell>
+                      {line.eligible ? (
+                        <>
+                          <TableCell className="text-right font-mono tabular-nums">
+                            {haircut > 0 ? `-${formatCurrency(haircut)}` : "—"}
+                          </TableCell>
+                          <TableCell className="text-right font-mono tabular-nums">
+                            {formatCurrency(line.eligibleValue)}
+                          </TableCell>
+                          <TableCell className="text-right font-mono tabular-nums">{line.advanceRate}%</TableCell>
+                          <TableCell className="text-right font-mono tabular-nums">
+                            {formatCurrency(line.advanceValue)}
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={4} className="text-right">
+                          <Badge variant="outline" className="text-muted-foreground">
+                            {INELIGIBLE_LABELS[line.ineligibleReason!]}
+                          </Badge>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+
+        <div className="space-y-3">
+          <h4 className="font-medium">Certificates</h4>
+          {canIssue && (
+            <div className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label htmlFor={`period-end-${facilityId}`}>Period End</Label>
+                <Input
+                  id={`period-end-${facilityId}`}
+                  type="date"
+                  value={periodEnd}
+                  onChange={(e) => setPeriodEnd(e.target.value)}
+                  data-testid="input-certificate-period-end"
+                />
+              </div>
+              <Button
+                onClick={() => issueMutation.mutate()}
+                disabled={!periodEnd || issueMutation.isPending}
+                data-testid="button-issue-certificate"
+              >
+                {issueMutation.isPending ? "Issuing..." : "Issue Certificate"}
+              </Button>
+            </div>
+          )}
+          {certificates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No certificates issued yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period End</TableHead>
+                  <TableHead className="text-right">Eligible NAV</TableHead>
+                  <TableHead className="text-right">Borrowing Base</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead className="text-right">Availability</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {certificates.map((certificate) => (
+                  <TableRow key={certificate.id} data-testid={`row-certificate-${certificate.id}`}>
+                    <TableCell>{new Date(certificate.periodEnd).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {formatCurrency(certificate.eligibleNav)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {formatCurrency(certificate.borrowingBase)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {formatCurrency(certificate.outstandingBalance)}
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-mono tabular-nums ${certificate.availability < 0 ? "text-red-600" : ""}`}
+                    >
+                      {formatCurrency(certificate.availability)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,633 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileCheck2, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type FigureStatus = "match" | "mismatch" | "not_reported" | "not_recomputed" | "not_on_record";
+
+interface VerifiedFigure {
+  kind: "nav" | "holding" | "covenant" | "borrowing_base";
+  key: string;
+  label: string;
+  reported: number | null;
+  computed: number | null;
+  difference: number | null;
+  status: FigureStatus;
+  note?: string;
+}
+
+interface CertificateVerification {
+  verifiedAt: string;
+  figures: VerifiedFigure[];
+  mismatchCount: number;
+}
+
+interface CertificateTemplate {
+  holdings: Array<{ companyId: string; companyName: string; fairValue: number }>;
+  covenants: Array<{ covenantId: string; covenantType: string; thresholdOperator: string; thresholdValue: number }>;
+}
+
+interface ComplianceCertificate {
+  id: string;
+  facilityId: string;
+  periodEnd: string;
+  status: "submitted" | "approved" | "rejected";
+  reportedNav: number;
+  attestation: { officerName: string; officerTitle: string; statement: string; attestedAt: string };
+  verification: CertificateVerification;
+  mismatchCount: number;
+  reviewComments: string | null;
+  createdAt: string;
+}
+
+interface HoldingRow {
+  companyId?: string;
+  companyName: string;
+  fairValue: string;
+}
+
+const DEFAULT_ATTESTATION =
+  "I certify that, to the best of my knowledge, the figures in this certificate are true and " +
+  "correct as of the period end and that no Default or Event of Default has occurred and is continuing.";
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(amount);
+
+// Stored units: LTV in tenths of a percent, ratios x100
+function covenantScale(covenantType: string): number {
+  if (covenantType.includes("ltv")) return 10;
+  if (covenantType.includes("debt") || covenantType.includes("coverage") || covenantType.includes("ratio")) return 100;
+  return 1;
+}
+
+function covenantUnit(covenantType: string): string {
+  const scale = covenantScale(covenantType);
+  return scale === 10 ? "%" : scale === 100 ? "x" : "";
+}
+
+function covenantLabel(covenantType: string): string {
+  return covenantType
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function formatFigure(figure: VerifiedFigure, value: number | null): string {
+  if (value === null) return "—";
+  if (figure.kind !== "covenant") return formatCurrency(value);
+  const scale = covenantScale(figure.label);
+  return scale === 1 ? value.toLocaleString() : `${(value / scale).toFixed(scale === 10 ? 1 : 2)}${covenantUnit(figure.label)}`;
+}
+
+const STATUS_BADGES: Record<FigureStatus, { label: string; className: string }> = {
+  match: { label: "Match", className: "bg-green-500/10 text-green-600 border-green-500/20" },
+  mismatch: { label: "Mismatch", className: "bg-red-500/10 text-red-600 border-red-500/20" },
+  not_on_record: { label: "Not on record", className: "bg-red-500/10 text-red-600 border-red-500/20" },
+  not_reported: { label: "Not reported", className: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20" },
+  not_recomputed: { label: "Not recomputed", className: "text-muted-foreground" },
+};
+
+function CertificateStatusBadge({ status }: { status: ComplianceCertificate["status"] }) {
+  if (status === "approved") {
+    return <Badge className="bg-green-500/10 text-green-600 border-green-500/20">Approved</Badge>;
+  }
+  if (status === "rejected") {
+    return <Badge className="bg-red-500/10 text-red-600 border-red-500/20">Rejected</Badge>;
+  }
+  return <Badge variant="outline">Awaiting sign-off</Badge>;
+}
+
+/**
+ * Reported vs recomputed figures; used in the GP's pre-submission check and the ops review
+ */
+export function VerificationTable({ verification }: { verification: CertificateVerification }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Figure</TableHead>
+          <TableHead className="text-right">Reported</TableHead>
+          <TableHead className="text-right">Recomputed</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {verification.figures.map((figure) => (
+          <TableRow key={`${figure.kind}-${figure.key}`} data-testid={`row-figure-${figure.kind}-${figure.key}`}>
+            <TableCell>
+              <div className="font-medium">
+                {figure.kind === "covenant" ? covenantLabel(figure.label) : figure.label}
+              </div>
+              {figure.note && <div className="text-xs text-muted-foreground">{figure.note}</div>}
+            </TableCell>
+            <TableCell className="text-right font-mono tabular-nums">{formatFigure(figure, figure.reported)}</TableCell>
+            <TableCell className="text-right font-mono tabular-nums">{formatFigure(figure, figure.computed)}</TableCell>
+            <TableCell>
+              <Badge variant="outline" className={STATUS_BADGES[figure.status].className}>
+                {STATUS_BADGES[figure.status].label}
+              </Badge>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+interface ComplianceCertificateFormProps {
+  facilityId: string;
+}
+
+export function ComplianceCertificateForm({ facilityId }: ComplianceCertificateFormProps) {
+  const { toast } = useToast();
+  const [periodEnd, setPeriodEnd] = useState<string>("");
+  const [reportedNav, setReportedNav] = useState<string>("");
+  const [reportedBorrowingBase, setReportedBorrowingBase] = useState<string>("");
+  const [holdings, setHoldings] = useState<HoldingRow[]>([]);
+  const [covenantValues, setCovenantValues] = useState<Record<string, string>>({});
+  const [officerName, setOfficerName] = useState<string>("");
+  const [officerTitle, setOfficerTitle] = useState<string>("");
+  const [statement, setStatement] = useState<string>(DEFAULT_ATTESTATION);
+  const [attested, setAttested] = useState<boolean>(false);
+  const [verification, setVerification] = useState<CertificateVerification | null>(null);
+
+  const { data: template, isLoading: templateLoading } = useQuery<CertificateTemplate>({
+    queryKey: ["/api/facilities", facilityId, "compliance-certificates", "template"],
+  });
+
+  const { data: certificates = [] } = useQuery<ComplianceCertificate[]>({
+    queryKey: ["/api/facilities", facilityId, "compliance-certificates"],
+  });
+
+  // Prefill the schedule with the holdings on record
+  useEffect(() => {
+    if (!template) return;
+    setHoldings(template.holdings.map((h) => ({
+      companyId: h.companyId,
+      companyName: h.companyName,
+      fairValue: String(h.fairValue),
+    })));
+  }, [template]);
+
+  const holdingsTotal = holdings.reduce((sum, h) => sum + (parseInt(h.fairValue) || 0), 0);
+
+  const buildSubmission = () => ({
+    periodEnd,
+    reportedNav: reportedNav ? parseInt(reportedNav) : holdingsTotal,
+    reportedBorrowingBase: reportedBorrowingBase ? parseInt(reportedBorrowingBase) : undefined,
+    holdings: holdings
+      .filter((h) => h.companyName.trim() && h.fairValue !== "")
+      .map((h) => ({ companyId: h.companyId, companyName: h.companyName.trim(), fairValue: parseInt(h.fairValue) || 0 })),
+    covenants: (template?.covenants ?? [])
+      .filter((c) => covenantValues[c.covenantId])
+      .map((c) => ({
+        covenantId: c.covenantId,
+        reportedValue: Math.round(parseFloat(covenantValues[c.covenantId]) * covenantScale(c.covenantType)),
+      })),
+    attestation: { officerName, officerTitle, statement },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/facilities/${facilityId}/compliance-certificates/verify`, buildSubmission());
+      return await res.json() as CertificateVerification;
+    },
+    onSuccess: (data) => setVerification(data),
+    onError: (error: any) => {
+      toast({
+        title: "Check Failed",
+        description: error.message || "Failed to check certificate figures",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/facilities/${facilityId}/compliance-certificates`, buildSubmission());
+      return await res.json() as ComplianceCertificate;
+    },
+    onSuccess: (certificate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/facilities", facilityId, "compliance-certificates"] });
+      setVerification(null);
+      setAttested(false);
+      toast({
+        title: "Certificate Submitted",
+        description: certificate.mismatchCount > 0
+          ? `Submitted with ${certificate.mismatchCount} mismatch(es) for operations to review.`
+          : "Submitted for operations sign-off.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Submission Failed",
+        description: error.message || "Failed to submit compliance certificate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateHolding = (index: number, changes: Partial<HoldingRow>) => {
+    setHoldings(holdings.map((h, i) => (i === index ? { ...h, ...changes } : h)));
+    setVerification(null);
+  };
+
+  const canSubmit = periodEnd && officerName && officerTitle && statement && attested && holdings.length > 0;
+
+  return (
+    <div className="space-y-4">
+      <Card data-testid="card-compliance-certificate">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileCheck2 className="w-5 h-5" />
+            Compliance Certificate
+          </CardTitle>
+          <CardDescription>
+            Certify NAV, holdings and covenant calculations for the quarter. We recompute every figure on
+            receipt and flag any differences before operations signs off.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {templateLoading ? (
+            <Skeleton className="h-48" />
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="certificate-period-end">Period End *</Label>
+                  <Input
+                    id="certificate-period-end"
+                    type="date"
+                    value={periodEnd}
+                    onChange={(e) => setPeriodEnd(e.target.value)}
+                    data-testid="input-certificate-period-end"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="certificate-nav">NAV ($)</Label>
+                  <Input
+                    id="certificate-nav"
+                    type="number"
+                    placeholder={String(holdingsTotal)}
+                    value={reportedNav}
+                    onChange={(e) => setReportedNav(e.target.value)}
+                    data-testid="input-certificate-nav"
+                  />
+                  <p className="text-xs text-muted-foreground">Defaults to the holdings total</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="certificate-borrowing-base">Borrowing Base ($)</Label>
+                  <Input
+                    id="certificate-borrowing-base"
+                    type="number"
+                    placeholder="Optional"
+                    value={reportedBorrowingBase}
+                    onChange={(e) => setReportedBorrowingBase(e.target.value)}
+                    data-testid="input-certificate-borrowing-base"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium">Holdings Schedule</h4>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setHoldings([...holdings, { companyName: "", fairValue: "" }])}
+                    data-testid="button-add-holding"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Holding
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  {holdings.map((holding, index) => (
+                    <div key={holding.companyId ?? `new-${index}`} className="grid grid-cols-3 gap-2">
+                      <Input
+                        className="col-span-2"
+                        value={holding.companyName}
+                        disabled={!!holding.companyId}
+                        placeholder="Company name"
+                        onChange={(e) => updateHolding(index, { companyName: e.target.value })}
+                        data-testid={`input-holding-name-${index}`}
+                      />
+                      <Input
+                        type="number"
+                        value={holding.fairValue}
+                        placeholder="Fair value ($)"
+                        onChange={(e) => updateHolding(index, { fairValue: e.target.value })}
+                        data-testid={`input-holding-value-${index}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Total: {formatCurrency(holdingsTotal)}</p>
+              </div>
+
+              {(template?.covenants.length ?? 0) > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">Covenant Calculations</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {template!.covenants.map((covenant) => (
+                      <div key={covenant.covenantId} className="space-y-2">
+                        <Label htmlFor={`covenant-${covenant.covenantId}`}>
+                          {covenantLabel(covenant.covenantType)}
+                          {covenantUnit(covenant.covenantType) && ` (${covenantUnit(covenant.covenantType)})`}
+                        </Label>
+                        <Input
+                          id={`covenant-${covenant.covenantId}`}
+                          type="number"
+                          step="0.01"
+                          value={covenantValues[covenant.covenantId] ?? ""}
+                          onChange={(e) => {
+                            setCovenantValues({ ...covenantValues, [covenant.covenantId]: e.target.value });
+                            setVerification(null);
+                          }}
+                          data-testid={`input-covenant-${covenant.covenantId}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-4">
+                <h4 className="font-medium">Officer Attestation</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="officer-name">Officer Name *</Label>
+                    <Input
+                      id="officer-name"
+                      value={officerName}
+                      onChange={(e) => setOfficerName(e.target.value)}
+                      data-testid="input-officer-name"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="officer-title">Title *</Label>
+                    <Input
+                      id="officer-title"
+                      placeholder="e.g., Chief Financial Officer"
+                      value={officerTitle}
+                      onChange={(e) => setOfficerTitle(e.target.value)}
+                      data-testid="input-officer-title"
+                    />
+                  </div>
+                </div>
+                <Textarea
+                  value={statement}
+                  onChange={(e) => setStatement(e.target.value)}
+                  rows={3}
+                  data-testid="textarea-attestation"
+                />
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="attest"
+                    checked={attested}
+                    onCheckedChange={(checked) => setAttested(checked === true)}
+                    data-testid="checkbox-attest"
+                  />
+                  <Label htmlFor="attest" className="text-sm font-normal">
+                    I make this attestation on behalf of the fund
+                  </Label>
+                </div>
+              </div>
+
+              {verification && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">
+                    Recomputed Figures
+                    {verification.mismatchCount > 0 && (
+                      <span className="ml-2 text-sm text-red-600">{verification.mismatchCount} mismatch(es)</span>
+                    )}
+                  </h4>
+                  <VerificationTable verification={verification} />
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => verifyMutation.mutate()}
+                  disabled={!periodEnd || holdings.length === 0 || verifyMutation.isPending}
+                  data-testid="button-check-certificate"
+                >
+                  {verifyMutation.isPending ? "Checking..." : "Check Figures"}
+                </Button>
+                <Button
+                  onClick={() => submitMutation.mutate()}
+                  disabled={!canSubmit || submitMutation.isPending}
+                  data-testid="button-submit-certificate"
+                >
+                  {submitMutation.isPending ? "Submitting..." : "Submit Certificate"}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Submitted Certificates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {certificates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No certificates submitted yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Period End</TableHead>
+                  <TableHead className="text-right">NAV</TableHead>
+                  <TableHead className="text-right">Mismatches</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Comments</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {certificates.map((certificate) => (
+                  <TableRow key={certificate.id} data-testid={`row-compliance-certificate-${certificate.id}`}>
+                    <TableCell>{new Date(certificate.periodEnd).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {formatCurrency(certificate.reportedNav)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">{certificate.mismatchCount}</TableCell>
+                    <TableCell><CertificateStatusBadge status={certificate.status} /></TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{certificate.reviewComments ?? "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function CertificateReviewItem({
+  certificate,
+  fundName,
+}: {
+  certificate: ComplianceCertificate;
+  fundName: string;
+}) {
+  const { toast } = useToast();
+  const [expanded, setExpanded] = useState(false);
+  const [comments, setComments] = useState("");
+
+  const decisionMutation = useMutation({
+    mutationFn: async (decision: "approve" | "reject") => {
+      const res = await apiRequest("POST", `/api/compliance-certificates/${certificate.id}/decisions`, {
+        decision,
+        comments: comments || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (_data, decision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance-certificates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/facilities"] });
+      toast({
+        title: decision === "approve" ? "Certificate Approved" : "Certificate Rejected",
+        description: decision === "approve"
+          ? "Covenants were re-tested at the certified values and the certificate archived."
+          : "The GP has been notified.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Decision Failed",
+        description: error.message || "Failed to record decision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4" data-testid={`review-certificate-${certificate.id}`}>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="font-medium">{fundName}</p>
+          <p className="text-sm text-muted-foreground">
+            Period ending {new Date(certificate.periodEnd).toLocaleDateString()} • NAV{" "}
+            {formatCurrency(certificate.reportedNav)} • attested by {certificate.attestation.officerName},{" "}
+            {certificate.attestation.officerTitle}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {certificate.mismatchCount > 0 ? (
+            <Badge className="bg-red-500/10 text-red-600 border-red-500/20">
+              {certificate.mismatchCount} mismatch(es)
+            </Badge>
+          ) : (
+            <Badge className="bg-green-500/10 text-green-600 border-green-500/20">All figures match</Badge>
+          )}
+          <Button variant="outline" size="sm" onClick={() => setExpanded(!expanded)}>
+            {expanded ? "Hide" : "Review"}
+          </Button>
+        </div>
+      </div>
+
+      {expanded && (
+        <>
+          <VerificationTable verification={certificate.verification} />
+          <Textarea
+            placeholder={certificate.mismatchCount > 0
+              ? "Comments (required to approve with mismatches)"
+              : "Comments (optional)"}
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            rows={2}
+            data-testid={`textarea-review-comments-${certificate.id}`}
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => decisionMutation.mutate("reject")}
+              disabled={decisionMutation.isPending}
+              data-testid={`button-reject-certificate-${certificate.id}`}
+            >
+              Reject
+            </Button>
+            <Button
+              onClick={() => decisionMutation.mutate("approve")}
+              disabled={decisionMutation.isPending || (certificate.mismatchCount > 0 && !comments.trim())}
+              data-testid={`button-approve-certificate-${certificate.id}`}
+            >
+              Approve
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Certificates awaiting operations sign-off, across facilities
+ */
+export function ComplianceCertificateReviewQueue() {
+  const { data: certificates = [], isLoading } = useQuery<ComplianceCertificate[]>({
+    queryKey: ["/api/compliance-certificates"],
+  });
+
+  const { data: facilities = [] } = useQuery<Array<{ id: string; fundName: string }>>({
+    queryKey: ["/api/facilities"],
+  });
+
+  const fundName = (facilityId: string) =>
+    facilities.find((f) => f.id === facilityId)?.fundName ?? "Unknown facility";
+
+  return (
+    <Card data-testid="card-compliance-certificate-queue">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCheck2 className="w-5 h-5" />
+          Compliance Certificates Awaiting Sign-off
+        </CardTitle>
+        <CardDescription>
+          GP-submitted certificates with each figure recomputed from our records
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-24" />
+        ) : certificates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No certificates awaiting review.</p>
+        ) : (
+          certificates.map((certificate) => (
+            <CertificateReviewItem
+              key={certificate.id}
+              certificate={certificate}
+              fundName={fundName(certificate.facilityId)}
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
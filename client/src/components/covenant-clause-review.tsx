@@ -0,0 +1,267 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { FileText, CheckCircle2, XCircle, Info } from "lucide-react";
+
+interface CovenantProposal {
+  covenantType: string;
+  thresholdOperator: string | null;
+  thresholdValue: number | null;
+  checkFrequency: string;
+  testDates: string[] | null;
+  curePeriodDays: number;
+  formula: string | null;
+  notes: string[];
+}
+
+interface CovenantClauseReview {
+  clause: {
+    id: string;
+    clauseType: string;
+    clauseText: string;
+    pageNumber: number | null;
+    sectionNumber: string | null;
+    confidence: number | null;
+    extractedTerms: Record<string, unknown> | null;
+  };
+  creditDocumentId: string;
+  documentType: string;
+  facilityId: string | null;
+  fundName: string | null;
+  proposal: CovenantProposal;
+}
+
+const OPERATOR_LABELS: Record<string, string> = {
+  less_than: "Less than",
+  less_than_equal: "At most",
+  greater_than: "Greater than",
+  greater_than_equal: "At least",
+};
+
+const CLAUSES_QUERY_KEY = ["/api/covenant-clauses"];
+
+function ClauseReviewCard({ review }: { review: CovenantClauseReview }) {
+  const { toast } = useToast();
+  const { clause, proposal } = review;
+
+  const [covenantType, setCovenantType] = useState(proposal.covenantType);
+  const [thresholdOperator, setThresholdOperator] = useState(proposal.thresholdOperator ?? "");
+  const [thresholdValue, setThresholdValue] = useState(proposal.thresholdValue?.toString() ?? "");
+  const [checkFrequency, setCheckFrequency] = useState(proposal.checkFrequency);
+  const [curePeriodDays, setCurePeriodDays] = useState(proposal.curePeriodDays.toString());
+  const [formula, setFormula] = useState(proposal.formula ?? "");
+  const [dismissReason, setDismissReason] = useState("");
+
+  const onReviewed = (title: string, description: string) => {
+    queryClient.invalidateQueries({ queryKey: CLAUSES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ["/api/facilities"] });
+    toast({ title, description });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      variant: "destructive",
+      title,
+      description: error.message,
+    });
+  };
+
+  const promoteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/covenant-clauses/${clause.id}/promote`, {
+        covenantType,
+        thresholdOperator: thresholdOperator || undefined,
+        thresholdValue: thresholdValue === "" ? undefined : parseInt(thresholdValue, 10),
+        checkFrequency,
+        // Quarter-end test dates only apply to the proposed quarterly schedule
+        testDates: checkFrequency === proposal.checkFrequency ? proposal.testDates : null,
+        curePeriodDays: parseInt(curePeriodDays, 10) || 0,
+        formula: formula.trim() || null,
+      });
+    },
+    onSuccess: () => onReviewed("Covenant Created", `${covenantType.replace(/_/g, " ")} is now monitored`),
+    onError: onError("Could Not Create Covenant"),
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/covenant-clauses/${clause.id}/dismiss`, {
+        reason: dismissReason,
+      });
+    },
+    onSuccess: () => onReviewed("Clause Dismissed", "No covenant will be monitored for this clause"),
+    onError: onError("Could Not Dismiss Clause"),
+  });
+
+  const busy = promoteMutation.isPending || dismissMutation.isPending;
+
+  return (
+    <div className="p-4 rounded-lg border space-y-4" data-testid={`clause-review-${clause.id}`}>
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-2">
+          <FileText className="w-4 h-4 text-muted-foreground" />
+          <span className="font-medium">{review.fundName ?? "Unlinked document"}</span>
+          <Badge variant="outline" className="capitalize">
+            {review.documentType.replace(/_/g, " ")}
+          </Badge>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {clause.sectionNumber && `Section ${clause.sectionNumber} · `}
+          {clause.pageNumber ? `Page ${clause.pageNumber}` : "Page unknown"}
+          {clause.confidence !== null && ` · ${clause.confidence}% confidence`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {/* Source clause */}
+        <blockquote className="text-sm border-l-2 pl-3 text-muted-foreground whitespace-pre-wrap">
+          {clause.clauseText}
+        </blockquote>
+
+        {/* Proposed covenant */}
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2">
+            <Label className="text-xs">Covenant Type</Label>
+            <Input
+              value={covenantType}
+              onChange={(e) => setCovenantType(e.target.value)}
+              data-testid={`input-type-${clause.id}`}
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Operator</Label>
+            <Select value={thresholdOperator} onValueChange={setThresholdOperator}>
+              <SelectTrigger data-testid={`select-operator-${clause.id}`}>
+                <SelectValue placeholder="Select" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(OPERATOR_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Threshold (stored units)</Label>
+            <Input
+              type="number"
+              value={thresholdValue}
+              onChange={(e) => setThresholdValue(e.target.value)}
+              data-testid={`input-threshold-${clause.id}`}
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Frequency</Label>
+            <Select value={checkFrequency} onValueChange={setCheckFrequency}>
+              <SelectTrigger data-testid={`select-frequency-${clause.id}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="monthly">Monthly</SelectItem>
+                <SelectItem value="quarterly">Quarterly</SelectItem>
+                <SelectItem value="annual">Annual</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">Cure Period (days)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={curePeriodDays}
+              onChange={(e) => setCurePeriodDays(e.target.value)}
+              data-testid={`input-cure-${clause.id}`}
+            />
+          </div>
+          <div className="col-span-2">
+            <Label className="text-xs">Formula</Label>
+            <Input
+              value={formula}
+              placeholder="Leave blank to enter values at each test"
+              onChange={(e) => setFormula(e.target.value)}
+              className="font-mono text-xs"
+              data-testid={`input-formula-${clause.id}`}
+            />
+          </div>
+        </div>
+      </div>
+
+      {proposal.notes.length > 0 && (
+        <div className="p-3 bg-yellow-500/10 rounded-lg border border-yellow-500/20 text-sm text-yellow-600 space-y-1">
+          {proposal.notes.map((note) => (
+            <div key={note} className="flex items-start gap-2">
+              <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{note}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <Button
+          onClick={() => promoteMutation.mutate()}
+          disabled={busy || !review.facilityId}
+          data-testid={`button-promote-${clause.id}`}
+        >
+          <CheckCircle2 className="w-4 h-4 mr-2" />
+          Create Covenant
+        </Button>
+        <Input
+          value={dismissReason}
+          placeholder="Reason for dismissing"
+          onChange={(e) => setDismissReason(e.target.value)}
+          className="max-w-xs"
+          data-testid={`input-dismiss-reason-${clause.id}`}
+        />
+        <Button
+          variant="outline"
+          onClick={() => dismissMutation.mutate()}
+          disabled={busy || !dismissReason.trim()}
+          data-testid={`button-dismiss-${clause.id}`}
+        >
+          <XCircle className="w-4 h-4 mr-2" />
+          Dismiss
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function CovenantClauseReviewPanel() {
+  const { data: reviews = [], isLoading } = useQuery<CovenantClauseReview[]>({
+    queryKey: CLAUSES_QUERY_KEY,
+  });
+
+  if (isLoading || reviews.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-covenant-clause-review">
+      <CardHeader>
+        <CardTitle>Extracted Covenants Awaiting Review</CardTitle>
+        <CardDescription>
+          Covenant clauses parsed from credit agreements. Confirm or correct each mapping to start monitoring it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reviews.map((review) => (
+          <ClauseReviewCard key={review.clause.id} review={review} />
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
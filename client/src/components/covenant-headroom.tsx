@@ -0,0 +1,228 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ShieldAlert } from "lucide-react";
+
+export interface HoldingBreakingPoint {
+  companyId: string | null;
+  companyName: string;
+  value: number;
+  maxWritedownPercent: number | null;
+  maxWritedownAmount: number | null;
+}
+
+export interface CovenantBreakingPoint {
+  covenantId: string | null;
+  covenantType: string;
+  source: "covenant" | "policy" | "proposed";
+  thresholdValue: number;
+  thresholdOperator: string;
+  baselineValue: number | null;
+  baselineStatus: "compliant" | "warning" | "breach" | null;
+  stressable: boolean;
+  maxNavDeclinePercent: number | null;
+  breakingNav: number | null;
+  maxHoldingWritedowns: HoldingBreakingPoint[];
+  maxAdditionalDraw: number | null;
+}
+
+export interface ReverseStressResult {
+  nav: number;
+  cash: number;
+  outstandingBalance: number;
+  drawCapacity: number;
+  maxNavDeclinePercent: number | null;
+  maxAdditionalDraw: number | null;
+  covenants: CovenantBreakingPoint[];
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: "compact",
+    maximumFractionDigits: 1,
+  }).format(amount);
+
+// Stored units: LTV in tenths of a percent, ratios x100
+function formatCovenantValue(value: number, covenantType: string): string {
+  if (covenantType.includes("ltv")) {
+    return `${(value / 10).toFixed(1)}%`;
+  }
+  if (covenantType.includes("debt") || covenantType.includes("coverage") || covenantType.includes("ratio")) {
+    return `${(value / 100).toFixed(2)}x`;
+  }
+  if (value >= 100_000) {
+    return formatCurrency(value);
+  }
+  return value.toLocaleString();
+}
+
+function covenantLabel(covenant: CovenantBreakingPoint): string {
+  const name = covenant.covenantType
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+  if (covenant.source === "policy") return `${name} (policy limit)`;
+  if (covenant.source === "proposed") return `${name} (proposed)`;
+  return name;
+}
+
+// The holding that trips the covenant with the smallest write-down
+function tightestHolding(covenant: CovenantBreakingPoint): HoldingBreakingPoint | null {
+  return covenant.maxHoldingWritedowns
+    .filter((h) => h.maxWritedownPercent !== null)
+    .sort((a, b) => a.maxWritedownPercent! - b.maxWritedownPercent!)[0] ?? null;
+}
+
+/**
+ * Breaking points for each covenant; shared by the facility view and underwriting
+ */
+export function BreakingPointsTable({ result }: { result: ReverseStressResult }) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="p-3 rounded-lg border">
+          <p className="text-sm text-muted-foreground">NAV decline to first breach</p>
+          <p className="text-2xl font-mono tabular-nums" data-testid="text-max-nav-decline">
+            {result.maxNavDeclinePercent === null ? "None" : `${result.maxNavDeclinePercent.toFixed(1)}%`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            From {formatCurrency(result.nav)} NAV
+            {result.cash > 0 && `, holding ${formatCurrency(result.cash)} of cash constant`}
+          </p>
+        </div>
+        <div className="p-3 rounded-lg border">
+          <p className="text-sm text-muted-foreground">Additional draw to first breach</p>
+          <p className="text-2xl font-mono tabular-nums" data-testid="text-max-additional-draw">
+            {result.maxAdditionalDraw === null ? "No limit" : formatCurrency(result.maxAdditionalDraw)}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            On {formatCurrency(result.outstandingBalance)} outstanding
+            {result.maxAdditionalDraw === null && ` (searched up to ${formatCurrency(result.drawCapacity)})`}
+          </p>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Covenant</TableHead>
+            <TableHead className="text-right">Threshold</TableHead>
+            <TableHead className="text-right">Current</TableHead>
+            <TableHead className="text-right">Max NAV Decline</TableHead>
+            <TableHead className="text-right">Max Single Write-down</TableHead>
+            <TableHead className="text-right">Max Additional Draw</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {result.covenants.map((covenant, index) => {
+            const holding = tightestHolding(covenant);
+            const breached = covenant.baselineStatus === "breach";
+            return (
+              <TableRow key={covenant.covenantId ?? `limit-${index}`} data-testid={`row-breaking-point-${index}`}>
+                <TableCell className="font-medium">{covenantLabel(covenant)}</TableCell>
+                <TableCell className="text-right font-mono tabular-nums">
+                  {covenant.thresholdOperator.replace(/_/g, " ")}{" "}
+                  {formatCovenantValue(covenant.thresholdValue, covenant.covenantType)}
+                </TableCell>
+                <TableCell className="text-right font-mono tabular-nums">
+                  {covenant.baselineValue === null
+                    ? "—"
+                    : formatCovenantValue(covenant.baselineValue, covenant.covenantType)}
+                </TableCell>
+                {!covenant.stressable ? (
+                  <TableCell colSpan={3} className="text-right text-sm text-muted-foreground">
+                    No formula to stress
+                  </TableCell>
+                ) : breached ? (
+                  <TableCell colSpan={3} className="text-right">
+                    <Badge variant="outline" className="bg-red-500/10 text-red-600 border-red-500/20">
+                      Already in breach
+                    </Badge>
+                  </TableCell>
+                ) : (
+                  <>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {covenant.maxNavDeclinePercent === null ? (
+                        "—"
+                      ) : (
+                        <>
+                          {covenant.maxNavDeclinePercent.toFixed(1)}%
+                          <div className="text-xs text-muted-foreground">
+                            NAV {formatCurrency(covenant.breakingNav!)}
+                          </div>
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {holding ? (
+                        <>
+                          {holding.maxWritedownPercent!.toFixed(1)}%
+                          <div className="text-xs text-muted-foreground">{holding.companyName}</div>
+                        </>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {covenant.maxAdditionalDraw === null ? "—" : formatCurrency(covenant.maxAdditionalDraw)}
+                    </TableCell>
+                  </>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+      <p className="text-xs text-muted-foreground">
+        "—" means the stress cannot trip the covenant, even with NAV down to its cash, a holding
+        written off entirely or a further {formatCurrency(result.drawCapacity)} drawn.
+      </p>
+    </div>
+  );
+}
+
+interface CovenantHeadroomCardProps {
+  facilityId: string;
+}
+
+export function CovenantHeadroomCard({ facilityId }: CovenantHeadroomCardProps) {
+  const { data: result, isLoading, isError } = useQuery<ReverseStressResult>({
+    queryKey: ["/api/facilities", facilityId, "reverse-stress-test"],
+  });
+
+  return (
+    <Card data-testid="card-covenant-headroom">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="w-5 h-5" />
+          Covenant Headroom
+        </CardTitle>
+        <CardDescription>
+          How far NAV, a single holding or further draws can move before each covenant trips
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-48" />
+        ) : isError || !result ? (
+          <p className="text-sm text-muted-foreground">
+            Headroom is only available for active facilities.
+          </p>
+        ) : (
+          <BreakingPointsTable result={result} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
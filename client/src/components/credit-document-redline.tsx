@@ -0,0 +1,259 @@
+import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GitCompare, ArrowRight } from "lucide-react";
+
+interface CreditDocumentSummary {
+  id: string;
+  facilityId: string | null;
+  documentType: string;
+  previousVersionId: string | null;
+  versionLabel: string | null;
+  parsedAt: string | null;
+  createdAt: string;
+}
+
+type TermKind = "ratio" | "percentage" | "amount" | "days" | "date" | null;
+
+interface TermChange {
+  term: string;
+  kind: TermKind;
+  from: number | string | null;
+  to: number | string | null;
+}
+
+interface ClauseComparison {
+  sectionNumber: string | null;
+  clauseName: string | null;
+  clauseType: string;
+  status: "unchanged" | "modified" | "added" | "removed";
+  base: { pageNumber: number | null } | null;
+  revised: { pageNumber: number | null } | null;
+  termChanges: TermChange[];
+  diff: Array<{ type: "equal" | "insert" | "delete"; text: string }>;
+}
+
+interface CreditDocumentComparison {
+  documentTermChanges: TermChange[];
+  clauses: ClauseComparison[];
+  summary: { unchanged: number; modified: number; added: number; removed: number; termChanges: number };
+}
+
+const STATUS_STYLES: Record<ClauseComparison["status"], string> = {
+  modified: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20",
+  added: "bg-green-500/10 text-green-600 border-green-500/20",
+  removed: "bg-red-500/10 text-red-600 border-red-500/20",
+  unchanged: "",
+};
+
+function formatTerm(value: number | string | null, kind: TermKind): string {
+  if (value === null) return "—";
+  if (typeof value === "string") return value;
+  switch (kind) {
+    case "percentage":
+      return `${value}%`;
+    case "ratio":
+      return `${value.toFixed(2)}x`;
+    case "amount":
+      return new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: "USD",
+        notation: "compact",
+        maximumFractionDigits: 2,
+      }).format(value);
+    case "days":
+      return `${value} days`;
+    default:
+      return value.toLocaleString();
+  }
+}
+
+function documentLabel(doc: CreditDocumentSummary): string {
+  const date = new Date(doc.parsedAt ?? doc.createdAt).toLocaleDateString();
+  return `${doc.versionLabel ?? doc.documentType.replace(/_/g, " ")} · ${date}`;
+}
+
+function TermChangeRow({ change, prefix }: { change: TermChange; prefix?: string | null }) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-muted-foreground">
+        {prefix ? `${prefix}: ` : ""}{change.term}
+      </span>
+      <span className="line-through text-red-600">{formatTerm(change.from, change.kind)}</span>
+      <ArrowRight className="w-3 h-3 text-muted-foreground" />
+      <span className="font-medium text-green-600">{formatTerm(change.to, change.kind)}</span>
+    </div>
+  );
+}
+
+export function CreditDocumentRedline() {
+  const [baseId, setBaseId] = useState<string>("");
+  const [revisedId, setRevisedId] = useState<string>("");
+
+  const { data: documents = [], isError } = useQuery<CreditDocumentSummary[]>({
+    queryKey: ["/api/credit-documents"],
+  });
+
+  // Start from the most recent document that supersedes an earlier version
+  useEffect(() => {
+    if (revisedId || documents.length === 0) return;
+    const latestRevision = documents.find((doc) => doc.previousVersionId);
+    if (latestRevision) {
+      setRevisedId(latestRevision.id);
+      setBaseId(latestRevision.previousVersionId!);
+    }
+  }, [documents, revisedId]);
+
+  const { data: comparison, isLoading: comparisonLoading } = useQuery<CreditDocumentComparison>({
+    queryKey: [`/api/credit-documents/${revisedId}/comparison?baseId=${baseId}`],
+    enabled: !!baseId && !!revisedId && baseId !== revisedId,
+  });
+
+  if (isError || documents.length < 2) {
+    return null;
+  }
+
+  const revised = documents.find((doc) => doc.id === revisedId);
+  const baseOptions = documents.filter(
+    (doc) => doc.id !== revisedId && (!revised || doc.facilityId === revised.facilityId)
+  );
+  const changedClauses = comparison?.clauses.filter((clause) => clause.status !== "unchanged") ?? [];
+
+  return (
+    <Card data-testid="card-credit-document-redline">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="w-5 h-5" />
+          Credit Agreement Comparison
+        </CardTitle>
+        <CardDescription>
+          Section-by-section redline of two versions of a credit agreement
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Earlier Version</Label>
+            <Select value={baseId} onValueChange={setBaseId}>
+              <SelectTrigger data-testid="select-base-document">
+                <SelectValue placeholder="Select document" />
+              </SelectTrigger>
+              <SelectContent>
+                {baseOptions.map((doc) => (
+                  <SelectItem key={doc.id} value={doc.id}>{documentLabel(doc)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Later Version</Label>
+            <Select
+              value={revisedId}
+              onValueChange={(id) => {
+                setRevisedId(id);
+                setBaseId(documents.find((doc) => doc.id === id)?.previousVersionId ?? "");
+              }}
+            >
+              <SelectTrigger data-testid="select-revised-document">
+                <SelectValue placeholder="Select document" />
+              </SelectTrigger>
+              <SelectContent>
+                {documents.map((doc) => (
+                  <SelectItem key={doc.id} value={doc.id}>{documentLabel(doc)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {comparisonLoading && <Skeleton className="h-48" />}
+
+        {comparison && (
+          <>
+            <div className="flex flex-wrap gap-2" data-testid="redline-summary">
+              <Badge variant="outline" className={STATUS_STYLES.modified}>{comparison.summary.modified} modified</Badge>
+              <Badge variant="outline" className={STATUS_STYLES.added}>{comparison.summary.added} added</Badge>
+              <Badge variant="outline" className={STATUS_STYLES.removed}>{comparison.summary.removed} removed</Badge>
+              <Badge variant="outline">{comparison.summary.unchanged} unchanged</Badge>
+              <Badge variant="outline">{comparison.summary.termChanges} term changes</Badge>
+            </div>
+
+            {comparison.documentTermChanges.length > 0 && (
+              <div className="p-3 rounded-lg border space-y-1">
+                <p className="text-sm font-semibold mb-2">Deal Terms</p>
+                {comparison.documentTermChanges.map((change) => (
+                  <TermChangeRow key={change.term} change={change} />
+                ))}
+              </div>
+            )}
+
+            {changedClauses.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No clause changes between these versions.</p>
+            ) : (
+              <div className="space-y-4">
+                {changedClauses.map((clause, index) => (
+                  <div
+                    key={`${clause.sectionNumber}-${index}`}
+                    className="p-4 rounded-lg border space-y-3"
+                    data-testid={`redline-clause-${index}`}
+                  >
+                    <div className="flex items-center justify-between gap-2 flex-wrap">
+                      <div className="flex items-center gap-2">
+                        {clause.sectionNumber && (
+                          <span className="font-mono text-sm">§ {clause.sectionNumber}</span>
+                        )}
+                        <span className="font-medium">
+                          {clause.clauseName ?? clause.clauseType.replace(/_/g, " ")}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground">
+                          {clause.base?.pageNumber && `p. ${clause.base.pageNumber}`}
+                          {clause.base?.pageNumber && clause.revised?.pageNumber && " → "}
+                          {clause.revised?.pageNumber && `p. ${clause.revised.pageNumber}`}
+                        </span>
+                        <Badge variant="outline" className={`capitalize ${STATUS_STYLES[clause.status]}`}>
+                          {clause.status}
+                        </Badge>
+                      </div>
+                    </div>
+
+                    {clause.termChanges.length > 0 && (
+                      <div className="space-y-1">
+                        {clause.termChanges.map((change) => (
+                          <TermChangeRow key={change.term} change={change} prefix={clause.clauseName} />
+                        ))}
+                      </div>
+                    )}
+
+                    <p className="text-sm leading-relaxed">
+                      {clause.diff.map((segment, i) =>
+                        segment.type === "insert" ? (
+                          <ins key={i} className="bg-green-500/15 text-green-700 no-underline">{segment.text}</ins>
+                        ) : segment.type === "delete" ? (
+                          <del key={i} className="bg-red-500/15 text-red-700">{segment.text}</del>
+                        ) : (
+                          <span key={i}>{segment.text}</span>
+                        )
+                      )}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Scale } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/export-utils";
+
+type ReconciliationFlag =
+  | "gp_above_model"
+  | "gp_below_model"
+  | "unchanged_gp_mark"
+  | "gp_mark_carried_forward"
+  | "missing_model_mark";
+
+interface HoldingReconciliation {
+  companyId: string;
+  companyName: string;
+  sector: string | null;
+  gpFairValue: number | null;
+  gpAsOfDate: string | null;
+  gpSource: string | null;
+  modelFairValue: number | null;
+  modelAsOfDate: string | null;
+  deviation: number | null;
+  deviationPercent: number | null;
+  adjustedValue: number;
+  flags: ReconciliationFlag[];
+}
+
+interface QuarterReconciliation {
+  quarter: string;
+  quarterEnd: string;
+  gpNav: number;
+  modelNav: number;
+  adjustedNav: number;
+  adjustment: number;
+  modelCoveragePercent: number;
+  flaggedCount: number;
+  holdings: HoldingReconciliation[];
+}
+
+interface FacilityNavReconciliation {
+  facilityId: string;
+  fundName: string;
+  tolerancePercent: number;
+  quarters: QuarterReconciliation[];
+  latest: QuarterReconciliation | null;
+}
+
+const FLAG_LABELS: Record<ReconciliationFlag, { label: string; className: string }> = {
+  gp_above_model: { label: "GP above model", className: "bg-red-500/10 text-red-600 border-red-500/20" },
+  gp_below_model: { label: "GP below model", className: "bg-blue-500/10 text-blue-600 border-blue-500/20" },
+  unchanged_gp_mark: { label: "Unchanged mark", className: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20" },
+  gp_mark_carried_forward: { label: "Stale mark", className: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20" },
+  missing_model_mark: { label: "Not modelled", className: "text-muted-foreground" },
+};
+
+interface NavReconciliationCardProps {
+  facilityId: string;
+}
+
+export function NavReconciliationCard({ facilityId }: NavReconciliationCardProps) {
+  const { toast } = useToast();
+  const [tolerance, setTolerance] = useState<string>("10");
+  const [selectedQuarter, setSelectedQuarter] = useState<string>("");
+
+  const toleranceParam = tolerance && !isNaN(parseFloat(tolerance)) ? parseFloat(tolerance) : 10;
+
+  const { data: reconciliation, isLoading } = useQuery<FacilityNavReconciliation>({
+    queryKey: [`/api/nav-valuation/reconciliation/${facilityId}?tolerance=${toleranceParam}`],
+  });
+
+  const quarter = reconciliation?.quarters.find((q) => q.quarter === selectedQuarter)
+    ?? reconciliation?.latest
+    ?? null;
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/nav-valuation/reconciliation/${facilityId}/apply`, {
+        quarter: quarter?.quarter,
+        tolerancePercent: toleranceParam,
+      });
+      return await res.json() as { quarter: string; adjustedNav: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/facilities"] });
+      toast({
+        title: "Adjusted NAV Applied",
+        description: `${formatCurrency(data.adjustedNav)} recorded as the ${data.quarter} NAV; LTV recalculated.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Apply Failed",
+        description: error.message || "Failed to apply adjusted NAV",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-nav-reconciliation">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5" />
+          GP vs Model Reconciliation
+        </CardTitle>
+        <CardDescription>
+          GP-reported marks against our model marks by quarter. Adjusted NAV takes the model value
+          wherever the GP mark sits above it by more than the tolerance.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="reconciliation-tolerance">Deviation Tolerance (%)</Label>
+            <Input
+              id="reconciliation-tolerance"
+              type="number"
+              min="0"
+              step="1"
+              value={tolerance}
+              onChange={(e) => setTolerance(e.target.value)}
+              data-testid="input-reconciliation-tolerance"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reconciliation-quarter">Quarter</Label>
+            <Select value={quarter?.quarter ?? ""} onValueChange={setSelectedQuarter}>
+              <SelectTrigger id="reconciliation-quarter" data-testid="select-reconciliation-quarter">
+                <SelectValue placeholder="No marks yet" />
+              </SelectTrigger>
+              <SelectContent>
+                {reconciliation?.quarters.map((q) => (
+                  <SelectItem key={q.quarter} value={q.quarter}>
+                    {q.quarter}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-48" />
+        ) : !quarter ? (
+          <p className="text-sm text-muted-foreground">
+            No holding marks have been recorded for this facility's portfolio.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-3 rounded-lg border">
+                <p className="text-sm text-muted-foreground">GP-Reported NAV</p>
+                <p className="text-xl font-mono tabular-nums" data-testid="text-gp-nav">
+                  {formatCurrency(quarter.gpNav)}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-sm text-muted-foreground">Model NAV</p>
+                <p className="text-xl font-mono tabular-nums" data-testid="text-model-nav">
+                  {formatCurrency(quarter.modelNav)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {quarter.modelCoveragePercent.toFixed(0)}% of GP NAV modelled
+                </p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-sm text-muted-foreground">Adjusted NAV</p>
+                <p className="text-xl font-mono tabular-nums" data-testid="text-adjusted-nav">
+                  {formatCurrency(quarter.adjustedNav)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {quarter.adjustment === 0 ? "No adjustment" : `${formatCurrency(quarter.adjustment)} vs GP`}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg border">
+                <p className="text-sm text-muted-foreground">Flagged Holdings</p>
+                <p className="text-xl font-mono tabular-nums" data-testid="text-flagged-count">
+                  {quarter.flaggedCount} / {quarter.holdings.length}
+                </p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead className="text-right">GP Mark</TableHead>
+                  <TableHead className="text-right">Model Mark</TableHead>
+                  <TableHead className="text-right">Deviation</TableHead>
+                  <TableHead className="text-right">Adjusted</TableHead>
+                  <TableHead>Flags</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {quarter.holdings.map((holding) => (
+                  <TableRow key={holding.companyId} data-testid={`row-reconciliation-${holding.companyId}`}>
+                    <TableCell>
+                      <div className="font-medium">{holding.companyName}</div>
+                      {holding.gpAsOfDate && (
+                        <div className="text-xs text-muted-foreground">
+                          GP as of {new Date(holding.gpAsOfDate).toLocaleDateString()}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {holding.gpFairValue === null ? "—" : formatCurrency(holding.gpFairValue)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {holding.modelFairValue === null ? "—" : formatCurrency(holding.modelFairValue)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {holding.deviationPercent === null
+                        ? "—"
+                        : `${holding.deviationPercent > 0 ? "+" : ""}${holding.deviationPercent.toFixed(1)}%`}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {formatCurrency(holding.adjustedValue)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {holding.flags.map((flag) => (
+                          <Badge key={flag} variant="outline" className={FLAG_LABELS[flag].className}>
+                            {FLAG_LABELS[flag].label}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-xs text-muted-foreground">
+                Applying records the adjusted NAV as the facility's {quarter.quarter} NAV and
+                recalculates LTV and LTV covenants.
+              </p>
+              <Button
+                onClick={() => applyMutation.mutate()}
+                disabled={applyMutation.isPending || quarter.adjustedNav <= 0}
+                data-testid="button-apply-adjusted-nav"
+              >
+                {applyMutation.isPending ? "Applying..." : "Use Adjusted NAV for LTV"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
-import { TrendingUp, AlertTriangle, Send, CheckCircle2 } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { TrendingUp, AlertTriangle, Send, CheckCircle2, Target } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -17,11 +18,103 @@ export interface BreachPrediction {
   notificationSent: boolean;
 }
 
+export interface CalibrationReport {
+  modelVersion: string;
+  resolvedCount: number;
+  breachCount: number;
+  brierScore: number;
+  meanPredicted: number;
+  observedRate: number;
+  buckets: Array<{
+    lowerBound: number;
+    upperBound: number;
+    count: number;
+    meanPredicted: number;
+    observedRate: number;
+  }>;
+  periods: Array<{ period: string; count: number; brierScore: number }>;
+}
+
 interface PredictiveBreachPanelProps {
   predictions: BreachPrediction[];
   onSendWarning: (id: string) => void;
 }
 
+function CalibrationSummary() {
+  const { data: reports = [], isLoading } = useQuery<CalibrationReport[]>({
+    queryKey: ["/api/breach-predictions/calibration"],
+  });
+
+  const getBrierColor = (brier: number) => {
+    if (brier <= 0.1) return "text-success";
+    if (brier <= 0.2) return "text-warning";
+    return "text-danger";
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-border" data-testid="calibration-summary">
+      <div className="flex items-center gap-2">
+        <Target className="h-4 w-4 text-primary" />
+        <p className="font-semibold text-sm">Model Calibration</p>
+      </div>
+      {reports.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No resolved predictions yet. Outcomes are recorded when covenants breach or horizons expire.
+        </p>
+      ) : (
+        reports.map((report) => (
+          <div
+            key={report.modelVersion}
+            className="p-3 rounded-lg border border-border space-y-2"
+            data-testid={`calibration-${report.modelVersion}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <Badge variant="outline">{report.modelVersion}</Badge>
+              <span className="text-xs text-muted-foreground">
+                {report.resolvedCount} resolved · {report.breachCount} breached
+              </span>
+            </div>
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Brier Score</p>
+                <p className={`font-mono font-bold ${getBrierColor(report.brierScore)}`}>
+                  {report.brierScore.toFixed(3)}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Avg Predicted</p>
+                <p className="font-mono font-medium">{report.meanPredicted.toFixed(1)}%</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Observed Rate</p>
+                <p className="font-mono font-medium">{report.observedRate.toFixed(1)}%</p>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Reliability (predicted vs observed)</p>
+              {report.buckets.filter((bucket) => bucket.count > 0).map((bucket) => (
+                <div key={bucket.lowerBound} className="flex items-center gap-2 text-xs">
+                  <span className="w-16 font-mono text-muted-foreground">
+                    {bucket.lowerBound}-{bucket.upperBound}%
+                  </span>
+                  <Progress value={bucket.observedRate} className="h-1.5 flex-1" />
+                  <span className="w-20 text-right font-mono">
+                    {bucket.observedRate.toFixed(0)}% (n={bucket.count})
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
 export function PredictiveBreachPanel({ predictions, onSendWarning }: PredictiveBreachPanelProps) {
   const getProbabilityColor = (prob: number) => {
     if (prob >= 70) return "text-danger";
@@ -152,6 +245,7 @@ export function PredictiveBreachPanel({ predictions, onSendWarning }: Predictive
             </div>
           ))
         )}
+        <CalibrationSummary />
       </CardContent>
     </Card>
   );
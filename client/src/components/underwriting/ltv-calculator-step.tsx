@@ -10,6 +10,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
+import { BreakingPointsTable, type ReverseStressResult } from "@/components/covenant-headroom";
 import {
   Table,
   TableBody,
@@ -28,6 +29,30 @@ interface StressScenario {
   exceedsCovenant: boolean;
 }
 
+interface NavPercentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+interface NavSimulation {
+  seed: number;
+  paths: number;
+  termMonths: number;
+  breachProbability: number;
+  medianMonthsToBreach: number | null;
+  horizons: Array<{
+    month: number;
+    breachProbability: number;
+    ltvAboveMaxProbability: number;
+    navPercentiles: NavPercentiles;
+    ltvPercentiles: NavPercentiles;
+  }>;
+  navBands: Array<{ month: number } & NavPercentiles>;
+}
+
 interface LTVCalculation {
   id: string;
   sessionId: string;
@@ -36,10 +61,14 @@ interface LTVCalculation {
   maxLtv: string;
   requestedFacilitySize: number | null;
   maxFacilitySize: number;
+  borrowingBase: number | null;
   recommendedFacilitySize: number;
   baselineLtv: string;
   scenarios: StressScenario[];
   breachProbability: string;
+  simulation: NavSimulation | null;
+  simulationSeed: number | null;
+  reverseStress: ReverseStressResult | null;
   recommendedSofr: number;
   marketMedianPricing: number;
   pricingRationale: string;
@@ -60,6 +89,8 @@ export default function LtvCalculatorStep({
   const [requestedSize, setRequestedSize] = useState<string>("");
   const [targetLtv, setTargetLtv] = useState<string>("15");
   const [maxLtv, setMaxLtv] = useState<string>("18");
+  const [termMonths, setTermMonths] = useState<string>("36");
+  const [seed, setSeed] = useState<string>("");
   const [isCalculating, setIsCalculating] = useState(false);
   const { toast } = useToast();
 
@@ -76,11 +107,17 @@ export default function LtvCalculatorStep({
       const payload: any = {
         targetLtv: parseFloat(targetLtv),
         maxLtv: parseFloat(maxLtv),
+        termMonths: parseInt(termMonths, 10) || 36,
       };
       
       if (requestedSize && parseFloat(requestedSize) > 0) {
         payload.requestedFacilitySize = parseFloat(requestedSize);
       }
+
+      // Reusing a seed reproduces a previous simulation
+      if (seed !== "") {
+        payload.seed = parseInt(seed, 10);
+      }
       
       return await apiRequest(`/api/underwriting/sessions/${sessionId}/ltv`, {
         method: "POST",
@@ -296,6 +333,7 @@ export default function LtvCalculatorStep({
             </div>
             <p className="text-xs text-muted-foreground mt-1">
               Max: {formatCurrency(ltvCalc.maxFacilitySize)}
+              {ltvCalc.borrowingBase !== null && ` (borrowing base ${formatCurrency(ltvCalc.borrowingBase)})`}
             </p>
           </CardContent>
         </Card>
@@ -328,7 +366,9 @@ export default function LtvCalculatorStep({
               {breachProbNum.toFixed(0)}%
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              Under stress scenarios
+              {ltvCalc.simulation
+                ? `Over ${ltvCalc.simulation.termMonths} months (Monte Carlo)`
+                : "Under stress scenarios"}
             </p>
           </CardContent>
         </Card>
@@ -391,6 +431,94 @@ export default function LtvCalculatorStep({
         </CardContent>
       </Card>
 
+      {/* Reverse Stress Test */}
+      {ltvCalc.reverseStress && (
+        <Card data-testid="card-reverse-stress">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingDown className="w-5 h-5" />
+              Breaking Points
+            </CardTitle>
+            <CardDescription>
+              How far NAV can fall, the largest holding can be written down, or the facility can be
+              drawn before the {maxLtvNum}% max LTV is breached
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BreakingPointsTable result={ltvCalc.reverseStress} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Monte Carlo Simulation */}
+      {ltvCalc.simulation && (
+        <Card data-testid="card-nav-simulation">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertCircle className="w-5 h-5" />
+              NAV Simulation
+            </CardTitle>
+            <CardDescription>
+              {ltvCalc.simulation.paths.toLocaleString()} simulated NAV paths with sector volatility,
+              correlation, draws and distributions · seed {ltvCalc.simulation.seed}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Horizon</TableHead>
+                  <TableHead className="text-right">Breached By</TableHead>
+                  <TableHead className="text-right">Above Max At</TableHead>
+                  <TableHead className="text-right">NAV P5</TableHead>
+                  <TableHead className="text-right">NAV P25</TableHead>
+                  <TableHead className="text-right">NAV Median</TableHead>
+                  <TableHead className="text-right">NAV P75</TableHead>
+                  <TableHead className="text-right">NAV P95</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ltvCalc.simulation.horizons.map((horizon) => (
+                  <TableRow key={horizon.month} data-testid={`row-horizon-${horizon.month}`}>
+                    <TableCell className="font-medium">{horizon.month} months</TableCell>
+                    <TableCell
+                      className={`text-right font-mono tabular-nums ${getBreachProbabilityColor(horizon.breachProbability)}`}
+                      data-testid={`text-horizon-breach-${horizon.month}`}
+                    >
+                      {horizon.breachProbability.toFixed(1)}%
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {horizon.ltvAboveMaxProbability.toFixed(1)}%
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {formatCurrency(horizon.navPercentiles.p5)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {formatCurrency(horizon.navPercentiles.p25)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {formatCurrency(horizon.navPercentiles.p50)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {formatCurrency(horizon.navPercentiles.p75)}
+                    </TableCell>
+                    <TableCell className="text-right font-mono tabular-nums">
+                      {formatCurrency(horizon.navPercentiles.p95)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {ltvCalc.simulation.medianMonthsToBreach !== null && (
+              <p className="text-sm text-muted-foreground" data-testid="text-median-months-to-breach">
+                Breaching paths cross the {maxLtvNum}% covenant after a median of{" "}
+                {ltvCalc.simulation.medianMonthsToBreach} months.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Pricing Recommendations */}
       <Card>
         <CardHeader>
@@ -478,6 +606,34 @@ export default function LtvCalculatorStep({
                 onChange={(e) => setMaxLtv(e.target.value)}
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="input-term-months">Facility Term (months)</Label>
+              <Input
+                id="input-term-months"
+                data-testid="input-term-months-adjust"
+                type="number"
+                min="1"
+                max="240"
+                value={termMonths}
+                onChange={(e) => setTermMonths(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="input-simulation-seed">Simulation Seed</Label>
+              <Input
+                id="input-simulation-seed"
+                data-testid="input-simulation-seed"
+                type="number"
+                placeholder={ltvCalc.simulationSeed !== null ? `e.g., ${ltvCalc.simulationSeed}` : "Random"}
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Reuse a seed to reproduce a previous run
+              </p>
+            </div>
           </div>
 
           <Button
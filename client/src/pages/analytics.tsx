@@ -116,6 +116,41 @@ interface StressTestResults {
     riskLevel: 'low' | 'medium' | 'high' | 'critical';
     recommendation: string;
   }>;
+  scenarios: ShockScenarioResult[];
+}
+
+interface ShockScenarioResult {
+  scenario: {
+    name: string;
+    description?: string;
+  };
+  totalExposure: number;
+  baselineNav: number;
+  stressedNav: number;
+  navDecline: number;
+  avgLtv: number;
+  facilitiesAtRisk: number;
+  breachCount: number;
+  facilities: Array<{
+    facilityId: string;
+    fundName: string;
+    baselineLtv: number;
+    stressedLtv: number;
+    ltvLimit: number;
+    ltvBreach: boolean;
+    navChangePercent: number;
+    largestLosses: Array<{
+      companyId: string;
+      companyName: string;
+      shockPercent: number;
+    }>;
+    covenants: Array<{
+      covenantId: string;
+      covenantType: string;
+      stressedStatus: 'compliant' | 'warning' | 'breach' | null;
+    }>;
+    breachCount: number;
+  }>;
 }
 
 interface ConcentrationAnalysis {
@@ -923,6 +958,93 @@ export default function AnalyticsPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              {stressTestData.scenarios?.length > 0 && (
+                <Card data-testid="card-stress-test-shock-scenarios">
+                  <CardHeader>
+                    <CardTitle>Concentration Shock Scenarios</CardTitle>
+                    <CardDescription>
+                      Holding, sector and geography shocks propagated to each facility's NAV and covenants
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="rounded-lg border overflow-hidden">
+                      <Table>
+                        <TableHeader>
+                          <TableRow className="hover:bg-transparent">
+                            <TableHead>Scenario</TableHead>
+                            <TableHead className="text-right">NAV Decline</TableHead>
+                            <TableHead className="text-right">Avg LTV</TableHead>
+                            <TableHead className="text-right">Facilities at Risk</TableHead>
+                            <TableHead className="text-right">Breaches</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {stressTestData.scenarios.map((result) => (
+                            <TableRow key={result.scenario.name} data-testid={`row-shock-${result.scenario.name}`}>
+                              <TableCell>
+                                <div className="font-medium">{result.scenario.name}</div>
+                                {result.scenario.description && (
+                                  <div className="text-xs text-muted-foreground">{result.scenario.description}</div>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right tabular-nums">-{result.navDecline}%</TableCell>
+                              <TableCell className="text-right tabular-nums">{result.avgLtv}%</TableCell>
+                              <TableCell className="text-right tabular-nums">{result.facilitiesAtRisk}</TableCell>
+                              <TableCell className="text-right tabular-nums">
+                                <span className={result.breachCount > 0 ? 'text-destructive' : ''}>
+                                  {result.breachCount}
+                                </span>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+
+                    {stressTestData.scenarios
+                      .filter((result) => result.facilitiesAtRisk > 0)
+                      .map((result) => (
+                        <div key={result.scenario.name} className="space-y-2">
+                          <h4 className="text-sm font-semibold">{result.scenario.name}: facilities in breach</h4>
+                          {result.facilities
+                            .filter((facility) => facility.breachCount > 0)
+                            .map((facility) => (
+                              <div key={facility.facilityId} className="p-3 rounded-lg border text-sm space-y-1">
+                                <div className="flex items-center justify-between gap-2">
+                                  <span className="font-medium">{facility.fundName}</span>
+                                  <span className="tabular-nums">
+                                    LTV {facility.baselineLtv}% → <span className={facility.ltvBreach ? 'text-destructive' : ''}>{facility.stressedLtv}%</span>
+                                    <span className="text-muted-foreground"> (limit {facility.ltvLimit}%)</span>
+                                  </span>
+                                </div>
+                                <div className="flex flex-wrap gap-1">
+                                  {facility.covenants
+                                    .filter((covenant) => covenant.stressedStatus === 'breach')
+                                    .map((covenant) => (
+                                      <Badge key={covenant.covenantId} variant="destructive">
+                                        {covenant.covenantType.replace(/_/g, ' ')}
+                                      </Badge>
+                                    ))}
+                                  {facility.ltvBreach && !facility.covenants.some((c) => c.stressedStatus === 'breach' && c.covenantType.includes('ltv')) && (
+                                    <Badge variant="destructive">LTV policy limit</Badge>
+                                  )}
+                                </div>
+                                {facility.largestLosses.length > 0 && (
+                                  <p className="text-xs text-muted-foreground">
+                                    Largest losses:{' '}
+                                    {facility.largestLosses
+                                      .map((holding) => `${holding.companyName} (${holding.shockPercent}%)`)
+                                      .join(', ')}
+                                  </p>
+                                )}
+                              </div>
+                            ))}
+                        </div>
+                      ))}
+                  </CardContent>
+                </Card>
+              )}
             </>
           ) : (
             <Card>
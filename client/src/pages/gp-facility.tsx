@@ -26,6 +26,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
@@ -47,6 +48,9 @@ import { insertDrawRequestSchema } from "@shared/schema";
 import { FacilityDocuments } from "@/components/facility-documents";
 import { FacilityMessaging } from "@/components/facility-messaging";
 import { UpgradePrompt } from "@/components/upgrade-prompt";
+import { CovenantHeadroomCard } from "@/components/covenant-headroom";
+import { BorrowingBaseCard } from "@/components/borrowing-base";
+import { ComplianceCertificateForm } from "@/components/compliance-certificates";
 
 export default function GPFacility() {
   const { toast } = useToast();
@@ -220,6 +224,15 @@ export default function GPFacility() {
           <TabsTrigger value="payments" data-testid="tab-repayments">
             Repayments
           </TabsTrigger>
+          <TabsTrigger value="headroom" data-testid="tab-headroom">
+            Covenant Headroom
+          </TabsTrigger>
+          <TabsTrigger value="borrowing-base" data-testid="tab-borrowing-base">
+            Borrowing Base
+          </TabsTrigger>
+          <TabsTrigger value="compliance" data-testid="tab-compliance">
+            Compliance
+          </TabsTrigger>
           <TabsTrigger value="documents" data-testid="tab-documents">
             Documents
           </TabsTrigger>
@@ -258,6 +271,8 @@ export default function GPFacility() {
         </TabsContent>
 
         <TabsContent value="payments" className="space-y-4">
+          <PayoffQuoteCard facilityId={activeFacility.id} />
+
           {facilityCashFlows.length === 0 ? (
             <Card>
               <CardContent className="pt-6">
@@ -279,6 +294,18 @@ export default function GPFacility() {
           )}
         </TabsContent>
 
+        <TabsContent value="headroom" className="space-y-4">
+          <CovenantHeadroomCard facilityId={activeFacility.id} />
+        </TabsContent>
+
+        <TabsContent value="borrowing-base" className="space-y-4">
+          <BorrowingBaseCard facilityId={activeFacility.id} />
+        </TabsContent>
+
+        <TabsContent value="compliance" className="space-y-4">
+          <ComplianceCertificateForm facilityId={activeFacility.id} />
+        </TabsContent>
+
         <TabsContent value="documents" className="space-y-4">
           <FacilityDocuments facilityId={activeFacility.id} />
         </TabsContent>
@@ -306,6 +333,8 @@ function DrawRequestCard({ drawRequest }: DrawRequestCardProps) {
         return "bg-success text-success-foreground";
       case "approved":
         return "bg-primary text-primary-foreground";
+      case "credit_approved":
+        return "bg-primary/70 text-primary-foreground";
       case "rejected":
         return "bg-destructive text-destructive-foreground";
       default:
@@ -319,6 +348,8 @@ function DrawRequestCard({ drawRequest }: DrawRequestCardProps) {
         return <CheckCircle2 className="h-4 w-4" />;
       case "approved":
         return <CheckCircle2 className="h-4 w-4" />;
+      case "credit_approved":
+        return <Clock className="h-4 w-4" />;
       case "rejected":
         return <XCircle className="h-4 w-4" />;
       default:
@@ -341,7 +372,11 @@ function DrawRequestCard({ drawRequest }: DrawRequestCardProps) {
           <Badge className={getStatusColor(drawRequest.status)}>
             <div className="flex items-center gap-1">
               {getStatusIcon(drawRequest.status)}
-              <span className="capitalize">{drawRequest.status}</span>
+              <span className="capitalize">
+                {drawRequest.status === "credit_approved"
+                  ? "Awaiting treasury"
+                  : drawRequest.status}
+              </span>
             </div>
           </Badge>
         </div>
@@ -357,9 +392,15 @@ function DrawRequestCard({ drawRequest }: DrawRequestCardProps) {
             <p className="text-sm text-muted-foreground">Requested By</p>
             <p className="font-medium">{drawRequest.requestedBy}</p>
           </div>
+          {drawRequest.creditApprovedBy && (
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">Credit Approval</p>
+              <p className="font-medium">{drawRequest.creditApprovedBy}</p>
+            </div>
+          )}
           {drawRequest.approvedBy && (
             <div className="space-y-1">
-              <p className="text-sm text-muted-foreground">Approved By</p>
+              <p className="text-sm text-muted-foreground">Treasury Approval</p>
               <p className="font-medium">{drawRequest.approvedBy}</p>
             </div>
           )}
@@ -467,6 +508,122 @@ function PaymentCard({ cashFlow }: PaymentCardProps) {
   );
 }
 
+// Payoff Quote Card Component
+interface PayoffQuote {
+  payoffDate: string;
+  principal: number;
+  accruedInterest: number;
+  accruedPik: number;
+  accruedFees: number;
+  prepaymentPenalty: number;
+  totalPayoff: number;
+  perDiem: number;
+  interestRateBps: number;
+  dayCountConvention: string;
+}
+
+interface PayoffQuoteCardProps {
+  facilityId: string;
+}
+
+function PayoffQuoteCard({ facilityId }: PayoffQuoteCardProps) {
+  const [payoffDate, setPayoffDate] = useState(() => new Date().toISOString().slice(0, 10));
+
+  const { data: quote, isLoading } = useQuery<PayoffQuote>({
+    queryKey: ["/api/facilities", facilityId, `payoff-quote?date=${payoffDate}`],
+    enabled: !!payoffDate,
+  });
+
+  const formatAmount = (amount: number) =>
+    `$${amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+  return (
+    <Card data-testid="card-payoff-quote">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="text-lg">Payoff Quote</CardTitle>
+            <CardDescription>
+              What it takes to repay the facility in full on a given date
+            </CardDescription>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="payoff-date" className="text-xs text-muted-foreground">
+              Payoff date
+            </Label>
+            <Input
+              id="payoff-date"
+              type="date"
+              value={payoffDate}
+              onChange={(e) => setPayoffDate(e.target.value)}
+              className="w-40"
+              data-testid="input-payoff-date"
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !quote ? (
+          <p className="text-sm text-muted-foreground">Calculating payoff...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Principal</p>
+                <p className="font-semibold tabular-nums" data-testid="text-payoff-principal">
+                  {formatAmount(quote.principal)}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Accrued Interest</p>
+                <p className="font-semibold tabular-nums" data-testid="text-payoff-interest">
+                  {formatAmount(quote.accruedInterest)}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Fees</p>
+                <p className="font-semibold tabular-nums">
+                  {formatAmount(quote.accruedFees)}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Prepayment Penalty</p>
+                <p className="font-semibold tabular-nums" data-testid="text-payoff-penalty">
+                  {formatAmount(quote.prepaymentPenalty)}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <p className="text-sm text-muted-foreground">Total Payoff</p>
+                <p className="text-2xl font-bold tabular-nums" data-testid="text-payoff-total">
+                  {formatAmount(quote.totalPayoff)}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-sm text-muted-foreground">Per Diem</p>
+                <p className="font-semibold tabular-nums" data-testid="text-payoff-per-diem">
+                  {formatAmount(quote.perDiem)}/day
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {(quote.interestRateBps / 100).toFixed(2)}% · {quote.dayCountConvention}
+                </p>
+              </div>
+            </div>
+
+            {quote.accruedPik > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Principal includes {formatAmount(quote.accruedPik)} of accrued PIK interest
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 // Draw Request Dialog Component
 interface DrawRequestDialogProps {
   facilityId: string;
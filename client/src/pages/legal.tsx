@@ -1,5 +1,6 @@
 import { Scale } from "lucide-react";
 import { LegalTemplateBuilder } from "@/components/legal-template-builder";
+import { CreditDocumentRedline } from "@/components/credit-document-redline";
 
 export default function LegalPage() {
   return (
@@ -12,6 +13,8 @@ export default function LegalPage() {
       </div>
 
       <LegalTemplateBuilder />
+
+      <CreditDocumentRedline />
     </div>
   );
 }
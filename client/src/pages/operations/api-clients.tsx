@@ -11,8 +11,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Loader2, Plus, Key, AlertCircle, CheckCircle2, Clock, XCircle, Copy } from "lucide-react";
+import { Loader2, Plus, Key, AlertCircle, CheckCircle2, Clock, XCircle, Copy, Webhook, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import {
+  availableWebhookEvents,
+  WebhookDeliveryLogDialog,
+  WebhookEventCheckboxes,
+  WebhookSecretField,
+  WebhookSettingsDialog,
+  type WebhookClient,
+} from "@/components/api-client-webhooks";
 
 const createClientSchema = z.object({
   clientName: z.string().min(1, "Client name is required"),
@@ -37,6 +45,10 @@ export default function ApiClientsPage() {
   const [newClientSecret, setNewClientSecret] = useState<string | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [selectedScopes, setSelectedScopes] = useState<string[]>(["read:facilities"]);
+  const [selectedEvents, setSelectedEvents] = useState<string[]>(availableWebhookEvents.map((event) => event.value));
+  const [newWebhookSecret, setNewWebhookSecret] = useState<string | null>(null);
+  const [webhookSettingsClient, setWebhookSettingsClient] = useState<WebhookClient | null>(null);
+  const [deliveryLogClient, setDeliveryLogClient] = useState<WebhookClient | null>(null);
 
   const { data: clients, isLoading } = useQuery({
     queryKey: ["/api/oauth/clients"],
@@ -44,15 +56,17 @@ export default function ApiClientsPage() {
 
   const createMutation = useMutation({
     mutationFn: async (data: z.infer<typeof createClientSchema>) => {
-      const response = await apiRequest("/api/oauth/clients", {
-        method: "POST",
-        body: JSON.stringify({ ...data, allowedScopes: selectedScopes }),
+      const response = await apiRequest("POST", "/api/oauth/clients", {
+        ...data,
+        allowedScopes: selectedScopes,
+        webhookEvents: data.webhookUrl ? selectedEvents : undefined,
       });
       return response.json();
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/oauth/clients"] });
       setNewClientSecret(data.clientSecret);
+      setNewWebhookSecret(data.webhookSecret ?? null);
       toast({
         title: "API Client Created",
         description: "Save the client secret - it will only be shown once!",
@@ -62,10 +76,7 @@ export default function ApiClientsPage() {
 
   const updateMutation = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      return await apiRequest(`/api/oauth/clients/${id}`, {
-        method: "PATCH",
-        body: JSON.stringify({ status }),
-      });
+      return await apiRequest("PATCH", `/api/oauth/clients/${id}`, { status });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/oauth/clients"] });
@@ -78,9 +89,7 @@ export default function ApiClientsPage() {
 
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
-      return await apiRequest(`/api/oauth/clients/${id}`, {
-        method: "DELETE",
-      });
+      return await apiRequest("DELETE", `/api/oauth/clients/${id}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/oauth/clients"] });
@@ -190,11 +199,14 @@ export default function ApiClientsPage() {
                       </Button>
                     </div>
                   </div>
+
+                  {newWebhookSecret && <WebhookSecretField secret={newWebhookSecret} />}
                 </div>
 
                 <Button
                   onClick={() => {
                     setNewClientSecret(null);
+                    setNewWebhookSecret(null);
                     setIsCreateDialogOpen(false);
                     form.reset();
                   }}
@@ -303,6 +315,35 @@ export default function ApiClientsPage() {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="webhookUrl"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Webhook URL (Optional)</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            placeholder="https://treasury.example.com/alphanav/webhooks"
+                            data-testid="input-webhook-url"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {form.watch("webhookUrl") && (
+                    <div>
+                      <label className="text-sm font-medium">Webhook Events</label>
+                      <WebhookEventCheckboxes
+                        selected={selectedEvents}
+                        onChange={setSelectedEvents}
+                        allowedScopes={selectedScopes}
+                      />
+                    </div>
+                  )}
+
                   <Button
                     type="submit"
                     className="w-full"
@@ -370,6 +411,26 @@ export default function ApiClientsPage() {
                     </CardDescription>
                   </div>
                   <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setWebhookSettingsClient(client)}
+                      data-testid={`button-webhook-settings-${client.id}`}
+                    >
+                      <Webhook className="h-4 w-4 mr-1" />
+                      Webhook
+                    </Button>
+                    {client.webhookUrl && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setDeliveryLogClient(client)}
+                        data-testid={`button-webhook-log-${client.id}`}
+                      >
+                        <History className="h-4 w-4 mr-1" />
+                        Deliveries
+                      </Button>
+                    )}
                     {client.status === "active" && (
                       <Button
                         variant="outline"
@@ -437,11 +498,39 @@ export default function ApiClientsPage() {
                     ))}
                   </div>
                 )}
+                {client.webhookUrl && (
+                  <div className="mt-4 text-sm">
+                    <p className="text-muted-foreground">Webhook</p>
+                    <p className="font-mono text-xs break-all" data-testid={`text-webhook-url-${client.id}`}>
+                      {client.webhookUrl}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {client.webhookEvents
+                        ? client.webhookEvents.length > 0 ? client.webhookEvents.join(", ") : "No events selected"
+                        : "All events"}
+                    </p>
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
         </div>
       )}
+
+      {webhookSettingsClient && (
+        <WebhookSettingsDialog
+          client={webhookSettingsClient}
+          open
+          onOpenChange={(open) => !open && setWebhookSettingsClient(null)}
+        />
+      )}
+      {deliveryLogClient && (
+        <WebhookDeliveryLogDialog
+          client={deliveryLogClient}
+          open
+          onOpenChange={(open) => !open && setDeliveryLogClient(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,8 +1,14 @@
 import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
+import { CovenantClauseReviewPanel } from "@/components/covenant-clause-review";
+import { ComplianceCertificateReviewQueue } from "@/components/compliance-certificates";
+import { CovenantHeadroomCard } from "@/components/covenant-headroom";
+import { BorrowingBaseCard } from "@/components/borrowing-base";
 import {
   CheckCircle2,
   AlertCircle,
@@ -16,6 +22,8 @@ export default function CovenantMonitoringPage() {
   const { data: facilities = [], isLoading: facilitiesLoading } = useQuery<any[]>({
     queryKey: ["/api/facilities"],
   });
+  const [headroomFacilityId, setHeadroomFacilityId] = useState<string | null>(null);
+  const [borrowingBaseFacilityId, setBorrowingBaseFacilityId] = useState<string | null>(null);
 
   // Aggregate covenant status across all facilities
   const aggregateCovStatus = facilities.reduce(
@@ -80,9 +88,9 @@ export default function CovenantMonitoringPage() {
 
   const formatValue = (value: number, covenantType: string) => {
     // Format based on covenant type
-    // LTV and coverage ratios are stored as integers (e.g., 65 = 65%)
+    // LTV is stored in tenths of a percent (e.g., 150 = 15.0%)
     if (covenantType.includes("ltv")) {
-      return `${value.toFixed(1)}%`;
+      return `${(value / 10).toFixed(1)}%`;
     }
     // Debt/EBITDA and similar ratios are stored in basis points (150 = 1.50x)
     if (covenantType.includes("debt") || covenantType.includes("coverage") || covenantType.includes("ratio")) {
@@ -206,9 +214,31 @@ export default function CovenantMonitoringPage() {
                         {facility.lenderName} • {covenants.length} covenant(s)
                       </CardDescription>
                     </div>
-                    <Badge variant="secondary">
-                      {facility.status}
-                    </Badge>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          setHeadroomFacilityId(headroomFacilityId === facility.id ? null : facility.id)
+                        }
+                        data-testid={`button-headroom-${facility.id}`}
+                      >
+                        {headroomFacilityId === facility.id ? "Hide Headroom" : "Headroom"}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          setBorrowingBaseFacilityId(borrowingBaseFacilityId === facility.id ? null : facility.id)
+                        }
+                        data-testid={`button-borrowing-base-${facility.id}`}
+                      >
+                        {borrowingBaseFacilityId === facility.id ? "Hide Borrowing Base" : "Borrowing Base"}
+                      </Button>
+                      <Badge variant="secondary">
+                        {facility.status}
+                      </Badge>
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -236,6 +266,11 @@ export default function CovenantMonitoringPage() {
                               </h4>
                               {statusBadge}
                             </div>
+                            {covenant.formula && (
+                              <div className="text-xs font-mono text-muted-foreground mb-2">
+                                {covenant.formula}
+                              </div>
+                            )}
                             
                             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                               <div>
@@ -269,10 +304,12 @@ export default function CovenantMonitoringPage() {
                               </div>
                               <div>
                                 <div className="text-xs text-muted-foreground mb-1">
-                                  Check Frequency
+                                  {covenant.nextCheckDate ? "Next Test" : "Check Frequency"}
                                 </div>
                                 <div className="font-medium capitalize">
-                                  {covenant.checkFrequency}
+                                  {covenant.nextCheckDate
+                                    ? new Date(covenant.nextCheckDate).toLocaleDateString()
+                                    : covenant.checkFrequency}
                                 </div>
                               </div>
                             </div>
@@ -286,6 +323,10 @@ export default function CovenantMonitoringPage() {
                                     the {covenant.covenantType.replace("_", " ")} covenant.
                                     Immediate action required.
                                     {covenant.breachNotified && " (Lender notified)"}
+                                    {covenant.cureStatus === "in_cure" && covenant.cureDeadline && (
+                                      <> Cure period ends {new Date(covenant.cureDeadline).toLocaleDateString()}.</>
+                                    )}
+                                    {covenant.cureStatus === "cure_failed" && " Cure period expired."}
                                   </div>
                                 </div>
                               </div>
@@ -306,6 +347,12 @@ export default function CovenantMonitoringPage() {
                         </div>
                       );
                     })}
+                    {headroomFacilityId === facility.id && (
+                      <CovenantHeadroomCard facilityId={facility.id} />
+                    )}
+                    {borrowingBaseFacilityId === facility.id && (
+                      <BorrowingBaseCard facilityId={facility.id} canIssue />
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -313,6 +360,12 @@ export default function CovenantMonitoringPage() {
           })}
         </div>
       )}
+
+      {/* GP compliance certificates awaiting sign-off */}
+      <ComplianceCertificateReviewQueue />
+
+      {/* Covenants extracted from credit agreements */}
+      <CovenantClauseReviewPanel />
     </div>
   );
 }
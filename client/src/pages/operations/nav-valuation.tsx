@@ -20,12 +20,24 @@ import {
   Calculator,
   Target,
   Briefcase,
-  Activity
+  Activity,
+  Scale
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { PortfolioCompany, Facility } from "@shared/schema";
 import { formatCurrency } from "@/lib/export-utils";
+import { NavReconciliationCard } from "@/components/nav-reconciliation";
+
+interface MethodValuation {
+  method: string;
+  label: string;
+  low: number;
+  mid: number;
+  high: number;
+  weight: number;
+  notes: string[];
+}
 
 interface ValuationResult {
   baseValuation: number;
@@ -37,6 +49,7 @@ interface ValuationResult {
   methodology: string;
   assumptions: string[];
   confidence: number;
+  methods: MethodValuation[];
   aiInsights?: string;
 }
 
@@ -93,6 +106,12 @@ export default function NAVValuationPage() {
   const [currentEBITDA, setCurrentEBITDA] = useState<string>("");
   const [revenueGrowthRate, setRevenueGrowthRate] = useState<string>("");
   const [industryMultiple, setIndustryMultiple] = useState<string>("");
+  const [netDebt, setNetDebt] = useState<string>("");
+  const [wacc, setWacc] = useState<string>("");
+  const [terminalGrowth, setTerminalGrowth] = useState<string>("2.5");
+  const [lastRoundValuation, setLastRoundValuation] = useState<string>("");
+  const [lastRoundDate, setLastRoundDate] = useState<string>("");
+  const [recordAsOf, setRecordAsOf] = useState<string>("");
   const [valuationResult, setValuationResult] = useState<ValuationResult | null>(null);
 
   // Stress test state
@@ -130,14 +149,29 @@ export default function NAVValuationPage() {
           currentEBITDA: currentEBITDA ? parseFloat(currentEBITDA) : undefined,
           revenueGrowthRate: revenueGrowthRate ? parseFloat(revenueGrowthRate) : undefined,
           industryMultiple: industryMultiple ? parseFloat(industryMultiple) : undefined,
+          netDebt: netDebt ? parseFloat(netDebt) : undefined,
+          dcf: wacc
+            ? { wacc: parseFloat(wacc), terminalGrowth: parseFloat(terminalGrowth || "0") }
+            : undefined,
+          lastRound: lastRoundValuation && lastRoundDate
+            ? { postMoneyValuation: parseFloat(lastRoundValuation), date: lastRoundDate }
+            : undefined,
+          recordAsOf: recordAsOf || undefined,
         }),
       });
     },
     onSuccess: (data: ValuationResult) => {
       setValuationResult(data);
+      if (recordAsOf) {
+        queryClient.invalidateQueries({
+          predicate: (query) => String(query.queryKey[0]).startsWith("/api/nav-valuation/reconciliation/"),
+        });
+      }
       toast({
         title: "Valuation Calculated",
-        description: "Company valuation has been successfully calculated.",
+        description: recordAsOf
+          ? `Company valuation calculated and recorded as the model mark for ${recordAsOf}.`
+          : "Company valuation has been successfully calculated.",
       });
     },
     onError: (error: any) => {
@@ -286,7 +320,7 @@ export default function NAVValuationPage() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="company" data-testid="tab-company-valuation">
             <Calculator className="h-4 w-4 mr-2" />
             Company Valuation
@@ -299,6 +333,10 @@ export default function NAVValuationPage() {
             <Briefcase className="h-4 w-4 mr-2" />
             Portfolio NAV
           </TabsTrigger>
+          <TabsTrigger value="reconciliation" data-testid="tab-nav-reconciliation">
+            <Scale className="h-4 w-4 mr-2" />
+            Reconciliation
+          </TabsTrigger>
           <TabsTrigger value="scenarios" data-testid="tab-scenarios">
             <Target className="h-4 w-4 mr-2" />
             Scenarios
@@ -311,7 +349,7 @@ export default function NAVValuationPage() {
             <CardHeader>
               <CardTitle>Company Valuation Calculator</CardTitle>
               <CardDescription>
-                Calculate enterprise value using revenue multiples and AI-powered insights
+                Blend trading comparables, DCF, last round and cost into a reproducible fair value
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -369,17 +407,91 @@ export default function NAVValuationPage() {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="industry-multiple">Industry Multiple</Label>
+                  <Label htmlFor="industry-multiple">EV/EBITDA Multiple</Label>
                   <Input
                     id="industry-multiple"
                     type="number"
                     step="0.1"
-                    placeholder="e.g., 8.5"
+                    placeholder="Sector median"
                     value={industryMultiple}
                     onChange={(e) => setIndustryMultiple(e.target.value)}
                     data-testid="input-industry-multiple"
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="net-debt">Net Debt ($)</Label>
+                  <Input
+                    id="net-debt"
+                    type="number"
+                    placeholder="e.g., 20000000"
+                    value={netDebt}
+                    onChange={(e) => setNetDebt(e.target.value)}
+                    data-testid="input-net-debt"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="wacc">DCF WACC (%)</Label>
+                  <Input
+                    id="wacc"
+                    type="number"
+                    step="0.1"
+                    placeholder="Leave empty to skip DCF"
+                    value={wacc}
+                    onChange={(e) => setWacc(e.target.value)}
+                    data-testid="input-wacc"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="terminal-growth">DCF Terminal Growth (%)</Label>
+                  <Input
+                    id="terminal-growth"
+                    type="number"
+                    step="0.1"
+                    value={terminalGrowth}
+                    onChange={(e) => setTerminalGrowth(e.target.value)}
+                    data-testid="input-terminal-growth"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="last-round-valuation">Last Round Post-Money ($)</Label>
+                  <Input
+                    id="last-round-valuation"
+                    type="number"
+                    placeholder="e.g., 250000000"
+                    value={lastRoundValuation}
+                    onChange={(e) => setLastRoundValuation(e.target.value)}
+                    data-testid="input-last-round-valuation"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="last-round-date">Last Round Date</Label>
+                  <Input
+                    id="last-round-date"
+                    type="date"
+                    value={lastRoundDate}
+                    onChange={(e) => setLastRoundDate(e.target.value)}
+                    data-testid="input-last-round-date"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="record-as-of">Record as Model Mark (as of)</Label>
+                  <Input
+                    id="record-as-of"
+                    type="date"
+                    value={recordAsOf}
+                    onChange={(e) => setRecordAsOf(e.target.value)}
+                    data-testid="input-record-as-of"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Leave empty to value without saving a mark for reconciliation
+                  </p>
+                </div>
               </div>
 
               <Button
@@ -456,6 +568,30 @@ export default function NAVValuationPage() {
                         <p className="text-sm text-muted-foreground">{valuationResult.methodology}</p>
                       </div>
 
+                      {valuationResult.methods.length > 0 && (
+                        <div>
+                          <h4 className="font-medium mb-2">Methods</h4>
+                          <div className="rounded-lg border divide-y">
+                            {valuationResult.methods.map((method) => (
+                              <div
+                                key={method.method}
+                                className="grid grid-cols-5 gap-2 p-3 text-sm"
+                                data-testid={`row-valuation-method-${method.method}`}
+                              >
+                                <span className="col-span-2 font-medium">{method.label}</span>
+                                <span className="text-right tabular-nums text-muted-foreground">
+                                  {formatCurrency(method.low)} – {formatCurrency(method.high)}
+                                </span>
+                                <span className="text-right tabular-nums">{formatCurrency(method.mid)}</span>
+                                <span className="text-right">
+                                  <Badge variant="outline">{method.weight}%</Badge>
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
                       <div>
                         <h4 className="font-medium mb-2">Key Assumptions</h4>
                         <ul className="list-disc list-inside space-y-1">
@@ -781,6 +917,37 @@ export default function NAVValuationPage() {
           </Card>
         </TabsContent>
 
+        {/* Reconciliation Tab */}
+        <TabsContent value="reconciliation" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Mark-to-Model Reconciliation</CardTitle>
+              <CardDescription>
+                Compare GP-reported holding marks with model valuations recorded from the Company Valuation tab
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                <Label htmlFor="reconciliation-facility-select">Facility *</Label>
+                <Select value={selectedFacilityId} onValueChange={setSelectedFacilityId}>
+                  <SelectTrigger id="reconciliation-facility-select" data-testid="select-reconciliation-facility">
+                    <SelectValue placeholder="Select facility" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {facilities.map((facility) => (
+                      <SelectItem key={facility.id} value={facility.id}>
+                        {facility.fundName} - {formatCurrency(facility.principalAmount)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          {selectedFacilityId && <NavReconciliationCard facilityId={selectedFacilityId} />}
+        </TabsContent>
+
         {/* Scenarios Tab */}
         <TabsContent value="scenarios" className="space-y-6">
           <Card>
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RotateCcw, Send } from "lucide-react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import type { NotificationDelivery } from "@shared/schema";
+
+interface DeliveryQueue {
+  counts: Record<string, number>;
+  deliveries: NotificationDelivery[];
+}
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "text-muted-foreground" },
+  sending: { label: "Sending", className: "bg-blue-500/10 text-blue-600 border-blue-500/20" },
+  retrying: { label: "Retrying", className: "bg-yellow-500/10 text-yellow-600 border-yellow-500/20" },
+  sent: { label: "Sent", className: "bg-green-500/10 text-green-600 border-green-500/20" },
+  dead_letter: { label: "Dead letter", className: "bg-red-500/10 text-red-600 border-red-500/20" },
+  failed: { label: "Failed", className: "bg-red-500/10 text-red-600 border-red-500/20" },
+};
+
+const SUMMARY_STATUSES = ["retrying", "dead_letter", "sent"] as const;
+
+export default function NotificationDeliveriesPage() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<string>("dead_letter");
+  const [channel, setChannel] = useState<string>("all");
+
+  const { data: queue, isLoading } = useQuery<DeliveryQueue>({
+    queryKey: [`/api/notifications/deliveries?status=${status}&channel=${channel}`],
+    refetchInterval: 30000,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/notifications/deliveries/${id}/replay`);
+      return await res.json() as NotificationDelivery;
+    },
+    onSuccess: (delivery) => {
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith("/api/notifications/deliveries"),
+      });
+      toast({
+        title: delivery.status === "sent" ? "Delivery Sent" : "Delivery Requeued",
+        description: delivery.status === "sent"
+          ? `Delivered to ${delivery.recipient}.`
+          : `Send failed again (${delivery.error}); it will be retried automatically.`,
+        variant: delivery.status === "sent" ? "default" : "destructive",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Replay Failed",
+        description: error.message || "Failed to replay delivery",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold" data-testid="heading-notification-deliveries">
+          Notification Deliveries
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Outbound Slack, SMS and email sends. Failed sends are retried with exponential backoff;
+          deliveries that exhaust their retries are dead-lettered here for replay.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {SUMMARY_STATUSES.map((key) => (
+          <Card key={key}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{STATUS_BADGES[key].label}</p>
+              <p className="text-2xl font-mono tabular-nums" data-testid={`text-count-${key}`}>
+                {queue?.counts[key] ?? 0}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Send className="w-5 h-5" />
+                Delivery Queue
+              </CardTitle>
+              <CardDescription>Most recent 100 deliveries matching the filters</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger className="w-40" data-testid="select-delivery-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="dead_letter">Dead letter</SelectItem>
+                  <SelectItem value="retrying">Retrying</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="sent">Sent</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={channel} onValueChange={setChannel}>
+                <SelectTrigger className="w-36" data-testid="select-delivery-channel">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All channels</SelectItem>
+                  <SelectItem value="email">Email</SelectItem>
+                  <SelectItem value="slack">Slack</SelectItem>
+                  <SelectItem value="sms">SMS</SelectItem>
+                  <SelectItem value="in_app">In-app</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-48" />
+          ) : !queue || queue.deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No deliveries match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {queue.deliveries.map((delivery) => {
+                  const badge = STATUS_BADGES[delivery.status] ?? { label: delivery.status, className: "" };
+                  const canReplay = delivery.status === "dead_letter" || delivery.status === "failed";
+                  return (
+                    <TableRow key={delivery.id} data-testid={`row-delivery-${delivery.id}`}>
+                      <TableCell className="whitespace-nowrap text-sm">
+                        {format(new Date(delivery.createdAt), "MMM d, HH:mm")}
+                      </TableCell>
+                      <TableCell className="capitalize">{delivery.channel.replace("_", "-")}</TableCell>
+                      <TableCell className="text-sm">{delivery.recipient}</TableCell>
+                      <TableCell className="max-w-sm">
+                        <div className="text-sm truncate">{delivery.messageContent}</div>
+                        {delivery.error && (
+                          <div className="text-xs text-red-600 truncate" title={delivery.error}>
+                            {delivery.error}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono tabular-nums">{delivery.retryCount ?? 0}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={badge.className}>{badge.label}</Badge>
+                        {delivery.status === "retrying" && delivery.nextAttemptAt && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            next {format(new Date(delivery.nextAttemptAt), "HH:mm")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canReplay && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => replayMutation.mutate(delivery.id)}
+                            disabled={replayMutation.isPending}
+                            data-testid={`button-replay-${delivery.id}`}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            Replay
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
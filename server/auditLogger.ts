@@ -78,10 +78,20 @@ export const AuditActions = {
   CREATE_DRAW_REQUEST: 'create_draw_request',
   APPROVE_DRAW_REQUEST: 'approve_draw_request',
   REJECT_DRAW_REQUEST: 'reject_draw_request',
+  DISBURSE_DRAW_REQUEST: 'disburse_draw_request',
   
   // Covenants
   CHECK_COVENANT: 'check_covenant',
   UPDATE_COVENANT_STATUS: 'update_covenant_status',
+  REQUEST_COVENANT_WAIVER: 'request_covenant_waiver',
+  APPROVE_COVENANT_WAIVER: 'approve_covenant_waiver',
+  REJECT_COVENANT_WAIVER: 'reject_covenant_waiver',
+  AMEND_COVENANT: 'amend_covenant',
+  PROMOTE_COVENANT_CLAUSE: 'promote_covenant_clause',
+  DISMISS_COVENANT_CLAUSE: 'dismiss_covenant_clause',
+  SUBMIT_COMPLIANCE_CERTIFICATE: 'submit_compliance_certificate',
+  APPROVE_COMPLIANCE_CERTIFICATE: 'approve_compliance_certificate',
+  REJECT_COMPLIANCE_CERTIFICATE: 'reject_compliance_certificate',
   
   // Documents
   UPLOAD_DOCUMENT: 'upload_document',
@@ -97,6 +107,13 @@ export const AuditActions = {
   CREATE_CASH_FLOW: 'create_cash_flow',
   RECORD_PAYMENT: 'record_payment',
   
+  // Notifications
+  REPLAY_NOTIFICATION_DELIVERY: 'replay_notification_delivery',
+
+  // API Clients
+  ROTATE_WEBHOOK_SECRET: 'rotate_webhook_secret',
+  REDELIVER_WEBHOOK: 'redeliver_webhook',
+  
   // Access Control
   ACCESS_DENIED: 'access_denied',
   PERMISSION_ERROR: 'permission_error',
@@ -110,12 +127,18 @@ export const EntityTypes = {
   FACILITY: 'facility',
   PROSPECT: 'prospect',
   COVENANT: 'covenant',
+  CLAUSE_OCCURRENCE: 'clause_occurrence',
+  COMPLIANCE_CERTIFICATE: 'compliance_certificate',
   DRAW_REQUEST: 'draw_request',
   DOCUMENT: 'document',
   ADVISOR_DEAL: 'advisor_deal',
   TERM_SHEET: 'term_sheet',
   CASH_FLOW: 'cash_flow',
   NOTIFICATION: 'notification',
+  NOTIFICATION_DELIVERY: 'notification_delivery',
+  ESCALATION_POLICY: 'escalation_policy',
+  API_CLIENT: 'api_client',
+  WEBHOOK_DELIVERY: 'webhook_delivery',
   MESSAGE: 'message',
   ONBOARDING_SESSION: 'onboarding_session',
 } as const;
@@ -50,6 +50,8 @@ import {
   type InsertGeneratedDocument,
 } from "@shared/schema";
 import type { IStorage } from "./storage";
+import { notifyTermSheetReceived } from "./notificationUtils";
+import { emitWebhookEvent } from "./services/webhooks";
 
 export class DatabaseStorage implements IStorage {
   // User methods
@@ -411,6 +413,27 @@ export class DatabaseStorage implements IStorage {
       .insert(termSheets)
       .values(termSheet)
       .returning();
+
+    // Let the deal's advisor know a lender has responded
+    const [deal] = await db.select().from(advisorDeals).where(eq(advisorDeals.id, created.advisorDealId)).limit(1);
+    if (deal) {
+      const advisorUsers = await db.select().from(users).where(eq(users.advisorId, deal.advisorId));
+      for (const advisorUser of advisorUsers) {
+        await notifyTermSheetReceived(advisorUser.id, deal.id, deal.gpFundName, created.lenderName);
+      }
+    }
+
+    // Deals aren't owned by a GP account, so only clients not scoped to an organization receive this
+    await emitWebhookEvent("term_sheet.submitted", {
+      termSheetId: created.id,
+      advisorDealId: created.advisorDealId,
+      lenderName: created.lenderName,
+      loanAmount: created.loanAmount,
+      pricingRange: created.pricingRange,
+      ltvRatio: created.ltvRatio,
+      submittedAt: created.submittedAt.toISOString(),
+    });
+
     return created;
   }
 
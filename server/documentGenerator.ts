@@ -17,10 +17,15 @@ interface FacilityData {
   ltvRatio: number;
   maturityDate: Date;
   paymentSchedule: string;
+  referenceRate: string;
+  spreadBps: number | null;
+  rateFloorBps: number | null;
+  rateCapBps: number | null;
 }
 
 export function generateLoanAgreement(config: TemplateConfig, facility?: Partial<FacilityData>): string {
   const date = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const margin = facility?.spreadBps != null ? (facility.spreadBps / 100).toFixed(2) : '[MARGIN]';
   
   const doc = `# NAV FACILITY LOAN AGREEMENT
 
@@ -36,7 +41,7 @@ The Lender agrees to provide a credit facility to the Borrower in the principal
 ### 1.2 Interest Rate
 ${config.interestType === 'fixed' 
   ? `The Loan shall bear interest at a **fixed rate** of **${facility?.interestRate ? (facility.interestRate / 100).toFixed(2) : '[RATE]'}%** per annum.`
-  : `The Loan shall bear interest at a **variable rate** equal to SOFR plus [MARGIN]% per annum, calculated and payable ${facility?.paymentSchedule || 'quarterly'}.`
+  : `The Loan shall bear interest at a **variable rate** equal to ${facility?.referenceRate || 'SOFR'} plus ${margin}% per annum, reset at the start of each interest period, calculated and payable ${facility?.paymentSchedule || 'quarterly'}.${facility?.rateFloorBps != null ? ` ${facility?.referenceRate || 'SOFR'} shall be deemed to be not less than ${(facility.rateFloorBps / 100).toFixed(2)}% per annum.` : ''}${facility?.rateCapBps != null ? ` The interest rate shall not exceed ${(facility.rateCapBps / 100).toFixed(2)}% per annum.` : ''}`
 }
 
 ### 1.3 Term
@@ -165,6 +170,7 @@ Date:
 
 export function generateTermSheet(config: TemplateConfig, facility?: Partial<FacilityData>): string {
   const date = new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const margin = facility?.spreadBps != null ? (facility.spreadBps / 100).toFixed(2) : '[MARGIN]';
   
   const doc = `# NAV FACILITY TERM SHEET
 
@@ -179,7 +185,7 @@ export function generateTermSheet(config: TemplateConfig, facility?: Partial<Fac
 | **Term** | **Details** |
 |----------|-------------|
 | **Facility Amount** | $${facility?.principalAmount?.toLocaleString() || '[AMOUNT]'} |
-| **Interest Rate** | ${config.interestType === 'fixed' ? `${facility?.interestRate ? (facility.interestRate / 100).toFixed(2) : '[RATE]'}% fixed` : 'SOFR + [MARGIN]% variable'} |
+| **Interest Rate** | ${config.interestType === 'fixed' ? `${facility?.interestRate ? (facility.interestRate / 100).toFixed(2) : '[RATE]'}% fixed` : `${facility?.referenceRate || 'SOFR'} + ${margin}% variable`} |
 | **Term** | ${config.termLength} months |
 | **LTV Ratio** | Maximum ${facility?.ltvRatio || '[LTV]'}% |
 | **Payment Schedule** | ${facility?.paymentSchedule || 'Quarterly'} interest${config.amortizationSchedule ? ' and principal' : ', principal at maturity'} |
@@ -8,6 +8,8 @@ interface CreateNotificationParams {
   type?: "info" | "success" | "warning" | "error";
   priority?: "low" | "medium" | "high" | "urgent";
   actionUrl?: string;
+  relatedEntityType?: string;
+  relatedEntityId?: string;
 }
 
 export async function createNotification(params: CreateNotificationParams) {
@@ -18,6 +20,8 @@ export async function createNotification(params: CreateNotificationParams) {
     type = "info",
     priority = "medium",
     actionUrl,
+    relatedEntityType,
+    relatedEntityId,
   } = params;
 
   try {
@@ -30,6 +34,8 @@ export async function createNotification(params: CreateNotificationParams) {
         type,
         priority,
         actionUrl: actionUrl || null,
+        relatedEntityType: relatedEntityType || null,
+        relatedEntityId: relatedEntityId || null,
         isRead: false,
       })
       .returning();
@@ -66,14 +72,32 @@ export async function notifyTermSheetReceived(
   fundName: string,
   lenderName: string
 ) {
-  return await createNotification({
+  const notification = await createNotification({
     userId,
     title: "New Term Sheet Received",
     message: `${lenderName} submitted a term sheet for ${fundName}`,
     type: "success",
     priority: "high",
     actionUrl: `/advisor/deals/${dealId}`,
+    relatedEntityType: "advisor_deal",
+    relatedEntityId: dealId,
   });
+
+  // Advisors also get term sheets by email/SMS/Slack when configured
+  try {
+    const { sendNotification } = await import("./services/notificationDelivery");
+    await sendNotification({
+      userId,
+      message: notification.message,
+      type: "term_sheet_received",
+      notificationId: notification.id,
+      urgency: "high",
+    });
+  } catch (error) {
+    console.error("Failed to send multi-channel notifications:", error);
+  }
+
+  return notification;
 }
 
 export async function notifyLenderResponse(
@@ -20,14 +20,16 @@ import {
   lenderDirectory,
   marketIntelligence,
   competitorIntelligence,
+  creditDocuments,
   type InsertProspect,
   type InsertUploadedDocument,
   type InsertFacility,
   type Facility,
+  type Covenant,
+  type CreditDocument,
   type InsertCovenant,
   type InsertAdvisorDeal,
   type InsertLenderInvitation,
-  type InsertDrawRequest,
   type InsertCashFlow,
   insertProspectSchema,
   insertFacilitySchema,
@@ -40,7 +42,7 @@ import {
 } from "@shared/schema";
 import { extractFromFile, type ExtractionResult } from "./services/aiExtraction";
 import multer from "multer";
-import { eq, or, and, sql } from "drizzle-orm";
+import { eq, or, and, sql, desc } from "drizzle-orm";
 import fs from "fs/promises";
 import path from "path";
 import { z } from "zod";
@@ -57,6 +59,20 @@ import { analyticsRouter } from "./routes/analyticsRoutes";
 import { pipelineRouter } from "./routes/pipelineRoutes";
 import notificationRouter from "./routes/notificationRoutes";
 import underwritingRouter from "./routes/underwritingRoutes";
+import { breachPredictionRouter } from "./routes/breachPredictionRoutes";
+import { referenceRateRouter } from "./routes/referenceRateRoutes";
+import { regenerateCashFlowSchedule } from "./services/amortizationSchedule";
+import { resetFloatingRate, getFacilityRateResets } from "./services/referenceRates";
+import { applyPayment, assessFee, getLedgerEntries, getPayoffQuote } from "./services/accrualLedger";
+import { recordFacilityNav, getFacilityNavHistory, recomputeFacilityLtv } from "./services/facilityNav";
+import { calculatePortfolioNAV } from "./services/navValuation";
+import {
+  validateCovenantFormula,
+  evaluateCovenantValue,
+  loadCovenantContext,
+  CovenantFormulaError,
+} from "./services/covenantFormula";
+import { computeDrawPrecheck, decideDrawRequest, disburseDrawRequest } from "./services/drawApproval";
 
 const router = Router();
 
@@ -95,6 +111,12 @@ router.use("/nav-valuation", navValuationRouter);
 // Mount underwriting routes
 router.use("/underwriting", underwritingRouter);
 
+// Mount breach prediction routes
+router.use("/breach-predictions", breachPredictionRouter);
+
+// Mount reference rate routes
+router.use("/reference-rates", referenceRateRouter);
+
 // ========================================
 // NEW FEATURE ENDPOINTS (10-Feature Expansion)
 // ========================================
@@ -286,6 +308,76 @@ async function validateFacilityOwnership(
   return { success: true, facility };
 }
 
+/**
+ * Facility ownership check for a covenant-level route
+ */
+async function validateCovenantOwnership(
+  covenantId: string,
+  user: Express.User,
+  action: string = "access"
+): Promise<{ success: true; covenant: Covenant; facility: Facility } | { success: false; status: number; error: string; message?: string }> {
+  const [covenant] = await db.select()
+    .from(covenants)
+    .where(eq(covenants.id, covenantId))
+    .limit(1);
+
+  if (!covenant) {
+    return {
+      success: false,
+      status: 404,
+      error: "Covenant not found"
+    };
+  }
+
+  const ownershipCheck = await validateFacilityOwnership(covenant.facilityId, user, action);
+  if (!ownershipCheck.success) {
+    return ownershipCheck;
+  }
+
+  return { success: true, covenant, facility: ownershipCheck.facility };
+}
+
+/**
+ * Validate access to a credit document through its facility. Documents not yet
+ * linked to a facility are visible to operations and admin only.
+ */
+async function validateCreditDocumentAccess(
+  creditDocumentId: string,
+  user: Express.User,
+  action: string = "access"
+): Promise<{ success: true; creditDocument: CreditDocument } | { success: false; status: number; error: string; message?: string }> {
+  const [creditDocument] = await db.select()
+    .from(creditDocuments)
+    .where(eq(creditDocuments.id, creditDocumentId))
+    .limit(1);
+
+  if (!creditDocument) {
+    return {
+      success: false,
+      status: 404,
+      error: "Credit document not found"
+    };
+  }
+
+  if (!creditDocument.facilityId) {
+    if (user.role !== "operations" && user.role !== "admin") {
+      return {
+        success: false,
+        status: 403,
+        error: "Forbidden: Operations or admin role required"
+      };
+    }
+    return { success: true, creditDocument };
+  }
+
+  const ownershipCheck = await validateFacilityOwnership(creditDocument.facilityId, user, action);
+  if (!ownershipCheck.success) {
+    return ownershipCheck;
+  }
+
+  return { success: true, creditDocument };
+}
+
 // Update schemas for PATCH endpoints (omit foreign keys and one-time-set fields)
 // Note: insert schemas already omit id, createdAt, updatedAt
 const updateProspectSchema = insertProspectSchema.omit({ 
@@ -301,20 +393,76 @@ const updateFacilitySchema = insertFacilitySchema.omit({
   status: true // Status changes require business logic validation
 }).partial().strict(); // Reject unknown fields to prevent mass assignment
 
+// Facility fields that drive the generated payment schedule
+const SCHEDULE_FIELDS = [
+  "outstandingBalance",
+  "interestRate",
+  "maturityDate",
+  "originationDate",
+  "paymentSchedule",
+  "dayCountConvention",
+  "amortizationType",
+  "customAmortization",
+  "rateType",
+  "referenceRate",
+  "spreadBps",
+  "rateFloorBps",
+  "rateCapBps",
+] as const;
+
+const createCovenantSchema = insertCovenantSchema.omit({
+  breachDate: true, // Set by covenant monitoring
+  cureDeadline: true, // Set by covenant monitoring
+  cureStatus: true, // Set by covenant monitoring
+  sourceClauseId: true, // Set when promoted from a credit agreement clause
+});
+
 const updateCovenantSchema = insertCovenantSchema.omit({
   facilityId: true, // Foreign key should not be changed
-  status: true // Status changes require business logic validation
+  status: true, // Status changes require business logic validation
+  breachDate: true, // Set by covenant monitoring
+  cureDeadline: true, // Set by covenant monitoring
+  cureStatus: true, // Set by covenant monitoring
+  sourceClauseId: true, // Audit link to the source clause
 }).partial().strict(); // Reject unknown fields to prevent mass assignment
 
+// Check a covenant's formula and test dates; returns an error message when invalid
+function validateCovenantTerms(data: { formula?: string | null; testDates?: unknown }): string | null {
+  if (data.formula) {
+    const result = validateCovenantFormula(data.formula);
+    if (!result.valid) {
+      return `Invalid formula: ${result.error}`;
+    }
+  }
+
+  if (data.testDates !== undefined && data.testDates !== null) {
+    const entries = Array.isArray(data.testDates) ? data.testDates : null;
+    if (!entries || parseTestDates(entries).length !== entries.length) {
+      return "testDates must be a list of MM-DD dates";
+    }
+  }
+
+  return null;
+}
+
 const updateDrawRequestSchema = insertDrawRequestSchema.omit({
   facilityId: true, // Foreign key should not be changed
   requestedBy: true, // Set once during creation
   requestDate: true, // Set once during creation
+  status: true, // Status changes go through the approval workflow
+  creditApprovedBy: true, // Set by the approval workflow
+  creditApprovedDate: true, // Set by the approval workflow
+  approvedBy: true, // Set by the approval workflow
+  approvedDate: true, // Set by the approval workflow
+  disbursedDate: true, // Set on disbursement
+  precheck: true, // Set by the approval workflow
 }).partial().strict(); // Reject unknown fields to prevent mass assignment
 
 const updateCashFlowSchema = insertCashFlowSchema.omit({
   facilityId: true, // Foreign key should not be changed
   dueDate: true, // Set once during creation
+  periodStart: true, // Set once during creation
+  periodEnd: true, // Set once during creation
   principal: true, // Set once during creation
   interest: true, // Set once during creation
   totalDue: true, // Set once during creation
@@ -1029,10 +1177,29 @@ router.post("/facilities", async (req: Request, res: Response) => {
 
     const facilityData: InsertFacility = validation.data;
 
+    if (facilityData.rateType === "floating" && facilityData.spreadBps == null) {
+      return res.status(400).json({ 
+        error: "Invalid facility data",
+        message: "Floating-rate facilities require spreadBps"
+      });
+    }
+
     const [newFacility] = await db.insert(facilities)
       .values(facilityData)
       .returning();
 
+    // Build the initial payment schedule from the facility terms
+    try {
+      await regenerateCashFlowSchedule(newFacility.id, { asOf: newFacility.originationDate });
+
+      // Fix the current period's rate for floating-rate facilities
+      if (newFacility.rateType === "floating") {
+        await resetFloatingRate(newFacility.id);
+      }
+    } catch (error) {
+      console.error("Failed to generate cash flow schedule:", error);
+    }
+
     res.json(newFacility);
 
   } catch (error) {
@@ -1065,6 +1232,20 @@ router.patch("/facilities/:id", async (req: Request, res: Response) => {
 
     const updates = validation.data;
 
+    if (updates.rateType === "floating" && updates.spreadBps == null) {
+      const [existing] = await db.select({ spreadBps: facilities.spreadBps })
+        .from(facilities)
+        .where(eq(facilities.id, id))
+        .limit(1);
+
+      if (existing && existing.spreadBps == null) {
+        return res.status(400).json({ 
+          error: "Invalid update data",
+          message: "Floating-rate facilities require spreadBps"
+        });
+      }
+    }
+
     const [updatedFacility] = await db.update(facilities)
       .set({
         ...updates,
@@ -1077,6 +1258,27 @@ router.patch("/facilities/:id", async (req: Request, res: Response) => {
       return res.status(404).json({ error: "Facility not found" });
     }
 
+    // Terms that drive the payment schedule changed: regenerate future cash flows
+    if (SCHEDULE_FIELDS.some((field) => field in updates)) {
+      try {
+        await regenerateCashFlowSchedule(id);
+      } catch (error) {
+        console.error("Failed to regenerate cash flow schedule:", error);
+      }
+    }
+
+    // Balance corrected by hand: LTV follows it once a NAV has been recorded
+    if ("outstandingBalance" in updates) {
+      try {
+        const recomputation = await recomputeFacilityLtv(id, { userId: req.user.id });
+        if (recomputation) {
+          updatedFacility.ltvRatio = recomputation.ltvRatio;
+        }
+      } catch (error) {
+        console.error("Failed to recompute LTV:", error);
+      }
+    }
+
     res.json(updatedFacility);
 
   } catch (error) {
@@ -1134,7 +1336,7 @@ router.post("/facilities/:facilityId/covenants", async (req: Request, res: Respo
     const { facilityId } = req.params;
     
     // Validate request body
-    const validation = validateBody(insertCovenantSchema, { ...req.body, facilityId });
+    const validation = validateBody(createCovenantSchema, { ...req.body, facilityId });
     if (!validation.success) {
       return res.status(400).json({ 
         error: "Invalid covenant data",
@@ -1142,7 +1344,21 @@ router.post("/facilities/:facilityId/covenants", async (req: Request, res: Respo
       });
     }
 
-    const covenantData: InsertCovenant = validation.data;
+    const termsError = validateCovenantTerms(validation.data);
+    if (termsError) {
+      return res.status(400).json({ 
+        error: "Invalid covenant data",
+        message: termsError
+      });
+    }
+
+    const covenantData: InsertCovenant = {
+      ...validation.data,
+      nextCheckDate: validation.data.nextCheckDate ?? getNextTestDate({
+        testDates: validation.data.testDates ?? null,
+        checkFrequency: validation.data.checkFrequency ?? "quarterly",
+      }),
+    };
 
     const [newCovenant] = await db.insert(covenants)
       .values(covenantData)
@@ -1180,6 +1396,14 @@ router.patch("/covenants/:id", async (req: Request, res: Response) => {
 
     const updates = validation.data;
 
+    const termsError = validateCovenantTerms(updates);
+    if (termsError) {
+      return res.status(400).json({ 
+        error: "Invalid update data",
+        message: termsError
+      });
+    }
+
     const [updatedCovenant] = await db.update(covenants)
       .set({
         ...updates,
@@ -1248,6 +1472,10 @@ router.post("/facilities/:id/generate-document", async (req: Request, res: Respo
           ltvRatio: facility.ltvRatio,
           maturityDate: facility.maturityDate,
           paymentSchedule: facility.paymentSchedule,
+          referenceRate: facility.referenceRate,
+          spreadBps: facility.spreadBps,
+          rateFloorBps: facility.rateFloorBps,
+          rateCapBps: facility.rateCapBps,
         });
         filename = `loan-agreement-${facility.fundName.replace(/\s+/g, '-').toLowerCase()}.md`;
         break;
@@ -1260,6 +1488,10 @@ router.post("/facilities/:id/generate-document", async (req: Request, res: Respo
           ltvRatio: facility.ltvRatio,
           maturityDate: facility.maturityDate,
           paymentSchedule: facility.paymentSchedule,
+          referenceRate: facility.referenceRate,
+          spreadBps: facility.spreadBps,
+          rateFloorBps: facility.rateFloorBps,
+          rateCapBps: facility.rateCapBps,
         });
         filename = `term-sheet-${facility.fundName.replace(/\s+/g, '-').toLowerCase()}.md`;
         break;
@@ -1902,11 +2134,51 @@ import {
   checkCovenant, 
   checkAllDueCovenants, 
   manualCovenantCheck,
-  getCovenantBreachSummary 
+  getCovenantBreachSummary,
+  computeCovenantValue,
+  getNextTestDate,
+  parseTestDates,
+  applyEquityCure,
+  getEquityCures,
 } from "./services/covenantMonitoring";
+import {
+  requestCovenantWaiver,
+  decideCovenantWaiver,
+  recordCovenantAmendment,
+  getCovenantWaivers,
+  getCovenantAmendments,
+  getCovenantTests,
+  getThresholdInForce,
+} from "./services/covenantWaivers";
+import {
+  getCovenantClauseReviews,
+  promoteClauseToCovenant,
+  dismissCovenantClause,
+} from "./services/covenantPromotion";
+import { compareCreditDocuments } from "./services/creditDocumentComparison";
+import {
+  runShockScenarios,
+  getStandardShockScenarios,
+  uniformShockScenario,
+  type ShockScenarioResult,
+} from "./services/shockScenarios";
+import { runReverseStressTest } from "./services/reverseStressTest";
+import {
+  calculateFacilityBorrowingBase,
+  issueBorrowingBaseCertificate,
+  getBorrowingBaseCertificates,
+} from "./services/borrowingBase";
+import {
+  buildCertificateTemplate,
+  verifyCertificate,
+  submitComplianceCertificate,
+  reviewComplianceCertificate,
+  getFacilityComplianceCertificates,
+  getComplianceCertificatesByStatus,
+} from "./services/complianceCertificates";
 
 // POST /api/covenants/:id/check
-// Manually check a specific covenant
+// Manually check a specific covenant. currentValue may be omitted for formula covenants.
 router.post("/covenants/:id/check", async (req: Request, res: Response) => {
   try {
     if (!req.user) {
@@ -1914,7 +2186,23 @@ router.post("/covenants/:id/check", async (req: Request, res: Response) => {
     }
 
     const { id } = req.params;
-    const { currentValue } = req.body;
+    let { currentValue } = req.body;
+
+    if (currentValue === undefined) {
+      const [covenant] = await db.select()
+        .from(covenants)
+        .where(eq(covenants.id, id))
+        .limit(1);
+
+      if (!covenant) {
+        return res.status(404).json({ error: "Covenant not found" });
+      }
+
+      currentValue = covenant.formula ? await computeCovenantValue(covenant) : null;
+      if (currentValue === null) {
+        return res.status(400).json({ error: "Current value is required for covenants without a computable formula" });
+      }
+    }
 
     if (typeof currentValue !== "number") {
       return res.status(400).json({ error: "Current value must be a number" });
@@ -2007,185 +2295,242 @@ router.get("/facilities/:facilityId/covenant-summary", async (req: Request, res:
   }
 });
 
-// POST /api/covenants/check-all-due
-// Run automated check for all due covenants (admin only)
-router.post("/covenants/check-all-due", async (req: Request, res: Response) => {
+// GET /api/facilities/:facilityId/reverse-stress-test
+// NAV decline, single-holding write-down and additional draw at which each covenant trips
+router.get("/facilities/:facilityId/reverse-stress-test", async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    // Only allow operations and admin roles
-    if (req.user.role !== "operations" && req.user.role !== "admin") {
-      return res.status(403).json({ error: "Forbidden: Admin or operations role required" });
+    const { facilityId } = req.params;
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateFacilityOwnership(
+      facilityId,
+      req.user,
+      "view covenant headroom"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
     }
 
-    const results = await checkAllDueCovenants();
-    
-    const breaches = results.filter((r) => r.breachDetected);
-    
-    res.json({
-      totalChecked: results.length,
-      breachesDetected: breaches.length,
-      results,
-    });
+    const result = await runReverseStressTest(facilityId);
+    if (!result) {
+      return res.status(400).json({ error: "Reverse stress tests are only run for active facilities" });
+    }
+
+    res.json(result);
   } catch (error) {
-    console.error("Check all due covenants error:", error);
+    console.error("Reverse stress test error:", error);
     res.status(500).json({ 
-      error: "Failed to check all due covenants",
+      error: "Failed to run reverse stress test",
       details: error instanceof Error ? error.message : "Unknown error"
     });
   }
 });
 
-// Monitoring Dashboard Routes
-// GET /api/monitoring/covenants
-// Get all covenants across all facilities with aggregated data
-router.get("/monitoring/covenants", async (req: Request, res: Response) => {
+// GET /api/facilities/:facilityId/borrowing-base
+// Current borrowing base: eligibility, concentration haircuts, advance rates and availability
+router.get("/facilities/:facilityId/borrowing-base", async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    // Get all facilities with their covenants
-    const allFacilities = await db.select().from(facilities).orderBy(facilities.createdAt);
-    const allCovenants = await db.select().from(covenants).orderBy(covenants.createdAt);
+    const { facilityId } = req.params;
 
-    // Map covenants to facilities and format for frontend
-    const covenantData = allCovenants.map(covenant => {
-      const facility = allFacilities.find(f => f.id === covenant.facilityId);
-      const operatorSymbol = covenant.thresholdOperator === "less_than" || covenant.thresholdOperator === "less_than_equal" ? "≤" : "≥";
-      return {
-        id: covenant.id,
-        dealName: facility?.fundName || "Unknown Fund",
-        covenantType: covenant.covenantType,
-        threshold: `${operatorSymbol} ${covenant.thresholdValue}`,
-        currentValue: `${covenant.currentValue ?? "N/A"}`,
-        status: covenant.status,
-        lastChecked: covenant.lastChecked ? `${Math.round((Date.now() - new Date(covenant.lastChecked).getTime()) / (1000 * 60 * 60))} hours ago` : "Never",
-      };
-    });
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateFacilityOwnership(
+      facilityId,
+      req.user,
+      "view borrowing base"
+    );
 
-    res.json(covenantData);
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const result = await calculateFacilityBorrowingBase(facilityId);
+    if (!result) {
+      return res.status(404).json({ error: "Facility not found" });
+    }
+
+    res.json(result);
   } catch (error) {
-    console.error("Get monitoring covenants error:", error);
+    console.error("Borrowing base error:", error);
     res.status(500).json({ 
-      error: "Failed to fetch monitoring covenants",
+      error: "Failed to calculate borrowing base",
       details: error instanceof Error ? error.message : "Unknown error"
     });
   }
 });
 
-// GET /api/monitoring/health-scores
-// Get facility health scores and metrics
-router.get("/monitoring/health-scores", async (req: Request, res: Response) => {
+// PUT /api/facilities/:facilityId/borrowing-base/terms
+// Set the facility's eligibility criteria, advance rates and concentration caps (Operations only)
+const borrowingBaseTermsSchema = z.object({
+  minHoldingValue: z.number().int().nonnegative(),
+  excludeListed: z.boolean(),
+  excludedStatuses: z.array(z.string()),
+  advanceRates: z.record(z.number().min(0).max(100)),
+  defaultAdvanceRate: z.number().min(0).max(100),
+  singleNameCapPercent: z.number().positive().max(100).nullable(),
+  top3CapPercent: z.number().positive().max(100).nullable(),
+  sectorCapPercent: z.number().positive().max(100).nullable(),
+}).partial();
+
+router.put("/facilities/:facilityId/borrowing-base/terms", async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    const allFacilities = await db.select().from(facilities).orderBy(facilities.createdAt);
-
-    // Calculate health scores for each facility
-    const healthScores = await Promise.all(allFacilities.map(async (facility) => {
-      // Get covenants for this facility
-      const facilityCovenants = await db.select()
-        .from(covenants)
-        .where(eq(covenants.facilityId, facility.id));
-
-      // Calculate health score based on covenant compliance
-      const totalCovenants = facilityCovenants.length;
-      const compliantCovenants = facilityCovenants.filter(c => c.status === "compliant").length;
-      const warningCovenants = facilityCovenants.filter(c => c.status === "warning").length;
-      const breachCovenants = facilityCovenants.filter(c => c.status === "breach").length;
-
-      // Score calculation: 100 for compliant, 50 for warning, 0 for breach
-      let score = 75; // Default score
-      if (totalCovenants > 0) {
-        score = Math.round((compliantCovenants * 100 + warningCovenants * 50) / totalCovenants);
-      }
+    // Only operations and admin can change facility terms
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
 
-      // Determine trend (simplified - based on recent checks)
-      let trend: "up" | "down" | "stable" = "stable";
-      if (warningCovenants > 0 || breachCovenants > 0) {
-        trend = "down";
-      } else if (compliantCovenants === totalCovenants) {
-        trend = "up";
-      }
+    const validation = validateBody(borrowingBaseTermsSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid borrowing base terms", 
+        details: validation.error.errors 
+      });
+    }
 
-      // Determine category
-      let category: "excellent" | "good" | "fair" | "poor";
-      if (score >= 85) category = "excellent";
-      else if (score >= 70) category = "good";
-      else if (score >= 50) category = "fair";
-      else category = "poor";
+    const [updated] = await db.update(facilities)
+      .set({ borrowingBaseTerms: validation.data, updatedAt: new Date() })
+      .where(eq(facilities.id, req.params.facilityId))
+      .returning({ id: facilities.id });
 
-      return {
-        id: facility.id,
-        dealName: facility.fundName,
-        score,
-        trend,
-        category,
-        lastUpdate: `Updated ${Math.round((Date.now() - new Date(facility.updatedAt).getTime()) / (1000 * 60 * 60))} hours ago`,
-      };
-    }));
+    if (!updated) {
+      return res.status(404).json({ error: "Facility not found" });
+    }
 
-    res.json(healthScores);
+    res.json(await calculateFacilityBorrowingBase(updated.id));
   } catch (error) {
-    console.error("Get health scores error:", error);
+    console.error("Update borrowing base terms error:", error);
     res.status(500).json({ 
-      error: "Failed to fetch health scores",
+      error: "Failed to update borrowing base terms",
       details: error instanceof Error ? error.message : "Unknown error"
     });
   }
 });
 
-// GET /api/monitoring/stats
-// Get monitoring statistics
-router.get("/monitoring/stats", async (req: Request, res: Response) => {
+// GET /api/facilities/:facilityId/borrowing-base/certificates
+// Issued borrowing base certificates, latest period first
+router.get("/facilities/:facilityId/borrowing-base/certificates", async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    const allFacilities = await db.select().from(facilities);
-    const allCovenants = await db.select().from(covenants);
+    const { facilityId } = req.params;
 
-    const compliantCount = allCovenants.filter(c => c.status === "compliant").length;
-    const warningCount = allCovenants.filter(c => c.status === "warning").length;
-    const breachCount = allCovenants.filter(c => c.status === "breach").length;
-    const total = allCovenants.length;
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateFacilityOwnership(
+      facilityId,
+      req.user,
+      "view borrowing base certificates"
+    );
 
-    res.json({
-      compliantDeals: allFacilities.filter(f => f.status === "active").length,
-      compliantPercentage: total > 0 ? Math.round((compliantCount / total) * 100) : 0,
-      warningDeals: warningCount,
-      warningPercentage: total > 0 ? Math.round((warningCount / total) * 100) : 0,
-      breachDeals: breachCount,
-      breachPercentage: total > 0 ? Math.round((breachCount / total) * 100) : 0,
-      totalCovenants: total,
-    });
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const certificates = await getBorrowingBaseCertificates(facilityId);
+    res.json(certificates);
   } catch (error) {
-    console.error("Get monitoring stats error:", error);
+    console.error("Get borrowing base certificates error:", error);
     res.status(500).json({ 
-      error: "Failed to fetch monitoring stats",
+      error: "Failed to fetch borrowing base certificates",
       details: error instanceof Error ? error.message : "Unknown error"
     });
   }
 });
 
-// Draw Request Routes
-// POST /api/facilities/:facilityId/draw-requests
-// Create a new draw request for a facility (GP role only)
-router.post("/facilities/:facilityId/draw-requests", async (req: Request, res: Response) => {
+// POST /api/facilities/:facilityId/borrowing-base/certificates
+// Issue a borrowing base certificate for a period from current holdings (Operations only)
+const borrowingBaseCertificateSchema = z.object({
+  periodEnd: z.coerce.date(),
+});
+
+router.post("/facilities/:facilityId/borrowing-base/certificates", async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    // Only GPs can create draw requests
-    if (req.user.role !== "gp") {
-      return res.status(403).json({ error: "Forbidden: Only GPs can create draw requests" });
+    // Only operations and admin can issue certificates
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const validation = validateBody(borrowingBaseCertificateSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid certificate data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const certificate = await issueBorrowingBaseCertificate({
+      facilityId: req.params.facilityId,
+      periodEnd: validation.data.periodEnd,
+      createdBy: req.user.id,
+    });
+
+    if (!certificate) {
+      return res.status(404).json({ error: "Facility not found" });
+    }
+
+    res.status(201).json(certificate);
+  } catch (error) {
+    console.error("Issue borrowing base certificate error:", error);
+    res.status(500).json({ 
+      error: "Failed to issue borrowing base certificate",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Structured quarterly compliance certificate as submitted by a GP
+const complianceCertificateSchema = z.object({
+  periodEnd: z.coerce.date(),
+  reportedNav: z.number().int().positive(),
+  reportedBorrowingBase: z.number().int().nonnegative().optional(),
+  holdings: z.array(z.object({
+    companyId: z.string().optional(),
+    companyName: z.string().min(1),
+    fairValue: z.number().int().nonnegative(),
+  })).min(1),
+  covenants: z.array(z.object({
+    covenantId: z.string(),
+    reportedValue: z.number().int(),
+  })).optional(),
+  attestation: z.object({
+    officerName: z.string().min(1),
+    officerTitle: z.string().min(1),
+    statement: z.string().min(1),
+  }),
+});
+
+// GET /api/facilities/:facilityId/compliance-certificates/template
+// Holdings on record and covenants to certify, to prefill the GP's certificate
+router.get("/facilities/:facilityId/compliance-certificates/template", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
     }
 
     const { facilityId } = req.params;
@@ -2194,7 +2539,7 @@ router.post("/facilities/:facilityId/draw-requests", async (req: Request, res: R
     const ownershipCheck = await validateFacilityOwnership(
       facilityId,
       req.user,
-      "submit draw requests"
+      "prepare compliance certificates"
     );
 
     if (!ownershipCheck.success) {
@@ -2204,74 +2549,1519 @@ router.post("/facilities/:facilityId/draw-requests", async (req: Request, res: R
       });
     }
 
-    const facility = ownershipCheck.facility;
+    const template = await buildCertificateTemplate(facilityId);
+    res.json(template);
+  } catch (error) {
+    console.error("Compliance certificate template error:", error);
+    res.status(500).json({ 
+      error: "Failed to prepare compliance certificate",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
 
-    // Verify facility is active (cannot request draws on closed facilities)
-    if (facility.status !== "active") {
+// POST /api/facilities/:facilityId/compliance-certificates/verify
+// Recompute a draft certificate's figures without submitting it
+router.post("/facilities/:facilityId/compliance-certificates/verify", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { facilityId } = req.params;
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateFacilityOwnership(
+      facilityId,
+      req.user,
+      "verify compliance certificates"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const validation = validateBody(complianceCertificateSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid certificate data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const verification = await verifyCertificate(ownershipCheck.facility, validation.data);
+    res.json(verification);
+  } catch (error) {
+    console.error("Verify compliance certificate error:", error);
+    res.status(500).json({ 
+      error: "Failed to verify compliance certificate",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/facilities/:facilityId/compliance-certificates
+// Submit a compliance certificate for operations sign-off (GP role only)
+router.post("/facilities/:facilityId/compliance-certificates", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // Only GPs certify their own facilities
+    if (req.user.role !== "gp") {
+      return res.status(403).json({ error: "Forbidden: Only GPs can submit compliance certificates" });
+    }
+
+    const { facilityId } = req.params;
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateFacilityOwnership(
+      facilityId,
+      req.user,
+      "submit compliance certificates"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    if (ownershipCheck.facility.status !== "active") {
       return res.status(403).json({ 
-        error: "Forbidden: Cannot request draws on non-active facilities",
-        facilityStatus: facility.status
+        error: "Forbidden: Compliance certificates are only accepted for active facilities",
+        facilityStatus: ownershipCheck.facility.status
       });
     }
 
-    // Validate request body
-    const validation = validateBody(insertDrawRequestSchema, {
-      ...req.body,
+    const validation = validateBody(complianceCertificateSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid certificate data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const certificate = await submitComplianceCertificate(
+      ownershipCheck.facility,
+      validation.data,
+      req.user,
+      req
+    );
+
+    res.status(201).json(certificate);
+  } catch (error) {
+    console.error("Submit compliance certificate error:", error);
+    res.status(500).json({ 
+      error: "Failed to submit compliance certificate",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/facilities/:facilityId/compliance-certificates
+// Submitted certificates for a facility, latest period first
+router.get("/facilities/:facilityId/compliance-certificates", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { facilityId } = req.params;
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateFacilityOwnership(
       facilityId,
-      requestedBy: req.user.email,
-      status: "pending",
+      req.user,
+      "view compliance certificates"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const certificates = await getFacilityComplianceCertificates(facilityId);
+    res.json(certificates);
+  } catch (error) {
+    console.error("Get compliance certificates error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch compliance certificates",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/compliance-certificates
+// Certificates across facilities by status (default: awaiting sign-off) - Operations only
+router.get("/compliance-certificates", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const status = typeof req.query.status === "string" ? req.query.status : "submitted";
+    const certificates = await getComplianceCertificatesByStatus(status);
+    res.json(certificates);
+  } catch (error) {
+    console.error("Get compliance certificates error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch compliance certificates",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/compliance-certificates/:id/decisions
+// Approve or reject a submitted certificate; approval re-tests covenants and archives it - Operations only
+const complianceCertificateDecisionSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  comments: z.string().optional(),
+});
+
+router.post("/compliance-certificates/:id/decisions", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const validation = validateBody(complianceCertificateDecisionSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid decision data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const result = await reviewComplianceCertificate(req.params.id, req.user, validation.data, req);
+    if (!result.success) {
+      return res.status(result.status).json({ 
+        error: result.error,
+        message: result.message
+      });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error("Compliance certificate decision error:", error);
+    res.status(500).json({ 
+      error: "Failed to record compliance certificate decision",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/covenants/check-all-due
+// Run automated check for all due covenants (admin only)
+router.post("/covenants/check-all-due", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // Only allow operations and admin roles
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Admin or operations role required" });
+    }
+
+    const results = await checkAllDueCovenants();
+    
+    const breaches = results.filter((r) => r.breachDetected);
+    
+    res.json({
+      totalChecked: results.length,
+      breachesDetected: breaches.length,
+      results,
     });
+  } catch (error) {
+    console.error("Check all due covenants error:", error);
+    res.status(500).json({ 
+      error: "Failed to check all due covenants",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/facilities/:facilityId/covenant-formulas/evaluate
+// Evaluate a draft covenant formula against the facility's current data, as the value that would be stored
+const evaluateFormulaSchema = z.object({
+  formula: z.string().min(1),
+});
+
+router.post("/facilities/:facilityId/covenant-formulas/evaluate", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { facilityId } = req.params;
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateFacilityOwnership(
+      facilityId,
+      req.user,
+      "evaluate covenant formulas"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const validation = validateBody(evaluateFormulaSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid formula request", 
+        details: validation.error.errors 
+      });
+    }
+
+    const context = await loadCovenantContext(facilityId);
+    try {
+      const value = evaluateCovenantValue(validation.data.formula, context);
+      res.json({ formula: validation.data.formula, value, inputs: context });
+    } catch (error) {
+      if (error instanceof CovenantFormulaError) {
+        return res.status(400).json({ error: "Invalid formula", message: error.message, inputs: context });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error("Evaluate covenant formula error:", error);
+    res.status(500).json({ 
+      error: "Failed to evaluate formula",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/covenants/:id/equity-cures
+// Equity cures recorded against a covenant
+router.get("/covenants/:id/equity-cures", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateCovenantOwnership(
+      req.params.id,
+      req.user,
+      "view equity cures"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const cures = await getEquityCures(req.params.id);
+    res.json(cures);
+  } catch (error) {
+    console.error("Get equity cures error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch equity cures",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/covenants/:id/equity-cures
+// Record sponsor equity contributed to cure a breach and re-test the covenant (Operations only)
+const equityCureSchema = z.object({
+  amount: z.number().int().positive(),
+  cureDate: z.coerce.date().optional(),
+  notes: z.string().optional(),
+});
+
+router.post("/covenants/:id/equity-cures", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // Only operations and admin can record equity cures
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const validation = validateBody(equityCureSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid equity cure data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const outcome = await applyEquityCure(req.params.id, validation.data, req.user.id);
+    if (!outcome.success) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+
+    res.status(201).json({ cure: outcome.cure, result: outcome.result });
+  } catch (error) {
+    console.error("Record equity cure error:", error);
+    res.status(500).json({ 
+      error: "Failed to record equity cure",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/covenants/:id/tests
+// Test history with the threshold in force and any waiver applied at each test
+router.get("/covenants/:id/tests", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateCovenantOwnership(
+      req.params.id,
+      req.user,
+      "view covenant tests"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const tests = await getCovenantTests(req.params.id);
+    res.json(tests);
+  } catch (error) {
+    console.error("Get covenant tests error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch covenant tests",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/covenants/:id/waivers
+// Waiver and cure extension requests for a covenant
+router.get("/covenants/:id/waivers", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateCovenantOwnership(
+      req.params.id,
+      req.user,
+      "view covenant waivers"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const waivers = await getCovenantWaivers(req.params.id);
+    res.json(waivers);
+  } catch (error) {
+    console.error("Get covenant waivers error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch covenant waivers",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/covenants/:id/waivers
+// Request a waiver, or an extended cure period, until an expiry date
+const waiverRequestSchema = z.object({
+  waiverType: z.enum(["waiver", "cure_extension"]).default("waiver"),
+  reason: z.string().min(1),
+  effectiveDate: z.coerce.date().optional(),
+  expiryDate: z.coerce.date(),
+  documentReference: z.string().optional(),
+});
+
+router.post("/covenants/:id/waivers", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateCovenantOwnership(
+      req.params.id,
+      req.user,
+      "request covenant waivers"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const validation = validateBody(waiverRequestSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid waiver request", 
+        details: validation.error.errors 
+      });
+    }
+
+    const result = await requestCovenantWaiver(req.params.id, req.user, {
+      ...validation.data,
+      waiverType: validation.data.waiverType ?? "waiver",
+    }, req);
+    if (!result.success) {
+      return res.status(result.status).json({ 
+        error: result.error,
+        message: result.message
+      });
+    }
+
+    res.status(201).json(result.waiver);
+  } catch (error) {
+    console.error("Request covenant waiver error:", error);
+    res.status(500).json({ 
+      error: "Failed to request waiver",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/covenant-waivers/:id/decisions
+// Approve or reject a waiver request (Operations only, not the requester)
+const waiverDecisionSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  comments: z.string().optional(),
+});
+
+router.post("/covenant-waivers/:id/decisions", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const validation = validateBody(waiverDecisionSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid decision data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const result = await decideCovenantWaiver(req.params.id, req.user, validation.data, req);
+    if (!result.success) {
+      return res.status(result.status).json({ 
+        error: result.error,
+        message: result.message
+      });
+    }
+
+    res.json(result.waiver);
+  } catch (error) {
+    console.error("Covenant waiver decision error:", error);
+    res.status(500).json({ 
+      error: "Failed to record waiver decision",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/covenants/:id/amendments
+// Threshold amendments for a covenant
+router.get("/covenants/:id/amendments", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateCovenantOwnership(
+      req.params.id,
+      req.user,
+      "view covenant amendments"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const amendments = await getCovenantAmendments(req.params.id);
+    res.json(amendments);
+  } catch (error) {
+    console.error("Get covenant amendments error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch covenant amendments",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/covenants/:id/amendments
+// Record an amended threshold with its effective date (Operations only)
+const covenantAmendmentSchema = z.object({
+  thresholdValue: z.number().int(),
+  thresholdOperator: z.enum(["less_than", "less_than_equal", "greater_than", "greater_than_equal"]).optional(),
+  effectiveDate: z.coerce.date(),
+  endDate: z.coerce.date().optional(),
+  reason: z.string().min(1),
+  documentReference: z.string().optional(),
+});
+
+router.post("/covenants/:id/amendments", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const validation = validateBody(covenantAmendmentSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid amendment data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const result = await recordCovenantAmendment(req.params.id, req.user, validation.data, req);
+    if (!result.success) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    res.status(201).json({ amendment: result.amendment, result: result.result });
+  } catch (error) {
+    console.error("Record covenant amendment error:", error);
+    res.status(500).json({ 
+      error: "Failed to record amendment",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/covenant-clauses?facilityId=&reviewStatus=pending
+// Covenant clauses extracted from credit agreements, each with a proposed covenant (Operations only)
+router.get("/covenant-clauses", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const reviews = await getCovenantClauseReviews({
+      facilityId: typeof req.query.facilityId === "string" ? req.query.facilityId : undefined,
+      reviewStatus: typeof req.query.reviewStatus === "string" ? req.query.reviewStatus : undefined,
+    });
+    res.json(reviews);
+  } catch (error) {
+    console.error("Get covenant clauses error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch covenant clauses",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/covenant-clauses/:id/promote
+// Create a monitored covenant from a reviewed clause (Operations only)
+const promoteClauseSchema = z.object({
+  covenantType: z.string().min(1).optional(),
+  thresholdOperator: z.enum(["less_than", "less_than_equal", "greater_than", "greater_than_equal"]).optional(),
+  thresholdValue: z.number().int().optional(),
+  checkFrequency: z.enum(["monthly", "quarterly", "annual"]).optional(),
+  testDates: z.array(z.string().regex(/^\d{2}-\d{2}$/)).nullable().optional(),
+  curePeriodDays: z.number().int().nonnegative().optional(),
+  formula: z.string().nullable().optional(),
+  notes: z.string().optional(),
+});
+
+router.post("/covenant-clauses/:id/promote", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const validation = validateBody(promoteClauseSchema, req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid covenant data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const termsError = validateCovenantTerms(validation.data);
+    if (termsError) {
+      return res.status(400).json({ 
+        error: "Invalid covenant data",
+        message: termsError
+      });
+    }
+
+    const result = await promoteClauseToCovenant(req.params.id, req.user, validation.data, req);
+    if (!result.success) {
+      return res.status(result.status).json({ 
+        error: result.error,
+        message: result.message
+      });
+    }
+
+    res.status(201).json({ covenant: result.covenant, clause: result.clause });
+  } catch (error) {
+    console.error("Promote covenant clause error:", error);
+    res.status(500).json({ 
+      error: "Failed to create covenant from clause",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/covenant-clauses/:id/dismiss
+// Mark a clause as not needing a monitored covenant (Operations only)
+const dismissClauseSchema = z.object({
+  reason: z.string().min(1),
+});
+
+router.post("/covenant-clauses/:id/dismiss", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const validation = validateBody(dismissClauseSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid dismissal", 
+        details: validation.error.errors 
+      });
+    }
+
+    const result = await dismissCovenantClause(req.params.id, req.user, validation.data.reason, req);
+    if (!result.success) {
+      return res.status(result.status).json({ error: result.error, message: result.message });
+    }
+
+    res.json(result.clause);
+  } catch (error) {
+    console.error("Dismiss covenant clause error:", error);
+    res.status(500).json({ 
+      error: "Failed to dismiss clause",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Credit Document Routes
+// GET /api/credit-documents?facilityId=
+// Parsed credit documents for a facility, or all documents (Operations only)
+router.get("/credit-documents", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const facilityId = typeof req.query.facilityId === "string" ? req.query.facilityId : undefined;
+    if (facilityId) {
+      const ownershipCheck = await validateFacilityOwnership(facilityId, req.user, "view credit documents for");
+      if (!ownershipCheck.success) {
+        return res.status(ownershipCheck.status).json({ 
+          error: ownershipCheck.error,
+          message: ownershipCheck.message
+        });
+      }
+    } else if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const documents = await db.select()
+      .from(creditDocuments)
+      .where(facilityId ? eq(creditDocuments.facilityId, facilityId) : undefined)
+      .orderBy(desc(creditDocuments.createdAt));
+
+    res.json(documents);
+  } catch (error) {
+    console.error("Get credit documents error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch credit documents",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// PATCH /api/credit-documents/:id/version
+// Link a credit document to the version it supersedes (Operations only)
+const creditDocumentVersionSchema = z.object({
+  previousVersionId: z.string().nullable().optional(),
+  versionLabel: z.string().max(100).nullable().optional(),
+}).strict();
+
+router.patch("/credit-documents/:id/version", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const validation = validateBody(creditDocumentVersionSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid version data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const access = await validateCreditDocumentAccess(req.params.id, req.user, "update");
+    if (!access.success) {
+      return res.status(access.status).json({ error: access.error, message: access.message });
+    }
+
+    const { previousVersionId } = validation.data;
+    if (previousVersionId) {
+      if (previousVersionId === req.params.id) {
+        return res.status(400).json({ error: "A document cannot supersede itself" });
+      }
+      const [previous] = await db.select({ facilityId: creditDocuments.facilityId })
+        .from(creditDocuments)
+        .where(eq(creditDocuments.id, previousVersionId))
+        .limit(1);
+      if (!previous) {
+        return res.status(404).json({ error: "Previous version not found" });
+      }
+      if (previous.facilityId !== access.creditDocument.facilityId) {
+        return res.status(400).json({ error: "Versions must belong to the same facility" });
+      }
+    }
+
+    const [updated] = await db.update(creditDocuments)
+      .set(validation.data)
+      .where(eq(creditDocuments.id, req.params.id))
+      .returning();
+
+    res.json(updated);
+  } catch (error) {
+    console.error("Update credit document version error:", error);
+    res.status(500).json({ 
+      error: "Failed to update credit document",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/credit-documents/:id/comparison?baseId=
+// Section-by-section redline against another version (defaults to the previous version)
+router.get("/credit-documents/:id/comparison", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const revised = await validateCreditDocumentAccess(req.params.id, req.user, "compare documents for");
+    if (!revised.success) {
+      return res.status(revised.status).json({ error: revised.error, message: revised.message });
+    }
+
+    const baseId = typeof req.query.baseId === "string" ? req.query.baseId : revised.creditDocument.previousVersionId;
+    if (!baseId) {
+      return res.status(400).json({ 
+        error: "No document to compare against",
+        message: "Pass baseId or link this document to its previous version"
+      });
+    }
+
+    const base = await validateCreditDocumentAccess(baseId, req.user, "compare documents for");
+    if (!base.success) {
+      return res.status(base.status).json({ error: base.error, message: base.message });
+    }
+
+    const comparison = await compareCreditDocuments(base.creditDocument, revised.creditDocument);
+    res.json(comparison);
+  } catch (error) {
+    console.error("Compare credit documents error:", error);
+    res.status(500).json({ 
+      error: "Failed to compare credit documents",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Monitoring Dashboard Routes
+// GET /api/monitoring/covenants
+// Get all covenants across all facilities with aggregated data
+router.get("/monitoring/covenants", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // Get all facilities with their covenants
+    const allFacilities = await db.select().from(facilities).orderBy(facilities.createdAt);
+    const allCovenants = await db.select().from(covenants).orderBy(covenants.createdAt);
+
+    // Map covenants to facilities and format for frontend (amended thresholds apply)
+    const now = new Date();
+    const covenantData = await Promise.all(allCovenants.map(async covenant => {
+      const facility = allFacilities.find(f => f.id === covenant.facilityId);
+      const threshold = await getThresholdInForce(covenant, now);
+      const operatorSymbol = threshold.thresholdOperator === "less_than" || threshold.thresholdOperator === "less_than_equal" ? "≤" : "≥";
+      return {
+        id: covenant.id,
+        dealName: facility?.fundName || "Unknown Fund",
+        covenantType: covenant.covenantType,
+        threshold: `${operatorSymbol} ${threshold.thresholdValue}`,
+        amended: threshold.amendmentId !== null,
+        currentValue: `${covenant.currentValue ?? "N/A"}`,
+        status: covenant.status,
+        cureStatus: covenant.cureStatus,
+        cureDeadline: covenant.cureDeadline,
+        lastChecked: covenant.lastChecked ? `${Math.round((Date.now() - new Date(covenant.lastChecked).getTime()) / (1000 * 60 * 60))} hours ago` : "Never",
+      };
+    }));
+
+    res.json(covenantData);
+  } catch (error) {
+    console.error("Get monitoring covenants error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch monitoring covenants",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/monitoring/health-scores
+// Get facility health scores and metrics
+router.get("/monitoring/health-scores", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const allFacilities = await db.select().from(facilities).orderBy(facilities.createdAt);
+
+    // Calculate health scores for each facility
+    const healthScores = await Promise.all(allFacilities.map(async (facility) => {
+      // Get covenants for this facility
+      const facilityCovenants = await db.select()
+        .from(covenants)
+        .where(eq(covenants.facilityId, facility.id));
+
+      // Calculate health score based on covenant compliance
+      const totalCovenants = facilityCovenants.length;
+      const compliantCovenants = facilityCovenants.filter(c => c.status === "compliant").length;
+      const warningCovenants = facilityCovenants.filter(c => c.status === "warning").length;
+      const breachCovenants = facilityCovenants.filter(c => c.status === "breach").length;
+
+      // Score calculation: 100 for compliant, 50 for warning, 0 for breach
+      let score = 75; // Default score
+      if (totalCovenants > 0) {
+        score = Math.round((compliantCovenants * 100 + warningCovenants * 50) / totalCovenants);
+      }
+
+      // Determine trend (simplified - based on recent checks)
+      let trend: "up" | "down" | "stable" = "stable";
+      if (warningCovenants > 0 || breachCovenants > 0) {
+        trend = "down";
+      } else if (compliantCovenants === totalCovenants) {
+        trend = "up";
+      }
+
+      // Determine category
+      let category: "excellent" | "good" | "fair" | "poor";
+      if (score >= 85) category = "excellent";
+      else if (score >= 70) category = "good";
+      else if (score >= 50) category = "fair";
+      else category = "poor";
+
+      return {
+        id: facility.id,
+        dealName: facility.fundName,
+        score,
+        trend,
+        category,
+        lastUpdate: `Updated ${Math.round((Date.now() - new Date(facility.updatedAt).getTime()) / (1000 * 60 * 60))} hours ago`,
+      };
+    }));
+
+    res.json(healthScores);
+  } catch (error) {
+    console.error("Get health scores error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch health scores",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/monitoring/stats
+// Get monitoring statistics
+router.get("/monitoring/stats", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const allFacilities = await db.select().from(facilities);
+    const allCovenants = await db.select().from(covenants);
+
+    const compliantCount = allCovenants.filter(c => c.status === "compliant").length;
+    const warningCount = allCovenants.filter(c => c.status === "warning").length;
+    const breachCount = allCovenants.filter(c => c.status === "breach").length;
+    const total = allCovenants.length;
+
+    res.json({
+      compliantDeals: allFacilities.filter(f => f.status === "active").length,
+      compliantPercentage: total > 0 ? Math.round((compliantCount / total) * 100) : 0,
+      warningDeals: warningCount,
+      warningPercentage: total > 0 ? Math.round((warningCount / total) * 100) : 0,
+      breachDeals: breachCount,
+      breachPercentage: total > 0 ? Math.round((breachCount / total) * 100) : 0,
+      totalCovenants: total,
+    });
+  } catch (error) {
+    console.error("Get monitoring stats error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch monitoring stats",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Draw Request Routes
+// POST /api/facilities/:facilityId/draw-requests
+// Create a new draw request for a facility (GP role only)
+router.post("/facilities/:facilityId/draw-requests", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // Only GPs can create draw requests
+    if (req.user.role !== "gp") {
+      return res.status(403).json({ error: "Forbidden: Only GPs can create draw requests" });
+    }
+
+    const { facilityId } = req.params;
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateFacilityOwnership(
+      facilityId,
+      req.user,
+      "submit draw requests"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const facility = ownershipCheck.facility;
+
+    // Verify facility is active (cannot request draws on closed facilities)
+    if (facility.status !== "active") {
+      return res.status(403).json({ 
+        error: "Forbidden: Cannot request draws on non-active facilities",
+        facilityStatus: facility.status
+      });
+    }
+
+    // Validate request body
+    const validation = validateBody(insertDrawRequestSchema, {
+      ...req.body,
+      facilityId,
+      requestedBy: req.user.email,
+      status: "pending",
+    });
+
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid request data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const [drawRequest] = await db.insert(drawRequests)
+      .values(validation.data)
+      .returning();
+
+    // Get all operations and admin users to notify them
+    const opsUsers = await db.select()
+      .from(users)
+      .where(
+        or(
+          eq(users.role, "operations"),
+          eq(users.role, "admin")
+        )
+      );
+
+    // Create notifications for all operations team members
+    if (opsUsers.length > 0) {
+      await db.insert(notifications).values(
+        opsUsers.map(user => ({
+          userId: user.id,
+          type: "draw_request_submitted",
+          title: "New Draw Request",
+          message: `Draw request for $${(validation.data.requestedAmount / 100).toLocaleString()} submitted for ${facility.fundName} by ${req.user!.email}`,
+          relatedEntityType: "draw_request",
+          relatedEntityId: drawRequest.id,
+          actionUrl: `/facilities/${facilityId}`,
+          priority: "high",
+        }))
+      );
+    }
+
+    res.json(drawRequest);
+  } catch (error) {
+    console.error("Create draw request error:", error);
+    res.status(500).json({ 
+      error: "Failed to create draw request",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/facilities/:facilityId/draw-requests
+// Get all draw requests for a facility
+router.get("/facilities/:facilityId/draw-requests", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { facilityId } = req.params;
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateFacilityOwnership(
+      facilityId,
+      req.user,
+      "view draw requests"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const facilityDrawRequests = await db.select()
+      .from(drawRequests)
+      .where(eq(drawRequests.facilityId, facilityId))
+      .orderBy(sql`${drawRequests.requestDate} DESC`);
+
+    res.json(facilityDrawRequests);
+  } catch (error) {
+    console.error("Get draw requests error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch draw requests",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/draw-requests/:id
+// Get a single draw request by ID
+router.get("/draw-requests/:id", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { id } = req.params;
+
+    const [drawRequest] = await db.select()
+      .from(drawRequests)
+      .where(eq(drawRequests.id, id))
+      .limit(1);
+
+    if (!drawRequest) {
+      return res.status(404).json({ error: "Draw request not found" });
+    }
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateFacilityOwnership(
+      drawRequest.facilityId,
+      req.user,
+      "view this draw request"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    res.json(drawRequest);
+  } catch (error) {
+    console.error("Get draw request error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch draw request",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// PATCH /api/draw-requests/:id
+// Edit a pending draw request (amount, purpose) - Operations only
+router.patch("/draw-requests/:id", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // Only operations and admin can update draw requests
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const { id } = req.params;
+
+    // Get existing draw request
+    const [existingDrawRequest] = await db.select()
+      .from(drawRequests)
+      .where(eq(drawRequests.id, id))
+      .limit(1);
+
+    if (!existingDrawRequest) {
+      return res.status(404).json({ error: "Draw request not found" });
+    }
+
+    // Approvals are given on the terms as submitted
+    if (existingDrawRequest.status !== "pending") {
+      return res.status(409).json({ 
+        error: "Only pending draw requests can be edited",
+        status: existingDrawRequest.status
+      });
+    }
+
+    // Validate update data
+    const validation = validateBody(updateDrawRequestSchema, req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid update data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const [updatedDrawRequest] = await db.update(drawRequests)
+      .set({ ...validation.data, updatedAt: new Date() })
+      .where(eq(drawRequests.id, id))
+      .returning();
+
+    res.json(updatedDrawRequest);
+  } catch (error) {
+    console.error("Update draw request error:", error);
+    res.status(500).json({ 
+      error: "Failed to update draw request",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/draw-requests/:id/precheck
+// Pro-forma balance, LTV, remaining commitment and covenant effect of a draw - Operations only
+router.get("/draw-requests/:id/precheck", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const [drawRequest] = await db.select()
+      .from(drawRequests)
+      .where(eq(drawRequests.id, req.params.id))
+      .limit(1);
+
+    if (!drawRequest) {
+      return res.status(404).json({ error: "Draw request not found" });
+    }
+
+    const precheck = await computeDrawPrecheck(drawRequest);
+    res.json(precheck);
+  } catch (error) {
+    console.error("Draw precheck error:", error);
+    res.status(500).json({ 
+      error: "Failed to run draw pre-check",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/draw-requests/:id/decisions
+// Approve or reject the current approval step (credit, then treasury) - Operations only
+const drawDecisionSchema = z.object({
+  decision: z.enum(["approve", "reject"]),
+  comments: z.string().optional(),
+  rejectionReason: z.string().optional(),
+});
+
+router.post("/draw-requests/:id/decisions", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const validation = validateBody(drawDecisionSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid decision data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const result = await decideDrawRequest(req.params.id, req.user, validation.data, req);
+    if (!result.success) {
+      return res.status(result.status).json({ 
+        error: result.error,
+        message: result.message,
+        precheck: result.precheck
+      });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error("Draw decision error:", error);
+    res.status(500).json({ 
+      error: "Failed to record draw decision",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/draw-requests/:id/disburse
+// Fund an approved draw and regenerate the payment schedule - Operations only
+const drawDisbursementSchema = z.object({
+  disbursedDate: z.coerce.date().optional(),
+});
+
+router.post("/draw-requests/:id/disburse", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const validation = validateBody(drawDisbursementSchema, req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid disbursement data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const result = await disburseDrawRequest(req.params.id, req.user, validation.data, req);
+    if (!result.success) {
+      return res.status(result.status).json({ 
+        error: result.error,
+        message: result.message
+      });
+    }
+
+    res.json(result.drawRequest);
+  } catch (error) {
+    console.error("Disburse draw request error:", error);
+    res.status(500).json({ 
+      error: "Failed to disburse draw request",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// Cash Flow / Repayment Tracking Routes
+// POST /api/facilities/:facilityId/cash-flows
+// Create scheduled payment for a facility (Operations only)
+router.post("/facilities/:facilityId/cash-flows", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // Only operations and admin can create scheduled payments
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const { facilityId } = req.params;
+
+    // Validate facility exists
+    const [facility] = await db.select()
+      .from(facilities)
+      .where(eq(facilities.id, facilityId))
+      .limit(1);
+
+    if (!facility) {
+      return res.status(404).json({ error: "Facility not found" });
+    }
+
+    // Validate request body
+    const validation = validateBody(insertCashFlowSchema, {
+      ...req.body,
+      facilityId,
+      status: "scheduled",
+    });
+
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid request data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const [cashFlow] = await db.insert(cashFlows)
+      .values(validation.data)
+      .returning();
+
+    res.json(cashFlow);
+  } catch (error) {
+    console.error("Create cash flow error:", error);
+    res.status(500).json({ 
+      error: "Failed to create cash flow",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// GET /api/facilities/:facilityId/rate-resets
+// Rate fixing history for a floating-rate facility
+router.get("/facilities/:facilityId/rate-resets", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { facilityId } = req.params;
+
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateFacilityOwnership(
+      facilityId,
+      req.user,
+      "view rate fixings"
+    );
+
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
+    }
+
+    const resets = await getFacilityRateResets(facilityId);
+    res.json(resets);
+  } catch (error) {
+    console.error("Get rate resets error:", error);
+    res.status(500).json({ 
+      error: "Failed to fetch rate resets",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
+
+// POST /api/facilities/:facilityId/rate-resets
+// Fix the current period's rate from the latest reference rate fixing (Operations only)
+const rateResetSchema = z.object({
+  asOf: z.coerce.date().optional(),
+});
+
+router.post("/facilities/:facilityId/rate-resets", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // Only operations and admin can reset rates
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const { facilityId } = req.params;
 
+    const validation = validateBody(rateResetSchema, req.body ?? {});
     if (!validation.success) {
       return res.status(400).json({ 
-        error: "Invalid request data", 
+        error: "Invalid rate reset request", 
         details: validation.error.errors 
       });
     }
 
-    const [drawRequest] = await db.insert(drawRequests)
-      .values(validation.data)
-      .returning();
-
-    // Get all operations and admin users to notify them
-    const opsUsers = await db.select()
-      .from(users)
-      .where(
-        or(
-          eq(users.role, "operations"),
-          eq(users.role, "admin")
-        )
-      );
-
-    // Create notifications for all operations team members
-    if (opsUsers.length > 0) {
-      await db.insert(notifications).values(
-        opsUsers.map(user => ({
-          userId: user.id,
-          type: "draw_request_submitted",
-          title: "New Draw Request",
-          message: `Draw request for $${(validation.data.requestedAmount / 100).toLocaleString()} submitted for ${facility.fundName} by ${req.user!.email}`,
-          relatedEntityType: "draw_request",
-          relatedEntityId: drawRequest.id,
-          actionUrl: `/facilities/${facilityId}`,
-          priority: "high",
-        }))
-      );
+    const result = await resetFloatingRate(facilityId, validation.data.asOf);
+    if (!result) {
+      return res.status(409).json({ 
+        error: "Rate not reset",
+        message: "No reference rate fixing is available for the current period, or the facility has matured"
+      });
     }
 
-    res.json(drawRequest);
+    res.json(result);
   } catch (error) {
-    console.error("Create draw request error:", error);
+    console.error("Rate reset error:", error);
     res.status(500).json({ 
-      error: "Failed to create draw request",
+      error: "Failed to reset rate",
       details: error instanceof Error ? error.message : "Unknown error"
     });
   }
 });
 
-// GET /api/facilities/:facilityId/draw-requests
-// Get all draw requests for a facility
-router.get("/facilities/:facilityId/draw-requests", async (req: Request, res: Response) => {
+// GET /api/facilities/:facilityId/payoff-quote?date=YYYY-MM-DD
+// Amount required to repay the facility in full on a date (defaults to today)
+router.get("/facilities/:facilityId/payoff-quote", async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: "Unauthorized" });
@@ -2283,7 +4073,7 @@ router.get("/facilities/:facilityId/draw-requests", async (req: Request, res: Re
     const ownershipCheck = await validateFacilityOwnership(
       facilityId,
       req.user,
-      "view draw requests"
+      "request payoff quotes"
     );
 
     if (!ownershipCheck.success) {
@@ -2293,45 +4083,37 @@ router.get("/facilities/:facilityId/draw-requests", async (req: Request, res: Re
       });
     }
 
-    const facilityDrawRequests = await db.select()
-      .from(drawRequests)
-      .where(eq(drawRequests.facilityId, facilityId))
-      .orderBy(sql`${drawRequests.requestDate} DESC`);
+    const payoffDate = typeof req.query.date === "string" ? new Date(req.query.date) : new Date();
+    if (isNaN(payoffDate.getTime())) {
+      return res.status(400).json({ error: "Invalid payoff date" });
+    }
 
-    res.json(facilityDrawRequests);
+    const quote = await getPayoffQuote(facilityId, payoffDate);
+    res.json(quote);
   } catch (error) {
-    console.error("Get draw requests error:", error);
+    console.error("Payoff quote error:", error);
     res.status(500).json({ 
-      error: "Failed to fetch draw requests",
+      error: "Failed to calculate payoff quote",
       details: error instanceof Error ? error.message : "Unknown error"
     });
   }
 });
 
-// GET /api/draw-requests/:id
-// Get a single draw request by ID
-router.get("/draw-requests/:id", async (req: Request, res: Response) => {
+// GET /api/facilities/:facilityId/ledger
+// Accrual ledger entries, optionally limited with ?from=&to=
+router.get("/facilities/:facilityId/ledger", async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    const { id } = req.params;
-
-    const [drawRequest] = await db.select()
-      .from(drawRequests)
-      .where(eq(drawRequests.id, id))
-      .limit(1);
-
-    if (!drawRequest) {
-      return res.status(404).json({ error: "Draw request not found" });
-    }
+    const { facilityId } = req.params;
 
     // SECURITY: Validate facility ownership for GP users
     const ownershipCheck = await validateFacilityOwnership(
-      drawRequest.facilityId,
+      facilityId,
       req.user,
-      "view this draw request"
+      "view the accrual ledger"
     );
 
     if (!ownershipCheck.success) {
@@ -2341,140 +4123,189 @@ router.get("/draw-requests/:id", async (req: Request, res: Response) => {
       });
     }
 
-    res.json(drawRequest);
+    const from = typeof req.query.from === "string" ? new Date(req.query.from) : undefined;
+    const to = typeof req.query.to === "string" ? new Date(req.query.to) : undefined;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: "Invalid date range" });
+    }
+
+    const entries = await getLedgerEntries(facilityId, { from, to });
+    res.json(entries);
   } catch (error) {
-    console.error("Get draw request error:", error);
+    console.error("Get ledger error:", error);
     res.status(500).json({ 
-      error: "Failed to fetch draw request",
+      error: "Failed to fetch ledger",
       details: error instanceof Error ? error.message : "Unknown error"
     });
   }
 });
 
-// PATCH /api/draw-requests/:id
-// Update draw request (approve, reject, or disburse) - Operations only
-router.patch("/draw-requests/:id", async (req: Request, res: Response) => {
+// POST /api/facilities/:facilityId/ledger/fees
+// Charge a fee to the facility (Operations only)
+const ledgerFeeSchema = z.object({
+  amount: z.number().int().positive(),
+  date: z.coerce.date().optional(),
+  description: z.string().min(1),
+});
+
+router.post("/facilities/:facilityId/ledger/fees", async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    // Only operations and admin can update draw requests
+    // Only operations and admin can charge fees
     if (req.user.role !== "operations" && req.user.role !== "admin") {
       return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
     }
 
-    const { id } = req.params;
+    const validation = validateBody(ledgerFeeSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid fee data", 
+        details: validation.error.errors 
+      });
+    }
 
-    // Get existing draw request
-    const [existingDrawRequest] = await db.select()
-      .from(drawRequests)
-      .where(eq(drawRequests.id, id))
-      .limit(1);
+    const entry = await assessFee(req.params.facilityId, {
+      ...validation.data,
+      createdBy: req.user.id,
+    });
+    res.json(entry);
+  } catch (error) {
+    console.error("Assess fee error:", error);
+    res.status(500).json({ 
+      error: "Failed to assess fee",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
 
-    if (!existingDrawRequest) {
-      return res.status(404).json({ error: "Draw request not found" });
+// POST /api/facilities/:facilityId/ledger/payments
+// Record an unscheduled payment (e.g. prepayment) through the waterfall (Operations only)
+const ledgerPaymentSchema = z.object({
+  amount: z.number().int().positive(),
+  date: z.coerce.date().optional(),
+  description: z.string().optional(),
+});
+
+router.post("/facilities/:facilityId/ledger/payments", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
     }
 
-    // Validate update data
-    const validation = validateBody(updateDrawRequestSchema, req.body);
+    // Only operations and admin can record payments
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
 
+    const validation = validateBody(ledgerPaymentSchema, req.body);
     if (!validation.success) {
       return res.status(400).json({ 
-        error: "Invalid update data", 
+        error: "Invalid payment data", 
         details: validation.error.errors 
       });
     }
 
-    // Add metadata based on status change
-    const updates: Partial<InsertDrawRequest> = { ...validation.data };
+    const result = await applyPayment(req.params.facilityId, {
+      ...validation.data,
+      createdBy: req.user.id,
+    });
 
-    if (validation.data.status === "approved" && !existingDrawRequest.approvedBy) {
-      updates.approvedBy = req.user.email;
-      updates.approvedDate = new Date();
+    // Principal repaid outside the schedule: re-amortize the remaining payments
+    if (result.allocation.principal > 0) {
+      try {
+        await regenerateCashFlowSchedule(req.params.facilityId, {
+          asOf: result.entry.entryDate,
+          events: [{ type: "prepayment", date: result.entry.entryDate, amount: result.allocation.principal }],
+        });
+      } catch (error) {
+        console.error("Failed to regenerate cash flow schedule:", error);
+      }
     }
 
-    if (validation.data.status === "disbursed" && !existingDrawRequest.disbursedDate) {
-      updates.disbursedDate = new Date();
-    }
+    res.json(result);
+  } catch (error) {
+    console.error("Record ledger payment error:", error);
+    res.status(500).json({ 
+      error: "Failed to record payment",
+      details: error instanceof Error ? error.message : "Unknown error"
+    });
+  }
+});
 
-    const [updatedDrawRequest] = await db.update(drawRequests)
-      .set(updates)
-      .where(eq(drawRequests.id, id))
-      .returning();
+// GET /api/facilities/:facilityId/nav-history
+// NAV observations for a facility, newest first, with the LTV computed at each
+router.get("/facilities/:facilityId/nav-history", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
 
-    // Create notification for status changes
-    if (validation.data.status) {
-      const [facility] = await db.select()
-        .from(facilities)
-        .where(eq(facilities.id, existingDrawRequest.facilityId))
-        .limit(1);
+    const { facilityId } = req.params;
 
-      let notificationMessage = "";
-      let notificationPriority: "low" | "normal" | "high" | "urgent" = "normal";
-
-      if (validation.data.status === "approved") {
-        notificationMessage = `Draw request for $${(existingDrawRequest.requestedAmount / 100).toLocaleString()} has been approved by ${req.user.email}`;
-        notificationPriority = "high";
-      } else if (validation.data.status === "rejected") {
-        notificationMessage = `Draw request for $${(existingDrawRequest.requestedAmount / 100).toLocaleString()} has been rejected by ${req.user.email}`;
-        notificationPriority = "high";
-      } else if (validation.data.status === "disbursed") {
-        notificationMessage = `Draw request for $${(existingDrawRequest.requestedAmount / 100).toLocaleString()} has been disbursed`;
-        notificationPriority = "urgent";
-      }
+    // SECURITY: Validate facility ownership for GP users
+    const ownershipCheck = await validateFacilityOwnership(
+      facilityId,
+      req.user,
+      "view NAV history"
+    );
 
-      if (notificationMessage) {
-        // Find the GP who submitted the request by email
-        const [gpUser] = await db.select()
-          .from(users)
-          .where(eq(users.email, existingDrawRequest.requestedBy))
-          .limit(1);
-
-        if (gpUser) {
-          // Send notification to the GP who requested the draw
-          await db.insert(notifications).values({
-            userId: gpUser.id, // Send to GP who requested it
-            type: "draw_request_status_change",
-            title: `Draw Request ${validation.data.status}`,
-            message: notificationMessage,
-            relatedEntityType: "draw_request",
-            relatedEntityId: id,
-            actionUrl: `/facilities/${existingDrawRequest.facilityId}`,
-            priority: notificationPriority,
-          });
-        }
-      }
+    if (!ownershipCheck.success) {
+      return res.status(ownershipCheck.status).json({ 
+        error: ownershipCheck.error,
+        message: ownershipCheck.message 
+      });
     }
 
-    res.json(updatedDrawRequest);
+    const history = await getFacilityNavHistory(facilityId);
+    res.json(history);
   } catch (error) {
-    console.error("Update draw request error:", error);
+    console.error("Get NAV history error:", error);
     res.status(500).json({ 
-      error: "Failed to update draw request",
+      error: "Failed to fetch NAV history",
       details: error instanceof Error ? error.message : "Unknown error"
     });
   }
 });
 
-// Cash Flow / Repayment Tracking Routes
-// POST /api/facilities/:facilityId/cash-flows
-// Create scheduled payment for a facility (Operations only)
-router.post("/facilities/:facilityId/cash-flows", async (req: Request, res: Response) => {
+// POST /api/facilities/:facilityId/nav-history
+// Record a NAV (manual, or from the valuation model) and recompute LTV (Operations only)
+const navHistorySchema = z.object({
+  asOfDate: z.coerce.date(),
+  source: z.enum(["manual", "valuation_model"]).default("manual"),
+  navValue: z.number().int().positive().optional(),
+  sourceReference: z.string().optional(),
+  notes: z.string().optional(),
+}).refine((data) => data.source === "valuation_model" || data.navValue !== undefined, {
+  message: "navValue is required for manual NAV entries",
+  path: ["navValue"],
+});
+
+router.post("/facilities/:facilityId/nav-history", async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    // Only operations and admin can create scheduled payments
+    // Only operations and admin can record NAV
     if (req.user.role !== "operations" && req.user.role !== "admin") {
       return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
     }
 
     const { facilityId } = req.params;
 
-    // Validate facility exists
-    const [facility] = await db.select()
+    const validation = validateBody(navHistorySchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid NAV data", 
+        details: validation.error.errors 
+      });
+    }
+
+    const [facility] = await db.select({ id: facilities.id })
       .from(facilities)
       .where(eq(facilities.id, facilityId))
       .limit(1);
@@ -2483,29 +4314,79 @@ router.post("/facilities/:facilityId/cash-flows", async (req: Request, res: Resp
       return res.status(404).json({ error: "Facility not found" });
     }
 
-    // Validate request body
-    const validation = validateBody(insertCashFlowSchema, {
-      ...req.body,
+    // Without an explicit value, take the model NAV of the facility's active holdings
+    let navValue = validation.data.navValue;
+    if (navValue === undefined) {
+      const analysis = await calculatePortfolioNAV(facilityId);
+      navValue = Math.round(analysis.totalNAV);
+    }
+
+    const result = await recordFacilityNav({
       facilityId,
-      status: "scheduled",
+      asOfDate: validation.data.asOfDate,
+      navValue,
+      source: validation.data.source ?? "manual",
+      sourceReference: validation.data.sourceReference,
+      notes: validation.data.notes,
+      createdBy: req.user.id,
+    });
+
+    res.status(201).json(result);
+  } catch (error) {
+    console.error("Record NAV error:", error);
+    res.status(500).json({ 
+      error: "Failed to record NAV",
+      details: error instanceof Error ? error.message : "Unknown error"
     });
+  }
+});
+
+// POST /api/facilities/:facilityId/cash-flows/generate-schedule
+// Regenerate the future payment schedule from facility terms (Operations only)
+const generateScheduleSchema = z.object({
+  asOf: z.coerce.date().optional(),
+  dryRun: z.boolean().optional(),
+  openingRateBps: z.number().int().nonnegative().optional(),
+  events: z.array(z.discriminatedUnion("type", [
+    z.object({ type: z.literal("draw"), date: z.coerce.date(), amount: z.number().int().positive() }),
+    z.object({ type: z.literal("prepayment"), date: z.coerce.date(), amount: z.number().int().positive() }),
+    z.object({ type: z.literal("rate_change"), date: z.coerce.date(), rateBps: z.number().int().nonnegative() }),
+  ])).optional(),
+});
+
+router.post("/facilities/:facilityId/cash-flows/generate-schedule", async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    // Only operations and admin can regenerate payment schedules
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const { facilityId } = req.params;
 
+    const validation = validateBody(generateScheduleSchema, req.body ?? {});
     if (!validation.success) {
       return res.status(400).json({ 
-        error: "Invalid request data", 
+        error: "Invalid schedule request", 
         details: validation.error.errors 
       });
     }
 
-    const [cashFlow] = await db.insert(cashFlows)
-      .values(validation.data)
-      .returning();
+    const result = await regenerateCashFlowSchedule(facilityId, validation.data);
 
-    res.json(cashFlow);
+    res.json({
+      facilityId,
+      dryRun: validation.data.dryRun ?? false,
+      schedule: result.schedule,
+      cashFlows: result.cashFlows,
+    });
   } catch (error) {
-    console.error("Create cash flow error:", error);
+    console.error("Generate schedule error:", error);
     res.status(500).json({ 
-      error: "Failed to create cash flow",
+      error: "Failed to generate payment schedule",
       details: error instanceof Error ? error.message : "Unknown error"
     });
   }
@@ -2675,20 +4556,26 @@ router.patch("/cash-flows/:id/payment", async (req: Request, res: Response) => {
       .where(eq(cashFlows.id, id))
       .returning();
 
-    // Update facility outstanding balance
+    // Apply the newly received amount through the ledger waterfall (fees → interest → principal),
+    // which also updates the facility outstanding balance
+    const newlyPaid = paidAmount - existingCashFlow.paidAmount;
+    if (newlyPaid > 0) {
+      await applyPayment(existingCashFlow.facilityId, {
+        amount: newlyPaid,
+        date: updatedCashFlow.paidDate ?? new Date(),
+        description: `Scheduled payment due ${existingCashFlow.dueDate.toISOString().slice(0, 10)}`,
+        relatedEntityType: "cash_flow",
+        relatedEntityId: id,
+        createdBy: req.user.id,
+      });
+    }
+
     const [facility] = await db.select()
       .from(facilities)
       .where(eq(facilities.id, existingCashFlow.facilityId))
       .limit(1);
 
     if (facility) {
-      const principalPaid = Math.min(paidAmount, existingCashFlow.principal);
-      const newOutstandingBalance = facility.outstandingBalance - principalPaid;
-
-      await db.update(facilities)
-        .set({ outstandingBalance: newOutstandingBalance })
-        .where(eq(facilities.id, existingCashFlow.facilityId));
-
       // Create notification for payment received
       await db.insert(notifications).values({
         userId: req.user.id, // TODO: Send to GP and operations team
@@ -3028,7 +4915,31 @@ router.get("/analytics/portfolio-summary", async (req: Request, res: Response) =
 });
 
 // POST /api/analytics/stress-test
-// Perform portfolio stress testing with NAV decline scenarios (Operations/Admin only)
+// Stress test active facilities under uniform NAV declines and holding-, sector- and
+// geography-level shock scenarios (Operations/Admin only). Body: { scenarios? }, which
+// defaults to the standard shock scenarios.
+const shockPercentSchema = z.number().min(-100).max(100);
+const shockScenarioSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  baseShock: shockPercentSchema.optional(),
+  sectorShocks: z.record(shockPercentSchema).optional(),
+  geographyShocks: z.record(shockPercentSchema).optional(),
+  holdingShocks: z.array(z.object({
+    companyId: z.string().optional(),
+    companyName: z.string().optional(),
+    shock: shockPercentSchema,
+  }).refine(h => h.companyId || h.companyName, "companyId or companyName is required")).optional(),
+  topHoldingsShock: z.object({
+    count: z.number().int().positive(),
+    shock: shockPercentSchema,
+  }).optional(),
+});
+
+const stressTestSchema = z.object({
+  scenarios: z.array(shockScenarioSchema).min(1).max(20).optional(),
+});
+
 router.post("/analytics/stress-test", async (req: Request, res: Response) => {
   try {
     if (!req.user) {
@@ -3039,114 +4950,43 @@ router.post("/analytics/stress-test", async (req: Request, res: Response) => {
       return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
     }
 
-    // Get all facilities with their prospect data for NAV information
-    const facilitiesWithProspects = await db
-      .select({
-        facility: facilities,
-        prospect: prospects,
-      })
-      .from(facilities)
-      .leftJoin(prospects, eq(facilities.prospectId, prospects.id))
-      .where(eq(facilities.status, "active"));
-
-    if (facilitiesWithProspects.length === 0) {
-      return res.json({
-        baseline: { totalExposure: 0, avgLtv: 0, facilitiesAtRisk: 0, breachCount: 0 },
-        moderate: { totalExposure: 0, avgLtv: 0, facilitiesAtRisk: 0, breachCount: 0, navDecline: 20 },
-        severe: { totalExposure: 0, avgLtv: 0, facilitiesAtRisk: 0, breachCount: 0, navDecline: 40 },
-        recommendations: [],
+    const validation = validateBody(stressTestSchema, req.body ?? {});
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid stress test scenarios", 
+        details: validation.error.errors 
       });
     }
 
-    // Calculate stress test scenarios
-    const baselineMetrics = {
-      totalExposure: 0,
-      avgLtv: 0,
-      facilitiesAtRisk: 0,
-      breachCount: 0,
-    };
-
-    const moderateStressMetrics = {
-      totalExposure: 0,
-      avgLtv: 0,
-      facilitiesAtRisk: 0,
-      breachCount: 0,
-      navDecline: 20,
-    };
-
-    const severeStressMetrics = {
-      totalExposure: 0,
-      avgLtv: 0,
-      facilitiesAtRisk: 0,
-      breachCount: 0,
-      navDecline: 40,
-    };
-
-    const recommendations: Array<{
-      facilityId: string;
-      fundName: string;
-      currentLtv: number;
-      moderateStressLtv: number;
-      severeStressLtv: number;
-      riskLevel: 'low' | 'medium' | 'high' | 'critical';
-      recommendation: string;
-    }> = [];
-
-    let totalLtv = 0;
-    let totalModerateLtv = 0;
-    let totalSevereLtv = 0;
-
-    for (const { facility, prospect } of facilitiesWithProspects) {
-      const currentOutstanding = facility.outstandingBalance;
-      const currentNav = prospect?.fundSize || (currentOutstanding * 100) / facility.ltvRatio; // Estimate NAV if not available
-
-      baselineMetrics.totalExposure += currentOutstanding;
-
-      // Baseline LTV
-      const baselineLtv = (currentOutstanding / currentNav) * 100;
-      totalLtv += baselineLtv;
-
-      // Moderate stress: -20% NAV decline
-      const moderateNav = currentNav * 0.80;
-      const moderateLtv = (currentOutstanding / moderateNav) * 100;
-      totalModerateLtv += moderateLtv;
-      moderateStressMetrics.totalExposure += currentOutstanding;
-
-      // Severe stress: -40% NAV decline
-      const severeNav = currentNav * 0.60;
-      const severeLtv = (currentOutstanding / severeNav) * 100;
-      totalSevereLtv += severeLtv;
-      severeStressMetrics.totalExposure += currentOutstanding;
-
-      // Check for covenant breaches (assuming 70% LTV covenant)
-      const ltvCovenantThreshold = 70;
-      
-      if (baselineLtv > ltvCovenantThreshold) {
-        baselineMetrics.breachCount++;
-        baselineMetrics.facilitiesAtRisk++;
-      }
+    const [baseline, moderate, severe, ...scenarios] = await runShockScenarios([
+      uniformShockScenario("Baseline", 0),
+      uniformShockScenario("Moderate Stress", -20),
+      uniformShockScenario("Severe Stress", -40),
+      ...(validation.data.scenarios ?? getStandardShockScenarios()),
+    ]);
 
-      if (moderateLtv > ltvCovenantThreshold) {
-        moderateStressMetrics.breachCount++;
-        moderateStressMetrics.facilitiesAtRisk++;
-      }
+    const summarize = (result: ShockScenarioResult) => ({
+      totalExposure: result.totalExposure,
+      avgLtv: result.avgLtv,
+      facilitiesAtRisk: result.facilitiesAtRisk,
+      breachCount: result.breachCount,
+    });
 
-      if (severeLtv > ltvCovenantThreshold) {
-        severeStressMetrics.breachCount++;
-        severeStressMetrics.facilitiesAtRisk++;
-      }
+    const recommendations = baseline.facilities.map((facility) => {
+      const moderateLtv = moderate.facilities.find(f => f.facilityId === facility.facilityId)?.stressedLtv ?? facility.baselineLtv;
+      const severeLtv = severe.facilities.find(f => f.facilityId === facility.facilityId)?.stressedLtv ?? facility.baselineLtv;
+      const limit = facility.ltvLimit;
 
-      // Generate recommendations
       let riskLevel: 'low' | 'medium' | 'high' | 'critical';
       let recommendation: string;
 
-      if (severeLtv > 80) {
+      if (severeLtv > limit + 10) {
         riskLevel = 'critical';
         recommendation = `Immediate action required: LTV reaches ${severeLtv.toFixed(1)}% under severe stress. Consider reducing exposure or requiring additional collateral.`;
-      } else if (moderateLtv > 75) {
+      } else if (moderateLtv > limit + 5) {
         riskLevel = 'high';
         recommendation = `High risk: LTV reaches ${moderateLtv.toFixed(1)}% under moderate stress. Monitor closely and prepare contingency plans.`;
-      } else if (moderateLtv > 70) {
+      } else if (moderateLtv > limit) {
         riskLevel = 'medium';
         recommendation = `Medium risk: LTV approaches covenant threshold under moderate stress. Increase monitoring frequency.`;
       } else {
@@ -3154,30 +4994,26 @@ router.post("/analytics/stress-test", async (req: Request, res: Response) => {
         recommendation = `Low risk: Facility maintains healthy LTV (${moderateLtv.toFixed(1)}%) even under moderate stress.`;
       }
 
-      recommendations.push({
-        facilityId: facility.id,
+      return {
+        facilityId: facility.facilityId,
         fundName: facility.fundName,
-        currentLtv: Math.round(baselineLtv * 10) / 10,
-        moderateStressLtv: Math.round(moderateLtv * 10) / 10,
-        severeStressLtv: Math.round(severeLtv * 10) / 10,
+        currentLtv: facility.baselineLtv,
+        moderateStressLtv: moderateLtv,
+        severeStressLtv: severeLtv,
         riskLevel,
         recommendation,
-      });
-    }
-
-    const facilityCount = facilitiesWithProspects.length;
-    baselineMetrics.avgLtv = Math.round((totalLtv / facilityCount) * 10) / 10;
-    moderateStressMetrics.avgLtv = Math.round((totalModerateLtv / facilityCount) * 10) / 10;
-    severeStressMetrics.avgLtv = Math.round((totalSevereLtv / facilityCount) * 10) / 10;
+      };
+    });
 
     res.json({
-      baseline: baselineMetrics,
-      moderate: moderateStressMetrics,
-      severe: severeStressMetrics,
+      baseline: summarize(baseline),
+      moderate: { ...summarize(moderate), navDecline: 20 },
+      severe: { ...summarize(severe), navDecline: 40 },
       recommendations: recommendations.sort((a, b) => {
         const riskOrder = { critical: 0, high: 1, medium: 2, low: 3 };
         return riskOrder[a.riskLevel] - riskOrder[b.riskLevel];
       }),
+      scenarios,
     });
   } catch (error) {
     console.error("Stress test error:", error);
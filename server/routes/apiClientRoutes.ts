@@ -4,9 +4,24 @@ import { db } from "../db";
 import { apiClients, apiUsageLogs, accessTokens } from "@shared/schema";
 import { eq, desc, and, gte, sql } from "drizzle-orm";
 import { generateClientCredentials } from "../oauth/oauthServer";
+import { createAuditLog, AuditActions, EntityTypes } from "../auditLogger";
+import {
+  generateWebhookSecret,
+  getWebhookDeliveries,
+  isWebhookEventType,
+  redeliverWebhook,
+} from "../services/webhooks";
 
 const router = Router();
 
+// null/undefined subscribes to every event; otherwise every entry must be a known event type
+function invalidWebhookEvents(webhookEvents: unknown): string | null {
+  if (webhookEvents === undefined || webhookEvents === null) return null;
+  if (!Array.isArray(webhookEvents)) return "webhookEvents must be an array of event types";
+  const unknown = webhookEvents.filter((event) => typeof event !== "string" || !isWebhookEventType(event));
+  return unknown.length > 0 ? `Unknown webhook event type(s): ${unknown.join(", ")}` : null;
+}
+
 // GET /api/oauth/clients - List all API clients (operations/admin only)
 router.get("/clients", async (req: Request, res: Response) => {
   try {
@@ -29,6 +44,8 @@ router.get("/clients", async (req: Request, res: Response) => {
         rateLimit: apiClients.rateLimit,
         environment: apiClients.environment,
         contactEmail: apiClients.contactEmail,
+        webhookUrl: apiClients.webhookUrl,
+        webhookEvents: apiClients.webhookEvents,
         lastUsed: apiClients.lastUsed,
         createdAt: apiClients.createdAt,
         createdBy: apiClients.createdBy,
@@ -62,12 +79,18 @@ router.post("/clients", async (req: Request, res: Response) => {
       environment,
       contactEmail,
       webhookUrl,
+      webhookEvents,
     } = req.body;
 
     if (!clientName || !allowedScopes) {
       return res.status(400).json({ error: "clientName and allowedScopes are required" });
     }
 
+    const webhookEventsError = invalidWebhookEvents(webhookEvents);
+    if (webhookEventsError) {
+      return res.status(400).json({ error: webhookEventsError });
+    }
+
     // Generate credentials (async bcrypt hashing)
     const { clientId, clientSecret, hashedSecret} = await generateClientCredentials();
 
@@ -86,6 +109,8 @@ router.post("/clients", async (req: Request, res: Response) => {
         rateLimit: rateLimit || 1000,
         environment: environment || "production",
         webhookUrl: webhookUrl || null,
+        webhookSecret: webhookUrl ? generateWebhookSecret() : null,
+        webhookEvents: webhookEvents ?? null,
         contactEmail: contactEmail || null,
         createdBy: req.user.id,
       })
@@ -114,7 +139,12 @@ router.patch("/clients/:id", async (req: Request, res: Response) => {
     }
 
     const { id } = req.params;
-    const { status, rateLimit, allowedScopes, contactEmail, webhookUrl } = req.body;
+    const { status, rateLimit, allowedScopes, contactEmail, webhookUrl, webhookEvents } = req.body;
+
+    const webhookEventsError = invalidWebhookEvents(webhookEvents);
+    if (webhookEventsError) {
+      return res.status(400).json({ error: webhookEventsError });
+    }
 
     const updates: any = { updatedAt: new Date() };
 
@@ -122,7 +152,18 @@ router.patch("/clients/:id", async (req: Request, res: Response) => {
     if (rateLimit !== undefined) updates.rateLimit = rateLimit;
     if (allowedScopes !== undefined) updates.allowedScopes = allowedScopes;
     if (contactEmail !== undefined) updates.contactEmail = contactEmail;
-    if (webhookUrl !== undefined) updates.webhookUrl = webhookUrl;
+    if (webhookUrl !== undefined) updates.webhookUrl = webhookUrl || null;
+    if (webhookEvents !== undefined) updates.webhookEvents = webhookEvents;
+
+    // Adding a webhook URL to a client that never had one needs a signing secret
+    if (webhookUrl) {
+      const [existing] = await db
+        .select({ webhookSecret: apiClients.webhookSecret })
+        .from(apiClients)
+        .where(eq(apiClients.id, id))
+        .limit(1);
+      if (existing && !existing.webhookSecret) updates.webhookSecret = generateWebhookSecret();
+    }
 
     const [updated] = await db
       .update(apiClients)
@@ -241,4 +282,84 @@ router.get("/clients/:id/usage", async (req: Request, res: Response) => {
   }
 });
 
+// POST /api/oauth/clients/:id/webhook-secret - Rotate the webhook signing secret
+router.post("/clients/:id/webhook-secret", async (req: Request, res: Response) => {
+  try {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const [updated] = await db
+      .update(apiClients)
+      .set({ webhookSecret: generateWebhookSecret(), updatedAt: new Date() })
+      .where(eq(apiClients.id, req.params.id))
+      .returning();
+
+    if (!updated) {
+      return res.status(404).json({ error: "Client not found" });
+    }
+
+    await createAuditLog({
+      userId: req.user.id,
+      userRole: req.user.role,
+      action: AuditActions.ROTATE_WEBHOOK_SECRET,
+      entityType: EntityTypes.API_CLIENT,
+      entityId: updated.id,
+      changes: { clientId: updated.clientId },
+      req,
+    });
+
+    return res.json({ webhookSecret: updated.webhookSecret });
+  } catch (error: any) {
+    console.error("Error rotating webhook secret:", error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// GET /api/oauth/clients/:id/webhooks - Webhook delivery log for a client
+router.get("/clients/:id/webhooks", async (req: Request, res: Response) => {
+  try {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const status = typeof req.query.status === "string" && req.query.status !== "all" ? req.query.status : undefined;
+    return res.json(await getWebhookDeliveries(req.params.id, { status }));
+  } catch (error: any) {
+    console.error("Error fetching webhook deliveries:", error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+// POST /api/oauth/clients/:id/webhooks/:deliveryId/redeliver - Send a webhook event again
+router.post("/clients/:id/webhooks/:deliveryId/redeliver", async (req: Request, res: Response) => {
+  try {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const result = await redeliverWebhook(req.params.id, req.params.deliveryId, req.user, req);
+    if (!result.success) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    return res.json(result.delivery);
+  } catch (error: any) {
+    console.error("Error redelivering webhook:", error);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
@@ -0,0 +1,209 @@
+import { Router } from "express";
+import { z } from "zod";
+import type { User } from "@shared/schema";
+import {
+  predictCovenantBreach,
+  getBreachPredictions,
+  getCalibrationReport,
+} from "../services/breachPrediction";
+import {
+  BreachModelError,
+  trainBreachModel,
+  activateBreachModel,
+  listBreachModels,
+} from "../services/breachModel";
+
+export const breachPredictionRouter = Router();
+
+/**
+ * POST /api/breach-predictions/facilities/:facilityId
+ * Run breach predictions for a facility's covenants
+ */
+const predictSchema = z.object({
+  covenantId: z.string().optional(),
+  timeHorizon: z.enum(["30_days", "90_days", "180_days", "1_year"]).default("90_days"),
+});
+
+breachPredictionRouter.post("/facilities/:facilityId", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const user = req.user as User;
+    if (user.role !== "operations" && user.role !== "admin") {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    const validation = predictSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: "Invalid request",
+        details: validation.error.issues,
+      });
+    }
+
+    const result = await predictCovenantBreach({
+      facilityId: req.params.facilityId,
+      ...validation.data,
+    });
+    if (!result) {
+      return res.status(404).json({ error: "Facility or covenant not found" });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Error predicting covenant breach:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to predict covenant breach"
+    });
+  }
+});
+
+/**
+ * GET /api/breach-predictions/facilities/:facilityId
+ * Prediction history for a facility
+ */
+breachPredictionRouter.get("/facilities/:facilityId", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const user = req.user as User;
+    if (user.role !== "operations" && user.role !== "admin") {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    const timeHorizon = typeof req.query.timeHorizon === "string" ? req.query.timeHorizon : undefined;
+    const predictions = await getBreachPredictions(req.params.facilityId, timeHorizon);
+    res.json(predictions);
+  } catch (error) {
+    console.error("Error fetching breach predictions:", error);
+    res.status(500).json({ error: "Failed to fetch breach predictions" });
+  }
+});
+
+/**
+ * GET /api/breach-predictions/calibration
+ * Calibration of resolved predictions (Brier score, reliability buckets) per model version
+ */
+breachPredictionRouter.get("/calibration", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const user = req.user as User;
+    if (user.role !== "operations" && user.role !== "admin") {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    const report = await getCalibrationReport({
+      timeHorizon: typeof req.query.timeHorizon === "string" ? req.query.timeHorizon : undefined,
+      modelVersion: typeof req.query.modelVersion === "string" ? req.query.modelVersion : undefined,
+    });
+    res.json(report);
+  } catch (error) {
+    console.error("Error building calibration report:", error);
+    res.status(500).json({ error: "Failed to build calibration report" });
+  }
+});
+
+/**
+ * GET /api/breach-predictions/models
+ * List trained breach model versions
+ */
+breachPredictionRouter.get("/models", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const user = req.user as User;
+    if (user.role !== "operations" && user.role !== "admin") {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    const models = await listBreachModels();
+    res.json(models);
+  } catch (error) {
+    console.error("Error listing breach models:", error);
+    res.status(500).json({ error: "Failed to list breach models" });
+  }
+});
+
+/**
+ * POST /api/breach-predictions/models/train
+ * Train a new breach model version on labelled outcomes (admin only)
+ */
+const trainSchema = z.object({
+  modelVersion: z.string().optional(),
+  activate: z.boolean().optional(),
+  hyperparameters: z.object({
+    learningRate: z.number().positive().optional(),
+    epochs: z.number().int().positive().max(10000).optional(),
+    l2: z.number().min(0).optional(),
+    decisionThreshold: z.number().min(0).max(1).optional(),
+    holdoutEvery: z.number().int().min(2).optional(),
+  }).optional(),
+});
+
+breachPredictionRouter.post("/models/train", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const user = req.user as User;
+    if (user.role !== "admin") {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    const validation = trainSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: "Invalid request",
+        details: validation.error.issues,
+      });
+    }
+
+    const model = await trainBreachModel(validation.data);
+    res.json(model);
+  } catch (error) {
+    if (error instanceof BreachModelError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error training breach model:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to train breach model"
+    });
+  }
+});
+
+/**
+ * POST /api/breach-predictions/models/:id/activate
+ * Make a trained model the active predictor (admin only)
+ */
+breachPredictionRouter.post("/models/:id/activate", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const user = req.user as User;
+    if (user.role !== "admin") {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    const model = await activateBreachModel(req.params.id);
+    res.json(model);
+  } catch (error) {
+    if (error instanceof BreachModelError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error("Error activating breach model:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to activate breach model"
+    });
+  }
+});
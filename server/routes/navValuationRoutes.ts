@@ -8,20 +8,42 @@ import {
   calculatePortfolioNAV,
   performPortfolioStressTest,
 } from "../services/navValuation";
+import {
+  reconcileFacilityNav,
+  recordModelMark,
+  applyAdjustedNav,
+} from "../services/navReconciliation";
 
 export const navValuationRouter = Router();
 
 /**
  * POST /api/nav-valuation/company
- * Calculate valuation for a portfolio company
+ * Calculate valuation for a portfolio company; with recordAsOf, also store it as a model mark
  */
 const calculateValuationSchema = z.object({
   companyId: z.string(),
   currentRevenue: z.number().optional(),
   currentEBITDA: z.number().optional(),
   revenueGrowthRate: z.number().optional(),
-  industryMultiple: z.number().optional(),
+  industryMultiple: z.number().positive().optional(),
+  netDebt: z.number().optional(),
+  dcf: z.object({
+    wacc: z.number().positive().max(50),
+    terminalGrowth: z.number().min(-5).max(10),
+    projectedCashFlows: z.array(z.number()).max(20).optional(),
+  }).refine(dcf => dcf.wacc - dcf.terminalGrowth >= 1, {
+    message: "WACC must exceed terminal growth by at least one percentage point",
+  }).optional(),
+  lastRound: z.object({
+    postMoneyValuation: z.number().positive(),
+    date: z.coerce.date(),
+  }).optional(),
+  methodWeights: z.record(
+    z.enum(["ev_ebitda", "ev_revenue", "dcf", "last_round", "cost", "reported_fair_value"]),
+    z.number().min(0)
+  ).optional(),
   customFactors: z.record(z.any()).optional(),
+  recordAsOf: z.coerce.date().optional(),
 });
 
 navValuationRouter.post("/company", async (req, res) => {
@@ -44,7 +66,19 @@ navValuationRouter.post("/company", async (req, res) => {
       });
     }
 
-    const result = await calculateCompanyValuation(validation.data);
+    const { recordAsOf, ...input } = validation.data;
+    const result = await calculateCompanyValuation(input);
+
+    if (recordAsOf) {
+      const modelMark = await recordModelMark({
+        companyId: input.companyId,
+        asOfDate: recordAsOf,
+        valuation: result,
+        createdBy: user.id,
+      });
+      return res.json({ ...result, modelMark });
+    }
+
     res.json(result);
   } catch (error) {
     console.error("Error calculating valuation:", error);
@@ -212,3 +246,102 @@ navValuationRouter.post("/portfolio/stress-test", async (req, res) => {
     });
   }
 });
+
+/**
+ * GET /api/nav-valuation/reconciliation/:facilityId
+ * Quarterly GP-reported vs model marks for a facility's holdings, with adjusted NAV
+ */
+const reconciliationQuerySchema = z.object({
+  tolerance: z.coerce.number().min(0).max(100).optional(),
+  quarters: z.coerce.number().int().min(1).max(20).optional(),
+});
+
+navValuationRouter.get("/reconciliation/:facilityId", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const user = req.user as User;
+    if (user.role !== "operations" && user.role !== "admin") {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    const validation = reconciliationQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid request",
+        details: validation.error.issues,
+      });
+    }
+
+    const result = await reconcileFacilityNav(req.params.facilityId, {
+      tolerancePercent: validation.data.tolerance,
+      quarters: validation.data.quarters,
+    });
+
+    if (!result) {
+      return res.status(404).json({ error: "Facility not found" });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error("Error reconciling NAV:", error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : "Failed to reconcile NAV" 
+    });
+  }
+});
+
+/**
+ * POST /api/nav-valuation/reconciliation/:facilityId/apply
+ * Record a quarter's adjusted NAV as the facility NAV used for LTV
+ */
+const applyAdjustedNavSchema = z.object({
+  quarter: z.string().regex(/^\d{4}-Q[1-4]$/).optional(),
+  tolerancePercent: z.number().min(0).max(100).optional(),
+});
+
+navValuationRouter.post("/reconciliation/:facilityId/apply", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const user = req.user as User;
+    if (user.role !== "operations" && user.role !== "admin") {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    const validation = applyAdjustedNavSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: "Invalid request",
+        details: validation.error.issues,
+      });
+    }
+
+    const outcome = await applyAdjustedNav({
+      facilityId: req.params.facilityId,
+      quarter: validation.data.quarter,
+      tolerancePercent: validation.data.tolerancePercent,
+      userId: user.id,
+    });
+
+    if (!outcome.success) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+
+    res.status(201).json({
+      quarter: outcome.quarter.quarter,
+      adjustedNav: outcome.quarter.adjustedNav,
+      entry: outcome.result.entry,
+      recomputation: outcome.result.recomputation,
+    });
+  } catch (error) {
+    console.error("Error applying adjusted NAV:", error);
+    res.status(500).json({ 
+      error: error instanceof Error ? error.message : "Failed to apply adjusted NAV" 
+    });
+  }
+});
@@ -1,15 +1,40 @@
 import express from "express";
 import { db } from "../db";
 import {
+  escalationPolicies,
   notificationPreferences,
+  insertEscalationPolicySchema,
   insertNotificationPreferenceSchema,
   type NotificationPreference,
 } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, desc } from "drizzle-orm";
+import { z } from "zod";
+import { createAuditLog, AuditActions, EntityTypes } from "../auditLogger";
 import { isValidPhoneNumber } from "../services/smsService";
+import { isValidEmailAddress } from "../services/emailService";
+import { validateQuietHoursSettings } from "../services/notificationDigests";
+import { DEFAULT_ESCALATION_POLICY } from "../services/notificationEscalation";
 
 const router = express.Router();
 
+const escalationStepSchema = z.object({
+  afterHours: z.number().min(0),
+  target: z.enum(["recipient", "relationship_manager", "operations_head"]),
+  channels: z.array(z.enum(["in_app", "sms", "email", "slack"])).min(1),
+});
+
+const escalationPolicySchema = insertEscalationPolicySchema
+  .omit({ createdBy: true })
+  .extend({
+    notificationTypes: z.array(z.string()).default([]),
+    priorities: z.array(z.enum(["low", "normal", "high", "urgent"])).default([]),
+    steps: z.array(escalationStepSchema).min(1)
+      .refine(
+        (steps) => steps.every((step, i) => i === 0 || step.afterHours >= steps[i - 1].afterHours),
+        "Escalation steps must be in order of afterHours"
+      ),
+  });
+
 // Get user's notification preferences
 router.get("/preferences", async (req, res) => {
   try {
@@ -46,6 +71,16 @@ router.post("/preferences", async (req, res) => {
       }
     }
 
+    // Validate email address if channel is email
+    if (req.body.channel === "email" && req.body.contactInfo && !isValidEmailAddress(req.body.contactInfo)) {
+      return res.status(400).json({ error: "Invalid email address" });
+    }
+
+    const quietHoursError = validateQuietHoursSettings(req.body);
+    if (quietHoursError) {
+      return res.status(400).json({ error: quietHoursError });
+    }
+
     const validatedData = insertNotificationPreferenceSchema.parse({
       ...req.body,
       userId,
@@ -95,6 +130,17 @@ router.patch("/preferences/:id", async (req, res) => {
       }
     }
 
+    if (req.body.contactInfo && (existing.channel === "email" || req.body.channel === "email")) {
+      if (!isValidEmailAddress(req.body.contactInfo)) {
+        return res.status(400).json({ error: "Invalid email address" });
+      }
+    }
+
+    const quietHoursError = validateQuietHoursSettings(req.body);
+    if (quietHoursError) {
+      return res.status(400).json({ error: quietHoursError });
+    }
+
     const [updated] = await db.update(notificationPreferences)
       .set({
         ...req.body,
@@ -181,6 +227,18 @@ router.post("/preferences/:id/test", async (req, res) => {
       }
     }
 
+    if (preference.channel === 'email') {
+      const { isSmtpConfigured } = await import("../services/emailService");
+      if (!isSmtpConfigured()) {
+        return res.status(400).json({
+          success: false,
+          sent: 0,
+          failed: 1,
+          message: "Email service not configured. Please add SMTP settings (SMTP_HOST, SMTP_FROM) to enable email notifications.",
+        });
+      }
+    }
+
     if (preference.channel === 'slack' && !process.env.SLACK_WEBHOOK_URL) {
       return res.status(400).json({
         success: false,
@@ -215,4 +273,164 @@ router.post("/preferences/:id/test", async (req, res) => {
   }
 });
 
+// Outbound delivery queue (operations only)
+router.get("/deliveries", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const { getDeliveryQueue } = await import("../services/notificationDelivery");
+    const queue = await getDeliveryQueue({
+      status: typeof req.query.status === "string" && req.query.status !== "all" ? req.query.status : undefined,
+      channel: typeof req.query.channel === "string" && req.query.channel !== "all" ? req.query.channel : undefined,
+    });
+
+    res.json(queue);
+  } catch (error) {
+    console.error("Error fetching notification deliveries:", error);
+    res.status(500).json({ error: "Failed to fetch notification deliveries" });
+  }
+});
+
+// Replay a dead-lettered delivery
+router.post("/deliveries/:id/replay", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const { replayDelivery } = await import("../services/notificationDelivery");
+    const result = await replayDelivery(req.params.id, req.user, req);
+    if (!result.success) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    res.json(result.delivery);
+  } catch (error) {
+    console.error("Error replaying notification delivery:", error);
+    res.status(500).json({ error: "Failed to replay notification delivery" });
+  }
+});
+
+// List escalation policies (ops only). The built-in default applies while none are active.
+router.get("/escalation-policies", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const policies = await db.select()
+      .from(escalationPolicies)
+      .orderBy(desc(escalationPolicies.createdAt));
+
+    res.json({
+      policies,
+      defaultPolicy: DEFAULT_ESCALATION_POLICY,
+      usingDefault: !policies.some((policy) => policy.isActive),
+    });
+  } catch (error) {
+    console.error("Error fetching escalation policies:", error);
+    res.status(500).json({ error: "Failed to fetch escalation policies" });
+  }
+});
+
+// Create an escalation policy (ops only)
+router.post("/escalation-policies", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const validation = escalationPolicySchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid request data", details: validation.error.errors });
+    }
+    if (validation.data.notificationTypes.length === 0 && validation.data.priorities.length === 0) {
+      return res.status(400).json({ error: "A policy must match at least one notification type or priority" });
+    }
+
+    const [policy] = await db.insert(escalationPolicies)
+      .values({ ...validation.data, createdBy: req.user.id })
+      .returning();
+
+    await createAuditLog({
+      userId: req.user.id,
+      userRole: req.user.role,
+      action: AuditActions.CREATE,
+      entityType: EntityTypes.ESCALATION_POLICY,
+      entityId: policy.id,
+      changes: { after: policy },
+      req,
+    });
+
+    res.status(201).json(policy);
+  } catch (error) {
+    console.error("Error creating escalation policy:", error);
+    res.status(500).json({ error: "Failed to create escalation policy" });
+  }
+});
+
+// Update or deactivate an escalation policy (ops only)
+router.patch("/escalation-policies/:id", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    if (req.user.role !== "operations" && req.user.role !== "admin") {
+      return res.status(403).json({ error: "Forbidden: Operations or admin role required" });
+    }
+
+    const [existing] = await db.select()
+      .from(escalationPolicies)
+      .where(eq(escalationPolicies.id, req.params.id))
+      .limit(1);
+    if (!existing) {
+      return res.status(404).json({ error: "Escalation policy not found" });
+    }
+
+    const validation = escalationPolicySchema.partial().safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: "Invalid request data", details: validation.error.errors });
+    }
+    const notificationTypes = validation.data.notificationTypes ?? (existing.notificationTypes as string[]);
+    const priorities = validation.data.priorities ?? (existing.priorities as string[]);
+    if (notificationTypes.length === 0 && priorities.length === 0) {
+      return res.status(400).json({ error: "A policy must match at least one notification type or priority" });
+    }
+
+    const [policy] = await db.update(escalationPolicies)
+      .set({ ...validation.data, updatedAt: new Date() })
+      .where(eq(escalationPolicies.id, existing.id))
+      .returning();
+
+    await createAuditLog({
+      userId: req.user.id,
+      userRole: req.user.role,
+      action: AuditActions.UPDATE,
+      entityType: EntityTypes.ESCALATION_POLICY,
+      entityId: policy.id,
+      changes: { before: existing, after: policy },
+      req,
+    });
+
+    res.json(policy);
+  } catch (error) {
+    console.error("Error updating escalation policy:", error);
+    res.status(500).json({ error: "Failed to update escalation policy" });
+  }
+});
+
 export default router;
@@ -0,0 +1,98 @@
+import { Router } from "express";
+import { z } from "zod";
+import type { User } from "@shared/schema";
+import {
+  importReferenceRateFixings,
+  getReferenceRateFixings,
+  resetFloatingRates,
+} from "../services/referenceRates";
+
+export const referenceRateRouter = Router();
+
+/**
+ * POST /api/reference-rates/import
+ * Load fixings from a CSV file (date and rate-in-percent columns)
+ */
+const importSchema = z.object({
+  rateName: z.string().min(1).default("SOFR"),
+  csv: z.string().min(1),
+});
+
+referenceRateRouter.post("/import", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const user = req.user as User;
+    if (user.role !== "operations" && user.role !== "admin") {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    const validation = importSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: "Invalid request",
+        details: validation.error.issues,
+      });
+    }
+
+    const result = await importReferenceRateFixings(validation.data.csv, {
+      rateName: validation.data.rateName,
+    });
+    res.json(result);
+  } catch (error) {
+    console.error("Error importing reference rate fixings:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to import fixings"
+    });
+  }
+});
+
+/**
+ * POST /api/reference-rates/resets
+ * Reset the current period rate on all floating-rate facilities
+ */
+referenceRateRouter.post("/resets", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const user = req.user as User;
+    if (user.role !== "operations" && user.role !== "admin") {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    const result = await resetFloatingRates();
+    res.json(result);
+  } catch (error) {
+    console.error("Error resetting floating rates:", error);
+    res.status(500).json({ error: "Failed to reset floating rates" });
+  }
+});
+
+/**
+ * GET /api/reference-rates/:rateName/fixings
+ * Fixing history, optionally limited with ?from=&to=
+ */
+referenceRateRouter.get("/:rateName/fixings", async (req, res) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const from = typeof req.query.from === "string" ? new Date(req.query.from) : undefined;
+    const to = typeof req.query.to === "string" ? new Date(req.query.to) : undefined;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: "Invalid date range" });
+    }
+
+    const fixings = await getReferenceRateFixings(req.params.rateName, { from, to });
+    res.json(fixings);
+  } catch (error) {
+    console.error("Error fetching reference rate fixings:", error);
+    res.status(500).json({ error: "Failed to fetch fixings" });
+  }
+});
@@ -16,6 +16,8 @@ import {
 import { extractUnderwritingData, type UnderwritingExtractionResult } from "../services/aiExtraction";
 import { calculateUnderwritingScore } from "../services/eligibilityScoring";
 import { calculateLTV } from "../services/ltvCalculator";
+import { MAX_SIMULATION_PATHS, MAX_SIMULATION_SEED } from "../services/navSimulation";
+import { calculateBorrowingBase, loadBorrowingBaseHoldings } from "../services/borrowingBase";
 import { storeFile } from "../services/fileStorage";
 import multer from "multer";
 import { eq, and, desc } from "drizzle-orm";
@@ -589,6 +591,22 @@ router.get("/sessions/:id/score", async (req: Request, res: Response) => {
 // LTV Calculator with Stress Testing
 // ========================================
 
+const cashFlowEventSchema = z.object({
+  month: z.number().int().min(1).max(240),
+  amount: z.number(),
+});
+
+// Extracted sector mixes come back as numbers or strings like "30%"
+function parseSectorWeights(distribution: unknown): Record<string, number> {
+  if (!distribution || typeof distribution !== "object") return {};
+  const weights: Record<string, number> = {};
+  for (const [sector, value] of Object.entries(distribution as Record<string, unknown>)) {
+    const weight = typeof value === "number" ? value : parseFloat(String(value));
+    if (isFinite(weight) && weight > 0) weights[sector] = weight;
+  }
+  return weights;
+}
+
 // Calculate and store LTV with stress testing
 router.post("/sessions/:id/ltv", async (req: Request, res: Response) => {
   try {
@@ -628,6 +646,12 @@ router.post("/sessions/:id/ltv", async (req: Request, res: Response) => {
       requestedFacilitySize: z.number().optional(),
       targetLtv: z.number().min(0).max(100).default(15),
       maxLtv: z.number().min(0).max(100).default(18),
+      // Monte Carlo options; pass a previous seed to reproduce its result
+      seed: z.number().int().min(0).max(MAX_SIMULATION_SEED).optional(),
+      paths: z.number().int().min(100).max(MAX_SIMULATION_PATHS).optional(),
+      termMonths: z.number().int().min(1).max(240).default(36),
+      drawSchedule: z.array(cashFlowEventSchema).optional(),
+      distributionSchedule: z.array(cashFlowEventSchema).optional(),
     });
 
     const params = requestSchema.parse(req.body);
@@ -638,16 +662,35 @@ router.post("/sessions/:id/ltv", async (req: Request, res: Response) => {
       .set({ status: "calculating", currentStep: 4 })
       .where(eq(underwritingSessions.id, sessionId));
 
+    // Size on the borrowing base when the prospect's holdings have been extracted
+    const prospectHoldings = session.prospectId
+      ? await loadBorrowingBaseHoldings({ prospectId: session.prospectId })
+      : [];
+    const borrowingBase = prospectHoldings.length > 0
+      ? calculateBorrowingBase(prospectHoldings).borrowingBase
+      : undefined;
+
     // Calculate LTV with stress testing using service
     const ltvResult = calculateLTV({
       fundNAV: extraction.currentNav || 0,
       requestedFacilitySize: params.requestedFacilitySize,
       targetLtv: params.targetLtv,
       maxLtv: params.maxLtv,
+      borrowingBase,
+      simulation: {
+        seed: params.seed,
+        paths: params.paths,
+        termMonths: params.termMonths,
+        sectorWeights: parseSectorWeights(extraction.sectorDistribution),
+        drawSchedule: params.drawSchedule,
+        distributionSchedule: params.distributionSchedule,
+      },
     }, {
       netIRR: extraction.netIrr,
       moic: extraction.moic,
       portfolioCompanyCount: extraction.portfolioCompanyCount,
+      largestHoldingPercent: extraction.largestHoldingPercent,
+      cashReserves: extraction.cashReserves,
     });
 
     // Store LTV calculation
@@ -658,10 +701,14 @@ router.post("/sessions/:id/ltv", async (req: Request, res: Response) => {
       maxLtv: String(ltvResult.maxLtv),
       requestedFacilitySize: ltvResult.requestedFacilitySize,
       maxFacilitySize: ltvResult.maxFacilitySize,
+      borrowingBase: ltvResult.borrowingBase,
       recommendedFacilitySize: ltvResult.recommendedFacilitySize,
       baselineLtv: String(ltvResult.baselineLtv),
       scenarios: ltvResult.scenarios as any,
       breachProbability: String(ltvResult.breachProbability),
+      simulation: ltvResult.simulation as any,
+      simulationSeed: ltvResult.simulation.seed,
+      reverseStress: ltvResult.reverseStress as any,
       recommendedSofr: ltvResult.recommendedSofr,
       marketMedianPricing: ltvResult.marketMedianPricing,
       pricingRationale: ltvResult.pricingRationale,
@@ -710,7 +757,9 @@ router.get("/sessions/:id/ltv", async (req: Request, res: Response) => {
     const [ltv] = await db
       .select()
       .from(ltvCalculations)
-      .where(eq(ltvCalculations.sessionId, sessionId));
+      .where(eq(ltvCalculations.sessionId, sessionId))
+      .orderBy(desc(ltvCalculations.calculatedAt))
+      .limit(1);
 
     if (!ltv) {
       return res.status(404).json({ error: "LTV calculation not found" });
@@ -2,6 +2,14 @@ import cron from "node-cron";
 import { checkAllDueCovenants } from "./services/covenantMonitoring";
 import { syncAllActiveFundAdmins } from "./services/fundAdminSync";
 import { cleanupExpiredMFASessions } from "./services/mfaService";
+import { resolveExpiredPredictions } from "./services/breachPrediction";
+import { resetFloatingRates } from "./services/referenceRates";
+import { accrueAllFacilities } from "./services/accrualLedger";
+import { sendPaymentDueReminders, markOverdueCashFlows, PAYMENT_REMINDER_DAYS } from "./services/paymentReminders";
+import { processDeliveryQueue } from "./services/notificationDelivery";
+import { sendDueDigests } from "./services/notificationDigests";
+import { processEscalations } from "./services/notificationEscalation";
+import { processWebhookQueue } from "./services/webhooks";
 
 /**
  * Initialize all scheduled jobs for AlphaNAV
@@ -89,11 +97,137 @@ export function initializeScheduler() {
     }
   });
 
+  // Resolve breach predictions whose horizon has expired daily at 2:30 AM
+  // (after covenant monitoring has recorded any new breaches)
+  // "30 2 * * *" = Every day at 2:30 AM
+  const predictionOutcomeJob = cron.schedule("30 2 * * *", async () => {
+    console.log("Resolving expired breach predictions...");
+    
+    try {
+      const resolved = await resolveExpiredPredictions();
+      console.log(`Breach prediction outcomes: ${resolved} predictions resolved as non-breach`);
+    } catch (error) {
+      console.error("Breach prediction outcome job failed:", error);
+    }
+  });
+
+  // Reset floating-rate facilities entering a new interest period daily at 6 AM
+  // (after the prior business day's SOFR fixing has been published and loaded)
+  // "0 6 * * *" = Every day at 6:00 AM
+  const rateResetJob = cron.schedule("0 6 * * *", async () => {
+    console.log("Running floating rate resets...");
+    
+    try {
+      const result = await resetFloatingRates();
+      console.log(`Floating rate resets: ${result.reset} facilities reset, ${result.failed} failed`);
+    } catch (error) {
+      console.error("Floating rate reset job failed:", error);
+    }
+  });
+
+  // Accrue daily interest on all active facilities at 1 AM
+  // "0 1 * * *" = Every day at 1:00 AM
+  const interestAccrualJob = cron.schedule("0 1 * * *", async () => {
+    console.log("Running daily interest accrual...");
+    
+    try {
+      const result = await accrueAllFacilities();
+      console.log(`Interest accrual: ${result.accrued} facilities accrued, ${result.failed} failed`);
+    } catch (error) {
+      console.error("Interest accrual job failed:", error);
+    }
+  });
+
+  // Remind GPs of scheduled payments coming due daily at 7 AM
+  // "0 7 * * *" = Every day at 7:00 AM
+  const paymentReminderJob = cron.schedule("0 7 * * *", async () => {
+    console.log("Sending payment due reminders...");
+    
+    try {
+      const result = await sendPaymentDueReminders();
+      console.log(`Payment reminders: ${result.reminded} sent, ${result.skipped} skipped`);
+    } catch (error) {
+      console.error("Payment reminder job failed:", error);
+    }
+  });
+
+  // Mark payments still outstanding after their due date as overdue
+  // "30 0 * * *" = Every day at 12:30 AM
+  const overdueCashFlowJob = cron.schedule("30 0 * * *", async () => {
+    try {
+      const result = await markOverdueCashFlows();
+      console.log(`Overdue cash flows: ${result.marked} marked`);
+    } catch (error) {
+      console.error("Overdue cash flow job failed:", error);
+    }
+  });
+
+  // Retry queued notification deliveries (Slack/SMS/email) that have come due
+  // "* * * * *" = Every minute
+  const deliveryQueueJob = cron.schedule("* * * * *", async () => {
+    try {
+      const result = await processDeliveryQueue();
+      if (result.processed > 0) {
+        console.log(`Delivery queue: ${result.sent} sent, ${result.retrying} retrying, ${result.deadLettered} dead-lettered`);
+      }
+    } catch (error) {
+      console.error("Delivery queue job failed:", error);
+    }
+  });
+
+  // Send quiet-hours digests whose quiet hours have just ended
+  // "* * * * *" = Every minute
+  const digestJob = cron.schedule("* * * * *", async () => {
+    try {
+      const result = await sendDueDigests();
+      if (result.digests > 0) {
+        console.log(`Notification digests: ${result.digests} sent covering ${result.items} notifications`);
+      }
+    } catch (error) {
+      console.error("Notification digest job failed:", error);
+    }
+  });
+
+  // Escalate unacknowledged breach/urgent alerts per the active escalation policies
+  // "*/5 * * * *" = Every 5 minutes
+  const escalationJob = cron.schedule("*/5 * * * *", async () => {
+    try {
+      const result = await processEscalations();
+      if (result.escalated > 0) {
+        console.log(`Notification escalations: ${result.escalated} of ${result.checked} open alerts escalated`);
+      }
+    } catch (error) {
+      console.error("Notification escalation job failed:", error);
+    }
+  });
+
+  // Retry queued webhook deliveries to API clients that have come due
+  // "* * * * *" = Every minute
+  const webhookQueueJob = cron.schedule("* * * * *", async () => {
+    try {
+      const result = await processWebhookQueue();
+      if (result.processed > 0) {
+        console.log(`Webhook queue: ${result.delivered} delivered, ${result.retrying} retrying, ${result.deadLettered} dead-lettered`);
+      }
+    } catch (error) {
+      console.error("Webhook queue job failed:", error);
+    }
+  });
+
   console.log("✓ Automated jobs scheduled:");
   console.log("  - Covenant monitoring: Every day at 2:00 AM");
   console.log("  - Business hours covenant check: Mon-Fri at 8am, 12pm, 4pm");
   console.log("  - Fund admin NAV sync: Every day at 3:00 AM");
   console.log("  - MFA session cleanup: Every hour");
+  console.log("  - Breach prediction outcomes: Every day at 2:30 AM");
+  console.log("  - Floating rate resets: Every day at 6:00 AM");
+  console.log("  - Interest accrual: Every day at 1:00 AM");
+  console.log(`  - Payment reminders (${PAYMENT_REMINDER_DAYS} days ahead): Every day at 7:00 AM`);
+  console.log("  - Overdue cash flows: Every day at 12:30 AM");
+  console.log("  - Notification delivery retries: Every minute");
+  console.log("  - Quiet-hours digests: Every minute");
+  console.log("  - Alert escalations: Every 5 minutes");
+  console.log("  - Webhook delivery retries: Every minute");
 
   // Return job objects for potential manual control
   return {
@@ -101,6 +235,15 @@ export function initializeScheduler() {
     frequentCheckJob,
     fundAdminSyncJob,
     mfaCleanupJob,
+    predictionOutcomeJob,
+    rateResetJob,
+    interestAccrualJob,
+    paymentReminderJob,
+    overdueCashFlowJob,
+    deliveryQueueJob,
+    digestJob,
+    escalationJob,
+    webhookQueueJob,
   };
 }
 
@@ -113,5 +256,14 @@ export function stopScheduler(jobs: ReturnType<typeof initializeScheduler>) {
   jobs.frequentCheckJob.stop();
   jobs.fundAdminSyncJob.stop();
   jobs.mfaCleanupJob.stop();
+  jobs.predictionOutcomeJob.stop();
+  jobs.rateResetJob.stop();
+  jobs.interestAccrualJob.stop();
+  jobs.paymentReminderJob.stop();
+  jobs.overdueCashFlowJob.stop();
+  jobs.deliveryQueueJob.stop();
+  jobs.digestJob.stop();
+  jobs.escalationJob.stop();
+  jobs.webhookQueueJob.stop();
   console.log("✓ All scheduled jobs stopped");
 }
@@ -1,5 +1,5 @@
 import { db } from "./db";
-import { advisors, facilities, marketTransactions, marketBenchmarks, usageAnalytics } from "@shared/schema";
+import { advisors, facilities, marketTransactions, marketBenchmarks, usageAnalytics, legalClauseTemplates } from "@shared/schema";
 import { eq, sql } from "drizzle-orm";
 
 async function seedMarketIntelligence() {
@@ -152,6 +152,91 @@ async function seedMarketIntelligence() {
   }
 }
 
+// Standard NAV facility clauses for the deterministic clause matcher
+async function seedLegalClauseTemplates() {
+  const existing = await db.select({ id: legalClauseTemplates.id }).from(legalClauseTemplates).limit(1);
+  if (existing.length > 0) {
+    console.log("✓ Legal clause templates already exist");
+    return;
+  }
+
+  await db.insert(legalClauseTemplates).values([
+    {
+      clauseType: "financial_covenant",
+      clauseName: "Maximum Loan-to-Value",
+      category: "financial",
+      keyTerms: { percentage: "percentage" },
+      patternRegex: String.raw`(?:loan[\s-]to[\s-]value|\bLTV\b)[^.]{0,250}?\d+(?:\.\d+)?\s*(?:%|percent)`,
+      description: "Outstanding loans may not exceed a percentage of portfolio NAV",
+      severity: "critical",
+    },
+    {
+      clauseType: "financial_covenant",
+      clauseName: "Minimum NAV Coverage",
+      category: "financial",
+      keyTerms: { ratio: "ratio" },
+      patternRegex: String.raw`net asset value[^.]{0,250}?\d+(?:\.\d+)?\s*(?:x\b|times|:\s*1)`,
+      description: "NAV must be at least a multiple of the loan amount",
+      severity: "critical",
+    },
+    {
+      clauseType: "financial_covenant",
+      clauseName: "Minimum Net Asset Value",
+      category: "financial",
+      keyTerms: { amount: "amount" },
+      patternRegex: String.raw`net asset value[^.]{0,150}?(?:not (?:be )?less than|at least|minimum of)\s*\$\s*\d`,
+      description: "NAV may not fall below a fixed dollar amount",
+      severity: "high",
+    },
+    {
+      clauseType: "financial_covenant",
+      clauseName: "Concentration Limit",
+      category: "financial",
+      keyTerms: { percentage: "percentage" },
+      patternRegex: String.raw`(?:concentration|single (?:portfolio )?(?:investment|company)|largest (?:investment|holding))[^.]{0,250}?\d+(?:\.\d+)?\s*(?:%|percent)`,
+      description: "No single investment may exceed a share of portfolio NAV",
+      severity: "high",
+    },
+    {
+      clauseType: "financial_covenant",
+      clauseName: "Minimum Liquidity",
+      category: "financial",
+      keyTerms: { amount: "amount" },
+      patternRegex: String.raw`(?:minimum liquidity|unrestricted cash|cash and cash equivalents)[^.]{0,250}?\$\s*\d`,
+      description: "Borrower must hold a minimum amount of cash",
+      severity: "high",
+    },
+    {
+      clauseType: "cure_provision",
+      clauseName: "Equity Cure",
+      category: "financial",
+      keyTerms: { curePeriod: "days" },
+      patternRegex: String.raw`(?:equity cure|cure (?:right|period))[^.]{0,250}?\d+\s*(?:\(\d+\)\s*)?(?:business\s+)?days`,
+      description: "Period in which a covenant breach may be cured",
+      severity: "medium",
+    },
+    {
+      clauseType: "reporting_covenant",
+      clauseName: "Financial Reporting",
+      category: "reporting",
+      keyTerms: { deliveryDays: "days" },
+      patternRegex: String.raw`(?:within|no later than)\s+\d+\s*(?:\(\d+\)\s*)?days\s+after the (?:end|close) of each (?:fiscal )?(?:quarter|year)`,
+      description: "Deadline for delivering financial statements and NAV reports",
+      severity: "medium",
+    },
+    {
+      clauseType: "event_of_default",
+      clauseName: "Change of Control",
+      category: "operational",
+      keyTerms: [],
+      patternRegex: String.raw`change (?:of|in) control`,
+      description: "Change of control of the borrower or its general partner",
+      severity: "high",
+    },
+  ]);
+  console.log("✓ Seeded legal clause templates");
+}
+
 export async function seedDatabase() {
   try {
     // Seed default advisor (Wheelahan Capital Advisors)
@@ -212,6 +297,7 @@ export async function seedDatabase() {
       console.log("✓ Seeded test facilities for HTTP integration tests");
     }
 
+    await seedLegalClauseTemplates();
     await seedMarketIntelligence();
   } catch (error) {
     console.error("Error seeding database:", error);
@@ -0,0 +1,566 @@
+/**
+ * Accrual Ledger Service
+ * Keeps a per-facility ledger of daily interest accrual, PIK capitalisation, fees,
+ * draws and payments, and answers "what does the borrower owe on date X?"
+ */
+
+import { db } from "../db";
+import {
+  facilityLedgerEntries,
+  facilityRateResets,
+  facilities,
+  cashFlows,
+  type Facility,
+  type FacilityLedgerEntry,
+  type InsertFacilityLedgerEntry,
+} from "@shared/schema";
+import { eq, and, gte, lte, inArray, sql } from "drizzle-orm";
+import {
+  buildPeriodDates,
+  yearFraction,
+  type DayCountConvention,
+  type PaymentFrequency,
+} from "./amortizationSchedule";
+import { recomputeFacilityLtv } from "./facilityNav";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ledger writes run in a transaction holding the facility row lock, so the scheduler's
+// accrual and a payment or draw can't both book the same accrual days
+type LedgerTx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type LedgerDb = typeof db | LedgerTx;
+
+/**
+ * Running balances of the ledger. accruedThrough is exclusive: interest has been
+ * accrued for every day before it.
+ */
+export interface LedgerState {
+  accruedThrough: Date;
+  principalBalance: number;
+  accruedInterest: number;
+  accruedPik: number;
+  accruedFees: number;
+}
+
+// Rate and period inputs for day-by-day accrual
+export interface AccrualContext {
+  dayCount: DayCountConvention;
+  pikRateBps: number;
+  periodEnds: Set<number>; // Payment dates (ms) on which accrued PIK is capitalised
+  rateForDay: (day: Date) => number;
+}
+
+export interface PaymentAllocation {
+  fees: number;
+  interest: number;
+  principal: number;
+  unapplied: number; // Amount in excess of everything owed
+}
+
+export interface PayoffQuote {
+  facilityId: string;
+  payoffDate: string;
+  principal: number; // Including accrued PIK capitalised at payoff
+  accruedInterest: number;
+  accruedPik: number;
+  accruedFees: number;
+  prepaymentPenalty: number;
+  totalPayoff: number;
+  perDiem: number; // Additional interest for each day the payoff is delayed
+  interestRateBps: number;
+  pikRateBps: number;
+  dayCountConvention: string;
+}
+
+function toUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Apply a change to the running state and build the ledger row that records it
+ */
+export function postEntry(
+  state: LedgerState,
+  facilityId: string,
+  entry: {
+    entryDate: Date;
+    entryType: string;
+    description?: string;
+    rateBps?: number;
+    principalDelta?: number;
+    interestDelta?: number;
+    pikDelta?: number;
+    feesDelta?: number;
+    relatedEntityType?: string;
+    relatedEntityId?: string;
+    createdBy?: string;
+  }
+): InsertFacilityLedgerEntry {
+  state.principalBalance += entry.principalDelta ?? 0;
+  state.accruedInterest += entry.interestDelta ?? 0;
+  state.accruedPik += entry.pikDelta ?? 0;
+  state.accruedFees += entry.feesDelta ?? 0;
+
+  return {
+    facilityId,
+    entryDate: entry.entryDate,
+    entryType: entry.entryType,
+    description: entry.description ?? null,
+    rateBps: entry.rateBps ?? null,
+    principalDelta: entry.principalDelta ?? 0,
+    interestDelta: entry.interestDelta ?? 0,
+    pikDelta: entry.pikDelta ?? 0,
+    feesDelta: entry.feesDelta ?? 0,
+    principalBalance: state.principalBalance,
+    accruedInterest: state.accruedInterest,
+    accruedPik: state.accruedPik,
+    accruedFees: state.accruedFees,
+    relatedEntityType: entry.relatedEntityType ?? null,
+    relatedEntityId: entry.relatedEntityId ?? null,
+    createdBy: entry.createdBy ?? null,
+  };
+}
+
+/**
+ * Rate and period context needed to accrue a facility day by day
+ */
+async function loadAccrualContext(tx: LedgerDb, facility: Facility): Promise<AccrualContext> {
+  const resets = facility.rateType === "floating"
+    ? await tx.select().from(facilityRateResets).where(eq(facilityRateResets.facilityId, facility.id))
+    : [];
+
+  // PIK is capitalised into principal on each payment date
+  const periodEnds = new Set(
+    buildPeriodDates(facility.originationDate, facility.maturityDate, facility.paymentSchedule as PaymentFrequency)
+      .map(p => p.end.getTime())
+  );
+
+  const rateForDay = (day: Date): number => {
+    const reset = resets.find(r => r.periodStart <= day && day < r.periodEnd);
+    return reset ? reset.allInRateBps : facility.interestRate;
+  };
+
+  return {
+    dayCount: facility.dayCountConvention as DayCountConvention,
+    pikRateBps: facility.pikRateBps,
+    periodEnds,
+    rateForDay,
+  };
+}
+
+/**
+ * Accrue interest and PIK for each day from state.accruedThrough up to (not including) through
+ */
+export function accrueDays(
+  state: LedgerState,
+  facilityId: string,
+  through: Date,
+  context: AccrualContext
+): InsertFacilityLedgerEntry[] {
+  const entries: InsertFacilityLedgerEntry[] = [];
+
+  for (let day = state.accruedThrough; day < through; day = addDays(day, 1)) {
+    if (context.periodEnds.has(day.getTime()) && state.accruedPik > 0) {
+      const capitalised = state.accruedPik;
+      entries.push(postEntry(state, facilityId, {
+        entryDate: day,
+        entryType: "pik_capitalization",
+        description: "PIK interest capitalised on payment date",
+        principalDelta: capitalised,
+        pikDelta: -capitalised,
+      }));
+    }
+
+    const rateBps = context.rateForDay(day);
+    const fraction = yearFraction(day, addDays(day, 1), context.dayCount);
+    entries.push(postEntry(state, facilityId, {
+      entryDate: day,
+      entryType: "interest_accrual",
+      rateBps,
+      interestDelta: Math.round(state.principalBalance * (rateBps / 10000) * fraction),
+      pikDelta: Math.round(state.principalBalance * (context.pikRateBps / 10000) * fraction),
+    }));
+  }
+
+  state.accruedThrough = through > state.accruedThrough ? through : state.accruedThrough;
+  return entries;
+}
+
+/**
+ * Opening position for a facility without ledger history: the current outstanding
+ * balance, with interest treated as paid through the last settled payment date.
+ */
+async function buildOpeningEntry(tx: LedgerDb, facility: Facility): Promise<InsertFacilityLedgerEntry> {
+  const [lastSettled] = await tx.select({ dueDate: cashFlows.dueDate })
+    .from(cashFlows)
+    .where(and(eq(cashFlows.facilityId, facility.id), inArray(cashFlows.status, ["paid", "partial"])))
+    .orderBy(sql`${cashFlows.dueDate} DESC`)
+    .limit(1);
+
+  const state: LedgerState = {
+    accruedThrough: toUtcDay(lastSettled?.dueDate ?? facility.originationDate),
+    principalBalance: 0,
+    accruedInterest: 0,
+    accruedPik: 0,
+    accruedFees: 0,
+  };
+
+  return postEntry(state, facility.id, {
+    entryDate: state.accruedThrough,
+    entryType: "opening_balance",
+    description: "Opening balance from facility outstanding balance",
+    principalDelta: facility.outstandingBalance,
+  });
+}
+
+/**
+ * Replay ledger rows into a running state. Accrual rows move accruedThrough past their day.
+ */
+export function stateFromEntries(
+  entries: Array<InsertFacilityLedgerEntry | FacilityLedgerEntry>
+): LedgerState | null {
+  if (entries.length === 0) return null;
+
+  const last = entries[entries.length - 1];
+  let accruedThrough = toUtcDay(entries[0].entryDate);
+  for (const entry of entries) {
+    const next = entry.entryType === "interest_accrual"
+      ? addDays(toUtcDay(entry.entryDate), 1)
+      : toUtcDay(entry.entryDate);
+    if (next > accruedThrough) accruedThrough = next;
+  }
+
+  return {
+    accruedThrough,
+    principalBalance: last.principalBalance,
+    accruedInterest: last.accruedInterest,
+    accruedPik: last.accruedPik,
+    accruedFees: last.accruedFees,
+  };
+}
+
+async function loadFacility(facilityId: string): Promise<Facility> {
+  const [facility] = await db.select()
+    .from(facilities)
+    .where(eq(facilities.id, facilityId))
+    .limit(1);
+
+  if (!facility) {
+    throw new Error("Facility not found");
+  }
+  return facility;
+}
+
+async function loadEntries(tx: LedgerDb, facilityId: string): Promise<FacilityLedgerEntry[]> {
+  return await tx.select()
+    .from(facilityLedgerEntries)
+    .where(eq(facilityLedgerEntries.facilityId, facilityId))
+    .orderBy(sql`${facilityLedgerEntries.entryDate} ASC, ${facilityLedgerEntries.createdAt} ASC`);
+}
+
+async function insertEntries(tx: LedgerTx, entries: InsertFacilityLedgerEntry[]): Promise<void> {
+  // Batched: a long-dormant facility can need hundreds of daily rows
+  for (let i = 0; i < entries.length; i += 500) {
+    await tx.insert(facilityLedgerEntries).values(entries.slice(i, i + 500));
+  }
+}
+
+/**
+ * Bring a facility's ledger up to date (accrued through the given day) and return
+ * the resulting state. Creates the opening entry on first use.
+ */
+async function accrueLedger(tx: LedgerTx, facility: Facility, through: Date): Promise<LedgerState> {
+  const existing = await loadEntries(tx, facility.id);
+  const pending: InsertFacilityLedgerEntry[] = [];
+
+  if (existing.length === 0) {
+    pending.push(await buildOpeningEntry(tx, facility));
+  }
+
+  const state = stateFromEntries(existing.length > 0 ? existing : pending)!;
+
+  // Outstanding balance edited outside the ledger (e.g. facility update): book the difference
+  if (facility.outstandingBalance !== state.principalBalance) {
+    pending.push(postEntry(state, facility.id, {
+      entryDate: state.accruedThrough,
+      entryType: "balance_adjustment",
+      description: "Outstanding balance adjusted outside the ledger",
+      principalDelta: facility.outstandingBalance - state.principalBalance,
+    }));
+  }
+
+  pending.push(...accrueDays(state, facility.id, toUtcDay(through), await loadAccrualContext(tx, facility)));
+
+  await insertEntries(tx, pending);
+  return state;
+}
+
+/**
+ * Lock the facility, accrue its ledger through the given day, let `post` book any
+ * further entries against the resulting state, and keep the facility's outstanding
+ * balance in step with ledger principal (PIK, draws, repayments). LTV is recomputed
+ * from the new balance once the transaction has committed.
+ */
+async function updateLedger<T>(
+  facilityId: string,
+  through: Date,
+  post: (tx: LedgerTx, facility: Facility, state: LedgerState) => Promise<T>
+): Promise<{ state: LedgerState; result: T }> {
+  const { state, result, balanceChanged } = await db.transaction(async (tx) => {
+    const [facility] = await tx.select()
+      .from(facilities)
+      .where(eq(facilities.id, facilityId))
+      .for("update");
+
+    if (!facility) {
+      throw new Error("Facility not found");
+    }
+
+    const state = await accrueLedger(tx, facility, through);
+    const result = await post(tx, facility, state);
+
+    const balanceChanged = facility.outstandingBalance !== state.principalBalance;
+    if (balanceChanged) {
+      await tx.update(facilities)
+        .set({ outstandingBalance: state.principalBalance, updatedAt: new Date() })
+        .where(eq(facilities.id, facility.id));
+    }
+    return { state, result, balanceChanged };
+  });
+
+  if (balanceChanged) {
+    try {
+      await recomputeFacilityLtv(facilityId);
+    } catch (error) {
+      console.error(`LTV recomputation failed for facility ${facilityId}:`, error);
+    }
+  }
+
+  return { state, result };
+}
+
+/**
+ * Accrue interest up to (not including) the given day
+ */
+export async function accrueFacilityInterest(
+  facilityId: string,
+  through: Date = new Date()
+): Promise<LedgerState> {
+  const { state } = await updateLedger(facilityId, through, async () => null);
+  return state;
+}
+
+/**
+ * Daily accrual for all active facilities.
+ * Should be run on a schedule (e.g., daily cron job).
+ */
+export async function accrueAllFacilities(through: Date = new Date()): Promise<{ accrued: number; failed: number }> {
+  const active = await db.select({ id: facilities.id })
+    .from(facilities)
+    .where(eq(facilities.status, "active"));
+
+  let accrued = 0;
+  let failed = 0;
+
+  for (const facility of active) {
+    try {
+      await accrueFacilityInterest(facility.id, through);
+      accrued++;
+    } catch (error) {
+      console.error(`Interest accrual failed for facility ${facility.id}:`, error);
+      failed++;
+    }
+  }
+
+  return { accrued, failed };
+}
+
+/**
+ * Value date for an event: backdated events are booked on the accrued-through date
+ * so daily accrual rows are never rewritten
+ */
+function valueDate(state: LedgerState, date: Date): Date {
+  const day = toUtcDay(date);
+  return day < state.accruedThrough ? state.accruedThrough : day;
+}
+
+/**
+ * Charge a fee to the facility
+ */
+export async function assessFee(
+  facilityId: string,
+  fee: { amount: number; date?: Date; description: string; createdBy?: string }
+): Promise<FacilityLedgerEntry> {
+  const date = fee.date ?? new Date();
+  const { result } = await updateLedger(facilityId, date, async (tx, _facility, state) => {
+    const entry = postEntry(state, facilityId, {
+      entryDate: valueDate(state, date),
+      entryType: "fee",
+      description: fee.description,
+      feesDelta: fee.amount,
+      createdBy: fee.createdBy,
+    });
+
+    const [inserted] = await tx.insert(facilityLedgerEntries).values(entry).returning();
+    return inserted;
+  });
+  return result;
+}
+
+/**
+ * Split a payment across fees, then accrued interest, then principal
+ */
+export function allocatePayment(state: LedgerState, amount: number): PaymentAllocation {
+  let remaining = amount;
+
+  const fees = Math.min(remaining, Math.max(0, state.accruedFees));
+  remaining -= fees;
+  const interest = Math.min(remaining, Math.max(0, state.accruedInterest));
+  remaining -= interest;
+  const principal = Math.min(remaining, Math.max(0, state.principalBalance));
+  remaining -= principal;
+
+  return { fees, interest, principal, unapplied: remaining };
+}
+
+/**
+ * Apply a payment through the fees → interest → principal waterfall
+ */
+export async function applyPayment(
+  facilityId: string,
+  payment: {
+    amount: number;
+    date?: Date;
+    description?: string;
+    relatedEntityType?: string;
+    relatedEntityId?: string;
+    createdBy?: string;
+  }
+): Promise<{ entry: FacilityLedgerEntry; allocation: PaymentAllocation }> {
+  const date = payment.date ?? new Date();
+  const { result } = await updateLedger(facilityId, date, async (tx, _facility, state) => {
+    const allocation = allocatePayment(state, payment.amount);
+
+    const entry = postEntry(state, facilityId, {
+      entryDate: valueDate(state, date),
+      entryType: "payment",
+      description: payment.description ?? "Payment received",
+      feesDelta: -allocation.fees,
+      interestDelta: -allocation.interest,
+      principalDelta: -allocation.principal,
+      relatedEntityType: payment.relatedEntityType,
+      relatedEntityId: payment.relatedEntityId,
+      createdBy: payment.createdBy,
+    });
+
+    const [inserted] = await tx.insert(facilityLedgerEntries).values(entry).returning();
+    return { entry: inserted, allocation };
+  });
+  return result;
+}
+
+/**
+ * Record a disbursed draw, increasing principal from its value date. `claim` runs in
+ * the ledger transaction before the draw is booked; when it returns false nothing is
+ * booked and null is returned.
+ */
+export async function recordDraw(
+  facilityId: string,
+  draw: {
+    amount: number;
+    date?: Date;
+    relatedEntityId?: string;
+    createdBy?: string;
+    claim?: (tx: LedgerTx) => Promise<boolean>;
+  }
+): Promise<FacilityLedgerEntry | null> {
+  const date = draw.date ?? new Date();
+  const { result } = await updateLedger(facilityId, date, async (tx, _facility, state) => {
+    if (draw.claim && !(await draw.claim(tx))) {
+      return null;
+    }
+
+    const entry = postEntry(state, facilityId, {
+      entryDate: valueDate(state, date),
+      entryType: "draw",
+      description: "Draw disbursed",
+      principalDelta: draw.amount,
+      relatedEntityType: "draw_request",
+      relatedEntityId: draw.relatedEntityId,
+      createdBy: draw.createdBy,
+    });
+
+    const [inserted] = await tx.insert(facilityLedgerEntries).values(entry).returning();
+    return inserted;
+  });
+  return result;
+}
+
+export async function getLedgerEntries(
+  facilityId: string,
+  range: { from?: Date; to?: Date } = {}
+): Promise<FacilityLedgerEntry[]> {
+  const conditions = [eq(facilityLedgerEntries.facilityId, facilityId)];
+
+  if (range.from) {
+    conditions.push(gte(facilityLedgerEntries.entryDate, range.from));
+  }
+  if (range.to) {
+    conditions.push(lte(facilityLedgerEntries.entryDate, range.to));
+  }
+
+  return await db.select()
+    .from(facilityLedgerEntries)
+    .where(and(...conditions))
+    .orderBy(sql`${facilityLedgerEntries.entryDate} ASC, ${facilityLedgerEntries.createdAt} ASC`);
+}
+
+/**
+ * Amount required to repay the facility in full on a date. Read-only: accrual
+ * beyond the ledger is projected in memory at the current rate.
+ */
+export async function getPayoffQuote(facilityId: string, payoffDate: Date): Promise<PayoffQuote> {
+  const facility = await loadFacility(facilityId);
+  const day = toUtcDay(payoffDate);
+
+  // Ledger position as it stood on the payoff date
+  const existing = await loadEntries(db, facilityId);
+  const applicable = existing.filter(e =>
+    e.entryType === "interest_accrual" ? toUtcDay(e.entryDate) < day : toUtcDay(e.entryDate) <= day
+  );
+  const state = stateFromEntries(applicable.length > 0 ? applicable : [await buildOpeningEntry(db, facility)])!;
+
+  const context = await loadAccrualContext(db, facility);
+  accrueDays(state, facilityId, day, context);
+
+  const principal = state.principalBalance + state.accruedPik;
+  const penaltyApplies = facility.prepaymentPenaltyBps > 0
+    && day < toUtcDay(facility.maturityDate)
+    && (!facility.prepaymentPenaltyUntil || day <= toUtcDay(facility.prepaymentPenaltyUntil));
+  const prepaymentPenalty = penaltyApplies
+    ? Math.round(principal * facility.prepaymentPenaltyBps / 10000)
+    : 0;
+
+  const interestRateBps = context.rateForDay(day);
+  const basis = context.dayCount === "ACT/365" ? 365 : 360;
+  const perDiem = Math.round(state.principalBalance * ((interestRateBps + facility.pikRateBps) / 10000) / basis);
+
+  return {
+    facilityId,
+    payoffDate: day.toISOString().slice(0, 10),
+    principal,
+    accruedInterest: state.accruedInterest,
+    accruedPik: state.accruedPik,
+    accruedFees: state.accruedFees,
+    prepaymentPenalty,
+    totalPayoff: principal + state.accruedInterest + state.accruedFees + prepaymentPenalty,
+    perDiem,
+    interestRateBps,
+    pikRateBps: facility.pikRateBps,
+    dayCountConvention: facility.dayCountConvention,
+  };
+}
@@ -0,0 +1,335 @@
+/**
+ * Amortization Schedule Engine
+ * Generates facility cash flow schedules from principal, rate, dates, day-count
+ * convention and amortization style, and regenerates them after draws,
+ * prepayments or rate changes.
+ */
+
+import { db } from "../db";
+import { cashFlows, facilities, type CashFlow, type Facility, type InsertCashFlow } from "@shared/schema";
+import { eq, and, gt, ne } from "drizzle-orm";
+import { loadFloatingRateResolver } from "./referenceRates";
+
+export type DayCountConvention = "ACT/360" | "30/360" | "ACT/365";
+export type AmortizationType = "bullet" | "straight_line" | "custom";
+export type PaymentFrequency = "monthly" | "quarterly" | "semi-annual" | "annual";
+
+export const DAY_COUNT_CONVENTIONS: DayCountConvention[] = ["ACT/360", "30/360", "ACT/365"];
+export const AMORTIZATION_TYPES: AmortizationType[] = ["bullet", "straight_line", "custom"];
+
+const FREQUENCY_MONTHS: Record<PaymentFrequency, number> = {
+  "monthly": 1,
+  "quarterly": 3,
+  "semi-annual": 6,
+  "annual": 12,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Balance or rate change applied at a point in time.
+ * Draws increase the balance, prepayments reduce it, rate changes reset the rate.
+ */
+export type ScheduleEvent =
+  | { type: "draw"; date: Date; amount: number }
+  | { type: "prepayment"; date: Date; amount: number }
+  | { type: "rate_change"; date: Date; rateBps: number };
+
+export interface CustomRepayment {
+  date: string | Date; // Due date of the scheduled principal repayment
+  amount: number;
+}
+
+export interface ScheduledPayment {
+  periodStart: Date;
+  periodEnd: Date;
+  dueDate: Date;
+  openingBalance: number;
+  principal: number;
+  interest: number;
+  totalDue: number;
+  closingBalance: number;
+  rateBps: number; // Rate in force at the end of the period
+}
+
+export interface ScheduleParams {
+  principal: number; // Balance outstanding at startDate
+  interestRateBps: number; // Annual rate in basis points
+  originationDate: Date; // Anchors the payment date grid
+  maturityDate: Date;
+  frequency: PaymentFrequency;
+  dayCount: DayCountConvention;
+  amortization: AmortizationType;
+  customRepayments?: CustomRepayment[];
+  events?: ScheduleEvent[];
+  startDate?: Date; // Only generate periods ending after this date (defaults to origination)
+  /**
+   * Per-period rate override (e.g. a floating-rate fixing). Returns a rate in bps
+   * or null to keep the current rate.
+   */
+  rateForPeriod?: (periodStart: Date, periodEnd: Date) => number | null;
+}
+
+function toUtcDate(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Add months keeping the anchor day, clamped to month end (Jan 31 + 1M = Feb 28/29)
+ */
+export function addMonthsUtc(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+}
+
+/**
+ * Year fraction between two dates under a day-count convention
+ */
+export function yearFraction(start: Date, end: Date, dayCount: DayCountConvention): number {
+  if (end <= start) return 0;
+
+  if (dayCount === "30/360") {
+    // US 30/360 (bond basis)
+    const d1 = Math.min(start.getUTCDate(), 30);
+    const d2 = d1 === 30 ? Math.min(end.getUTCDate(), 30) : end.getUTCDate();
+    const days =
+      (end.getUTCFullYear() - start.getUTCFullYear()) * 360 +
+      (end.getUTCMonth() - start.getUTCMonth()) * 30 +
+      (d2 - d1);
+    return days / 360;
+  }
+
+  const actualDays = Math.round((toUtcDate(end).getTime() - toUtcDate(start).getTime()) / DAY_MS);
+  return actualDays / (dayCount === "ACT/365" ? 365 : 360);
+}
+
+/**
+ * Interest period boundaries anchored on origination, with a final stub to maturity
+ */
+export function buildPeriodDates(
+  originationDate: Date,
+  maturityDate: Date,
+  frequency: PaymentFrequency
+): Array<{ start: Date; end: Date }> {
+  const origination = toUtcDate(originationDate);
+  const maturity = toUtcDate(maturityDate);
+  const step = FREQUENCY_MONTHS[frequency] ?? 3;
+
+  if (maturity <= origination) {
+    throw new Error("Maturity date must be after origination date");
+  }
+
+  const periods: Array<{ start: Date; end: Date }> = [];
+  let start = origination;
+  for (let i = 1; start < maturity; i++) {
+    const candidate = addMonthsUtc(origination, step * i);
+    const end = candidate < maturity ? candidate : maturity;
+    periods.push({ start, end });
+    start = end;
+  }
+  return periods;
+}
+
+/**
+ * Generate the payment schedule. Interest accrues on the balance in force for each
+ * sub-period between events; principal follows the amortization style.
+ */
+export function generateAmortizationSchedule(params: ScheduleParams): ScheduledPayment[] {
+  const periods = buildPeriodDates(params.originationDate, params.maturityDate, params.frequency);
+  const startDate = toUtcDate(params.startDate ?? params.originationDate);
+  const events = [...(params.events ?? [])]
+    .map(e => ({ ...e, date: toUtcDate(e.date) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const customByDate = new Map<number, number>();
+  for (const repayment of params.customRepayments ?? []) {
+    const due = toUtcDate(new Date(repayment.date)).getTime();
+    customByDate.set(due, (customByDate.get(due) ?? 0) + repayment.amount);
+  }
+
+  const schedule: ScheduledPayment[] = [];
+  let balance = params.principal;
+  let rateBps = params.interestRateBps;
+
+  // Events before the first generated period only shape the opening position
+  for (const event of events) {
+    if (event.date >= startDate) break;
+    if (event.type === "draw") balance += event.amount;
+    else if (event.type === "prepayment") balance = Math.max(0, balance - event.amount);
+    else rateBps = event.rateBps;
+  }
+
+  const activePeriods = periods.filter(p => p.end > startDate);
+
+  activePeriods.forEach((period, index) => {
+    const accrualStart = period.start > startDate ? period.start : startDate;
+    const fixedRate = params.rateForPeriod?.(period.start, period.end);
+    if (fixedRate !== null && fixedRate !== undefined) {
+      rateBps = fixedRate;
+    }
+
+    const openingBalance = balance;
+    let interest = 0;
+    let cursor = accrualStart;
+
+    // Accrue interest between events falling inside this period
+    for (const event of events) {
+      if (event.date < accrualStart || event.date >= period.end) continue;
+      interest += balance * (rateBps / 10000) * yearFraction(cursor, event.date, params.dayCount);
+      cursor = event.date;
+
+      if (event.type === "draw") balance += event.amount;
+      else if (event.type === "prepayment") balance = Math.max(0, balance - event.amount);
+      else rateBps = event.rateBps;
+    }
+    interest += balance * (rateBps / 10000) * yearFraction(cursor, period.end, params.dayCount);
+
+    const isFinal = index === activePeriods.length - 1;
+    let principal = 0;
+    if (isFinal) {
+      principal = balance;
+    } else if (params.amortization === "straight_line") {
+      // Re-amortize the remaining balance evenly so draws and prepayments flow through
+      principal = balance / (activePeriods.length - index);
+    } else if (params.amortization === "custom") {
+      principal = Math.min(balance, customByDate.get(period.end.getTime()) ?? 0);
+    }
+
+    const roundedPrincipal = Math.round(principal);
+    const roundedInterest = Math.round(interest);
+    balance = Math.max(0, balance - roundedPrincipal);
+
+    schedule.push({
+      periodStart: accrualStart,
+      periodEnd: period.end,
+      dueDate: period.end,
+      openingBalance: Math.round(openingBalance),
+      principal: roundedPrincipal,
+      interest: roundedInterest,
+      totalDue: roundedPrincipal + roundedInterest,
+      closingBalance: Math.round(balance),
+      rateBps,
+    });
+  });
+
+  return schedule;
+}
+
+/**
+ * Schedule parameters for a facility from its stored terms
+ */
+export function scheduleParamsForFacility(facility: Facility): ScheduleParams {
+  return {
+    principal: facility.outstandingBalance,
+    interestRateBps: facility.interestRate,
+    originationDate: facility.originationDate,
+    maturityDate: facility.maturityDate,
+    frequency: facility.paymentSchedule as PaymentFrequency,
+    dayCount: facility.dayCountConvention as DayCountConvention,
+    amortization: facility.amortizationType as AmortizationType,
+    customRepayments: (facility.customAmortization as CustomRepayment[] | null) ?? undefined,
+  };
+}
+
+/**
+ * Replace a facility's future scheduled cash flows with a freshly generated schedule.
+ *
+ * The schedule starts from the facility's current outstanding balance and rate at
+ * asOf. Events dated on or before asOf are assumed to already be reflected in the
+ * balance; they are backed out to the period start and replayed at their dates so
+ * the current period accrues interest correctly. Paid, partial and overdue rows are
+ * never touched.
+ */
+export async function regenerateCashFlowSchedule(
+  facilityId: string,
+  options: {
+    asOf?: Date;
+    events?: ScheduleEvent[];
+    openingRateBps?: number; // Rate in force before any rate_change events
+    dryRun?: boolean;
+    rateForPeriod?: ScheduleParams["rateForPeriod"];
+  } = {}
+): Promise<{ schedule: ScheduledPayment[]; cashFlows: CashFlow[] }> {
+  const [facility] = await db.select()
+    .from(facilities)
+    .where(eq(facilities.id, facilityId))
+    .limit(1);
+
+  if (!facility) {
+    throw new Error("Facility not found");
+  }
+
+  const asOf = toUtcDate(options.asOf ?? new Date());
+  const events = options.events ?? [];
+  const params = scheduleParamsForFacility(facility);
+
+  // Floating-rate facilities reset each period from the reference rate fixings
+  const floatingRate = facility.rateType === "floating" && !options.rateForPeriod
+    ? await loadFloatingRateResolver(facility)
+    : null;
+  const rateForPeriod = options.rateForPeriod
+    ?? (floatingRate ? (periodStart: Date) => floatingRate(periodStart)?.allInRateBps ?? null : undefined);
+
+  // Current period start: accrual restarts from here on the pre-event balance
+  const currentPeriod = buildPeriodDates(params.originationDate, params.maturityDate, params.frequency)
+    .find(p => p.end > asOf);
+  const startDate = currentPeriod ? currentPeriod.start : asOf;
+
+  const appliedNet = events
+    .filter(e => toUtcDate(e.date) <= asOf)
+    .reduce((net, e) => net + (e.type === "draw" ? e.amount : e.type === "prepayment" ? -e.amount : 0), 0);
+
+  const schedule = generateAmortizationSchedule({
+    ...params,
+    principal: Math.max(0, facility.outstandingBalance - appliedNet),
+    interestRateBps: options.openingRateBps ?? facility.interestRate,
+    events,
+    startDate,
+    rateForPeriod,
+  });
+
+  if (options.dryRun) {
+    return { schedule, cashFlows: [] };
+  }
+
+  // Replace future scheduled rows in one transaction so the facility is never left without a schedule
+  const inserted = await db.transaction(async (tx) => {
+    await tx.delete(cashFlows)
+      .where(and(
+        eq(cashFlows.facilityId, facilityId),
+        eq(cashFlows.status, "scheduled"),
+        gt(cashFlows.dueDate, asOf)
+      ));
+
+    // Periods already paid (e.g. paid early) keep their existing row
+    const settled = await tx.select({ dueDate: cashFlows.dueDate })
+      .from(cashFlows)
+      .where(and(eq(cashFlows.facilityId, facilityId), ne(cashFlows.status, "scheduled")));
+    const settledDueDates = new Set(settled.map(cf => toUtcDate(cf.dueDate).getTime()));
+
+    const rows: InsertCashFlow[] = schedule
+      .filter(payment => !settledDueDates.has(payment.dueDate.getTime()))
+      .map(payment => ({
+        facilityId,
+        dueDate: payment.dueDate,
+        periodStart: payment.periodStart,
+        periodEnd: payment.periodEnd,
+        principal: payment.principal,
+        interest: payment.interest,
+        interestRateBps: payment.rateBps,
+        referenceRateBps: floatingRate?.(payment.periodStart)?.referenceRateBps ?? null,
+        totalDue: payment.totalDue,
+        status: "scheduled",
+      }));
+
+    return rows.length > 0
+      ? await tx.insert(cashFlows).values(rows).returning()
+      : [];
+  });
+
+  console.log(`Regenerated ${inserted.length} scheduled cash flows for facility ${facilityId}`);
+
+  return { schedule, cashFlows: inserted };
+}
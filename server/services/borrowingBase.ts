@@ -0,0 +1,385 @@
+/**
+ * Borrowing Base Service
+ * Sizes a facility the way our term sheets do: only eligible holdings count, each asset
+ * class advances at its own rate, and value above the single-name, top-3 and sector
+ * concentration caps is haircut before the advance rate is applied.
+ */
+
+import { db } from "../db";
+import {
+  facilities,
+  portfolioCompanies,
+  portfolioHoldings,
+  borrowingBaseCertificates,
+  type PortfolioCompany,
+  type Facility,
+  type BorrowingBaseCertificate,
+} from "@shared/schema";
+import { eq, and, desc, inArray, lte } from "drizzle-orm";
+import { isCashHolding } from "./covenantFormula";
+
+export interface BorrowingBaseTerms {
+  minHoldingValue: number; // Holdings valued below this are ineligible
+  excludeListed: boolean;
+  excludedStatuses: string[]; // Portfolio company statuses that are never eligible
+  advanceRates: Record<string, number>; // Percent by asset class
+  defaultAdvanceRate: number; // Percent, for holdings without an asset class
+  singleNameCapPercent: number | null; // Of eligible NAV; null = no cap
+  top3CapPercent: number | null;
+  sectorCapPercent: number | null;
+}
+
+export const DEFAULT_BORROWING_BASE_TERMS: BorrowingBaseTerms = {
+  minHoldingValue: 1_000_000,
+  excludeListed: true,
+  excludedStatuses: ["written-off", "exited"],
+  advanceRates: {
+    buyout: 50,
+    growth: 40,
+    venture: 25,
+    credit: 60,
+    real_assets: 45,
+    secondaries: 45,
+    cash: 100,
+  },
+  defaultAdvanceRate: 35,
+  singleNameCapPercent: 15,
+  top3CapPercent: 40,
+  sectorCapPercent: 35,
+};
+
+export type IneligibleReason = "excluded_status" | "listed" | "below_minimum" | "unvalued";
+
+export interface BorrowingBaseHolding {
+  companyId: string;
+  companyName: string;
+  sector: string | null;
+  assetClass: string | null;
+  status: string;
+  isListed: boolean;
+  value: number;
+}
+
+export interface BorrowingBaseLine extends BorrowingBaseHolding {
+  eligible: boolean;
+  ineligibleReason: IneligibleReason | null;
+  singleNameHaircut: number;
+  top3Haircut: number;
+  sectorHaircut: number;
+  eligibleValue: number; // After concentration haircuts
+  advanceRate: number; // Percent
+  advanceValue: number;
+}
+
+export interface ConcentrationTest {
+  limit: "single_name" | "top_3" | "sector";
+  name: string;
+  exposure: number; // After haircuts from earlier caps in the sequence
+  exposurePercent: number; // Of eligible NAV before haircuts
+  capPercent: number;
+  excess: number;
+}
+
+export interface BorrowingBaseResult {
+  grossNav: number;
+  ineligibleValue: number;
+  concentrationHaircut: number;
+  eligibleNav: number;
+  borrowingBase: number;
+  lines: BorrowingBaseLine[];
+  concentrations: ConcentrationTest[];
+}
+
+export interface FacilityBorrowingBase extends BorrowingBaseResult {
+  facilityId: string;
+  fundName: string;
+  terms: BorrowingBaseTerms;
+  outstandingBalance: number;
+  availability: number;
+  utilizationPercent: number | null;
+}
+
+/**
+ * Overlay facility-specific terms on the defaults. Advance rates merge per asset class.
+ */
+export function resolveBorrowingBaseTerms(overrides?: Partial<BorrowingBaseTerms> | null): BorrowingBaseTerms {
+  return {
+    ...DEFAULT_BORROWING_BASE_TERMS,
+    ...overrides,
+    advanceRates: {
+      ...DEFAULT_BORROWING_BASE_TERMS.advanceRates,
+      ...overrides?.advanceRates,
+    },
+  };
+}
+
+function roundOne(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function ineligibleReason(holding: BorrowingBaseHolding, terms: BorrowingBaseTerms): IneligibleReason | null {
+  if (terms.excludedStatuses.includes(holding.status)) return "excluded_status";
+  if (terms.excludeListed && holding.isListed) return "listed";
+  if (holding.value <= 0) return "unvalued";
+  if (holding.assetClass !== "cash" && holding.value < terms.minHoldingValue) return "below_minimum";
+  return null;
+}
+
+// Spread an excess across holdings in proportion to their value, in whole dollars
+function allocateExcess(lines: BorrowingBaseLine[], excess: number, field: "top3Haircut" | "sectorHaircut") {
+  const total = lines.reduce((sum, line) => sum + line.eligibleValue, 0);
+  if (excess <= 0 || total <= 0) return;
+  let remaining = excess;
+  lines.forEach((line, index) => {
+    const haircut = index === lines.length - 1
+      ? remaining
+      : Math.round(excess * (line.eligibleValue / total));
+    remaining -= haircut;
+    line[field] += haircut;
+    line.eligibleValue -= haircut;
+  });
+}
+
+/**
+ * Borrowing base for a set of holdings. Caps are measured against eligible NAV before any
+ * haircut and applied in order: single name, then the top three names, then sector. Cash
+ * counts towards eligible NAV but is never concentration-capped.
+ */
+export function calculateBorrowingBase(
+  holdings: BorrowingBaseHolding[],
+  terms: BorrowingBaseTerms = DEFAULT_BORROWING_BASE_TERMS
+): BorrowingBaseResult {
+  const lines: BorrowingBaseLine[] = holdings.map(holding => {
+    const reason = ineligibleReason(holding, terms);
+    return {
+      ...holding,
+      eligible: reason === null,
+      ineligibleReason: reason,
+      singleNameHaircut: 0,
+      top3Haircut: 0,
+      sectorHaircut: 0,
+      eligibleValue: reason === null ? holding.value : 0,
+      advanceRate: 0,
+      advanceValue: 0,
+    };
+  });
+
+  const eligiblePool = lines.reduce((sum, line) => sum + line.eligibleValue, 0);
+  const cappable = lines.filter(line => line.eligible && line.assetClass !== "cash");
+  const percentOfPool = (value: number) => eligiblePool > 0 ? roundOne(value / eligiblePool * 100) : 0;
+  const concentrations: ConcentrationTest[] = [];
+
+  if (terms.singleNameCapPercent !== null && eligiblePool > 0) {
+    const cap = eligiblePool * terms.singleNameCapPercent / 100;
+    const largest = [...cappable].sort((a, b) => b.value - a.value)[0];
+    for (const line of cappable) {
+      const excess = Math.max(0, Math.round(line.value - cap));
+      if (excess > 0 || line === largest) {
+        concentrations.push({
+          limit: "single_name",
+          name: line.companyName,
+          exposure: line.value,
+          exposurePercent: percentOfPool(line.value),
+          capPercent: terms.singleNameCapPercent,
+          excess,
+        });
+      }
+      line.singleNameHaircut = excess;
+      line.eligibleValue -= excess;
+    }
+  }
+
+  if (terms.top3CapPercent !== null && eligiblePool > 0 && cappable.length > 0) {
+    const top3 = [...cappable].sort((a, b) => b.eligibleValue - a.eligibleValue).slice(0, 3);
+    const exposure = top3.reduce((sum, line) => sum + line.eligibleValue, 0);
+    const excess = Math.max(0, Math.round(exposure - eligiblePool * terms.top3CapPercent / 100));
+    concentrations.push({
+      limit: "top_3",
+      name: top3.map(line => line.companyName).join(", "),
+      exposure,
+      exposurePercent: percentOfPool(exposure),
+      capPercent: terms.top3CapPercent,
+      excess,
+    });
+    allocateExcess(top3, excess, "top3Haircut");
+  }
+
+  if (terms.sectorCapPercent !== null && eligiblePool > 0) {
+    const bySector = new Map<string, BorrowingBaseLine[]>();
+    for (const line of cappable) {
+      const sector = line.sector || "Unknown";
+      bySector.set(sector, [...(bySector.get(sector) ?? []), line]);
+    }
+    for (const [sector, sectorLines] of Array.from(bySector.entries())) {
+      const exposure = sectorLines.reduce((sum, line) => sum + line.eligibleValue, 0);
+      const excess = Math.max(0, Math.round(exposure - eligiblePool * terms.sectorCapPercent / 100));
+      concentrations.push({
+        limit: "sector",
+        name: sector,
+        exposure,
+        exposurePercent: percentOfPool(exposure),
+        capPercent: terms.sectorCapPercent,
+        excess,
+      });
+      allocateExcess(sectorLines, excess, "sectorHaircut");
+    }
+  }
+
+  for (const line of lines) {
+    if (line.eligible) {
+      line.advanceRate = line.assetClass
+        ? terms.advanceRates[line.assetClass] ?? terms.defaultAdvanceRate
+        : terms.defaultAdvanceRate;
+      line.advanceValue = Math.floor(line.eligibleValue * line.advanceRate / 100);
+    }
+  }
+
+  const grossNav = lines.reduce((sum, line) => sum + line.value, 0);
+  const ineligibleValue = lines.filter(line => !line.eligible).reduce((sum, line) => sum + line.value, 0);
+  const concentrationHaircut = lines
+    .reduce((sum, line) => sum + line.singleNameHaircut + line.top3Haircut + line.sectorHaircut, 0);
+
+  return {
+    grossNav,
+    ineligibleValue,
+    concentrationHaircut,
+    eligibleNav: grossNav - ineligibleValue - concentrationHaircut,
+    borrowingBase: lines.reduce((sum, line) => sum + line.advanceValue, 0),
+    lines: lines.sort((a, b) => b.value - a.value),
+    concentrations,
+  };
+}
+
+/**
+ * Portfolio companies valued at their latest GP-reported mark, falling back to the
+ * company's current value or cost. Pass a facility or a prospect. With asOf, the
+ * portfolio is as it stood on that date: marks after it are ignored, later
+ * investments are left out and companies exited afterwards are still active.
+ */
+export async function loadBorrowingBaseHoldings(
+  owner: { facilityId: string } | { prospectId: string },
+  options: { asOf?: Date } = {}
+): Promise<BorrowingBaseHolding[]> {
+  const { asOf } = options;
+  const companies: PortfolioCompany[] = (await db.select()
+    .from(portfolioCompanies)
+    .where("facilityId" in owner
+      ? eq(portfolioCompanies.facilityId, owner.facilityId)
+      : eq(portfolioCompanies.prospectId, owner.prospectId)))
+    .filter(company => !asOf || !company.investmentDate || company.investmentDate <= asOf);
+
+  if (companies.length === 0) return [];
+
+  const markConditions = [
+    inArray(portfolioHoldings.companyId, companies.map(c => c.id)),
+    eq(portfolioHoldings.basis, "gp_reported"),
+  ];
+  if (asOf) markConditions.push(lte(portfolioHoldings.asOfDate, asOf));
+
+  const latestHolding = new Map<string, number>();
+  const holdings = await db.select({ companyId: portfolioHoldings.companyId, fairValue: portfolioHoldings.fairValue })
+    .from(portfolioHoldings)
+    .where(and(...markConditions))
+    .orderBy(desc(portfolioHoldings.asOfDate));
+  for (const holding of holdings) {
+    if (!latestHolding.has(holding.companyId)) {
+      latestHolding.set(holding.companyId, holding.fairValue);
+    }
+  }
+
+  return companies.map(company => {
+    // A current value recorded after asOf doesn't describe the portfolio on that date
+    const currentValue = asOf && company.valuationDate && company.valuationDate > asOf
+      ? null
+      : company.currentValue;
+    const exitedSince = asOf && company.status !== "active" && company.exitDate && company.exitDate > asOf;
+
+    return {
+      companyId: company.id,
+      companyName: company.companyName,
+      sector: company.sector,
+      assetClass: company.assetClass ?? (isCashHolding(company) ? "cash" : null),
+      status: exitedSince ? "active" : company.status,
+      isListed: company.isListed,
+      value: latestHolding.get(company.id) ?? currentValue ?? company.investmentAmount ?? 0,
+    };
+  });
+}
+
+function facilityTerms(facility: Facility): BorrowingBaseTerms {
+  return resolveBorrowingBaseTerms(facility.borrowingBaseTerms as Partial<BorrowingBaseTerms> | null);
+}
+
+/**
+ * Current borrowing base and availability for a facility; null when it does not exist
+ */
+export async function calculateFacilityBorrowingBase(facilityId: string): Promise<FacilityBorrowingBase | null> {
+  const [facility] = await db.select()
+    .from(facilities)
+    .where(eq(facilities.id, facilityId))
+    .limit(1);
+
+  if (!facility) {
+    return null;
+  }
+
+  const terms = facilityTerms(facility);
+  const result = calculateBorrowingBase(await loadBorrowingBaseHoldings({ facilityId }), terms);
+
+  return {
+    facilityId,
+    fundName: facility.fundName,
+    terms,
+    ...result,
+    outstandingBalance: facility.outstandingBalance,
+    availability: result.borrowingBase - facility.outstandingBalance,
+    utilizationPercent: result.borrowingBase > 0
+      ? roundOne(facility.outstandingBalance / result.borrowingBase * 100)
+      : null,
+  };
+}
+
+/**
+ * Store the facility's current borrowing base as the certificate for a period
+ */
+export async function issueBorrowingBaseCertificate(params: {
+  facilityId: string;
+  periodEnd: Date;
+  createdBy?: string;
+}): Promise<BorrowingBaseCertificate | null> {
+  const current = await calculateFacilityBorrowingBase(params.facilityId);
+  if (!current) {
+    return null;
+  }
+
+  const [certificate] = await db.insert(borrowingBaseCertificates)
+    .values({
+      facilityId: params.facilityId,
+      periodEnd: params.periodEnd,
+      grossNav: current.grossNav,
+      ineligibleValue: current.ineligibleValue,
+      concentrationHaircut: current.concentrationHaircut,
+      eligibleNav: current.eligibleNav,
+      borrowingBase: current.borrowingBase,
+      outstandingBalance: current.outstandingBalance,
+      availability: current.availability,
+      terms: current.terms,
+      holdings: current.lines,
+      concentrations: current.concentrations,
+      createdBy: params.createdBy ?? null,
+    })
+    .returning();
+
+  return certificate;
+}
+
+export async function getBorrowingBaseCertificates(
+  facilityId: string,
+  limit: number = 20
+): Promise<BorrowingBaseCertificate[]> {
+  return await db.select()
+    .from(borrowingBaseCertificates)
+    .where(eq(borrowingBaseCertificates.facilityId, facilityId))
+    .orderBy(desc(borrowingBaseCertificates.periodEnd), desc(borrowingBaseCertificates.createdAt))
+    .limit(limit);
+}
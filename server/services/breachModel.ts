@@ -0,0 +1,454 @@
+/**
+ * Covenant Breach Model
+ * Feature engineering, logistic regression training and evaluation for the
+ * breach predictor. Trained models are stored in the ml_models table and the
+ * active version is loaded by predictCovenantBreach.
+ */
+
+import { db } from "../db";
+import {
+  mlModels,
+  mlTrainingData,
+  breachPredictions,
+  type CashFlow,
+  type Covenant,
+  type Facility,
+  type MLModel,
+} from "@shared/schema";
+import { eq, and, isNotNull, desc, ne } from "drizzle-orm";
+
+export const BREACH_MODEL_TYPE = "breach_predictor";
+
+// Raised for requests the model can't serve (too little data, unknown model);
+// status is the HTTP status the routes answer with
+export class BreachModelError extends Error {
+  constructor(message: string, public status: 400 | 404) {
+    super(message);
+    this.name = "BreachModelError";
+  }
+}
+
+export type BreachTimeHorizon = "30_days" | "90_days" | "180_days" | "1_year";
+
+export const HORIZON_DAYS: Record<BreachTimeHorizon, number> = {
+  "30_days": 30,
+  "90_days": 90,
+  "180_days": 180,
+  "1_year": 365,
+};
+
+export const BREACH_FEATURE_NAMES = [
+  "statusSeverity", // 0 compliant, 0.5 warning, 1 breach
+  "thresholdHeadroom", // Signed distance to threshold as a fraction of threshold (negative = through it)
+  "hasCurrentValue", // 1 if the covenant has a measured value
+  "overdueRate", // Share of cash flows in the last 90 days that are overdue
+  "utilization", // Outstanding balance / principal amount
+  "ltvRatio", // Facility LTV as a fraction
+  "horizonYears", // Prediction horizon in years
+] as const;
+
+export type BreachFeatureName = typeof BREACH_FEATURE_NAMES[number];
+export type BreachFeatures = Record<BreachFeatureName, number>;
+
+export interface BreachModelParameters {
+  featureNames: string[];
+  weights: number[];
+  bias: number;
+  means: number[];
+  stds: number[];
+}
+
+export interface BreachModelHyperparameters {
+  learningRate: number;
+  epochs: number;
+  l2: number;
+  decisionThreshold: number;
+  holdoutEvery: number; // Every Nth sample is held out for evaluation
+}
+
+export interface ClassifierMetrics {
+  accuracy: number; // Percentages (0-100)
+  precision: number;
+  recall: number;
+  f1Score: number;
+  auc: number; // Area under the ROC curve, percent; 50 when only one class is present
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+}
+
+export interface TrainingSample {
+  features: BreachFeatures;
+  label: 0 | 1;
+  weight: number;
+}
+
+const DEFAULT_HYPERPARAMETERS: BreachModelHyperparameters = {
+  learningRate: 0.1,
+  epochs: 500,
+  l2: 0.01,
+  decisionThreshold: 0.5,
+  holdoutEvery: 5,
+};
+
+const MIN_TRAINING_SAMPLES = 20;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+/**
+ * Build the feature vector for a covenant at prediction time
+ */
+export function buildBreachFeatures(inputs: {
+  covenant: Pick<Covenant, "status" | "currentValue" | "thresholdValue" | "thresholdOperator">;
+  facility: Pick<Facility, "outstandingBalance" | "principalAmount" | "ltvRatio">;
+  recentCashFlows: Pick<CashFlow, "status">[];
+  horizon: BreachTimeHorizon;
+}): BreachFeatures {
+  const { covenant, facility, recentCashFlows, horizon } = inputs;
+
+  const statusSeverity = covenant.status === "breach" ? 1 : covenant.status === "warning" ? 0.5 : 0;
+
+  let thresholdHeadroom = 0;
+  const hasCurrentValue = covenant.currentValue !== null && covenant.currentValue !== undefined;
+  if (hasCurrentValue && covenant.thresholdValue !== 0) {
+    const distance = covenant.thresholdOperator.startsWith("less_than")
+      ? covenant.thresholdValue - covenant.currentValue!
+      : covenant.currentValue! - covenant.thresholdValue;
+    thresholdHeadroom = clamp(distance / Math.abs(covenant.thresholdValue), -1, 1);
+  }
+
+  const overdueRate = recentCashFlows.length > 0
+    ? recentCashFlows.filter(cf => cf.status === "overdue").length / recentCashFlows.length
+    : 0;
+
+  const utilization = facility.principalAmount > 0
+    ? clamp(facility.outstandingBalance / facility.principalAmount, 0, 2)
+    : 0;
+
+  return {
+    statusSeverity,
+    thresholdHeadroom,
+    hasCurrentValue: hasCurrentValue ? 1 : 0,
+    overdueRate,
+    utilization,
+    ltvRatio: facility.ltvRatio / 100,
+    horizonYears: HORIZON_DAYS[horizon] / 365,
+  };
+}
+
+function toVector(features: Partial<Record<string, number>>, featureNames: readonly string[]): number[] {
+  return featureNames.map(name => {
+    const value = Number(features[name]);
+    return Number.isFinite(value) ? value : 0;
+  });
+}
+
+/**
+ * Fit an L2-regularised logistic regression with full-batch gradient descent.
+ * Features are standardised; means and standard deviations are returned so the
+ * same scaling can be applied at prediction time.
+ */
+export function trainLogisticRegression(
+  samples: TrainingSample[],
+  hyperparameters: Pick<BreachModelHyperparameters, "learningRate" | "epochs" | "l2">
+): BreachModelParameters {
+  const featureNames = [...BREACH_FEATURE_NAMES];
+  const rows = samples.map(s => toVector(s.features, featureNames));
+  const dims = featureNames.length;
+
+  const means = new Array(dims).fill(0);
+  const stds = new Array(dims).fill(0);
+  for (const row of rows) {
+    row.forEach((v, j) => { means[j] += v / rows.length; });
+  }
+  for (const row of rows) {
+    row.forEach((v, j) => { stds[j] += (v - means[j]) ** 2 / rows.length; });
+  }
+  for (let j = 0; j < dims; j++) {
+    // Constant features are left unscaled; rounding in the running mean leaves them a
+    // variance of ~1e-32 rather than 0, which would otherwise blow them up by ~1e16
+    const std = Math.sqrt(stds[j]);
+    stds[j] = std > 1e-9 ? std : 1;
+  }
+
+  const scaled = rows.map(row => row.map((v, j) => (v - means[j]) / stds[j]));
+  const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0) || 1;
+
+  const weights = new Array(dims).fill(0);
+  let bias = 0;
+
+  for (let epoch = 0; epoch < hyperparameters.epochs; epoch++) {
+    const gradW = new Array(dims).fill(0);
+    let gradB = 0;
+
+    scaled.forEach((x, i) => {
+      const z = bias + x.reduce((sum, v, j) => sum + v * weights[j], 0);
+      const error = (sigmoid(z) - samples[i].label) * samples[i].weight;
+      x.forEach((v, j) => { gradW[j] += error * v; });
+      gradB += error;
+    });
+
+    for (let j = 0; j < dims; j++) {
+      weights[j] -= hyperparameters.learningRate * (gradW[j] / totalWeight + hyperparameters.l2 * weights[j]);
+    }
+    bias -= hyperparameters.learningRate * (gradB / totalWeight);
+  }
+
+  return { featureNames, weights, bias, means, stds };
+}
+
+/**
+ * Breach probability (0-1) for a feature vector under trained parameters
+ */
+export function predictBreachProbability(
+  params: BreachModelParameters,
+  features: Partial<Record<string, number>>
+): number {
+  const x = toVector(features, params.featureNames);
+  const z = x.reduce(
+    (sum, v, j) => sum + ((v - params.means[j]) / params.stds[j]) * params.weights[j],
+    params.bias
+  );
+  return sigmoid(z);
+}
+
+/**
+ * Confusion-matrix metrics for binary predictions
+ */
+export function evaluateClassifier(
+  probabilities: number[],
+  labels: Array<0 | 1>,
+  decisionThreshold = 0.5
+): ClassifierMetrics {
+  let truePositives = 0, falsePositives = 0, trueNegatives = 0, falseNegatives = 0;
+
+  probabilities.forEach((p, i) => {
+    const predicted = p >= decisionThreshold ? 1 : 0;
+    if (predicted === 1 && labels[i] === 1) truePositives++;
+    else if (predicted === 1) falsePositives++;
+    else if (labels[i] === 1) falseNegatives++;
+    else trueNegatives++;
+  });
+
+  const total = probabilities.length || 1;
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+  const f1Score = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  const pct = (v: number) => Math.round(v * 10000) / 100;
+
+  return {
+    accuracy: pct((truePositives + trueNegatives) / total),
+    precision: pct(precision),
+    recall: pct(recall),
+    f1Score: pct(f1Score),
+    auc: pct(areaUnderRoc(probabilities, labels)),
+    truePositives,
+    falsePositives,
+    trueNegatives,
+    falseNegatives,
+  };
+}
+
+/**
+ * Probability that a random breach is scored above a random non-breach (ties count
+ * half), which is the area under the ROC curve
+ */
+function areaUnderRoc(probabilities: number[], labels: Array<0 | 1>): number {
+  const positives = probabilities.filter((_, i) => labels[i] === 1);
+  const negatives = probabilities.filter((_, i) => labels[i] === 0);
+  if (positives.length === 0 || negatives.length === 0) {
+    return 0.5;
+  }
+
+  let wins = 0;
+  for (const p of positives) {
+    for (const n of negatives) {
+      wins += p > n ? 1 : p === n ? 0.5 : 0;
+    }
+  }
+  return wins / (positives.length * negatives.length);
+}
+
+/**
+ * Relative importance of each feature: |standardised coefficient| normalised to sum to 1
+ */
+export function computeFeatureImportance(params: BreachModelParameters): Record<string, number> {
+  const total = params.weights.reduce((sum, w) => sum + Math.abs(w), 0) || 1;
+  return Object.fromEntries(
+    params.featureNames.map((name, j) => [name, Math.round((Math.abs(params.weights[j]) / total) * 10000) / 10000])
+  );
+}
+
+function parseLabel(label: unknown): 0 | 1 | null {
+  if (typeof label === "boolean") return label ? 1 : 0;
+  if (typeof label === "number") return label > 0 ? 1 : 0;
+  if (label && typeof label === "object" && "breached" in label) {
+    return (label as { breached: unknown }).breached ? 1 : 0;
+  }
+  return null;
+}
+
+/**
+ * Collect labelled samples from ml_training_data and from resolved breach predictions
+ */
+export async function loadBreachTrainingSamples(): Promise<TrainingSample[]> {
+  const samples: TrainingSample[] = [];
+
+  const trainingRows = await db.select()
+    .from(mlTrainingData)
+    .where(eq(mlTrainingData.modelType, BREACH_MODEL_TYPE));
+
+  for (const row of trainingRows) {
+    const label = parseLabel(row.label);
+    if (label === null || !row.features) continue;
+    samples.push({
+      features: row.features as BreachFeatures,
+      label,
+      weight: row.weight ? parseFloat(row.weight) : 1,
+    });
+  }
+
+  const resolvedPredictions = await db.select()
+    .from(breachPredictions)
+    .where(and(
+      isNotNull(breachPredictions.actualBreachOccurred),
+      isNotNull(breachPredictions.features)
+    ));
+
+  for (const prediction of resolvedPredictions) {
+    samples.push({
+      features: prediction.features as BreachFeatures,
+      label: prediction.actualBreachOccurred ? 1 : 0,
+      weight: 1,
+    });
+  }
+
+  return samples;
+}
+
+/**
+ * Train a new breach model version on all labelled data and record it in ml_models.
+ * The new model is stored with status "testing" unless activate is set.
+ */
+export async function trainBreachModel(options: {
+  modelVersion?: string;
+  activate?: boolean;
+  hyperparameters?: Partial<BreachModelHyperparameters>;
+} = {}): Promise<MLModel> {
+  const hyperparameters = { ...DEFAULT_HYPERPARAMETERS, ...options.hyperparameters };
+  const samples = await loadBreachTrainingSamples();
+
+  if (samples.length < MIN_TRAINING_SAMPLES) {
+    throw new BreachModelError(
+      `Insufficient labelled data: ${samples.length} samples (minimum ${MIN_TRAINING_SAMPLES})`,
+      400
+    );
+  }
+
+  const positives = samples.filter(s => s.label === 1).length;
+  if (positives === 0 || positives === samples.length) {
+    throw new BreachModelError("Training data must contain both breach and non-breach outcomes", 400);
+  }
+
+  const trainSet = samples.filter((_, i) => i % hyperparameters.holdoutEvery !== 0);
+  const testSet = samples.filter((_, i) => i % hyperparameters.holdoutEvery === 0);
+
+  // Evaluate on the holdout split, then refit on everything for the stored model
+  const holdoutParams = trainLogisticRegression(trainSet, hyperparameters);
+  const metrics = evaluateClassifier(
+    testSet.map(s => predictBreachProbability(holdoutParams, s.features)),
+    testSet.map(s => s.label),
+    hyperparameters.decisionThreshold
+  );
+  const params = trainLogisticRegression(samples, hyperparameters);
+
+  const existing = await db.select({ id: mlModels.id })
+    .from(mlModels)
+    .where(eq(mlModels.modelType, BREACH_MODEL_TYPE));
+  const modelVersion = options.modelVersion ?? `v2.${existing.length}-logreg`;
+
+  const [model] = await db.insert(mlModels).values({
+    modelName: "Covenant Breach Logistic Regression",
+    modelVersion,
+    modelType: BREACH_MODEL_TYPE,
+    status: "testing",
+    accuracy: metrics.accuracy.toFixed(2),
+    precision: metrics.precision.toFixed(2),
+    recall: metrics.recall.toFixed(2),
+    f1Score: metrics.f1Score.toFixed(2),
+    trainingDataCount: samples.length,
+    lastTrainedAt: new Date(),
+    hyperparameters,
+    featureImportance: computeFeatureImportance(params),
+    metadata: {
+      parameters: params,
+      evaluation: { ...metrics, holdoutCount: testSet.length, positiveRate: positives / samples.length },
+    },
+  }).returning();
+
+  console.log(
+    `Trained breach model ${modelVersion} on ${samples.length} samples (F1 ${metrics.f1Score}%, AUC ${metrics.auc}%)`
+  );
+
+  return options.activate ? activateBreachModel(model.id) : model;
+}
+
+/**
+ * Make a model version the active breach predictor, deprecating the previous one
+ */
+export async function activateBreachModel(modelId: string): Promise<MLModel> {
+  const [model] = await db.select()
+    .from(mlModels)
+    .where(and(eq(mlModels.id, modelId), eq(mlModels.modelType, BREACH_MODEL_TYPE)));
+
+  if (!model) {
+    throw new BreachModelError("Breach model not found", 404);
+  }
+
+  await db.update(mlModels)
+    .set({ status: "deprecated", updatedAt: new Date() })
+    .where(and(
+      eq(mlModels.modelType, BREACH_MODEL_TYPE),
+      eq(mlModels.status, "active"),
+      ne(mlModels.id, modelId)
+    ));
+
+  const [activated] = await db.update(mlModels)
+    .set({ status: "active", updatedAt: new Date() })
+    .where(eq(mlModels.id, modelId))
+    .returning();
+
+  return activated;
+}
+
+/**
+ * Load the active breach model, or null if none has been trained and activated
+ */
+export async function getActiveBreachModel(): Promise<{ model: MLModel; params: BreachModelParameters } | null> {
+  const [model] = await db.select()
+    .from(mlModels)
+    .where(and(eq(mlModels.modelType, BREACH_MODEL_TYPE), eq(mlModels.status, "active")))
+    .orderBy(desc(mlModels.lastTrainedAt))
+    .limit(1);
+
+  const params = (model?.metadata as { parameters?: BreachModelParameters } | null)?.parameters;
+  if (!model || !params) {
+    return null;
+  }
+
+  return { model, params };
+}
+
+/**
+ * List all breach model versions, newest first
+ */
+export async function listBreachModels(): Promise<MLModel[]> {
+  return await db.select()
+    .from(mlModels)
+    .where(eq(mlModels.modelType, BREACH_MODEL_TYPE))
+    .orderBy(desc(mlModels.createdAt));
+}
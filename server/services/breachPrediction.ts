@@ -4,24 +4,106 @@ import {
   covenants,
   facilities,
   cashFlows,
-  type InsertBreachPrediction,
 } from "@shared/schema";
-import { eq, and, gte, lte, sql } from "drizzle-orm";
+import { eq, and, asc, gt, gte, isNull, inArray, sql } from "drizzle-orm";
+import {
+  HORIZON_DAYS,
+  buildBreachFeatures,
+  getActiveBreachModel,
+  predictBreachProbability,
+  type BreachFeatures,
+  type BreachTimeHorizon,
+} from "./breachModel";
+
+const HEURISTIC_MODEL_VERSION = "v1.0-heuristic";
+
+/**
+ * Human-readable explanation of the features driving a prediction
+ */
+function describeContributingFactors(features: BreachFeatures): string[] {
+  const factors: string[] = [];
+
+  if (features.statusSeverity === 1) {
+    factors.push("Currently in breach");
+  } else if (features.statusSeverity === 0.5) {
+    factors.push("Currently in warning status");
+  }
+
+  if (features.hasCurrentValue) {
+    const margin = Math.abs(features.thresholdHeadroom);
+    if (margin < 0.05) {
+      factors.push("Very close to threshold (<5% margin)");
+    } else if (margin < 0.10) {
+      factors.push("Close to threshold (5-10% margin)");
+    } else if (margin < 0.15) {
+      factors.push("Near threshold (10-15% margin)");
+    }
+  }
+
+  if (features.overdueRate > 0.3) {
+    factors.push(`High overdue rate (${(features.overdueRate * 100).toFixed(0)}%)`);
+  } else if (features.overdueRate > 0.1) {
+    factors.push(`Moderate overdue rate (${(features.overdueRate * 100).toFixed(0)}%)`);
+  }
+
+  if (features.utilization > 0.9) {
+    factors.push("High facility utilization (>90%)");
+  } else if (features.utilization > 0.75) {
+    factors.push("Elevated facility utilization (75-90%)");
+  }
+
+  return factors;
+}
+
+/**
+ * Hand-tuned point system used until a trained model has been activated
+ */
+function scoreHeuristically(features: BreachFeatures, timeHorizon: BreachTimeHorizon): number {
+  let riskScore = 0;
+
+  if (features.statusSeverity === 1) riskScore += 50;
+  else if (features.statusSeverity === 0.5) riskScore += 30;
+
+  if (features.hasCurrentValue) {
+    const margin = Math.abs(features.thresholdHeadroom);
+    if (margin < 0.05) riskScore += 30;
+    else if (margin < 0.10) riskScore += 20;
+    else if (margin < 0.15) riskScore += 10;
+  }
+
+  if (features.overdueRate > 0.3) riskScore += 20;
+  else if (features.overdueRate > 0.1) riskScore += 10;
+
+  if (features.utilization > 0.9) riskScore += 15;
+  else if (features.utilization > 0.75) riskScore += 10;
+
+  // Adjust for time horizon (longer = higher probability)
+  const timeMultipliers: Record<BreachTimeHorizon, number> = {
+    "30_days": 0.8,
+    "90_days": 1.0,
+    "180_days": 1.2,
+    "1_year": 1.5,
+  };
 
-// Heuristic-based prediction model (placeholder for ML model)
-// In production, this would use a trained ML model
+  return Math.min(100, riskScore * timeMultipliers[timeHorizon]);
+}
+
+// Predict covenant breaches with the active trained model, falling back to the
+// heuristic when no model has been activated yet. Returns null when the facility,
+// or the requested covenant on that facility, does not exist.
 export async function predictCovenantBreach(params: {
   facilityId: string;
   covenantId?: string;
-  timeHorizon: "30_days" | "90_days" | "180_days" | "1_year";
+  timeHorizon: BreachTimeHorizon;
 }): Promise<{
+  modelVersion: string;
   predictions: Array<{
     covenantId: string;
     breachProbability: number;
     riskScore: number;
     contributingFactors: string[];
   }>;
-}> {
+} | null> {
   const { facilityId, covenantId, timeHorizon } = params;
 
   // Get facility details
@@ -30,97 +112,50 @@ export async function predictCovenantBreach(params: {
     .where(eq(facilities.id, facilityId));
 
   if (!facility) {
-    throw new Error("Facility not found");
+    return null;
   }
 
-  // Get covenants
-  const covenantsToCheck = covenantId
-    ? await db.select().from(covenants).where(eq(covenants.id, covenantId))
-    : await db.select().from(covenants).where(eq(covenants.facilityId, facilityId));
+  // Get covenants, scoped to the facility so a covenant id from another facility matches nothing
+  const covenantsToCheck = await db.select()
+    .from(covenants)
+    .where(covenantId
+      ? and(eq(covenants.id, covenantId), eq(covenants.facilityId, facilityId))
+      : eq(covenants.facilityId, facilityId));
 
-  const predictions = [];
-
-  for (const covenant of covenantsToCheck) {
-    const contributingFactors: string[] = [];
-    let riskScore = 0;
-
-    // Factor 1: Current compliance status
-    if (covenant.status === "breach") {
-      riskScore += 50;
-      contributingFactors.push("Currently in breach");
-    } else if (covenant.status === "warning") {
-      riskScore += 30;
-      contributingFactors.push("Currently in warning status");
-    }
+  if (covenantId && covenantsToCheck.length === 0) {
+    return null;
+  }
 
-    // Factor 2: Proximity to threshold
-    if (covenant.currentValue && covenant.thresholdValue) {
-      const margin = Math.abs(covenant.currentValue - covenant.thresholdValue) / covenant.thresholdValue;
-      
-      if (margin < 0.05) { // Within 5% of threshold
-        riskScore += 30;
-        contributingFactors.push("Very close to threshold (<5% margin)");
-      } else if (margin < 0.10) { // Within 10% of threshold
-        riskScore += 20;
-        contributingFactors.push("Close to threshold (5-10% margin)");
-      } else if (margin < 0.15) { // Within 15% of threshold
-        riskScore += 10;
-        contributingFactors.push("Near threshold (10-15% margin)");
-      }
-    }
+  // Recent cash flow performance (last 90 days)
+  const recentCashFlows = await db.select()
+    .from(cashFlows)
+    .where(
+      and(
+        eq(cashFlows.facilityId, facilityId),
+        gte(cashFlows.dueDate, new Date(Date.now() - 90 * 24 * 60 * 60 * 1000))
+      )
+    );
 
-    // Factor 3: Recent cash flow performance
-    const recentCashFlows = await db.select()
-      .from(cashFlows)
-      .where(
-        and(
-          eq(cashFlows.facilityId, facilityId),
-          gte(cashFlows.dueDate, new Date(Date.now() - 90 * 24 * 60 * 60 * 1000))
-        )
-      );
-
-    if (recentCashFlows.length > 0) {
-      const overdueCashFlows = recentCashFlows.filter(cf => cf.status === "overdue");
-      const overdueRate = overdueCashFlows.length / recentCashFlows.length;
-
-      if (overdueRate > 0.3) {
-        riskScore += 20;
-        contributingFactors.push(`High overdue rate (${(overdueRate * 100).toFixed(0)}%)`);
-      } else if (overdueRate > 0.1) {
-        riskScore += 10;
-        contributingFactors.push(`Moderate overdue rate (${(overdueRate * 100).toFixed(0)}%)`);
-      }
-    }
+  const activeModel = await getActiveBreachModel();
+  const modelVersion = activeModel?.model.modelVersion ?? HEURISTIC_MODEL_VERSION;
+  // Trained models report holdout accuracy; the heuristic has moderate confidence
+  const modelConfidence = activeModel?.model.accuracy ?? "75.00";
 
-    // Factor 4: Facility utilization
-    if (facility.outstandingBalance && facility.facilityAmount) {
-      const utilizationRate = facility.outstandingBalance / facility.facilityAmount;
-      
-      if (utilizationRate > 0.9) {
-        riskScore += 15;
-        contributingFactors.push("High facility utilization (>90%)");
-      } else if (utilizationRate > 0.75) {
-        riskScore += 10;
-        contributingFactors.push("Elevated facility utilization (75-90%)");
-      }
-    }
+  const predictions = [];
 
-    // Adjust for time horizon (longer = higher probability)
-    const timeMultipliers = {
-      "30_days": 0.8,
-      "90_days": 1.0,
-      "180_days": 1.2,
-      "1_year": 1.5,
-    };
-    riskScore = Math.min(100, riskScore * timeMultipliers[timeHorizon]);
+  for (const covenant of covenantsToCheck) {
+    const features = buildBreachFeatures({ covenant, facility, recentCashFlows, horizon: timeHorizon });
 
-    // Convert risk score to probability (simplified sigmoid-like function)
-    const breachProbability = Math.min(100, (riskScore / 100) * 100);
+    const breachProbability = activeModel
+      ? predictBreachProbability(activeModel.params, features) * 100
+      : scoreHeuristically(features, timeHorizon);
+    const riskScore = Math.round(breachProbability);
+    const contributingFactors = describeContributingFactors(features);
 
     predictions.push({
       covenantId: covenant.id,
       breachProbability: Math.round(breachProbability * 100) / 100,
-      riskScore: Math.round(riskScore),
+      riskScore,
       contributingFactors,
     });
 
@@ -129,21 +164,22 @@ export async function predictCovenantBreach(params: {
       facilityId,
       covenantId: covenant.id,
       timeHorizon,
-      breachProbability: breachProbability.toString(),
-      riskScore: Math.round(riskScore),
+      breachProbability: breachProbability.toFixed(2),
+      riskScore,
       contributingFactors,
-      modelVersion: "v1.0-heuristic",
-      modelConfidence: "75.00", // Heuristic model has moderate confidence
+      features,
+      modelVersion,
+      modelConfidence,
     });
   }
 
-  return { predictions };
+  return { modelVersion, predictions };
 }
 
 // Get predictions for a facility
 export async function getBreachPredictions(facilityId: string, timeHorizon?: string) {
   const conditions = [eq(breachPredictions.facilityId, facilityId)];
-  
+
   if (timeHorizon) {
     conditions.push(eq(breachPredictions.timeHorizon, timeHorizon));
   }
@@ -154,3 +190,201 @@ export async function getBreachPredictions(facilityId: string, timeHorizon?: str
     .orderBy(sql`${breachPredictions.predictionDate} DESC`)
     .limit(100);
 }
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RESOLVE_BATCH_SIZE = 500;
+
+function horizonEnd(predictionDate: Date, timeHorizon: string): Date | null {
+  const days = HORIZON_DAYS[timeHorizon as BreachTimeHorizon];
+  return days ? new Date(predictionDate.getTime() + days * DAY_MS) : null;
+}
+
+/**
+ * Mark unresolved predictions for a covenant as breached when the breach date
+ * falls inside their horizon. Called when a covenant flips to breach.
+ */
+export async function resolvePredictionsForBreach(covenantId: string, breachDate: Date): Promise<number> {
+  const unresolved = await db.select()
+    .from(breachPredictions)
+    .where(and(
+      eq(breachPredictions.covenantId, covenantId),
+      isNull(breachPredictions.actualBreachOccurred)
+    ));
+
+  const coveredIds = unresolved
+    .filter(p => {
+      const end = horizonEnd(p.predictionDate, p.timeHorizon);
+      return end !== null && p.predictionDate <= breachDate && breachDate <= end;
+    })
+    .map(p => p.id);
+
+  if (coveredIds.length > 0) {
+    await db.update(breachPredictions)
+      .set({ actualBreachOccurred: true, actualBreachDate: breachDate })
+      .where(inArray(breachPredictions.id, coveredIds));
+  }
+
+  return coveredIds.length;
+}
+
+/**
+ * Resolve predictions whose horizon has passed without a breach as non-breaches,
+ * paging through unresolved predictions in id order.
+ * Should be run on a schedule (e.g., daily cron job).
+ */
+export async function resolveExpiredPredictions(asOf: Date = new Date()): Promise<number> {
+  let resolved = 0;
+  let lastId: string | null = null;
+
+  while (true) {
+    const page: Array<{ id: string; predictionDate: Date; timeHorizon: string }> = await db.select({
+      id: breachPredictions.id,
+      predictionDate: breachPredictions.predictionDate,
+      timeHorizon: breachPredictions.timeHorizon,
+    })
+      .from(breachPredictions)
+      .where(and(
+        isNull(breachPredictions.actualBreachOccurred),
+        lastId ? gt(breachPredictions.id, lastId) : undefined
+      ))
+      .orderBy(asc(breachPredictions.id))
+      .limit(RESOLVE_BATCH_SIZE);
+    if (page.length === 0) break;
+
+    const expiredIds = page
+      .filter(p => {
+        const end = horizonEnd(p.predictionDate, p.timeHorizon);
+        return end !== null && end < asOf;
+      })
+      .map(p => p.id);
+
+    if (expiredIds.length > 0) {
+      await db.update(breachPredictions)
+        .set({ actualBreachOccurred: false })
+        .where(inArray(breachPredictions.id, expiredIds));
+      resolved += expiredIds.length;
+    }
+
+    lastId = page[page.length - 1].id;
+    if (page.length < RESOLVE_BATCH_SIZE) break;
+  }
+
+  return resolved;
+}
+
+export interface CalibrationBucket {
+  lowerBound: number; // Predicted probability range, percent
+  upperBound: number;
+  count: number;
+  meanPredicted: number; // Percent
+  observedRate: number; // Percent of predictions in the bucket that breached
+}
+
+export interface CalibrationPeriod {
+  period: string; // YYYY-MM of prediction date
+  count: number;
+  brierScore: number;
+}
+
+export interface CalibrationReport {
+  modelVersion: string;
+  resolvedCount: number;
+  breachCount: number;
+  brierScore: number; // Mean squared error of probabilities (0 = perfect, 0.25 = coin flip)
+  meanPredicted: number;
+  observedRate: number;
+  buckets: CalibrationBucket[];
+  periods: CalibrationPeriod[];
+}
+
+interface ResolvedOutcome {
+  probability: number; // 0-1
+  outcome: 0 | 1;
+  predictionDate: Date;
+}
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Brier score, reliability buckets and monthly trend for a set of resolved predictions
+ */
+export function computeCalibration(
+  modelVersion: string,
+  outcomes: ResolvedOutcome[],
+  bucketCount = 10
+): CalibrationReport {
+  const brier = (rows: ResolvedOutcome[]) =>
+    rows.length > 0 ? rows.reduce((sum, r) => sum + (r.probability - r.outcome) ** 2, 0) / rows.length : 0;
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+  const buckets: CalibrationBucket[] = [];
+  for (let i = 0; i < bucketCount; i++) {
+    const lower = i / bucketCount;
+    const upper = (i + 1) / bucketCount;
+    const inBucket = outcomes.filter(o =>
+      o.probability >= lower && (o.probability < upper || (i === bucketCount - 1 && o.probability <= upper))
+    );
+    buckets.push({
+      lowerBound: round(lower * 100, 2),
+      upperBound: round(upper * 100, 2),
+      count: inBucket.length,
+      meanPredicted: round(mean(inBucket.map(o => o.probability)) * 100, 2),
+      observedRate: round(mean(inBucket.map(o => o.outcome)) * 100, 2),
+    });
+  }
+
+  const byPeriod = new Map<string, ResolvedOutcome[]>();
+  for (const o of outcomes) {
+    const period = o.predictionDate.toISOString().slice(0, 7);
+    byPeriod.set(period, [...(byPeriod.get(period) ?? []), o]);
+  }
+  const periods = Array.from(byPeriod.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, rows]) => ({ period, count: rows.length, brierScore: round(brier(rows), 4) }));
+
+  return {
+    modelVersion,
+    resolvedCount: outcomes.length,
+    breachCount: outcomes.filter(o => o.outcome === 1).length,
+    brierScore: round(brier(outcomes), 4),
+    meanPredicted: round(mean(outcomes.map(o => o.probability)) * 100, 2),
+    observedRate: round(mean(outcomes.map(o => o.outcome)) * 100, 2),
+    buckets,
+    periods,
+  };
+}
+
+/**
+ * Calibration of resolved predictions, one report per model version
+ */
+export async function getCalibrationReport(filters: {
+  timeHorizon?: string;
+  modelVersion?: string;
+} = {}): Promise<CalibrationReport[]> {
+  const conditions = [sql`${breachPredictions.actualBreachOccurred} IS NOT NULL`];
+
+  if (filters.timeHorizon) {
+    conditions.push(eq(breachPredictions.timeHorizon, filters.timeHorizon));
+  }
+  if (filters.modelVersion) {
+    conditions.push(eq(breachPredictions.modelVersion, filters.modelVersion));
+  }
+
+  const resolved = await db.select()
+    .from(breachPredictions)
+    .where(and(...conditions));
+
+  const byVersion = new Map<string, ResolvedOutcome[]>();
+  for (const p of resolved) {
+    const outcome: ResolvedOutcome = {
+      probability: parseFloat(p.breachProbability) / 100,
+      outcome: p.actualBreachOccurred ? 1 : 0,
+      predictionDate: p.predictionDate,
+    };
+    byVersion.set(p.modelVersion, [...(byVersion.get(p.modelVersion) ?? []), outcome]);
+  }
+
+  return Array.from(byVersion.entries())
+    .map(([version, outcomes]) => computeCalibration(version, outcomes))
+    .sort((a, b) => b.resolvedCount - a.resolvedCount);
+}
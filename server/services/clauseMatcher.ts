@@ -0,0 +1,351 @@
+/**
+ * Clause Matcher Service
+ * Deterministic clause extraction: runs each legal clause template's patternRegex
+ * over document text, captures the numeric terms named in its keyTerms, and scores
+ * the match. Findings are merged with AI extraction so either can stand alone and,
+ * when both run, disagreements between them are flagged for review.
+ *
+ * Template keyTerms is a list of term kinds to capture, e.g. ["ratio", "days"], or
+ * an object naming them, e.g. {"coverage": "ratio", "curePeriod": "days"}.
+ */
+
+import { type LegalClauseTemplate } from "@shared/schema";
+
+export type NumericTermKind = "ratio" | "percentage" | "amount" | "days";
+
+export interface ClauseMatch {
+  templateId: string;
+  clauseType: string;
+  clauseName: string;
+  severity: string | null;
+  clauseText: string;
+  pageNumber: number | null;
+  sectionNumber: string | null;
+  terms: Record<string, number>; // Key term name -> first captured value
+  score: number; // 0-100
+}
+
+// A clause from the AI extraction (see CREDIT_PARSING_PROMPT)
+export interface AiClause {
+  clauseType: string;
+  clauseName?: string;
+  description?: string;
+  severity?: string;
+  keyTerms?: Record<string, unknown>;
+  sourceText?: string;
+  pageNumber?: number | null;
+  sectionNumber?: string | null;
+}
+
+export type ClauseFindingSource = "ai" | "pattern" | "ai_and_pattern";
+
+export interface MergedClauseFinding {
+  source: ClauseFindingSource;
+  templateId: string | null;
+  clauseType: string;
+  clauseName: string | null;
+  description: string | null;
+  severity: string | null;
+  clauseText: string;
+  pageNumber: number | null;
+  sectionNumber: string | null;
+  keyTerms: Record<string, unknown>;
+  confidence: number | null;
+  disagreements: string[];
+}
+
+const NUMERIC_TERM_KINDS: NumericTermKind[] = ["ratio", "percentage", "amount", "days"];
+
+const MAX_MATCHES_PER_TEMPLATE = 20;
+const MAX_CLAUSE_LENGTH = 1500;
+
+// Relative tolerance before two extracted values count as different
+const VALUE_TOLERANCE = 0.005;
+
+// Minimum word overlap for an AI clause and a pattern match to be the same clause
+const SAME_CLAUSE_SIMILARITY = 0.35;
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  billion: 1e9, bn: 1e9, b: 1e9,
+  million: 1e6, mm: 1e6, m: 1e6,
+  thousand: 1e3, k: 1e3,
+};
+
+const TERM_PATTERNS: Record<NumericTermKind, RegExp> = {
+  ratio: /(\d+(?:\.\d+)?)\s*(?:x\b|times\b|:\s*1(?:\.0+)?\b|to\s+1(?:\.0+)?\b)/gi,
+  percentage: /(\d+(?:\.\d+)?)\s*(?:%|percent\b|per cent\b)/gi,
+  amount: /\$\s*(\d[\d,]*(?:\.\d+)?)\s*(billion|bn|million|mm|thousand|[bmk])?\b/gi,
+  days: /\(?(\d+)\)?\s*(?:business\s+|calendar\s+)?days?\b/gi,
+};
+
+// Key term names the AI tends to use for each kind
+const AI_TERM_ALIASES: Record<NumericTermKind, string[]> = {
+  ratio: ["ratio", "multiple", "coverage"],
+  percentage: ["percentage", "percent", "ltv", "limit"],
+  amount: ["amount", "minimum", "maximum", "threshold"],
+  days: ["days", "curePeriod", "cure_period", "cureDays", "noticeDays"],
+};
+
+/**
+ * All numeric terms of each kind found in a piece of text, in order of appearance
+ */
+export function extractNumericTerms(text: string): Record<NumericTermKind, number[]> {
+  const found = {} as Record<NumericTermKind, number[]>;
+  for (const kind of NUMERIC_TERM_KINDS) {
+    found[kind] = Array.from(text.matchAll(TERM_PATTERNS[kind])).map(match => {
+      const value = parseFloat(match[1].replace(/,/g, ""));
+      return kind === "amount"
+        ? value * (AMOUNT_MULTIPLIERS[match[2]?.toLowerCase() ?? ""] ?? 1)
+        : value;
+    });
+  }
+  return found;
+}
+
+function parseKeyTerms(keyTerms: unknown): Array<{ name: string; kind: NumericTermKind }> {
+  const isKind = (value: unknown): value is NumericTermKind =>
+    typeof value === "string" && (NUMERIC_TERM_KINDS as string[]).includes(value);
+
+  if (Array.isArray(keyTerms)) {
+    return keyTerms.filter(isKind).map(kind => ({ name: kind, kind }));
+  }
+  if (keyTerms && typeof keyTerms === "object") {
+    return Object.entries(keyTerms)
+      .filter((entry): entry is [string, NumericTermKind] => isKind(entry[1]))
+      .map(([name, kind]) => ({ name, kind }));
+  }
+  return [];
+}
+
+function compileTemplatePattern(template: LegalClauseTemplate): RegExp | null {
+  if (!template.patternRegex) return null;
+  try {
+    return new RegExp(template.patternRegex, "gi");
+  } catch (error) {
+    console.warn(`Invalid patternRegex on clause template ${template.id} (${template.clauseName}):`, error);
+    return null;
+  }
+}
+
+// Page from the "--- Page N ---" markers written during PDF text extraction
+function pageAt(text: string, index: number): number | null {
+  const markers = Array.from(text.slice(0, index).matchAll(/--- Page (\d+) ---/g));
+  return markers.length > 0 ? parseInt(markers[markers.length - 1][1], 10) : null;
+}
+
+// Nearest preceding section heading such as "7.1(a)" or "Section 7.1"
+function sectionAt(text: string, index: number): string | null {
+  const preceding = text.slice(Math.max(0, index - 2000), index);
+  const headings = Array.from(preceding.matchAll(/(?:^|\n)\s*(?:Section\s+)?(\d+(?:\.\d+)+(?:\([a-z0-9]+\))*)/gi));
+  return headings.length > 0 ? headings[headings.length - 1][1] : null;
+}
+
+// Widen a match to its surrounding sentence, stopping at paragraph breaks
+function clauseTextAround(text: string, start: number, end: number): string {
+  const windowStart = Math.max(0, start - MAX_CLAUSE_LENGTH / 2);
+  const before = text.slice(windowStart, start);
+  const boundary = Math.max(before.lastIndexOf(". "), before.lastIndexOf(".\n"), before.lastIndexOf("\n\n"));
+  const from = boundary >= 0 ? windowStart + boundary + 2 : windowStart;
+
+  const after = text.slice(end, from + MAX_CLAUSE_LENGTH);
+  const stop = after.search(/\.(?=\s)|\n\n/);
+  const to = stop >= 0 ? end + stop + 1 : end + after.length;
+
+  return text.slice(from, to)
+    .replace(/--- Page \d+ ---/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Run clause templates over document text
+ */
+export function matchClauseTemplates(documentText: string, templates: LegalClauseTemplate[]): ClauseMatch[] {
+  const matches: ClauseMatch[] = [];
+
+  for (const template of templates) {
+    const pattern = compileTemplatePattern(template);
+    if (!pattern) continue;
+
+    const keyTerms = parseKeyTerms(template.keyTerms);
+    const seen = new Set<string>();
+    let count = 0;
+
+    for (const match of Array.from(documentText.matchAll(pattern))) {
+      if (count >= MAX_MATCHES_PER_TEMPLATE) break;
+      const start = match.index ?? 0;
+      const clauseText = clauseTextAround(documentText, start, start + match[0].length);
+      if (!clauseText || seen.has(clauseText)) continue;
+      seen.add(clauseText);
+      count++;
+
+      // Take each term from the clause; kinds repeat in order (e.g. two "days" terms)
+      const found = extractNumericTerms(clauseText);
+      const used: Record<NumericTermKind, number> = { ratio: 0, percentage: 0, amount: 0, days: 0 };
+      const terms: Record<string, number> = {};
+      for (const { name, kind } of keyTerms) {
+        const value = found[kind][used[kind]++];
+        if (value !== undefined) terms[name] = value;
+      }
+
+      const sectionNumber = sectionAt(documentText, start);
+      const termCoverage = keyTerms.length > 0 ? Object.keys(terms).length / keyTerms.length : 1;
+      const score = Math.round(50 + termCoverage * 40 + (sectionNumber ? 10 : 0));
+
+      matches.push({
+        templateId: template.id,
+        clauseType: template.clauseType,
+        clauseName: template.clauseName,
+        severity: template.severity,
+        clauseText,
+        pageNumber: pageAt(documentText, start),
+        sectionNumber,
+        terms,
+        score,
+      });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z]{3,}|\d+(?:\.\d+)?/g) ?? []);
+}
+
+export function textSimilarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = Array.from(left).filter(word => right.has(word)).length;
+  return shared / Math.min(left.size, right.size);
+}
+
+function sameValue(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * VALUE_TOLERANCE;
+}
+
+function aiTermValue(clause: AiClause, kind: NumericTermKind): number | null {
+  for (const alias of AI_TERM_ALIASES[kind]) {
+    const value = clause.keyTerms?.[alias];
+    if (typeof value === "number" && isFinite(value)) return value;
+    if (typeof value === "string" && /\d/.test(value)) {
+      const parsed = extractNumericTerms(value)[kind][0] ?? parseFloat(value.replace(/[^\d.]/g, ""));
+      if (isFinite(parsed)) return parsed;
+    }
+  }
+  return extractNumericTerms(clause.sourceText ?? "")[kind][0] ?? null;
+}
+
+function compareFindings(ai: AiClause, pattern: ClauseMatch, kinds: Map<string, NumericTermKind>): string[] {
+  const disagreements: string[] = [];
+
+  for (const [name, value] of Object.entries(pattern.terms)) {
+    const kind = kinds.get(name);
+    if (!kind) continue;
+    const aiValue = aiTermValue(ai, kind);
+    if (aiValue === null) {
+      disagreements.push(`${name}: pattern match found ${value}, AI extraction did not report it`);
+    } else if (!sameValue(aiValue, value) && !(kind === "percentage" && sameValue(aiValue * 100, value))) {
+      disagreements.push(`${name}: AI extraction ${aiValue}, pattern match ${value}`);
+    }
+  }
+
+  if (ai.pageNumber && pattern.pageNumber && ai.pageNumber !== pattern.pageNumber) {
+    disagreements.push(`page: AI extraction ${ai.pageNumber}, pattern match ${pattern.pageNumber}`);
+  }
+
+  return disagreements;
+}
+
+/**
+ * Merge AI-extracted clauses with pattern matches. Each pattern match pairs with at
+ * most one AI clause (the same clause name on the same page, or else the most
+ * similar text). Pairs are taken best-first across all matches, so a loosely similar
+ * match can't claim an AI clause that another match names exactly. Pass aiClauses
+ * as null when AI extraction did not run, so unpaired pattern matches are not
+ * flagged as missed by the AI.
+ */
+export function mergeClauseFindings(
+  aiClauses: AiClause[] | null,
+  patternMatches: ClauseMatch[],
+  templates: LegalClauseTemplate[]
+): MergedClauseFinding[] {
+  const termKinds = new Map(templates.map(t => [t.id, new Map(parseKeyTerms(t.keyTerms).map(k => [k.name, k.kind]))]));
+  const findings: MergedClauseFinding[] = [];
+
+  const candidates: Array<{ match: ClauseMatch; clause: AiClause; score: number }> = [];
+  for (const match of patternMatches) {
+    for (const clause of aiClauses ?? []) {
+      let score = textSimilarity(clause.sourceText || clause.description || "", match.clauseText);
+      const sameName = clause.clauseName?.toLowerCase() === match.clauseName.toLowerCase();
+      if (sameName && (!clause.pageNumber || !match.pageNumber || clause.pageNumber === match.pageNumber)) {
+        score += 1; // Ranks ahead of any text-only pairing
+      }
+      if (score >= SAME_CLAUSE_SIMILARITY) candidates.push({ match, clause, score });
+    }
+  }
+
+  const pairs = new Map<ClauseMatch, AiClause>();
+  const pairedAi = new Set<AiClause>();
+  for (const { match, clause } of candidates.sort((a, b) => b.score - a.score)) {
+    if (pairs.has(match) || pairedAi.has(clause)) continue;
+    pairs.set(match, clause);
+    pairedAi.add(clause);
+  }
+
+  for (const match of patternMatches) {
+    const ai = pairs.get(match);
+    if (!ai) {
+      findings.push({
+        source: "pattern",
+        templateId: match.templateId,
+        clauseType: match.clauseType,
+        clauseName: match.clauseName,
+        description: null,
+        severity: match.severity,
+        clauseText: match.clauseText,
+        pageNumber: match.pageNumber,
+        sectionNumber: match.sectionNumber,
+        keyTerms: { ...match.terms },
+        confidence: match.score,
+        disagreements: aiClauses ? ["Not reported by AI extraction"] : [],
+      });
+      continue;
+    }
+
+    findings.push({
+      source: "ai_and_pattern",
+      templateId: match.templateId,
+      clauseType: ai.clauseType || match.clauseType,
+      clauseName: ai.clauseName ?? match.clauseName,
+      description: ai.description ?? null,
+      severity: ai.severity ?? match.severity,
+      clauseText: ai.sourceText || match.clauseText,
+      pageNumber: ai.pageNumber ?? match.pageNumber,
+      sectionNumber: ai.sectionNumber ?? match.sectionNumber,
+      keyTerms: { ...match.terms, ...ai.keyTerms },
+      confidence: match.score,
+      disagreements: compareFindings(ai, match, termKinds.get(match.templateId) ?? new Map()),
+    });
+  }
+
+  for (const ai of (aiClauses ?? []).filter(clause => !pairedAi.has(clause))) {
+    findings.push({
+      source: "ai",
+      templateId: null,
+      clauseType: ai.clauseType,
+      clauseName: ai.clauseName ?? null,
+      description: ai.description ?? null,
+      severity: ai.severity ?? null,
+      clauseText: ai.sourceText || ai.description || "",
+      pageNumber: Number.isInteger(ai.pageNumber) ? ai.pageNumber! : null,
+      sectionNumber: ai.sectionNumber ?? null,
+      keyTerms: { ...ai.keyTerms },
+      confidence: null,
+      disagreements: [],
+    });
+  }
+
+  return findings;
+}
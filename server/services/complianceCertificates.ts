@@ -0,0 +1,608 @@
+/**
+ * Compliance Certificate Service
+ * Takes the GP's quarterly compliance certificate as structured data, recomputes every
+ * figure from our own records, and runs operations sign-off. Approval re-tests the
+ * covenants at the certified values (unless a later test has superseded the period) and
+ * archives the certificate as a generated document.
+ */
+
+import { type Request } from "express";
+import { db } from "../db";
+import {
+  complianceCertificates,
+  facilities,
+  covenants,
+  covenantTests,
+  generatedDocuments,
+  notifications,
+  users,
+  type ComplianceCertificate,
+  type Covenant,
+  type Facility,
+} from "@shared/schema";
+import { and, eq, gt, inArray, or, desc } from "drizzle-orm";
+import {
+  evaluateCovenantValue,
+  loadCovenantContext,
+  isCashHolding,
+  CovenantFormulaError,
+  type CovenantFormulaContext,
+} from "./covenantFormula";
+import { checkCovenant, type CovenantCheckResult } from "./covenantMonitoring";
+import {
+  calculateBorrowingBase,
+  loadBorrowingBaseHoldings,
+  resolveBorrowingBaseTerms,
+  type BorrowingBaseHolding,
+  type BorrowingBaseTerms,
+} from "./borrowingBase";
+import { createAuditLog, AuditActions, EntityTypes } from "../auditLogger";
+
+// Reported figures within this share of our recomputed figure count as matching
+export const MATCH_TOLERANCE_PERCENT = 0.5;
+
+export interface CertificateSubmission {
+  periodEnd: Date;
+  reportedNav: number;
+  reportedBorrowingBase?: number;
+  holdings: Array<{ companyId?: string; companyName: string; fairValue: number }>;
+  covenants?: Array<{ covenantId: string; reportedValue: number }>; // Stored covenant units
+  attestation: { officerName: string; officerTitle: string; statement: string };
+}
+
+export type FigureStatus = "match" | "mismatch" | "not_reported" | "not_recomputed" | "not_on_record";
+
+export interface VerifiedFigure {
+  kind: "nav" | "holding" | "covenant" | "borrowing_base";
+  key: string; // Company or covenant id, or the figure name
+  label: string;
+  reported: number | null;
+  computed: number | null;
+  difference: number | null; // Reported minus computed
+  status: FigureStatus;
+  note?: string;
+}
+
+export interface CertificateVerification {
+  verifiedAt: Date;
+  figures: VerifiedFigure[];
+  mismatchCount: number;
+}
+
+export interface CertificateTemplate {
+  holdings: Array<{ companyId: string; companyName: string; fairValue: number }>;
+  covenants: Array<{ covenantId: string; covenantType: string; thresholdOperator: string; thresholdValue: number }>;
+}
+
+type ReviewResult =
+  | { success: true; certificate: ComplianceCertificate; covenantChecks: CovenantCheckResult[] }
+  | { success: false; status: number; error: string; message?: string };
+
+/**
+ * Draft for the GP's form: active holdings at their latest mark on record and the covenants to certify
+ */
+export async function buildCertificateTemplate(facilityId: string): Promise<CertificateTemplate> {
+  const onRecord = await loadBorrowingBaseHoldings({ facilityId });
+  const facilityCovenants = await db.select()
+    .from(covenants)
+    .where(eq(covenants.facilityId, facilityId));
+
+  return {
+    holdings: onRecord
+      .filter(h => h.status === "active")
+      .map(h => ({ companyId: h.companyId, companyName: h.companyName, fairValue: h.value })),
+    covenants: facilityCovenants.map(c => ({
+      covenantId: c.id,
+      covenantType: c.covenantType,
+      thresholdOperator: c.thresholdOperator,
+      thresholdValue: c.thresholdValue,
+    })),
+  };
+}
+
+function compareFigure(
+  base: Omit<VerifiedFigure, "difference" | "status">
+): VerifiedFigure {
+  const { reported, computed } = base;
+  if (reported === null) {
+    return { ...base, difference: null, status: "not_reported" };
+  }
+  if (computed === null) {
+    return { ...base, difference: null, status: "not_recomputed" };
+  }
+  const difference = reported - computed;
+  const tolerance = Math.max(1, Math.abs(computed) * MATCH_TOLERANCE_PERCENT / 100);
+  return { ...base, difference, status: Math.abs(difference) <= tolerance ? "match" : "mismatch" };
+}
+
+function matchCompany(
+  reported: CertificateSubmission["holdings"][number],
+  onRecord: BorrowingBaseHolding[]
+): BorrowingBaseHolding | undefined {
+  if (reported.companyId) {
+    const byId = onRecord.find(h => h.companyId === reported.companyId);
+    if (byId) return byId;
+  }
+  const name = reported.companyName.trim().toLowerCase();
+  return onRecord.find(h => h.companyName.trim().toLowerCase() === name);
+}
+
+/**
+ * Formula inputs restated on the certificate's holdings, so covenant values are recomputed
+ * on the figures the GP is certifying rather than on whatever NAV we last recorded
+ */
+function certifiedContext(
+  base: CovenantFormulaContext,
+  holdings: Array<{ companyName: string; sector: string | null; fairValue: number }>,
+  nav: number
+): CovenantFormulaContext {
+  let cash = 0;
+  let holdingsValue = 0;
+  let holdingsCount = 0;
+  let topHolding = 0;
+  const bySector = new Map<string, number>();
+
+  for (const holding of holdings) {
+    if (isCashHolding(holding)) {
+      cash += holding.fairValue;
+      continue;
+    }
+    holdingsValue += holding.fairValue;
+    holdingsCount++;
+    topHolding = Math.max(topHolding, holding.fairValue);
+    const sector = holding.sector || "Unknown";
+    bySector.set(sector, (bySector.get(sector) ?? 0) + holding.fairValue);
+  }
+
+  return {
+    ...base,
+    nav,
+    holdings_value: holdingsValue,
+    holdings_count: holdingsCount,
+    top_holding_value: topHolding,
+    top_sector_value: Math.max(0, ...Array.from(bySector.values())),
+    cash,
+    ltv_ratio: nav > 0 ? Math.round(base.outstanding_balance / nav * 100) : base.ltv_ratio,
+  };
+}
+
+/**
+ * Compare each figure on the certificate with our records: holdings marked at period end,
+ * the facility's covenants and formula inputs, and the NAV added by equity cures in force
+ * for each covenant
+ */
+export function recomputeCertificate(params: {
+  facility: Facility;
+  submission: CertificateSubmission;
+  onRecord: BorrowingBaseHolding[];
+  covenants: Covenant[];
+  baseContext: CovenantFormulaContext;
+  cureAmounts: Map<string, number>;
+}): CertificateVerification {
+  const { facility, submission, onRecord, baseContext } = params;
+  const figures: VerifiedFigure[] = [];
+
+  // NAV must foot to the holdings schedule
+  const holdingsTotal = submission.holdings.reduce((sum, h) => sum + h.fairValue, 0);
+  figures.push(compareFigure({
+    kind: "nav",
+    key: "nav",
+    label: "NAV (sum of holdings schedule)",
+    reported: submission.reportedNav,
+    computed: holdingsTotal,
+  }));
+
+  // Each holding against the latest mark on record at period end
+  const matched = new Set<string>();
+  const certifiedHoldings: Array<BorrowingBaseHolding & { fairValue: number }> = [];
+  for (const reported of submission.holdings) {
+    const company = matchCompany(reported, onRecord);
+    if (company) matched.add(company.companyId);
+    figures.push(company
+      ? compareFigure({
+        kind: "holding",
+        key: company.companyId,
+        label: company.companyName,
+        reported: reported.fairValue,
+        computed: company.value,
+      })
+      : {
+        kind: "holding",
+        key: reported.companyId ?? reported.companyName,
+        label: reported.companyName,
+        reported: reported.fairValue,
+        computed: null,
+        difference: null,
+        status: "not_on_record",
+        note: "Holding is not in the facility's portfolio on record",
+      });
+    certifiedHoldings.push({
+      companyId: company?.companyId ?? reported.companyId ?? reported.companyName,
+      companyName: company?.companyName ?? reported.companyName,
+      sector: company?.sector ?? null,
+      assetClass: company?.assetClass ?? null,
+      status: company?.status ?? "active",
+      isListed: company?.isListed ?? false,
+      value: reported.fairValue,
+      fairValue: reported.fairValue,
+    });
+  }
+  for (const company of onRecord) {
+    if (!matched.has(company.companyId) && company.status === "active" && company.value > 0) {
+      figures.push({
+        kind: "holding",
+        key: company.companyId,
+        label: company.companyName,
+        reported: null,
+        computed: company.value,
+        difference: null,
+        status: "not_reported",
+        note: "Active holding on record is missing from the certificate",
+      });
+    }
+  }
+
+  // Covenants recomputed on the certified figures
+  const context = certifiedContext(baseContext, certifiedHoldings, submission.reportedNav);
+
+  for (const covenant of params.covenants) {
+    const reported = submission.covenants?.find(c => c.covenantId === covenant.id);
+    figures.push(compareFigure({
+      kind: "covenant",
+      key: covenant.id,
+      label: covenant.covenantType,
+      reported: reported?.reportedValue ?? null,
+      computed: recomputeCovenant(covenant, context, params.cureAmounts.get(covenant.id) ?? 0),
+    }));
+  }
+
+  // Borrowing base on the certified holdings under the facility's terms
+  const terms = resolveBorrowingBaseTerms(facility.borrowingBaseTerms as Partial<BorrowingBaseTerms> | null);
+  figures.push(compareFigure({
+    kind: "borrowing_base",
+    key: "borrowing_base",
+    label: "Borrowing base",
+    reported: submission.reportedBorrowingBase ?? null,
+    computed: calculateBorrowingBase(certifiedHoldings, terms).borrowingBase,
+  }));
+
+  return {
+    verifiedAt: new Date(),
+    figures,
+    // Holdings left off the schedule count against the certificate; unreported covenants don't
+    mismatchCount: figures.filter(f =>
+      f.status === "mismatch" || f.status === "not_on_record" || (f.kind === "holding" && f.status === "not_reported")
+    ).length,
+  };
+}
+
+/**
+ * Recompute the certificate's NAV, holdings, covenant values and borrowing base from our
+ * records and compare each with what the GP reported
+ */
+export async function verifyCertificate(
+  facility: Facility,
+  submission: CertificateSubmission
+): Promise<CertificateVerification> {
+  // Marks on record for the certified period, not whatever has been reported since
+  const onRecord = await loadBorrowingBaseHoldings({ facilityId: facility.id }, { asOf: submission.periodEnd });
+  const facilityCovenants = await db.select()
+    .from(covenants)
+    .where(eq(covenants.facilityId, facility.id));
+  const baseContext = await loadCovenantContext(facility.id, { asOf: submission.periodEnd });
+
+  const cureAmounts = new Map<string, number>();
+  for (const covenant of facilityCovenants.filter(c => c.formula)) {
+    const withCures = await loadCovenantContext(facility.id, { covenantId: covenant.id, asOf: submission.periodEnd });
+    cureAmounts.set(covenant.id, withCures.nav - baseContext.nav);
+  }
+
+  return recomputeCertificate({
+    facility,
+    submission,
+    onRecord,
+    covenants: facilityCovenants,
+    baseContext,
+    cureAmounts,
+  });
+}
+
+// Formula covenants only; equity cures in force carry over onto the certified NAV
+function recomputeCovenant(
+  covenant: Covenant,
+  context: CovenantFormulaContext,
+  cureAmount: number
+): number | null {
+  if (!covenant.formula) return null;
+
+  try {
+    return evaluateCovenantValue(covenant.formula, {
+      ...context,
+      nav: context.nav + cureAmount,
+      cash: context.cash + cureAmount,
+    });
+  } catch (error) {
+    if (error instanceof CovenantFormulaError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function notifyUsers(
+  userIds: string[],
+  certificate: ComplianceCertificate,
+  notification: { type: string; title: string; message: string; priority: "low" | "normal" | "high" | "urgent" }
+) {
+  if (userIds.length === 0) return;
+
+  await db.insert(notifications).values(userIds.map(userId => ({
+    userId,
+    ...notification,
+    relatedEntityType: "compliance_certificate",
+    relatedEntityId: certificate.id,
+    actionUrl: `/facilities/${certificate.facilityId}`,
+  })));
+}
+
+/**
+ * Record a GP's certificate with its verification and route it to operations for sign-off
+ */
+export async function submitComplianceCertificate(
+  facility: Facility,
+  submission: CertificateSubmission,
+  user: Express.User,
+  req?: Request
+): Promise<ComplianceCertificate> {
+  const verification = await verifyCertificate(facility, submission);
+
+  const [certificate] = await db.insert(complianceCertificates)
+    .values({
+      facilityId: facility.id,
+      periodEnd: submission.periodEnd,
+      status: "submitted",
+      reportedNav: submission.reportedNav,
+      reportedBorrowingBase: submission.reportedBorrowingBase ?? null,
+      reportedHoldings: submission.holdings,
+      reportedCovenants: submission.covenants ?? [],
+      attestation: { ...submission.attestation, attestedAt: new Date() },
+      verification,
+      mismatchCount: verification.mismatchCount,
+      submittedBy: user.id,
+    })
+    .returning();
+
+  await createAuditLog({
+    userId: user.id,
+    userRole: user.role,
+    action: AuditActions.SUBMIT_COMPLIANCE_CERTIFICATE,
+    entityType: EntityTypes.COMPLIANCE_CERTIFICATE,
+    entityId: certificate.id,
+    changes: {
+      facilityId: facility.id,
+      periodEnd: submission.periodEnd,
+      reportedNav: submission.reportedNav,
+      mismatchCount: verification.mismatchCount,
+    },
+    req,
+  });
+
+  const opsUsers = await db.select({ id: users.id })
+    .from(users)
+    .where(or(eq(users.role, "operations"), eq(users.role, "admin")));
+
+  await notifyUsers(opsUsers.map(u => u.id), certificate, {
+    type: "compliance_certificate_submitted",
+    title: "Compliance Certificate Submitted",
+    message: `${facility.fundName} submitted its compliance certificate for ${submission.periodEnd.toISOString().slice(0, 10)}` +
+      (verification.mismatchCount > 0 ? ` with ${verification.mismatchCount} mismatch(es)` : ""),
+    priority: verification.mismatchCount > 0 ? "high" : "normal",
+  });
+
+  return certificate;
+}
+
+function formatAmount(value: number | null): string {
+  return value === null ? "—" : `$${value.toLocaleString("en-US")}`;
+}
+
+function renderCertificateMarkdown(
+  facility: Facility,
+  certificate: ComplianceCertificate,
+  reviewer: Express.User
+): string {
+  const verification = certificate.verification as CertificateVerification;
+  const attestation = certificate.attestation as CertificateSubmission["attestation"] & { attestedAt: string };
+  const periodEnd = certificate.periodEnd.toISOString().slice(0, 10);
+
+  const row = (figure: VerifiedFigure) => {
+    const isAmount = figure.kind !== "covenant";
+    const format = (value: number | null) => isAmount ? formatAmount(value) : value === null ? "—" : String(value);
+    return `| ${figure.label} | ${format(figure.reported)} | ${format(figure.computed)} | ${figure.status.replace(/_/g, " ")} |`;
+  };
+
+  return [
+    `# Compliance Certificate — ${facility.fundName}`,
+    "",
+    `**Period end:** ${periodEnd}  `,
+    `**Reported NAV:** ${formatAmount(certificate.reportedNav)}  `,
+    `**Approved by:** ${reviewer.email ?? reviewer.id} on ${new Date().toISOString().slice(0, 10)}`,
+    "",
+    "## Figures",
+    "",
+    "| Figure | Reported | Recomputed | Status |",
+    "| --- | ---: | ---: | --- |",
+    ...verification.figures.map(row),
+    "",
+    "## Officer Attestation",
+    "",
+    `${attestation.statement}`,
+    "",
+    `— ${attestation.officerName}, ${attestation.officerTitle} (${String(attestation.attestedAt).slice(0, 10)})`,
+    ...(certificate.reviewComments ? ["", "## Review Comments", "", certificate.reviewComments] : []),
+  ].join("\n");
+}
+
+/**
+ * Operations sign-off. Approving re-tests each covenant at its certified value (our
+ * recomputation where there is one, the GP's figure otherwise) and archives the
+ * certificate; approving with mismatches requires comments.
+ */
+export async function reviewComplianceCertificate(
+  id: string,
+  user: Express.User,
+  decision: { decision: "approve" | "reject"; comments?: string },
+  req?: Request
+): Promise<ReviewResult> {
+  const [certificate] = await db.select()
+    .from(complianceCertificates)
+    .where(eq(complianceCertificates.id, id))
+    .limit(1);
+
+  if (!certificate) {
+    return { success: false, status: 404, error: "Compliance certificate not found" };
+  }
+
+  if (certificate.status !== "submitted") {
+    return {
+      success: false,
+      status: 409,
+      error: "Compliance certificate is not awaiting review",
+      message: `Compliance certificate is ${certificate.status}`,
+    };
+  }
+
+  if (decision.decision === "approve" && certificate.mismatchCount > 0 && !decision.comments?.trim()) {
+    return {
+      success: false,
+      status: 400,
+      error: "Comments are required to approve a certificate with mismatches",
+    };
+  }
+
+  const [facility] = await db.select()
+    .from(facilities)
+    .where(eq(facilities.id, certificate.facilityId))
+    .limit(1);
+
+  if (!facility) {
+    return { success: false, status: 404, error: "Facility not found" };
+  }
+
+  const now = new Date();
+  const status = decision.decision === "approve" ? "approved" : "rejected";
+
+  // Claim the submitted certificate and archive it in one step, so a repeated or
+  // concurrent decision can't re-test covenants or archive it twice
+  const updated = await db.transaction(async (tx) => {
+    const [claimed] = await tx.update(complianceCertificates)
+      .set({
+        status,
+        reviewedBy: user.id,
+        reviewedAt: now,
+        reviewComments: decision.comments ?? null,
+        updatedAt: now,
+      })
+      .where(and(eq(complianceCertificates.id, id), eq(complianceCertificates.status, "submitted")))
+      .returning();
+    if (!claimed || decision.decision !== "approve") return claimed ?? null;
+
+    const [document] = await tx.insert(generatedDocuments)
+      .values({
+        facilityId: facility.id,
+        documentType: "compliance_certificate",
+        title: `Compliance Certificate — ${facility.fundName} — ${certificate.periodEnd.toISOString().slice(0, 10)}`,
+        content: renderCertificateMarkdown(facility, claimed, user),
+        templateConfig: { complianceCertificateId: certificate.id },
+        format: "markdown",
+        generatedBy: user.id,
+      })
+      .returning({ id: generatedDocuments.id });
+
+    const [archived] = await tx.update(complianceCertificates)
+      .set({ generatedDocumentId: document.id })
+      .where(eq(complianceCertificates.id, id))
+      .returning();
+    return archived;
+  });
+
+  if (!updated) {
+    const [current] = await db.select({ status: complianceCertificates.status })
+      .from(complianceCertificates)
+      .where(eq(complianceCertificates.id, id))
+      .limit(1);
+    return {
+      success: false,
+      status: 409,
+      error: "Compliance certificate was reviewed by another request",
+      message: `Compliance certificate is ${current?.status ?? "no longer available"}`,
+    };
+  }
+
+  const generatedDocumentId = updated.generatedDocumentId;
+  const covenantChecks: CovenantCheckResult[] = [];
+
+  if (decision.decision === "approve") {
+    const verification = certificate.verification as CertificateVerification;
+    const covenantFigures = verification.figures.filter(f => f.kind === "covenant");
+
+    // A covenant tested after the period end already carries a newer value than the certificate
+    const superseded = covenantFigures.length > 0
+      ? await db.selectDistinct({ covenantId: covenantTests.covenantId })
+        .from(covenantTests)
+        .where(and(
+          inArray(covenantTests.covenantId, covenantFigures.map(f => f.key)),
+          gt(covenantTests.testDate, certificate.periodEnd)
+        ))
+      : [];
+    const supersededIds = new Set(superseded.map(t => t.covenantId));
+
+    for (const figure of covenantFigures) {
+      const value = figure.computed ?? figure.reported;
+      if (value === null || supersededIds.has(figure.key)) continue;
+      covenantChecks.push(await checkCovenant(figure.key, value, user.id));
+    }
+  }
+
+  await createAuditLog({
+    userId: user.id,
+    userRole: user.role,
+    action: decision.decision === "approve"
+      ? AuditActions.APPROVE_COMPLIANCE_CERTIFICATE
+      : AuditActions.REJECT_COMPLIANCE_CERTIFICATE,
+    entityType: EntityTypes.COMPLIANCE_CERTIFICATE,
+    entityId: id,
+    changes: {
+      fromStatus: certificate.status,
+      toStatus: status,
+      mismatchCount: certificate.mismatchCount,
+      comments: decision.comments,
+      generatedDocumentId,
+      covenantsChecked: covenantChecks.length,
+    },
+    req,
+  });
+
+  await notifyUsers([certificate.submittedBy], updated, {
+    type: "compliance_certificate_status_change",
+    title: `Compliance Certificate ${status}`,
+    message: `Your compliance certificate for ${certificate.periodEnd.toISOString().slice(0, 10)} has been ${status} by ${user.email}`,
+    priority: status === "rejected" ? "high" : "normal",
+  });
+
+  return { success: true, certificate: updated, covenantChecks };
+}
+
+export async function getFacilityComplianceCertificates(facilityId: string): Promise<ComplianceCertificate[]> {
+  return await db.select()
+    .from(complianceCertificates)
+    .where(eq(complianceCertificates.facilityId, facilityId))
+    .orderBy(desc(complianceCertificates.periodEnd), desc(complianceCertificates.createdAt));
+}
+
+export async function getComplianceCertificatesByStatus(status: string): Promise<ComplianceCertificate[]> {
+  return await db.select()
+    .from(complianceCertificates)
+    .where(eq(complianceCertificates.status, status))
+    .orderBy(desc(complianceCertificates.createdAt));
+}
@@ -0,0 +1,396 @@
+/**
+ * Covenant Formula Service
+ * A small arithmetic expression language for covenant definitions
+ * (e.g. `outstanding_balance / nav * 1000`), evaluated against facility, NAV,
+ * holdings and ledger data so covenant values are computed rather than typed in.
+ *
+ * Grammar: numbers, variables, + - * /, parentheses, unary minus and the
+ * functions min, max, abs and round. The formula is responsible for scaling the
+ * result into the covenant's stored units.
+ */
+
+import { db } from "../db";
+import {
+  facilities,
+  portfolioCompanies,
+  facilityLedgerEntries,
+  covenantEquityCures,
+} from "@shared/schema";
+import { eq, and, gt, lte, desc } from "drizzle-orm";
+import { getLatestFacilityNav } from "./facilityNav";
+
+// Context can be loaded inside a caller's transaction so rows it has just written count
+type FormulaTx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type FormulaDb = typeof db | FormulaTx;
+
+export const COVENANT_FORMULA_VARIABLES = {
+  outstanding_balance: "Outstanding principal",
+  commitment: "Facility commitment (principal amount)",
+  undrawn_commitment: "Commitment less outstanding principal",
+  nav: "Latest recorded NAV, or the sum of active holdings when none is recorded",
+  holdings_value: "Sum of active non-cash holdings",
+  holdings_count: "Number of active non-cash holdings",
+  top_holding_value: "Largest single non-cash holding",
+  top_sector_value: "Largest sector exposure (non-cash holdings)",
+  cash: "Cash and money market positions",
+  accrued_interest: "Accrued unpaid interest per the accrual ledger",
+  accrued_fees: "Accrued unpaid fees per the accrual ledger",
+  interest_rate_bps: "Current interest rate in basis points",
+  ltv_ratio: "Facility LTV (whole percent)",
+} as const;
+
+export type CovenantFormulaVariable = keyof typeof COVENANT_FORMULA_VARIABLES;
+export type CovenantFormulaContext = Record<CovenantFormulaVariable, number>;
+
+const FUNCTIONS: Record<string, { arity: [number, number]; apply: (args: number[]) => number }> = {
+  min: { arity: [2, Infinity], apply: (args) => Math.min(...args) },
+  max: { arity: [2, Infinity], apply: (args) => Math.max(...args) },
+  abs: { arity: [1, 1], apply: ([x]) => Math.abs(x) },
+  round: { arity: [1, 1], apply: ([x]) => Math.round(x) },
+};
+
+// Covenant values are stored as whole numbers; a result that loses more than this
+// fraction of itself to rounding (e.g. a raw 0.42 ratio) is in the wrong units
+const MAX_ROUNDING_LOSS = 0.1;
+
+// Holdings reported as cash by the fund administrator
+const CASH_HOLDING = /\b(cash|money market|treasur(y|ies))\b/i;
+
+export function isCashHolding(holding: { companyName: string; sector: string | null }): boolean {
+  return CASH_HOLDING.test(holding.companyName) || CASH_HOLDING.test(holding.sector ?? "");
+}
+
+export class CovenantFormulaError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position !== undefined ? `${message} at position ${position + 1}` : message);
+    this.name = "CovenantFormulaError";
+  }
+}
+
+type FormulaNode =
+  | { kind: "number"; value: number }
+  | { kind: "variable"; name: string; position: number }
+  | { kind: "unary"; operand: FormulaNode }
+  | { kind: "binary"; operator: "+" | "-" | "*" | "/"; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; name: string; args: FormulaNode[]; position: number };
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "identifier"; value: string; position: number }
+  | { type: "symbol"; value: string; position: number };
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = formula.slice(i).match(/^\d*\.?\d+(e[+-]?\d+)?/i);
+      if (!match) {
+        throw new CovenantFormulaError(`Invalid number`, i);
+      }
+      tokens.push({ type: "number", value: parseFloat(match[0]), position: i });
+      i += match[0].length;
+    } else if (/[a-z_]/i.test(char)) {
+      const match = formula.slice(i).match(/^[a-z_][a-z0-9_]*/i)!;
+      tokens.push({ type: "identifier", value: match[0].toLowerCase(), position: i });
+      i += match[0].length;
+    } else if ("+-*/(),".includes(char)) {
+      tokens.push({ type: "symbol", value: char, position: i });
+      i++;
+    } else {
+      throw new CovenantFormulaError(`Unexpected character "${char}"`, i);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a formula into an expression tree. Throws CovenantFormulaError on syntax errors.
+ */
+function parseFormula(formula: string): FormulaNode {
+  const tokens = tokenize(formula);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isSymbol = (value: string) => peek()?.type === "symbol" && peek()!.value === value;
+  const expectSymbol = (value: string) => {
+    const token = peek();
+    if (!token || token.type !== "symbol" || token.value !== value) {
+      throw new CovenantFormulaError(`Expected "${value}"`, token?.position ?? formula.length);
+    }
+    index++;
+  };
+
+  function parseExpression(): FormulaNode {
+    let node = parseTerm();
+    while (isSymbol("+") || isSymbol("-")) {
+      const operator = tokens[index++].value as "+" | "-";
+      node = { kind: "binary", operator, left: node, right: parseTerm() };
+    }
+    return node;
+  }
+
+  function parseTerm(): FormulaNode {
+    let node = parseFactor();
+    while (isSymbol("*") || isSymbol("/")) {
+      const operator = tokens[index++].value as "*" | "/";
+      node = { kind: "binary", operator, left: node, right: parseFactor() };
+    }
+    return node;
+  }
+
+  function parseFactor(): FormulaNode {
+    if (isSymbol("-")) {
+      index++;
+      return { kind: "unary", operand: parseFactor() };
+    }
+    if (isSymbol("+")) {
+      index++;
+      return parseFactor();
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): FormulaNode {
+    const token = peek();
+    if (!token) {
+      throw new CovenantFormulaError("Unexpected end of formula", formula.length);
+    }
+
+    if (token.type === "number") {
+      index++;
+      return { kind: "number", value: token.value };
+    }
+
+    if (token.type === "identifier") {
+      index++;
+      if (!isSymbol("(")) {
+        return { kind: "variable", name: token.value, position: token.position };
+      }
+
+      index++;
+      const args: FormulaNode[] = [];
+      if (!isSymbol(")")) {
+        args.push(parseExpression());
+        while (isSymbol(",")) {
+          index++;
+          args.push(parseExpression());
+        }
+      }
+      expectSymbol(")");
+      return { kind: "call", name: token.value, args, position: token.position };
+    }
+
+    if (token.value === "(") {
+      index++;
+      const node = parseExpression();
+      expectSymbol(")");
+      return node;
+    }
+
+    throw new CovenantFormulaError(`Unexpected "${token.value}"`, token.position);
+  }
+
+  if (tokens.length === 0) {
+    throw new CovenantFormulaError("Formula is empty");
+  }
+
+  const tree = parseExpression();
+  if (index < tokens.length) {
+    throw new CovenantFormulaError(`Unexpected "${tokens[index].value}"`, tokens[index].position);
+  }
+  return tree;
+}
+
+// Check variable and function names once the tree is built
+function checkNames(node: FormulaNode, variables: Set<string>): void {
+  switch (node.kind) {
+    case "variable":
+      if (!Object.prototype.hasOwnProperty.call(COVENANT_FORMULA_VARIABLES, node.name)) {
+        throw new CovenantFormulaError(`Unknown variable "${node.name}"`, node.position);
+      }
+      variables.add(node.name);
+      break;
+    case "call": {
+      const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+      if (!fn) {
+        throw new CovenantFormulaError(`Unknown function "${node.name}"`, node.position);
+      }
+      if (node.args.length < fn.arity[0] || node.args.length > fn.arity[1]) {
+        throw new CovenantFormulaError(`Wrong number of arguments to ${node.name}()`, node.position);
+      }
+      node.args.forEach(arg => checkNames(arg, variables));
+      break;
+    }
+    case "unary":
+      checkNames(node.operand, variables);
+      break;
+    case "binary":
+      checkNames(node.left, variables);
+      checkNames(node.right, variables);
+      break;
+  }
+}
+
+/**
+ * Validate a formula without evaluating it
+ */
+export function validateCovenantFormula(
+  formula: string
+): { valid: true; variables: CovenantFormulaVariable[] } | { valid: false; error: string } {
+  try {
+    const variables = new Set<string>();
+    checkNames(parseFormula(formula), variables);
+    return { valid: true, variables: Array.from(variables) as CovenantFormulaVariable[] };
+  } catch (error) {
+    if (error instanceof CovenantFormulaError) {
+      return { valid: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+function evaluateNode(node: FormulaNode, context: CovenantFormulaContext): number {
+  switch (node.kind) {
+    case "number":
+      return node.value;
+    case "variable":
+      return context[node.name as CovenantFormulaVariable];
+    case "unary":
+      return -evaluateNode(node.operand, context);
+    case "call":
+      return FUNCTIONS[node.name].apply(node.args.map(arg => evaluateNode(arg, context)));
+    case "binary": {
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+      switch (node.operator) {
+        case "+": return left + right;
+        case "-": return left - right;
+        case "*": return left * right;
+        case "/":
+          if (right === 0) {
+            throw new CovenantFormulaError("Division by zero");
+          }
+          return left / right;
+      }
+    }
+  }
+}
+
+/**
+ * Evaluate a formula against a context. Throws CovenantFormulaError on invalid
+ * formulas or division by zero (e.g. no NAV recorded yet).
+ */
+export function evaluateCovenantFormula(formula: string, context: CovenantFormulaContext): number {
+  const tree = parseFormula(formula);
+  checkNames(tree, new Set());
+  return evaluateNode(tree, context);
+}
+
+/**
+ * Evaluate a formula into a storable covenant value (whole covenant units). Throws
+ * CovenantFormulaError when the result isn't finite or isn't scaled into those units.
+ */
+export function evaluateCovenantValue(formula: string, context: CovenantFormulaContext): number {
+  const value = evaluateCovenantFormula(formula, context);
+  if (!Number.isFinite(value)) {
+    throw new CovenantFormulaError("Formula result is not a finite number");
+  }
+
+  const rounded = Math.round(value);
+  if (Math.abs(rounded - value) > Math.abs(value) * MAX_ROUNDING_LOSS) {
+    throw new CovenantFormulaError(
+      `Formula result ${Number(value.toPrecision(6))} is not in whole covenant units; scale it (e.g. * 1000 for tenths of a percent)`
+    );
+  }
+  return rounded;
+}
+
+/**
+ * Gather formula inputs for a facility. Equity cures made by and still in effect on
+ * the given date are added to NAV and cash when a covenant id is supplied.
+ */
+export async function loadCovenantContext(
+  facilityId: string,
+  options: { covenantId?: string; asOf?: Date } = {},
+  conn: FormulaDb = db
+): Promise<CovenantFormulaContext> {
+  const asOf = options.asOf ?? new Date();
+
+  const [facility] = await conn.select()
+    .from(facilities)
+    .where(eq(facilities.id, facilityId))
+    .limit(1);
+
+  if (!facility) {
+    throw new Error("Facility not found");
+  }
+
+  const holdings = await conn.select()
+    .from(portfolioCompanies)
+    .where(and(eq(portfolioCompanies.facilityId, facilityId), eq(portfolioCompanies.status, "active")));
+
+  let cash = 0;
+  let holdingsValue = 0;
+  let holdingsCount = 0;
+  let topHolding = 0;
+  const bySector = new Map<string, number>();
+
+  for (const holding of holdings) {
+    const value = holding.currentValue ?? 0;
+    if (isCashHolding(holding)) {
+      cash += value;
+      continue;
+    }
+    holdingsValue += value;
+    holdingsCount++;
+    topHolding = Math.max(topHolding, value);
+    const sector = holding.sector || "Unknown";
+    bySector.set(sector, (bySector.get(sector) ?? 0) + value);
+  }
+
+  const latestNav = await getLatestFacilityNav(facilityId);
+  let nav = latestNav?.navValue ?? holdingsValue + cash;
+
+  // Ledger position as of the test date, not any later accrual or payment
+  const [ledger] = await conn.select()
+    .from(facilityLedgerEntries)
+    .where(and(eq(facilityLedgerEntries.facilityId, facilityId), lte(facilityLedgerEntries.entryDate, asOf)))
+    .orderBy(desc(facilityLedgerEntries.entryDate), desc(facilityLedgerEntries.createdAt))
+    .limit(1);
+
+  if (options.covenantId) {
+    const cures = await conn.select({ amount: covenantEquityCures.amount })
+      .from(covenantEquityCures)
+      .where(and(
+        eq(covenantEquityCures.covenantId, options.covenantId),
+        lte(covenantEquityCures.cureDate, asOf),
+        gt(covenantEquityCures.appliesUntil, asOf)
+      ));
+    const cureAmount = cures.reduce((sum, c) => sum + c.amount, 0);
+    nav += cureAmount;
+    cash += cureAmount;
+  }
+
+  return {
+    outstanding_balance: facility.outstandingBalance,
+    commitment: facility.principalAmount,
+    undrawn_commitment: Math.max(facility.principalAmount - facility.outstandingBalance, 0),
+    nav,
+    holdings_value: holdingsValue,
+    holdings_count: holdingsCount,
+    top_holding_value: topHolding,
+    top_sector_value: Math.max(0, ...Array.from(bySector.values())),
+    cash,
+    accrued_interest: ledger?.accruedInterest ?? 0,
+    accrued_fees: ledger?.accruedFees ?? 0,
+    interest_rate_bps: facility.interestRate,
+    ltv_ratio: facility.ltvRatio,
+  };
+}
@@ -1,6 +1,19 @@
 import { db } from "../db";
-import { covenants, notifications, facilities } from "../../shared/schema";
-import { eq, and, lte, sql } from "drizzle-orm";
+import {
+  covenants,
+  covenantEquityCures,
+  notifications,
+  facilities,
+  users,
+  type Covenant,
+  type CovenantEquityCure,
+  type Facility,
+} from "../../shared/schema";
+import { eq, and, or, lte, gt, isNotNull } from "drizzle-orm";
+import { resolvePredictionsForBreach } from "./breachPrediction";
+import { evaluateCovenantValue, loadCovenantContext, CovenantFormulaError, type FormulaDb } from "./covenantFormula";
+import { getThresholdInForce, getActiveWaiver, recordCovenantTest } from "./covenantWaivers";
+import { emitWebhookEvent } from "./webhooks";
 
 export interface CovenantCheckResult {
   covenantId: string;
@@ -9,8 +22,14 @@ export interface CovenantCheckResult {
   currentValue: number;
   thresholdValue: number;
   breachDetected: boolean;
+  cureStatus: string | null;
+  cureDeadline: Date | null;
+  waiverId: string | null; // Approved waiver in force at the test
+  notificationSuppressed: boolean;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Calculate covenant status based on current value vs threshold
  */
@@ -77,14 +96,20 @@ async function createCovenantNotification(
     return;
   }
 
-  const isBreach = status === "breach";
-  const title = isBreach
-    ? `🚨 Covenant Breach Detected`
-    : `⚠️ Covenant Warning`;
+  const isBreach = status === "breach" || status === "cure_failed";
 
-  const message = isBreach
-    ? `URGENT: ${covenantType} covenant has been breached for facility ${facility.fundName}. Current value: ${currentValue}, Threshold: ${thresholdValue}. Immediate action required.`
-    : `Warning: ${covenantType} covenant is approaching breach threshold for facility ${facility.fundName}. Current value: ${currentValue}, Threshold: ${thresholdValue}.`;
+  let title: string;
+  let message: string;
+  if (status === "cure_failed") {
+    title = `🚨 Covenant Cure Period Expired`;
+    message = `URGENT: The cure period for the ${covenantType} covenant on facility ${facility.fundName} has expired with the breach uncured. Current value: ${currentValue}, Threshold: ${thresholdValue}. Event of default review required.`;
+  } else if (isBreach) {
+    title = `🚨 Covenant Breach Detected`;
+    message = `URGENT: ${covenantType} covenant has been breached for facility ${facility.fundName}. Current value: ${currentValue}, Threshold: ${thresholdValue}. Immediate action required.`;
+  } else {
+    title = `⚠️ Covenant Warning`;
+    message = `Warning: ${covenantType} covenant is approaching breach threshold for facility ${facility.fundName}. Current value: ${currentValue}, Threshold: ${thresholdValue}.`;
+  }
 
   const [notification] = await db.insert(notifications).values({
     userId,
@@ -132,54 +157,123 @@ export async function checkCovenant(
     throw new Error(`Covenant ${covenantId} not found`);
   }
 
+  const now = new Date();
   const previousStatus = covenant.status;
+  const threshold = await getThresholdInForce(covenant, now);
   const newStatus = calculateCovenantStatus(
     currentValue,
-    covenant.thresholdValue,
-    covenant.thresholdOperator
+    threshold.thresholdValue,
+    threshold.thresholdOperator
   );
 
   const breachDetected = newStatus === "breach" && previousStatus !== "breach";
   const warningDetected = newStatus === "warning" && previousStatus === "compliant";
 
-  // Calculate next check date based on frequency
-  const nextCheckDate = new Date();
-  switch (covenant.checkFrequency) {
-    case "monthly":
-      nextCheckDate.setMonth(nextCheckDate.getMonth() + 1);
-      break;
-    case "quarterly":
-      nextCheckDate.setMonth(nextCheckDate.getMonth() + 3);
-      break;
-    case "annual":
-      nextCheckDate.setFullYear(nextCheckDate.getFullYear() + 1);
-      break;
+  // Cure tracking: a new breach opens the cure period, a breach still standing at
+  // the deadline fails the cure, and a return to compliance closes it
+  let { breachDate, cureDeadline, cureStatus } = covenant;
+  let cureFailed = false;
+
+  if (breachDetected) {
+    breachDate = now;
+    cureDeadline = covenant.curePeriodDays > 0
+      ? new Date(now.getTime() + covenant.curePeriodDays * DAY_MS)
+      : null;
+    cureStatus = covenant.curePeriodDays > 0 ? "in_cure" : null;
+  } else if (newStatus === "breach") {
+    if (cureStatus === "in_cure" && cureDeadline && now >= cureDeadline) {
+      cureStatus = "cure_failed";
+      cureFailed = true;
+    }
+  } else if (previousStatus === "breach") {
+    const activeCures = await db.select({ id: covenantEquityCures.id })
+      .from(covenantEquityCures)
+      .where(and(
+        eq(covenantEquityCures.covenantId, covenantId),
+        lte(covenantEquityCures.cureDate, now),
+        gt(covenantEquityCures.appliesUntil, now)
+      ))
+      .limit(1);
+    cureStatus = activeCures.length > 0 ? "equity_cured" : "cured";
+    cureDeadline = null;
   }
 
+  // Breach alerts are held back while a waiver is in force or the breach is within
+  // its cure period; they go out once neither applies (breachNotified tracks this)
+  const waiver = newStatus === "breach" ? await getActiveWaiver(covenantId, now) : null;
+  const notificationSuppressed = newStatus === "breach" && (waiver !== null || cureStatus === "in_cure");
+  const notifyBreach = newStatus === "breach" && !cureFailed && !notificationSuppressed
+    && (breachDetected || !covenant.breachNotified);
+  const notifyCureFailed = cureFailed && waiver === null;
+
+  const nextCheckDate = getNextTestDate(covenant, now);
+
   // Update covenant in database
   await db
     .update(covenants)
     .set({
       currentValue,
       status: newStatus,
-      lastChecked: new Date(),
+      lastChecked: now,
       nextCheckDate,
-      breachNotified: breachDetected ? true : covenant.breachNotified,
-      updatedAt: new Date(),
+      breachDate,
+      cureDeadline,
+      cureStatus,
+      breachNotified: newStatus === "breach"
+        ? (covenant.breachNotified && !breachDetected) || notifyBreach || notifyCureFailed
+        : false,
+      updatedAt: now,
     })
     .where(eq(covenants.id, covenantId));
 
+  await recordCovenantTest({
+    covenant,
+    testDate: now,
+    value: currentValue,
+    threshold,
+    status: newStatus,
+    waiverId: waiver?.id ?? null,
+    notificationSuppressed,
+  });
+
+  // Record the outcome against any prediction whose horizon covers this breach
+  if (breachDetected) {
+    try {
+      const resolved = await resolvePredictionsForBreach(covenantId, new Date());
+      if (resolved > 0) {
+        console.log(`Resolved ${resolved} breach predictions for covenant ${covenantId}`);
+      }
+    } catch (error) {
+      console.error('Failed to resolve breach predictions:', error);
+    }
+
+    await emitWebhookEvent("covenant.breached", {
+      covenantId,
+      facilityId: covenant.facilityId,
+      covenantType: covenant.covenantType,
+      previousStatus,
+      currentValue,
+      thresholdValue: threshold.thresholdValue,
+      thresholdOperator: threshold.thresholdOperator,
+      breachDate: breachDate?.toISOString() ?? now.toISOString(),
+      cureDeadline: cureDeadline?.toISOString() ?? null,
+      waiverInForce: waiver !== null,
+    }, { facilityId: covenant.facilityId });
+  }
+
   // Create notification if status worsened
-  if (breachDetected || warningDetected) {
+  if (notifyBreach || warningDetected || notifyCureFailed) {
     await createCovenantNotification(
       covenant.facilityId,
       covenantId,
       covenant.covenantType,
-      newStatus,
+      notifyCureFailed ? "cure_failed" : newStatus,
       currentValue,
-      covenant.thresholdValue,
+      threshold.thresholdValue,
       userId
     );
+  } else if (notificationSuppressed && breachDetected) {
+    console.log(`Breach notification for covenant ${covenantId} held back (${waiver ? "waiver in force" : "cure period"})`);
   }
 
   console.log(
@@ -191,21 +285,119 @@ export async function checkCovenant(
     previousStatus,
     newStatus,
     currentValue,
-    thresholdValue: covenant.thresholdValue,
+    thresholdValue: threshold.thresholdValue,
     breachDetected,
+    cureStatus,
+    cureDeadline,
+    waiverId: waiver?.id ?? null,
+    notificationSuppressed,
   };
 }
 
 /**
- * Check all covenants that are due for review
- * This should be run on a schedule (e.g., daily cron job)
+ * Next test date after `from`: the next recurring test date when the covenant has
+ * them, otherwise one check period on from `from`
+ */
+export function getNextTestDate(
+  covenant: Pick<Covenant, "testDates" | "checkFrequency">,
+  from: Date = new Date()
+): Date {
+  const testDates = parseTestDates(covenant.testDates);
+
+  if (testDates.length > 0) {
+    const candidates = [from.getUTCFullYear(), from.getUTCFullYear() + 1].flatMap(year =>
+      testDates.map(({ month, day }) => new Date(Date.UTC(year, month - 1, day)))
+    );
+    return candidates
+      .filter(date => date > from)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+  }
+
+  const nextCheckDate = new Date(from);
+  switch (covenant.checkFrequency) {
+    case "monthly":
+      nextCheckDate.setMonth(nextCheckDate.getMonth() + 1);
+      break;
+    case "quarterly":
+      nextCheckDate.setMonth(nextCheckDate.getMonth() + 3);
+      break;
+    case "annual":
+      nextCheckDate.setFullYear(nextCheckDate.getFullYear() + 1);
+      break;
+  }
+  return nextCheckDate;
+}
+
+/**
+ * Parse recurring test dates stored as 'MM-DD'. Invalid entries are dropped.
+ */
+export function parseTestDates(value: unknown): Array<{ month: number; day: number }> {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap(entry => {
+    const match = typeof entry === "string" ? entry.match(/^(\d{2})-(\d{2})$/) : null;
+    if (!match) return [];
+    const month = Number(match[1]);
+    const day = Number(match[2]);
+    // Validate against a leap year so 02-29 is accepted
+    const date = new Date(Date.UTC(2024, month - 1, day));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return [];
+    return [{ month, day }];
+  });
+}
+
+/**
+ * Current value of a covenant: computed from its formula when it has one, otherwise
+ * the last value entered. Returns null when there is nothing to test against.
+ */
+export async function computeCovenantValue(
+  covenant: Covenant,
+  asOf: Date = new Date(),
+  conn: FormulaDb = db
+): Promise<number | null> {
+  if (!covenant.formula) {
+    return covenant.currentValue;
+  }
+
+  const context = await loadCovenantContext(covenant.facilityId, { covenantId: covenant.id, asOf }, conn);
+  try {
+    return evaluateCovenantValue(covenant.formula, context);
+  } catch (error) {
+    if (error instanceof CovenantFormulaError) {
+      console.warn(`Covenant ${covenant.id} formula could not be evaluated: ${error.message}`);
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * User who receives automated covenant alerts: the first operations or admin user,
+ * falling back to the facility's GP
+ */
+export async function resolveCovenantAlertUserId(facility: Facility): Promise<string | null> {
+  const [opsUser] = await db.select({ id: users.id })
+    .from(users)
+    .where(or(eq(users.role, "operations"), eq(users.role, "admin")))
+    .orderBy(users.createdAt)
+    .limit(1);
+
+  return opsUser?.id ?? facility.gpUserId ?? null;
+}
+
+/**
+ * Check all covenants that are due for review, plus breached covenants whose cure
+ * period has run out. This should be run on a schedule (e.g., daily cron job)
  */
 export async function checkAllDueCovenants(): Promise<CovenantCheckResult[]> {
   console.log("Starting automated covenant monitoring check...");
 
-  // Find all covenants due for checking (nextCheckDate <= today)
+  const now = new Date();
   const dueCovenants = await db.query.covenants.findMany({
-    where: lte(covenants.nextCheckDate, new Date()),
+    where: or(
+      lte(covenants.nextCheckDate, now),
+      and(eq(covenants.cureStatus, "in_cure"), isNotNull(covenants.cureDeadline), lte(covenants.cureDeadline, now))
+    ),
   });
 
   console.log(`Found ${dueCovenants.length} covenants due for checking`);
@@ -214,18 +406,15 @@ export async function checkAllDueCovenants(): Promise<CovenantCheckResult[]> {
 
   for (const covenant of dueCovenants) {
     try {
-      // For automated checks, we need to fetch the current value from the facility
-      // In a real system, this would pull from financial data sources
-      // For now, we'll use the existing currentValue or skip if null
-      
-      if (covenant.currentValue === null) {
+      const currentValue = await computeCovenantValue(covenant, now);
+
+      if (currentValue === null) {
         console.warn(
-          `Covenant ${covenant.id} has no current value set, skipping automated check`
+          `Covenant ${covenant.id} has no formula or current value, skipping automated check`
         );
         continue;
       }
 
-      // Find facility owner/operations team member to notify
       const facility = await db.query.facilities.findFirst({
         where: eq(facilities.id, covenant.facilityId),
       });
@@ -235,13 +424,15 @@ export async function checkAllDueCovenants(): Promise<CovenantCheckResult[]> {
         continue;
       }
 
-      // Use facility's assigned user or default to operations team
-      // TODO: In production, query users table for operations role
-      const userId = facility.id; // Placeholder - should be actual user ID
+      const userId = await resolveCovenantAlertUserId(facility);
+      if (!userId) {
+        console.warn(`No user to notify for covenant ${covenant.id}, skipping automated check`);
+        continue;
+      }
 
       const result = await checkCovenant(
         covenant.id,
-        covenant.currentValue,
+        currentValue,
         userId
       );
       
@@ -274,15 +465,16 @@ export async function manualCovenantCheck(
   const results: CovenantCheckResult[] = [];
 
   for (const covenant of facilityCovenants) {
-    if (covenant.currentValue === null) {
-      console.warn(`Covenant ${covenant.id} has no current value, skipping`);
-      continue;
-    }
-
     try {
+      const currentValue = await computeCovenantValue(covenant);
+      if (currentValue === null) {
+        console.warn(`Covenant ${covenant.id} has no formula or current value, skipping`);
+        continue;
+      }
+
       const result = await checkCovenant(
         covenant.id,
-        covenant.currentValue,
+        currentValue,
         userId
       );
       results.push(result);
@@ -294,6 +486,97 @@ export async function manualCovenantCheck(
   return results;
 }
 
+/**
+ * Record an equity cure against a breached covenant and re-test it with the cure
+ * applied. The covenant must be formula-based, within its cure period and have
+ * cures remaining.
+ */
+export async function applyEquityCure(
+  covenantId: string,
+  params: { amount: number; cureDate?: Date; notes?: string },
+  userId: string
+): Promise<
+  | { success: true; cure: CovenantEquityCure; result: CovenantCheckResult }
+  | { success: false; status: number; error: string }
+> {
+  // The covenant row lock serialises concurrent cures, so the cure count and the
+  // cured value both see every earlier cure; an unevaluable formula rolls back the cure
+  const outcome = await db.transaction(async (tx) => {
+    const [covenant] = await tx.select()
+      .from(covenants)
+      .where(eq(covenants.id, covenantId))
+      .for("update");
+
+    if (!covenant) {
+      return { success: false as const, status: 404, error: "Covenant not found" };
+    }
+    if (!covenant.formula) {
+      return { success: false as const, status: 400, error: "Equity cures require a formula-based covenant" };
+    }
+    if (covenant.status !== "breach" || covenant.cureStatus !== "in_cure") {
+      return { success: false as const, status: 409, error: "Covenant is not in a cure period" };
+    }
+
+    const cureDate = params.cureDate ?? new Date();
+    if (covenant.cureDeadline && cureDate > covenant.cureDeadline) {
+      return { success: false as const, status: 409, error: "Cure date is after the cure deadline" };
+    }
+
+    const priorCures = await tx.select({ id: covenantEquityCures.id })
+      .from(covenantEquityCures)
+      .where(eq(covenantEquityCures.covenantId, covenantId));
+
+    if (priorCures.length >= covenant.maxEquityCures) {
+      return {
+        success: false as const,
+        status: 409,
+        error: covenant.maxEquityCures === 0
+          ? "Covenant does not permit equity cures"
+          : `All ${covenant.maxEquityCures} permitted equity cures have been used`,
+      };
+    }
+
+    const [cure] = await tx.insert(covenantEquityCures)
+      .values({
+        covenantId,
+        facilityId: covenant.facilityId,
+        amount: params.amount,
+        cureDate,
+        appliesUntil: getNextTestDate(covenant, new Date()),
+        notes: params.notes ?? null,
+        createdBy: userId,
+      })
+      .returning();
+
+    const curedValue = await computeCovenantValue(covenant, new Date(), tx);
+    if (curedValue === null) {
+      throw new Error("Covenant formula could not be evaluated");
+    }
+
+    const [updatedCure] = await tx.update(covenantEquityCures)
+      .set({ curedValue })
+      .where(eq(covenantEquityCures.id, cure.id))
+      .returning();
+
+    return { success: true as const, cure: updatedCure, curedValue };
+  });
+
+  if (!outcome.success) {
+    return outcome;
+  }
+
+  const result = await checkCovenant(covenantId, outcome.curedValue, userId);
+
+  return { success: true, cure: outcome.cure, result };
+}
+
+export async function getEquityCures(covenantId: string): Promise<CovenantEquityCure[]> {
+  return await db.select()
+    .from(covenantEquityCures)
+    .where(eq(covenantEquityCures.covenantId, covenantId))
+    .orderBy(covenantEquityCures.cureDate);
+}
+
 /**
  * Get covenant breach summary for a facility
  */
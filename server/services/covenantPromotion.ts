@@ -0,0 +1,510 @@
+/**
+ * Covenant Promotion Service
+ * Maps covenant clauses extracted from credit agreements to proposed monitored
+ * covenants, and creates them once a reviewer confirms (or corrects) the mapping.
+ */
+
+import { type Request } from "express";
+import { db } from "../db";
+import {
+  clauseOccurrences,
+  creditDocuments,
+  covenants,
+  facilities,
+  type ClauseOccurrence,
+  type Covenant,
+} from "@shared/schema";
+import { eq, and, desc } from "drizzle-orm";
+import { createAuditLog, AuditActions, EntityTypes } from "../auditLogger";
+import { validateCovenantFormula } from "./covenantFormula";
+import { getNextTestDate } from "./covenantMonitoring";
+
+export type ThresholdOperator = "less_than" | "less_than_equal" | "greater_than" | "greater_than_equal";
+export type CheckFrequency = "monthly" | "quarterly" | "annual";
+
+export interface CovenantProposal {
+  covenantType: string;
+  thresholdOperator: ThresholdOperator | null;
+  thresholdValue: number | null; // In the covenant type's stored units
+  checkFrequency: CheckFrequency;
+  testDates: string[] | null;
+  curePeriodDays: number;
+  formula: string | null;
+  notes: string[]; // Points the reviewer should confirm
+}
+
+export interface CovenantClauseReview {
+  clause: ClauseOccurrence;
+  creditDocumentId: string;
+  documentType: string;
+  facilityId: string | null;
+  fundName: string | null;
+  proposal: CovenantProposal;
+}
+
+type PromotionResult =
+  | { success: true; covenant: Covenant; clause: ClauseOccurrence }
+  | { success: false; status: number; error: string; message?: string };
+
+/**
+ * Covenant measures we can recognise. Stored units follow the monitoring page:
+ * LTV and concentration in tenths of a percent, ratios x100, amounts in dollars.
+ */
+interface MetricRule {
+  covenantType: string;
+  matches: (text: string, terms: ExtractedValues) => boolean;
+  unit: "percent_tenths" | "ratio_x100" | "amount";
+  defaultOperator: ThresholdOperator;
+  formula: string | null;
+}
+
+interface ExtractedValues {
+  ratio: number | null;
+  percent: number | null;
+  amount: number | null;
+}
+
+const METRIC_RULES: MetricRule[] = [
+  {
+    covenantType: "ltv_covenant",
+    matches: (text) => /loan[\s-]to[\s-]value|\bltv\b/.test(text),
+    unit: "percent_tenths",
+    defaultOperator: "less_than_equal",
+    formula: "outstanding_balance / nav * 1000",
+  },
+  {
+    covenantType: "concentration_limit",
+    matches: (text) => /concentration|diversification|single (asset|investment|portfolio company)|largest (holding|investment)/.test(text),
+    unit: "percent_tenths",
+    defaultOperator: "less_than_equal",
+    formula: "top_holding_value / nav * 1000",
+  },
+  {
+    covenantType: "debt_ebitda",
+    matches: (text) => /ebitda/.test(text) && /debt|leverage/.test(text),
+    unit: "ratio_x100",
+    defaultOperator: "less_than_equal",
+    formula: null, // No EBITDA data held
+  },
+  {
+    covenantType: "interest_coverage",
+    matches: (text) => /interest coverage/.test(text),
+    unit: "ratio_x100",
+    defaultOperator: "greater_than_equal",
+    formula: null,
+  },
+  {
+    covenantType: "minimum_liquidity",
+    matches: (text) => /liquidity|\bcash\b/.test(text),
+    unit: "amount",
+    defaultOperator: "greater_than_equal",
+    formula: "cash",
+  },
+  {
+    covenantType: "nav_coverage",
+    matches: (text, values) => /\bnav\b|net asset value/.test(text) && (values.ratio !== null || /coverage/.test(text)),
+    unit: "ratio_x100",
+    defaultOperator: "greater_than_equal",
+    formula: "nav / outstanding_balance * 100",
+  },
+  {
+    covenantType: "minimum_nav",
+    matches: (text) => /\bnav\b|net asset value/.test(text),
+    unit: "amount",
+    defaultOperator: "greater_than_equal",
+    formula: "nav",
+  },
+];
+
+const QUARTER_END_TEST_DATES = ["03-31", "06-30", "09-30", "12-31"];
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number" && isFinite(value)) return value;
+  if (typeof value === "string") {
+    const parsed = parseFloat(value.replace(/[$,%x\s]/gi, ""));
+    return isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  billion: 1e9, bn: 1e9, b: 1e9,
+  million: 1e6, mm: 1e6, m: 1e6,
+  thousand: 1e3, k: 1e3,
+};
+
+// Values stated in the extracted key terms win over values read from the clause text
+function extractValues(terms: Record<string, unknown>, text: string): ExtractedValues {
+  let ratio = toNumber(terms.ratio ?? terms.multiple);
+  let percent = toNumber(terms.percentage ?? terms.percent ?? terms.ltv);
+  let amount = toNumber(terms.amount ?? terms.minimum ?? terms.maximum ?? terms.threshold ?? terms.limit);
+
+  if (ratio === null) {
+    const match = text.match(/(\d+(?:\.\d+)?)\s*(?:x\b|times\b|:\s*1(?:\.0+)?\b)/);
+    if (match) ratio = parseFloat(match[1]);
+  }
+  if (percent === null) {
+    const match = text.match(/(\d+(?:\.\d+)?)\s*(?:%|percent)/);
+    if (match) percent = parseFloat(match[1]);
+  }
+  if (amount === null) {
+    const match = text.match(/\$\s*(\d[\d,]*(?:\.\d+)?)\s*(billion|bn|million|mm|thousand|[bmk])?\b/);
+    if (match) {
+      amount = parseFloat(match[1].replace(/,/g, "")) * (AMOUNT_MULTIPLIERS[match[2] ?? ""] ?? 1);
+    }
+  }
+
+  // Fractions such as 0.25 for 25%
+  if (percent !== null && percent > 0 && percent < 1) {
+    percent = percent * 100;
+  }
+
+  return { ratio, percent, amount };
+}
+
+function detectOperator(text: string): ThresholdOperator | null {
+  // "shall not permit the ratio to exceed / to be less than" is the usual drafting
+  if (/not permit[^.]*? to (?:exceed|be (?:more|greater) than)/.test(text)) {
+    return "less_than_equal";
+  }
+  if (/not permit[^.]*? to (?:be less than|fall below)/.test(text)) {
+    return "greater_than_equal";
+  }
+  if (/not (?:to )?exceed|no (?:more|greater) than|not (?:be )?(?:more|greater) than|maximum|at most|less than or equal|up to/.test(text)) {
+    return "less_than_equal";
+  }
+  if (/not (?:be )?less than|no less than|at least|minimum|greater than or equal/.test(text)) {
+    return "greater_than_equal";
+  }
+  return null;
+}
+
+function detectFrequency(text: string): { checkFrequency: CheckFrequency; testDates: string[] | null; stated: boolean } {
+  if (/monthly|each (?:calendar )?month/.test(text)) {
+    return { checkFrequency: "monthly", testDates: null, stated: true };
+  }
+  if (/quarter/.test(text)) {
+    return { checkFrequency: "quarterly", testDates: QUARTER_END_TEST_DATES, stated: true };
+  }
+  if (/annual|each (?:fiscal )?year/.test(text)) {
+    return { checkFrequency: "annual", testDates: null, stated: true };
+  }
+  return { checkFrequency: "quarterly", testDates: null, stated: false };
+}
+
+function detectCurePeriod(text: string): { days: number; businessDays: boolean } | null {
+  const match = text.match(/(\d+)\s*(business\s+)?days?[^.]{0,60}\bcure/)
+    ?? text.match(/\bcure[^.]{0,60}?(\d+)\s*(business\s+)?days?/);
+  return match ? { days: parseInt(match[1], 10), businessDays: !!match[2] } : null;
+}
+
+/**
+ * Propose a monitored covenant for an extracted clause
+ */
+export function proposeCovenant(clause: ClauseOccurrence): CovenantProposal {
+  const terms = (clause.extractedTerms ?? {}) as Record<string, unknown>;
+  const text = [terms.clauseName, terms.metric, terms.description, clause.clauseText]
+    .filter((part): part is string => typeof part === "string")
+    .join(" ")
+    .toLowerCase();
+
+  const values = extractValues(terms, text);
+  const notes: string[] = [];
+  // Disagreements between AI extraction and clause templates (see clauseMatcher)
+  if (Array.isArray(terms.disagreements)) {
+    notes.push(...terms.disagreements.filter((d): d is string => typeof d === "string"));
+  }
+  const rule = METRIC_RULES.find(r => r.matches(text, values));
+
+  const frequency = detectFrequency(text);
+  if (!frequency.stated) {
+    notes.push("Test frequency not stated in the clause; quarterly assumed");
+  }
+
+  const cure = detectCurePeriod(text);
+  if (cure?.businessDays) {
+    notes.push(`Cure period stated as ${cure.days} business days; calendar days are monitored`);
+  }
+
+  if (!rule) {
+    const name = typeof terms.clauseName === "string" ? terms.clauseName : clause.clauseType;
+    notes.push("Covenant measure not recognised; enter the type, threshold and formula");
+    return {
+      covenantType: name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, ""),
+      thresholdOperator: detectOperator(text),
+      thresholdValue: null,
+      checkFrequency: frequency.checkFrequency,
+      testDates: frequency.testDates,
+      curePeriodDays: cure?.days ?? 0,
+      formula: null,
+      notes,
+    };
+  }
+
+  let thresholdValue: number | null = null;
+  switch (rule.unit) {
+    case "percent_tenths":
+      thresholdValue = values.percent !== null ? Math.round(values.percent * 10) : null;
+      break;
+    case "ratio_x100":
+      thresholdValue = values.ratio !== null ? Math.round(values.ratio * 100) : null;
+      break;
+    case "amount":
+      thresholdValue = values.amount !== null ? Math.round(values.amount) : null;
+      break;
+  }
+  if (thresholdValue === null) {
+    notes.push("Threshold not found in the clause");
+  }
+
+  const operator = detectOperator(text);
+  if (!operator) {
+    notes.push(`Direction of the test not stated; ${rule.defaultOperator.replace(/_/g, " ")} assumed`);
+  }
+  if (!rule.formula) {
+    notes.push("No data source for this measure; values must be entered at each test");
+  }
+
+  return {
+    covenantType: rule.covenantType,
+    thresholdOperator: operator ?? rule.defaultOperator,
+    thresholdValue,
+    checkFrequency: frequency.checkFrequency,
+    testDates: frequency.testDates,
+    curePeriodDays: cure?.days ?? 0,
+    formula: rule.formula,
+    notes,
+  };
+}
+
+/**
+ * Extracted clauses with their proposed covenants, for review
+ */
+export async function getCovenantClauseReviews(
+  filters: { facilityId?: string; reviewStatus?: string } = {}
+): Promise<CovenantClauseReview[]> {
+  const conditions = [eq(clauseOccurrences.reviewStatus, filters.reviewStatus ?? "pending")];
+  if (filters.facilityId) {
+    conditions.push(eq(creditDocuments.facilityId, filters.facilityId));
+  }
+
+  const rows = await db.select({
+    clause: clauseOccurrences,
+    documentType: creditDocuments.documentType,
+    facilityId: creditDocuments.facilityId,
+    fundName: facilities.fundName,
+  })
+    .from(clauseOccurrences)
+    .innerJoin(creditDocuments, eq(clauseOccurrences.creditDocumentId, creditDocuments.id))
+    .leftJoin(facilities, eq(creditDocuments.facilityId, facilities.id))
+    .where(and(...conditions))
+    .orderBy(desc(clauseOccurrences.createdAt));
+
+  return rows.map(row => ({
+    clause: row.clause,
+    creditDocumentId: row.clause.creditDocumentId,
+    documentType: row.documentType,
+    facilityId: row.facilityId,
+    fundName: row.fundName,
+    proposal: proposeCovenant(row.clause),
+  }));
+}
+
+async function loadClauseWithDocument(clauseId: string) {
+  const [row] = await db.select({
+    clause: clauseOccurrences,
+    facilityId: creditDocuments.facilityId,
+  })
+    .from(clauseOccurrences)
+    .innerJoin(creditDocuments, eq(clauseOccurrences.creditDocumentId, creditDocuments.id))
+    .where(eq(clauseOccurrences.id, clauseId))
+    .limit(1);
+  return row;
+}
+
+// The clause was reviewed between our read and the guarded claim
+async function reviewedConcurrently(clauseId: string): Promise<{ success: false; status: number; error: string; message: string }> {
+  const [current] = await db.select({ reviewStatus: clauseOccurrences.reviewStatus })
+    .from(clauseOccurrences)
+    .where(eq(clauseOccurrences.id, clauseId))
+    .limit(1);
+  return {
+    success: false,
+    status: 409,
+    error: "Clause was reviewed by another request",
+    message: `Clause is ${current?.reviewStatus ?? "no longer available"}`,
+  };
+}
+
+/**
+ * Create a monitored covenant from an extracted clause. Reviewer edits override the
+ * proposal; the covenant keeps a link back to the clause.
+ */
+export async function promoteClauseToCovenant(
+  clauseId: string,
+  user: Express.User,
+  edits: Partial<Omit<CovenantProposal, "notes">> & { notes?: string },
+  req?: Request
+): Promise<PromotionResult> {
+  const row = await loadClauseWithDocument(clauseId);
+  if (!row) {
+    return { success: false, status: 404, error: "Clause not found" };
+  }
+
+  const { clause, facilityId } = row;
+  if (clause.reviewStatus !== "pending") {
+    return {
+      success: false,
+      status: 409,
+      error: "Clause has already been reviewed",
+      message: `Clause is ${clause.reviewStatus}`,
+    };
+  }
+  if (!facilityId) {
+    return {
+      success: false,
+      status: 409,
+      error: "Credit document is not linked to a facility",
+      message: "Link the credit document to a facility before promoting its covenants",
+    };
+  }
+
+  const proposal = proposeCovenant(clause);
+  const terms = {
+    covenantType: edits.covenantType ?? proposal.covenantType,
+    thresholdOperator: edits.thresholdOperator ?? proposal.thresholdOperator,
+    thresholdValue: edits.thresholdValue ?? proposal.thresholdValue,
+    checkFrequency: edits.checkFrequency ?? proposal.checkFrequency,
+    testDates: edits.testDates !== undefined ? edits.testDates : proposal.testDates,
+    curePeriodDays: edits.curePeriodDays ?? proposal.curePeriodDays,
+    formula: edits.formula !== undefined ? edits.formula : proposal.formula,
+  };
+
+  if (!terms.covenantType || !terms.thresholdOperator || terms.thresholdValue === null) {
+    return {
+      success: false,
+      status: 400,
+      error: "Incomplete covenant",
+      message: "Covenant type, threshold operator and threshold value are required",
+    };
+  }
+
+  if (terms.formula) {
+    const validation = validateCovenantFormula(terms.formula);
+    if (!validation.valid) {
+      return { success: false, status: 400, error: "Invalid formula", message: validation.error };
+    }
+  }
+
+  const covenantValues = {
+    facilityId,
+    covenantType: terms.covenantType,
+    thresholdOperator: terms.thresholdOperator,
+    thresholdValue: terms.thresholdValue,
+    checkFrequency: terms.checkFrequency,
+    testDates: terms.testDates,
+    curePeriodDays: terms.curePeriodDays,
+    formula: terms.formula,
+    nextCheckDate: getNextTestDate({ testDates: terms.testDates, checkFrequency: terms.checkFrequency }),
+    sourceClauseId: clause.id,
+  };
+
+  // Claim the clause before creating the covenant, so a repeated or concurrent
+  // review can't create a second covenant or dismiss a promoted clause
+  const promoted = await db.transaction(async (tx) => {
+    const [claimed] = await tx.update(clauseOccurrences)
+      .set({
+        reviewStatus: "promoted",
+        reviewedBy: user.id,
+        reviewedAt: new Date(),
+        reviewNotes: edits.notes ?? null,
+      })
+      .where(and(eq(clauseOccurrences.id, clauseId), eq(clauseOccurrences.reviewStatus, "pending")))
+      .returning();
+    if (!claimed) return null;
+
+    const [covenant] = await tx.insert(covenants).values(covenantValues).returning();
+
+    const [updatedClause] = await tx.update(clauseOccurrences)
+      .set({ covenantId: covenant.id })
+      .where(eq(clauseOccurrences.id, clauseId))
+      .returning();
+
+    return { covenant, updatedClause };
+  });
+
+  if (!promoted) {
+    return reviewedConcurrently(clauseId);
+  }
+  const { covenant, updatedClause } = promoted;
+
+  await createAuditLog({
+    userId: user.id,
+    userRole: user.role,
+    action: AuditActions.PROMOTE_COVENANT_CLAUSE,
+    entityType: EntityTypes.COVENANT,
+    entityId: covenant.id,
+    changes: {
+      clauseId: clause.id,
+      creditDocumentId: clause.creditDocumentId,
+      pageNumber: clause.pageNumber,
+      sectionNumber: clause.sectionNumber,
+      proposed: proposal,
+      created: terms,
+    },
+    req,
+  });
+
+  return { success: true, covenant, clause: updatedClause };
+}
+
+/**
+ * Mark an extracted clause as not requiring a monitored covenant
+ */
+export async function dismissCovenantClause(
+  clauseId: string,
+  user: Express.User,
+  reason: string,
+  req?: Request
+): Promise<{ success: true; clause: ClauseOccurrence } | { success: false; status: number; error: string; message?: string }> {
+  const [clause] = await db.select()
+    .from(clauseOccurrences)
+    .where(eq(clauseOccurrences.id, clauseId))
+    .limit(1);
+
+  if (!clause) {
+    return { success: false, status: 404, error: "Clause not found" };
+  }
+  if (clause.reviewStatus !== "pending") {
+    return { success: false, status: 409, error: "Clause has already been reviewed" };
+  }
+
+  const [updated] = await db.update(clauseOccurrences)
+    .set({
+      reviewStatus: "dismissed",
+      reviewedBy: user.id,
+      reviewedAt: new Date(),
+      reviewNotes: reason,
+    })
+    .where(and(eq(clauseOccurrences.id, clauseId), eq(clauseOccurrences.reviewStatus, "pending")))
+    .returning();
+
+  if (!updated) {
+    return reviewedConcurrently(clauseId);
+  }
+
+  await createAuditLog({
+    userId: user.id,
+    userRole: user.role,
+    action: AuditActions.DISMISS_COVENANT_CLAUSE,
+    entityType: EntityTypes.CLAUSE_OCCURRENCE,
+    entityId: clauseId,
+    changes: {
+      creditDocumentId: clause.creditDocumentId,
+      reason,
+    },
+    req,
+  });
+
+  return { success: true, clause: updated };
+}
@@ -0,0 +1,422 @@
+/**
+ * Covenant Waiver Service
+ * Waiver requests and approvals, cure period extensions and threshold amendments,
+ * plus the test history that records which threshold was in force for each check.
+ */
+
+import { type Request } from "express";
+import { db } from "../db";
+import {
+  covenants,
+  covenantWaivers,
+  covenantAmendments,
+  covenantTests,
+  notifications,
+  users,
+  type Covenant,
+  type CovenantWaiver,
+  type CovenantAmendment,
+  type CovenantTest,
+} from "@shared/schema";
+import { eq, and, or, desc } from "drizzle-orm";
+import { createAuditLog, AuditActions, EntityTypes } from "../auditLogger";
+import type { CovenantCheckResult } from "./covenantMonitoring";
+
+export type WaiverType = "waiver" | "cure_extension";
+
+export interface ThresholdInForce {
+  thresholdValue: number;
+  thresholdOperator: string;
+  amendmentId: string | null;
+}
+
+type WaiverResult =
+  | { success: true; waiver: CovenantWaiver }
+  | { success: false; status: number; error: string; message?: string };
+
+/**
+ * Threshold that applies to a covenant on a date: the latest amendment effective on
+ * that date (temporary resets only until their end date), else the original threshold
+ */
+export function selectThresholdInForce(
+  covenant: Pick<Covenant, "thresholdValue" | "thresholdOperator">,
+  amendments: CovenantAmendment[],
+  asOf: Date
+): ThresholdInForce {
+  const [amendment] = amendments
+    .filter(a => a.effectiveDate <= asOf && (a.endDate === null || a.endDate > asOf))
+    .sort((a, b) =>
+      b.effectiveDate.getTime() - a.effectiveDate.getTime() || b.createdAt.getTime() - a.createdAt.getTime()
+    );
+
+  if (!amendment) {
+    return {
+      thresholdValue: covenant.thresholdValue,
+      thresholdOperator: covenant.thresholdOperator,
+      amendmentId: null,
+    };
+  }
+
+  return {
+    thresholdValue: amendment.thresholdValue,
+    thresholdOperator: amendment.thresholdOperator ?? covenant.thresholdOperator,
+    amendmentId: amendment.id,
+  };
+}
+
+export async function getThresholdInForce(covenant: Covenant, asOf: Date): Promise<ThresholdInForce> {
+  const amendments = await db.select()
+    .from(covenantAmendments)
+    .where(eq(covenantAmendments.covenantId, covenant.id));
+
+  return selectThresholdInForce(covenant, amendments, asOf);
+}
+
+/**
+ * Approved waiver of the given type in force on a date, the longest-running if several
+ */
+export function selectActiveWaiver(
+  waivers: CovenantWaiver[],
+  asOf: Date,
+  waiverType: WaiverType = "waiver"
+): CovenantWaiver | null {
+  const [waiver] = waivers
+    .filter(w => w.waiverType === waiverType && w.status === "approved" && w.effectiveDate <= asOf && w.expiryDate > asOf)
+    .sort((a, b) => b.expiryDate.getTime() - a.expiryDate.getTime());
+
+  return waiver ?? null;
+}
+
+export async function getActiveWaiver(
+  covenantId: string,
+  asOf: Date,
+  waiverType: WaiverType = "waiver"
+): Promise<CovenantWaiver | null> {
+  const waivers = await db.select()
+    .from(covenantWaivers)
+    .where(and(eq(covenantWaivers.covenantId, covenantId), eq(covenantWaivers.status, "approved")));
+
+  return selectActiveWaiver(waivers, asOf, waiverType);
+}
+
+export async function recordCovenantTest(test: {
+  covenant: Covenant;
+  testDate: Date;
+  value: number;
+  threshold: ThresholdInForce;
+  status: string;
+  waiverId: string | null;
+  notificationSuppressed: boolean;
+}): Promise<void> {
+  await db.insert(covenantTests).values({
+    covenantId: test.covenant.id,
+    facilityId: test.covenant.facilityId,
+    testDate: test.testDate,
+    value: test.value,
+    thresholdValue: test.threshold.thresholdValue,
+    thresholdOperator: test.threshold.thresholdOperator,
+    status: test.status,
+    amendmentId: test.threshold.amendmentId,
+    waiverId: test.waiverId,
+    notificationSuppressed: test.notificationSuppressed,
+  });
+}
+
+export async function getCovenantTests(covenantId: string, limit: number = 100): Promise<CovenantTest[]> {
+  return await db.select()
+    .from(covenantTests)
+    .where(eq(covenantTests.covenantId, covenantId))
+    .orderBy(desc(covenantTests.testDate))
+    .limit(limit);
+}
+
+export async function getCovenantWaivers(covenantId: string): Promise<CovenantWaiver[]> {
+  return await db.select()
+    .from(covenantWaivers)
+    .where(eq(covenantWaivers.covenantId, covenantId))
+    .orderBy(desc(covenantWaivers.requestedAt));
+}
+
+export async function getCovenantAmendments(covenantId: string): Promise<CovenantAmendment[]> {
+  return await db.select()
+    .from(covenantAmendments)
+    .where(eq(covenantAmendments.covenantId, covenantId))
+    .orderBy(desc(covenantAmendments.effectiveDate));
+}
+
+async function loadCovenant(id: string): Promise<Covenant | undefined> {
+  const [covenant] = await db.select()
+    .from(covenants)
+    .where(eq(covenants.id, id))
+    .limit(1);
+  return covenant;
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const waiverLabel = (waiver: Pick<CovenantWaiver, "waiverType">) =>
+  waiver.waiverType === "cure_extension" ? "Cure period extension" : "Waiver";
+
+/**
+ * Request a waiver of a covenant, or an extension of its cure period, until an expiry date
+ */
+export async function requestCovenantWaiver(
+  covenantId: string,
+  user: Express.User,
+  params: {
+    waiverType: WaiverType;
+    reason: string;
+    effectiveDate?: Date;
+    expiryDate: Date;
+    documentReference?: string;
+  },
+  req?: Request
+): Promise<WaiverResult> {
+  const covenant = await loadCovenant(covenantId);
+  if (!covenant) {
+    return { success: false, status: 404, error: "Covenant not found" };
+  }
+
+  const effectiveDate = params.effectiveDate ?? new Date();
+  if (params.expiryDate <= effectiveDate) {
+    return { success: false, status: 400, error: "Expiry date must be after the effective date" };
+  }
+
+  if (params.waiverType === "cure_extension" && covenant.status !== "breach") {
+    return {
+      success: false,
+      status: 409,
+      error: "Covenant is not in breach",
+      message: "A cure period can only be extended for a breached covenant",
+    };
+  }
+
+  const [waiver] = await db.insert(covenantWaivers)
+    .values({
+      covenantId,
+      facilityId: covenant.facilityId,
+      waiverType: params.waiverType,
+      reason: params.reason,
+      effectiveDate,
+      expiryDate: params.expiryDate,
+      documentReference: params.documentReference ?? null,
+      requestedBy: user.id,
+    })
+    .returning();
+
+  await createAuditLog({
+    userId: user.id,
+    userRole: user.role,
+    action: AuditActions.REQUEST_COVENANT_WAIVER,
+    entityType: EntityTypes.COVENANT,
+    entityId: covenantId,
+    changes: {
+      waiverId: waiver.id,
+      waiverType: waiver.waiverType,
+      effectiveDate: waiver.effectiveDate,
+      expiryDate: waiver.expiryDate,
+      reason: waiver.reason,
+    },
+    req,
+  });
+
+  // Let the operations team know a decision is needed
+  const opsUsers = await db.select({ id: users.id })
+    .from(users)
+    .where(or(eq(users.role, "operations"), eq(users.role, "admin")));
+
+  const reviewers = opsUsers.filter(u => u.id !== user.id);
+  if (reviewers.length > 0) {
+    await db.insert(notifications).values(
+      reviewers.map(reviewer => ({
+        userId: reviewer.id,
+        type: "covenant_waiver_requested",
+        title: `${waiverLabel(waiver)} requested`,
+        message: `${waiverLabel(waiver)} of the ${covenant.covenantType} covenant requested by ${user.email} until ${formatDate(waiver.expiryDate)}: ${waiver.reason}`,
+        relatedEntityType: "covenant",
+        relatedEntityId: covenantId,
+        actionUrl: `/operations/covenant-monitoring?facilityId=${covenant.facilityId}`,
+        priority: "high",
+      }))
+    );
+  }
+
+  return { success: true, waiver };
+}
+
+/**
+ * Approve or reject a waiver request. The approver must not be the requester.
+ * Approving a cure extension moves the covenant's cure deadline to the expiry date.
+ */
+export async function decideCovenantWaiver(
+  waiverId: string,
+  user: Express.User,
+  decision: { decision: "approve" | "reject"; comments?: string },
+  req?: Request
+): Promise<WaiverResult> {
+  const [waiver] = await db.select()
+    .from(covenantWaivers)
+    .where(eq(covenantWaivers.id, waiverId))
+    .limit(1);
+
+  if (!waiver) {
+    return { success: false, status: 404, error: "Waiver not found" };
+  }
+
+  if (waiver.status !== "requested") {
+    return {
+      success: false,
+      status: 409,
+      error: "Waiver is not awaiting a decision",
+      message: `Waiver is ${waiver.status}`,
+    };
+  }
+
+  if (decision.decision === "approve" && waiver.requestedBy === user.id) {
+    return {
+      success: false,
+      status: 403,
+      error: "Forbidden: Waivers must be approved by a different user",
+      message: "The requester cannot approve their own waiver",
+    };
+  }
+
+  const now = new Date();
+  const status = decision.decision === "approve" ? "approved" : "rejected";
+
+  const [updated] = await db.update(covenantWaivers)
+    .set({
+      status,
+      decidedBy: user.id,
+      decidedAt: now,
+      decisionComments: decision.comments ?? null,
+      updatedAt: now,
+    })
+    .where(and(eq(covenantWaivers.id, waiverId), eq(covenantWaivers.status, "requested")))
+    .returning();
+
+  // Decided by another request between our read and the update
+  if (!updated) {
+    const [current] = await db.select({ status: covenantWaivers.status })
+      .from(covenantWaivers)
+      .where(eq(covenantWaivers.id, waiverId))
+      .limit(1);
+    return {
+      success: false,
+      status: 409,
+      error: "Waiver was decided by another request",
+      message: `Waiver is ${current?.status ?? "no longer available"}`,
+    };
+  }
+
+  if (status === "approved" && waiver.waiverType === "cure_extension") {
+    await db.update(covenants)
+      .set({ cureDeadline: waiver.expiryDate, cureStatus: "in_cure", updatedAt: now })
+      .where(and(eq(covenants.id, waiver.covenantId), eq(covenants.status, "breach")));
+  }
+
+  await createAuditLog({
+    userId: user.id,
+    userRole: user.role,
+    action: status === "approved" ? AuditActions.APPROVE_COVENANT_WAIVER : AuditActions.REJECT_COVENANT_WAIVER,
+    entityType: EntityTypes.COVENANT,
+    entityId: waiver.covenantId,
+    changes: {
+      waiverId,
+      waiverType: waiver.waiverType,
+      fromStatus: waiver.status,
+      toStatus: status,
+      comments: decision.comments,
+    },
+    req,
+  });
+
+  await db.insert(notifications).values({
+    userId: waiver.requestedBy,
+    type: "covenant_waiver_decision",
+    title: `${waiverLabel(waiver)} ${status}`,
+    message: status === "approved"
+      ? `${waiverLabel(waiver)} approved by ${user.email}, in force until ${formatDate(waiver.expiryDate)}`
+      : `${waiverLabel(waiver)} rejected by ${user.email}${decision.comments ? `: ${decision.comments}` : ""}`,
+    relatedEntityType: "covenant",
+    relatedEntityId: waiver.covenantId,
+    actionUrl: `/operations/covenant-monitoring?facilityId=${waiver.facilityId}`,
+    priority: "normal",
+  });
+
+  return { success: true, waiver: updated };
+}
+
+/**
+ * Record an amended threshold. Tests on or after the effective date use it; once it
+ * is in force the covenant is re-tested against its current value.
+ */
+export async function recordCovenantAmendment(
+  covenantId: string,
+  user: Express.User,
+  params: {
+    thresholdValue: number;
+    thresholdOperator?: string;
+    effectiveDate: Date;
+    endDate?: Date;
+    reason: string;
+    documentReference?: string;
+  },
+  req?: Request
+): Promise<
+  | { success: true; amendment: CovenantAmendment; result: CovenantCheckResult | null }
+  | { success: false; status: number; error: string }
+> {
+  const covenant = await loadCovenant(covenantId);
+  if (!covenant) {
+    return { success: false, status: 404, error: "Covenant not found" };
+  }
+
+  if (params.endDate && params.endDate <= params.effectiveDate) {
+    return { success: false, status: 400, error: "End date must be after the effective date" };
+  }
+
+  const [amendment] = await db.insert(covenantAmendments)
+    .values({
+      covenantId,
+      facilityId: covenant.facilityId,
+      thresholdValue: params.thresholdValue,
+      thresholdOperator: params.thresholdOperator ?? null,
+      effectiveDate: params.effectiveDate,
+      endDate: params.endDate ?? null,
+      reason: params.reason,
+      documentReference: params.documentReference ?? null,
+      createdBy: user.id,
+    })
+    .returning();
+
+  await createAuditLog({
+    userId: user.id,
+    userRole: user.role,
+    action: AuditActions.AMEND_COVENANT,
+    entityType: EntityTypes.COVENANT,
+    entityId: covenantId,
+    changes: {
+      amendmentId: amendment.id,
+      fromThreshold: covenant.thresholdValue,
+      toThreshold: amendment.thresholdValue,
+      thresholdOperator: amendment.thresholdOperator,
+      effectiveDate: amendment.effectiveDate,
+      endDate: amendment.endDate,
+      reason: amendment.reason,
+    },
+    req,
+  });
+
+  let result: CovenantCheckResult | null = null;
+  if (amendment.effectiveDate <= new Date()) {
+    // Loaded lazily: covenant monitoring depends on this module for thresholds
+    const { checkCovenant, computeCovenantValue } = await import("./covenantMonitoring");
+    const currentValue = await computeCovenantValue(covenant);
+    if (currentValue !== null) {
+      result = await checkCovenant(covenantId, currentValue, user.id);
+    }
+  }
+
+  return { success: true, amendment, result };
+}
@@ -0,0 +1,351 @@
+/**
+ * Credit Document Comparison Service
+ * Redlines two versions of a credit agreement: clauses are aligned by section
+ * number (falling back to clause name and wording for renumbered sections), and
+ * each pair gets a word-level diff plus the numeric terms that changed.
+ */
+
+import { db } from "../db";
+import {
+  clauseOccurrences,
+  type ClauseOccurrence,
+  type CreditDocument,
+} from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { extractNumericTerms, textSimilarity, type NumericTermKind } from "./clauseMatcher";
+
+export type ClauseChangeStatus = "unchanged" | "modified" | "added" | "removed";
+
+export interface TextDiffSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export interface TermChange {
+  term: string;
+  kind: NumericTermKind | "date" | null; // For formatting
+  from: number | string | null;
+  to: number | string | null;
+}
+
+interface ClauseVersion {
+  clauseId: string;
+  sectionNumber: string | null;
+  pageNumber: number | null;
+  clauseText: string;
+}
+
+export interface ClauseComparison {
+  sectionNumber: string | null;
+  clauseName: string | null;
+  clauseType: string;
+  status: ClauseChangeStatus;
+  base: ClauseVersion | null;
+  revised: ClauseVersion | null;
+  termChanges: TermChange[];
+  diff: TextDiffSegment[];
+}
+
+export interface CreditDocumentComparison {
+  baseDocumentId: string;
+  revisedDocumentId: string;
+  documentTermChanges: TermChange[];
+  clauses: ClauseComparison[];
+  summary: Record<ClauseChangeStatus, number> & { termChanges: number };
+}
+
+// extractedTerms keys that describe the clause rather than hold a term
+const CLAUSE_METADATA_KEYS = new Set(["clauseName", "description", "severity", "matchSource", "disagreements"]);
+
+const NUMERIC_TERM_KINDS: NumericTermKind[] = ["ratio", "percentage", "amount", "days"];
+
+// Word overlap needed to pair clauses whose section numbers differ (renumbering)
+const RENUMBERED_SIMILARITY = 0.6;
+
+// Word-level diffs beyond this many token comparisons are shown as a replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+function normalizeSection(sectionNumber: string | null): string | null {
+  if (!sectionNumber) return null;
+  const key = sectionNumber.toLowerCase().replace(/^(?:section|§)\s*/, "").replace(/\s+/g, "").replace(/\.$/, "");
+  return key || null;
+}
+
+// Natural order for section numbers like 2.10 after 2.9, with (a) before (b)
+function compareSections(a: string | null, b: string | null): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  const left = a.split(/[.()]+/).filter(Boolean);
+  const right = b.split(/[.()]+/).filter(Boolean);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const order = /^\d+$/.test(left[i]) && /^\d+$/.test(right[i])
+      ? parseInt(left[i], 10) - parseInt(right[i], 10)
+      : left[i].localeCompare(right[i]);
+    if (order !== 0) return order;
+  }
+  return left.length - right.length;
+}
+
+function clauseName(clause: ClauseOccurrence): string | null {
+  const name = (clause.extractedTerms as Record<string, unknown> | null)?.clauseName;
+  return typeof name === "string" ? name : null;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Numeric terms of a clause: values read from its text (labelled by kind, with a
+ * position suffix when a kind repeats), overridden by numeric extracted terms.
+ */
+function clauseTerms(clause: ClauseOccurrence): Map<string, { kind: NumericTermKind | null; value: number }> {
+  const terms = new Map<string, { kind: NumericTermKind | null; value: number }>();
+
+  const fromText = extractNumericTerms(clause.clauseText);
+  for (const kind of NUMERIC_TERM_KINDS) {
+    fromText[kind].forEach((value, index) => {
+      terms.set(index === 0 ? kind : `${kind} ${index + 1}`, { kind, value });
+    });
+  }
+
+  const extracted = (clause.extractedTerms ?? {}) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(extracted)) {
+    if (CLAUSE_METADATA_KEYS.has(key) || typeof value !== "number" || !isFinite(value)) continue;
+    const kind = (NUMERIC_TERM_KINDS as string[]).includes(key) ? key as NumericTermKind : terms.get(key)?.kind ?? null;
+    terms.set(key, { kind, value });
+  }
+
+  return terms;
+}
+
+function compareTerms(base: ClauseOccurrence, revised: ClauseOccurrence): TermChange[] {
+  const before = clauseTerms(base);
+  const after = clauseTerms(revised);
+  const changes: TermChange[] = [];
+
+  for (const key of Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())]))) {
+    const from = before.get(key);
+    const to = after.get(key);
+    if (from && to && from.value === to.value) continue;
+    changes.push({
+      term: key,
+      kind: from?.kind ?? to?.kind ?? null,
+      from: from?.value ?? null,
+      to: to?.value ?? null,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Word-level diff (longest common subsequence), keeping whitespace with each word
+ */
+export function diffWords(before: string, after: string): TextDiffSegment[] {
+  const a = before.match(/\S+\s*/g) ?? [];
+  const b = after.match(/\S+\s*/g) ?? [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: "delete" as const, text: before }] : []),
+      ...(after ? [{ type: "insert" as const, text: after }] : []),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const key = (word: string) => word.trim().toLowerCase();
+  const lengths: Uint16Array[] = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = key(a[i]) === key(b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (type: TextDiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (key(a[i]) === key(b[j])) {
+      push("equal", b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("delete", a[i++]);
+    } else {
+      push("insert", b[j++]);
+    }
+  }
+  while (i < a.length) push("delete", a[i++]);
+  while (j < b.length) push("insert", b[j++]);
+
+  return segments;
+}
+
+function version(clause: ClauseOccurrence): ClauseVersion {
+  return {
+    clauseId: clause.id,
+    sectionNumber: clause.sectionNumber,
+    pageNumber: clause.pageNumber,
+    clauseText: clause.clauseText,
+  };
+}
+
+function compareClausePair(base: ClauseOccurrence | null, revised: ClauseOccurrence | null): ClauseComparison {
+  const clause = (revised ?? base)!;
+
+  if (!base || !revised) {
+    return {
+      sectionNumber: clause.sectionNumber,
+      clauseName: clauseName(clause),
+      clauseType: clause.clauseType,
+      status: base ? "removed" : "added",
+      base: base ? version(base) : null,
+      revised: revised ? version(revised) : null,
+      termChanges: [],
+      diff: [{ type: base ? "delete" : "insert", text: clause.clauseText }],
+    };
+  }
+
+  const termChanges = compareTerms(base, revised);
+  const textChanged = normalizeText(base.clauseText) !== normalizeText(revised.clauseText);
+
+  return {
+    sectionNumber: revised.sectionNumber ?? base.sectionNumber,
+    clauseName: clauseName(revised) ?? clauseName(base),
+    clauseType: revised.clauseType,
+    status: textChanged || termChanges.length > 0 ? "modified" : "unchanged",
+    base: version(base),
+    revised: version(revised),
+    termChanges,
+    diff: textChanged ? diffWords(base.clauseText, revised.clauseText) : [{ type: "equal", text: revised.clauseText }],
+  };
+}
+
+// Greedily pair the most similar clauses above a minimum similarity
+function pairBySimilarity(
+  base: ClauseOccurrence[],
+  revised: ClauseOccurrence[],
+  minimum: number
+): Array<[ClauseOccurrence, ClauseOccurrence]> {
+  const candidates: Array<{ b: ClauseOccurrence; r: ClauseOccurrence; score: number }> = [];
+  for (const b of base) {
+    for (const r of revised) {
+      const sameName = clauseName(b) !== null && clauseName(b)?.toLowerCase() === clauseName(r)?.toLowerCase();
+      const score = Math.max(textSimilarity(b.clauseText, r.clauseText), sameName ? minimum : 0);
+      if (score >= minimum) candidates.push({ b, r, score });
+    }
+  }
+
+  const used = new Set<string>();
+  const pairs: Array<[ClauseOccurrence, ClauseOccurrence]> = [];
+  for (const { b, r } of candidates.sort((x, y) => y.score - x.score)) {
+    if (used.has(b.id) || used.has(r.id)) continue;
+    used.add(b.id);
+    used.add(r.id);
+    pairs.push([b, r]);
+  }
+  return pairs;
+}
+
+function groupBySection(clauses: ClauseOccurrence[]): Map<string, ClauseOccurrence[]> {
+  const groups = new Map<string, ClauseOccurrence[]>();
+  for (const clause of clauses) {
+    const key = normalizeSection(clause.sectionNumber);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), clause]);
+  }
+  return groups;
+}
+
+function formatDate(date: Date | null): string | null {
+  return date ? date.toISOString().slice(0, 10) : null;
+}
+
+function compareDocumentTerms(base: CreditDocument, revised: CreditDocument): TermChange[] {
+  const terms: TermChange[] = [
+    { term: "Principal amount", kind: "amount", from: base.principalAmount, to: revised.principalAmount },
+    {
+      term: "Interest rate",
+      kind: "percentage",
+      from: base.interestRate !== null ? parseFloat(base.interestRate) : null,
+      to: revised.interestRate !== null ? parseFloat(revised.interestRate) : null,
+    },
+    { term: "Effective date", kind: "date", from: formatDate(base.effectiveDate), to: formatDate(revised.effectiveDate) },
+    { term: "Maturity date", kind: "date", from: formatDate(base.maturityDate), to: formatDate(revised.maturityDate) },
+  ];
+  return terms.filter(t => t.from !== t.to);
+}
+
+/**
+ * Compare two versions of a credit document clause by clause
+ */
+export async function compareCreditDocuments(
+  base: CreditDocument,
+  revised: CreditDocument
+): Promise<CreditDocumentComparison> {
+  const [baseClauses, revisedClauses] = await Promise.all([
+    db.select().from(clauseOccurrences).where(eq(clauseOccurrences.creditDocumentId, base.id)),
+    db.select().from(clauseOccurrences).where(eq(clauseOccurrences.creditDocumentId, revised.id)),
+  ]);
+
+  const pairs: Array<[ClauseOccurrence, ClauseOccurrence]> = [];
+  const paired = new Set<string>();
+
+  // Same section number first; several clauses in one section pair by wording
+  const baseSections = groupBySection(baseClauses);
+  const revisedSections = groupBySection(revisedClauses);
+  for (const [section, clauses] of Array.from(baseSections.entries())) {
+    const counterparts = revisedSections.get(section);
+    if (!counterparts) continue;
+    const sectionPairs = clauses.length === 1 && counterparts.length === 1
+      ? [[clauses[0], counterparts[0]] as [ClauseOccurrence, ClauseOccurrence]]
+      : pairBySimilarity(clauses, counterparts, 0);
+    for (const pair of sectionPairs) {
+      pairs.push(pair);
+      paired.add(pair[0].id);
+      paired.add(pair[1].id);
+    }
+  }
+
+  // Then renumbered or unnumbered clauses by name and wording
+  const remainingBase = baseClauses.filter(c => !paired.has(c.id));
+  const remainingRevised = revisedClauses.filter(c => !paired.has(c.id));
+  for (const pair of pairBySimilarity(remainingBase, remainingRevised, RENUMBERED_SIMILARITY)) {
+    pairs.push(pair);
+    paired.add(pair[0].id);
+    paired.add(pair[1].id);
+  }
+
+  const clauses = [
+    ...pairs.map(([b, r]) => compareClausePair(b, r)),
+    ...baseClauses.filter(c => !paired.has(c.id)).map(c => compareClausePair(c, null)),
+    ...revisedClauses.filter(c => !paired.has(c.id)).map(c => compareClausePair(null, c)),
+  ].sort((x, y) => compareSections(normalizeSection(x.sectionNumber), normalizeSection(y.sectionNumber)));
+
+  const summary = { unchanged: 0, modified: 0, added: 0, removed: 0, termChanges: 0 };
+  for (const clause of clauses) {
+    summary[clause.status]++;
+    summary.termChanges += clause.termChanges.length;
+  }
+
+  return {
+    baseDocumentId: base.id,
+    revisedDocumentId: revised.id,
+    documentTermChanges: compareDocumentTerms(base, revised),
+    clauses,
+    summary,
+  };
+}
@@ -8,12 +8,20 @@ import {
   type InsertCreditDocument,
   type InsertClauseOccurrence,
 } from "@shared/schema";
-import { eq } from "drizzle-orm";
-import pdf from "pdf-parse";
+import { eq, and, desc } from "drizzle-orm";
+import { PDFParse } from "pdf-parse";
 import mammoth from "mammoth";
 import fs from "fs/promises";
+import {
+  matchClauseTemplates,
+  mergeClauseFindings,
+  type AiClause,
+} from "./clauseMatcher";
 
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+// AI extraction is optional; clause templates still run without it
+const genAI = process.env.GEMINI_API_KEY
+  ? new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY })
+  : null;
 
 const CREDIT_PARSING_PROMPT = `You are an expert at parsing credit agreements and loan documents.
 
@@ -24,7 +32,10 @@ Extract the following key information:
 - maturityDate: YYYY-MM-DD
 - principalAmount: number (in dollars)
 - interestRate: number (as percentage, e.g., 5.75)
-- covenants: Array of {clauseType, clauseName, description, severity, keyTerms}
+- covenants: Array of {clauseType, clauseName, description, severity, keyTerms, sourceText, pageNumber, sectionNumber}
+  - sourceText: the clause wording quoted verbatim from the document
+  - pageNumber: the page the clause appears on, from the "--- Page N ---" markers (null if unknown)
+  - sectionNumber: the agreement section number, e.g. "7.1(a)" (null if unknown)
 - parsingConfidence: 0-100
 
 Respond with valid JSON only. Example:
@@ -44,12 +55,37 @@ Respond with valid JSON only. Example:
       "clauseName": "Minimum NAV Coverage",
       "description": "Borrower must maintain NAV of at least 2.0x loan amount",
       "severity": "critical",
-      "keyTerms": {"ratio": 2.0, "metric": "NAV"}
+      "keyTerms": {"ratio": 2.0, "metric": "NAV"},
+      "sourceText": "The Borrower shall maintain a ratio of Net Asset Value to Loan Amount of not less than 2.00:1.00, tested as of the last day of each Fiscal Quarter.",
+      "pageNumber": 42,
+      "sectionNumber": "7.1(a)"
     }
   ],
   "parsingConfidence": 92
 }`;
 
+async function extractWithAi(ai: GoogleGenAI, documentText: string): Promise<any> {
+  const model = ai.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
+  const result = await model.generateContent([
+    CREDIT_PARSING_PROMPT,
+    `\n\nDocument content:\n${documentText.slice(0, 80000)}`, // Limit to ~80k chars
+  ]);
+
+  const responseText = result.response.text();
+
+  // Parse JSON response
+  try {
+    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      return JSON.parse(jsonMatch[0]);
+    }
+    throw new Error("No valid JSON found in response");
+  } catch (parseError) {
+    console.error("Failed to parse AI response:", parseError);
+    throw new Error("Failed to parse credit document");
+  }
+}
+
 export async function parseCreditDocument(params: {
   documentId: string;
   facilityId?: string;
@@ -73,9 +109,15 @@ export async function parseCreditDocument(params: {
     let documentText: string;
     
     if (doc.fileType === "application/pdf") {
+      // Mark page breaks so extracted clauses can cite their page
       const buffer = await fs.readFile(doc.storageUrl);
-      const pdfData = await pdf(buffer);
-      documentText = pdfData.text;
+      const parser = new PDFParse({ data: buffer });
+      try {
+        const pdfData = await parser.getText();
+        documentText = pdfData.pages.map(page => `--- Page ${page.num} ---\n${page.text}`).join("\n");
+      } finally {
+        await parser.destroy();
+      }
     } else if (doc.fileType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document") {
       const buffer = await fs.readFile(doc.storageUrl);
       const result = await mammoth.extractRawText({ buffer });
@@ -84,63 +126,104 @@ export async function parseCreditDocument(params: {
       throw new Error(`Unsupported file type: ${doc.fileType}`);
     }
 
-    // Call Gemini for parsing
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
-    const result = await model.generateContent([
-      CREDIT_PARSING_PROMPT,
-      `\n\nDocument content:\n${documentText.slice(0, 80000)}`, // Limit to ~80k chars
-    ]);
+    // Deterministic pattern matching runs regardless of AI availability
+    const templates = await db.select().from(legalClauseTemplates);
+    const patternMatches = matchClauseTemplates(documentText, templates);
 
-    const responseText = result.response.text();
-    
-    // Parse JSON response
-    let parsedData: any;
-    try {
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        parsedData = JSON.parse(jsonMatch[0]);
-      } else {
-        throw new Error("No valid JSON found in response");
+    let parsedData: any = null;
+    let aiError: string | null = null;
+    if (genAI) {
+      try {
+        parsedData = await extractWithAi(genAI, documentText);
+      } catch (error) {
+        // Fall back to pattern matches alone
+        aiError = error instanceof Error ? error.message : "AI extraction failed";
+        console.error("AI credit parsing failed, using clause templates only:", error);
       }
-    } catch (parseError) {
-      console.error("Failed to parse AI response:", parseError);
-      throw new Error("Failed to parse credit document");
     }
 
+    if (!parsedData && patternMatches.length === 0) {
+      throw new Error(aiError
+        ? `Failed to parse credit document: ${aiError}`
+        : "No clauses found: AI extraction is not configured and no clause template matched");
+    }
+
+    const aiClauses: AiClause[] | null = parsedData
+      ? (Array.isArray(parsedData.covenants) ? parsedData.covenants : [])
+      : null;
+    const findings = mergeClauseFindings(aiClauses, patternMatches, templates);
+    const disagreementCount = findings.filter(f => f.disagreements.length > 0).length;
+
+    const parsingConfidence = parsedData?.parsingConfidence
+      ?? Math.round(patternMatches.reduce((sum, m) => sum + m.score, 0) / patternMatches.length);
+
+    // Later drafts of an agreement supersede the facility's latest document of the same type
+    const creditFacilityId = facilityId || doc.facilityId || undefined;
+    const documentType = parsedData?.documentType || "credit_agreement";
+    const [previousVersion] = creditFacilityId
+      ? await db.select({ id: creditDocuments.id })
+        .from(creditDocuments)
+        .where(and(
+          eq(creditDocuments.facilityId, creditFacilityId),
+          eq(creditDocuments.documentType, documentType)
+        ))
+        .orderBy(desc(creditDocuments.createdAt))
+        .limit(1)
+      : [];
+
     // Create credit document record
     const [creditDoc] = await db.insert(creditDocuments)
       .values({
-        facilityId: facilityId || doc.facilityId || undefined,
+        facilityId: creditFacilityId,
         documentId,
-        documentType: parsedData.documentType,
-        parties: parsedData.parties,
-        effectiveDate: parsedData.effectiveDate ? new Date(parsedData.effectiveDate) : undefined,
-        maturityDate: parsedData.maturityDate ? new Date(parsedData.maturityDate) : undefined,
-        principalAmount: parsedData.principalAmount,
-        interestRate: parsedData.interestRate?.toString(),
-        covenantCount: parsedData.covenants?.length || 0,
-        parsedData,
-        parsingConfidence: parsedData.parsingConfidence,
+        documentType,
+        previousVersionId: previousVersion?.id,
+        parties: parsedData?.parties,
+        effectiveDate: parsedData?.effectiveDate ? new Date(parsedData.effectiveDate) : undefined,
+        maturityDate: parsedData?.maturityDate ? new Date(parsedData.maturityDate) : undefined,
+        principalAmount: parsedData?.principalAmount,
+        interestRate: parsedData?.interestRate?.toString(),
+        covenantCount: findings.length,
+        parsedData: {
+          ...parsedData,
+          extractionMethod: parsedData ? "ai_with_patterns" : "patterns",
+          aiError,
+          patternMatchCount: patternMatches.length,
+          disagreementCount,
+        },
+        parsingConfidence,
         parsedAt: new Date(),
       })
       .returning();
 
     // Save clause occurrences
-    if (parsedData.covenants && Array.isArray(parsedData.covenants)) {
-      for (const covenant of parsedData.covenants) {
-        await db.insert(clauseOccurrences).values({
-          creditDocumentId: creditDoc.id,
-          clauseText: covenant.description || "",
-          clauseType: covenant.clauseType,
-          extractedTerms: covenant.keyTerms,
-          confidence: parsedData.parsingConfidence,
-        });
-      }
+    for (const finding of findings) {
+      await db.insert(clauseOccurrences).values({
+        creditDocumentId: creditDoc.id,
+        templateId: finding.templateId,
+        clauseText: finding.clauseText,
+        clauseType: finding.clauseType,
+        extractedTerms: {
+          ...finding.keyTerms,
+          clauseName: finding.clauseName,
+          description: finding.description,
+          severity: finding.severity,
+          matchSource: finding.source,
+          disagreements: finding.disagreements,
+        },
+        pageNumber: Number.isInteger(finding.pageNumber) ? finding.pageNumber : null,
+        sectionNumber: finding.sectionNumber,
+        confidence: finding.confidence ?? parsedData?.parsingConfidence,
+      });
+    }
+
+    if (disagreementCount > 0) {
+      console.log(`Credit document ${creditDoc.id}: ${disagreementCount} clause(s) where AI extraction and clause templates disagree`);
     }
 
     return {
       creditDocumentId: creditDoc.id,
-      covenantCount: parsedData.covenants?.length || 0,
+      covenantCount: findings.length,
     };
   } catch (error) {
     console.error("Credit parsing error:", error);
@@ -0,0 +1,24 @@
+/**
+ * CSV Parsing
+ * Minimal line splitter shared by the file importers (reference rate fixings, fund
+ * administrator statements). Handles double-quoted cells containing commas.
+ */
+
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === "," && !quoted) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
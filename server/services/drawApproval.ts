@@ -0,0 +1,516 @@
+/**
+ * Draw Approval Service
+ * Pre-checks draw requests (pro-forma balance, LTV, commitment, covenants) and runs
+ * the two-step approval (credit officer, then treasury) through to disbursement.
+ */
+
+import { type Request } from "express";
+import { db } from "../db";
+import {
+  drawRequests,
+  facilities,
+  covenants,
+  portfolioCompanies,
+  notifications,
+  users,
+  type DrawRequest,
+  type Facility,
+} from "@shared/schema";
+import { eq, and, inArray, ne } from "drizzle-orm";
+import { calculateCovenantStatus } from "./covenantMonitoring";
+import { recordDraw } from "./accrualLedger";
+import { getLatestFacilityNav } from "./facilityNav";
+import { regenerateCashFlowSchedule } from "./amortizationSchedule";
+import { createAuditLog, AuditActions, EntityTypes } from "../auditLogger";
+import { emitWebhookEvent } from "./webhooks";
+
+export type CovenantImpact = "scales_with_debt" | "inverse_with_debt" | "unaffected" | "not_assessed";
+
+export interface CovenantPrecheck {
+  covenantId: string;
+  covenantType: string;
+  thresholdOperator: string;
+  thresholdValue: number;
+  currentValue: number | null;
+  currentStatus: string;
+  proFormaValue: number | null;
+  proFormaStatus: "compliant" | "warning" | "breach" | null;
+  impact: CovenantImpact;
+}
+
+export interface DrawPrecheck {
+  checkedAt: string;
+  requestedAmount: number;
+  commitment: number;
+  currentOutstanding: number;
+  otherApprovedDraws: number; // Approved but not yet disbursed
+  proFormaOutstanding: number;
+  remainingCommitment: number; // After this draw
+  nav: number | null;
+  navSource: "nav_history" | "portfolio_holdings" | "implied_from_ltv" | null;
+  currentLtv: number | null; // Percent
+  proFormaLtv: number | null;
+  covenants: CovenantPrecheck[];
+  blockingReasons: string[];
+  passed: boolean;
+}
+
+type DecisionResult =
+  | { success: true; drawRequest: DrawRequest; precheck?: DrawPrecheck }
+  | { success: false; status: number; error: string; message?: string; precheck?: DrawPrecheck };
+
+// Draws in these states have been committed to but not yet funded
+const COMMITTED_STATUSES = ["credit_approved", "approved"];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Latest NAV for a facility: the most recent NAV history entry, else the sum of active
+ * portfolio company valuations, else the NAV implied by the facility's recorded LTV
+ */
+export async function getFacilityNav(
+  facility: Facility
+): Promise<{ nav: number | null; source: DrawPrecheck["navSource"] }> {
+  const latest = await getLatestFacilityNav(facility.id);
+  if (latest) {
+    return { nav: latest.navValue, source: "nav_history" };
+  }
+
+  const holdings = await db.select({ currentValue: portfolioCompanies.currentValue })
+    .from(portfolioCompanies)
+    .where(and(eq(portfolioCompanies.facilityId, facility.id), eq(portfolioCompanies.status, "active")));
+
+  const holdingsNav = holdings.reduce((sum, h) => sum + (h.currentValue ?? 0), 0);
+  if (holdingsNav > 0) {
+    return { nav: holdingsNav, source: "portfolio_holdings" };
+  }
+
+  if (facility.ltvRatio > 0 && facility.outstandingBalance > 0) {
+    return { nav: Math.round(facility.outstandingBalance * 100 / facility.ltvRatio), source: "implied_from_ltv" };
+  }
+
+  return { nav: null, source: null };
+}
+
+/**
+ * Effect of a higher debt balance on a covenant. Leverage-style tests (LTV, debt
+ * ratios) scale with debt, coverage tests scale inversely, others are unaffected.
+ */
+function projectCovenant(
+  covenant: typeof covenants.$inferSelect,
+  debtGrowth: number | null
+): CovenantPrecheck {
+  const type = covenant.covenantType.toLowerCase();
+  const impact: CovenantImpact = /ltv|leverage|debt/.test(type)
+    ? "scales_with_debt"
+    : /coverage/.test(type)
+      ? "inverse_with_debt"
+      : "unaffected";
+
+  const base = {
+    covenantId: covenant.id,
+    covenantType: covenant.covenantType,
+    thresholdOperator: covenant.thresholdOperator,
+    thresholdValue: covenant.thresholdValue,
+    currentValue: covenant.currentValue,
+    currentStatus: covenant.status,
+  };
+
+  if (covenant.currentValue === null || (impact !== "unaffected" && debtGrowth === null)) {
+    return { ...base, proFormaValue: null, proFormaStatus: null, impact: "not_assessed" };
+  }
+
+  const proFormaValue = impact === "scales_with_debt"
+    ? Math.round(covenant.currentValue * debtGrowth!)
+    : impact === "inverse_with_debt"
+      ? Math.round(covenant.currentValue / debtGrowth!)
+      : covenant.currentValue;
+
+  return {
+    ...base,
+    proFormaValue,
+    proFormaStatus: calculateCovenantStatus(proFormaValue, covenant.thresholdValue, covenant.thresholdOperator),
+    impact,
+  };
+}
+
+/**
+ * Pro-forma position if the draw were funded, and the reasons it must not be
+ */
+export async function computeDrawPrecheck(drawRequest: DrawRequest): Promise<DrawPrecheck> {
+  const [facility] = await db.select()
+    .from(facilities)
+    .where(eq(facilities.id, drawRequest.facilityId))
+    .limit(1);
+
+  if (!facility) {
+    throw new Error("Facility not found");
+  }
+
+  const otherDraws = await db.select({ requestedAmount: drawRequests.requestedAmount })
+    .from(drawRequests)
+    .where(and(
+      eq(drawRequests.facilityId, facility.id),
+      inArray(drawRequests.status, COMMITTED_STATUSES),
+      ne(drawRequests.id, drawRequest.id)
+    ));
+  const otherApprovedDraws = otherDraws.reduce((sum, d) => sum + d.requestedAmount, 0);
+
+  const currentOutstanding = facility.outstandingBalance;
+  const proFormaOutstanding = currentOutstanding + otherApprovedDraws + drawRequest.requestedAmount;
+  const remainingCommitment = facility.principalAmount - proFormaOutstanding;
+
+  const { nav, source } = await getFacilityNav(facility);
+  const currentLtv = nav ? round2(currentOutstanding / nav * 100) : null;
+  const proFormaLtv = nav ? round2(proFormaOutstanding / nav * 100) : null;
+
+  const debtGrowth = currentOutstanding > 0 ? proFormaOutstanding / currentOutstanding : null;
+  const facilityCovenants = await db.select()
+    .from(covenants)
+    .where(eq(covenants.facilityId, facility.id));
+  const covenantChecks = facilityCovenants.map(c => projectCovenant(c, debtGrowth));
+
+  const blockingReasons: string[] = [];
+
+  if (facility.status !== "active") {
+    blockingReasons.push(`Facility is ${facility.status}`);
+  }
+  if (remainingCommitment < 0) {
+    blockingReasons.push(
+      `Draw exceeds remaining commitment by ${(-remainingCommitment).toLocaleString()}`
+    );
+  }
+  for (const check of covenantChecks) {
+    if (check.proFormaStatus === "breach") {
+      blockingReasons.push(
+        `${check.covenantType} would be in breach (pro-forma ${check.proFormaValue} vs threshold ${check.thresholdValue})`
+      );
+    }
+  }
+
+  return {
+    checkedAt: new Date().toISOString(),
+    requestedAmount: drawRequest.requestedAmount,
+    commitment: facility.principalAmount,
+    currentOutstanding,
+    otherApprovedDraws,
+    proFormaOutstanding,
+    remainingCommitment,
+    nav,
+    navSource: source,
+    currentLtv,
+    proFormaLtv,
+    covenants: covenantChecks,
+    blockingReasons,
+    passed: blockingReasons.length === 0,
+  };
+}
+
+async function notifyRequester(
+  drawRequest: DrawRequest,
+  title: string,
+  message: string,
+  priority: "low" | "normal" | "high" | "urgent",
+  type = "draw_request_status_change"
+) {
+  // Find the GP who submitted the request by email
+  const [gpUser] = await db.select()
+    .from(users)
+    .where(eq(users.email, drawRequest.requestedBy))
+    .limit(1);
+
+  if (!gpUser) return;
+
+  const [notification] = await db.insert(notifications).values({
+    userId: gpUser.id,
+    type,
+    title,
+    message,
+    relatedEntityType: "draw_request",
+    relatedEntityId: drawRequest.id,
+    actionUrl: `/facilities/${drawRequest.facilityId}`,
+    priority,
+  }).returning();
+
+  // Deliver over the GP's configured channels (email, SMS, Slack) as well
+  try {
+    const { sendNotification } = await import("./notificationDelivery");
+    await sendNotification({
+      userId: gpUser.id,
+      message,
+      type,
+      notificationId: notification.id,
+      urgency: priority === "high" || priority === "urgent" ? "high" : "normal",
+    });
+  } catch (error) {
+    console.error("Failed to send multi-channel notifications:", error);
+  }
+}
+
+async function loadDrawRequest(id: string): Promise<DrawRequest | undefined> {
+  const [drawRequest] = await db.select()
+    .from(drawRequests)
+    .where(eq(drawRequests.id, id))
+    .limit(1);
+  return drawRequest;
+}
+
+// The request changed status between our read and the guarded update
+async function decidedConcurrently(id: string): Promise<DecisionResult> {
+  const current = await loadDrawRequest(id);
+  return {
+    success: false,
+    status: 409,
+    error: "Draw request was updated by another request",
+    message: `Draw request is ${current?.status ?? "no longer available"}`,
+  };
+}
+
+/**
+ * Record an approval decision. A pending request goes to credit approval first;
+ * treasury gives the final approval and must be a different person. Both approval
+ * steps re-run the pre-check and are refused if the draw would breach.
+ */
+export async function decideDrawRequest(
+  id: string,
+  user: Express.User,
+  decision: { decision: "approve" | "reject"; comments?: string; rejectionReason?: string },
+  req?: Request
+): Promise<DecisionResult> {
+  const drawRequest = await loadDrawRequest(id);
+  if (!drawRequest) {
+    return { success: false, status: 404, error: "Draw request not found" };
+  }
+
+  const step = drawRequest.status === "pending"
+    ? "credit"
+    : drawRequest.status === "credit_approved"
+      ? "treasury"
+      : null;
+
+  if (!step) {
+    return {
+      success: false,
+      status: 409,
+      error: "Draw request is not awaiting approval",
+      message: `Draw request is ${drawRequest.status}`,
+    };
+  }
+
+  const amountLabel = `$${(drawRequest.requestedAmount / 100).toLocaleString()}`;
+
+  if (decision.decision === "reject") {
+    const [updated] = await db.update(drawRequests)
+      .set({
+        status: "rejected",
+        rejectionReason: decision.rejectionReason ?? decision.comments ?? null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(drawRequests.id, id), eq(drawRequests.status, drawRequest.status)))
+      .returning();
+
+    if (!updated) {
+      return decidedConcurrently(id);
+    }
+
+    await createAuditLog({
+      userId: user.id,
+      userRole: user.role,
+      action: AuditActions.REJECT_DRAW_REQUEST,
+      entityType: EntityTypes.DRAW_REQUEST,
+      entityId: id,
+      changes: {
+        step,
+        fromStatus: drawRequest.status,
+        toStatus: "rejected",
+        rejectionReason: updated.rejectionReason,
+        comments: decision.comments,
+      },
+      req,
+    });
+
+    await notifyRequester(
+      drawRequest,
+      "Draw Request rejected",
+      `Draw request for ${amountLabel} has been rejected by ${user.email}`,
+      "high"
+    );
+
+    return { success: true, drawRequest: updated };
+  }
+
+  if (step === "treasury" && drawRequest.creditApprovedBy === user.email) {
+    return {
+      success: false,
+      status: 403,
+      error: "Forbidden: Treasury approval must be given by a different approver",
+      message: "The credit approver cannot also give treasury approval",
+    };
+  }
+
+  const precheck = await computeDrawPrecheck(drawRequest);
+
+  if (!precheck.passed) {
+    await db.update(drawRequests)
+      .set({ precheck, updatedAt: new Date() })
+      .where(eq(drawRequests.id, id));
+
+    await createAuditLog({
+      userId: user.id,
+      userRole: user.role,
+      action: AuditActions.APPROVE_DRAW_REQUEST,
+      entityType: EntityTypes.DRAW_REQUEST,
+      entityId: id,
+      changes: {
+        step,
+        outcome: "blocked",
+        blockingReasons: precheck.blockingReasons,
+        comments: decision.comments,
+      },
+      req,
+    });
+
+    return {
+      success: false,
+      status: 409,
+      error: "Draw request failed pre-check",
+      message: precheck.blockingReasons.join("; "),
+      precheck,
+    };
+  }
+
+  const now = new Date();
+  const updates = step === "credit"
+    ? { status: "credit_approved", creditApprovedBy: user.email, creditApprovedDate: now }
+    : { status: "approved", approvedBy: user.email, approvedDate: now };
+
+  const [updated] = await db.update(drawRequests)
+    .set({ ...updates, precheck, updatedAt: now })
+    .where(and(eq(drawRequests.id, id), eq(drawRequests.status, drawRequest.status)))
+    .returning();
+
+  if (!updated) {
+    return decidedConcurrently(id);
+  }
+
+  await createAuditLog({
+    userId: user.id,
+    userRole: user.role,
+    action: AuditActions.APPROVE_DRAW_REQUEST,
+    entityType: EntityTypes.DRAW_REQUEST,
+    entityId: id,
+    changes: {
+      step,
+      fromStatus: drawRequest.status,
+      toStatus: updates.status,
+      comments: decision.comments,
+      proFormaOutstanding: precheck.proFormaOutstanding,
+      proFormaLtv: precheck.proFormaLtv,
+      remainingCommitment: precheck.remainingCommitment,
+    },
+    req,
+  });
+
+  if (step === "treasury") {
+    await notifyRequester(
+      drawRequest,
+      "Draw Request approved",
+      `Draw request for ${amountLabel} has been approved by ${user.email}`,
+      "high",
+      "draw_approved"
+    );
+
+    await emitWebhookEvent("draw_request.approved", {
+      drawRequestId: updated.id,
+      facilityId: updated.facilityId,
+      requestedAmount: updated.requestedAmount,
+      purpose: updated.purpose,
+      approvedDate: now.toISOString(),
+      proFormaOutstanding: precheck.proFormaOutstanding,
+      proFormaLtv: precheck.proFormaLtv,
+    }, { facilityId: updated.facilityId });
+  }
+
+  return { success: true, drawRequest: updated, precheck };
+}
+
+/**
+ * Fund an approved draw: books it in the accrual ledger (which updates the
+ * outstanding balance) and regenerates the remaining payment schedule
+ */
+export async function disburseDrawRequest(
+  id: string,
+  user: Express.User,
+  options: { disbursedDate?: Date } = {},
+  req?: Request
+): Promise<DecisionResult> {
+  const drawRequest = await loadDrawRequest(id);
+  if (!drawRequest) {
+    return { success: false, status: 404, error: "Draw request not found" };
+  }
+
+  if (drawRequest.status !== "approved") {
+    return {
+      success: false,
+      status: 409,
+      error: "Only approved draw requests can be disbursed",
+      message: `Draw request is ${drawRequest.status}`,
+    };
+  }
+
+  const disbursedDate = options.disbursedDate ?? new Date();
+
+  // The status flip is guarded and shares the ledger transaction, so a double-submitted
+  // disbursement books the draw only once and a failed booking leaves it approved
+  let updated: DrawRequest | undefined;
+  const ledgerEntry = await recordDraw(drawRequest.facilityId, {
+    amount: drawRequest.requestedAmount,
+    date: disbursedDate,
+    relatedEntityId: id,
+    createdBy: user.id,
+    claim: async (tx) => {
+      [updated] = await tx.update(drawRequests)
+        .set({ status: "disbursed", disbursedDate, updatedAt: new Date() })
+        .where(and(eq(drawRequests.id, id), eq(drawRequests.status, "approved")))
+        .returning();
+      return !!updated;
+    },
+  });
+
+  if (!ledgerEntry || !updated) {
+    return decidedConcurrently(id);
+  }
+
+  try {
+    await regenerateCashFlowSchedule(drawRequest.facilityId, {
+      asOf: ledgerEntry.entryDate,
+      events: [{ type: "draw", date: ledgerEntry.entryDate, amount: drawRequest.requestedAmount }],
+    });
+  } catch (error) {
+    console.error("Failed to regenerate cash flow schedule:", error);
+  }
+
+  await createAuditLog({
+    userId: user.id,
+    userRole: user.role,
+    action: AuditActions.DISBURSE_DRAW_REQUEST,
+    entityType: EntityTypes.DRAW_REQUEST,
+    entityId: id,
+    changes: {
+      fromStatus: drawRequest.status,
+      toStatus: "disbursed",
+      amount: drawRequest.requestedAmount,
+      outstandingBalance: ledgerEntry.principalBalance,
+    },
+    req,
+  });
+
+  await notifyRequester(
+    drawRequest,
+    "Draw Request disbursed",
+    `Draw request for $${(drawRequest.requestedAmount / 100).toLocaleString()} has been disbursed`,
+    "urgent"
+  );
+
+  return { success: true, drawRequest: updated };
+}
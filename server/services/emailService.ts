@@ -0,0 +1,120 @@
+import nodemailer, { type Transporter } from "nodemailer";
+
+/**
+ * Email Service for notification delivery over SMTP
+ * Sends through nodemailer so any relay works (STARTTLS, implicit TLS, AUTH), including
+ * a local sink such as MailHog or smtp4dev during development
+ */
+
+const SMTP_TIMEOUT_MS = 15000;
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (usually port 465); otherwise STARTTLS when offered
+  ignoreTls: boolean; // Never upgrade with STARTTLS (local sinks with self-signed certs)
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function getSmtpConfig(): SmtpConfig {
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host: process.env.SMTP_HOST!,
+    port: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT) : secure ? 465 : 587,
+    secure,
+    ignoreTls: process.env.SMTP_IGNORE_TLS === "true",
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+    from: process.env.SMTP_FROM!,
+  };
+}
+
+function createTransport(config: SmtpConfig): Transporter {
+  return nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    ignoreTLS: config.ignoreTls,
+    auth: config.user && config.pass ? { user: config.user, pass: config.pass } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+}
+
+/**
+ * Check if SMTP is configured
+ */
+export function isSmtpConfigured(): boolean {
+  return !!(process.env.SMTP_HOST && process.env.SMTP_FROM);
+}
+
+/**
+ * Validate an email address well enough to hand to an SMTP server
+ */
+export function isValidEmailAddress(address: string): boolean {
+  return /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(address);
+}
+
+// "AlphaNAV <alerts@example.com>" -> "alerts@example.com"
+function envelopeAddress(address: string): string {
+  const match = address.match(/<([^>]+)>/);
+  return (match ? match[1] : address).trim();
+}
+
+/**
+ * Send an email via the configured SMTP server
+ * Returns the Message-ID once the server has accepted the message for delivery
+ */
+export async function sendEmail(
+  message: EmailMessage
+): Promise<{ success: boolean; error?: string; messageId?: string }> {
+  if (!isSmtpConfigured()) {
+    return {
+      success: false,
+      error: "Email service not configured. Please add SMTP_HOST and SMTP_FROM to enable email notifications.",
+    };
+  }
+
+  const to = envelopeAddress(message.to);
+  if (!isValidEmailAddress(to)) {
+    return { success: false, error: `Invalid email address: ${message.to}` };
+  }
+
+  const config = getSmtpConfig();
+  const transport = createTransport(config);
+
+  try {
+    const info = await transport.sendMail({
+      from: config.from,
+      to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+
+    if (info.rejected?.length) {
+      return { success: false, error: `SMTP server rejected recipient ${to}: ${info.response}` };
+    }
+
+    console.log(`Email sent successfully: ${info.messageId}`);
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error("Failed to send email:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to send email",
+    };
+  } finally {
+    transport.close();
+  }
+}
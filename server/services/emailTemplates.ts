@@ -0,0 +1,363 @@
+import { db } from "../db";
+import {
+  advisorDeals,
+  cashFlows,
+  covenants,
+  drawRequests,
+  facilities,
+  notifications,
+  termSheets,
+  users,
+  type AdvisorDeal,
+  type CashFlow,
+  type Covenant,
+  type DrawRequest,
+  type Facility,
+  type TermSheet,
+} from "@shared/schema";
+import { desc, eq } from "drizzle-orm";
+import type { EmailMessage } from "./emailService";
+import type { NotificationDigest } from "./notificationDigests";
+
+/**
+ * Branded HTML + text emails for notifications. Each notification type has a template
+ * that pulls the related facility/deal figures; anything else falls back to the
+ * notification's own title and message.
+ */
+
+export interface NotificationEmailContext {
+  type: string;
+  recipientName: string | null;
+  title: string;
+  message: string;
+  actionUrl: string | null;
+  facility?: Facility;
+  covenant?: Covenant;
+  cashFlow?: CashFlow;
+  drawRequest?: DrawRequest;
+  deal?: AdvisorDeal;
+  termSheet?: TermSheet;
+  digest?: NotificationDigest;
+}
+
+interface EmailSection {
+  heading: string;
+  lines: string[];
+}
+
+interface EmailTemplate {
+  subject: (context: NotificationEmailContext) => string;
+  heading: (context: NotificationEmailContext) => string;
+  intro: (context: NotificationEmailContext) => string[];
+  details: (context: NotificationEmailContext) => Array<[string, string]>;
+  sections?: (context: NotificationEmailContext) => EmailSection[];
+  actionLabel: string;
+  accent: string;
+}
+
+const BRAND_COLOR = "#0f172a";
+
+function formatAmount(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "—";
+  return `$${value.toLocaleString("en-US")}`;
+}
+
+function formatDate(date: Date | null | undefined): string {
+  if (!date) return "—";
+  return date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+}
+
+function covenantLabel(covenantType: string): string {
+  return covenantType
+    .split("_")
+    .map((word) => (word === "ltv" ? "LTV" : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join(" ");
+}
+
+// LTV covenants are stored in tenths of a percent, ratio covenants x100
+function formatCovenantValue(covenantType: string, value: number | null): string {
+  if (value === null) return "—";
+  if (covenantType.includes("ltv")) return `${(value / 10).toFixed(1)}%`;
+  if (covenantType.includes("debt") || covenantType.includes("coverage") || covenantType.includes("ratio")) {
+    return `${(value / 100).toFixed(2)}x`;
+  }
+  return value.toLocaleString("en-US");
+}
+
+function typeLabel(type: string): string {
+  const label = type.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+const OPERATOR_LABELS: Record<string, string> = {
+  less_than: "below",
+  less_than_equal: "at or below",
+  greater_than: "above",
+  greater_than_equal: "at or above",
+};
+
+const TEMPLATES: Record<string, EmailTemplate> = {
+  covenant_breach: {
+    subject: (c) => `Covenant breach: ${c.facility?.fundName ?? "your facility"}`,
+    heading: (c) => c.covenant?.cureStatus === "cure_failed" ? "Cure period expired" : "Covenant breach detected",
+    intro: (c) => [
+      c.covenant
+        ? `The ${covenantLabel(c.covenant.covenantType)} covenant on ${c.facility?.fundName ?? "your facility"} is in breach.`
+        : c.message,
+      c.covenant?.cureDeadline && c.covenant.cureStatus === "in_cure"
+        ? `The breach must be cured by ${formatDate(c.covenant.cureDeadline)} to avoid an Event of Default.`
+        : "Please contact your AlphaNAV relationship team as soon as possible.",
+    ],
+    details: (c) => c.covenant ? [
+      ["Facility", c.facility?.fundName ?? "—"],
+      ["Covenant", covenantLabel(c.covenant.covenantType)],
+      ["Current value", formatCovenantValue(c.covenant.covenantType, c.covenant.currentValue)],
+      [
+        "Required",
+        `${OPERATOR_LABELS[c.covenant.thresholdOperator] ?? c.covenant.thresholdOperator} ${formatCovenantValue(c.covenant.covenantType, c.covenant.thresholdValue)}`,
+      ],
+      ["Breach date", formatDate(c.covenant.breachDate)],
+    ] : [],
+    actionLabel: "Review covenant",
+    accent: "#dc2626",
+  },
+  payment_due: {
+    subject: (c) => `Payment due ${formatDate(c.cashFlow?.dueDate)}: ${c.facility?.fundName ?? "your facility"}`,
+    heading: () => "Upcoming payment",
+    intro: (c) => [
+      c.cashFlow
+        ? `A scheduled payment of ${formatAmount(c.cashFlow.totalDue - c.cashFlow.paidAmount)} on ${c.facility?.fundName ?? "your facility"} is due on ${formatDate(c.cashFlow.dueDate)}.`
+        : c.message,
+      "Please arrange funds ahead of the due date. Ignore this reminder if payment has already been sent.",
+    ],
+    details: (c) => c.cashFlow ? [
+      ["Facility", c.facility?.fundName ?? "—"],
+      ["Due date", formatDate(c.cashFlow.dueDate)],
+      ["Principal", formatAmount(c.cashFlow.principal)],
+      ["Interest", formatAmount(c.cashFlow.interest)],
+      ["Amount due", formatAmount(c.cashFlow.totalDue - c.cashFlow.paidAmount)],
+    ] : [],
+    actionLabel: "View payment schedule",
+    accent: "#2563eb",
+  },
+  term_sheet_received: {
+    subject: (c) => `New term sheet for ${c.deal?.gpFundName ?? "your deal"}`,
+    heading: () => "Term sheet received",
+    intro: (c) => [
+      c.termSheet
+        ? `${c.termSheet.lenderName} has submitted a term sheet for ${c.deal?.gpFundName ?? "your deal"}.`
+        : c.message,
+    ],
+    details: (c) => c.termSheet ? [
+      ["Fund", c.deal?.gpFundName ?? "—"],
+      ["Lender", c.termSheet.lenderName],
+      ["Loan amount", formatAmount(c.termSheet.loanAmount)],
+      ["LTV", c.termSheet.ltvRatio === null ? "—" : `${c.termSheet.ltvRatio}%`],
+      ["Pricing", c.termSheet.pricingRange ?? "—"],
+      ["Days to close", c.termSheet.timelineToClose === null ? "—" : String(c.termSheet.timelineToClose)],
+    ] : [],
+    actionLabel: "Compare term sheets",
+    accent: "#16a34a",
+  },
+  draw_approved: {
+    subject: (c) => `Draw approved: ${c.facility?.fundName ?? "your facility"}`,
+    heading: () => "Draw request approved",
+    intro: (c) => [
+      c.drawRequest
+        ? `Your draw request for ${formatAmount(c.drawRequest.requestedAmount)} on ${c.facility?.fundName ?? "your facility"} has been approved and will be scheduled for disbursement.`
+        : c.message,
+    ],
+    details: (c) => c.drawRequest ? [
+      ["Facility", c.facility?.fundName ?? "—"],
+      ["Amount", formatAmount(c.drawRequest.requestedAmount)],
+      ["Purpose", c.drawRequest.purpose],
+      ["Requested", formatDate(c.drawRequest.requestDate)],
+      ["Approved", formatDate(c.drawRequest.approvedDate)],
+    ] : [],
+    actionLabel: "View facility",
+    accent: "#16a34a",
+  },
+  digest: {
+    subject: (c) => `Your AlphaNAV ${c.digest?.frequency ?? "daily"} digest (${c.digest?.itemCount ?? 0} updates)`,
+    heading: (c) => `Your ${c.digest?.frequency ?? "daily"} digest`,
+    intro: (c) => [
+      `Here ${c.digest?.itemCount === 1 ? "is the update" : `are the ${c.digest?.itemCount ?? 0} updates`} we held back during your quiet hours.`,
+    ],
+    details: () => [],
+    sections: (c) => (c.digest?.groups ?? []).map((group) => ({
+      heading: group.facilityName,
+      lines: group.items.map((item) => `${typeLabel(item.type)}: ${item.message}`),
+    })),
+    actionLabel: "Open AlphaNAV",
+    accent: BRAND_COLOR,
+  },
+};
+
+const FALLBACK_TEMPLATE: EmailTemplate = {
+  subject: (c) => c.title,
+  heading: (c) => c.title,
+  intro: (c) => [c.message],
+  details: () => [],
+  actionLabel: "Open AlphaNAV",
+  accent: BRAND_COLOR,
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Absolute link into the app for an in-app action URL
+ */
+export function appUrl(path: string): string {
+  const base = process.env.APP_BASE_URL
+    ?? (process.env.REPLIT_DOMAINS ? `https://${process.env.REPLIT_DOMAINS.split(",")[0]}` : "http://localhost:5000");
+  return /^https?:\/\//.test(path) ? path : `${base.replace(/\/$/, "")}${path.startsWith("/") ? "" : "/"}${path}`;
+}
+
+/**
+ * Render the email for a notification. Pure: all data comes from the context.
+ */
+export function renderNotificationEmail(
+  context: NotificationEmailContext
+): Omit<EmailMessage, "to"> {
+  const template = TEMPLATES[context.type] ?? FALLBACK_TEMPLATE;
+  const heading = template.heading(context);
+  const greeting = context.recipientName ? `Hi ${context.recipientName},` : "Hello,";
+  const intro = template.intro(context).filter(Boolean);
+  const details = template.details(context);
+  const sections = template.sections?.(context) ?? [];
+  const link = context.actionUrl ? appUrl(context.actionUrl) : null;
+
+  const text = [
+    heading,
+    "",
+    greeting,
+    "",
+    ...intro.flatMap((paragraph) => [paragraph, ""]),
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    ...(details.length > 0 ? [""] : []),
+    ...sections.flatMap((section) => [section.heading, ...section.lines.map((line) => `  - ${line}`), ""]),
+    ...(link ? [`${template.actionLabel}: ${link}`, ""] : []),
+    "— AlphaNAV",
+    "You are receiving this because email notifications are enabled for your AlphaNAV account.",
+  ].join("\n");
+
+  const detailRows = details.map(([label, value]) => `
+              <tr>
+                <td style="padding:6px 0;color:#64748b;font-size:14px;">${escapeHtml(label)}</td>
+                <td style="padding:6px 0;color:#0f172a;font-size:14px;text-align:right;font-weight:600;">${escapeHtml(value)}</td>
+              </tr>`).join("");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:0;background:#f1f5f9;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f1f5f9;padding:24px 0;">
+      <tr>
+        <td align="center">
+          <table role="presentation" width="600" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:8px;overflow:hidden;">
+            <tr>
+              <td style="background:${BRAND_COLOR};padding:20px 32px;color:#ffffff;font-size:20px;font-weight:700;letter-spacing:0.5px;">AlphaNAV</td>
+            </tr>
+            <tr>
+              <td style="border-top:4px solid ${template.accent};padding:32px;">
+                <h1 style="margin:0 0 16px;font-size:22px;color:#0f172a;">${escapeHtml(heading)}</h1>
+                <p style="margin:0 0 16px;font-size:15px;color:#334155;">${escapeHtml(greeting)}</p>
+                ${intro.map((paragraph) => `<p style="margin:0 0 16px;font-size:15px;line-height:1.5;color:#334155;">${escapeHtml(paragraph)}</p>`).join("\n                ")}
+                ${details.length > 0 ? `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin:8px 0 24px;border-top:1px solid #e2e8f0;border-bottom:1px solid #e2e8f0;">${detailRows}
+            </table>` : ""}
+                ${sections.map((section) => `<h2 style="margin:24px 0 8px;font-size:16px;color:#0f172a;">${escapeHtml(section.heading)}</h2>
+                <ul style="margin:0 0 16px;padding-left:20px;color:#334155;font-size:14px;line-height:1.5;">${section.lines.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}</ul>`).join("\n                ")}
+                ${link ? `<a href="${escapeHtml(link)}" style="display:inline-block;background:${template.accent};color:#ffffff;text-decoration:none;padding:12px 20px;border-radius:6px;font-size:15px;font-weight:600;">${escapeHtml(template.actionLabel)}</a>` : ""}
+              </td>
+            </tr>
+            <tr>
+              <td style="padding:16px 32px;background:#f8fafc;color:#94a3b8;font-size:12px;">
+                You are receiving this because email notifications are enabled for your AlphaNAV account.
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+  return { subject: template.subject(context), html, text };
+}
+
+async function loadFacility(facilityId: string): Promise<Facility | undefined> {
+  const [facility] = await db.select().from(facilities).where(eq(facilities.id, facilityId)).limit(1);
+  return facility;
+}
+
+/**
+ * Gather the recipient and the notification's related facility/deal records
+ */
+export async function loadNotificationEmailContext(params: {
+  type: string;
+  userId: string;
+  message: string;
+  notificationId?: string;
+  relatedEntityType?: string;
+  relatedEntityId?: string;
+  digest?: NotificationDigest;
+}): Promise<NotificationEmailContext> {
+  const [user] = await db.select().from(users).where(eq(users.id, params.userId)).limit(1);
+  const [notification] = params.notificationId
+    ? await db.select().from(notifications).where(eq(notifications.id, params.notificationId)).limit(1)
+    : [];
+
+  const context: NotificationEmailContext = {
+    type: params.type,
+    recipientName: user?.firstName ?? null,
+    title: notification?.title ?? "AlphaNAV notification",
+    message: notification?.message ?? params.message,
+    actionUrl: notification?.actionUrl ?? (params.digest ? "/notifications" : null),
+    digest: params.digest,
+  };
+
+  const entityType = notification?.relatedEntityType ?? params.relatedEntityType;
+  const entityId = notification?.relatedEntityId ?? params.relatedEntityId;
+  if (!entityType || !entityId) return context;
+
+  if (entityType === "covenant") {
+    const [covenant] = await db.select().from(covenants).where(eq(covenants.id, entityId)).limit(1);
+    context.covenant = covenant;
+    context.facility = covenant ? await loadFacility(covenant.facilityId) : undefined;
+  } else if (entityType === "cash_flow") {
+    const [cashFlow] = await db.select().from(cashFlows).where(eq(cashFlows.id, entityId)).limit(1);
+    context.cashFlow = cashFlow;
+    context.facility = cashFlow ? await loadFacility(cashFlow.facilityId) : undefined;
+  } else if (entityType === "draw_request") {
+    const [drawRequest] = await db.select().from(drawRequests).where(eq(drawRequests.id, entityId)).limit(1);
+    context.drawRequest = drawRequest;
+    context.facility = drawRequest ? await loadFacility(drawRequest.facilityId) : undefined;
+  } else if (entityType === "advisor_deal") {
+    const [deal] = await db.select().from(advisorDeals).where(eq(advisorDeals.id, entityId)).limit(1);
+    context.deal = deal;
+    if (deal) {
+      [context.termSheet] = await db.select()
+        .from(termSheets)
+        .where(eq(termSheets.advisorDealId, deal.id))
+        .orderBy(desc(termSheets.submittedAt))
+        .limit(1);
+    }
+  } else if (entityType === "term_sheet") {
+    const [termSheet] = await db.select().from(termSheets).where(eq(termSheets.id, entityId)).limit(1);
+    context.termSheet = termSheet;
+    if (termSheet) {
+      [context.deal] = await db.select()
+        .from(advisorDeals)
+        .where(eq(advisorDeals.id, termSheet.advisorDealId))
+        .limit(1);
+    }
+  }
+
+  return context;
+}
@@ -0,0 +1,215 @@
+/**
+ * Facility NAV Service
+ * Records collateral NAV observations per facility and keeps the facility's LTV
+ * (and any LTV covenants) in step with the latest NAV and outstanding balance.
+ */
+
+import { db } from "../db";
+import {
+  facilityNavHistory,
+  facilities,
+  covenants,
+  type FacilityNavHistory,
+} from "@shared/schema";
+import { eq, desc } from "drizzle-orm";
+import {
+  checkCovenant,
+  computeCovenantValue,
+  resolveCovenantAlertUserId,
+  type CovenantCheckResult,
+} from "./covenantMonitoring";
+import { emitWebhookEvent } from "./webhooks";
+
+export type NavSource = "fund_admin_sync" | "manual" | "valuation_model";
+
+// LTV covenants are held in tenths of a percent (150 = 15.0%)
+export const LTV_COVENANT_SCALE = 10;
+
+export interface LtvRecomputation {
+  facilityId: string;
+  navValue: number;
+  navAsOfDate: Date;
+  outstandingBalance: number;
+  ltvPercent: number; // Unrounded
+  previousLtvRatio: number;
+  ltvRatio: number; // As stored on the facility (whole percent)
+  covenantChecks: CovenantCheckResult[];
+}
+
+export function isLtvCovenant(covenantType: string): boolean {
+  return covenantType.toLowerCase().includes("ltv");
+}
+
+/**
+ * LTV of an outstanding balance against a NAV: unrounded percent, the whole percent
+ * stored on the facility, and the value tested by non-formula LTV covenants
+ */
+export function computeLtv(
+  outstandingBalance: number,
+  navValue: number
+): { ltvPercent: number; ltvRatio: number; covenantValue: number } {
+  const ltvPercent = outstandingBalance / navValue * 100;
+  return {
+    ltvPercent,
+    ltvRatio: Math.round(ltvPercent),
+    covenantValue: Math.round(ltvPercent * LTV_COVENANT_SCALE),
+  };
+}
+
+/**
+ * Record a NAV observation and recompute the facility's LTV
+ */
+export async function recordFacilityNav(params: {
+  facilityId: string;
+  asOfDate: Date;
+  navValue: number;
+  source: NavSource;
+  sourceReference?: string;
+  notes?: string;
+  createdBy?: string;
+}): Promise<{ entry: FacilityNavHistory; recomputation: LtvRecomputation | null }> {
+  if (params.navValue <= 0) {
+    throw new Error("NAV must be positive");
+  }
+
+  const [entry] = await db.insert(facilityNavHistory)
+    .values({
+      facilityId: params.facilityId,
+      asOfDate: params.asOfDate,
+      navValue: Math.round(params.navValue),
+      source: params.source,
+      sourceReference: params.sourceReference ?? null,
+      notes: params.notes ?? null,
+      createdBy: params.createdBy ?? null,
+    })
+    .returning();
+
+  const recomputation = await recomputeFacilityLtv(params.facilityId, { userId: params.createdBy });
+
+  await emitWebhookEvent("facility.nav_updated", {
+    facilityId: params.facilityId,
+    navValue: entry.navValue,
+    asOfDate: entry.asOfDate.toISOString(),
+    source: entry.source,
+    ltvRatio: recomputation?.ltvRatio ?? null,
+    previousLtvRatio: recomputation?.previousLtvRatio ?? null,
+  }, { facilityId: params.facilityId });
+
+  // Keep the LTV alongside the observation so the history reads as a time series
+  if (recomputation) {
+    const [latest] = await db.select({ id: facilityNavHistory.id })
+      .from(facilityNavHistory)
+      .where(eq(facilityNavHistory.facilityId, params.facilityId))
+      .orderBy(desc(facilityNavHistory.asOfDate), desc(facilityNavHistory.createdAt))
+      .limit(1);
+
+    if (latest?.id === entry.id) {
+      const [updated] = await db.update(facilityNavHistory)
+        .set({ ltvRatio: recomputation.ltvRatio })
+        .where(eq(facilityNavHistory.id, entry.id))
+        .returning();
+      return { entry: updated, recomputation };
+    }
+  }
+
+  return { entry, recomputation };
+}
+
+/**
+ * Most recent NAV observation for a facility (by as-of date, then by recording time)
+ */
+export async function getLatestFacilityNav(facilityId: string): Promise<FacilityNavHistory | null> {
+  const [latest] = await db.select()
+    .from(facilityNavHistory)
+    .where(eq(facilityNavHistory.facilityId, facilityId))
+    .orderBy(desc(facilityNavHistory.asOfDate), desc(facilityNavHistory.createdAt))
+    .limit(1);
+
+  return latest ?? null;
+}
+
+export async function getFacilityNavHistory(
+  facilityId: string,
+  limit: number = 100
+): Promise<FacilityNavHistory[]> {
+  return await db.select()
+    .from(facilityNavHistory)
+    .where(eq(facilityNavHistory.facilityId, facilityId))
+    .orderBy(desc(facilityNavHistory.asOfDate), desc(facilityNavHistory.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Recompute LTV from the latest NAV and current outstanding balance, store it on the
+ * facility and re-test any LTV covenants. Returns null when no NAV has been recorded,
+ * in which case the facility keeps its origination LTV.
+ */
+export async function recomputeFacilityLtv(
+  facilityId: string,
+  options: { userId?: string } = {}
+): Promise<LtvRecomputation | null> {
+  const [facility] = await db.select()
+    .from(facilities)
+    .where(eq(facilities.id, facilityId))
+    .limit(1);
+
+  if (!facility) {
+    throw new Error("Facility not found");
+  }
+
+  const nav = await getLatestFacilityNav(facilityId);
+  if (!nav) {
+    return null;
+  }
+
+  const { ltvPercent, ltvRatio, covenantValue: ltvCovenantValue } = computeLtv(facility.outstandingBalance, nav.navValue);
+
+  if (ltvRatio !== facility.ltvRatio) {
+    await db.update(facilities)
+      .set({ ltvRatio, updatedAt: new Date() })
+      .where(eq(facilities.id, facilityId));
+  }
+
+  const ltvCovenants = (await db.select()
+    .from(covenants)
+    .where(eq(covenants.facilityId, facilityId)))
+    .filter(c => isLtvCovenant(c.covenantType));
+
+  const covenantChecks: CovenantCheckResult[] = [];
+  if (ltvCovenants.length > 0) {
+    const userId = options.userId ?? await resolveCovenantAlertUserId(facility);
+
+    for (const covenant of ltvCovenants) {
+      if (!userId) {
+        console.warn(`No user to notify for covenant ${covenant.id}, skipping LTV check`);
+        continue;
+      }
+      try {
+        // Formula covenants define their own measure; otherwise test the facility LTV
+        const covenantValue = covenant.formula
+          ? await computeCovenantValue(covenant)
+          : ltvCovenantValue;
+        if (covenantValue === null) continue;
+
+        covenantChecks.push(await checkCovenant(covenant.id, covenantValue, userId));
+      } catch (error) {
+        console.error(`Error checking LTV covenant ${covenant.id}:`, error);
+      }
+    }
+  }
+
+  if (ltvRatio !== facility.ltvRatio) {
+    console.log(`Facility ${facilityId} LTV ${facility.ltvRatio}% → ${ltvRatio}% (NAV as of ${nav.asOfDate.toISOString().slice(0, 10)})`);
+  }
+
+  return {
+    facilityId,
+    navValue: nav.navValue,
+    navAsOfDate: nav.asOfDate,
+    outstandingBalance: facility.outstandingBalance,
+    ltvPercent,
+    previousLtvRatio: facility.ltvRatio,
+    ltvRatio,
+    covenantChecks,
+  };
+}
@@ -0,0 +1,536 @@
+/**
+ * Fund Administrator File Connector
+ * Ingests NAV statements and capital account files delivered to a drop folder
+ * (a local directory, or the landing directory of an SFTP server). Files are parsed
+ * with provider-specific column mappings, written to portfolio holdings, and moved
+ * to processed/ or failed/ so each file is ingested exactly once. Every folder must
+ * sit under FUND_ADMIN_FILE_ROOT.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import ExcelJS from "exceljs";
+import { db } from "../db";
+import {
+  portfolioCompanies,
+  portfolioHoldings,
+  type FundAdminConnection,
+} from "@shared/schema";
+import { eq, and } from "drizzle-orm";
+import { recordFacilityNav } from "./facilityNav";
+import { splitCsvLine } from "./csvParsing";
+
+export interface ColumnMapping {
+  companyName: string[];
+  fairValue: string[];
+  costBasis?: string[];
+  asOfDate?: string[];
+  sector?: string[];
+  geography?: string[];
+}
+
+export interface FileConnectorConfig {
+  dropFolder: string; // Relative to FUND_ADMIN_FILE_ROOT (absolute paths must also be inside it)
+  processedFolder?: string; // Defaults to <dropFolder>/processed
+  failedFolder?: string; // Defaults to <dropFolder>/failed
+  columnMapping?: Partial<ColumnMapping>; // Overrides the provider mapping
+}
+
+// FileConnectorConfig with every folder resolved to an absolute path under the root
+export type ResolvedFileConnectorConfig = Required<Omit<FileConnectorConfig, "columnMapping">>
+  & Pick<FileConnectorConfig, "columnMapping">;
+
+export interface ParsedHolding {
+  companyName: string;
+  fairValue: number;
+  costBasis: number | null;
+  sector: string | null;
+  geography: string | null;
+}
+
+export interface ParsedStatement {
+  asOfDate: Date;
+  navTotal: number | null; // Statement NAV total, when the file reports one
+  holdings: ParsedHolding[];
+  rowErrors: string[];
+}
+
+export interface FileIngestResult {
+  fileName: string;
+  status: "processed" | "failed";
+  asOfDate?: string;
+  nav?: number;
+  holdingsProcessed: number;
+  holdingsCreated: number;
+  holdingsUpdated: number;
+  companiesCreated: number;
+  rowsFailed: number;
+  errors: string[];
+}
+
+/**
+ * Header names used by each administrator's holdings/NAV report exports
+ */
+export const PROVIDER_COLUMN_MAPPINGS: Record<string, ColumnMapping> = {
+  SSC_Intralinks: {
+    companyName: ["investment name", "investment", "portfolio company"],
+    fairValue: ["fair value", "fair market value", "market value"],
+    costBasis: ["cost basis", "cost"],
+    asOfDate: ["valuation date", "as of date", "period end"],
+    sector: ["sector", "industry"],
+    geography: ["country", "region"],
+  },
+  Alter_Domus: {
+    companyName: ["asset name", "company"],
+    fairValue: ["fmv", "fair value (usd)", "fair value"],
+    costBasis: ["total cost", "cost"],
+    asOfDate: ["reporting date", "nav date"],
+    sector: ["sector"],
+    geography: ["country"],
+  },
+  Apex: {
+    companyName: ["security description", "holding"],
+    fairValue: ["market value base", "market value"],
+    costBasis: ["book cost", "cost"],
+    asOfDate: ["position date", "as at date"],
+    sector: ["industry"],
+    geography: ["country of risk"],
+  },
+};
+
+const GENERIC_MAPPING: ColumnMapping = {
+  companyName: ["company name", "company", "investment", "holding", "portfolio company"],
+  fairValue: ["fair value", "market value", "nav", "value"],
+  costBasis: ["cost basis", "cost"],
+  asOfDate: ["as of date", "valuation date", "date"],
+  sector: ["sector", "industry"],
+  geography: ["geography", "country", "region"],
+};
+
+const SUPPORTED_EXTENSIONS = [".csv", ".pdf", ".xlsx", ".xls"];
+
+const DEFAULT_FILE_ROOT = path.resolve("fund-admin-files");
+
+// Rows naming the fund total rather than a holding
+const TOTAL_ROW = /^(total|net asset value|nav|fund total)\b/i;
+
+function normalize(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9()]+/g, " ").trim();
+}
+
+// "$1,234,567.89" → 1234568; "(1,000)" → -1000
+function parseAmount(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith("-");
+  const digits = trimmed.replace(/[^0-9.]/g, "");
+  if (!digits) return null;
+  const amount = parseFloat(digits);
+  if (isNaN(amount)) return null;
+  return Math.round(negative ? -amount : amount);
+}
+
+// Accepts ISO (2024-03-31), US (03/31/2024) and long-form (March 31, 2024) dates
+export function parseStatementDate(value: string): Date | null {
+  const iso = value.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+  }
+  const us = value.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) {
+    return new Date(Date.UTC(Number(us[3]), Number(us[1]) - 1, Number(us[2])));
+  }
+  const long = value.match(/([A-Za-z]+)\s+(\d{1,2}),?\s+(\d{4})/);
+  if (long) {
+    const parsed = new Date(`${long[1]} ${long[2]}, ${long[3]} UTC`);
+    if (!isNaN(parsed.getTime())) return parsed;
+  }
+  return null;
+}
+
+function findColumn(header: string[], aliases: string[] | undefined): number {
+  if (!aliases) return -1;
+  for (const alias of aliases) {
+    const index = header.indexOf(normalize(alias));
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+export function resolveColumnMapping(providerName: string, overrides?: Partial<ColumnMapping>): ColumnMapping {
+  return { ...(PROVIDER_COLUMN_MAPPINGS[providerName] ?? GENERIC_MAPPING), ...overrides };
+}
+
+/**
+ * Parse holdings from spreadsheet rows (CSV lines or worksheet rows). Administrator
+ * exports often carry a preamble, so the header is the first row naming both a
+ * company column and a value column. The as-of date comes from a date column, or
+ * from the file name when there is none.
+ */
+export function parseStatementRows(rows: string[][], mapping: ColumnMapping, fileName: string): ParsedStatement {
+  const rowErrors: string[] = [];
+
+  let headerIndex = -1;
+  let header: string[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    const cells = rows[i].map(normalize);
+    if (findColumn(cells, mapping.companyName) !== -1 && findColumn(cells, mapping.fairValue) !== -1) {
+      headerIndex = i;
+      header = cells;
+      break;
+    }
+  }
+
+  if (headerIndex === -1) {
+    throw new Error(
+      `No header row with a company column (${mapping.companyName.join("/")}) and a value column (${mapping.fairValue.join("/")})`
+    );
+  }
+
+  const columns = {
+    companyName: findColumn(header, mapping.companyName),
+    fairValue: findColumn(header, mapping.fairValue),
+    costBasis: findColumn(header, mapping.costBasis),
+    asOfDate: findColumn(header, mapping.asOfDate),
+    sector: findColumn(header, mapping.sector),
+    geography: findColumn(header, mapping.geography),
+  };
+
+  const holdings: ParsedHolding[] = [];
+  let navTotal: number | null = null;
+  let asOfDate: Date | null = null;
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const cells = rows[i];
+    if (cells.every((cell) => cell.trim() === "")) continue;
+
+    const companyName = cells[columns.companyName] ?? "";
+    const fairValue = parseAmount(cells[columns.fairValue] ?? "");
+
+    if (columns.asOfDate !== -1 && !asOfDate) {
+      asOfDate = parseStatementDate(cells[columns.asOfDate] ?? "");
+    }
+
+    if (TOTAL_ROW.test(companyName)) {
+      navTotal = fairValue;
+      continue;
+    }
+    if (!companyName) continue;
+
+    if (fairValue === null) {
+      rowErrors.push(`Row ${i + 1}: invalid value "${cells[columns.fairValue] ?? ""}" for ${companyName}`);
+      continue;
+    }
+
+    holdings.push({
+      companyName,
+      fairValue,
+      costBasis: columns.costBasis !== -1 ? parseAmount(cells[columns.costBasis] ?? "") : null,
+      sector: columns.sector !== -1 ? cells[columns.sector] || null : null,
+      geography: columns.geography !== -1 ? cells[columns.geography] || null : null,
+    });
+  }
+
+  asOfDate = asOfDate ?? parseStatementDate(fileName);
+  if (!asOfDate) {
+    throw new Error("No as-of date: add a valuation date column or include the date in the file name");
+  }
+
+  return { asOfDate, navTotal, holdings, rowErrors };
+}
+
+export function parseStatementCsv(csv: string, mapping: ColumnMapping, fileName: string): ParsedStatement {
+  return parseStatementRows(csv.split(/\r?\n/).map(splitCsvLine), mapping, fileName);
+}
+
+// Worksheet cell as the text a CSV export would carry (dates as ISO, formulas as their result)
+function cellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value !== "object") return String(value).trim();
+  if ("richText" in value) return value.richText.map((part) => part.text).join("").trim();
+  if ("result" in value) return cellText(value.result as ExcelJS.CellValue);
+  if ("text" in value) return cellText(value.text as ExcelJS.CellValue);
+  if ("error" in value) return "";
+  return "";
+}
+
+/**
+ * Parse an XLSX holdings report: the first worksheet with a recognisable header row
+ * is read exactly like a CSV export
+ */
+export async function parseStatementXlsx(
+  buffer: Buffer,
+  mapping: ColumnMapping,
+  fileName: string
+): Promise<ParsedStatement> {
+  // ExcelJS wants a plain ArrayBuffer; a Node Buffer is a view that may share a larger pool
+  const data = new ArrayBuffer(buffer.byteLength);
+  new Uint8Array(data).set(buffer);
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  let lastError: unknown = new Error("Workbook has no worksheets");
+  for (const worksheet of workbook.worksheets) {
+    const rows: string[][] = [];
+    worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+      const cells: string[] = [];
+      for (let column = 1; column <= row.cellCount; column++) {
+        cells.push(cellText(row.getCell(column).value));
+      }
+      rows[rowNumber - 1] = cells;
+    });
+
+    try {
+      return parseStatementRows(Array.from(rows, (row) => row ?? []), mapping, fileName);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Parse a PDF NAV statement. PDFs carry no reliable table structure, so only the
+ * statement date and the fund NAV total are read.
+ */
+export async function parseStatementPdf(buffer: Buffer, fileName: string): Promise<ParsedStatement> {
+  const { PDFParse } = await import("pdf-parse");
+  const parser = new PDFParse({ data: buffer });
+  let text: string;
+  try {
+    text = (await parser.getText()).text;
+  } finally {
+    await parser.destroy();
+  }
+
+  const navMatch = text.match(/(?:net asset value|total nav|fund nav)[^\d$(]*\$?\s*([\d,().]+)/i);
+  const navTotal = navMatch ? parseAmount(navMatch[1]) : null;
+  if (navTotal === null) {
+    throw new Error("No net asset value found in PDF statement");
+  }
+
+  const dateMatch = text.match(/(?:as of|as at|valuation date|period end(?:ing)?)[:\s]+([^\n]+)/i);
+  const asOfDate = (dateMatch ? parseStatementDate(dateMatch[1]) : null) ?? parseStatementDate(fileName);
+  if (!asOfDate) {
+    throw new Error("No statement date found in PDF statement");
+  }
+
+  return { asOfDate, navTotal, holdings: [], rowErrors: [] };
+}
+
+/**
+ * Write parsed holdings to the facility's portfolio: companies are matched by name
+ * (created when new) and get one holding row per as-of date. The statement is applied
+ * in one transaction, and a statement older than a company's latest valuation adds
+ * its holding row without rolling back the company's current value.
+ */
+async function applyStatement(
+  facilityId: string,
+  statement: ParsedStatement,
+  source: string
+): Promise<Pick<FileIngestResult, "holdingsCreated" | "holdingsUpdated" | "companiesCreated">> {
+  return await db.transaction(async (tx) => {
+    const existingCompanies = await tx.select()
+      .from(portfolioCompanies)
+      .where(eq(portfolioCompanies.facilityId, facilityId));
+    const companiesByName = new Map(existingCompanies.map(c => [c.companyName.trim().toLowerCase(), c]));
+
+    const nav = statement.navTotal ?? statement.holdings.reduce((sum, h) => sum + h.fairValue, 0);
+    let holdingsCreated = 0;
+    let holdingsUpdated = 0;
+    let companiesCreated = 0;
+
+    for (const holding of statement.holdings) {
+      let company = companiesByName.get(holding.companyName.trim().toLowerCase());
+
+      if (company) {
+        const stale = company.valuationDate !== null && statement.asOfDate < company.valuationDate;
+        if (!stale) {
+          await tx.update(portfolioCompanies)
+            .set({
+              currentValue: holding.fairValue,
+              valuationDate: statement.asOfDate,
+              sector: company.sector ?? holding.sector,
+              geography: company.geography ?? holding.geography,
+              updatedAt: new Date(),
+            })
+            .where(eq(portfolioCompanies.id, company.id));
+        }
+      } else {
+        [company] = await tx.insert(portfolioCompanies)
+          .values({
+            facilityId,
+            companyName: holding.companyName,
+            sector: holding.sector,
+            geography: holding.geography,
+            currentValue: holding.fairValue,
+            valuationDate: statement.asOfDate,
+            status: "active",
+          })
+          .returning();
+        companiesByName.set(holding.companyName.trim().toLowerCase(), company);
+        companiesCreated++;
+      }
+
+      const values = {
+        fairValue: holding.fairValue,
+        costBasis: holding.costBasis,
+        unrealizedGain: holding.costBasis !== null ? holding.fairValue - holding.costBasis : null,
+        percentageOfNAV: nav > 0 ? (holding.fairValue / nav * 100).toFixed(2) : null,
+        source,
+      };
+
+      const [existingHolding] = await tx.select({ id: portfolioHoldings.id })
+        .from(portfolioHoldings)
+        .where(and(
+          eq(portfolioHoldings.companyId, company.id),
+          eq(portfolioHoldings.asOfDate, statement.asOfDate),
+          eq(portfolioHoldings.basis, "gp_reported")
+        ))
+        .limit(1);
+
+      if (existingHolding) {
+        await tx.update(portfolioHoldings)
+          .set(values)
+          .where(eq(portfolioHoldings.id, existingHolding.id));
+        holdingsUpdated++;
+      } else {
+        await tx.insert(portfolioHoldings).values({
+          companyId: company.id,
+          asOfDate: statement.asOfDate,
+          ...values,
+        });
+        holdingsCreated++;
+      }
+    }
+
+    return { holdingsCreated, holdingsUpdated, companiesCreated };
+  });
+}
+
+export function getFileRoot(): string {
+  return path.resolve(process.env.FUND_ADMIN_FILE_ROOT || DEFAULT_FILE_ROOT);
+}
+
+/**
+ * Resolve a configured folder under the file root, refusing anything that escapes it
+ * (absolute paths elsewhere, "..")
+ */
+export function resolveConnectorPath(folder: string, root: string = getFileRoot()): string {
+  const resolved = path.resolve(root, folder);
+  const relative = path.relative(root, resolved);
+  if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`Folder "${folder}" is outside the fund admin file root (${root})`);
+  }
+  return resolved;
+}
+
+export function getFileConnectorConfig(connection: FundAdminConnection): ResolvedFileConnectorConfig {
+  const config = (connection.credentials ?? {}) as Partial<FileConnectorConfig>;
+  if (!config.dropFolder) {
+    throw new Error("File connector requires credentials.dropFolder");
+  }
+
+  const dropFolder = resolveConnectorPath(config.dropFolder);
+  return {
+    dropFolder,
+    processedFolder: resolveConnectorPath(config.processedFolder ?? path.join(dropFolder, "processed")),
+    failedFolder: resolveConnectorPath(config.failedFolder ?? path.join(dropFolder, "failed")),
+    columnMapping: config.columnMapping,
+  };
+}
+
+async function moveFile(from: string, folder: string): Promise<void> {
+  await fs.mkdir(folder, { recursive: true });
+  const stamped = `${new Date().toISOString().replace(/[:.]/g, "-")}_${path.basename(from)}`;
+  await fs.rename(from, path.join(folder, stamped));
+}
+
+/**
+ * Files waiting in the drop folder
+ */
+export async function listPendingFiles(config: ResolvedFileConnectorConfig): Promise<string[]> {
+  const entries = await fs.readdir(config.dropFolder, { withFileTypes: true });
+  return entries
+    .filter(e => e.isFile() && SUPPORTED_EXTENSIONS.includes(path.extname(e.name).toLowerCase()))
+    .map(e => e.name)
+    .sort();
+}
+
+/**
+ * Ingest every pending file in the connection's drop folder
+ */
+export async function ingestDropFolder(connection: FundAdminConnection): Promise<FileIngestResult[]> {
+  const config = getFileConnectorConfig(connection);
+  const mapping = resolveColumnMapping(connection.providerName, config.columnMapping);
+  const { processedFolder, failedFolder } = config;
+  const source = `fund-admin:${connection.providerName}`;
+
+  const results: FileIngestResult[] = [];
+
+  for (const fileName of await listPendingFiles(config)) {
+    const filePath = path.join(config.dropFolder, fileName);
+    const extension = path.extname(fileName).toLowerCase();
+    const result: FileIngestResult = {
+      fileName,
+      status: "failed",
+      holdingsProcessed: 0,
+      holdingsCreated: 0,
+      holdingsUpdated: 0,
+      companiesCreated: 0,
+      rowsFailed: 0,
+      errors: [],
+    };
+
+    try {
+      let statement: ParsedStatement;
+      if (extension === ".csv") {
+        statement = parseStatementCsv(await fs.readFile(filePath, "utf8"), mapping, fileName);
+      } else if (extension === ".xlsx") {
+        statement = await parseStatementXlsx(await fs.readFile(filePath), mapping, fileName);
+      } else if (extension === ".pdf") {
+        statement = await parseStatementPdf(await fs.readFile(filePath), fileName);
+      } else {
+        throw new Error("Legacy .xls workbooks can't be read; ask the administrator to export .xlsx or CSV");
+      }
+
+      const applied = await applyStatement(connection.facilityId, statement, source);
+      const nav = statement.navTotal ?? statement.holdings.reduce((sum, h) => sum + h.fairValue, 0);
+
+      if (nav > 0) {
+        await recordFacilityNav({
+          facilityId: connection.facilityId,
+          asOfDate: statement.asOfDate,
+          navValue: nav,
+          source: "fund_admin_sync",
+          sourceReference: `${connection.providerName}:${fileName}`,
+        });
+      }
+
+      Object.assign(result, applied, {
+        status: "processed",
+        asOfDate: statement.asOfDate.toISOString().slice(0, 10),
+        nav,
+        holdingsProcessed: statement.holdings.length,
+        rowsFailed: statement.rowErrors.length,
+        errors: statement.rowErrors,
+      });
+
+      await moveFile(filePath, processedFolder);
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : "Unknown error");
+      console.error(`Fund admin file ${fileName} failed:`, error);
+      try {
+        await moveFile(filePath, failedFolder);
+      } catch (moveError) {
+        console.error(`Failed to move ${fileName} to failed folder:`, moveError);
+      }
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
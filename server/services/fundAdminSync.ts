@@ -1,7 +1,7 @@
 /**
  * Fund Administrator Integration Service
  * Syncs NAV data, holdings, and commitments from fund administrators
- * Supports: SS&C Intralinks, Alter Domus, Apex Fund Services
+ * Supports: SS&C Intralinks, Alter Domus, Apex Fund Services (file delivery via drop folder/SFTP)
  */
 
 import { db } from "../db";
@@ -13,9 +13,16 @@ import {
   type FundAdminConnection,
 } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
+import { promises as fs } from "fs";
+import { ingestDropFolder, getFileConnectorConfig, listPendingFiles } from "./fundAdminFileConnector";
+
+// Connection types served by the drop-folder connector. SFTP deliveries are read
+// from the SFTP server's landing directory.
+const FILE_CONNECTION_TYPES = ["sftp", "file"];
 
 export interface SyncResult {
   success: boolean;
+  partial?: boolean; // Some files ingested, some failed
   recordsProcessed: number;
   recordsCreated: number;
   recordsUpdated: number;
@@ -76,22 +83,15 @@ export async function syncFundAdminData(
 
     let result: SyncResult;
 
-    // Route to provider-specific sync logic
-    switch (connection.providerName) {
-      case "SSC_Intralinks":
-        result = await syncSSCIntralinks(connection);
-        break;
-      case "Alter_Domus":
-        result = await syncAlterDomus(connection);
-        break;
-      case "Apex":
-        result = await syncApex(connection);
-        break;
-      case "Manual":
-        result = await syncManual(connection);
-        break;
-      default:
-        throw new Error(`Unsupported provider: ${connection.providerName}`);
+    // Route on how the administrator delivers data
+    if (connection.providerName === "Manual" || connection.connectionType === "manual") {
+      result = await syncManual(connection);
+    } else if (FILE_CONNECTION_TYPES.includes(connection.connectionType)) {
+      result = await syncFromFiles(connection);
+    } else {
+      throw new Error(
+        `Unsupported connection type "${connection.connectionType}" for ${connection.providerName}: configure a file drop folder (sftp or file)`
+      );
     }
 
     // Update sync log with result
@@ -114,7 +114,8 @@ export async function syncFundAdminData(
       .update(fundAdminConnections)
       .set({
         lastSync: new Date(),
-        lastSyncStatus: result.success ? "success" : "failed",
+        lastSyncStatus: !result.success ? "failed" : result.partial ? "partial" : "success",
+        syncErrors: result.error ? { message: result.error, at: new Date().toISOString() } : null,
       })
       .where(eq(fundAdminConnections.id, connectionId));
 
@@ -165,88 +166,40 @@ export async function syncFundAdminData(
 }
 
 /**
- * SS&C Intralinks Integration
- * Uses SFTP or API to fetch NAV statements
+ * File-based sync (drop folder or SFTP landing directory) for any administrator.
+ * Provider-specific column mappings are applied by the file connector.
  */
-async function syncSSCIntralinks(
+async function syncFromFiles(
   connection: FundAdminConnection
 ): Promise<SyncResult> {
-  console.log(`Syncing SS&C Intralinks for facility ${connection.facilityId}`);
-  
-  // In production, this would:
-  // 1. Connect to SS&C Intralinks SFTP or API
-  // 2. Download NAV statements (PDF/Excel)
-  // 3. Parse using AI extraction
-  // 4. Update facility NAV value
-  
-  // For now, return mock sync result
-  // TODO: Implement actual SS&C Intralinks API integration
-  
-  return {
-    success: true,
-    recordsProcessed: 1,
-    recordsCreated: 0,
-    recordsUpdated: 1,
-    recordsFailed: 0,
-    metadata: {
-      provider: "SSC_Intralinks",
-      syncType: "api",
-      note: "Placeholder implementation - requires SS&C API credentials and setup",
-    },
-  };
-}
+  console.log(`Syncing ${connection.providerName} files for facility ${connection.facilityId}`);
 
-/**
- * Alter Domus Integration
- * Uses their portal API
- */
-async function syncAlterDomus(
-  connection: FundAdminConnection
-): Promise<SyncResult> {
-  console.log(`Syncing Alter Domus for facility ${connection.facilityId}`);
-  
-  // In production, this would:
-  // 1. Authenticate with Alter Domus API
-  // 2. Fetch latest NAV reports
-  // 3. Parse structured data
-  // 4. Update facility records
-  
-  // TODO: Implement Alter Domus API integration
-  
-  return {
-    success: true,
-    recordsProcessed: 1,
-    recordsCreated: 0,
-    recordsUpdated: 1,
-    recordsFailed: 0,
-    metadata: {
-      provider: "Alter_Domus",
-      syncType: "api",
-      note: "Placeholder implementation - requires Alter Domus API credentials",
-    },
-  };
-}
+  const files = await ingestDropFolder(connection);
+  const processed = files.filter(f => f.status === "processed");
+  const failedFiles = files.filter(f => f.status === "failed");
+
+  const latest = processed
+    .filter(f => f.asOfDate)
+    .sort((a, b) => a.asOfDate!.localeCompare(b.asOfDate!))
+    .pop();
 
-/**
- * Apex Fund Services Integration
- */
-async function syncApex(
-  connection: FundAdminConnection
-): Promise<SyncResult> {
-  console.log(`Syncing Apex for facility ${connection.facilityId}`);
-  
-  // TODO: Implement Apex Fund Services API integration
-  
   return {
-    success: true,
-    recordsProcessed: 1,
-    recordsCreated: 0,
-    recordsUpdated: 1,
-    recordsFailed: 0,
+    success: failedFiles.length === 0 || processed.length > 0,
+    partial: failedFiles.length > 0 && processed.length > 0,
+    recordsProcessed: files.reduce((sum, f) => sum + f.holdingsProcessed + f.rowsFailed, 0),
+    recordsCreated: files.reduce((sum, f) => sum + f.holdingsCreated, 0),
+    recordsUpdated: files.reduce((sum, f) => sum + f.holdingsUpdated, 0),
+    recordsFailed: files.reduce((sum, f) => sum + f.rowsFailed, 0),
+    error: failedFiles.length > 0
+      ? failedFiles.map(f => `${f.fileName}: ${f.errors.join("; ")}`).join(" | ")
+      : undefined,
     metadata: {
-      provider: "Apex",
-      syncType: "api",
-      note: "Placeholder implementation - requires Apex API credentials",
+      provider: connection.providerName,
+      syncType: connection.connectionType,
+      filesProcessed: processed.length,
+      filesFailed: failedFiles.length,
+      latestNav: latest ? { asOfDate: latest.asOfDate, nav: latest.nav } : null,
+      files,
     },
   };
 }
@@ -296,34 +249,28 @@ export async function testFundAdminConnection(
       };
     }
 
-    // Test connection based on provider
-    switch (connection.providerName) {
-      case "SSC_Intralinks":
-        return {
-          success: true,
-          message: "SS&C Intralinks connection test successful (placeholder)",
-        };
-      case "Alter_Domus":
-        return {
-          success: true,
-          message: "Alter Domus connection test successful (placeholder)",
-        };
-      case "Apex":
-        return {
-          success: true,
-          message: "Apex connection test successful (placeholder)",
-        };
-      case "Manual":
-        return {
-          success: true,
-          message: "Manual sync configured",
-        };
-      default:
-        return {
-          success: false,
-          message: `Unsupported provider: ${connection.providerName}`,
-        };
+    if (connection.providerName === "Manual" || connection.connectionType === "manual") {
+      return {
+        success: true,
+        message: "Manual sync configured",
+      };
+    }
+
+    if (!FILE_CONNECTION_TYPES.includes(connection.connectionType)) {
+      return {
+        success: false,
+        message: `Unsupported connection type "${connection.connectionType}": configure a file drop folder (sftp or file)`,
+      };
     }
+
+    const config = getFileConnectorConfig(connection);
+    await fs.access(config.dropFolder, fs.constants.R_OK | fs.constants.W_OK);
+    const pending = await listPendingFiles(config);
+
+    return {
+      success: true,
+      message: `Drop folder ${config.dropFolder} is reachable (${pending.length} file${pending.length === 1 ? "" : "s"} waiting)`,
+    };
   } catch (error) {
     return {
       success: false,
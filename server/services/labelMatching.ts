@@ -0,0 +1,9 @@
+/**
+ * Label Matching
+ * Sector, industry and geography names arrive in many spellings ("healthcare_services",
+ * "Healthcare Services", "health-care"); engines compare them in this normalized form.
+ */
+
+export function normalizeLabel(value: string): string {
+  return value.toLowerCase().replace(/[_-]+/g, " ").replace(/\s+/g, " ").trim();
+}
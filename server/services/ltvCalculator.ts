@@ -3,6 +3,18 @@
  * Matches schema in shared/schema.ts ltvCalculations table
  */
 
+import { interactivePathCount, simulateNavPaths, type NavSimulationInput, type NavSimulationResult } from "./navSimulation";
+import { reverseStressProposedFacility, type ProposedFacilityReverseStress } from "./reverseStressTest";
+
+export type LTVSimulationOptions = Omit<NavSimulationInput, "fundNav" | "loanBalance" | "maxLtv">;
+
+// Breach-risk pricing bands for the simulated probability (%). Under the default 36-month
+// diversified assumptions these are crossed where a 30% / 20% NAV fall reaches max LTV
+// (LTV at 70% / 80% of the covenant), which is where the former five-scenario grid
+// crossed its 20% / 40% bands - so a facility prices as it did before simulation.
+const MEDIUM_BREACH_PROBABILITY = 19;
+const HIGH_BREACH_PROBABILITY = 37;
+
 export interface StressScenario {
   name: string; // Scenario name (e.g., "-20% Downturn")
   navStress: number; // Percentage change to NAV (e.g., -20)
@@ -17,11 +29,14 @@ export interface LTVCalculationResult {
   targetLtv: number; // Target LTV percentage (e.g., 15.00)
   maxLtv: number; // Maximum covenant LTV (e.g., 18.00)
   requestedFacilitySize: number | null;
-  maxFacilitySize: number; // fundNav * targetLtv
+  maxFacilitySize: number; // fundNav * targetLtv, capped at the borrowing base
+  borrowingBase: number | null;
   recommendedFacilitySize: number;
   baselineLtv: number; // LTV if using requested facility size
   scenarios: StressScenario[]; // Array of stress test scenarios
-  breachProbability: number; // Estimated probability of covenant breach
+  breachProbability: number; // Monte Carlo probability (%) of breaching max LTV over the term
+  simulation: NavSimulationResult;
+  reverseStress: ProposedFacilityReverseStress; // How far NAV can fall before breaching max LTV
   recommendedSofr: number; // Recommended SOFR spread in bps
   marketMedianPricing: number; // Market median pricing in bps
   pricingRationale: string;
@@ -31,6 +46,8 @@ export interface PortfolioMetrics {
   netIRR?: number | string | null;
   moic?: number | string | null;
   portfolioCompanyCount?: number | null;
+  largestHoldingPercent?: number | string | null;
+  cashReserves?: number | null;
 }
 
 /**
@@ -42,6 +59,8 @@ export function calculateLTV(
     requestedFacilitySize?: number | null;
     targetLtv?: number; // Target LTV percentage (default: 15%)
     maxLtv?: number; // Maximum covenant LTV (default: 18%)
+    borrowingBase?: number; // Eligible, concentration-capped NAV at advance rates
+    simulation?: LTVSimulationOptions;
   },
   portfolioMetrics?: PortfolioMetrics
 ): LTVCalculationResult {
@@ -50,6 +69,8 @@ export function calculateLTV(
     requestedFacilitySize,
     targetLtv = 15,
     maxLtv = 18,
+    borrowingBase,
+    simulation: simulationOptions,
   } = params;
   
   if (fundNAV <= 0) {
@@ -64,8 +85,11 @@ export function calculateLTV(
     throw new Error("Max LTV must be between 0 and 100");
   }
   
-  // Calculate maximum facility size based on target LTV
-  const maxFacilitySize = Math.floor(fundNAV * (targetLtv / 100));
+  // Calculate maximum facility size based on target LTV; term sheets size on the borrowing base
+  const navCapacity = Math.floor(fundNAV * (targetLtv / 100));
+  const maxFacilitySize = borrowingBase !== undefined
+    ? Math.min(navCapacity, Math.floor(borrowingBase))
+    : navCapacity;
   
   // Determine recommended facility size
   // If requested size is within target LTV, use it; otherwise cap at max
@@ -85,9 +109,26 @@ export function calculateLTV(
     createStressScenario("-40% NAV Downturn", -40, fundNAV, recommendedFacilitySize, maxLtv),
   ];
   
-  // Calculate breach probability based on scenarios
-  const breachingScenarios = scenarios.filter(s => s.exceedsCovenant).length;
-  const breachProbability = Number(((breachingScenarios / scenarios.length) * 100).toFixed(2));
+  // Breach probability from simulated NAV paths over the facility term; this runs on the
+  // request thread, so the path count is held to the interactive budget
+  const simulation = simulateNavPaths({
+    ...simulationOptions,
+    paths: interactivePathCount(simulationOptions?.paths, simulationOptions?.termMonths),
+    fundNav: fundNAV,
+    loanBalance: recommendedFacilitySize,
+    maxLtv,
+  });
+  const breachProbability = simulation.breachProbability;
+
+  const reverseStress = reverseStressProposedFacility({
+    fundNav: fundNAV,
+    facilitySize: recommendedFacilitySize,
+    maxLtv,
+    cash: portfolioMetrics?.cashReserves ?? undefined,
+    largestHoldingPercent: portfolioMetrics?.largestHoldingPercent != null
+      ? Number(portfolioMetrics.largestHoldingPercent)
+      : undefined,
+  });
   
   // Calculate pricing recommendations based on risk profile
   const pricing = calculatePricing(baselineLtv, breachProbability, portfolioMetrics);
@@ -98,10 +139,13 @@ export function calculateLTV(
     maxLtv,
     requestedFacilitySize: requestedFacilitySize || null,
     maxFacilitySize,
+    borrowingBase: borrowingBase ?? null,
     recommendedFacilitySize,
     baselineLtv,
     scenarios,
     breachProbability,
+    simulation,
+    reverseStress,
     recommendedSofr: pricing.recommendedSofr,
     marketMedianPricing: pricing.marketMedianPricing,
     pricingRationale: pricing.pricingRationale,
@@ -166,9 +210,9 @@ function calculatePricing(
   }
   
   // Adjust pricing based on breach probability
-  if (breachProbability > 40) {
+  if (breachProbability > HIGH_BREACH_PROBABILITY) {
     recommendedSofr += 75; // +75 bps for high breach risk
-  } else if (breachProbability > 20) {
+  } else if (breachProbability > MEDIUM_BREACH_PROBABILITY) {
     recommendedSofr += 50; // +50 bps for medium breach risk
   }
   
@@ -202,8 +246,8 @@ function calculatePricing(
     rationale.push(`LTV adjustment: +${baselineLtv > 17 ? 100 : 50} bps (LTV ${baselineLtv}%)`);
   }
   
-  if (breachProbability > 20) {
-    const adjustment = breachProbability > 40 ? 75 : 50;
+  if (breachProbability > MEDIUM_BREACH_PROBABILITY) {
+    const adjustment = breachProbability > HIGH_BREACH_PROBABILITY ? 75 : 50;
     rationale.push(`Breach risk adjustment: +${adjustment} bps (${breachProbability}% probability)`);
   }
   
@@ -0,0 +1,335 @@
+/**
+ * NAV Reconciliation Service
+ * Compares GP-reported holding marks with our own mark-to-model valuations quarter by
+ * quarter, flags marks that drift beyond tolerance or look stale, and rolls the gaps up
+ * into a conservative adjusted NAV per facility.
+ */
+
+import { db } from "../db";
+import {
+  portfolioCompanies,
+  portfolioHoldings,
+  facilities,
+  type PortfolioCompany,
+  type PortfolioHolding,
+} from "@shared/schema";
+import { eq, and, inArray, asc } from "drizzle-orm";
+import { recordFacilityNav } from "./facilityNav";
+import type { ValuationResult } from "./navValuation";
+
+export const DEFAULT_DEVIATION_TOLERANCE = 10; // Percent of the model value
+export const DEFAULT_RECONCILIATION_QUARTERS = 8;
+
+export type ReconciliationFlag =
+  | "gp_above_model" // GP mark exceeds the model by more than the tolerance
+  | "gp_below_model" // GP mark is below the model by more than the tolerance
+  | "unchanged_gp_mark" // Same GP value as the prior quarter
+  | "gp_mark_carried_forward" // No GP mark this quarter; the prior one is still in use
+  | "missing_model_mark"; // Nothing to reconcile against
+
+export interface HoldingReconciliation {
+  companyId: string;
+  companyName: string;
+  sector: string | null;
+  gpFairValue: number | null;
+  gpAsOfDate: Date | null;
+  gpSource: string | null;
+  modelFairValue: number | null;
+  modelAsOfDate: Date | null;
+  deviation: number | null; // GP minus model
+  deviationPercent: number | null; // Of the model value
+  adjustedValue: number;
+  flags: ReconciliationFlag[];
+}
+
+export interface QuarterReconciliation {
+  quarter: string; // e.g. "2026-Q2"
+  quarterEnd: Date;
+  gpNav: number;
+  modelNav: number; // Model marks where available, GP marks elsewhere
+  adjustedNav: number;
+  adjustment: number; // Adjusted minus GP
+  modelCoveragePercent: number; // Share of GP NAV with a model mark
+  flaggedCount: number;
+  holdings: HoldingReconciliation[];
+}
+
+export interface FacilityNavReconciliation {
+  facilityId: string;
+  fundName: string;
+  tolerancePercent: number;
+  quarters: QuarterReconciliation[]; // Newest first
+  latest: QuarterReconciliation | null;
+}
+
+function quarterKey(date: Date): string {
+  return `${date.getUTCFullYear()}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+}
+
+function quarterEndDate(key: string): Date {
+  const [year, quarter] = key.split("-Q").map(Number);
+  return new Date(Date.UTC(year, quarter * 3, 0));
+}
+
+// Latest mark per quarter; holdings arrive sorted by as-of date ascending
+function marksByQuarter(holdings: PortfolioHolding[]): Map<string, PortfolioHolding> {
+  const marks = new Map<string, PortfolioHolding>();
+  for (const holding of holdings) {
+    marks.set(quarterKey(new Date(holding.asOfDate)), holding);
+  }
+  return marks;
+}
+
+/**
+ * Reconcile a single holding for one quarter. The adjusted value takes the model mark
+ * only when the GP mark sits above it by more than the tolerance; GP marks below the
+ * model are kept, so the adjusted NAV never exceeds what the GP reports.
+ */
+function reconcileHolding(params: {
+  gp: PortfolioHolding | null;
+  carriedForward: boolean;
+  previousGpValue: number | null;
+  model: PortfolioHolding | null;
+  tolerancePercent: number;
+}): Omit<HoldingReconciliation, "companyId" | "companyName" | "sector"> {
+  const { gp, model, tolerancePercent } = params;
+  const flags: ReconciliationFlag[] = [];
+
+  if (gp && params.carriedForward) {
+    flags.push("gp_mark_carried_forward");
+  } else if (gp && params.previousGpValue !== null && gp.fairValue === params.previousGpValue) {
+    flags.push("unchanged_gp_mark");
+  }
+
+  let deviation: number | null = null;
+  let deviationPercent: number | null = null;
+  let adjustedValue = gp?.fairValue ?? 0;
+
+  if (!model) {
+    flags.push("missing_model_mark");
+  } else if (gp && model.fairValue > 0) {
+    deviation = gp.fairValue - model.fairValue;
+    deviationPercent = Math.round((deviation / model.fairValue) * 1000) / 10;
+    if (deviationPercent > tolerancePercent) {
+      flags.push("gp_above_model");
+      adjustedValue = model.fairValue;
+    } else if (deviationPercent < -tolerancePercent) {
+      flags.push("gp_below_model");
+    }
+  }
+
+  return {
+    gpFairValue: gp?.fairValue ?? null,
+    gpAsOfDate: gp?.asOfDate ?? null,
+    gpSource: gp?.source ?? null,
+    modelFairValue: model?.fairValue ?? null,
+    modelAsOfDate: model?.asOfDate ?? null,
+    deviation,
+    deviationPercent,
+    adjustedValue,
+    flags,
+  };
+}
+
+/**
+ * Reconcile the latest quarters of marks for a set of portfolio companies, newest first.
+ * Holdings must be sorted by as-of date ascending.
+ */
+export function reconcileQuarters(
+  companies: PortfolioCompany[],
+  holdings: PortfolioHolding[],
+  tolerancePercent: number,
+  quarterLimit: number
+): QuarterReconciliation[] {
+  const quarterKeys = Array.from(new Set(holdings.map(h => quarterKey(new Date(h.asOfDate)))))
+    .sort()
+    .slice(-quarterLimit);
+
+  const perCompany = companies.map(company => {
+    const companyHoldings = holdings.filter(h => h.companyId === company.id);
+    return {
+      company,
+      gpMarks: marksByQuarter(companyHoldings.filter(h => h.basis === "gp_reported")),
+      modelMarks: marksByQuarter(companyHoldings.filter(h => h.basis === "model")),
+    };
+  });
+
+  return quarterKeys.map(quarter => {
+    const rows: HoldingReconciliation[] = [];
+
+    for (const { company, gpMarks, modelMarks } of perCompany) {
+      const gpKeys = Array.from(gpMarks.keys()).filter(key => key <= quarter).sort();
+      const currentKey = gpKeys[gpKeys.length - 1];
+      const gp = currentKey ? gpMarks.get(currentKey)! : null;
+      const previousKey = gpKeys[gpKeys.length - 2];
+      const model = modelMarks.get(quarter) ?? null;
+
+      // Companies with no GP mark yet and nothing modelled this quarter aren't in the portfolio NAV
+      if (!gp && !model) continue;
+
+      rows.push({
+        companyId: company.id,
+        companyName: company.companyName,
+        sector: company.sector,
+        ...reconcileHolding({
+          gp,
+          carriedForward: !!gp && currentKey !== quarter,
+          previousGpValue: previousKey ? gpMarks.get(previousKey)!.fairValue : null,
+          model,
+          tolerancePercent,
+        }),
+      });
+    }
+
+    const gpNav = rows.reduce((sum, row) => sum + (row.gpFairValue ?? 0), 0);
+    const modelNav = rows.reduce((sum, row) => sum + (row.modelFairValue ?? row.gpFairValue ?? 0), 0);
+    const adjustedNav = rows.reduce((sum, row) => sum + row.adjustedValue, 0);
+    const modelledGpNav = rows
+      .filter(row => row.modelFairValue !== null)
+      .reduce((sum, row) => sum + (row.gpFairValue ?? 0), 0);
+
+    return {
+      quarter,
+      quarterEnd: quarterEndDate(quarter),
+      gpNav,
+      modelNav,
+      adjustedNav,
+      adjustment: adjustedNav - gpNav,
+      modelCoveragePercent: gpNav > 0 ? Math.round((modelledGpNav / gpNav) * 1000) / 10 : 0,
+      flaggedCount: rows.filter(row => row.flags.some(flag => flag !== "missing_model_mark")).length,
+      holdings: rows.sort((a, b) => (b.gpFairValue ?? 0) - (a.gpFairValue ?? 0)),
+    };
+  }).reverse();
+}
+
+/**
+ * Quarterly GP-vs-model reconciliation for a facility's active portfolio companies.
+ * Returns null when the facility does not exist.
+ */
+export async function reconcileFacilityNav(
+  facilityId: string,
+  options: { tolerancePercent?: number; quarters?: number } = {}
+): Promise<FacilityNavReconciliation | null> {
+  const tolerancePercent = options.tolerancePercent ?? DEFAULT_DEVIATION_TOLERANCE;
+  const quarterLimit = options.quarters ?? DEFAULT_RECONCILIATION_QUARTERS;
+
+  const [facility] = await db.select()
+    .from(facilities)
+    .where(eq(facilities.id, facilityId))
+    .limit(1);
+
+  if (!facility) {
+    return null;
+  }
+
+  const companies = await db.select()
+    .from(portfolioCompanies)
+    .where(and(
+      eq(portfolioCompanies.facilityId, facilityId),
+      eq(portfolioCompanies.status, "active")
+    ));
+
+  const holdings = companies.length === 0 ? [] : await db.select()
+    .from(portfolioHoldings)
+    .where(inArray(portfolioHoldings.companyId, companies.map(c => c.id)))
+    .orderBy(asc(portfolioHoldings.asOfDate), asc(portfolioHoldings.createdAt));
+
+  const quarters = reconcileQuarters(companies, holdings, tolerancePercent, quarterLimit);
+
+  return {
+    facilityId,
+    fundName: facility.fundName,
+    tolerancePercent,
+    quarters,
+    latest: quarters[0] ?? null,
+  };
+}
+
+/**
+ * Store a model valuation as a holding mark alongside the GP-reported ones
+ */
+export async function recordModelMark(params: {
+  companyId: string;
+  asOfDate: Date;
+  valuation: ValuationResult;
+  createdBy?: string;
+}): Promise<PortfolioHolding> {
+  const [company] = await db.select({ investmentAmount: portfolioCompanies.investmentAmount })
+    .from(portfolioCompanies)
+    .where(eq(portfolioCompanies.id, params.companyId))
+    .limit(1);
+
+  if (!company) {
+    throw new Error("Portfolio company not found");
+  }
+
+  const fairValue = Math.round(params.valuation.baseValuation);
+  const costBasis = company.investmentAmount ?? null;
+
+  const [holding] = await db.insert(portfolioHoldings)
+    .values({
+      companyId: params.companyId,
+      asOfDate: params.asOfDate,
+      fairValue,
+      costBasis,
+      unrealizedGain: costBasis !== null ? fairValue - costBasis : null,
+      source: "valuation_model",
+      basis: "model",
+      valuationDetails: {
+        valuationRange: params.valuation.valuationRange,
+        methods: params.valuation.methods,
+        confidence: params.valuation.confidence,
+      },
+      createdBy: params.createdBy ?? null,
+    })
+    .returning();
+
+  return holding;
+}
+
+/**
+ * Record a quarter's adjusted NAV as the facility's collateral NAV, recomputing LTV.
+ * Defaults to the latest reconciled quarter.
+ */
+export async function applyAdjustedNav(params: {
+  facilityId: string;
+  quarter?: string;
+  tolerancePercent?: number;
+  userId?: string;
+}): Promise<
+  | { success: true; quarter: QuarterReconciliation; result: Awaited<ReturnType<typeof recordFacilityNav>> }
+  | { success: false; status: number; error: string }
+> {
+  const reconciliation = await reconcileFacilityNav(params.facilityId, {
+    tolerancePercent: params.tolerancePercent,
+  });
+
+  if (!reconciliation) {
+    return { success: false, status: 404, error: "Facility not found" };
+  }
+
+  const quarter = params.quarter
+    ? reconciliation.quarters.find(q => q.quarter === params.quarter)
+    : reconciliation.latest;
+
+  if (!quarter) {
+    return { success: false, status: 404, error: "No holding marks for that quarter" };
+  }
+
+  if (quarter.adjustedNav <= 0) {
+    return { success: false, status: 400, error: "Adjusted NAV must be positive" };
+  }
+
+  const result = await recordFacilityNav({
+    facilityId: params.facilityId,
+    asOfDate: quarter.quarterEnd,
+    navValue: quarter.adjustedNav,
+    source: "valuation_model",
+    sourceReference: `nav-reconciliation:${quarter.quarter}`,
+    notes: `Adjusted NAV from GP vs model reconciliation at ${reconciliation.tolerancePercent}% tolerance; ` +
+      `${quarter.flaggedCount} holding(s) flagged, adjustment ${quarter.adjustment.toLocaleString("en-US")}`,
+    createdBy: params.userId,
+  });
+
+  return { success: true, quarter, result };
+}
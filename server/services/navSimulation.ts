@@ -0,0 +1,291 @@
+/**
+ * NAV Monte Carlo Simulation
+ * Simulates monthly fund NAV paths over a facility term to estimate the probability
+ * of the LTV crossing its covenant maximum. Sector NAVs follow correlated geometric
+ * Brownian motion under a single market factor: each sector's loading sets its
+ * correlation with the market (and, through it, with other sectors). Scheduled draws,
+ * repayments and distributions move the loan balance and NAV along each path.
+ *
+ * Runs are reproducible: the same inputs and seed give the same result.
+ */
+
+import { normalizeLabel } from "./labelMatching";
+
+export interface SectorAssumption {
+  volatility: number; // Annualised
+  drift: number; // Annualised expected return
+  marketLoading: number; // 0-1; correlation between two sectors is the product of their loadings
+}
+
+export interface CashFlowEvent {
+  month: number; // Months from the start of the term (1 = end of first month)
+  amount: number; // Dollars
+}
+
+export interface NavSimulationInput {
+  fundNav: number;
+  loanBalance: number; // Drawn at the start of the term
+  maxLtv: number; // Percent
+  termMonths?: number;
+  paths?: number;
+  seed?: number;
+  sectorWeights?: Record<string, number>; // Any scale; normalised to sum to 1
+  sectorAssumptions?: Record<string, SectorAssumption>; // Overrides for the defaults below
+  drawSchedule?: CashFlowEvent[]; // Positive amounts draw, negative amounts repay
+  distributionSchedule?: CashFlowEvent[]; // Paid out of NAV
+  horizons?: number[]; // Months at which to report; defaults to each year end and the term
+}
+
+export interface NavPercentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface SimulationHorizon {
+  month: number;
+  breachProbability: number; // Percent of paths that crossed maxLtv at any month up to this one
+  ltvAboveMaxProbability: number; // Percent of paths above maxLtv at this month
+  navPercentiles: NavPercentiles;
+  ltvPercentiles: NavPercentiles;
+}
+
+export interface NavSimulationResult {
+  seed: number;
+  paths: number;
+  termMonths: number;
+  maxLtv: number;
+  sectors: Array<{ sector: string; weight: number } & SectorAssumption>;
+  breachProbability: number; // Percent over the full term
+  medianMonthsToBreach: number | null; // Among paths that breach
+  horizons: SimulationHorizon[];
+  navBands: Array<{ month: number } & NavPercentiles>; // Monthly, month 0 = start
+}
+
+export const DEFAULT_SECTOR_ASSUMPTIONS: Record<string, SectorAssumption> = {
+  technology: { volatility: 0.30, drift: 0.07, marketLoading: 0.75 },
+  software: { volatility: 0.32, drift: 0.08, marketLoading: 0.75 },
+  healthcare: { volatility: 0.22, drift: 0.06, marketLoading: 0.55 },
+  consumer: { volatility: 0.25, drift: 0.05, marketLoading: 0.70 },
+  industrials: { volatility: 0.22, drift: 0.05, marketLoading: 0.70 },
+  "financial services": { volatility: 0.24, drift: 0.05, marketLoading: 0.75 },
+  "real estate": { volatility: 0.20, drift: 0.04, marketLoading: 0.65 },
+  energy: { volatility: 0.35, drift: 0.04, marketLoading: 0.60 },
+  infrastructure: { volatility: 0.15, drift: 0.05, marketLoading: 0.50 },
+};
+
+// Used for unrecognised sectors and when no sector mix is known
+const DIVERSIFIED_ASSUMPTION: SectorAssumption = { volatility: 0.20, drift: 0.05, marketLoading: 0.80 };
+
+const DEFAULT_TERM_MONTHS = 36;
+const DEFAULT_PATHS = 5000;
+export const MAX_SIMULATION_PATHS = 20000;
+// Runs made on the request thread stay within this many path-months (10,000 paths over 36 months)
+export const MAX_INTERACTIVE_PATH_MONTHS = 360000;
+export const MAX_SIMULATION_SEED = 0x7fffffff; // Fits an integer column
+
+/**
+ * Deterministic 32-bit generator (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draws (Box-Muller), using both values of each pair
+function createNormal(random: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    const u = 1 - random(); // (0, 1]
+    const v = random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+}
+
+// Sector names vary ("tech", "Technology", "healthcare_services"); match either way round
+function resolveSectorAssumption(sector: string, assumptions: Record<string, SectorAssumption>): SectorAssumption {
+  const label = normalizeLabel(sector);
+  let best: { key: string; assumption: SectorAssumption } | null = null;
+  for (const [key, assumption] of Object.entries(assumptions)) {
+    const normalized = normalizeLabel(key);
+    if ((label.includes(normalized) || normalized.includes(label)) && (!best || normalized.length > best.key.length)) {
+      best = { key: normalized, assumption };
+    }
+  }
+  return best?.assumption ?? DIVERSIFIED_ASSUMPTION;
+}
+
+function percentiles(values: Float64Array, decimals = 0): NavPercentiles {
+  const sorted = Float64Array.from(values).sort();
+  const at = (p: number) => Number(sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))].toFixed(decimals));
+  return { p5: at(0.05), p25: at(0.25), p50: at(0.5), p75: at(0.75), p95: at(0.95) };
+}
+
+function roundPercent(fraction: number): number {
+  return Number((fraction * 100).toFixed(2));
+}
+
+export function generateSimulationSeed(): number {
+  return Math.floor(Math.random() * MAX_SIMULATION_SEED);
+}
+
+/**
+ * Path count for a simulation run synchronously while serving a request: the requested
+ * (or default) count, reduced so paths x months stays within MAX_INTERACTIVE_PATH_MONTHS
+ */
+export function interactivePathCount(paths: number | undefined, termMonths: number | undefined): number {
+  const budget = Math.floor(MAX_INTERACTIVE_PATH_MONTHS / (termMonths ?? DEFAULT_TERM_MONTHS));
+  return Math.max(100, Math.min(paths ?? DEFAULT_PATHS, budget));
+}
+
+/**
+ * Run the simulation
+ */
+export function simulateNavPaths(input: NavSimulationInput): NavSimulationResult {
+  const termMonths = input.termMonths ?? DEFAULT_TERM_MONTHS;
+  const paths = Math.min(input.paths ?? DEFAULT_PATHS, MAX_SIMULATION_PATHS);
+  const seed = input.seed ?? generateSimulationSeed();
+
+  if (input.fundNav <= 0) {
+    throw new Error("Fund NAV must be greater than zero");
+  }
+  if (!Number.isInteger(termMonths) || termMonths < 1 || termMonths > 240) {
+    throw new Error("Term must be between 1 and 240 months");
+  }
+  if (!Number.isInteger(paths) || paths < 100) {
+    throw new Error("At least 100 paths are required");
+  }
+
+  // Sector mix, normalised; sorted so the draw order (and the result) is stable
+  const assumptions = { ...DEFAULT_SECTOR_ASSUMPTIONS, ...input.sectorAssumptions };
+  const rawWeights = Object.entries(input.sectorWeights ?? {})
+    .filter(([, weight]) => isFinite(weight) && weight > 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+  const totalWeight = rawWeights.reduce((sum, [, weight]) => sum + weight, 0);
+  const sectors = totalWeight > 0
+    ? rawWeights.map(([sector, weight]) => ({
+      sector,
+      weight: weight / totalWeight,
+      ...resolveSectorAssumption(sector, assumptions),
+    }))
+    : [{ sector: "diversified", weight: 1, ...DIVERSIFIED_ASSUMPTION }];
+
+  const draws = new Map<number, number>();
+  for (const event of input.drawSchedule ?? []) {
+    draws.set(event.month, (draws.get(event.month) ?? 0) + event.amount);
+  }
+  const distributions = new Map<number, number>();
+  for (const event of input.distributionSchedule ?? []) {
+    distributions.set(event.month, (distributions.get(event.month) ?? 0) + event.amount);
+  }
+
+  // The loan balance is the same on every path
+  const loanByMonth = new Float64Array(termMonths + 1);
+  loanByMonth[0] = input.loanBalance;
+  for (let month = 1; month <= termMonths; month++) {
+    loanByMonth[month] = Math.max(loanByMonth[month - 1] + (draws.get(month) ?? 0), 0);
+  }
+
+  const dt = 1 / 12;
+  const sqrtDt = Math.sqrt(dt);
+  const stepDrift = sectors.map(s => (s.drift - s.volatility * s.volatility / 2) * dt);
+  const idiosyncratic = sectors.map(s => Math.sqrt(Math.max(1 - s.marketLoading * s.marketLoading, 0)));
+
+  const navByMonth = Array.from({ length: termMonths + 1 }, () => new Float64Array(paths));
+  const firstBreach = new Int32Array(paths).fill(-1);
+  const normal = createNormal(createRandom(seed));
+  const sectorNav = new Float64Array(sectors.length);
+
+  for (let path = 0; path < paths; path++) {
+    let nav = 0;
+    for (let i = 0; i < sectors.length; i++) {
+      sectorNav[i] = input.fundNav * sectors[i].weight;
+      nav += sectorNav[i];
+    }
+    navByMonth[0][path] = nav;
+    if (loanByMonth[0] / nav * 100 > input.maxLtv) firstBreach[path] = 0;
+
+    for (let month = 1; month <= termMonths; month++) {
+      const market = normal();
+      nav = 0;
+      for (let i = 0; i < sectors.length; i++) {
+        const shock = sectors[i].marketLoading * market + idiosyncratic[i] * normal();
+        sectorNav[i] *= Math.exp(stepDrift[i] + sectors[i].volatility * sqrtDt * shock);
+        nav += sectorNav[i];
+      }
+
+      // Distributions come out of every sector pro rata
+      const distribution = distributions.get(month);
+      if (distribution && nav > 0) {
+        const remaining = Math.max(nav - distribution, 0) / nav;
+        nav = 0;
+        for (let i = 0; i < sectors.length; i++) {
+          sectorNav[i] *= remaining;
+          nav += sectorNav[i];
+        }
+      }
+
+      navByMonth[month][path] = nav;
+      const ltv = nav > 0 ? loanByMonth[month] / nav * 100 : Infinity;
+      if (firstBreach[path] < 0 && ltv > input.maxLtv) {
+        firstBreach[path] = month;
+      }
+    }
+  }
+
+  const navPercentiles = navByMonth.map(values => percentiles(values));
+  const navBands = navPercentiles.map((bands, month) => ({ month, ...bands }));
+
+  const defaultHorizons = Array.from({ length: Math.floor(termMonths / 12) }, (_, i) => (i + 1) * 12);
+  const horizons = Array.from(new Set(input.horizons ?? [...defaultHorizons, termMonths]))
+    .filter(month => month >= 1 && month <= termMonths)
+    .sort((a, b) => a - b)
+    .map(month => {
+      const navs = navByMonth[month];
+      const loan = loanByMonth[month];
+      let breached = 0;
+      let above = 0;
+      const ltvs = new Float64Array(paths);
+      for (let path = 0; path < paths; path++) {
+        if (firstBreach[path] >= 0 && firstBreach[path] <= month) breached++;
+        ltvs[path] = navs[path] > 0 ? loan / navs[path] * 100 : 1000;
+        if (ltvs[path] > input.maxLtv) above++;
+      }
+      return {
+        month,
+        breachProbability: roundPercent(breached / paths),
+        ltvAboveMaxProbability: roundPercent(above / paths),
+        navPercentiles: navPercentiles[month],
+        ltvPercentiles: percentiles(ltvs, 2),
+      };
+    });
+
+  const breachMonths = Array.from(firstBreach).filter(month => month >= 0).sort((a, b) => a - b);
+
+  return {
+    seed,
+    paths,
+    termMonths,
+    maxLtv: input.maxLtv,
+    sectors,
+    breachProbability: roundPercent(breachMonths.length / paths),
+    medianMonthsToBreach: breachMonths.length > 0 ? breachMonths[Math.floor(breachMonths.length / 2)] : null,
+    horizons,
+    navBands,
+  };
+}
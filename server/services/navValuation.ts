@@ -2,6 +2,7 @@ import { GoogleGenAI } from "@google/genai";
 import { db } from "../db";
 import { portfolioCompanies, portfolioHoldings, facilities } from "@shared/schema";
 import { eq, and, desc, sql } from "drizzle-orm";
+import { runValuationMethods, type MethodValuation, type ValuationMethod } from "./valuationMethods";
 
 // Initialize Gemini AI with proper error handling
 const genAI = process.env.GEMINI_API_KEY 
@@ -13,7 +14,18 @@ export interface ValuationInput {
   currentRevenue?: number;
   currentEBITDA?: number;
   revenueGrowthRate?: number;
-  industryMultiple?: number;
+  industryMultiple?: number; // EV/EBITDA; overrides the sector median
+  netDebt?: number;
+  dcf?: {
+    wacc: number; // Percent
+    terminalGrowth: number; // Percent
+    projectedCashFlows?: number[];
+  };
+  lastRound?: {
+    postMoneyValuation: number;
+    date: string | Date;
+  };
+  methodWeights?: Partial<Record<ValuationMethod, number>>;
   customFactors?: Record<string, any>;
 }
 
@@ -27,6 +39,7 @@ export interface ValuationResult {
   methodology: string;
   assumptions: string[];
   confidence: number;
+  methods: MethodValuation[]; // Each method's range and its weight in the blend
   aiInsights?: string;
 }
 
@@ -92,15 +105,56 @@ export async function calculateCompanyValuation(
     // Get latest holdings data
     const [latestHolding] = await db.select()
       .from(portfolioHoldings)
-      .where(eq(portfolioHoldings.companyId, input.companyId))
+      .where(and(
+        eq(portfolioHoldings.companyId, input.companyId),
+        eq(portfolioHoldings.basis, "gp_reported")
+      ))
       .orderBy(desc(portfolioHoldings.asOfDate))
       .limit(1);
 
-    // Use AI to enhance valuation with market intelligence (if available)
+    // Deterministic methods set the numbers; AI commentary never changes them
+    const blended = runValuationMethods({
+      sector: company.sector,
+      industry: company.industry,
+      revenue: input.currentRevenue,
+      ebitda: input.currentEBITDA,
+      revenueGrowthRate: input.revenueGrowthRate,
+      evEbitdaMultiple: input.industryMultiple,
+      netDebt: input.netDebt,
+      ownershipPercent: company.ownershipPercentage ? Number(company.ownershipPercentage) : null,
+      dcf: input.dcf,
+      lastRound: input.lastRound
+        ? { postMoneyValuation: input.lastRound.postMoneyValuation, date: new Date(input.lastRound.date) }
+        : undefined,
+      cost: company.investmentAmount
+        ? { amount: company.investmentAmount, investmentDate: company.investmentDate }
+        : undefined,
+      reportedFairValue: latestHolding?.fairValue ?? company.currentValue,
+      methodWeights: input.methodWeights,
+    });
+
+    const valuationRange = { low: blended.low, mid: blended.mid, high: blended.high };
+    const methodology = blended.methods.length > 0
+      ? `Blended: ${blended.methods.map(m => `${m.label} ${m.weight}%`).join(", ")}`
+      : "No valuation inputs available";
+
+    const assumptions = [
+      `Industry: ${company.industry || "General"}`,
+      `Geography: ${company.geography || "Global"}`,
+      ...blended.methods.flatMap(m => m.notes.map(note => `${m.label}: ${note}`)),
+    ];
+    if (input.netDebt) {
+      assumptions.push(`Net debt deducted from enterprise values: $${input.netDebt.toLocaleString()}`);
+    }
+    if (company.ownershipPercentage) {
+      assumptions.push(`Fund ownership: ${company.ownershipPercentage}%`);
+    }
+
+    // Use AI for qualitative insights (if available)
     let aiAnalysis = null;
     
     if (genAI) {
-      const aiPrompt = `You are a private equity valuation expert. Analyze this company and provide valuation insights:
+      const aiPrompt = `You are a private equity valuation expert. Review this company's valuation and provide qualitative insights:
 
 Company: ${company.companyName}
 Industry: ${company.industry || "Unknown"}
@@ -114,21 +168,14 @@ Additional Data:
 - Current Revenue: ${input.currentRevenue ? `$${input.currentRevenue.toLocaleString()}` : "Not provided"}
 - Current EBITDA: ${input.currentEBITDA ? `$${input.currentEBITDA.toLocaleString()}` : "Not provided"}
 - Revenue Growth Rate: ${input.revenueGrowthRate ? `${input.revenueGrowthRate}%` : "Not provided"}
-- Industry Multiple: ${input.industryMultiple ? `${input.industryMultiple}x` : "Not provided"}
 
-Based on typical market conditions for ${company.industry || "this industry"} companies in ${company.geography || "this geography"}, provide:
-1. A valuation range (conservative, mid-point, optimistic)
-2. Key assumptions for the valuation
-3. Risk factors that could impact valuation
-4. Industry-specific considerations
+Model valuation: $${valuationRange.mid.toLocaleString()} (range $${valuationRange.low.toLocaleString()} - $${valuationRange.high.toLocaleString()})
+${methodology}
+
+Based on typical market conditions for ${company.industry || "this industry"} companies in ${company.geography || "this geography"}, summarise the key risk factors and industry-specific considerations for this valuation.
 
 Respond in JSON format:
 {
-  "conservativeValuation": <number>,
-  "midPointValuation": <number>,
-  "optimisticValuation": <number>,
-  "keyAssumptions": ["assumption1", "assumption2", ...],
-  "riskFactors": ["risk1", "risk2", ...],
   "insights": "Brief paragraph of key insights"
 }`;
 
@@ -147,70 +194,27 @@ Respond in JSON format:
         aiAnalysis = null;
       }
     } else {
-      console.warn("Gemini AI not available - valuation will use traditional methods only");
-    }
-
-    // Calculate baseline valuation using traditional methods
-    let baselineValuation = latestHolding?.fairValue || company.currentValue || company.investmentAmount || 0;
-
-    // If we have revenue/EBITDA data, use multiple-based valuation
-    if (input.currentEBITDA && input.industryMultiple) {
-      baselineValuation = input.currentEBITDA * input.industryMultiple;
-    } else if (input.currentRevenue && input.industryMultiple) {
-      // Use revenue multiple as fallback
-      baselineValuation = input.currentRevenue * (input.industryMultiple / 5); // Assume 5x EBITDA = 1x Revenue roughly
-    }
-
-    // Apply growth adjustments if provided
-    if (input.revenueGrowthRate && input.revenueGrowthRate > 0) {
-      const growthMultiplier = 1 + (input.revenueGrowthRate / 100 * 0.5); // 50% of growth impacts valuation
-      baselineValuation *= growthMultiplier;
+      console.warn("Gemini AI not available - valuation will use deterministic methods only");
     }
 
-    // Use AI insights if available, otherwise use conservative ranges
-    const valuationRange = aiAnalysis ? {
-      low: aiAnalysis.conservativeValuation || baselineValuation * 0.8,
-      mid: aiAnalysis.midPointValuation || baselineValuation,
-      high: aiAnalysis.optimisticValuation || baselineValuation * 1.2,
-    } : {
-      low: baselineValuation * 0.8,
-      mid: baselineValuation,
-      high: baselineValuation * 1.2,
+    // Confidence reflects the evidence behind the blend, and falls when methods disagree
+    const CONFIDENCE_BY_METHOD: Record<ValuationMethod, number> = {
+      ev_ebitda: 15,
+      dcf: 10,
+      ev_revenue: 10,
+      last_round: 10,
+      cost: 0,
+      reported_fair_value: 0,
     };
-
-    // Determine methodology used
-    let methodology = "Market-based valuation";
-    if (input.currentEBITDA && input.industryMultiple) {
-      methodology = "EBITDA Multiple";
-    } else if (input.currentRevenue && input.industryMultiple) {
-      methodology = "Revenue Multiple";
-    } else if (latestHolding) {
-      methodology = "Latest Fair Value from Holdings";
-    } else {
-      methodology = "Cost Basis (Investment Amount)";
+    let confidence = 50; // Base confidence
+    for (const method of blended.methods) {
+      confidence += CONFIDENCE_BY_METHOD[method.method];
     }
-
-    // Compile assumptions
-    const assumptions = aiAnalysis?.keyAssumptions || [
-      `Industry: ${company.industry || "General"}`,
-      `Geography: ${company.geography || "Global"}`,
-      `Methodology: ${methodology}`,
-    ];
-
-    if (input.industryMultiple) {
-      assumptions.push(`Industry Multiple: ${input.industryMultiple}x`);
-    }
-    if (input.revenueGrowthRate) {
-      assumptions.push(`Revenue Growth Rate: ${input.revenueGrowthRate}%`);
+    const mids = blended.methods.map(m => m.mid);
+    if (mids.length > 1 && valuationRange.mid > 0 && (Math.max(...mids) - Math.min(...mids)) / valuationRange.mid > 0.5) {
+      confidence -= 10;
     }
-
-    // Calculate confidence based on data quality
-    let confidence = 60; // Base confidence
-    if (input.currentEBITDA) confidence += 15;
-    if (input.currentRevenue) confidence += 10;
-    if (input.industryMultiple) confidence += 10;
-    if (aiAnalysis) confidence += 5;
-    confidence = Math.min(confidence, 95); // Cap at 95%
+    confidence = Math.max(Math.min(confidence, 95), 10); // Cap at 95%
 
     return {
       baseValuation: valuationRange.mid,
@@ -218,6 +222,7 @@ Respond in JSON format:
       methodology,
       assumptions,
       confidence,
+      methods: blended.methods,
       aiInsights: aiAnalysis?.insights,
     };
   } catch (error) {
@@ -356,7 +361,10 @@ export async function calculatePortfolioNAV(
     const holdingsPromises = companies.map(async (company) => {
       const [holding] = await db.select()
         .from(portfolioHoldings)
-        .where(eq(portfolioHoldings.companyId, company.id))
+        .where(and(
+          eq(portfolioHoldings.companyId, company.id),
+          eq(portfolioHoldings.basis, "gp_reported")
+        ))
         .orderBy(desc(portfolioHoldings.asOfDate))
         .limit(1);
       
@@ -1,3 +1,4 @@
+import { type Request } from "express";
 import { db } from "../db";
 import {
   notificationDeliveries,
@@ -5,8 +6,11 @@ import {
   notifications,
   users,
   type InsertNotificationDelivery,
+  type NotificationDelivery,
 } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, or, inArray, lt, lte, asc, desc, sql } from "drizzle-orm";
+import { createAuditLog, AuditActions, EntityTypes } from "../auditLogger";
+import { isInQuietHours, holdForDigest } from "./notificationDigests";
 
 interface DeliveryChannel {
   send(params: {
@@ -88,18 +92,41 @@ class SMSChannel implements DeliveryChannel {
   }
 }
 
-// Email via Resend (placeholder - requires Resend setup)
+// Email via SMTP, rendered per recipient from the notification's template
 class EmailChannel implements DeliveryChannel {
   async send(params: { recipient: string; message: string; metadata?: any }) {
     const { recipient, message, metadata } = params;
-    
-    // This would use Resend when set up
-    console.log(`Email to ${recipient}: ${message}`);
-    
-    return {
-      success: true,
-      messageId: `email-placeholder-${Date.now()}`,
-    };
+
+    try {
+      const { sendEmail, isSmtpConfigured } = await import('./emailService');
+      const { loadNotificationEmailContext, renderNotificationEmail } = await import('./emailTemplates');
+
+      if (!isSmtpConfigured()) {
+        console.warn('SMTP not configured - email notifications will be skipped');
+        return {
+          success: false,
+          error: "Email service not configured. Please add SMTP settings (SMTP_HOST, SMTP_PORT, SMTP_FROM) to enable email notifications.",
+        };
+      }
+
+      const context = await loadNotificationEmailContext({
+        type: metadata?.type,
+        userId: metadata?.userId,
+        message,
+        notificationId: metadata?.notificationId,
+        relatedEntityType: metadata?.relatedEntityType,
+        relatedEntityId: metadata?.relatedEntityId,
+        digest: metadata?.digest,
+      });
+
+      return await sendEmail({ to: recipient, ...renderNotificationEmail(context) });
+    } catch (error) {
+      console.error('Email delivery error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send email',
+      };
+    }
   }
 }
 
@@ -124,6 +151,123 @@ const channels: Record<string, DeliveryChannel> = {
   in_app: new InAppChannel(),
 };
 
+// Failed sends are retried from the queue with exponential backoff (1, 2, 4, 8, 16 min)
+// and dead-lettered once the attempts are exhausted
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A delivery stuck in "sending" this long was interrupted (e.g. a restart) and is reclaimed
+const STALE_SENDING_MS = 10 * 60 * 1000;
+const QUEUE_BATCH_SIZE = 50;
+
+export function retryDelayMs(failedAttempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (failedAttempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Make one send attempt for a queued delivery and record the outcome. The row is
+ * claimed first so concurrent workers never send the same delivery twice; returns
+ * null when another worker already holds it.
+ */
+async function attemptDelivery(delivery: NotificationDelivery): Promise<NotificationDelivery | null> {
+  const now = new Date();
+  const [claimed] = await db.update(notificationDeliveries)
+    .set({ status: "sending", lastAttemptAt: now })
+    .where(
+      and(
+        eq(notificationDeliveries.id, delivery.id),
+        or(
+          inArray(notificationDeliveries.status, ["pending", "retrying"]),
+          and(
+            eq(notificationDeliveries.status, "sending"),
+            lt(notificationDeliveries.lastAttemptAt, new Date(now.getTime() - STALE_SENDING_MS))
+          )
+        )
+      )
+    )
+    .returning();
+
+  if (!claimed) return null;
+
+  const channelHandler = channels[claimed.channel];
+  let result: { success: boolean; messageId?: string; error?: string };
+  if (!channelHandler) {
+    result = { success: false, error: `Unknown channel: ${claimed.channel}` };
+  } else {
+    try {
+      result = await channelHandler.send({
+        recipient: claimed.recipient,
+        message: claimed.messageContent,
+        metadata: claimed.metadata,
+      });
+    } catch (error) {
+      result = { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  if (result.success) {
+    const [sent] = await db.update(notificationDeliveries)
+      .set({
+        status: "sent",
+        providerMessageId: result.messageId,
+        deliveredAt: new Date(),
+        nextAttemptAt: null,
+        error: null,
+      })
+      .where(eq(notificationDeliveries.id, claimed.id))
+      .returning();
+    return sent;
+  }
+
+  // An unknown channel will never succeed, so don't bother retrying it
+  const failedAttempts = (claimed.retryCount ?? 0) + 1;
+  const exhausted = !channelHandler || failedAttempts >= MAX_DELIVERY_ATTEMPTS;
+  const [failed] = await db.update(notificationDeliveries)
+    .set({
+      status: exhausted ? "dead_letter" : "retrying",
+      retryCount: failedAttempts,
+      nextAttemptAt: exhausted ? null : new Date(Date.now() + retryDelayMs(failedAttempts)),
+      error: result.error ?? "Delivery failed",
+    })
+    .where(eq(notificationDeliveries.id, claimed.id))
+    .returning();
+
+  if (exhausted) {
+    console.error(`Notification delivery ${claimed.id} (${claimed.channel} to ${claimed.recipient}) dead-lettered after ${failedAttempts} attempt(s): ${failed.error}`);
+  }
+  return failed;
+}
+
+/**
+ * Put a send on the delivery queue and make the first attempt inline; a failed
+ * attempt stays queued for the retry worker
+ */
+export async function queueDelivery(params: {
+  userId: string;
+  notificationId?: string;
+  channel: string;
+  recipient: string;
+  type: string;
+  message: string;
+  metadata: Record<string, any>;
+}): Promise<NotificationDelivery> {
+  const [delivery] = await db.insert(notificationDeliveries)
+    .values({
+      notificationId: params.notificationId,
+      userId: params.userId,
+      channel: params.channel,
+      recipient: params.recipient,
+      messageTemplate: params.channel === "email" ? params.type : undefined,
+      messageContent: params.message,
+      provider: params.channel === "sms" ? "twilio" : params.channel === "email" ? "smtp" : params.channel,
+      nextAttemptAt: new Date(),
+      metadata: params.metadata,
+    })
+    .returning();
+
+  return (await attemptDelivery(delivery)) ?? delivery;
+}
+
 export async function sendNotification(params: {
   userId: string;
   message: string;
@@ -135,6 +279,8 @@ export async function sendNotification(params: {
 }): Promise<{
   sent: number;
   failed: number;
+  retrying: number;
+  digested: number;
   deliveries: string[];
 }> {
   const { userId, message, type, notificationId, urgency = "normal", metadata, preferenceIds } = params;
@@ -167,87 +313,167 @@ export async function sendNotification(params: {
 
   let sent = 0;
   let failed = 0;
+  let retrying = 0;
+  let digested = 0;
   const deliveries: string[] = [];
 
+  let userEmail: string | null | undefined;
+
   for (const pref of channelsToUse) {
     const channel = pref.channel || "in_app";
-    const recipient = (pref as any).contactInfo || userId;
-
-    // Skip if urgency is low and we're in quiet hours
-    if (urgency === "low" && (pref as any).quietHoursStart && (pref as any).quietHoursEnd) {
-      const now = new Date();
-      const hour = now.getHours();
-      const quietStart = parseInt((pref as any).quietHoursStart?.split(":")[0] || "22");
-      const quietEnd = parseInt((pref as any).quietHoursEnd?.split(":")[0] || "8");
-      
-      if (hour >= quietStart || hour < quietEnd) {
-        continue; // Skip during quiet hours
+    let recipient = (pref as any).contactInfo || userId;
+
+    // Email preferences without an address go to the account's email
+    if (channel === "email" && !(pref as any).contactInfo) {
+      if (userEmail === undefined) {
+        const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+        userEmail = user?.email ?? null;
       }
+      recipient = userEmail ?? userId;
     }
 
-    // Create delivery record
-    const [delivery] = await db.insert(notificationDeliveries)
-      .values({
-        notificationId,
-        channel,
-        recipient,
-        messageContent: message,
-        provider: channel === "sms" ? "twilio" : channel === "email" ? "resend" : channel,
-        metadata,
-      })
-      .returning();
-
-    // Send via channel
-    const channelHandler = channels[channel];
-    if (!channelHandler) {
-      await db.update(notificationDeliveries)
-        .set({
-          status: "failed",
-          error: `Unknown channel: ${channel}`,
-        })
-        .where(eq(notificationDeliveries.id, delivery.id));
-      failed++;
+    // Low-urgency messages arriving in the recipient's quiet hours are held for their digest
+    if (urgency === "low" && channel !== "in_app" && "id" in pref && isInQuietHours(pref)) {
+      await holdForDigest(pref, { userId, recipient, notificationId, type, message });
+      digested++;
       continue;
     }
 
-    try {
-      const result = await channelHandler.send({
-        recipient,
-        message,
-        metadata: { ...metadata, notificationId },
-      });
-
-      if (result.success) {
-        await db.update(notificationDeliveries)
-          .set({
-            status: "sent",
-            providerMessageId: result.messageId,
-            deliveredAt: new Date(),
-          })
-          .where(eq(notificationDeliveries.id, delivery.id));
-        sent++;
-        deliveries.push(delivery.id);
-      } else {
-        await db.update(notificationDeliveries)
-          .set({
-            status: "failed",
-            error: result.error,
-          })
-          .where(eq(notificationDeliveries.id, delivery.id));
-        failed++;
-      }
-    } catch (error) {
-      await db.update(notificationDeliveries)
-        .set({
-          status: "failed",
-          error: error instanceof Error ? error.message : String(error),
-        })
-        .where(eq(notificationDeliveries.id, delivery.id));
+    const attempted = await queueDelivery({
+      userId,
+      notificationId,
+      channel,
+      recipient,
+      type,
+      message,
+      metadata: { ...metadata, notificationId, type, userId },
+    });
+    if (attempted.status === "sent") {
+      sent++;
+      deliveries.push(attempted.id);
+    } else if (attempted.status === "retrying") {
+      retrying++;
+    } else {
       failed++;
     }
   }
 
-  return { sent, failed, deliveries };
+  return { sent, failed, retrying, digested, deliveries };
+}
+
+/**
+ * Retry every queued delivery that has come due. Run by the scheduler every minute.
+ */
+export async function processDeliveryQueue(limit: number = QUEUE_BATCH_SIZE): Promise<{
+  processed: number;
+  sent: number;
+  retrying: number;
+  deadLettered: number;
+}> {
+  const now = new Date();
+  const due = await db.select()
+    .from(notificationDeliveries)
+    .where(
+      or(
+        and(
+          inArray(notificationDeliveries.status, ["pending", "retrying"]),
+          lte(notificationDeliveries.nextAttemptAt, now)
+        ),
+        and(
+          eq(notificationDeliveries.status, "sending"),
+          lt(notificationDeliveries.lastAttemptAt, new Date(now.getTime() - STALE_SENDING_MS))
+        )
+      )
+    )
+    .orderBy(asc(notificationDeliveries.nextAttemptAt))
+    .limit(limit);
+
+  const summary = { processed: 0, sent: 0, retrying: 0, deadLettered: 0 };
+  for (const delivery of due) {
+    const attempted = await attemptDelivery(delivery);
+    if (!attempted) continue;
+    summary.processed++;
+    if (attempted.status === "sent") summary.sent++;
+    else if (attempted.status === "retrying") summary.retrying++;
+    else if (attempted.status === "dead_letter") summary.deadLettered++;
+  }
+
+  return summary;
+}
+
+/**
+ * Put a dead-lettered delivery back on the queue with a fresh set of attempts and
+ * try it straight away
+ */
+export async function replayDelivery(
+  id: string,
+  user: Express.User,
+  req?: Request
+): Promise<
+  | { success: true; delivery: NotificationDelivery }
+  | { success: false; status: number; error: string }
+> {
+  const [delivery] = await db.select()
+    .from(notificationDeliveries)
+    .where(eq(notificationDeliveries.id, id))
+    .limit(1);
+
+  if (!delivery) {
+    return { success: false, status: 404, error: "Delivery not found" };
+  }
+  if (delivery.status !== "dead_letter" && delivery.status !== "failed") {
+    return { success: false, status: 409, error: `Only dead-lettered deliveries can be replayed (status is ${delivery.status})` };
+  }
+
+  const [requeued] = await db.update(notificationDeliveries)
+    .set({ status: "pending", retryCount: 0, nextAttemptAt: new Date() })
+    .where(eq(notificationDeliveries.id, id))
+    .returning();
+
+  await createAuditLog({
+    userId: user.id,
+    userRole: user.role,
+    action: AuditActions.REPLAY_NOTIFICATION_DELIVERY,
+    entityType: EntityTypes.NOTIFICATION_DELIVERY,
+    entityId: id,
+    changes: {
+      channel: delivery.channel,
+      recipient: delivery.recipient,
+      previousAttempts: delivery.retryCount,
+      lastError: delivery.error,
+    },
+    req,
+  });
+
+  const attempted = await attemptDelivery(requeued);
+  return { success: true, delivery: attempted ?? requeued };
+}
+
+/**
+ * Deliveries for the operations queue view, newest first, with counts by status
+ */
+export async function getDeliveryQueue(filters: { status?: string; channel?: string; limit?: number }) {
+  const conditions = [];
+  if (filters.status) conditions.push(eq(notificationDeliveries.status, filters.status));
+  if (filters.channel) conditions.push(eq(notificationDeliveries.channel, filters.channel));
+
+  const deliveries = await db.select()
+    .from(notificationDeliveries)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(notificationDeliveries.createdAt))
+    .limit(filters.limit ?? 100);
+
+  const counts = await db.select({
+    status: notificationDeliveries.status,
+    count: sql<number>`count(*)::int`,
+  })
+    .from(notificationDeliveries)
+    .groupBy(notificationDeliveries.status);
+
+  return {
+    counts: Object.fromEntries(counts.map((c) => [c.status, c.count])) as Record<string, number>,
+    deliveries,
+  };
 }
 
 // Get delivery status for a notification
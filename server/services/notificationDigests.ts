@@ -0,0 +1,342 @@
+/**
+ * Quiet Hours & Digests
+ * Evaluates each preference's quiet hours in its own timezone to the minute, holds
+ * low-urgency notifications that arrive inside them, and sends the held items as a
+ * single digest per channel once quiet hours end (daily) or on Monday (weekly).
+ */
+
+import { db } from "../db";
+import {
+  cashFlows,
+  complianceCertificates,
+  covenants,
+  drawRequests,
+  facilities,
+  notificationDigestItems,
+  notificationPreferences,
+  notifications,
+  type NotificationDigestItem,
+  type NotificationPreference,
+} from "@shared/schema";
+import { and, asc, eq, inArray, isNull, lte } from "drizzle-orm";
+import { queueDelivery } from "./notificationDelivery";
+
+const MINUTES_PER_DAY = 24 * 60;
+const DEFAULT_TIMEZONE = "America/New_York";
+const WEEKLY_DIGEST_DAY = "Mon";
+
+export interface DigestGroup {
+  facilityName: string;
+  items: Array<{ type: string; message: string; createdAt: string }>;
+}
+
+export interface NotificationDigest {
+  frequency: "daily" | "weekly";
+  itemCount: number;
+  groups: DigestGroup[];
+}
+
+// "HH:MM" -> minutes after midnight
+function parseClockTime(value: string | null | undefined): number | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function resolveTimezone(timezone: string | null | undefined): string {
+  const zone = timezone || DEFAULT_TIMEZONE;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return zone;
+  } catch {
+    console.warn(`Unknown timezone "${zone}" on notification preference - using UTC`);
+    return "UTC";
+  }
+}
+
+/**
+ * Wall-clock minutes after midnight and weekday at an instant in a timezone
+ */
+function localClock(date: Date, timeZone: string): { minutes: number; weekday: string } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    weekday: "short",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "0";
+  return {
+    minutes: parseInt(part("hour")) * 60 + parseInt(part("minute")),
+    weekday: part("weekday"),
+  };
+}
+
+// Nudge an instant so its local wall-clock time is `targetMinutes` (absorbs DST shifts)
+function alignToLocalMinutes(candidate: Date, targetMinutes: number, timeZone: string): Date {
+  let drift = targetMinutes - localClock(candidate, timeZone).minutes;
+  if (drift > MINUTES_PER_DAY / 2) drift -= MINUTES_PER_DAY;
+  if (drift < -MINUTES_PER_DAY / 2) drift += MINUTES_PER_DAY;
+  return new Date(candidate.getTime() + drift * 60 * 1000);
+}
+
+/**
+ * Check quiet-hours fields on a preference create/update; returns an error message or null
+ */
+export function validateQuietHoursSettings(settings: {
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  timezone?: string | null;
+  digestFrequency?: string | null;
+}): string | null {
+  for (const field of ["quietHoursStart", "quietHoursEnd"] as const) {
+    const value = settings[field];
+    if (value && parseClockTime(value) === null) {
+      return `${field} must be a 24-hour HH:MM time`;
+    }
+  }
+  if (settings.timezone) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: settings.timezone });
+    } catch {
+      return `Unknown timezone: ${settings.timezone}`;
+    }
+  }
+  if (settings.digestFrequency && !["daily", "weekly"].includes(settings.digestFrequency)) {
+    return "digestFrequency must be 'daily' or 'weekly'";
+  }
+  return null;
+}
+
+function quietWindow(preference: NotificationPreference) {
+  const start = parseClockTime(preference.quietHoursStart);
+  const end = parseClockTime(preference.quietHoursEnd);
+  if (start === null || end === null || start === end) return null;
+  return { start, end, timeZone: resolveTimezone(preference.timezone) };
+}
+
+/**
+ * Whether `now` falls inside the preference's quiet hours, in the preference's timezone.
+ * Windows may wrap midnight (22:00-07:30); the end minute itself is outside the window.
+ */
+export function isInQuietHours(preference: NotificationPreference, now: Date = new Date()): boolean {
+  const window = quietWindow(preference);
+  if (!window) return false;
+
+  const { minutes } = localClock(now, window.timeZone);
+  return window.start < window.end
+    ? minutes >= window.start && minutes < window.end
+    : minutes >= window.start || minutes < window.end;
+}
+
+/**
+ * The next instant the preference's quiet hours end, from `now`
+ */
+export function nextQuietHoursEnd(preference: NotificationPreference, now: Date = new Date()): Date | null {
+  const window = quietWindow(preference);
+  if (!window) return null;
+
+  const { minutes } = localClock(now, window.timeZone);
+  const minutesUntilEnd = (window.end - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+  const startOfMinute = Math.floor(now.getTime() / 60000) * 60000;
+  return alignToLocalMinutes(new Date(startOfMinute + minutesUntilEnd * 60 * 1000), window.end, window.timeZone);
+}
+
+/**
+ * When a digest held now should go out: at the end of these quiet hours for daily
+ * digests, or at the end of Monday's quiet hours for weekly ones
+ */
+export function digestDueAt(preference: NotificationPreference, now: Date = new Date()): Date | null {
+  const window = quietWindow(preference);
+  let due = nextQuietHoursEnd(preference, now);
+  if (!window || !due || preference.digestFrequency !== "weekly") return due;
+
+  while (localClock(due, window.timeZone).weekday !== WEEKLY_DIGEST_DAY) {
+    due = alignToLocalMinutes(new Date(due.getTime() + MINUTES_PER_DAY * 60 * 1000), window.end, window.timeZone);
+  }
+  return due;
+}
+
+// Facility a notification is about, for grouping the digest
+export async function resolveFacilityId(notificationId: string | undefined): Promise<string | null> {
+  if (!notificationId) return null;
+  const [notification] = await db.select()
+    .from(notifications)
+    .where(eq(notifications.id, notificationId))
+    .limit(1);
+  const entityId = notification?.relatedEntityId;
+  if (!entityId) return null;
+
+  switch (notification.relatedEntityType) {
+    case "facility":
+      return entityId;
+    case "covenant": {
+      const [row] = await db.select({ facilityId: covenants.facilityId }).from(covenants).where(eq(covenants.id, entityId)).limit(1);
+      return row?.facilityId ?? null;
+    }
+    case "cash_flow": {
+      const [row] = await db.select({ facilityId: cashFlows.facilityId }).from(cashFlows).where(eq(cashFlows.id, entityId)).limit(1);
+      return row?.facilityId ?? null;
+    }
+    case "draw_request": {
+      const [row] = await db.select({ facilityId: drawRequests.facilityId }).from(drawRequests).where(eq(drawRequests.id, entityId)).limit(1);
+      return row?.facilityId ?? null;
+    }
+    case "compliance_certificate": {
+      const [row] = await db.select({ facilityId: complianceCertificates.facilityId })
+        .from(complianceCertificates)
+        .where(eq(complianceCertificates.id, entityId))
+        .limit(1);
+      return row?.facilityId ?? null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Hold a notification for the preference's next digest instead of sending it now
+ */
+export async function holdForDigest(
+  preference: NotificationPreference,
+  item: { userId: string; recipient: string; notificationId?: string; type: string; message: string },
+  now: Date = new Date()
+): Promise<NotificationDigestItem> {
+  const [held] = await db.insert(notificationDigestItems)
+    .values({
+      preferenceId: preference.id,
+      userId: item.userId,
+      channel: preference.channel,
+      recipient: item.recipient,
+      notificationId: item.notificationId,
+      type: item.type,
+      message: item.message,
+      facilityId: await resolveFacilityId(item.notificationId),
+      scheduledFor: digestDueAt(preference, now) ?? now,
+    })
+    .returning();
+  return held;
+}
+
+function typeLabel(type: string): string {
+  const label = type.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * Group held items by facility, then by type within each facility
+ */
+export function buildDigest(
+  items: NotificationDigestItem[],
+  facilityNames: Map<string, string>,
+  frequency: "daily" | "weekly"
+): NotificationDigest {
+  const groups = new Map<string, DigestGroup>();
+  const sorted = [...items].sort((a, b) =>
+    a.type.localeCompare(b.type) || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+
+  for (const item of sorted) {
+    const facilityName = (item.facilityId && facilityNames.get(item.facilityId)) || "General";
+    const group = groups.get(facilityName) ?? { facilityName, items: [] };
+    group.items.push({ type: item.type, message: item.message, createdAt: item.createdAt.toISOString() });
+    groups.set(facilityName, group);
+  }
+
+  return {
+    frequency,
+    itemCount: items.length,
+    groups: Array.from(groups.values()).sort((a, b) =>
+      a.facilityName === "General" ? 1 : b.facilityName === "General" ? -1 : a.facilityName.localeCompare(b.facilityName)
+    ),
+  };
+}
+
+/**
+ * Plain-text digest for Slack/SMS and the delivery log
+ */
+export function renderDigestText(digest: NotificationDigest): string {
+  const lines = [
+    `AlphaNAV ${digest.frequency} digest: ${digest.itemCount} notification${digest.itemCount === 1 ? "" : "s"} from your quiet hours`,
+  ];
+  for (const group of digest.groups) {
+    lines.push("", group.facilityName);
+    let currentType: string | null = null;
+    for (const item of group.items) {
+      if (item.type !== currentType) {
+        currentType = item.type;
+        lines.push(`  ${typeLabel(item.type)} (${group.items.filter((i) => i.type === item.type).length})`);
+      }
+      lines.push(`  - ${item.message}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Send every digest that has come due, one per preference. Run by the scheduler.
+ */
+export async function sendDueDigests(now: Date = new Date()): Promise<{ digests: number; items: number }> {
+  const due = await db.select()
+    .from(notificationDigestItems)
+    .where(and(isNull(notificationDigestItems.digestedAt), lte(notificationDigestItems.scheduledFor, now)))
+    .orderBy(asc(notificationDigestItems.createdAt));
+
+  if (due.length === 0) return { digests: 0, items: 0 };
+
+  const byPreference = new Map<string, NotificationDigestItem[]>();
+  for (const item of due) {
+    byPreference.set(item.preferenceId, [...(byPreference.get(item.preferenceId) ?? []), item]);
+  }
+
+  const facilityIds = Array.from(new Set(due.map((item) => item.facilityId).filter((id): id is string => !!id)));
+  const facilityRows = facilityIds.length > 0
+    ? await db.select({ id: facilities.id, fundName: facilities.fundName }).from(facilities).where(inArray(facilities.id, facilityIds))
+    : [];
+  const facilityNames = new Map(facilityRows.map((f) => [f.id, f.fundName]));
+
+  const preferences = await db.select()
+    .from(notificationPreferences)
+    .where(inArray(notificationPreferences.id, Array.from(byPreference.keys())));
+
+  let digests = 0;
+  let digested = 0;
+  for (const [preferenceId, items] of Array.from(byPreference.entries())) {
+    const preference = preferences.find((p) => p.id === preferenceId);
+
+    // Claim the items before sending so an overlapping run can't digest them twice
+    const claimed = await db.update(notificationDigestItems)
+      .set({ digestedAt: now })
+      .where(and(
+        inArray(notificationDigestItems.id, items.map((item) => item.id)),
+        isNull(notificationDigestItems.digestedAt)
+      ))
+      .returning();
+    if (claimed.length === 0) continue;
+    digested += claimed.length;
+
+    // The channel was switched off or removed since these were held
+    if (!preference || !preference.enabled) continue;
+
+    claimed.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const digest = buildDigest(claimed, facilityNames, preference.digestFrequency === "weekly" ? "weekly" : "daily");
+    const delivery = await queueDelivery({
+      userId: preference.userId,
+      channel: claimed[0].channel,
+      recipient: claimed[claimed.length - 1].recipient,
+      type: "digest",
+      message: renderDigestText(digest),
+      metadata: { type: "digest", userId: preference.userId, digest },
+    });
+
+    await db.update(notificationDigestItems)
+      .set({ deliveryId: delivery.id })
+      .where(inArray(notificationDigestItems.id, claimed.map((item) => item.id)));
+    digests++;
+  }
+
+  return { digests, items: digested };
+}
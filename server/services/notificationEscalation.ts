@@ -0,0 +1,329 @@
+/**
+ * Notification Escalation
+ * Walks unread breach/urgent alerts through an escalation policy: re-send to the
+ * recipient on a louder channel, then bring in the facility's relationship manager,
+ * then the operations head. Every send (or failure to find a contact) is written to
+ * notificationDeliveries.
+ */
+
+import { db } from "../db";
+import {
+  covenants,
+  escalationPolicies,
+  facilities,
+  notificationDeliveries,
+  notificationPreferences,
+  notifications,
+  users,
+  type Notification,
+} from "@shared/schema";
+import { and, eq, gte, inArray, isNull, or } from "drizzle-orm";
+import { queueDelivery } from "./notificationDelivery";
+import { resolveFacilityId } from "./notificationDigests";
+
+export type EscalationTarget = "recipient" | "relationship_manager" | "operations_head";
+
+export interface EscalationStep {
+  afterHours: number; // Measured from when the original notification was created
+  target: EscalationTarget;
+  channels: string[];
+}
+
+export interface EscalationPolicyConfig {
+  id: string | null; // null for the built-in default
+  name: string;
+  notificationTypes: string[];
+  priorities: string[];
+  steps: EscalationStep[];
+  operationsHeadUserId: string | null;
+}
+
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicyConfig = {
+  id: null,
+  name: "Unacknowledged breach alerts",
+  notificationTypes: ["covenant_breach"],
+  priorities: ["urgent"],
+  steps: [
+    { afterHours: 4, target: "recipient", channels: ["sms"] },
+    { afterHours: 12, target: "relationship_manager", channels: ["sms", "email"] },
+    { afterHours: 24, target: "operations_head", channels: ["sms", "email"] },
+  ],
+  operationsHeadUserId: null,
+};
+
+// Alerts older than this are left alone rather than escalated out of the blue
+const ESCALATION_LOOKBACK_DAYS = 14;
+
+const TARGET_LABELS: Record<EscalationTarget, string> = {
+  recipient: "recipient",
+  relationship_manager: "relationship manager",
+  operations_head: "operations head",
+};
+
+/**
+ * Active policies, or the built-in default when none have been configured
+ */
+export async function getActiveEscalationPolicies(): Promise<EscalationPolicyConfig[]> {
+  const rows = await db.select()
+    .from(escalationPolicies)
+    .where(eq(escalationPolicies.isActive, true));
+
+  if (rows.length === 0) return [DEFAULT_ESCALATION_POLICY];
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    notificationTypes: row.notificationTypes as string[],
+    priorities: row.priorities as string[],
+    steps: row.steps as EscalationStep[],
+    operationsHeadUserId: row.operationsHeadUserId,
+  }));
+}
+
+// A policy covers a notification of any of its types OR at any of its priorities, so
+// the default catches breach alerts at every priority as well as all urgent alerts.
+// The first active policy that covers the notification wins.
+function matchPolicy(notification: Notification, policies: EscalationPolicyConfig[]) {
+  return policies.find((policy) =>
+    policy.notificationTypes.includes(notification.type) || policy.priorities.includes(notification.priority)
+  );
+}
+
+/**
+ * The policy step an unread notification is due for at `now`, or null when no policy
+ * covers it, its steps are exhausted, or the next step's delay hasn't passed
+ */
+export function dueEscalationStep(
+  notification: Notification,
+  policies: EscalationPolicyConfig[],
+  now: Date
+): { policy: EscalationPolicyConfig; step: EscalationStep } | null {
+  const policy = matchPolicy(notification, policies);
+  const step = policy?.steps[notification.escalationStep];
+  if (!policy || !step) return null;
+  if (now.getTime() - notification.createdAt.getTime() < step.afterHours * 60 * 60 * 1000) return null;
+  return { policy, step };
+}
+
+// Reading the original or any escalated copy counts as acknowledgement
+async function isAcknowledged(notification: Notification): Promise<boolean> {
+  if (notification.isRead) return true;
+  const [readCopy] = await db.select({ id: notifications.id })
+    .from(notifications)
+    .where(and(eq(notifications.escalatedFromId, notification.id), eq(notifications.isRead, true)))
+    .limit(1);
+  return !!readCopy;
+}
+
+// A breach that has since been cured or waived needs no further chasing
+async function isResolved(notification: Notification): Promise<boolean> {
+  if (notification.relatedEntityType !== "covenant" || !notification.relatedEntityId) return false;
+  const [covenant] = await db.select({ status: covenants.status })
+    .from(covenants)
+    .where(eq(covenants.id, notification.relatedEntityId))
+    .limit(1);
+  return !!covenant && covenant.status !== "breach";
+}
+
+async function resolveTargets(
+  step: EscalationStep,
+  notification: Notification,
+  policy: EscalationPolicyConfig
+): Promise<{ userIds: string[]; missing?: string }> {
+  if (step.target === "recipient") {
+    return { userIds: [notification.userId] };
+  }
+
+  if (step.target === "relationship_manager") {
+    const facilityId = await resolveFacilityId(notification.id);
+    if (!facilityId) {
+      return { userIds: [], missing: "Alert is not linked to a facility" };
+    }
+    const [facility] = await db.select({ relationshipManagerId: facilities.relationshipManagerId })
+      .from(facilities)
+      .where(eq(facilities.id, facilityId))
+      .limit(1);
+    return facility?.relationshipManagerId
+      ? { userIds: [facility.relationshipManagerId] }
+      : { userIds: [], missing: "No relationship manager assigned to the facility" };
+  }
+
+  if (policy.operationsHeadUserId) {
+    return { userIds: [policy.operationsHeadUserId] };
+  }
+  const admins = await db.select({ id: users.id }).from(users).where(eq(users.role, "admin"));
+  return admins.length > 0
+    ? { userIds: admins.map((admin) => admin.id) }
+    : { userIds: [], missing: "No operations head configured and no admin users" };
+}
+
+async function contactFor(userId: string, channel: string): Promise<string | null> {
+  if (channel === "in_app") return userId;
+
+  const [preference] = await db.select()
+    .from(notificationPreferences)
+    .where(
+      and(
+        eq(notificationPreferences.userId, userId),
+        eq(notificationPreferences.channel, channel),
+        eq(notificationPreferences.enabled, true)
+      )
+    )
+    .limit(1);
+  if (preference?.contactInfo) return preference.contactInfo;
+
+  if (channel === "email") {
+    const [user] = await db.select({ email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+    return user?.email ?? null;
+  }
+  return null;
+}
+
+// Record an escalation send that couldn't be attempted, so the gap shows up in the delivery queue
+async function logUndeliverable(params: {
+  userId?: string;
+  notificationId: string;
+  channel: string;
+  message: string;
+  error: string;
+  metadata: Record<string, any>;
+}) {
+  await db.insert(notificationDeliveries).values({
+    notificationId: params.notificationId,
+    userId: params.userId,
+    channel: params.channel,
+    recipient: "(none)",
+    messageContent: params.message,
+    status: "dead_letter",
+    error: params.error,
+    metadata: params.metadata,
+  });
+}
+
+/**
+ * Take the next step of the policy for an unacknowledged notification. Returns false
+ * when another run already took this step.
+ */
+async function escalate(
+  notification: Notification,
+  policy: EscalationPolicyConfig,
+  now: Date
+): Promise<boolean> {
+  const stepNumber = notification.escalationStep + 1;
+  const step = policy.steps[notification.escalationStep];
+  const hoursOpen = Math.floor((now.getTime() - notification.createdAt.getTime()) / (60 * 60 * 1000));
+  const message = `ESCALATION ${stepNumber}/${policy.steps.length}: "${notification.title}" unacknowledged for ${hoursOpen}h. ${notification.message}`;
+  const escalation = {
+    originalNotificationId: notification.id,
+    policyId: policy.id,
+    policyName: policy.name,
+    step: stepNumber,
+    target: step.target,
+  };
+
+  // Advance the step before sending so overlapping runs can't both send it
+  const [claimed] = await db.update(notifications)
+    .set({ escalationStep: stepNumber, lastEscalatedAt: now })
+    .where(and(eq(notifications.id, notification.id), eq(notifications.escalationStep, notification.escalationStep)))
+    .returning({ id: notifications.id });
+  if (!claimed) return false;
+
+  const { userIds, missing } = await resolveTargets(step, notification, policy);
+  if (userIds.length === 0) {
+    for (const channel of step.channels) {
+      await logUndeliverable({
+        notificationId: notification.id,
+        channel,
+        message,
+        error: `Escalation to ${TARGET_LABELS[step.target]} skipped: ${missing}`,
+        metadata: { type: notification.type, escalation },
+      });
+    }
+  }
+
+  for (const userId of userIds) {
+    // Escalation targets get their own in-app copy they can acknowledge
+    const [targetNotification] = userId === notification.userId
+      ? [notification]
+      : await db.insert(notifications).values({
+          userId,
+          type: notification.type,
+          title: `Escalated: ${notification.title}`,
+          message,
+          relatedEntityType: notification.relatedEntityType,
+          relatedEntityId: notification.relatedEntityId,
+          actionUrl: notification.actionUrl,
+          priority: "urgent",
+          escalatedFromId: notification.id,
+        }).returning();
+
+    for (const channel of step.channels) {
+      const metadata = { type: notification.type, userId, notificationId: targetNotification.id, escalation };
+      const contact = await contactFor(userId, channel);
+      if (!contact) {
+        await logUndeliverable({
+          userId,
+          notificationId: targetNotification.id,
+          channel,
+          message,
+          error: `No ${channel} contact on file for escalation ${TARGET_LABELS[step.target]}`,
+          metadata,
+        });
+        continue;
+      }
+
+      await queueDelivery({
+        userId,
+        notificationId: targetNotification.id,
+        channel,
+        recipient: contact,
+        type: notification.type,
+        message,
+        metadata,
+      });
+    }
+  }
+
+  console.log(`Escalated notification ${notification.id} to ${TARGET_LABELS[step.target]} (step ${stepNumber}/${policy.steps.length})`);
+  return true;
+}
+
+/**
+ * Escalate every unread alert whose next policy step has come due. Run by the scheduler.
+ */
+export async function processEscalations(now: Date = new Date()): Promise<{ checked: number; escalated: number }> {
+  const policies = await getActiveEscalationPolicies();
+  const types = Array.from(new Set(policies.flatMap((policy) => policy.notificationTypes)));
+  const priorities = Array.from(new Set(policies.flatMap((policy) => policy.priorities)));
+  if (types.length === 0 && priorities.length === 0) return { checked: 0, escalated: 0 };
+
+  const lookback = new Date(now.getTime() - ESCALATION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const candidates = await db.select()
+    .from(notifications)
+    .where(
+      and(
+        eq(notifications.isRead, false),
+        isNull(notifications.escalatedFromId),
+        gte(notifications.createdAt, lookback),
+        or(
+          types.length > 0 ? inArray(notifications.type, types) : undefined,
+          priorities.length > 0 ? inArray(notifications.priority, priorities) : undefined
+        )
+      )
+    );
+
+  let escalated = 0;
+  for (const notification of candidates) {
+    const due = dueEscalationStep(notification, policies, now);
+    if (!due) continue;
+    if (await isAcknowledged(notification) || await isResolved(notification)) continue;
+
+    try {
+      if (await escalate(notification, due.policy, now)) escalated++;
+    } catch (error) {
+      console.error(`Failed to escalate notification ${notification.id}:`, error);
+    }
+  }
+
+  return { checked: candidates.length, escalated };
+}
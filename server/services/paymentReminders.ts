@@ -0,0 +1,118 @@
+/**
+ * Payment Reminders
+ * Notifies each facility's GP of scheduled payments coming due, once per cash flow,
+ * and marks payments still outstanding after their due date as overdue.
+ */
+
+import { db } from "../db";
+import { cashFlows, facilities, notifications } from "@shared/schema";
+import { and, eq, gte, inArray, lt, lte, sql } from "drizzle-orm";
+import { sendNotification } from "./notificationDelivery";
+import { emitWebhookEvent } from "./webhooks";
+
+export const PAYMENT_REMINDER_DAYS = 7;
+
+export async function sendPaymentDueReminders(
+  daysAhead: number = PAYMENT_REMINDER_DAYS,
+  asOf: Date = new Date()
+): Promise<{ reminded: number; skipped: number }> {
+  const horizon = new Date(asOf.getTime() + daysAhead * 24 * 60 * 60 * 1000);
+
+  const upcoming = await db.select({ cashFlow: cashFlows, facility: facilities })
+    .from(cashFlows)
+    .innerJoin(facilities, eq(cashFlows.facilityId, facilities.id))
+    .where(
+      and(
+        eq(cashFlows.status, "scheduled"),
+        gte(cashFlows.dueDate, asOf),
+        lte(cashFlows.dueDate, horizon)
+      )
+    );
+
+  if (upcoming.length === 0) {
+    return { reminded: 0, skipped: 0 };
+  }
+
+  const alreadyReminded = await db.select({ relatedEntityId: notifications.relatedEntityId })
+    .from(notifications)
+    .where(
+      and(
+        eq(notifications.type, "payment_due"),
+        inArray(notifications.relatedEntityId, upcoming.map(({ cashFlow }) => cashFlow.id))
+      )
+    );
+  const remindedIds = new Set(alreadyReminded.map((n) => n.relatedEntityId));
+
+  let reminded = 0;
+  let skipped = 0;
+
+  for (const { cashFlow, facility } of upcoming) {
+    const amountDue = cashFlow.totalDue - cashFlow.paidAmount;
+    if (remindedIds.has(cashFlow.id) || !facility.gpUserId || amountDue <= 0) {
+      skipped++;
+      continue;
+    }
+
+    const message = `Payment of $${amountDue.toLocaleString()} for ${facility.fundName} is due on ${cashFlow.dueDate.toISOString().slice(0, 10)}`;
+    const [notification] = await db.insert(notifications).values({
+      userId: facility.gpUserId,
+      type: "payment_due",
+      title: "Payment Due",
+      message,
+      relatedEntityType: "cash_flow",
+      relatedEntityId: cashFlow.id,
+      actionUrl: `/facilities/${facility.id}`,
+      priority: "high",
+    }).returning();
+
+    try {
+      await sendNotification({
+        userId: facility.gpUserId,
+        message,
+        type: "payment_due",
+        notificationId: notification.id,
+        urgency: "low", // A week's notice can wait for the GP's quiet hours to end
+      });
+    } catch (error) {
+      console.error(`Failed to deliver payment reminder for cash flow ${cashFlow.id}:`, error);
+    }
+    reminded++;
+  }
+
+  return { reminded, skipped };
+}
+
+/**
+ * Mark unpaid scheduled cash flows due before today (UTC) as overdue and raise a
+ * cash_flow.overdue webhook event for each. Partly paid flows keep their "partial"
+ * status, which the ledger relies on to replay the payment.
+ */
+export async function markOverdueCashFlows(asOf: Date = new Date()): Promise<{ marked: number }> {
+  const startOfDay = new Date(Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate()));
+
+  const overdue = await db.update(cashFlows)
+    .set({ status: "overdue", updatedAt: new Date() })
+    .where(
+      and(
+        eq(cashFlows.status, "scheduled"),
+        lt(cashFlows.dueDate, startOfDay),
+        sql`${cashFlows.paidAmount} < ${cashFlows.totalDue}`
+      )
+    )
+    .returning();
+
+  if (overdue.length > 0) {
+    for (const cashFlow of overdue) {
+      await emitWebhookEvent("cash_flow.overdue", {
+        cashFlowId: cashFlow.id,
+        facilityId: cashFlow.facilityId,
+        dueDate: cashFlow.dueDate.toISOString(),
+        totalDue: cashFlow.totalDue,
+        paidAmount: cashFlow.paidAmount,
+        amountOverdue: cashFlow.totalDue - cashFlow.paidAmount,
+      }, { facilityId: cashFlow.facilityId });
+    }
+  }
+
+  return { marked: overdue.length };
+}
@@ -0,0 +1,358 @@
+/**
+ * Reference Rate Service
+ * Loads benchmark fixings (e.g. daily SOFR) from published CSV files and resolves
+ * the all-in rate for floating-rate facilities on each interest period reset.
+ */
+
+import { db } from "../db";
+import {
+  referenceRateFixings,
+  facilityRateResets,
+  facilities,
+  type Facility,
+  type FacilityRateReset,
+  type ReferenceRateFixing,
+} from "@shared/schema";
+import { eq, and, gte, lte, sql } from "drizzle-orm";
+import type { PaymentFrequency } from "./amortizationSchedule";
+import { splitCsvLine } from "./csvParsing";
+
+export interface ParsedFixing {
+  fixingDate: Date;
+  rateBps: number;
+}
+
+export interface FixingParseError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Rate applied to one interest period of a floating-rate facility
+ */
+export interface FloatingRate {
+  fixingDate: Date;
+  referenceRateBps: number; // After floor
+  spreadBps: number;
+  allInRateBps: number; // After cap
+}
+
+// Accepts ISO (2024-03-28) and US (03/28/2024) dates
+function parseFixingDate(value: string): Date | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+  }
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) {
+    return new Date(Date.UTC(Number(us[3]), Number(us[1]) - 1, Number(us[2])));
+  }
+  return null;
+}
+
+/**
+ * Parse a fixings CSV. Expects a date column and a rate column in percent
+ * (the New York Fed SOFR download format works as-is). A header row is optional;
+ * without one the first two columns are used.
+ */
+export function parseFixingsCsv(csv: string): { fixings: ParsedFixing[]; errors: FixingParseError[] } {
+  const lines = csv.split(/\r?\n/);
+  const fixings: ParsedFixing[] = [];
+  const errors: FixingParseError[] = [];
+
+  let dateIndex = 0;
+  let rateIndex = 1;
+  let firstDataLine = 0;
+
+  const firstLine = lines.findIndex(line => line.trim() !== "");
+  if (firstLine === -1) {
+    return { fixings, errors };
+  }
+
+  const header = splitCsvLine(lines[firstLine]);
+  if (!parseFixingDate(header[0] ?? "")) {
+    const headerDate = header.findIndex(h => /date/i.test(h));
+    const headerRate = header.findIndex(h => /rate/i.test(h) && !/type/i.test(h));
+    if (headerDate === -1 || headerRate === -1) {
+      errors.push({ line: firstLine + 1, message: "Header must include a date column and a rate column" });
+      return { fixings, errors };
+    }
+    dateIndex = headerDate;
+    rateIndex = headerRate;
+    firstDataLine = firstLine + 1;
+  } else {
+    firstDataLine = firstLine;
+  }
+
+  for (let i = firstDataLine; i < lines.length; i++) {
+    if (lines[i].trim() === "") continue;
+
+    const cells = splitCsvLine(lines[i]);
+    const fixingDate = parseFixingDate(cells[dateIndex] ?? "");
+    const rate = parseFloat((cells[rateIndex] ?? "").replace("%", ""));
+
+    if (!fixingDate) {
+      errors.push({ line: i + 1, message: `Invalid date "${cells[dateIndex] ?? ""}"` });
+      continue;
+    }
+    if (isNaN(rate) || rate < -5 || rate > 50) {
+      errors.push({ line: i + 1, message: `Invalid rate "${cells[rateIndex] ?? ""}"` });
+      continue;
+    }
+
+    fixings.push({ fixingDate, rateBps: Math.round(rate * 100) });
+  }
+
+  return { fixings, errors };
+}
+
+/**
+ * Import fixings from a CSV, replacing any existing fixing for the same date
+ */
+export async function importReferenceRateFixings(
+  csv: string,
+  options: { rateName?: string; source?: string } = {}
+): Promise<{ rateName: string; imported: number; errors: FixingParseError[] }> {
+  const rateName = options.rateName ?? "SOFR";
+  const { fixings, errors } = parseFixingsCsv(csv);
+
+  // Later rows for the same date win
+  const byDate = new Map<number, ParsedFixing>();
+  for (const fixing of fixings) {
+    byDate.set(fixing.fixingDate.getTime(), fixing);
+  }
+  const rows = Array.from(byDate.values()).map(fixing => ({
+    rateName,
+    fixingDate: fixing.fixingDate,
+    rateBps: fixing.rateBps,
+    source: options.source ?? "csv_import",
+  }));
+
+  // Insert in batches to keep statements small for multi-year files
+  for (let i = 0; i < rows.length; i += 500) {
+    await db.insert(referenceRateFixings)
+      .values(rows.slice(i, i + 500))
+      .onConflictDoUpdate({
+        target: [referenceRateFixings.rateName, referenceRateFixings.fixingDate],
+        set: { rateBps: sql`excluded.rate_bps`, source: sql`excluded.source` },
+      });
+  }
+
+  console.log(`Imported ${rows.length} ${rateName} fixings (${errors.length} rows rejected)`);
+
+  return { rateName, imported: rows.length, errors };
+}
+
+export async function getReferenceRateFixings(
+  rateName: string,
+  range: { from?: Date; to?: Date } = {}
+): Promise<ReferenceRateFixing[]> {
+  const conditions = [eq(referenceRateFixings.rateName, rateName)];
+
+  if (range.from) {
+    conditions.push(gte(referenceRateFixings.fixingDate, range.from));
+  }
+  if (range.to) {
+    conditions.push(lte(referenceRateFixings.fixingDate, range.to));
+  }
+
+  return await db.select()
+    .from(referenceRateFixings)
+    .where(and(...conditions))
+    .orderBy(sql`${referenceRateFixings.fixingDate} ASC`);
+}
+
+/**
+ * All-in rate from a fixing: the floor applies to the reference rate, the cap to the all-in rate
+ */
+export function applyRateBounds(params: {
+  fixingBps: number;
+  spreadBps: number;
+  floorBps?: number | null;
+  capBps?: number | null;
+}): { referenceRateBps: number; allInRateBps: number } {
+  const referenceRateBps = params.floorBps !== null && params.floorBps !== undefined
+    ? Math.max(params.fixingBps, params.floorBps)
+    : params.fixingBps;
+  const uncapped = referenceRateBps + params.spreadBps;
+  const allInRateBps = params.capBps !== null && params.capBps !== undefined
+    ? Math.min(uncapped, params.capBps)
+    : uncapped;
+
+  return { referenceRateBps, allInRateBps };
+}
+
+/**
+ * Period rate lookup over loaded resets and fixings (fixings in date order).
+ *
+ * Periods that have already reset use the recorded reset. Other periods use the
+ * latest fixing on or before the period start, so future periods are projected
+ * flat at the most recent fixing. Returns null for a period when no fixing exists.
+ */
+export function buildFloatingRateResolver(
+  facility: Pick<Facility, "spreadBps" | "rateFloorBps" | "rateCapBps">,
+  resets: FacilityRateReset[],
+  fixings: Pick<ReferenceRateFixing, "fixingDate" | "rateBps">[]
+): (periodStart: Date) => FloatingRate | null {
+  const spreadBps = facility.spreadBps ?? 0;
+  const resetByStart = new Map(resets.map(r => [r.periodStart.getTime(), r]));
+
+  return (periodStart: Date) => {
+    const reset = resetByStart.get(periodStart.getTime());
+    if (reset) {
+      return {
+        fixingDate: reset.fixingDate,
+        referenceRateBps: reset.referenceRateBps,
+        spreadBps: reset.spreadBps,
+        allInRateBps: reset.allInRateBps,
+      };
+    }
+
+    let fixing: Pick<ReferenceRateFixing, "fixingDate" | "rateBps"> | undefined;
+    for (const candidate of fixings) {
+      if (candidate.fixingDate > periodStart) break;
+      fixing = candidate;
+    }
+    if (!fixing) return null;
+
+    return {
+      fixingDate: fixing.fixingDate,
+      spreadBps,
+      ...applyRateBounds({
+        fixingBps: fixing.rateBps,
+        spreadBps,
+        floorBps: facility.rateFloorBps,
+        capBps: facility.rateCapBps,
+      }),
+    };
+  };
+}
+
+/**
+ * Build a period rate lookup for a floating-rate facility from its recorded resets
+ * and the reference rate's fixings (see buildFloatingRateResolver)
+ */
+export async function loadFloatingRateResolver(
+  facility: Facility
+): Promise<(periodStart: Date) => FloatingRate | null> {
+  const resets = await db.select()
+    .from(facilityRateResets)
+    .where(eq(facilityRateResets.facilityId, facility.id));
+
+  // Fixings from a month before origination cover the first period's lookup
+  const fixings = await getReferenceRateFixings(facility.referenceRate, {
+    from: new Date(facility.originationDate.getTime() - 31 * 24 * 60 * 60 * 1000),
+  });
+
+  return buildFloatingRateResolver(facility, resets, fixings);
+}
+
+/**
+ * Fix the rate for a floating-rate facility's current interest period.
+ *
+ * Records the reset in the fixing history, updates the facility's rate in force
+ * and regenerates the remaining schedule. Idempotent per period.
+ */
+export async function resetFloatingRate(
+  facilityId: string,
+  asOf: Date = new Date()
+): Promise<{ reset: FacilityRateReset; created: boolean } | null> {
+  // Loaded lazily: the schedule engine depends on this module for floating rates
+  const { buildPeriodDates, regenerateCashFlowSchedule } = await import("./amortizationSchedule");
+
+  const [facility] = await db.select()
+    .from(facilities)
+    .where(eq(facilities.id, facilityId))
+    .limit(1);
+
+  if (!facility) {
+    throw new Error("Facility not found");
+  }
+
+  if (facility.rateType !== "floating") {
+    throw new Error("Facility is not floating-rate");
+  }
+
+  const period = buildPeriodDates(
+    facility.originationDate,
+    facility.maturityDate,
+    facility.paymentSchedule as PaymentFrequency
+  ).find(p => p.end > asOf);
+
+  if (!period) {
+    return null; // Matured
+  }
+
+  const [existing] = await db.select()
+    .from(facilityRateResets)
+    .where(and(
+      eq(facilityRateResets.facilityId, facilityId),
+      eq(facilityRateResets.periodStart, period.start)
+    ))
+    .limit(1);
+
+  if (existing) {
+    return { reset: existing, created: false };
+  }
+
+  const resolveRate = await loadFloatingRateResolver(facility);
+  const rate = resolveRate(period.start);
+
+  if (!rate) {
+    console.warn(`No ${facility.referenceRate} fixing on or before ${period.start.toISOString()} for facility ${facilityId}`);
+    return null;
+  }
+
+  const [reset] = await db.insert(facilityRateResets)
+    .values({
+      facilityId,
+      periodStart: period.start,
+      periodEnd: period.end,
+      rateName: facility.referenceRate,
+      fixingDate: rate.fixingDate,
+      referenceRateBps: rate.referenceRateBps,
+      spreadBps: rate.spreadBps,
+      allInRateBps: rate.allInRateBps,
+    })
+    .returning();
+
+  await db.update(facilities)
+    .set({ interestRate: rate.allInRateBps, updatedAt: new Date() })
+    .where(eq(facilities.id, facilityId));
+
+  await regenerateCashFlowSchedule(facilityId, { asOf });
+
+  return { reset, created: true };
+}
+
+/**
+ * Reset all active floating-rate facilities whose current period has not been fixed.
+ * Should be run on a schedule (e.g., daily cron job).
+ */
+export async function resetFloatingRates(asOf: Date = new Date()): Promise<{ reset: number; failed: number }> {
+  const floating = await db.select({ id: facilities.id })
+    .from(facilities)
+    .where(and(eq(facilities.rateType, "floating"), eq(facilities.status, "active")));
+
+  let reset = 0;
+  let failed = 0;
+
+  for (const facility of floating) {
+    try {
+      const result = await resetFloatingRate(facility.id, asOf);
+      if (result?.created) reset++;
+    } catch (error) {
+      console.error(`Rate reset failed for facility ${facility.id}:`, error);
+      failed++;
+    }
+  }
+
+  return { reset, failed };
+}
+
+export async function getFacilityRateResets(facilityId: string): Promise<FacilityRateReset[]> {
+  return await db.select()
+    .from(facilityRateResets)
+    .where(eq(facilityRateResets.facilityId, facilityId))
+    .orderBy(sql`${facilityRateResets.periodStart} DESC`);
+}
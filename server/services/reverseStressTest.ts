@@ -0,0 +1,377 @@
+/**
+ * Reverse Stress Test Service
+ * Answers "how far can things move before we breach?" for each covenant: the NAV
+ * decline, the write-down of a single large holding and the additional draw at which
+ * the covenant first trips.
+ *
+ * Each breaking point is found by bisection on the covenant's formula (or the LTV for
+ * LTV covenants without one), so covenant values are assumed to move one way as the
+ * stress increases. Cash positions are never written down.
+ */
+
+import {
+  evaluateCovenantValue,
+  CovenantFormulaError,
+  type CovenantFormulaContext,
+} from "./covenantFormula";
+import { calculateCovenantStatus } from "./covenantMonitoring";
+import { isLtvCovenant, LTV_COVENANT_SCALE } from "./facilityNav";
+import { loadFacilityExposures, POLICY_MAX_LTV } from "./shockScenarios";
+
+export interface ReverseStressCovenant {
+  covenantId: string | null; // Null for limits that are not covenants on the facility
+  covenantType: string;
+  source: "covenant" | "policy" | "proposed";
+  thresholdValue: number;
+  thresholdOperator: string;
+  formula: string | null;
+}
+
+export interface ReverseStressHolding {
+  companyId: string | null;
+  companyName: string;
+  sector: string | null;
+  value: number;
+}
+
+export interface HoldingBreakingPoint {
+  companyId: string | null;
+  companyName: string;
+  value: number;
+  maxWritedownPercent: number | null; // Null when writing the holding off entirely does not trip
+  maxWritedownAmount: number | null;
+}
+
+export interface CovenantBreakingPoint {
+  covenantId: string | null;
+  covenantType: string;
+  source: ReverseStressCovenant["source"];
+  thresholdValue: number;
+  thresholdOperator: string;
+  baselineValue: number | null;
+  baselineStatus: "compliant" | "warning" | "breach" | null;
+  stressable: boolean; // False for non-LTV covenants without a formula to re-evaluate
+  maxNavDeclinePercent: number | null; // Percent of NAV; null when no decline trips it
+  breakingNav: number | null;
+  maxHoldingWritedowns: HoldingBreakingPoint[];
+  maxAdditionalDraw: number | null; // Null when drawing the full capacity does not trip it
+}
+
+export interface ReverseStressResult {
+  facilityId: string | null;
+  fundName: string | null;
+  nav: number;
+  cash: number;
+  outstandingBalance: number;
+  drawCapacity: number; // Additional draws are searched up to this amount
+  maxNavDeclinePercent: number | null; // Tightest across covenants
+  maxAdditionalDraw: number | null;
+  covenants: CovenantBreakingPoint[];
+}
+
+export type ProposedFacilityReverseStress = Omit<ReverseStressResult, "facilityId" | "fundName">;
+
+// Largest holdings solved for a single-name write-down
+const HOLDINGS_SOLVED = 5;
+
+const PERCENT_TOLERANCE = 0.01;
+const DOLLAR_TOLERANCE = 1;
+
+function evaluateCovenant(covenant: ReverseStressCovenant, context: CovenantFormulaContext): number | null {
+  if (covenant.formula) {
+    try {
+      return evaluateCovenantValue(covenant.formula, context);
+    } catch (error) {
+      if (error instanceof CovenantFormulaError) return null;
+      throw error;
+    }
+  }
+  if (isLtvCovenant(covenant.covenantType)) {
+    return context.nav > 0
+      ? Math.round(context.outstanding_balance / context.nav * 100 * LTV_COVENANT_SCALE)
+      : null;
+  }
+  return null;
+}
+
+// A covenant that can no longer be evaluated (e.g. NAV written down to zero) counts as tripped
+function isBreached(covenant: ReverseStressCovenant, context: CovenantFormulaContext): boolean {
+  const value = evaluateCovenant(covenant, context);
+  return value === null || calculateCovenantStatus(value, covenant.thresholdValue, covenant.thresholdOperator) === "breach";
+}
+
+/**
+ * Largest stress in [0, max] that leaves the covenant unbreached: 0 when already in
+ * breach, null when even the maximum stress does not breach
+ */
+function findBreakingPoint(breachedAt: (stress: number) => boolean, max: number, tolerance: number): number | null {
+  if (breachedAt(0)) return 0;
+  if (max <= 0 || !breachedAt(max)) return null;
+  let low = 0;
+  let high = max;
+  while (high - low > tolerance) {
+    const mid = (low + high) / 2;
+    if (breachedAt(mid)) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return low;
+}
+
+function withLtv(context: CovenantFormulaContext): CovenantFormulaContext {
+  return {
+    ...context,
+    ltv_ratio: context.nav > 0 ? Math.round(context.outstanding_balance / context.nav * 100) : context.ltv_ratio,
+  };
+}
+
+// NAV falls by a percentage of the total, taken entirely from non-cash holdings
+function withNavDecline(context: CovenantFormulaContext, declinePercent: number): CovenantFormulaContext {
+  const nonCash = context.nav - context.cash;
+  const loss = context.nav * declinePercent / 100;
+  const factor = nonCash > 0 ? Math.max(1 - loss / nonCash, 0) : 0;
+  return withLtv({
+    ...context,
+    nav: Math.max(context.nav - loss, context.cash),
+    holdings_value: context.holdings_value * factor,
+    top_holding_value: context.top_holding_value * factor,
+    top_sector_value: context.top_sector_value * factor,
+  });
+}
+
+function withHoldingWritedown(
+  context: CovenantFormulaContext,
+  holdings: ReverseStressHolding[],
+  index: number,
+  writedownPercent: number
+): CovenantFormulaContext {
+  const loss = holdings[index].value * writedownPercent / 100;
+  const values = holdings.map((h, i) => (i === index ? h.value - loss : h.value));
+  const bySector = new Map<string, number>();
+  holdings.forEach((h, i) => {
+    const sector = h.sector || "Unknown";
+    bySector.set(sector, (bySector.get(sector) ?? 0) + values[i]);
+  });
+  return withLtv({
+    ...context,
+    nav: Math.max(context.nav - loss, 0),
+    holdings_value: Math.max(context.holdings_value - loss, 0),
+    top_holding_value: Math.max(0, ...values),
+    top_sector_value: Math.max(0, ...Array.from(bySector.values())),
+  });
+}
+
+function withAdditionalDraw(context: CovenantFormulaContext, amount: number): CovenantFormulaContext {
+  return withLtv({
+    ...context,
+    outstanding_balance: context.outstanding_balance + amount,
+    undrawn_commitment: Math.max(context.undrawn_commitment - amount, 0),
+  });
+}
+
+function floorOne(value: number): number {
+  return Math.floor(value * 10) / 10;
+}
+
+/**
+ * Solve breaking points for a set of covenants against one set of formula inputs
+ */
+export function solveReverseStress(input: {
+  context: CovenantFormulaContext;
+  holdings: ReverseStressHolding[]; // Non-cash
+  covenants: ReverseStressCovenant[];
+  drawCapacity: number;
+}): Pick<ReverseStressResult, "maxNavDeclinePercent" | "maxAdditionalDraw" | "covenants"> {
+  const { context, drawCapacity } = input;
+  const holdings = input.holdings
+    .filter(h => h.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const solvedHoldings = holdings.slice(0, HOLDINGS_SOLVED);
+  const maxDecline = context.nav > 0 ? Math.max(context.nav - context.cash, 0) / context.nav * 100 : 0;
+
+  const results: CovenantBreakingPoint[] = input.covenants.map(covenant => {
+    const baselineValue = evaluateCovenant(covenant, context);
+    const stressable = baselineValue !== null;
+    const base = {
+      covenantId: covenant.covenantId,
+      covenantType: covenant.covenantType,
+      source: covenant.source,
+      thresholdValue: covenant.thresholdValue,
+      thresholdOperator: covenant.thresholdOperator,
+      baselineValue,
+      baselineStatus: baselineValue !== null
+        ? calculateCovenantStatus(baselineValue, covenant.thresholdValue, covenant.thresholdOperator)
+        : null,
+      stressable,
+    };
+
+    if (!stressable) {
+      return { ...base, maxNavDeclinePercent: null, breakingNav: null, maxHoldingWritedowns: [], maxAdditionalDraw: null };
+    }
+
+    const decline = findBreakingPoint(
+      pct => isBreached(covenant, withNavDecline(context, pct)),
+      maxDecline,
+      PERCENT_TOLERANCE
+    );
+
+    const maxHoldingWritedowns = solvedHoldings.map(holding => {
+      const index = holdings.indexOf(holding);
+      const writedown = findBreakingPoint(
+        pct => isBreached(covenant, withHoldingWritedown(context, holdings, index, pct)),
+        100,
+        PERCENT_TOLERANCE
+      );
+      return {
+        companyId: holding.companyId,
+        companyName: holding.companyName,
+        value: holding.value,
+        maxWritedownPercent: writedown !== null ? floorOne(writedown) : null,
+        maxWritedownAmount: writedown !== null ? Math.floor(holding.value * writedown / 100) : null,
+      };
+    });
+
+    const draw = findBreakingPoint(
+      amount => isBreached(covenant, withAdditionalDraw(context, amount)),
+      drawCapacity,
+      DOLLAR_TOLERANCE
+    );
+
+    return {
+      ...base,
+      maxNavDeclinePercent: decline !== null ? floorOne(decline) : null,
+      breakingNav: decline !== null ? Math.floor(context.nav * (1 - decline / 100)) : null,
+      maxHoldingWritedowns,
+      maxAdditionalDraw: draw !== null ? Math.floor(draw) : null,
+    };
+  });
+
+  const declines = results.map(r => r.maxNavDeclinePercent).filter((d): d is number => d !== null);
+  const draws = results.map(r => r.maxAdditionalDraw).filter((d): d is number => d !== null);
+
+  return {
+    maxNavDeclinePercent: declines.length > 0 ? Math.min(...declines) : null,
+    maxAdditionalDraw: draws.length > 0 ? Math.min(...draws) : null,
+    covenants: results,
+  };
+}
+
+/**
+ * Reverse stress test a facility against its covenants (thresholds in force today).
+ * Facilities without an LTV covenant are tested against the policy LTV limit.
+ */
+export async function runReverseStressTest(facilityId: string): Promise<ReverseStressResult | null> {
+  const [exposure] = await loadFacilityExposures([facilityId]);
+  if (!exposure) return null;
+
+  const { facility } = exposure;
+
+  // Without a recorded NAV or holdings, back the NAV out of the facility's LTV
+  const nav = exposure.context.nav > 0
+    ? exposure.context.nav
+    : facility.ltvRatio > 0 ? facility.outstandingBalance * 100 / facility.ltvRatio : 0;
+  const context: CovenantFormulaContext = { ...exposure.context, nav };
+
+  const covenantInputs: ReverseStressCovenant[] = exposure.covenants.map(({ covenant, thresholdValue, thresholdOperator }) => ({
+    covenantId: covenant.id,
+    covenantType: covenant.covenantType,
+    source: "covenant",
+    thresholdValue,
+    thresholdOperator,
+    formula: covenant.formula,
+  }));
+
+  if (!exposure.covenants.some(c => isLtvCovenant(c.covenant.covenantType) && !c.covenant.formula)) {
+    covenantInputs.push({
+      covenantId: null,
+      covenantType: "ltv_ratio",
+      source: "policy",
+      thresholdValue: POLICY_MAX_LTV * LTV_COVENANT_SCALE,
+      thresholdOperator: "less_than_equal",
+      formula: null,
+    });
+  }
+
+  const solved = solveReverseStress({
+    context,
+    holdings: exposure.holdings
+      .filter(h => !h.isCash)
+      .map(h => ({
+        companyId: h.company.id,
+        companyName: h.company.companyName,
+        sector: h.company.sector,
+        value: h.value,
+      })),
+    covenants: covenantInputs,
+    drawCapacity: context.undrawn_commitment,
+  });
+
+  return {
+    facilityId: facility.id,
+    fundName: facility.fundName,
+    nav: Math.round(nav),
+    cash: context.cash,
+    outstandingBalance: facility.outstandingBalance,
+    drawCapacity: context.undrawn_commitment,
+    ...solved,
+  };
+}
+
+/**
+ * Reverse stress test a proposed facility against its maximum LTV during underwriting,
+ * before there are holdings or a ledger to draw on
+ */
+export function reverseStressProposedFacility(params: {
+  fundNav: number;
+  facilitySize: number;
+  maxLtv: number; // Percent
+  cash?: number;
+  largestHoldingPercent?: number; // Percent of NAV
+}): ProposedFacilityReverseStress {
+  const { fundNav, facilitySize, maxLtv } = params;
+  const cash = Math.min(Math.max(params.cash ?? 0, 0), fundNav);
+  const largestHolding = Math.round(fundNav * (params.largestHoldingPercent ?? 0) / 100);
+
+  // Only NAV, cash and balance feed an LTV test; the rest are placeholders
+  const context: CovenantFormulaContext = withLtv({
+    outstanding_balance: facilitySize,
+    commitment: facilitySize,
+    undrawn_commitment: 0,
+    nav: fundNav,
+    holdings_value: fundNav - cash,
+    holdings_count: 0,
+    top_holding_value: largestHolding,
+    top_sector_value: 0,
+    cash,
+    accrued_interest: 0,
+    accrued_fees: 0,
+    interest_rate_bps: 0,
+    ltv_ratio: 0,
+  });
+
+  const solved = solveReverseStress({
+    context,
+    holdings: largestHolding > 0
+      ? [{ companyId: null, companyName: "Largest holding", sector: null, value: largestHolding }]
+      : [],
+    covenants: [{
+      covenantId: null,
+      covenantType: "ltv_ratio",
+      source: "proposed",
+      thresholdValue: Math.round(maxLtv * LTV_COVENANT_SCALE),
+      thresholdOperator: "less_than_equal",
+      formula: null,
+    }],
+    drawCapacity: fundNav, // Any draw up to 100% LTV
+  });
+
+  return {
+    nav: fundNav,
+    cash,
+    outstandingBalance: facilitySize,
+    drawCapacity: fundNav,
+    ...solved,
+  };
+}
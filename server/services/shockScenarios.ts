@@ -0,0 +1,406 @@
+/**
+ * Shock Scenario Service
+ * Hypothetical stress scenarios that shock individual holdings, sectors and
+ * geographies differently, propagated through each facility's portfolio companies
+ * to its NAV, LTV and covenants.
+ *
+ * Shocks are percentage changes. When several apply to one holding (e.g. its sector,
+ * its geography and a top-N write-down) they compound; holdings with no specific
+ * shock take the scenario's base shock, as does NAV not explained by holdings.
+ * Cash positions are never shocked.
+ */
+
+import { db } from "../db";
+import {
+  facilities,
+  portfolioCompanies,
+  portfolioHoldings,
+  covenants,
+  type Facility,
+  type Covenant,
+  type PortfolioCompany,
+} from "@shared/schema";
+import { eq, and, desc, inArray } from "drizzle-orm";
+import {
+  evaluateCovenantValue,
+  isCashHolding,
+  loadCovenantContext,
+  CovenantFormulaError,
+  type CovenantFormulaContext,
+} from "./covenantFormula";
+import { calculateCovenantStatus } from "./covenantMonitoring";
+import { getThresholdInForce } from "./covenantWaivers";
+import { isLtvCovenant, LTV_COVENANT_SCALE } from "./facilityNav";
+import { normalizeLabel } from "./labelMatching";
+
+export interface ShockScenario {
+  name: string;
+  description?: string;
+  baseShock?: number; // Holdings without a specific shock, e.g. -5
+  sectorShocks?: Record<string, number>; // Matched against sector and industry, e.g. {"software": -35}
+  geographyShocks?: Record<string, number>;
+  holdingShocks?: Array<{ companyId?: string; companyName?: string; shock: number }>;
+  topHoldingsShock?: { count: number; shock: number }; // Largest holdings of each facility
+}
+
+type CovenantStatus = "compliant" | "warning" | "breach";
+
+export interface ShockedCovenant {
+  covenantId: string;
+  covenantType: string;
+  thresholdValue: number;
+  thresholdOperator: string;
+  baselineValue: number | null;
+  stressedValue: number | null; // Null when the covenant has no data source to stress
+  baselineStatus: CovenantStatus | null;
+  stressedStatus: CovenantStatus | null;
+}
+
+export interface ShockedHolding {
+  companyId: string;
+  companyName: string;
+  sector: string | null;
+  geography: string | null;
+  baselineValue: number;
+  stressedValue: number;
+  shockPercent: number;
+}
+
+export interface FacilityShockResult {
+  facilityId: string;
+  fundName: string;
+  outstandingBalance: number;
+  baselineNav: number;
+  stressedNav: number;
+  navChangePercent: number;
+  baselineLtv: number; // Percent, one decimal
+  stressedLtv: number;
+  ltvLimit: number; // Percent
+  ltvLimitSource: "covenant" | "policy";
+  ltvBreach: boolean;
+  holdingsCount: number; // 0 means the base shock was applied to NAV as a whole
+  largestLosses: ShockedHolding[];
+  covenants: ShockedCovenant[];
+  breachCount: number; // Covenants in breach under the scenario, including LTV
+}
+
+export interface ShockScenarioResult {
+  scenario: ShockScenario;
+  totalExposure: number;
+  baselineNav: number;
+  stressedNav: number;
+  navDecline: number; // Percent of baseline NAV, one decimal
+  avgLtv: number;
+  facilitiesAtRisk: number;
+  breachCount: number;
+  facilities: FacilityShockResult[];
+}
+
+// LTV limit for facilities without an LTV covenant (percent)
+export const POLICY_MAX_LTV = 70;
+
+const LARGEST_LOSSES_SHOWN = 5;
+
+export interface HoldingExposure {
+  company: PortfolioCompany;
+  value: number;
+  isCash: boolean;
+}
+
+export interface FacilityExposure {
+  facility: Facility;
+  context: CovenantFormulaContext;
+  holdings: HoldingExposure[];
+  covenants: Array<{ covenant: Covenant; thresholdValue: number; thresholdOperator: string }>;
+}
+
+/**
+ * Portfolio-wide scenarios that differentiate by sector, geography and concentration
+ */
+export function getStandardShockScenarios(): ShockScenario[] {
+  return [
+    {
+      name: "Tech Drawdown with Concentration Write-down",
+      description: "Software and technology de-rating; largest positions written down by half",
+      sectorShocks: { software: -35, technology: -30, healthcare: -10 },
+      topHoldingsShock: { count: 3, shock: -50 },
+    },
+    {
+      name: "European Recession",
+      description: "Recession concentrated in Europe with modest spill-over elsewhere",
+      baseShock: -5,
+      geographyShocks: { europe: -25, "united kingdom": -25, uk: -25 },
+    },
+    {
+      name: "Rate Shock",
+      description: "Sharp rise in rates hitting leveraged and rate-sensitive sectors",
+      baseShock: -10,
+      sectorShocks: { "real estate": -30, financial: -20, consumer: -20, technology: -15 },
+    },
+    {
+      name: "Largest Holding Default",
+      description: "Each facility's single largest holding written off",
+      topHoldingsShock: { count: 1, shock: -100 },
+    },
+  ];
+}
+
+/**
+ * A scenario that applies the same shock to every holding
+ */
+export function uniformShockScenario(name: string, shock: number): ShockScenario {
+  return { name, description: `${shock}% across all holdings`, baseShock: shock };
+}
+
+// The most specific (longest) key contained in the label
+function matchShock(label: string, shocks: Record<string, number> | undefined): number | null {
+  if (!shocks || !label) return null;
+  let best: { key: string; shock: number } | null = null;
+  for (const [key, shock] of Object.entries(shocks)) {
+    const normalized = normalizeLabel(key);
+    if (normalized && label.includes(normalized) && (!best || normalized.length > best.key.length)) {
+      best = { key: normalized, shock };
+    }
+  }
+  return best?.shock ?? null;
+}
+
+function shockHoldings(scenario: ShockScenario, holdings: HoldingExposure[]): ShockedHolding[] {
+  const topCount = scenario.topHoldingsShock?.count ?? 0;
+  const topIds = new Set(
+    holdings
+      .filter(h => !h.isCash)
+      .sort((a, b) => b.value - a.value)
+      .slice(0, topCount)
+      .map(h => h.company.id)
+  );
+
+  return holdings.map(({ company, value, isCash }) => {
+    const shocks: number[] = [];
+    if (!isCash) {
+      const sectorLabel = normalizeLabel(`${company.sector ?? ""} ${company.industry ?? ""}`);
+      const sectorShock = matchShock(sectorLabel, scenario.sectorShocks);
+      const geographyShock = matchShock(normalizeLabel(company.geography ?? ""), scenario.geographyShocks);
+      const holdingShock = scenario.holdingShocks?.find(h =>
+        h.companyId ? h.companyId === company.id : normalizeLabel(h.companyName ?? "") === normalizeLabel(company.companyName)
+      );
+
+      if (sectorShock !== null) shocks.push(sectorShock);
+      if (geographyShock !== null) shocks.push(geographyShock);
+      if (holdingShock) shocks.push(holdingShock.shock);
+      if (topIds.has(company.id)) shocks.push(scenario.topHoldingsShock!.shock);
+      if (shocks.length === 0 && scenario.baseShock) shocks.push(scenario.baseShock);
+    }
+
+    const factor = Math.max(0, shocks.reduce((f, shock) => f * (1 + shock / 100), 1));
+    const stressedValue = Math.round(value * factor);
+    return {
+      companyId: company.id,
+      companyName: company.companyName,
+      sector: company.sector,
+      geography: company.geography,
+      baselineValue: value,
+      stressedValue,
+      shockPercent: Math.round((factor - 1) * 1000) / 10,
+    };
+  });
+}
+
+function roundOne(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function evaluateFormula(covenant: Covenant, context: CovenantFormulaContext): number | null {
+  try {
+    return evaluateCovenantValue(covenant.formula!, context);
+  } catch (error) {
+    if (error instanceof CovenantFormulaError) return null;
+    throw error;
+  }
+}
+
+/**
+ * One facility under a scenario; null when it has no NAV to shock
+ */
+export function applyShockScenario(scenario: ShockScenario, exposure: FacilityExposure): FacilityShockResult | null {
+  const { facility, context } = exposure;
+
+  // Without a recorded NAV or holdings, back the NAV out of the facility's LTV
+  const baselineNav = context.nav > 0
+    ? context.nav
+    : facility.ltvRatio > 0 ? facility.outstandingBalance * 100 / facility.ltvRatio : 0;
+  if (baselineNav <= 0) return null;
+
+  const shocked = shockHoldings(scenario, exposure.holdings);
+  const holdingsLoss = shocked.reduce((sum, h) => sum + h.baselineValue - h.stressedValue, 0);
+
+  // NAV not accounted for by holdings takes the base shock
+  const explained = exposure.holdings.reduce((sum, h) => sum + h.value, 0);
+  const unexplained = Math.max(baselineNav - explained, 0);
+  const unexplainedLoss = -unexplained * Math.max(scenario.baseShock ?? 0, -100) / 100;
+
+  const stressedNav = Math.max(baselineNav - holdingsLoss - unexplainedLoss, 0);
+  const baselineLtv = facility.outstandingBalance / baselineNav * 100;
+  const stressedLtv = stressedNav > 0 ? facility.outstandingBalance / stressedNav * 100 : Infinity;
+
+  // Stressed formula inputs: holdings-driven measures move with the shocked values
+  const nonCash = shocked.filter((_, i) => !exposure.holdings[i].isCash);
+  const bySector = new Map<string, number>();
+  for (const h of nonCash) {
+    const sector = h.sector || "Unknown";
+    bySector.set(sector, (bySector.get(sector) ?? 0) + h.stressedValue);
+  }
+  const stressedContext: CovenantFormulaContext = {
+    ...context,
+    nav: stressedNav,
+    holdings_value: Math.max(context.holdings_value - holdingsLoss, 0),
+    top_holding_value: Math.max(0, ...nonCash.map(h => h.stressedValue)),
+    top_sector_value: Math.max(0, ...Array.from(bySector.values())),
+    ltv_ratio: isFinite(stressedLtv) ? Math.round(stressedLtv) : context.ltv_ratio,
+  };
+
+  const covenantResults: ShockedCovenant[] = exposure.covenants.map(({ covenant, thresholdValue, thresholdOperator }) => {
+    let baselineValue: number | null;
+    let stressedValue: number | null;
+    if (covenant.formula) {
+      baselineValue = evaluateFormula(covenant, context);
+      stressedValue = evaluateFormula(covenant, stressedContext);
+    } else if (isLtvCovenant(covenant.covenantType)) {
+      baselineValue = Math.round(baselineLtv * LTV_COVENANT_SCALE);
+      stressedValue = isFinite(stressedLtv) ? Math.round(stressedLtv * LTV_COVENANT_SCALE) : null;
+    } else {
+      baselineValue = covenant.currentValue;
+      stressedValue = null;
+    }
+
+    return {
+      covenantId: covenant.id,
+      covenantType: covenant.covenantType,
+      thresholdValue,
+      thresholdOperator,
+      baselineValue,
+      stressedValue,
+      baselineStatus: baselineValue !== null ? calculateCovenantStatus(baselineValue, thresholdValue, thresholdOperator) : null,
+      stressedStatus: stressedValue !== null ? calculateCovenantStatus(stressedValue, thresholdValue, thresholdOperator) : null,
+    };
+  });
+
+  const ltvCovenant = exposure.covenants.find(c => isLtvCovenant(c.covenant.covenantType) && !c.covenant.formula);
+  const ltvLimit = ltvCovenant ? ltvCovenant.thresholdValue / LTV_COVENANT_SCALE : POLICY_MAX_LTV;
+  const ltvBreach = stressedLtv > ltvLimit;
+
+  // An LTV covenant breach is already counted among the covenants
+  const covenantBreaches = covenantResults.filter(c => c.stressedStatus === "breach").length;
+  const breachCount = covenantBreaches + (ltvBreach && !ltvCovenant ? 1 : 0);
+
+  return {
+    facilityId: facility.id,
+    fundName: facility.fundName,
+    outstandingBalance: facility.outstandingBalance,
+    baselineNav: Math.round(baselineNav),
+    stressedNav: Math.round(stressedNav),
+    navChangePercent: roundOne((stressedNav - baselineNav) / baselineNav * 100),
+    baselineLtv: roundOne(baselineLtv),
+    stressedLtv: isFinite(stressedLtv) ? roundOne(stressedLtv) : 999.9,
+    ltvLimit,
+    ltvLimitSource: ltvCovenant ? "covenant" : "policy",
+    ltvBreach,
+    holdingsCount: exposure.holdings.length,
+    largestLosses: shocked
+      .filter(h => h.stressedValue < h.baselineValue)
+      .sort((a, b) => (b.baselineValue - b.stressedValue) - (a.baselineValue - a.stressedValue))
+      .slice(0, LARGEST_LOSSES_SHOWN),
+    covenants: covenantResults,
+    breachCount,
+  };
+}
+
+/**
+ * Active facilities with their formula inputs, valued holdings and covenant thresholds in force
+ */
+export async function loadFacilityExposures(facilityIds?: string[]): Promise<FacilityExposure[]> {
+  const activeFacilities = await db.select()
+    .from(facilities)
+    .where(facilityIds
+      ? and(eq(facilities.status, "active"), inArray(facilities.id, facilityIds))
+      : eq(facilities.status, "active"));
+
+  if (activeFacilities.length === 0) return [];
+
+  const ids = activeFacilities.map(f => f.id);
+  const companies = await db.select()
+    .from(portfolioCompanies)
+    .where(and(inArray(portfolioCompanies.facilityId, ids), eq(portfolioCompanies.status, "active")));
+
+  // Latest holding valuation per company
+  const latestHolding = new Map<string, number>();
+  if (companies.length > 0) {
+    const holdings = await db.select({ companyId: portfolioHoldings.companyId, fairValue: portfolioHoldings.fairValue })
+      .from(portfolioHoldings)
+      .where(and(
+        inArray(portfolioHoldings.companyId, companies.map(c => c.id)),
+        eq(portfolioHoldings.basis, "gp_reported")
+      ))
+      .orderBy(desc(portfolioHoldings.asOfDate));
+    for (const holding of holdings) {
+      if (!latestHolding.has(holding.companyId)) {
+        latestHolding.set(holding.companyId, holding.fairValue);
+      }
+    }
+  }
+
+  const facilityCovenants = await db.select()
+    .from(covenants)
+    .where(inArray(covenants.facilityId, ids));
+
+  const now = new Date();
+  return await Promise.all(activeFacilities.map(async (facility) => ({
+    facility,
+    context: await loadCovenantContext(facility.id),
+    holdings: companies
+      .filter(c => c.facilityId === facility.id)
+      .map(company => ({
+        company,
+        value: latestHolding.get(company.id) ?? company.currentValue ?? company.investmentAmount ?? 0,
+        isCash: isCashHolding(company),
+      })),
+    covenants: await Promise.all(facilityCovenants
+      .filter(c => c.facilityId === facility.id)
+      .map(async (covenant) => ({ covenant, ...await getThresholdInForce(covenant, now) }))),
+  })));
+}
+
+/**
+ * Run shock scenarios across active facilities (optionally a subset)
+ */
+export async function runShockScenarios(
+  scenarios: ShockScenario[],
+  options: { facilityIds?: string[] } = {}
+): Promise<ShockScenarioResult[]> {
+  const exposures = await loadFacilityExposures(options.facilityIds);
+  return scenarios.map(scenario => summarizeShockScenario(scenario, exposures));
+}
+
+/**
+ * A scenario across loaded facility exposures, facilities with the most breaches first
+ */
+export function summarizeShockScenario(scenario: ShockScenario, exposures: FacilityExposure[]): ShockScenarioResult {
+  const results = exposures
+    .map(exposure => applyShockScenario(scenario, exposure))
+    .filter((r): r is FacilityShockResult => r !== null);
+
+  const baselineNav = results.reduce((sum, r) => sum + r.baselineNav, 0);
+  const stressedNav = results.reduce((sum, r) => sum + r.stressedNav, 0);
+
+  return {
+    scenario,
+    totalExposure: results.reduce((sum, r) => sum + r.outstandingBalance, 0),
+    baselineNav,
+    stressedNav,
+    navDecline: baselineNav > 0 ? roundOne((baselineNav - stressedNav) / baselineNav * 100) : 0,
+    avgLtv: results.length > 0 ? roundOne(results.reduce((sum, r) => sum + r.stressedLtv, 0) / results.length) : 0,
+    facilitiesAtRisk: results.filter(r => r.breachCount > 0).length,
+    breachCount: results.reduce((sum, r) => sum + r.breachCount, 0),
+    facilities: results.sort((a, b) => b.breachCount - a.breachCount || b.stressedLtv - a.stressedLtv),
+  };
+}
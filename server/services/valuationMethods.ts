@@ -0,0 +1,323 @@
+/**
+ * Valuation Methods
+ * Deterministic valuation toolkit for portfolio companies: trading comparables
+ * (EV/EBITDA and EV/Revenue from sector multiple tables), a discounted cash flow,
+ * the last financing round and cost. Each method produces a low/mid/high range; the
+ * fair value is the weighted blend of the methods that apply, so the same inputs
+ * always give the same numbers.
+ *
+ * Enterprise values are bridged to equity by deducting net debt, then scaled by the
+ * fund's ownership percentage when known. A last-round post-money valuation is
+ * already equity and is only scaled by ownership; cost is the fund's stake as is.
+ */
+
+import { normalizeLabel } from "./labelMatching";
+
+export type ValuationMethod = "ev_ebitda" | "ev_revenue" | "dcf" | "last_round" | "cost" | "reported_fair_value";
+
+export interface MultipleRange {
+  p25: number;
+  median: number;
+  p75: number;
+}
+
+export interface SectorMultiples {
+  evEbitda: MultipleRange;
+  evRevenue: MultipleRange;
+}
+
+export interface MethodValuation {
+  method: ValuationMethod;
+  label: string;
+  low: number;
+  mid: number;
+  high: number;
+  weight: number; // Percent of the blend, after normalisation
+  inputs: Record<string, number | string>;
+  notes: string[];
+}
+
+export interface BlendedValuation {
+  low: number;
+  mid: number;
+  high: number;
+  methods: MethodValuation[];
+}
+
+export interface ValuationMethodInputs {
+  sector?: string | null;
+  industry?: string | null;
+  revenue?: number;
+  ebitda?: number;
+  revenueGrowthRate?: number; // Percent per year
+  evEbitdaMultiple?: number; // Overrides the sector median
+  netDebt?: number;
+  ownershipPercent?: number | null;
+  dcf?: {
+    wacc: number; // Percent
+    terminalGrowth: number; // Percent
+    projectedCashFlows?: number[]; // Unlevered free cash flow per year, dollars
+  };
+  lastRound?: {
+    postMoneyValuation: number; // Whole company, dollars
+    date: Date;
+  };
+  cost?: {
+    amount: number;
+    investmentDate?: Date | null;
+  };
+  reportedFairValue?: number | null;
+  methodWeights?: Partial<Record<ValuationMethod, number>>;
+  asOf?: Date;
+}
+
+/**
+ * Sector trading multiples (enterprise value to LTM EBITDA / revenue), laid out like
+ * the by_sector market benchmarks: interquartile range and median per segment
+ */
+export const SECTOR_MULTIPLES: Record<string, SectorMultiples> = {
+  software: { evEbitda: { p25: 14.0, median: 18.0, p75: 24.0 }, evRevenue: { p25: 4.0, median: 6.0, p75: 9.0 } },
+  technology: { evEbitda: { p25: 11.0, median: 14.0, p75: 18.0 }, evRevenue: { p25: 2.0, median: 3.5, p75: 5.5 } },
+  healthcare: { evEbitda: { p25: 10.0, median: 13.0, p75: 16.0 }, evRevenue: { p25: 1.5, median: 2.5, p75: 4.0 } },
+  "financial services": { evEbitda: { p25: 8.0, median: 10.5, p75: 13.0 }, evRevenue: { p25: 2.0, median: 3.0, p75: 4.5 } },
+  consumer: { evEbitda: { p25: 8.0, median: 10.0, p75: 12.5 }, evRevenue: { p25: 0.8, median: 1.3, p75: 2.0 } },
+  industrials: { evEbitda: { p25: 7.5, median: 9.5, p75: 12.0 }, evRevenue: { p25: 0.8, median: 1.2, p75: 1.8 } },
+  energy: { evEbitda: { p25: 5.0, median: 6.5, p75: 8.5 }, evRevenue: { p25: 0.7, median: 1.1, p75: 1.6 } },
+  "real estate": { evEbitda: { p25: 14.0, median: 17.0, p75: 20.0 }, evRevenue: { p25: 5.0, median: 7.0, p75: 9.0 } },
+  infrastructure: { evEbitda: { p25: 10.0, median: 12.5, p75: 15.0 }, evRevenue: { p25: 3.0, median: 4.5, p75: 6.0 } },
+};
+
+// Used when the sector is unknown or not in the table
+const DEFAULT_MULTIPLES: SectorMultiples = {
+  evEbitda: { p25: 8.0, median: 10.5, p75: 13.5 },
+  evRevenue: { p25: 1.0, median: 1.8, p75: 3.0 },
+};
+
+/**
+ * Starting weights (percent) before adjustment for the company's circumstances:
+ * - Loss-making or EBITDA-less companies: EV/EBITDA drops out and EV/Revenue takes its weight
+ * - A round in the last 12 months is the best calibration point and takes 30
+ * - In the first 12 months after investment, cost takes 20
+ * Weights are renormalised over the methods that apply.
+ */
+export const DEFAULT_METHOD_WEIGHTS: Record<ValuationMethod, number> = {
+  ev_ebitda: 40,
+  dcf: 30,
+  ev_revenue: 15,
+  last_round: 10,
+  cost: 5,
+  reported_fair_value: 60, // Only when no comparables, DCF or round apply
+};
+
+const RECENT_MONTHS = 12;
+const DCF_PROJECTION_YEARS = 5;
+const DCF_CASH_CONVERSION = 0.5; // Share of EBITDA converted to unlevered free cash flow
+const DCF_WACC_SENSITIVITY = 1; // +/- percentage points for the range
+const DCF_GROWTH_SENSITIVITY = 0.5;
+
+/**
+ * Multiples for a company, matched on sector then industry (longest match wins)
+ */
+export function resolveSectorMultiples(sector?: string | null, industry?: string | null): { segment: string; multiples: SectorMultiples } {
+  for (const candidate of [sector, industry]) {
+    if (!candidate) continue;
+    const label = normalizeLabel(candidate);
+    let best: string | null = null;
+    for (const key of Object.keys(SECTOR_MULTIPLES)) {
+      if ((label.includes(key) || key.includes(label)) && (!best || key.length > best.length)) {
+        best = key;
+      }
+    }
+    if (best) return { segment: best, multiples: SECTOR_MULTIPLES[best] };
+  }
+  return { segment: "default", multiples: DEFAULT_MULTIPLES };
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24 * 30.4375);
+}
+
+/**
+ * Present value of projected cash flows plus a Gordon growth terminal value
+ */
+export function discountedCashFlowValue(cashFlows: number[], waccPercent: number, terminalGrowthPercent: number): number {
+  const wacc = waccPercent / 100;
+  const growth = terminalGrowthPercent / 100;
+  if (wacc <= growth) {
+    throw new Error("WACC must exceed terminal growth");
+  }
+  let value = 0;
+  cashFlows.forEach((cashFlow, i) => {
+    value += cashFlow / Math.pow(1 + wacc, i + 1);
+  });
+  const finalCashFlow = cashFlows[cashFlows.length - 1] ?? 0;
+  const terminalValue = finalCashFlow * (1 + growth) / (wacc - growth);
+  return value + terminalValue / Math.pow(1 + wacc, cashFlows.length);
+}
+
+/**
+ * Run every applicable method and blend them
+ */
+export function runValuationMethods(inputs: ValuationMethodInputs): BlendedValuation {
+  const asOf = inputs.asOf ?? new Date();
+  const netDebt = inputs.netDebt ?? 0;
+  const ownership = inputs.ownershipPercent && inputs.ownershipPercent > 0 ? inputs.ownershipPercent / 100 : 1;
+  const { segment, multiples } = resolveSectorMultiples(inputs.sector, inputs.industry);
+
+  // Enterprise value to the fund's share of equity
+  const toStake = (enterpriseValue: number) => Math.max(enterpriseValue - netDebt, 0) * ownership;
+  const bridgeInputs = {
+    netDebt,
+    ownershipPercent: Math.round(ownership * 10000) / 100,
+  };
+
+  const methods: Array<Omit<MethodValuation, "weight"> & { rawWeight: number }> = [];
+  const weights = { ...DEFAULT_METHOD_WEIGHTS, ...inputs.methodWeights };
+  const ebitdaPositive = !!inputs.ebitda && inputs.ebitda > 0;
+
+  if (ebitdaPositive) {
+    const ebitda = inputs.ebitda!;
+    // A user multiple replaces the median and keeps the sector's spread around it
+    const scale = inputs.evEbitdaMultiple ? inputs.evEbitdaMultiple / multiples.evEbitda.median : 1;
+    const range = {
+      p25: multiples.evEbitda.p25 * scale,
+      median: multiples.evEbitda.median * scale,
+      p75: multiples.evEbitda.p75 * scale,
+    };
+    methods.push({
+      method: "ev_ebitda",
+      label: "EV/EBITDA comparables",
+      low: toStake(ebitda * range.p25),
+      mid: toStake(ebitda * range.median),
+      high: toStake(ebitda * range.p75),
+      inputs: { ebitda, segment, p25: range.p25, median: range.median, p75: range.p75, ...bridgeInputs },
+      notes: [
+        inputs.evEbitdaMultiple
+          ? `User multiple ${inputs.evEbitdaMultiple}x with the ${segment} interquartile spread`
+          : `${segment} sector interquartile range`,
+      ],
+      rawWeight: weights.ev_ebitda,
+    });
+  }
+
+  if (inputs.revenue && inputs.revenue > 0) {
+    const revenue = inputs.revenue;
+    methods.push({
+      method: "ev_revenue",
+      label: "EV/Revenue comparables",
+      low: toStake(revenue * multiples.evRevenue.p25),
+      mid: toStake(revenue * multiples.evRevenue.median),
+      high: toStake(revenue * multiples.evRevenue.p75),
+      inputs: { revenue, segment, ...multiples.evRevenue, ...bridgeInputs },
+      notes: ebitdaPositive
+        ? [`${segment} sector interquartile range`]
+        : [`${segment} sector interquartile range; primary multiple as EBITDA is not positive`],
+      // Revenue comps carry the EBITDA comps' weight when EBITDA is unavailable or negative
+      rawWeight: ebitdaPositive ? weights.ev_revenue : weights.ev_revenue + weights.ev_ebitda,
+    });
+  }
+
+  if (inputs.dcf) {
+    const { wacc, terminalGrowth } = inputs.dcf;
+    let cashFlows = inputs.dcf.projectedCashFlows;
+    const notes: string[] = [];
+    if ((!cashFlows || cashFlows.length === 0) && ebitdaPositive) {
+      const growth = (inputs.revenueGrowthRate ?? 0) / 100;
+      cashFlows = Array.from({ length: DCF_PROJECTION_YEARS }, (_, i) =>
+        inputs.ebitda! * DCF_CASH_CONVERSION * Math.pow(1 + growth, i + 1)
+      );
+      notes.push(`Cash flows projected from EBITDA at ${DCF_CASH_CONVERSION * 100}% conversion, growing ${inputs.revenueGrowthRate ?? 0}% a year for ${DCF_PROJECTION_YEARS} years`);
+    }
+
+    if (cashFlows && cashFlows.length > 0) {
+      // Range: higher WACC and lower growth at the low end, and vice versa. The high
+      // case keeps growth at least half a point under its WACC.
+      const highWacc = wacc - DCF_WACC_SENSITIVITY;
+      const low = discountedCashFlowValue(cashFlows, wacc + DCF_WACC_SENSITIVITY, terminalGrowth - DCF_GROWTH_SENSITIVITY);
+      const mid = discountedCashFlowValue(cashFlows, wacc, terminalGrowth);
+      const high = discountedCashFlowValue(cashFlows, highWacc, Math.min(terminalGrowth + DCF_GROWTH_SENSITIVITY, highWacc - 0.5));
+      notes.push(`Range flexes WACC by ±${DCF_WACC_SENSITIVITY}pp and terminal growth by ±${DCF_GROWTH_SENSITIVITY}pp`);
+      methods.push({
+        method: "dcf",
+        label: "Discounted cash flow",
+        low: toStake(low),
+        mid: toStake(mid),
+        high: toStake(high),
+        inputs: { wacc, terminalGrowth, years: cashFlows.length, finalCashFlow: Math.round(cashFlows[cashFlows.length - 1]), ...bridgeInputs },
+        notes,
+        rawWeight: weights.dcf,
+      });
+    }
+  }
+
+  if (inputs.lastRound && inputs.lastRound.postMoneyValuation > 0) {
+    const { postMoneyValuation, date } = inputs.lastRound;
+    const months = monthsBetween(date, asOf);
+    const recent = months <= RECENT_MONTHS;
+    const spread = recent ? 0.1 : 0.2;
+    const stake = postMoneyValuation * ownership;
+    methods.push({
+      method: "last_round",
+      label: "Last financing round",
+      low: stake * (1 - spread),
+      mid: stake,
+      high: stake * (1 + spread),
+      inputs: { postMoneyValuation, monthsSinceRound: Math.round(months), ownershipPercent: bridgeInputs.ownershipPercent },
+      notes: [recent
+        ? `Round within ${RECENT_MONTHS} months: ±${spread * 100}% range and calibration weight`
+        : `Round over ${RECENT_MONTHS} months old: ±${spread * 100}% range`],
+      rawWeight: recent ? Math.max(weights.last_round, 30) : weights.last_round,
+    });
+  }
+
+  if (inputs.cost && inputs.cost.amount > 0) {
+    const { amount, investmentDate } = inputs.cost;
+    const months = investmentDate ? monthsBetween(investmentDate, asOf) : null;
+    const recent = months !== null && months <= RECENT_MONTHS;
+    methods.push({
+      method: "cost",
+      label: "Cost",
+      low: amount * 0.9,
+      mid: amount,
+      high: amount * 1.1,
+      inputs: months !== null ? { amount, monthsHeld: Math.round(months) } : { amount },
+      notes: [recent ? `Held under ${RECENT_MONTHS} months: cost remains a calibration point` : "Cost as a floor reference"],
+      rawWeight: recent ? Math.max(weights.cost, 20) : weights.cost,
+    });
+  }
+
+  // No market or income evidence: carry the last reported fair value alongside cost
+  if (methods.every(m => m.method === "cost") && inputs.reportedFairValue && inputs.reportedFairValue > 0) {
+    const value = inputs.reportedFairValue;
+    methods.push({
+      method: "reported_fair_value",
+      label: "Last reported fair value",
+      low: value * 0.8,
+      mid: value,
+      high: value * 1.2,
+      inputs: { reportedFairValue: value },
+      notes: ["No financials or recent round supplied; ±20% range"],
+      rawWeight: weights.reported_fair_value,
+    });
+  }
+
+  const totalWeight = methods.reduce((sum, m) => sum + m.rawWeight, 0);
+  const weighted: MethodValuation[] = methods.map(({ rawWeight, ...m }) => ({
+    ...m,
+    low: Math.round(m.low),
+    mid: Math.round(m.mid),
+    high: Math.round(m.high),
+    weight: totalWeight > 0 ? Math.round(rawWeight / totalWeight * 1000) / 10 : 0,
+  }));
+
+  const blend = (key: "low" | "mid" | "high") => totalWeight > 0
+    ? Math.round(methods.reduce((sum, m) => sum + m[key] * m.rawWeight, 0) / totalWeight)
+    : 0;
+
+  return {
+    low: blend("low"),
+    mid: blend("mid"),
+    high: blend("high"),
+    methods: weighted,
+  };
+}
@@ -0,0 +1,339 @@
+/**
+ * Outbound Webhooks
+ * Emits domain events to API clients that have a webhook URL. Each subscribed client
+ * gets its own delivery row, signed with the client's webhook secret and retried with
+ * the same backoff as notification deliveries.
+ *
+ * Signature: X-AlphaNAV-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ */
+
+import { type Request } from "express";
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { db } from "../db";
+import {
+  apiClients,
+  facilities,
+  webhookDeliveries,
+  type WebhookDelivery,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, isNotNull, lt, lte, or, sql } from "drizzle-orm";
+import { createAuditLog, AuditActions, EntityTypes } from "../auditLogger";
+import { MAX_DELIVERY_ATTEMPTS, retryDelayMs } from "./notificationDelivery";
+
+// Event type -> public API scope a client needs to receive it
+export const WEBHOOK_EVENT_SCOPES = {
+  "covenant.breached": "read:covenants",
+  "draw_request.approved": "read:draws",
+  "facility.nav_updated": "read:facilities",
+  "cash_flow.overdue": "read:facilities",
+  "term_sheet.submitted": "read:facilities",
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENT_SCOPES;
+export const WEBHOOK_EVENT_TYPES = Object.keys(WEBHOOK_EVENT_SCOPES) as WebhookEventType[];
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const STALE_SENDING_MS = 10 * 60 * 1000;
+const QUEUE_BATCH_SIZE = 50;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+export function isWebhookEventType(value: string): value is WebhookEventType {
+  return Object.prototype.hasOwnProperty.call(WEBHOOK_EVENT_SCOPES, value);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Queue an event for every active client subscribed to it and start delivering in the
+ * background. Clients scoped to an organization only receive events for facilities
+ * that organization owns. Never throws - a webhook problem must not fail the caller.
+ */
+export async function emitWebhookEvent(
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+  options: { facilityId?: string | null } = {}
+): Promise<number> {
+  try {
+    const subscribers = await db.select()
+      .from(apiClients)
+      .where(and(eq(apiClients.status, "active"), isNotNull(apiClients.webhookUrl), isNotNull(apiClients.webhookSecret)));
+    if (subscribers.length === 0) return 0;
+
+    let ownerId: string | null = null;
+    if (options.facilityId) {
+      const [facility] = await db.select({ gpUserId: facilities.gpUserId })
+        .from(facilities)
+        .where(eq(facilities.id, options.facilityId))
+        .limit(1);
+      ownerId = facility?.gpUserId ?? null;
+    }
+
+    const recipients = subscribers.filter((client) => {
+      const events = client.webhookEvents as string[] | null;
+      const scopes = (client.allowedScopes as string[] | null) ?? [];
+      return (!events || events.includes(type))
+        && scopes.includes(WEBHOOK_EVENT_SCOPES[type])
+        && (!client.organizationId || client.organizationId === ownerId);
+    });
+    if (recipients.length === 0) return 0;
+
+    const eventId = randomUUID();
+    const payload = { id: eventId, type, createdAt: new Date().toISOString(), data };
+    const queued = await db.insert(webhookDeliveries)
+      .values(recipients.map((client) => ({
+        apiClientId: client.id,
+        eventId,
+        eventType: type,
+        url: client.webhookUrl!,
+        payload,
+        nextAttemptAt: new Date(),
+      })))
+      .returning();
+
+    // First attempts run in the background so a slow endpoint can't hold up the request that raised the event
+    for (const delivery of queued) {
+      attemptWebhookDelivery(delivery).catch((error) => {
+        console.error(`Webhook delivery ${delivery.id} attempt failed:`, error);
+      });
+    }
+    return queued.length;
+  } catch (error) {
+    console.error(`Failed to emit ${type} webhook event:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Make one signed POST for a queued delivery and record the outcome. Like notification
+ * deliveries, the row is claimed first; returns null when another worker holds it.
+ */
+async function attemptWebhookDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+  const now = new Date();
+  const [claimed] = await db.update(webhookDeliveries)
+    .set({ status: "sending", lastAttemptAt: now })
+    .where(
+      and(
+        eq(webhookDeliveries.id, delivery.id),
+        or(
+          inArray(webhookDeliveries.status, ["pending", "retrying"]),
+          and(
+            eq(webhookDeliveries.status, "sending"),
+            lt(webhookDeliveries.lastAttemptAt, new Date(now.getTime() - STALE_SENDING_MS))
+          )
+        )
+      )
+    )
+    .returning();
+
+  if (!claimed) return null;
+
+  const [client] = await db.select().from(apiClients).where(eq(apiClients.id, claimed.apiClientId)).limit(1);
+  const attempts = claimed.attempts + 1;
+
+  // Nothing to retry against once the client is gone, suspended or unsubscribed
+  const unusable = !client
+    ? "API client no longer exists"
+    : client.status !== "active"
+      ? `API client is ${client.status}`
+      : !client.webhookUrl || !client.webhookSecret
+        ? "API client has no webhook configured"
+        : null;
+  if (unusable) {
+    const [dead] = await db.update(webhookDeliveries)
+      .set({ status: "dead_letter", attempts, nextAttemptAt: null, error: unusable })
+      .where(eq(webhookDeliveries.id, claimed.id))
+      .returning();
+    return dead;
+  }
+
+  // Sent to the client's current URL so a corrected endpoint picks up redeliveries
+  const url = client!.webhookUrl!;
+  const body = JSON.stringify(claimed.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "AlphaNAV-Webhooks/1.0",
+        "X-AlphaNAV-Event": claimed.eventType,
+        "X-AlphaNAV-Delivery": claimed.id,
+        "X-AlphaNAV-Signature": `t=${timestamp},v1=${signWebhookPayload(client!.webhookSecret!, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+    if (!response.ok) {
+      error = `Endpoint responded ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (!error) {
+    const [delivered] = await db.update(webhookDeliveries)
+      .set({
+        status: "delivered",
+        url,
+        attempts,
+        responseStatus,
+        responseBody,
+        error: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      })
+      .where(eq(webhookDeliveries.id, claimed.id))
+      .returning();
+    return delivered;
+  }
+
+  const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+  const [failed] = await db.update(webhookDeliveries)
+    .set({
+      status: exhausted ? "dead_letter" : "retrying",
+      url,
+      attempts,
+      responseStatus,
+      responseBody,
+      error,
+      nextAttemptAt: exhausted ? null : new Date(Date.now() + retryDelayMs(attempts)),
+    })
+    .where(eq(webhookDeliveries.id, claimed.id))
+    .returning();
+
+  if (exhausted) {
+    console.error(`Webhook delivery ${claimed.id} (${claimed.eventType} to ${url}) dead-lettered after ${attempts} attempt(s): ${error}`);
+  }
+  return failed;
+}
+
+/**
+ * Retry every webhook delivery that has come due. Run by the scheduler every minute.
+ */
+export async function processWebhookQueue(limit: number = QUEUE_BATCH_SIZE): Promise<{
+  processed: number;
+  delivered: number;
+  retrying: number;
+  deadLettered: number;
+}> {
+  const now = new Date();
+  const due = await db.select()
+    .from(webhookDeliveries)
+    .where(
+      or(
+        and(
+          inArray(webhookDeliveries.status, ["pending", "retrying"]),
+          lte(webhookDeliveries.nextAttemptAt, now)
+        ),
+        and(
+          eq(webhookDeliveries.status, "sending"),
+          lt(webhookDeliveries.lastAttemptAt, new Date(now.getTime() - STALE_SENDING_MS))
+        )
+      )
+    )
+    .orderBy(asc(webhookDeliveries.nextAttemptAt))
+    .limit(limit);
+
+  const summary = { processed: 0, delivered: 0, retrying: 0, deadLettered: 0 };
+  for (const delivery of due) {
+    const attempted = await attemptWebhookDelivery(delivery);
+    if (!attempted) continue;
+    summary.processed++;
+    if (attempted.status === "delivered") summary.delivered++;
+    else if (attempted.status === "retrying") summary.retrying++;
+    else if (attempted.status === "dead_letter") summary.deadLettered++;
+  }
+
+  return summary;
+}
+
+/**
+ * Send a dead-lettered or already delivered event again, with a fresh set of attempts
+ */
+export async function redeliverWebhook(
+  apiClientId: string,
+  id: string,
+  user: Express.User,
+  req?: Request
+): Promise<
+  | { success: true; delivery: WebhookDelivery }
+  | { success: false; status: number; error: string }
+> {
+  const [delivery] = await db.select()
+    .from(webhookDeliveries)
+    .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.apiClientId, apiClientId)))
+    .limit(1);
+
+  if (!delivery) {
+    return { success: false, status: 404, error: "Webhook delivery not found" };
+  }
+  if (delivery.status !== "dead_letter" && delivery.status !== "delivered") {
+    return { success: false, status: 409, error: `Delivery is still in progress (status is ${delivery.status})` };
+  }
+
+  const [requeued] = await db.update(webhookDeliveries)
+    .set({ status: "pending", attempts: 0, nextAttemptAt: new Date() })
+    .where(eq(webhookDeliveries.id, id))
+    .returning();
+
+  await createAuditLog({
+    userId: user.id,
+    userRole: user.role,
+    action: AuditActions.REDELIVER_WEBHOOK,
+    entityType: EntityTypes.WEBHOOK_DELIVERY,
+    entityId: id,
+    changes: {
+      apiClientId,
+      eventType: delivery.eventType,
+      previousStatus: delivery.status,
+      previousAttempts: delivery.attempts,
+      lastError: delivery.error,
+    },
+    req,
+  });
+
+  const attempted = await attemptWebhookDelivery(requeued);
+  return { success: true, delivery: attempted ?? requeued };
+}
+
+/**
+ * A client's delivery log, newest first, with counts by status
+ */
+export async function getWebhookDeliveries(
+  apiClientId: string,
+  filters: { status?: string; limit?: number } = {}
+) {
+  const conditions = [eq(webhookDeliveries.apiClientId, apiClientId)];
+  if (filters.status) conditions.push(eq(webhookDeliveries.status, filters.status));
+
+  const deliveries = await db.select()
+    .from(webhookDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(filters.limit ?? 100);
+
+  const counts = await db.select({
+    status: webhookDeliveries.status,
+    count: sql<number>`count(*)::int`,
+  })
+    .from(webhookDeliveries)
+    .where(eq(webhookDeliveries.apiClientId, apiClientId))
+    .groupBy(webhookDeliveries.status);
+
+  return {
+    counts: Object.fromEntries(counts.map((c) => [c.status, c.count])) as Record<string, number>,
+    deliveries,
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Accrual Ledger Tests
+ *
+ * Checks the in-memory ledger engine behind accrual, payments and payoff quotes:
+ * - Daily interest accrual under the day-count convention, including rate resets
+ * - PIK accrual and capitalisation on payment dates
+ * - Replaying stored rows into a running state
+ * - The fees -> interest -> principal payment waterfall
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/accrual-ledger.test.ts
+ */
+
+import {
+  accrueDays,
+  allocatePayment,
+  postEntry,
+  stateFromEntries,
+  type AccrualContext,
+  type LedgerState,
+} from "../services/accrualLedger";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+const iso = (date: Date) => date.toISOString().slice(0, 10);
+
+const FACILITY_ID = "facility-1";
+
+function openState(overrides: Partial<LedgerState> = {}): LedgerState {
+  return {
+    accruedThrough: utc(2026, 1, 1),
+    principalBalance: 10_000_000,
+    accruedInterest: 0,
+    accruedPik: 0,
+    accruedFees: 0,
+    ...overrides,
+  };
+}
+
+function context(overrides: Partial<AccrualContext> = {}): AccrualContext {
+  return {
+    dayCount: "ACT/360",
+    pikRateBps: 0,
+    periodEnds: new Set(),
+    rateForDay: () => 800,
+    ...overrides,
+  };
+}
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Accrual Ledger Tests                                    ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== DAILY ACCRUAL =====
+    const dailyInterest = Math.round(10_000_000 * 0.08 / 360);
+    const state = openState();
+    const entries = accrueDays(state, FACILITY_ID, utc(2026, 1, 11), context());
+
+    logTest(
+      "One interest accrual row per day, up to but not including the through date",
+      entries.length === 10 && entries.every(e => e.entryType === "interest_accrual")
+        && iso(entries[0].entryDate) === "2026-01-01" && iso(entries[9].entryDate) === "2026-01-10",
+      undefined,
+      `${entries.length} rows, ${iso(entries[0].entryDate)} to ${iso(entries[entries.length - 1].entryDate)}`
+    );
+    logTest(
+      "Each day accrues principal x rate / 360 under ACT/360",
+      entries.every(e => e.interestDelta === dailyInterest && e.rateBps === 800)
+        && state.accruedInterest === dailyInterest * 10,
+      undefined,
+      `daily ${entries[0].interestDelta}, total ${state.accruedInterest}`
+    );
+    logTest(
+      "Rows carry the running balances and the state advances to the through date",
+      entries[9].accruedInterest === state.accruedInterest && entries[9].principalBalance === 10_000_000
+        && iso(state.accruedThrough) === "2026-01-11"
+    );
+
+    const act365 = openState();
+    accrueDays(act365, FACILITY_ID, utc(2026, 1, 2), context({ dayCount: "ACT/365" }));
+    logTest(
+      "ACT/365 accrues a 365th of the annual rate per day",
+      act365.accruedInterest === Math.round(10_000_000 * 0.08 / 365)
+    );
+
+    const alreadyAccrued = openState({ accruedThrough: utc(2026, 1, 11) });
+    const none = accrueDays(alreadyAccrued, FACILITY_ID, utc(2026, 1, 5), context());
+    logTest(
+      "Accruing to a date already covered books nothing and never moves accruedThrough back",
+      none.length === 0 && iso(alreadyAccrued.accruedThrough) === "2026-01-11"
+    );
+
+    const floating = openState();
+    const floatingEntries = accrueDays(floating, FACILITY_ID, utc(2026, 1, 5), context({
+      rateForDay: (day) => day >= utc(2026, 1, 3) ? 1000 : 800,
+    }));
+    logTest(
+      "Floating-rate resets apply from their period start",
+      floatingEntries.map(e => e.rateBps).join(",") === "800,800,1000,1000"
+        && floating.accruedInterest === dailyInterest * 2 + Math.round(10_000_000 * 0.10 / 360) * 2
+    );
+
+    // ===== PIK =====
+    const dailyPik = Math.round(10_000_000 * 0.02 / 360);
+    const pik = openState();
+    const pikEntries = accrueDays(pik, FACILITY_ID, utc(2026, 1, 8), context({
+      pikRateBps: 200,
+      periodEnds: new Set([utc(2026, 1, 6).getTime()]),
+    }));
+    const capitalisation = pikEntries.find(e => e.entryType === "pik_capitalization");
+
+    logTest(
+      "PIK accrued before a payment date is capitalised into principal on that date",
+      !!capitalisation && iso(capitalisation.entryDate) === "2026-01-06"
+        && capitalisation.principalDelta === dailyPik * 5 && capitalisation.pikDelta === -dailyPik * 5,
+      undefined,
+      capitalisation ? `capitalised ${capitalisation.principalDelta} on ${iso(capitalisation.entryDate)}` : "no capitalisation row"
+    );
+    const afterCapitalisation = pikEntries.filter(e => e.entryType === "interest_accrual" && e.entryDate >= utc(2026, 1, 6));
+    logTest(
+      "Interest and PIK accrue on the capitalised principal afterwards",
+      pik.principalBalance === 10_000_000 + dailyPik * 5
+        && afterCapitalisation.every(e => e.interestDelta === Math.round(pik.principalBalance * 0.08 / 360))
+        && pik.accruedPik === Math.round(pik.principalBalance * 0.02 / 360) * 2,
+      undefined,
+      `principal ${pik.principalBalance}, accrued PIK ${pik.accruedPik}`
+    );
+
+    // ===== REPLAY =====
+    const replayed = stateFromEntries(entries);
+    logTest(
+      "Replaying accrual rows resumes the day after the last accrued day",
+      !!replayed && iso(replayed.accruedThrough) === "2026-01-11"
+        && replayed.accruedInterest === dailyInterest * 10 && replayed.principalBalance === 10_000_000
+    );
+
+    const withFee = [...entries];
+    const feeState = stateFromEntries(entries)!;
+    withFee.push(postEntry(feeState, FACILITY_ID, {
+      entryDate: utc(2026, 1, 11),
+      entryType: "fee",
+      feesDelta: 25_000,
+    }));
+    const replayedWithFee = stateFromEntries(withFee);
+    logTest(
+      "A non-accrual row on the accrued-through date doesn't skip a day of accrual",
+      !!replayedWithFee && iso(replayedWithFee.accruedThrough) === "2026-01-11" && replayedWithFee.accruedFees === 25_000
+    );
+    logTest("Replaying no rows gives no state", stateFromEntries([]) === null);
+
+    // ===== PAYMENT WATERFALL =====
+    const owed = openState({ accruedFees: 25_000, accruedInterest: 200_000, principalBalance: 1_000_000 });
+
+    const feesOnly = allocatePayment(owed, 10_000);
+    logTest(
+      "A payment smaller than fees goes entirely to fees",
+      feesOnly.fees === 10_000 && feesOnly.interest === 0 && feesOnly.principal === 0 && feesOnly.unapplied === 0
+    );
+
+    const partial = allocatePayment(owed, 125_000);
+    logTest(
+      "Fees are paid in full before interest",
+      partial.fees === 25_000 && partial.interest === 100_000 && partial.principal === 0
+    );
+
+    const throughPrincipal = allocatePayment(owed, 525_000);
+    logTest(
+      "Principal is only reduced once fees and interest are cleared",
+      throughPrincipal.fees === 25_000 && throughPrincipal.interest === 200_000 && throughPrincipal.principal === 300_000
+        && throughPrincipal.unapplied === 0
+    );
+
+    const overpayment = allocatePayment(owed, 1_500_000);
+    logTest(
+      "Anything beyond the total owed is left unapplied",
+      overpayment.principal === 1_000_000 && overpayment.unapplied === 275_000
+    );
+
+    const credit = allocatePayment(openState({ accruedFees: -5_000, accruedInterest: 10_000 }), 10_000);
+    logTest(
+      "A fee credit (negative balance) is not treated as owed",
+      credit.fees === 0 && credit.interest === 10_000
+    );
+
+    const paymentState = openState({ accruedFees: 25_000, accruedInterest: 200_000, principalBalance: 1_000_000 });
+    const allocation = allocatePayment(paymentState, 525_000);
+    const paymentRow = postEntry(paymentState, FACILITY_ID, {
+      entryDate: utc(2026, 1, 11),
+      entryType: "payment",
+      feesDelta: -allocation.fees,
+      interestDelta: -allocation.interest,
+      principalDelta: -allocation.principal,
+    });
+    logTest(
+      "Posting the allocation clears fees and interest and reduces principal",
+      paymentState.accruedFees === 0 && paymentState.accruedInterest === 0 && paymentState.principalBalance === 700_000
+        && paymentRow.principalBalance === 700_000 && paymentRow.principalDelta === -300_000
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
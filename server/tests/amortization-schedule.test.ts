@@ -0,0 +1,260 @@
+/**
+ * Amortization Schedule Engine Tests
+ *
+ * Checks generateAmortizationSchedule against hand-computed schedules:
+ * - Bullet, straight-line and custom principal
+ * - ACT/360, ACT/365 and 30/360 interest
+ * - Draws, prepayments and rate changes inside a period
+ * - Stub periods, month-end anchoring, startDate and per-period rate fixings
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/amortization-schedule.test.ts
+ */
+
+import {
+  generateAmortizationSchedule,
+  buildPeriodDates,
+  addMonthsUtc,
+  yearFraction,
+  type ScheduleParams,
+} from "../services/amortizationSchedule";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+const utc = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day));
+const iso = (date: Date) => date.toISOString().slice(0, 10);
+
+// $10m at 8% paid quarterly over 2026
+const base: ScheduleParams = {
+  principal: 10_000_000,
+  interestRateBps: 800,
+  originationDate: utc(2026, 1, 1),
+  maturityDate: utc(2027, 1, 1),
+  frequency: "quarterly",
+  dayCount: "ACT/360",
+  amortization: "bullet",
+};
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Amortization Schedule Engine Tests                      ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== BULLET =====
+    const bullet = generateAmortizationSchedule(base);
+    logTest(
+      "Bullet: four quarterly periods anchored on origination",
+      bullet.length === 4 && bullet.map(p => iso(p.dueDate)).join(",") === "2026-04-01,2026-07-01,2026-10-01,2027-01-01",
+      undefined,
+      bullet.map(p => iso(p.dueDate)).join(", ")
+    );
+    logTest(
+      "Bullet: no principal until maturity, all of it at maturity",
+      bullet.slice(0, 3).every(p => p.principal === 0) && bullet[3].principal === 10_000_000 && bullet[3].closingBalance === 0
+    );
+    // Jan 1 - Apr 1 2026 is 90 days: 10m x 8% x 90/360
+    logTest(
+      "Bullet: ACT/360 interest on the actual days in the period",
+      bullet[0].interest === 200_000 && bullet[1].interest === Math.round(10_000_000 * 0.08 * 91 / 360),
+      undefined,
+      `Q1 ${bullet[0].interest}, Q2 ${bullet[1].interest}`
+    );
+    logTest(
+      "Total due is principal plus interest",
+      bullet.every(p => p.totalDue === p.principal + p.interest)
+    );
+
+    const act365 = generateAmortizationSchedule({ ...base, dayCount: "ACT/365" });
+    logTest(
+      "ACT/365 interest uses a 365-day year",
+      act365[0].interest === Math.round(10_000_000 * 0.08 * 90 / 365),
+      undefined,
+      `Q1 ${act365[0].interest}`
+    );
+
+    const thirty360 = generateAmortizationSchedule({ ...base, dayCount: "30/360" });
+    logTest(
+      "30/360 interest is exactly a quarter year every period",
+      thirty360.every(p => p.interest === 200_000),
+      undefined,
+      thirty360.map(p => p.interest).join(", ")
+    );
+
+    // ===== STRAIGHT LINE / CUSTOM =====
+    const straight = generateAmortizationSchedule({ ...base, amortization: "straight_line" });
+    logTest(
+      "Straight-line: equal principal each period and the balance runs to zero",
+      straight.every(p => p.principal === 2_500_000) && straight[3].closingBalance === 0,
+      undefined,
+      straight.map(p => p.principal).join(", ")
+    );
+    logTest(
+      "Straight-line: interest accrues on the declining balance",
+      straight[1].interest === Math.round(7_500_000 * 0.08 * 91 / 360)
+    );
+
+    const custom = generateAmortizationSchedule({
+      ...base,
+      amortization: "custom",
+      customRepayments: [
+        { date: "2026-07-01", amount: 1_000_000 },
+        { date: "2026-07-01", amount: 500_000 },
+        { date: utc(2026, 10, 1), amount: 2_000_000 },
+      ],
+    });
+    logTest(
+      "Custom: repayments on the same date are summed; the remainder is due at maturity",
+      custom.map(p => p.principal).join(",") === "0,1500000,2000000,6500000",
+      undefined,
+      custom.map(p => p.principal).join(", ")
+    );
+
+    // ===== EVENTS =====
+    // Draw of 5m on Feb 15: 45 days at 10m, then 45 days at 15m
+    const withDraw = generateAmortizationSchedule({
+      ...base,
+      events: [{ type: "draw", date: utc(2026, 2, 15), amount: 5_000_000 }],
+    });
+    logTest(
+      "Draw inside a period splits the interest at the draw date",
+      withDraw[0].interest === 250_000 && withDraw[0].closingBalance === 15_000_000 && withDraw[3].principal === 15_000_000,
+      undefined,
+      `Q1 interest ${withDraw[0].interest}, closing ${withDraw[0].closingBalance}`
+    );
+
+    const withPrepayment = generateAmortizationSchedule({
+      ...base,
+      events: [{ type: "prepayment", date: utc(2026, 4, 1), amount: 4_000_000 }],
+    });
+    logTest(
+      "Prepayment on a period start accrues that whole period on the reduced balance",
+      withPrepayment[0].interest === 200_000 && withPrepayment[1].closingBalance === 6_000_000
+        && withPrepayment[1].interest === Math.round(6_000_000 * 0.08 * 91 / 360),
+      undefined,
+      `Q2 closing ${withPrepayment[1].closingBalance}, interest ${withPrepayment[1].interest}`
+    );
+
+    const oversizedPrepayment = generateAmortizationSchedule({
+      ...base,
+      events: [{ type: "prepayment", date: utc(2026, 4, 1), amount: 25_000_000 }],
+    });
+    logTest(
+      "Prepayment larger than the balance floors it at zero",
+      oversizedPrepayment[1].closingBalance === 0 && oversizedPrepayment.slice(1).every(p => p.interest === 0 && p.principal === 0)
+    );
+
+    const withRateChange = generateAmortizationSchedule({
+      ...base,
+      events: [{ type: "rate_change", date: utc(2026, 5, 16), rateBps: 1000 }],
+    });
+    // Apr 1 - May 16 is 45 days at 8%, May 16 - Jul 1 is 46 days at 10%
+    const expectedQ2 = Math.round(10_000_000 * 0.08 * 45 / 360 + 10_000_000 * 0.10 * 46 / 360);
+    logTest(
+      "Rate change inside a period accrues each rate for its days and carries forward",
+      withRateChange[1].interest === expectedQ2 && withRateChange[1].rateBps === 1000 && withRateChange[2].rateBps === 1000,
+      undefined,
+      `Q2 interest ${withRateChange[1].interest}, expected ${expectedQ2}`
+    );
+
+    // ===== DATES =====
+    const stub = buildPeriodDates(utc(2026, 1, 1), utc(2026, 8, 15), "quarterly");
+    logTest(
+      "Maturity off the grid ends with a stub period",
+      stub.length === 3 && iso(stub[2].start) === "2026-07-01" && iso(stub[2].end) === "2026-08-15"
+    );
+
+    const monthEnd = buildPeriodDates(utc(2026, 1, 31), utc(2026, 5, 31), "monthly");
+    logTest(
+      "Month-end origination keeps the anchor day where the month allows",
+      monthEnd.map(p => iso(p.end)).join(",") === "2026-02-28,2026-03-31,2026-04-30,2026-05-31",
+      undefined,
+      monthEnd.map(p => iso(p.end)).join(", ")
+    );
+    logTest(
+      "addMonthsUtc clamps to month end, including leap years",
+      iso(addMonthsUtc(utc(2027, 12, 31), 2)) === "2028-02-29" && iso(addMonthsUtc(utc(2026, 8, 31), 1)) === "2026-09-30"
+    );
+    logTest(
+      "30/360 counts Jan 31 to Feb 28 as 28 days",
+      Math.abs(yearFraction(utc(2026, 1, 31), utc(2026, 2, 28), "30/360") - 28 / 360) < 1e-12
+    );
+
+    const fromMidYear = generateAmortizationSchedule({ ...base, startDate: utc(2026, 8, 15) });
+    logTest(
+      "startDate drops finished periods and accrues the current one from startDate",
+      fromMidYear.length === 2 && iso(fromMidYear[0].periodStart) === "2026-08-15"
+        && fromMidYear[0].interest === Math.round(10_000_000 * 0.08 * 47 / 360),
+      undefined,
+      `${fromMidYear.length} periods, first interest ${fromMidYear[0]?.interest}`
+    );
+
+    const floating = generateAmortizationSchedule({
+      ...base,
+      rateForPeriod: (periodStart) => periodStart >= utc(2026, 7, 1) ? 900 : null,
+    });
+    logTest(
+      "rateForPeriod fixings override the rate from their period on",
+      floating[1].rateBps === 800 && floating[2].rateBps === 900
+        && floating[2].interest === Math.round(10_000_000 * 0.09 * 92 / 360)
+    );
+
+    let threw = false;
+    try {
+      generateAmortizationSchedule({ ...base, maturityDate: utc(2025, 12, 31) });
+    } catch {
+      threw = true;
+    }
+    logTest("Maturity before origination is rejected", threw);
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
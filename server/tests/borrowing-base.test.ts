@@ -0,0 +1,265 @@
+/**
+ * Borrowing Base Tests
+ *
+ * Checks calculateBorrowingBase against a hand-computed term sheet:
+ * - Eligibility: excluded statuses, listed, unvalued and below-minimum holdings
+ * - Advance rates by asset class, the default rate and uncapped cash
+ * - Single-name, top-3 and sector concentration haircuts, applied in sequence
+ * - Totals, line ordering and facility term overrides
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/borrowing-base.test.ts
+ */
+
+import {
+  calculateBorrowingBase,
+  resolveBorrowingBaseTerms,
+  DEFAULT_BORROWING_BASE_TERMS,
+  type BorrowingBaseHolding,
+  type BorrowingBaseResult,
+} from "../services/borrowingBase";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+const M = 1_000_000;
+
+function holding(companyName: string, value: number, overrides: Partial<BorrowingBaseHolding> = {}): BorrowingBaseHolding {
+  return {
+    companyId: companyName.toLowerCase().replace(/\s+/g, "-"),
+    companyName,
+    sector: "Technology",
+    assetClass: "buyout",
+    status: "active",
+    isListed: false,
+    value,
+    ...overrides,
+  };
+}
+
+const line = (result: BorrowingBaseResult, name: string) => result.lines.find(l => l.companyName === name)!;
+
+const noCaps = resolveBorrowingBaseTerms({ singleNameCapPercent: null, top3CapPercent: null, sectorCapPercent: null });
+
+// $105m eligible: three names over the 15% single-name cap, then over the 40% top-3 cap
+const portfolio: BorrowingBaseHolding[] = [
+  holding("Alpha", 40 * M),
+  holding("Beta", 25 * M, { assetClass: "growth" }),
+  holding("Gamma", 20 * M, { sector: "Healthcare" }),
+  holding("Delta", 10 * M, { sector: "Consumer", assetClass: "venture" }),
+  holding("Cash", 10 * M, { sector: null, assetClass: "cash" }),
+  holding("Listed Co", 5 * M, { isListed: true }),
+  holding("Exited Co", 8 * M, { status: "exited" }),
+  holding("Small Co", 500_000),
+  holding("Unvalued Co", 0),
+];
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Borrowing Base Tests                                    ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== ELIGIBILITY =====
+    const result = calculateBorrowingBase(portfolio);
+
+    logTest(
+      "Each ineligible holding records why",
+      line(result, "Listed Co").ineligibleReason === "listed"
+        && line(result, "Exited Co").ineligibleReason === "excluded_status"
+        && line(result, "Small Co").ineligibleReason === "below_minimum"
+        && line(result, "Unvalued Co").ineligibleReason === "unvalued"
+        && ["Alpha", "Beta", "Gamma", "Delta", "Cash"].every(name => line(result, name).eligible)
+    );
+    logTest(
+      "Ineligible holdings carry no eligible or advance value",
+      result.lines.filter(l => !l.eligible).every(l => l.eligibleValue === 0 && l.advanceValue === 0 && l.advanceRate === 0)
+        && result.ineligibleValue === 13.5 * M
+    );
+
+    const smallCash = calculateBorrowingBase([holding("Cash", 200_000, { assetClass: "cash" })], noCaps);
+    logTest(
+      "Cash is exempt from the minimum holding value",
+      smallCash.lines[0].eligible && smallCash.borrowingBase === 200_000
+    );
+
+    const listedAllowed = calculateBorrowingBase([holding("Listed Co", 5 * M, { isListed: true })], resolveBorrowingBaseTerms({
+      ...noCaps,
+      excludeListed: false,
+    }));
+    logTest("Listed holdings are eligible when the terms allow them", listedAllowed.lines[0].eligible);
+
+    // ===== ADVANCE RATES =====
+    const uncapped = calculateBorrowingBase(portfolio, noCaps);
+    logTest(
+      "Advance rates follow the asset class, with cash at 100%",
+      line(uncapped, "Alpha").advanceRate === 50 && line(uncapped, "Beta").advanceRate === 40
+        && line(uncapped, "Delta").advanceRate === 25 && line(uncapped, "Cash").advanceRate === 100
+        && uncapped.borrowingBase === 20 * M + 10 * M + 10 * M + 2.5 * M + 10 * M,
+      undefined,
+      `borrowing base ${uncapped.borrowingBase}`
+    );
+
+    const unclassified = calculateBorrowingBase([
+      holding("No Class", 10 * M, { assetClass: null }),
+      holding("Odd Class", 10 * M, { assetClass: "royalties" }),
+      holding("Rounding", 1_000_003, { assetClass: "venture" }),
+    ], noCaps);
+    logTest(
+      "Holdings without a known asset class use the default rate; advances round down",
+      line(unclassified, "No Class").advanceRate === 35 && line(unclassified, "Odd Class").advanceRate === 35
+        && line(unclassified, "Rounding").advanceValue === 250_000,
+      undefined,
+      `rounding advance ${line(unclassified, "Rounding").advanceValue}`
+    );
+
+    // ===== CONCENTRATION =====
+    // Single name cap 15% of $105m = $15.75m
+    logTest(
+      "Single-name excess over 15% of eligible NAV is haircut",
+      line(result, "Alpha").singleNameHaircut === 24.25 * M && line(result, "Beta").singleNameHaircut === 9.25 * M
+        && line(result, "Gamma").singleNameHaircut === 4.25 * M && line(result, "Delta").singleNameHaircut === 0
+    );
+
+    const singleNameTests = result.concentrations.filter(c => c.limit === "single_name");
+    logTest(
+      "Single-name tests list every name over the cap, with exposure as a share of eligible NAV",
+      singleNameTests.map(c => c.name).join(",") === "Alpha,Beta,Gamma"
+        && singleNameTests[0].exposurePercent === 38.1 && singleNameTests[0].excess === 24.25 * M
+    );
+
+    // Top 3 after single-name haircuts: 3 x $15.75m = $47.25m against a $42m cap
+    const top3 = result.concentrations.find(c => c.limit === "top_3");
+    logTest(
+      "Top-3 is tested on values after the single-name haircut",
+      top3?.name === "Alpha, Beta, Gamma" && top3.exposure === 47.25 * M && top3.excess === 5.25 * M,
+      undefined,
+      `${top3?.name}: ${top3?.exposure} excess ${top3?.excess}`
+    );
+    logTest(
+      "Top-3 excess is spread across the three names in proportion to value",
+      ["Alpha", "Beta", "Gamma"].every(name => line(result, name).top3Haircut === 1.75 * M && line(result, name).eligibleValue === 14 * M)
+    );
+
+    const uneven = calculateBorrowingBase([
+      holding("One", 30 * M),
+      holding("Two", 20 * M),
+      holding("Three", 10 * M),
+      holding("Cash", 40 * M, { assetClass: "cash" }),
+    ], resolveBorrowingBaseTerms({ ...noCaps, top3CapPercent: 40 }));
+    logTest(
+      "Proportional haircuts are whole dollars and add up to the excess",
+      line(uneven, "One").top3Haircut === 10 * M && line(uneven, "Two").top3Haircut === 6_666_667
+        && line(uneven, "Three").top3Haircut === 3_333_333 && uneven.concentrationHaircut === 20 * M,
+      undefined,
+      ["One", "Two", "Three"].map(name => line(uneven, name).top3Haircut).join(", ")
+    );
+
+    const sectorOnly = calculateBorrowingBase([
+      holding("Tech One", 30 * M),
+      holding("Tech Two", 20 * M),
+      holding("Health", 30 * M, { sector: "Healthcare" }),
+      holding("No Sector", 15 * M, { sector: null }),
+      holding("Blank Sector", 5 * M, { sector: "" }),
+    ], resolveBorrowingBaseTerms({ ...noCaps, sectorCapPercent: 35 }));
+    const sectors = sectorOnly.concentrations.filter(c => c.limit === "sector");
+    logTest(
+      "Sector excess over 35% is haircut across the sector's names",
+      line(sectorOnly, "Tech One").sectorHaircut === 9 * M && line(sectorOnly, "Tech Two").sectorHaircut === 6 * M
+        && line(sectorOnly, "Health").sectorHaircut === 0,
+      undefined,
+      sectors.map(c => `${c.name} ${c.exposurePercent}% excess ${c.excess}`).join(", ")
+    );
+    logTest(
+      "Holdings without a sector are tested together as Unknown",
+      sectors.find(c => c.name === "Unknown")?.exposure === 20 * M && sectors.length === 3
+    );
+
+    logTest(
+      "Cash counts towards eligible NAV but is never concentration-capped",
+      line(result, "Cash").singleNameHaircut === 0 && line(result, "Cash").eligibleValue === 10 * M
+        && !result.concentrations.some(c => c.name.includes("Cash"))
+    );
+
+    // ===== TOTALS =====
+    logTest(
+      "Eligible NAV is gross NAV less ineligible value and haircuts",
+      result.grossNav === 118.5 * M && result.concentrationHaircut === 43 * M && result.eligibleNav === 62 * M
+    );
+    logTest(
+      "Borrowing base is the sum of advances on haircut values",
+      result.borrowingBase === 7 * M + 5.6 * M + 7 * M + 2.5 * M + 10 * M
+        && result.borrowingBase === result.lines.reduce((sum, l) => sum + l.advanceValue, 0),
+      undefined,
+      `${result.borrowingBase}`
+    );
+    logTest(
+      "Lines are listed largest holding first",
+      result.lines.every((l, i) => i === 0 || result.lines[i - 1].value >= l.value)
+    );
+
+    const empty = calculateBorrowingBase([]);
+    logTest(
+      "No holdings gives a zero borrowing base and no concentration tests",
+      empty.borrowingBase === 0 && empty.eligibleNav === 0 && empty.concentrations.length === 0
+    );
+
+    // ===== TERMS =====
+    const terms = resolveBorrowingBaseTerms({ advanceRates: { venture: 30 }, singleNameCapPercent: 20 });
+    logTest(
+      "Facility terms override the defaults and merge advance rates per asset class",
+      terms.advanceRates.venture === 30 && terms.advanceRates.buyout === 50 && terms.singleNameCapPercent === 20
+        && terms.top3CapPercent === DEFAULT_BORROWING_BASE_TERMS.top3CapPercent
+        && resolveBorrowingBaseTerms(null).advanceRates.venture === 25
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,181 @@
+/**
+ * Breach Calibration Tests
+ *
+ * Checks the calibration report built from resolved breach predictions:
+ * - Brier score, mean predicted probability and observed breach rate
+ * - Reliability buckets, including the bucket edges and a probability of exactly 1
+ * - Monthly Brier trend by prediction date
+ * - Empty inputs and custom bucket counts
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/breach-calibration.test.ts
+ */
+
+import { computeCalibration } from "../services/breachPrediction";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+function outcome(probability: number, breached: 0 | 1, predictionDate: string) {
+  return { probability, outcome: breached, predictionDate: new Date(`${predictionDate}T12:00:00Z`) };
+}
+
+const outcomes = [
+  outcome(0.05, 0, "2026-02-10"),
+  outcome(0.15, 0, "2026-01-05"),
+  outcome(0.15, 1, "2026-01-20"),
+  outcome(0.1, 0, "2026-02-01"),
+  outcome(0.95, 1, "2026-01-31"),
+  outcome(1, 1, "2026-02-28"),
+  outcome(0, 0, "2026-03-01"),
+];
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Breach Calibration Tests                                ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== SUMMARY STATISTICS =====
+    const report = computeCalibration("v2.0-logreg", outcomes);
+
+    logTest(
+      "Counts resolved predictions and breaches",
+      report.modelVersion === "v2.0-logreg" && report.resolvedCount === 7 && report.breachCount === 3
+    );
+    logTest(
+      "Brier score is the mean squared error of the probabilities",
+      report.brierScore === 0.1086,
+      undefined,
+      String(report.brierScore)
+    );
+    logTest(
+      "Mean predicted and observed rates are percentages",
+      report.meanPredicted === 34.29 && report.observedRate === 42.86,
+      undefined,
+      `${report.meanPredicted} / ${report.observedRate}`
+    );
+
+    // ===== RELIABILITY BUCKETS =====
+    const [first, second] = report.buckets;
+    const last = report.buckets[report.buckets.length - 1];
+
+    logTest(
+      "Ten buckets span 0-100% by default",
+      report.buckets.length === 10 && first.lowerBound === 0 && first.upperBound === 10
+        && last.lowerBound === 90 && last.upperBound === 100
+    );
+    logTest(
+      "A probability on a bucket's lower edge belongs to that bucket",
+      first.count === 2 && second.count === 3,
+      undefined,
+      report.buckets.map(b => b.count).join(", ")
+    );
+    logTest(
+      "A probability of exactly 1 lands in the last bucket",
+      last.count === 2 && last.meanPredicted === 97.5 && last.observedRate === 100
+    );
+    logTest(
+      "Buckets report their mean prediction and observed breach rate",
+      first.meanPredicted === 2.5 && first.observedRate === 0
+        && second.meanPredicted === 13.33 && second.observedRate === 33.33,
+      undefined,
+      JSON.stringify([first, second])
+    );
+    logTest(
+      "Empty buckets report zero rather than NaN",
+      report.buckets.slice(2, 9).every(b => b.count === 0 && b.meanPredicted === 0 && b.observedRate === 0)
+    );
+    logTest(
+      "Every prediction falls in exactly one bucket",
+      report.buckets.reduce((sum, b) => sum + b.count, 0) === outcomes.length
+    );
+
+    const quartiles = computeCalibration("v2.0-logreg", outcomes, 4);
+    logTest(
+      "A custom bucket count sets the bucket width",
+      quartiles.buckets.map(b => `${b.lowerBound}-${b.upperBound}:${b.count}`).join(",") === "0-25:5,25-50:0,50-75:0,75-100:2",
+      undefined,
+      quartiles.buckets.map(b => `${b.lowerBound}-${b.upperBound}:${b.count}`).join(",")
+    );
+
+    // ===== MONTHLY TREND =====
+    logTest(
+      "Periods group by prediction month in date order",
+      report.periods.map(p => `${p.period}:${p.count}`).join(",") === "2026-01:3,2026-02:3,2026-03:1",
+      undefined,
+      report.periods.map(p => `${p.period}:${p.count}`).join(",")
+    );
+    logTest(
+      "Each period carries its own Brier score",
+      report.periods[0].brierScore === 0.2492 && report.periods[1].brierScore === 0.0042 && report.periods[2].brierScore === 0,
+      undefined,
+      report.periods.map(p => p.brierScore).join(", ")
+    );
+
+    // ===== EMPTY INPUT =====
+    const empty = computeCalibration("v1.0-heuristic", []);
+    logTest(
+      "No resolved predictions gives a zeroed report",
+      empty.resolvedCount === 0 && empty.breachCount === 0 && empty.brierScore === 0
+        && empty.meanPredicted === 0 && empty.observedRate === 0
+        && empty.buckets.length === 10 && empty.buckets.every(b => b.count === 0)
+        && empty.periods.length === 0
+    );
+
+    const perfect = computeCalibration("v2.0-logreg", [outcome(1, 1, "2026-01-01"), outcome(0, 0, "2026-01-02")]);
+    logTest("Certain and correct predictions score a Brier of 0", perfect.brierScore === 0);
+
+    const inverted = computeCalibration("v2.0-logreg", [outcome(0, 1, "2026-01-01"), outcome(1, 0, "2026-01-02")]);
+    logTest("Certain and wrong predictions score a Brier of 1", inverted.brierScore === 1);
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,231 @@
+/**
+ * Breach Model Tests
+ *
+ * Checks the logistic regression behind the covenant breach predictor:
+ * - Training converges on a linearly separable fixture
+ * - Constant features are left unscaled and carry no weight
+ * - Feature importance is normalised and led by the separating feature
+ * - Precision, recall, F1 and AUC, including empty, single-class and tied inputs
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/breach-model.test.ts
+ */
+
+import {
+  computeFeatureImportance,
+  evaluateClassifier,
+  predictBreachProbability,
+  trainLogisticRegression,
+  type BreachFeatures,
+  type TrainingSample,
+} from "../services/breachModel";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+function features(overrides: Partial<BreachFeatures>): BreachFeatures {
+  return {
+    statusSeverity: 0,
+    thresholdHeadroom: 0.2,
+    hasCurrentValue: 1,
+    overdueRate: 0,
+    utilization: 0.5,
+    ltvRatio: 0.3,
+    horizonYears: 0.25,
+    ...overrides,
+  };
+}
+
+// Breaches are exactly the covenants already in breach with no headroom left;
+// utilization varies on both sides so it carries no signal
+function separableSamples(): TrainingSample[] {
+  const samples: TrainingSample[] = [];
+  for (let i = 0; i < 20; i++) {
+    const breached = i % 2 === 0;
+    samples.push({
+      features: features({
+        statusSeverity: breached ? 1 : 0,
+        thresholdHeadroom: breached ? -0.1 - (i % 5) * 0.02 : 0.1 + (i % 5) * 0.02,
+        utilization: 0.4 + (i % 4) * 0.1,
+      }),
+      label: breached ? 1 : 0,
+      weight: 1,
+    });
+  }
+  return samples;
+}
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Breach Model Tests                                      ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== TRAINING =====
+    const samples = separableSamples();
+    const params = trainLogisticRegression(samples, { learningRate: 0.5, epochs: 500, l2: 0 });
+    const probabilities = samples.map(s => predictBreachProbability(params, s.features));
+
+    logTest(
+      "Training on a separable fixture classifies every sample correctly",
+      probabilities.every((p, i) => (p >= 0.5 ? 1 : 0) === samples[i].label),
+      undefined,
+      probabilities.map(p => p.toFixed(3)).join(", ")
+    );
+    logTest(
+      "Training converges to confident probabilities on both classes",
+      probabilities.every((p, i) => samples[i].label === 1 ? p > 0.95 : p < 0.05),
+      undefined,
+      `min breach ${Math.min(...probabilities.filter((_, i) => samples[i].label === 1)).toFixed(4)}, ` +
+        `max non-breach ${Math.max(...probabilities.filter((_, i) => samples[i].label === 0)).toFixed(4)}`
+    );
+
+    const longer = trainLogisticRegression(samples, { learningRate: 0.5, epochs: 1000, l2: 0 });
+    const breachSample = samples[0].features;
+    logTest(
+      "More epochs push a separable fixture further from 0.5",
+      predictBreachProbability(longer, breachSample) > predictBreachProbability(params, breachSample)
+    );
+
+    const regularised = trainLogisticRegression(samples, { learningRate: 0.5, epochs: 500, l2: 0.5 });
+    const norm = (w: number[]) => Math.sqrt(w.reduce((sum, v) => sum + v * v, 0));
+    logTest(
+      "L2 regularisation shrinks the weights",
+      norm(regularised.weights) < norm(params.weights),
+      undefined,
+      `${norm(params.weights).toFixed(3)} -> ${norm(regularised.weights).toFixed(3)}`
+    );
+
+    const constant = params.featureNames.indexOf("ltvRatio");
+    logTest(
+      "Constant features keep a unit scale and zero weight",
+      params.stds[constant] === 1 && Math.abs(params.weights[constant]) < 1e-9
+        && Math.abs(params.means[constant] - 0.3) < 1e-12,
+      undefined,
+      `std ${params.stds[constant]}, weight ${params.weights[constant]}, mean ${params.means[constant]}`
+    );
+    logTest(
+      "Standardisation stores the training mean of each feature",
+      Math.abs(params.means[params.featureNames.indexOf("statusSeverity")] - 0.5) < 1e-12
+    );
+
+    const untrained = trainLogisticRegression(samples, { learningRate: 0.5, epochs: 0, l2: 0 });
+    logTest(
+      "With no epochs every prediction is 0.5",
+      samples.every(s => predictBreachProbability(untrained, s.features) === 0.5)
+    );
+
+    const importance = computeFeatureImportance(params);
+    const total = Object.values(importance).reduce((a, b) => a + b, 0);
+    const ranked = Object.entries(importance).sort(([, a], [, b]) => b - a).map(([name]) => name);
+    logTest(
+      "Feature importance sums to 1 and ranks the separating features first",
+      Math.abs(total - 1) < 0.001
+        && ["statusSeverity", "thresholdHeadroom"].includes(ranked[0])
+        && ["statusSeverity", "thresholdHeadroom"].includes(ranked[1])
+        && importance.ltvRatio === 0,
+      undefined,
+      JSON.stringify(importance)
+    );
+
+    // ===== EVALUATION =====
+    const mixed = evaluateClassifier([0.9, 0.8, 0.3, 0.6, 0.2], [1, 1, 1, 0, 0]);
+    logTest(
+      "Confusion counts at the default threshold",
+      mixed.truePositives === 2 && mixed.falsePositives === 1 && mixed.falseNegatives === 1 && mixed.trueNegatives === 1,
+      undefined,
+      JSON.stringify(mixed)
+    );
+    logTest(
+      "Accuracy, precision, recall and F1 are percentages",
+      mixed.accuracy === 60 && mixed.precision === 66.67 && mixed.recall === 66.67 && mixed.f1Score === 66.67
+    );
+    logTest("AUC counts correctly ordered breach/non-breach pairs", mixed.auc === 83.33, undefined, String(mixed.auc));
+
+    const atThreshold = evaluateClassifier([0.5, 0.49], [1, 0]);
+    logTest(
+      "A probability equal to the threshold predicts a breach",
+      atThreshold.truePositives === 1 && atThreshold.trueNegatives === 1
+    );
+
+    const stricter = evaluateClassifier([0.9, 0.8, 0.3, 0.6, 0.2], [1, 1, 1, 0, 0], 0.85);
+    logTest(
+      "A higher threshold trades recall for precision without moving AUC",
+      stricter.precision === 100 && stricter.recall === 33.33 && stricter.auc === mixed.auc
+    );
+
+    const noPositivePredictions = evaluateClassifier([0.1, 0.2, 0.3], [1, 0, 1]);
+    logTest(
+      "With no predicted breaches precision, recall and F1 are 0",
+      noPositivePredictions.precision === 0 && noPositivePredictions.recall === 0 && noPositivePredictions.f1Score === 0
+    );
+
+    const noActualBreaches = evaluateClassifier([0.7, 0.2], [0, 0]);
+    logTest(
+      "With no actual breaches recall is 0 and AUC is 50",
+      noActualBreaches.recall === 0 && noActualBreaches.precision === 0 && noActualBreaches.auc === 50
+    );
+
+    const empty = evaluateClassifier([], []);
+    logTest(
+      "An empty holdout scores 0 without dividing by zero",
+      empty.accuracy === 0 && empty.precision === 0 && empty.recall === 0 && empty.f1Score === 0 && empty.auc === 50
+    );
+
+    logTest(
+      "AUC is 100 for a perfect ranking, 0 when reversed and 50 when all tied",
+      evaluateClassifier([0.9, 0.7, 0.4, 0.1], [1, 1, 0, 0]).auc === 100
+        && evaluateClassifier([0.1, 0.4, 0.7, 0.9], [1, 1, 0, 0]).auc === 0
+        && evaluateClassifier([0.5, 0.5, 0.5, 0.5], [1, 0, 1, 0]).auc === 50
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,280 @@
+/**
+ * Clause Matcher Tests
+ *
+ * Checks deterministic clause extraction from credit agreement text:
+ * - Numeric term capture (ratios, percentages, amounts with multipliers, days)
+ * - Template matching with list and named keyTerms, page and section detection
+ * - Scoring, de-duplication and invalid template patterns
+ * - Merging pattern matches with AI-extracted clauses and flagging disagreements
+ *
+ * Run: tsx server/tests/clause-matcher.test.ts
+ */
+
+import {
+  extractNumericTerms,
+  matchClauseTemplates,
+  mergeClauseFindings,
+  type AiClause,
+} from "../services/clauseMatcher";
+import type { LegalClauseTemplate } from "@shared/schema";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+function template(overrides: Partial<LegalClauseTemplate> & Pick<LegalClauseTemplate, "id" | "clauseName">): LegalClauseTemplate {
+  return {
+    clauseType: "covenant",
+    category: "financial",
+    keyTerms: null,
+    patternRegex: null,
+    description: null,
+    severity: "high",
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+const agreement = [
+  "--- Page 1 ---",
+  "CREDIT AGREEMENT",
+  "",
+  "7.1 Financial Covenants",
+  "(a) The Borrower shall not permit the Loan to Value Ratio to exceed 25% at any time.",
+  "",
+  "--- Page 2 ---",
+  "7.2 Liquidity",
+  "The Borrower shall maintain Minimum Liquidity of not less than $25 million, tested quarterly, and any " +
+    "shortfall must be cured within thirty (30) days of notice given within 5 business days.",
+  "",
+  "7.3 Interest Coverage",
+  "The Interest Coverage Ratio shall not be less than 2.50:1.00 as of the last day of each fiscal quarter.",
+].join("\n");
+
+const templates: LegalClauseTemplate[] = [
+  template({ id: "ltv", clauseName: "Maximum LTV", keyTerms: ["percentage"], patternRegex: "loan to value ratio" }),
+  template({
+    id: "liquidity",
+    clauseName: "Minimum Liquidity",
+    keyTerms: { minimumLiquidity: "amount", curePeriod: "days", noticeDays: "days" },
+    patternRegex: "minimum liquidity",
+  }),
+  template({ id: "icr", clauseName: "Interest Coverage", keyTerms: ["ratio", "days"], patternRegex: "interest coverage ratio" }),
+];
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Clause Matcher Tests                                    ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== NUMERIC TERMS =====
+    const terms = extractNumericTerms(
+      "Leverage of 4.5x, coverage of 2.00 to 1.00, 65 percent advance, $1,500,000 basket, $2.5bn cap, " +
+      "$750k fee, cure within ten (10) days or 15 calendar days"
+    );
+    logTest(
+      "Ratios in x, 'to 1' and ':1' forms",
+      terms.ratio.join(",") === "4.5,2",
+      undefined,
+      terms.ratio.join(", ")
+    );
+    logTest("Percentages in % and 'percent' forms", terms.percentage.join(",") === "65");
+    logTest(
+      "Amounts with thousands separators and multipliers",
+      terms.amount.join(",") === "1500000,2500000000,750000",
+      undefined,
+      terms.amount.join(", ")
+    );
+    logTest(
+      "Days with a parenthesised numeral or a calendar/business qualifier",
+      terms.days.join(",") === "10,15",
+      undefined,
+      terms.days.join(", ")
+    );
+
+    // ===== TEMPLATE MATCHING =====
+    const matches = matchClauseTemplates(agreement, templates);
+    const byTemplate = new Map(matches.map(m => [m.templateId, m]));
+    const ltv = byTemplate.get("ltv");
+    const liquidity = byTemplate.get("liquidity");
+    const icr = byTemplate.get("icr");
+
+    logTest(
+      "Each template's pattern finds its clause",
+      matches.length === 3 && !!ltv && !!liquidity && !!icr,
+      undefined,
+      matches.map(m => m.templateId).join(", ")
+    );
+    logTest(
+      "List keyTerms capture the first value of each kind",
+      ltv?.terms.percentage === 25 && icr?.terms.ratio === 2.5,
+      undefined,
+      JSON.stringify({ ltv: ltv?.terms, icr: icr?.terms })
+    );
+    logTest(
+      "Named keyTerms of the same kind take successive values",
+      liquidity?.terms.minimumLiquidity === 25_000_000 && liquidity?.terms.curePeriod === 30 && liquidity?.terms.noticeDays === 5,
+      undefined,
+      JSON.stringify(liquidity?.terms)
+    );
+    logTest(
+      "Page and section come from the nearest preceding markers",
+      ltv?.pageNumber === 1 && ltv?.sectionNumber === "7.1" && liquidity?.pageNumber === 2 && liquidity?.sectionNumber === "7.2"
+        && icr?.sectionNumber === "7.3",
+      undefined,
+      matches.map(m => `${m.templateId}: p${m.pageNumber} s${m.sectionNumber}`).join(", ")
+    );
+    logTest(
+      "Clause text runs from the paragraph break to the end of the sentence",
+      ltv?.clauseText === "7.1 Financial Covenants (a) The Borrower shall not permit the Loan to Value Ratio to exceed 25% at any time.",
+      undefined,
+      ltv?.clauseText
+    );
+
+    const acrossPages = matchClauseTemplates(
+      "The Borrower shall maintain Minimum Liquidity of\n--- Page 4 ---\nnot less than $10 million.",
+      [templates[1]]
+    );
+    logTest(
+      "A sentence split by a page break is joined without the page marker",
+      acrossPages[0]?.clauseText === "The Borrower shall maintain Minimum Liquidity of not less than $10 million."
+        && acrossPages[0]?.terms.minimumLiquidity === 10_000_000,
+      undefined,
+      acrossPages[0]?.clauseText
+    );
+    logTest(
+      "Score is 100 with every key term and a section; missing terms lower it and sort it last",
+      ltv?.score === 100 && liquidity?.score === 100 && icr?.score === 80 && matches[matches.length - 1].templateId === "icr",
+      undefined,
+      matches.map(m => `${m.templateId}=${m.score}`).join(", ")
+    );
+
+    const repeated = matchClauseTemplates(
+      "The Minimum Liquidity and minimum liquidity test apply. Separately, Minimum Liquidity is $10 million.",
+      [templates[1]]
+    );
+    logTest(
+      "Several hits inside the same sentence produce one match",
+      repeated.length === 2,
+      undefined,
+      repeated.map(m => m.clauseText).join(" | ")
+    );
+
+    const originalWarn = console.warn;
+    console.warn = () => undefined;
+    const invalid = matchClauseTemplates(agreement, [
+      template({ id: "broken", clauseName: "Broken", patternRegex: "([unclosed" }),
+      template({ id: "none", clauseName: "No pattern" }),
+    ]);
+    console.warn = originalWarn;
+    logTest("Templates with an invalid or missing pattern are skipped", invalid.length === 0);
+
+    // ===== MERGING WITH AI =====
+    const aiClauses: AiClause[] = [
+      {
+        clauseType: "covenant",
+        clauseName: "Maximum LTV",
+        keyTerms: { ltv: 0.25 },
+        sourceText: "The Borrower shall not permit the Loan to Value Ratio to exceed 25% at any time.",
+        pageNumber: 1,
+      },
+      {
+        clauseType: "covenant",
+        clauseName: "Minimum Liquidity",
+        keyTerms: { minimum: "$20 million", curePeriod: 30 },
+        sourceText: "The Borrower shall maintain Minimum Liquidity of not less than $20 million, tested quarterly.",
+        pageNumber: 2,
+      },
+      {
+        clauseType: "event_of_default",
+        clauseName: "Change of Control",
+        sourceText: "A Change of Control shall constitute an Event of Default.",
+        pageNumber: 3,
+      },
+    ];
+
+    // Interest coverage first: its text shares "the Borrower shall not be less than" with
+    // the liquidity clause, but must not take the AI clause named Minimum Liquidity
+    const merged = mergeClauseFindings(aiClauses, [icr!, liquidity!, ltv!], templates);
+    const mergedLtv = merged.find(f => f.templateId === "ltv");
+    const mergedLiquidity = merged.find(f => f.templateId === "liquidity");
+    const mergedIcr = merged.find(f => f.templateId === "icr");
+    const aiOnly = merged.find(f => f.source === "ai");
+
+    logTest(
+      "AI clauses pair by name even when another match's text is loosely similar",
+      mergedLtv?.source === "ai_and_pattern" && mergedLiquidity?.source === "ai_and_pattern"
+    );
+    logTest(
+      "A fractional AI percentage (0.25) agrees with the pattern's 25%",
+      mergedLtv?.disagreements.length === 0,
+      undefined,
+      mergedLtv?.disagreements.join("; ")
+    );
+    logTest(
+      "A differing amount is flagged as a disagreement",
+      !!mergedLiquidity && mergedLiquidity.disagreements.some(d => d.startsWith("minimumLiquidity: AI extraction 20000000"))
+        && !mergedLiquidity.disagreements.some(d => d.startsWith("curePeriod")),
+      undefined,
+      mergedLiquidity?.disagreements.join("; ")
+    );
+    logTest(
+      "A pattern match the AI missed is flagged; an AI-only clause is kept",
+      mergedIcr?.source === "pattern" && mergedIcr.disagreements.includes("Not reported by AI extraction")
+        && aiOnly?.clauseName === "Change of Control" && aiOnly.templateId === null
+    );
+
+    const withoutAi = mergeClauseFindings(null, matches, templates);
+    logTest(
+      "Without AI extraction, pattern matches stand alone with no disagreements",
+      withoutAi.length === 3 && withoutAi.every(f => f.source === "pattern" && f.disagreements.length === 0)
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
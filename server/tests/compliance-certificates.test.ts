@@ -0,0 +1,310 @@
+/**
+ * Compliance Certificate Tests
+ *
+ * Checks the recomputation of a GP's compliance certificate from our records:
+ * - NAV footing to the holdings schedule, within the match tolerance
+ * - Holdings matched by id or name, missing from the schedule or not on record
+ * - Covenant values recomputed on the certified figures, with equity cures carried over
+ * - Covenants that cannot be recomputed, and the borrowing base on certified holdings
+ * - Which discrepancies count against the certificate
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/compliance-certificates.test.ts
+ */
+
+import {
+  recomputeCertificate,
+  type CertificateSubmission,
+  type CertificateVerification,
+} from "../services/complianceCertificates";
+import type { BorrowingBaseHolding } from "../services/borrowingBase";
+import type { CovenantFormulaContext } from "../services/covenantFormula";
+import type { Covenant, Facility } from "@shared/schema";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+// Concentration caps off so the borrowing base is the advance rates alone
+const facility: Facility = {
+  id: "facility-1",
+  prospectId: null,
+  advisorDealId: null,
+  gpUserId: null,
+  relationshipManagerId: null,
+  fundName: "Fund I",
+  lenderName: "NAV IQ Capital",
+  principalAmount: 30_000_000,
+  outstandingBalance: 16_420_000,
+  interestRate: 850,
+  rateType: "fixed",
+  referenceRate: "SOFR",
+  spreadBps: null,
+  rateFloorBps: null,
+  rateCapBps: null,
+  pikRateBps: 0,
+  prepaymentPenaltyBps: 0,
+  prepaymentPenaltyUntil: null,
+  maturityDate: day("2030-12-31"),
+  status: "active",
+  ltvRatio: 18,
+  paymentSchedule: "quarterly",
+  dayCountConvention: "ACT/360",
+  amortizationType: "bullet",
+  customAmortization: null,
+  borrowingBaseTerms: { singleNameCapPercent: null, top3CapPercent: null, sectorCapPercent: null },
+  originationDate: day("2025-01-01"),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function holding(overrides: Partial<BorrowingBaseHolding> & Pick<BorrowingBaseHolding, "companyId" | "companyName" | "value">): BorrowingBaseHolding {
+  return {
+    sector: null,
+    assetClass: "buyout",
+    status: "active",
+    isListed: false,
+    ...overrides,
+  };
+}
+
+function covenant(overrides: Partial<Covenant> & Pick<Covenant, "id" | "covenantType">): Covenant {
+  return {
+    facilityId: "facility-1",
+    thresholdOperator: "less_than_equal",
+    thresholdValue: 0,
+    currentValue: null,
+    status: "compliant",
+    lastChecked: null,
+    nextCheckDate: null,
+    checkFrequency: "quarterly",
+    formula: null,
+    testDates: null,
+    curePeriodDays: 0,
+    maxEquityCures: 0,
+    breachDate: null,
+    cureDeadline: null,
+    cureStatus: null,
+    sourceClauseId: null,
+    breachNotified: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+// Marks on record at period end
+const onRecord = [
+  holding({ companyId: "alpha", companyName: "Alpha Software", sector: "Software", value: 40_000_000 }),
+  holding({ companyId: "beta", companyName: "Beta Health", sector: "Healthcare", assetClass: "growth", value: 30_000_000 }),
+  holding({ companyId: "gamma", companyName: "Gamma Industrial", sector: "Industrials", value: 20_000_000 }),
+  holding({ companyId: "cash", companyName: "Cash", assetClass: "cash", value: 10_000_000 }),
+  holding({ companyId: "omega", companyName: "Omega", status: "exited", value: 5_000_000 }),
+  holding({ companyId: "zeta", companyName: "Zeta", value: 0 }),
+];
+
+const covenants = [
+  covenant({ id: "ltv", covenantType: "ltv_covenant", formula: "outstanding_balance / nav * 1000" }),
+  covenant({ id: "concentration", covenantType: "concentration_limit", formula: "top_holding_value / nav * 1000" }),
+  covenant({ id: "liquidity", covenantType: "minimum_liquidity", thresholdOperator: "greater_than_equal", formula: "cash" }),
+  covenant({ id: "coverage", covenantType: "interest_coverage", thresholdOperator: "greater_than_equal" }),
+  covenant({ id: "broken", covenantType: "custom", formula: "nav /" }),
+];
+
+// Formula inputs as last recorded, before the certificate restates the holdings
+const baseContext: CovenantFormulaContext = {
+  outstanding_balance: 16_420_000,
+  commitment: 30_000_000,
+  undrawn_commitment: 13_580_000,
+  nav: 90_000_000,
+  holdings_value: 80_000_000,
+  holdings_count: 3,
+  top_holding_value: 45_000_000,
+  top_sector_value: 45_000_000,
+  cash: 8_000_000,
+  accrued_interest: 0,
+  accrued_fees: 0,
+  interest_rate_bps: 850,
+  ltv_ratio: 18,
+};
+
+const submission: CertificateSubmission = {
+  periodEnd: day("2026-06-30"),
+  reportedNav: 82_100_000,
+  reportedBorrowingBase: 42_600_000,
+  holdings: [
+    { companyId: "alpha", companyName: "Alpha Software", fairValue: 40_100_000 },
+    { companyName: "  beta HEALTH ", fairValue: 27_000_000 },
+    { companyId: "cash", companyName: "Cash", fairValue: 10_000_000 },
+    { companyName: "Newco", fairValue: 5_000_000 },
+  ],
+  covenants: [
+    { covenantId: "ltv", reportedValue: 200 },
+    { covenantId: "concentration", reportedValue: 420 },
+    { covenantId: "liquidity", reportedValue: 12_000_000 },
+    { covenantId: "coverage", reportedValue: 300 },
+    { covenantId: "broken", reportedValue: 1 },
+  ],
+  attestation: { officerName: "Jane Doe", officerTitle: "CFO", statement: "Certified true and correct" },
+};
+
+function verify(overrides: Partial<CertificateSubmission> = {}): CertificateVerification {
+  return recomputeCertificate({
+    facility,
+    submission: { ...submission, ...overrides },
+    onRecord,
+    covenants,
+    baseContext,
+    cureAmounts: new Map([["liquidity", 2_000_000]]),
+  });
+}
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Compliance Certificate Tests                            ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    const verification = verify();
+    const figure = (kind: string, key: string) => verification.figures.find(f => f.kind === kind && f.key === key);
+
+    // ===== NAV =====
+    logTest(
+      "Reported NAV is checked against the sum of the holdings schedule",
+      figure("nav", "nav")?.computed === 82_100_000 && figure("nav", "nav")?.status === "match"
+    );
+    const offNav = verify({ reportedNav: 85_000_000 });
+    logTest(
+      "A NAV that does not foot to the schedule is a mismatch",
+      offNav.figures[0].status === "mismatch" && offNav.figures[0].difference === 2_900_000
+    );
+
+    // ===== HOLDINGS =====
+    const alpha = figure("holding", "alpha");
+    logTest(
+      "A holding within the match tolerance of our mark matches",
+      alpha?.status === "match" && alpha.difference === 100_000,
+      undefined,
+      JSON.stringify(alpha)
+    );
+    const beta = figure("holding", "beta");
+    logTest(
+      "Holdings without an id are matched by name, ignoring case and spacing",
+      beta?.label === "Beta Health" && beta.computed === 30_000_000 && beta.status === "mismatch" && beta.difference === -3_000_000,
+      undefined,
+      JSON.stringify(beta)
+    );
+    logTest(
+      "A holding we have no record of is flagged",
+      figure("holding", "Newco")?.status === "not_on_record" && figure("holding", "Newco")?.computed === null
+    );
+    logTest(
+      "An active holding left off the schedule is flagged as not reported",
+      figure("holding", "gamma")?.status === "not_reported" && figure("holding", "gamma")?.computed === 20_000_000
+    );
+    logTest(
+      "Exited and unvalued holdings on record are not expected on the schedule",
+      !figure("holding", "omega") && !figure("holding", "zeta")
+    );
+
+    // ===== COVENANTS =====
+    logTest(
+      "Covenant values are recomputed on the certified NAV, not the NAV last recorded",
+      figure("covenant", "ltv")?.computed === 200 && figure("covenant", "ltv")?.status === "match",
+      undefined,
+      JSON.stringify(figure("covenant", "ltv"))
+    );
+    logTest(
+      "Formula inputs come from the certified holdings, with cash held apart",
+      figure("covenant", "concentration")?.computed === 488 && figure("covenant", "concentration")?.status === "mismatch",
+      undefined,
+      JSON.stringify(figure("covenant", "concentration"))
+    );
+    logTest(
+      "Equity cures in force carry over onto the certified figures",
+      figure("covenant", "liquidity")?.computed === 12_000_000 && figure("covenant", "liquidity")?.status === "match",
+      undefined,
+      JSON.stringify(figure("covenant", "liquidity"))
+    );
+    logTest(
+      "Covenants without a formula, or with one that fails, are not recomputed",
+      figure("covenant", "coverage")?.status === "not_recomputed" && figure("covenant", "broken")?.status === "not_recomputed"
+    );
+    const unreported = verify({ covenants: undefined });
+    logTest(
+      "Covenants the GP leaves off are not reported",
+      unreported.figures.filter(f => f.kind === "covenant").every(f => f.status === "not_reported")
+    );
+
+    // ===== BORROWING BASE =====
+    const borrowingBase = figure("borrowing_base", "borrowing_base");
+    logTest(
+      "The borrowing base is recomputed on the certified holdings under the facility's terms",
+      borrowingBase?.computed === 42_600_000 && borrowingBase.status === "match",
+      undefined,
+      JSON.stringify(borrowingBase)
+    );
+    logTest(
+      "An unreported borrowing base is not compared",
+      verify({ reportedBorrowingBase: undefined }).figures.find(f => f.kind === "borrowing_base")?.status === "not_reported"
+    );
+
+    // ===== MISMATCH COUNT =====
+    logTest(
+      "Mismatches, holdings not on record and holdings left off count against the certificate",
+      verification.mismatchCount === 4 && unreported.mismatchCount === 3,
+      undefined,
+      `${verification.mismatchCount}, ${unreported.mismatchCount}`
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,238 @@
+/**
+ * Covenant Formula Tests
+ *
+ * Checks the covenant formula language:
+ * - Operator precedence, parentheses, unary minus and the built-in functions
+ * - Variables resolved from the facility context
+ * - Syntax, name and arity errors reported with their position
+ * - Division by zero and results that aren't in whole covenant units
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/covenant-formula.test.ts
+ */
+
+import {
+  evaluateCovenantFormula,
+  evaluateCovenantValue,
+  validateCovenantFormula,
+  isCashHolding,
+  CovenantFormulaError,
+  type CovenantFormulaContext,
+} from "../services/covenantFormula";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+const context: CovenantFormulaContext = {
+  outstanding_balance: 30_000_000,
+  commitment: 50_000_000,
+  undrawn_commitment: 20_000_000,
+  nav: 200_000_000,
+  holdings_value: 190_000_000,
+  holdings_count: 12,
+  top_holding_value: 38_000_000,
+  top_sector_value: 76_000_000,
+  cash: 10_000_000,
+  accrued_interest: 450_000,
+  accrued_fees: 50_000,
+  interest_rate_bps: 850,
+  ltv_ratio: 15,
+};
+
+// Error thrown by fn, or null when it returns normally
+function thrown(fn: () => unknown): Error | null {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error as Error;
+  }
+}
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Covenant Formula Tests                                  ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== ARITHMETIC =====
+    logTest(
+      "Multiplication and division bind tighter than addition and subtraction",
+      evaluateCovenantFormula("2 + 3 * 4 - 10 / 5", context) === 12
+    );
+    logTest(
+      "Parentheses override precedence",
+      evaluateCovenantFormula("(2 + 3) * 4", context) === 20
+    );
+    logTest(
+      "Operators of equal precedence associate left to right",
+      evaluateCovenantFormula("100 / 10 / 2", context) === 5 && evaluateCovenantFormula("10 - 4 - 3", context) === 3
+    );
+    logTest(
+      "Unary minus and plus, decimals and exponents",
+      evaluateCovenantFormula("-(2 - 5) + +1", context) === 4 && evaluateCovenantFormula(".5 * 1e3", context) === 500
+    );
+    logTest(
+      "min, max, abs and round",
+      evaluateCovenantFormula("min(3, 1, 2) + max(4, 9) + abs(-5) + round(2.5)", context) === 1 + 9 + 5 + 3
+    );
+
+    // ===== VARIABLES =====
+    logTest(
+      "LTV in tenths of a percent from balance and NAV",
+      evaluateCovenantFormula("outstanding_balance / nav * 1000", context) === 150
+    );
+    logTest(
+      "Variables are case-insensitive",
+      evaluateCovenantFormula("Cash / NAV * 100", context) === 5
+    );
+    logTest(
+      "Concentration from the top holding",
+      evaluateCovenantFormula("top_holding_value / holdings_value * 100", context) === 20
+    );
+
+    const validation = validateCovenantFormula("(outstanding_balance + accrued_interest) / max(nav, 1) * 1000");
+    logTest(
+      "Validation lists the variables a formula uses",
+      validation.valid && validation.variables.sort().join(",") === "accrued_interest,nav,outstanding_balance",
+      undefined,
+      validation.valid ? validation.variables.join(", ") : validation.error
+    );
+
+    // ===== ERRORS =====
+    const unknownVariable = validateCovenantFormula("net_debt / nav");
+    logTest(
+      "Unknown variables are rejected with their position",
+      !unknownVariable.valid && unknownVariable.error === 'Unknown variable "net_debt" at position 1',
+      undefined,
+      unknownVariable.valid ? "valid" : unknownVariable.error
+    );
+
+    const inherited = ["constructor", "toString", "__proto__"].map(name => validateCovenantFormula(`${name} + 1`));
+    const inheritedFunction = validateCovenantFormula("nav + constructor(1)");
+    logTest(
+      "Object built-ins are not variables or functions",
+      inherited.every(r => !r.valid) && !inheritedFunction.valid
+        && /Unknown function "constructor"/.test(inheritedFunction.error)
+    );
+
+    const wrongArity = validateCovenantFormula("abs(nav, cash)");
+    const tooFew = validateCovenantFormula("max(nav)");
+    logTest(
+      "Functions check their argument count",
+      !wrongArity.valid && /Wrong number of arguments to abs\(\)/.test(wrongArity.error)
+        && !tooFew.valid && /max\(\)/.test(tooFew.error)
+    );
+
+    const syntaxCases: Array<[string, RegExp]> = [
+      ["", /Formula is empty/],
+      ["nav *", /Unexpected end of formula/],
+      ["(nav + cash", /Expected "\)"/],
+      ["nav cash", /Unexpected "cash" at position 5/],
+      ["nav % 2", /Unexpected character "%" at position 5/],
+      ["min(nav,)", /Unexpected "\)"/],
+    ];
+    const syntaxFailures = syntaxCases.filter(([formula, pattern]) => {
+      const result = validateCovenantFormula(formula);
+      return result.valid || !pattern.test(result.error);
+    });
+    logTest(
+      "Syntax errors are reported with a message and position",
+      syntaxFailures.length === 0,
+      syntaxFailures.length > 0 ? `Unexpected result for: ${syntaxFailures.map(([f]) => JSON.stringify(f)).join(", ")}` : undefined
+    );
+
+    const divisionByZero = thrown(() => evaluateCovenantFormula("outstanding_balance / nav", { ...context, nav: 0 }));
+    logTest(
+      "Division by zero throws CovenantFormulaError rather than returning Infinity",
+      divisionByZero instanceof CovenantFormulaError && divisionByZero.message === "Division by zero"
+    );
+
+    // ===== STORED VALUES =====
+    logTest(
+      "Stored values are rounded to whole covenant units",
+      evaluateCovenantValue("outstanding_balance / nav * 1000 + 0.4", context) === 150
+        && evaluateCovenantValue("holdings_count", context) === 12
+    );
+
+    const rawRatio = thrown(() => evaluateCovenantValue("outstanding_balance / nav", context));
+    logTest(
+      "A raw ratio (0.15) is rejected instead of being stored as 0",
+      rawRatio instanceof CovenantFormulaError && /not in whole covenant units/.test(rawRatio.message),
+      undefined,
+      rawRatio?.message
+    );
+
+    const coverage = thrown(() => evaluateCovenantValue("outstanding_balance / (cash * 2)", context));
+    logTest(
+      "An unscaled 1.5x multiple, which would lose a third of itself to rounding, is rejected",
+      coverage instanceof CovenantFormulaError
+    );
+    logTest(
+      "Larger unscaled values that round within 10% are accepted",
+      evaluateCovenantValue("nav / outstanding_balance", context) === 7
+    );
+    logTest(
+      "Zero is a valid stored value",
+      evaluateCovenantValue("undrawn_commitment - undrawn_commitment", context) === 0
+    );
+
+    // ===== CASH =====
+    logTest(
+      "Cash, money market and treasury positions are recognised as cash",
+      isCashHolding({ companyName: "Cash & Equivalents", sector: null })
+        && isCashHolding({ companyName: "Fidelity Fund", sector: "Money Market" })
+        && isCashHolding({ companyName: "US Treasuries", sector: null })
+        && !isCashHolding({ companyName: "Cashmere Holdings", sector: "Consumer" })
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
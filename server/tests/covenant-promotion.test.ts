@@ -0,0 +1,245 @@
+/**
+ * Covenant Promotion Tests
+ *
+ * Checks the covenants proposed for extracted credit agreement clauses:
+ * - Measure, operator and threshold in stored units (tenths of a percent, ratio x100, dollars)
+ * - Test frequency, quarter-end test dates and cure periods
+ * - Reviewer notes for assumptions, business-day cures and extraction disagreements
+ * - Unrecognised measures
+ * - Testing a promoted covenant through its proposed formula
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/covenant-promotion.test.ts
+ */
+
+import { proposeCovenant } from "../services/covenantPromotion";
+import { evaluateCovenantValue, type CovenantFormulaContext } from "../services/covenantFormula";
+import { calculateCovenantStatus } from "../services/covenantMonitoring";
+import type { ClauseOccurrence } from "@shared/schema";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+function clause(clauseText: string, extractedTerms: Record<string, unknown> | null = null): ClauseOccurrence {
+  return {
+    id: "clause-1",
+    creditDocumentId: "document-1",
+    templateId: null,
+    clauseText,
+    clauseType: "covenant",
+    extractedTerms,
+    pageNumber: 12,
+    sectionNumber: "7.1",
+    confidence: 90,
+    reviewStatus: "pending",
+    covenantId: null,
+    reviewedBy: null,
+    reviewedAt: null,
+    reviewNotes: null,
+    createdAt: new Date(),
+  };
+}
+
+const context: CovenantFormulaContext = {
+  outstanding_balance: 30_000_000,
+  commitment: 50_000_000,
+  undrawn_commitment: 20_000_000,
+  nav: 100_000_000,
+  holdings_value: 95_000_000,
+  holdings_count: 10,
+  top_holding_value: 18_000_000,
+  top_sector_value: 40_000_000,
+  cash: 5_000_000,
+  accrued_interest: 0,
+  accrued_fees: 0,
+  interest_rate_bps: 800,
+  ltv_ratio: 30,
+};
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Covenant Promotion Tests                                ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== RECOGNISED MEASURES =====
+    const ltv = proposeCovenant(clause(
+      "The Borrower shall not permit the Loan to Value Ratio to exceed 25% as of the last day of each fiscal quarter."
+    ));
+    logTest(
+      "An LTV clause becomes a monitored LTV covenant in tenths of a percent",
+      ltv.covenantType === "ltv_covenant" && ltv.thresholdOperator === "less_than_equal" && ltv.thresholdValue === 250
+        && ltv.formula === "outstanding_balance / nav * 1000",
+      undefined,
+      JSON.stringify(ltv)
+    );
+    logTest(
+      "A quarterly test is tested on quarter ends with nothing left to confirm",
+      ltv.checkFrequency === "quarterly" && ltv.testDates?.join(",") === "03-31,06-30,09-30,12-31" && ltv.notes.length === 0,
+      undefined,
+      ltv.notes.join("; ")
+    );
+
+    const fractional = proposeCovenant(clause("Maximum LTV, tested monthly.", { clauseName: "Maximum LTV", ltv: 0.25 }));
+    logTest(
+      "Extracted terms win over the text and fractional percentages are read as percent",
+      fractional.thresholdValue === 250 && fractional.checkFrequency === "monthly" && fractional.testDates === null
+    );
+
+    const liquidity = proposeCovenant(clause(
+      "The Borrower shall maintain Minimum Liquidity of not less than $25 million; any shortfall must be cured within 10 business days."
+    ));
+    logTest(
+      "A liquidity clause becomes a minimum cash covenant in dollars",
+      liquidity.covenantType === "minimum_liquidity" && liquidity.thresholdOperator === "greater_than_equal"
+        && liquidity.thresholdValue === 25_000_000 && liquidity.formula === "cash",
+      undefined,
+      JSON.stringify(liquidity)
+    );
+    logTest(
+      "Cure periods are captured and business days are flagged for review",
+      liquidity.curePeriodDays === 10
+        && liquidity.notes.includes("Cure period stated as 10 business days; calendar days are monitored")
+        && liquidity.notes.includes("Test frequency not stated in the clause; quarterly assumed")
+        && liquidity.testDates === null
+    );
+
+    const coverage = proposeCovenant(clause(
+      "The Interest Coverage Ratio shall not be less than 2.50:1.00 for each fiscal quarter."
+    ));
+    logTest(
+      "Ratios are stored x100 and a measure without data asks for manual values",
+      coverage.covenantType === "interest_coverage" && coverage.thresholdValue === 250 && coverage.formula === null
+        && coverage.notes.includes("No data source for this measure; values must be entered at each test"),
+      undefined,
+      JSON.stringify(coverage)
+    );
+
+    const navCoverage = proposeCovenant(clause("NAV to outstanding coverage of at least 4.0x, tested quarterly."));
+    const minimumNav = proposeCovenant(clause("The Fund shall maintain Net Asset Value of at least $200 million, tested quarterly."));
+    logTest(
+      "A NAV ratio is NAV coverage; a NAV amount is a minimum NAV",
+      navCoverage.covenantType === "nav_coverage" && navCoverage.thresholdValue === 400
+        && minimumNav.covenantType === "minimum_nav" && minimumNav.thresholdValue === 200_000_000,
+      undefined,
+      `${navCoverage.covenantType}=${navCoverage.thresholdValue}, ${minimumNav.covenantType}=${minimumNav.thresholdValue}`
+    );
+
+    const permitted = proposeCovenant(clause("The Borrower shall not permit Liquidity to be less than $10 million, tested monthly."));
+    logTest(
+      "'Shall not permit ... to be less than' reads as a minimum",
+      permitted.covenantType === "minimum_liquidity" && permitted.thresholdOperator === "greater_than_equal"
+        && permitted.thresholdValue === 10_000_000 && permitted.notes.length === 0,
+      undefined,
+      JSON.stringify(permitted)
+    );
+
+    const undirected = proposeCovenant(clause("The concentration in the largest holding is 20%, tested quarterly."));
+    logTest(
+      "A missing direction falls back to the measure's default and is flagged",
+      undirected.covenantType === "concentration_limit" && undirected.thresholdOperator === "less_than_equal"
+        && undirected.notes.includes("Direction of the test not stated; less than equal assumed")
+    );
+
+    const noThreshold = proposeCovenant(clause("The Loan to Value Ratio shall be tested quarterly."));
+    logTest(
+      "A clause without a threshold is flagged for the reviewer",
+      noThreshold.thresholdValue === null && noThreshold.notes.includes("Threshold not found in the clause")
+    );
+
+    const disputed = proposeCovenant(clause(
+      "The Borrower shall not permit the Loan to Value Ratio to exceed 25%, tested quarterly.",
+      { disagreements: ["percentage: AI extraction 20 vs pattern 25"] }
+    ));
+    logTest(
+      "Disagreements between extraction methods become reviewer notes",
+      disputed.notes[0] === "percentage: AI extraction 20 vs pattern 25"
+    );
+
+    // ===== UNRECOGNISED MEASURES =====
+    const keyPerson = proposeCovenant(clause(
+      "A Key Person Event occurs if two of the named principals cease to be involved, tested annually.",
+      { clauseName: "Key Person Event" }
+    ));
+    logTest(
+      "An unrecognised measure is named from the clause and left for the reviewer to complete",
+      keyPerson.covenantType === "key_person_event" && keyPerson.thresholdValue === null && keyPerson.formula === null
+        && keyPerson.checkFrequency === "annual"
+        && keyPerson.notes.includes("Covenant measure not recognised; enter the type, threshold and formula"),
+      undefined,
+      JSON.stringify(keyPerson)
+    );
+
+    // ===== TESTING THE PROMOTED COVENANT =====
+    const status = (nav: number) => {
+      const value = evaluateCovenantValue(ltv.formula!, { ...context, nav });
+      return `${value}:${calculateCovenantStatus(value, ltv.thresholdValue!, ltv.thresholdOperator!)}`;
+    };
+    logTest(
+      "The proposed formula tests the promoted covenant against live facility data",
+      status(150_000_000) === "200:compliant" && status(125_000_000) === "240:warning" && status(100_000_000) === "300:breach",
+      undefined,
+      [status(150_000_000), status(125_000_000), status(100_000_000)].join(", ")
+    );
+
+    const liquidityValue = evaluateCovenantValue(liquidity.formula!, context);
+    logTest(
+      "A minimum liquidity covenant breaches when cash falls below the threshold",
+      calculateCovenantStatus(liquidityValue, liquidity.thresholdValue!, liquidity.thresholdOperator!) === "breach"
+        && calculateCovenantStatus(
+          evaluateCovenantValue(liquidity.formula!, { ...context, cash: 30_000_000 }),
+          liquidity.thresholdValue!,
+          liquidity.thresholdOperator!
+        ) === "compliant"
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
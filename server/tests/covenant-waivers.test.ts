@@ -0,0 +1,217 @@
+/**
+ * Covenant Waiver Tests
+ *
+ * Checks how waivers and amendments change what a covenant test sees:
+ * - The threshold in force across permanent and temporary amendments
+ * - Same-day amendments and operators inherited from the covenant
+ * - Test status against the amended threshold
+ * - Which approved waiver or cure extension is in force on a date
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/covenant-waivers.test.ts
+ */
+
+import { selectActiveWaiver, selectThresholdInForce } from "../services/covenantWaivers";
+import { calculateCovenantStatus } from "../services/covenantMonitoring";
+import type { CovenantAmendment, CovenantWaiver } from "@shared/schema";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+function amendment(
+  id: string,
+  overrides: Partial<CovenantAmendment> & Pick<CovenantAmendment, "thresholdValue" | "effectiveDate">
+): CovenantAmendment {
+  return {
+    id,
+    covenantId: "covenant-1",
+    facilityId: "facility-1",
+    thresholdOperator: null,
+    endDate: null,
+    reason: "Lender consent",
+    documentReference: null,
+    createdBy: "user-ops",
+    createdAt: overrides.effectiveDate,
+    ...overrides,
+  };
+}
+
+function waiver(
+  id: string,
+  overrides: Partial<CovenantWaiver> & Pick<CovenantWaiver, "effectiveDate" | "expiryDate">
+): CovenantWaiver {
+  return {
+    id,
+    covenantId: "covenant-1",
+    facilityId: "facility-1",
+    waiverType: "waiver",
+    status: "approved",
+    reason: "Q1 NAV markdown",
+    documentReference: null,
+    requestedBy: "user-gp",
+    requestedAt: overrides.effectiveDate,
+    decidedBy: "user-ops",
+    decidedAt: overrides.effectiveDate,
+    decisionComments: null,
+    createdAt: overrides.effectiveDate,
+    updatedAt: overrides.effectiveDate,
+    ...overrides,
+  };
+}
+
+// Maximum LTV of 25.0%, held in tenths
+const covenant = { thresholdValue: 250, thresholdOperator: "less_than" };
+
+const amendments = [
+  amendment("reset", { thresholdValue: 300, effectiveDate: day("2026-03-01"), createdAt: day("2026-02-20") }),
+  amendment("holiday", { thresholdValue: 350, effectiveDate: day("2026-06-01"), endDate: day("2026-09-01") }),
+  amendment("restated", {
+    thresholdValue: 310,
+    thresholdOperator: "less_than_equal",
+    effectiveDate: day("2026-03-01"),
+    createdAt: day("2026-03-05"),
+  }),
+];
+
+const waivers = [
+  waiver("q1", { effectiveDate: day("2026-01-01"), expiryDate: day("2026-04-01") }),
+  waiver("h1", { effectiveDate: day("2026-02-01"), expiryDate: day("2026-06-01") }),
+  waiver("pending", { status: "requested", effectiveDate: day("2026-01-01"), expiryDate: day("2026-12-31") }),
+  waiver("declined", { status: "rejected", effectiveDate: day("2026-01-01"), expiryDate: day("2026-12-31") }),
+  waiver("extension", { waiverType: "cure_extension", effectiveDate: day("2026-01-01"), expiryDate: day("2026-03-01") }),
+];
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Covenant Waiver Tests                                   ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== THRESHOLD IN FORCE =====
+    const original = selectThresholdInForce(covenant, amendments, day("2026-02-28"));
+    logTest(
+      "Before any amendment takes effect the original threshold applies",
+      original.thresholdValue === 250 && original.thresholdOperator === "less_than" && original.amendmentId === null
+    );
+
+    const restated = selectThresholdInForce(covenant, amendments, day("2026-03-01"));
+    logTest(
+      "An amendment applies from its effective date; the later-recorded of two same-day amendments wins",
+      restated.amendmentId === "restated" && restated.thresholdValue === 310 && restated.thresholdOperator === "less_than_equal",
+      undefined,
+      JSON.stringify(restated)
+    );
+
+    const holiday = selectThresholdInForce(covenant, amendments, day("2026-07-15"));
+    logTest(
+      "A temporary reset overrides while in force and inherits the covenant's operator when it sets none",
+      holiday.amendmentId === "holiday" && holiday.thresholdValue === 350 && holiday.thresholdOperator === "less_than",
+      undefined,
+      JSON.stringify(holiday)
+    );
+
+    const resumed = selectThresholdInForce(covenant, amendments, day("2026-09-01"));
+    logTest(
+      "On a temporary reset's end date the prior amendment resumes",
+      resumed.amendmentId === "restated" && resumed.thresholdValue === 310
+    );
+
+    logTest(
+      "A covenant without amendments keeps its own threshold",
+      selectThresholdInForce(covenant, [], day("2026-07-15")).amendmentId === null
+    );
+
+    // ===== TESTING AGAINST AMENDMENTS =====
+    const statusOn = (date: string, value: number) => {
+      const threshold = selectThresholdInForce(covenant, amendments, day(date));
+      return calculateCovenantStatus(value, threshold.thresholdValue, threshold.thresholdOperator);
+    };
+    logTest(
+      "The same LTV breaches the original threshold but complies with the amendment",
+      statusOn("2026-02-15", 270) === "breach" && statusOn("2026-04-01", 270) === "compliant"
+    );
+    logTest(
+      "An amended 'less than or equal' operator keeps a value on the threshold out of breach",
+      statusOn("2026-04-01", 310) === "warning" && statusOn("2026-04-01", 311) === "breach"
+    );
+    logTest(
+      "The holiday threshold applies only during the holiday",
+      statusOn("2026-07-15", 330) === "warning" && statusOn("2026-09-15", 330) === "breach"
+    );
+
+    // ===== WAIVERS IN FORCE =====
+    logTest(
+      "An approved waiver is in force from its effective date",
+      selectActiveWaiver(waivers, day("2026-01-15"))?.id === "q1"
+    );
+    logTest(
+      "With overlapping waivers the one running longest applies",
+      selectActiveWaiver(waivers, day("2026-02-15"))?.id === "h1"
+    );
+    logTest(
+      "A waiver has lapsed on its expiry date",
+      selectActiveWaiver(waivers, day("2026-04-01"))?.id === "h1" && selectActiveWaiver(waivers, day("2026-06-01")) === null
+    );
+    logTest(
+      "Requested and rejected waivers never apply",
+      selectActiveWaiver(waivers, day("2026-08-01")) === null && selectActiveWaiver(waivers, day("2025-12-31")) === null
+    );
+    logTest(
+      "Cure extensions are looked up separately from waivers",
+      selectActiveWaiver(waivers, day("2026-01-15"), "cure_extension")?.id === "extension"
+        && selectActiveWaiver(waivers, day("2026-03-01"), "cure_extension") === null
+        && selectActiveWaiver(waivers.filter(w => w.waiverType === "cure_extension"), day("2026-01-15")) === null
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,177 @@
+/**
+ * Credit Document Diff Tests
+ *
+ * Checks the word-level redline used when comparing credit agreement versions:
+ * - Unchanged, replaced, inserted and deleted words
+ * - Case and whitespace differences treated as equal
+ * - Adjacent segments of the same type merged, and both versions recoverable
+ * - The whole-text fallback for clauses too long to diff word by word
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/credit-document-diff.test.ts
+ */
+
+import { diffWords, type TextDiffSegment } from "../services/creditDocumentComparison";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+// Compact form for comparisons: =kept -removed +added
+function render(segments: TextDiffSegment[]): string {
+  const marks = { equal: "=", delete: "-", insert: "+" };
+  return segments.map(s => `${marks[s.type]}[${s.text}]`).join("");
+}
+
+const textOf = (segments: TextDiffSegment[], ...types: TextDiffSegment["type"][]) =>
+  segments.filter(s => types.includes(s.type)).map(s => s.text).join("");
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Credit Document Diff Tests                              ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== WORD CHANGES =====
+    const unchanged = diffWords("Leverage shall not exceed 4.50 to 1.00.", "Leverage shall not exceed 4.50 to 1.00.");
+    logTest(
+      "Identical text is one equal segment",
+      render(unchanged) === "=[Leverage shall not exceed 4.50 to 1.00.]"
+    );
+
+    const replaced = diffWords("Leverage shall not exceed 4.50 to 1.00.", "Leverage shall not exceed 5.00 to 1.00.");
+    logTest(
+      "A replaced word is a delete followed by an insert between equal runs",
+      render(replaced) === "=[Leverage shall not exceed ]-[4.50 ]+[5.00 ]=[to 1.00.]",
+      undefined,
+      render(replaced)
+    );
+
+    const inserted = diffWords(
+      "The Borrower shall deliver financial statements.",
+      "The Borrower shall promptly deliver audited financial statements."
+    );
+    logTest(
+      "Inserted words appear where they were added",
+      render(inserted) === "=[The Borrower shall ]+[promptly ]=[deliver ]+[audited ]=[financial statements.]",
+      undefined,
+      render(inserted)
+    );
+
+    const deleted = diffWords("Cure period of 30 days after written notice.", "Cure period of 30 days.");
+    logTest(
+      "Deleted trailing words, with the changed final word, are one delete",
+      render(deleted) === "=[Cure period of 30 ]-[days after written notice.]+[days.]",
+      undefined,
+      render(deleted)
+    );
+
+    // ===== NORMALISATION =====
+    const recased = diffWords("THE BORROWER  shall maintain", "The Borrower shall maintain");
+    logTest(
+      "Case and spacing differences are equal, shown with the revised text",
+      render(recased) === "=[The Borrower shall maintain]",
+      undefined,
+      render(recased)
+    );
+
+    // ===== SEGMENTS =====
+    const before = "Minimum Liquidity of $25 million tested quarterly on each Test Date";
+    const after = "Minimum Liquidity of $20 million tested monthly on the last day of each month";
+    const redline = diffWords(before, after);
+    logTest(
+      "Equal and inserted segments rebuild the revised text; equal and deleted rebuild the original",
+      textOf(redline, "equal", "insert") === after && textOf(redline, "equal", "delete") === before,
+      undefined,
+      render(redline)
+    );
+    logTest(
+      "Adjacent segments never share a type",
+      redline.every((segment, index) => index === 0 || redline[index - 1].type !== segment.type)
+        && redline.every(segment => segment.text.length > 0)
+    );
+
+    logTest(
+      "Empty original is a single insert; empty on both sides is no segments",
+      render(diffWords("", "New clause.")) === "+[New clause.]" && diffWords("", "").length === 0
+    );
+    logTest(
+      "Empty revision is a single delete",
+      render(diffWords("Removed clause.", "")) === "-[Removed clause.]"
+    );
+
+    // ===== LARGE CLAUSES =====
+    const longBefore = Array.from({ length: 2100 }, (_, i) => `a${i}`).join(" ");
+    const longAfter = Array.from({ length: 2100 }, (_, i) => `b${i}`).join(" ");
+    const started = Date.now();
+    const fallback = diffWords(longBefore, longAfter);
+    logTest(
+      "Clauses too long to diff word by word become one delete and one insert",
+      fallback.length === 2 && fallback[0].type === "delete" && fallback[0].text === longBefore
+        && fallback[1].type === "insert" && fallback[1].text === longAfter,
+      undefined,
+      `${Date.now() - started}ms`
+    );
+
+    // Same 1,900 words shifted by one: only the first and last words differ
+    const nearLimit = diffWords(
+      Array.from({ length: 1900 }, (_, i) => `w${i % 50}`).join(" "),
+      Array.from({ length: 1900 }, (_, i) => `w${(i + 1) % 50}`).join(" ")
+    );
+    logTest(
+      "Long clauses under the limit still get a word-level diff",
+      render([nearLimit[0], nearLimit[2]]) === "-[w0 ]+[w0]"
+        && nearLimit.length === 3 && nearLimit[1].type === "equal",
+      undefined,
+      render(nearLimit).slice(0, 40)
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
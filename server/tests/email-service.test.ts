@@ -0,0 +1,313 @@
+/**
+ * Email Service SMTP Tests
+ *
+ * Sends through sendEmail() to an in-process SMTP sink and checks what arrives:
+ * - Envelope, headers and both MIME parts of a delivered message
+ * - AUTH with SMTP_USER / SMTP_PASS
+ * - Rejected recipients and unreachable servers reported as failures
+ * - Missing configuration and invalid addresses rejected before connecting
+ *
+ * Run: tsx server/tests/email-service.test.ts
+ */
+
+import net from "net";
+import { sendEmail, isValidEmailAddress, type EmailMessage } from "../services/emailService";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+interface ReceivedMail {
+  commands: string[];
+  mailFrom: string | null;
+  rcptTo: string[];
+  data: string;
+}
+
+/**
+ * Minimal SMTP server: EHLO, AUTH PLAIN/LOGIN, MAIL, RCPT, DATA, RSET, QUIT.
+ * Recipients at reject.test get a 550.
+ */
+function startSmtpSink(): Promise<{ port: number; received: ReceivedMail[]; close: () => Promise<void> }> {
+  const received: ReceivedMail[] = [];
+
+  const server = net.createServer((socket) => {
+    const mail: ReceivedMail = { commands: [], mailFrom: null, rcptTo: [], data: "" };
+    let buffer = "";
+    let inData = false;
+    let authLogin: "user" | "pass" | null = null;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    socket.setEncoding("utf8");
+    reply("220 sink.test ESMTP");
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+
+      while (buffer.length > 0) {
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end === -1) return;
+          mail.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          received.push({ ...mail, rcptTo: [...mail.rcptTo] });
+          reply("250 OK queued");
+          continue;
+        }
+
+        const newline = buffer.indexOf("\r\n");
+        if (newline === -1) return;
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        mail.commands.push(line);
+
+        if (authLogin === "user") {
+          authLogin = "pass";
+          reply("334 UGFzc3dvcmQ6");
+          continue;
+        }
+        if (authLogin === "pass") {
+          authLogin = null;
+          reply("235 Authentication successful");
+          continue;
+        }
+
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") {
+          socket.write("250-sink.test\r\n250-AUTH PLAIN LOGIN\r\n250 8BITMIME\r\n");
+        } else if (verb === "HELO") {
+          reply("250 sink.test");
+        } else if (verb === "AUTH") {
+          if (/^AUTH LOGIN/i.test(line)) {
+            authLogin = "user";
+            reply("334 VXNlcm5hbWU6");
+          } else {
+            reply("235 Authentication successful");
+          }
+        } else if (verb === "MAIL") {
+          mail.mailFrom = line.match(/<([^>]*)>/)?.[1] ?? null;
+          mail.rcptTo = [];
+          reply("250 OK");
+        } else if (verb === "RCPT") {
+          const address = line.match(/<([^>]*)>/)?.[1] ?? "";
+          if (address.endsWith("@reject.test")) {
+            reply("550 No such user");
+          } else {
+            mail.rcptTo.push(address);
+            reply("250 OK");
+          }
+        } else if (verb === "DATA") {
+          inData = true;
+          reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (verb === "RSET" || verb === "NOOP") {
+          reply("250 OK");
+        } else if (verb === "QUIT") {
+          reply("221 Bye");
+          socket.end();
+        } else {
+          reply("502 Command not implemented");
+        }
+      }
+    });
+    socket.on("error", () => undefined);
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({
+        port,
+        received,
+        close: () => new Promise<void>((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+function configureSmtp(port: number, overrides: Record<string, string | undefined> = {}) {
+  const settings: Record<string, string | undefined> = {
+    SMTP_HOST: "127.0.0.1",
+    SMTP_PORT: String(port),
+    SMTP_SECURE: "false",
+    SMTP_IGNORE_TLS: "true",
+    SMTP_USER: undefined,
+    SMTP_PASS: undefined,
+    SMTP_FROM: "AlphaNAV Alerts <alerts@alphanav.test>",
+    ...overrides,
+  };
+  for (const [key, value] of Object.entries(settings)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+}
+
+const message: EmailMessage = {
+  to: "Jordan Lee <jordan@fund.test>",
+  subject: "Covenant breach — Fund IV ⚠",
+  text: "LTV covenant breached.\n.leading dot line",
+  html: "<p>LTV covenant <strong>breached</strong>.</p>",
+};
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Email Service SMTP Tests                                ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  const sink = await startSmtpSink();
+
+  try {
+    // ===== DELIVERY =====
+    configureSmtp(sink.port);
+    const sent = await sendEmail(message);
+    const mail = sink.received[0];
+
+    logTest(
+      "Message accepted by the sink returns success with a Message-ID",
+      sent.success === true && !!sent.messageId && /^<.+@.+>$/.test(sent.messageId),
+      sent.success ? undefined : sent.error,
+      `messageId=${sent.messageId}`
+    );
+
+    logTest(
+      "Envelope uses the bare sender and recipient addresses",
+      mail?.mailFrom === "alerts@alphanav.test" && mail?.rcptTo.join(",") === "jordan@fund.test",
+      undefined,
+      `MAIL FROM=${mail?.mailFrom} RCPT TO=${mail?.rcptTo.join(",")}`
+    );
+
+    const headers = mail?.data.split("\r\n\r\n")[0] ?? "";
+    logTest(
+      "Headers carry the display From, the Message-ID and an encoded non-ASCII subject",
+      /^From: "?AlphaNAV Alerts"? <alerts@alphanav\.test>$/m.test(headers)
+        && headers.includes(`Message-ID: ${sent.messageId}`)
+        && /^Subject: =\?UTF-8\?/m.test(headers),
+      undefined,
+      headers.split("\r\n").filter(h => /^(From|Subject|Message-ID):/.test(h)).join(" | ")
+    );
+
+    logTest(
+      "Message is multipart/alternative with text and HTML parts",
+      /Content-Type: multipart\/alternative/.test(mail?.data ?? "")
+        && /Content-Type: text\/plain/.test(mail?.data ?? "")
+        && /Content-Type: text\/html/.test(mail?.data ?? "")
+    );
+
+    logTest(
+      "No AUTH is attempted without credentials",
+      !!mail && !mail.commands.some(c => c.toUpperCase().startsWith("AUTH"))
+    );
+
+    // ===== AUTH =====
+    configureSmtp(sink.port, { SMTP_USER: "mailer", SMTP_PASS: "s3cret" });
+    const authed = await sendEmail(message);
+    const authMail = sink.received[1];
+    const authCommand = authMail?.commands.find(c => c.toUpperCase().startsWith("AUTH")) ?? "";
+    const plainCredentials = authCommand.startsWith("AUTH PLAIN ")
+      ? Buffer.from(authCommand.slice("AUTH PLAIN ".length), "base64").toString("utf8")
+      : null;
+
+    logTest(
+      "SMTP_USER / SMTP_PASS are sent with AUTH",
+      authed.success === true
+        && (plainCredentials === "\0mailer\0s3cret" || authCommand.startsWith("AUTH LOGIN")),
+      authed.success ? undefined : authed.error,
+      authCommand.split(" ").slice(0, 2).join(" ")
+    );
+
+    // ===== FAILURES =====
+    configureSmtp(sink.port);
+    const rejected = await sendEmail({ ...message, to: "nobody@reject.test" });
+    logTest(
+      "Recipient refused by the server is reported as a failure",
+      rejected.success === false && !!rejected.error,
+      undefined,
+      rejected.error
+    );
+
+    const unreachable = await startSmtpSink();
+    await unreachable.close();
+    configureSmtp(unreachable.port);
+    const refused = await sendEmail(message);
+    logTest(
+      "Unreachable server is reported as a failure",
+      refused.success === false && !!refused.error,
+      undefined,
+      refused.error
+    );
+
+    const receivedBefore = sink.received.length;
+    configureSmtp(sink.port, { SMTP_HOST: undefined });
+    const unconfigured = await sendEmail(message);
+    logTest(
+      "Missing SMTP_HOST fails without connecting",
+      unconfigured.success === false
+        && /not configured/.test(unconfigured.error ?? "")
+        && sink.received.length === receivedBefore
+    );
+
+    configureSmtp(sink.port);
+    const invalid = await sendEmail({ ...message, to: "not-an-address" });
+    logTest(
+      "Invalid recipient address fails without connecting",
+      invalid.success === false
+        && /Invalid email address/.test(invalid.error ?? "")
+        && sink.received.length === receivedBefore
+    );
+
+    logTest(
+      "isValidEmailAddress accepts plain addresses and rejects display names and spaces",
+      isValidEmailAddress("ops@alphanav.test")
+        && !isValidEmailAddress("Ops <ops@alphanav.test>")
+        && !isValidEmailAddress("ops @alphanav.test")
+        && !isValidEmailAddress("ops@localhost")
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    await sink.close();
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,129 @@
+/**
+ * Facility NAV Tests
+ *
+ * Checks the LTV recomputed from each NAV observation:
+ * - Unrounded percent, stored whole percent and covenant value in tenths
+ * - Which covenant types are tested against the facility LTV
+ * - A NAV markdown carrying an LTV covenant from compliant through warning to breach
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/facility-nav.test.ts
+ */
+
+import { computeLtv, isLtvCovenant, LTV_COVENANT_SCALE } from "../services/facilityNav";
+import { calculateCovenantStatus } from "../services/covenantMonitoring";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Facility NAV Tests                                      ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== LTV FROM NAV =====
+    const ltv = computeLtv(25_000_000, 120_000_000);
+    logTest(
+      "LTV is outstanding over NAV, kept unrounded, as a whole percent and in covenant tenths",
+      Math.abs(ltv.ltvPercent - 20.8333) < 0.0001 && ltv.ltvRatio === 21 && ltv.covenantValue === 208,
+      undefined,
+      JSON.stringify(ltv)
+    );
+    logTest("Covenant values are held in tenths of a percent", LTV_COVENANT_SCALE === 10);
+
+    const half = computeLtv(12_250_000, 100_000_000);
+    logTest(
+      "The facility's whole percent drops the fraction that the covenant tenths keep",
+      half.ltvRatio === 12 && half.covenantValue === 123,
+      undefined,
+      JSON.stringify(half)
+    );
+
+    const repaid = computeLtv(0, 80_000_000);
+    logTest("A fully repaid facility has zero LTV", repaid.ltvPercent === 0 && repaid.ltvRatio === 0 && repaid.covenantValue === 0);
+
+    const underwater = computeLtv(150_000_000, 100_000_000);
+    logTest("Balances above NAV give an LTV over 100%", underwater.ltvRatio === 150 && underwater.covenantValue === 1500);
+
+    // ===== LTV COVENANTS =====
+    logTest(
+      "Covenant types containing 'ltv' in any case are LTV covenants",
+      isLtvCovenant("max_ltv") && isLtvCovenant("LTV") && isLtvCovenant("Portfolio LTV Ratio")
+    );
+    logTest(
+      "Other covenant types are not",
+      !isLtvCovenant("minimum_liquidity") && !isLtvCovenant("interest_coverage") && !isLtvCovenant("loan_to_value")
+    );
+
+    // ===== NAV MARKDOWN =====
+    // 25% maximum LTV covenant: warning inside the 10% buffer (22.5%), breach at or above 25%
+    const threshold = 25 * LTV_COVENANT_SCALE;
+    const outstanding = 40_000_000;
+    const statuses = [200_000_000, 170_000_000, 160_000_000, 150_000_000].map(nav => {
+      const { covenantValue } = computeLtv(outstanding, nav);
+      return `${covenantValue}:${calculateCovenantStatus(covenantValue, threshold, "less_than")}`;
+    });
+    logTest(
+      "Falling NAV moves the LTV covenant from compliant to warning to breach",
+      statuses.join(",") === "200:compliant,235:warning,250:breach,267:breach",
+      undefined,
+      statuses.join(", ")
+    );
+
+    const recovered = computeLtv(outstanding, 210_000_000);
+    logTest(
+      "A NAV recovery brings the covenant back into compliance",
+      calculateCovenantStatus(recovered.covenantValue, threshold, "less_than") === "compliant"
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,240 @@
+/**
+ * NAV Reconciliation Tests
+ *
+ * Checks the quarterly comparison of GP-reported marks with model marks:
+ * - Deviation against the model and the tolerance band, in both directions
+ * - Stale GP marks: unchanged from the prior quarter or carried forward
+ * - Holdings without a model mark or without a GP mark
+ * - Quarter totals, model coverage, the conservative adjusted NAV and flag counts
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/nav-reconciliation.test.ts
+ */
+
+import { reconcileQuarters, DEFAULT_DEVIATION_TOLERANCE } from "../services/navReconciliation";
+import type { PortfolioCompany, PortfolioHolding } from "@shared/schema";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+function company(id: string, companyName: string): PortfolioCompany {
+  return {
+    id,
+    prospectId: null,
+    facilityId: "facility-1",
+    companyName,
+    industry: null,
+    sector: "Software",
+    geography: null,
+    assetClass: null,
+    isListed: false,
+    investmentDate: null,
+    investmentAmount: null,
+    ownershipPercentage: null,
+    currentValue: null,
+    valuationDate: null,
+    status: "active",
+    exitDate: null,
+    exitValue: null,
+    extractedFrom: null,
+    extractionConfidence: null,
+    metadata: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function mark(companyId: string, asOfDate: string, fairValue: number, basis: "gp_reported" | "model"): PortfolioHolding {
+  return {
+    id: `${companyId}-${basis}-${asOfDate}`,
+    companyId,
+    asOfDate: day(asOfDate),
+    fairValue,
+    costBasis: null,
+    unrealizedGain: null,
+    percentageOfNAV: null,
+    source: basis === "model" ? "mark-to-model" : "quarterly-report",
+    basis,
+    valuationDetails: null,
+    createdBy: null,
+    createdAt: day(asOfDate),
+  };
+}
+
+const companies = [
+  company("alpha", "Alpha"),
+  company("beta", "Beta"),
+  company("gamma", "Gamma"),
+  company("delta", "Delta"),
+];
+
+// Sorted by as-of date, as loaded
+const holdings = [
+  mark("alpha", "2026-03-31", 100_000_000, "gp_reported"),
+  mark("alpha", "2026-03-31", 80_000_000, "model"),
+  mark("beta", "2026-03-31", 50_000_000, "gp_reported"),
+  mark("beta", "2026-03-31", 60_000_000, "model"),
+  mark("gamma", "2026-03-31", 30_000_000, "gp_reported"),
+  mark("alpha", "2026-05-15", 90_000_000, "gp_reported"),
+  mark("alpha", "2026-06-30", 100_000_000, "gp_reported"),
+  mark("alpha", "2026-06-30", 95_000_000, "model"),
+  mark("beta", "2026-06-30", 52_000_000, "model"),
+  mark("gamma", "2026-06-30", 33_000_000, "gp_reported"),
+  mark("delta", "2026-06-30", 10_000_000, "model"),
+];
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  NAV Reconciliation Tests                                ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    const quarters = reconcileQuarters(companies, holdings, DEFAULT_DEVIATION_TOLERANCE, 8);
+    const [q2, q1] = quarters;
+    const row = (quarter: typeof q1, companyId: string) => quarter.holdings.find(h => h.companyId === companyId);
+
+    logTest(
+      "Quarters are reconciled newest first and end on the quarter's last day",
+      quarters.map(q => q.quarter).join(",") === "2026-Q2,2026-Q1"
+        && q2.quarterEnd.toISOString() === "2026-06-30T00:00:00.000Z",
+      undefined,
+      quarters.map(q => `${q.quarter}:${q.quarterEnd.toISOString()}`).join(", ")
+    );
+
+    // ===== DEVIATION FLAGS =====
+    const alphaQ1 = row(q1, "alpha");
+    logTest(
+      "A GP mark above the model beyond tolerance is flagged and written down to the model",
+      alphaQ1?.deviation === 20_000_000 && alphaQ1.deviationPercent === 25
+        && alphaQ1.flags.join(",") === "gp_above_model" && alphaQ1.adjustedValue === 80_000_000,
+      undefined,
+      JSON.stringify(alphaQ1)
+    );
+
+    const betaQ1 = row(q1, "beta");
+    logTest(
+      "A GP mark below the model beyond tolerance is flagged but kept",
+      betaQ1?.deviationPercent === -16.7 && betaQ1.flags.join(",") === "gp_below_model" && betaQ1.adjustedValue === 50_000_000,
+      undefined,
+      JSON.stringify(betaQ1)
+    );
+
+    const wideBand = reconcileQuarters(companies, holdings, 25, 8)[1];
+    logTest(
+      "A deviation exactly at the tolerance is not flagged",
+      row(wideBand, "alpha")?.flags.length === 0 && row(wideBand, "alpha")?.adjustedValue === 100_000_000
+    );
+
+    const gammaQ1 = row(q1, "gamma");
+    logTest(
+      "A holding without a model mark is flagged and keeps its GP value",
+      gammaQ1?.flags.join(",") === "missing_model_mark" && gammaQ1.deviation === null && gammaQ1.adjustedValue === 30_000_000
+    );
+
+    // ===== STALE GP MARKS =====
+    const alphaQ2 = row(q2, "alpha");
+    logTest(
+      "The latest GP mark in a quarter is used and one unchanged from last quarter is flagged",
+      alphaQ2?.gpFairValue === 100_000_000 && alphaQ2.flags.join(",") === "unchanged_gp_mark" && alphaQ2.deviationPercent === 5.3,
+      undefined,
+      JSON.stringify(alphaQ2)
+    );
+
+    const betaQ2 = row(q2, "beta");
+    logTest(
+      "Without a GP mark this quarter the prior one is carried forward and flagged",
+      betaQ2?.gpFairValue === 50_000_000 && betaQ2.gpAsOfDate?.toISOString() === "2026-03-31T00:00:00.000Z"
+        && betaQ2.flags.join(",") === "gp_mark_carried_forward",
+      undefined,
+      JSON.stringify(betaQ2)
+    );
+
+    const deltaQ2 = row(q2, "delta");
+    logTest(
+      "A modelled holding the GP has not reported adds nothing to the adjusted NAV",
+      deltaQ2?.gpFairValue === null && deltaQ2.adjustedValue === 0 && deltaQ2.flags.length === 0 && !row(q1, "delta")
+    );
+
+    // ===== QUARTER TOTALS =====
+    logTest(
+      "Quarter totals: model NAV falls back to GP marks and the adjustment only ever reduces NAV",
+      q1.gpNav === 180_000_000 && q1.modelNav === 170_000_000 && q1.adjustedNav === 160_000_000 && q1.adjustment === -20_000_000,
+      undefined,
+      JSON.stringify({ gp: q1.gpNav, model: q1.modelNav, adjusted: q1.adjustedNav })
+    );
+    logTest(
+      "Model coverage is the share of GP NAV with a model mark",
+      q1.modelCoveragePercent === 83.3 && q2.modelCoveragePercent === 82,
+      undefined,
+      `${q1.modelCoveragePercent}, ${q2.modelCoveragePercent}`
+    );
+    logTest(
+      "Missing model marks alone do not count as flagged",
+      q1.flaggedCount === 2 && q2.flaggedCount === 2 && q2.adjustment === 0
+    );
+    logTest(
+      "Holdings are listed largest GP mark first",
+      q2.holdings.map(h => h.companyId).join(",") === "alpha,beta,gamma,delta"
+    );
+
+    // ===== QUARTER LIMIT =====
+    const latestOnly = reconcileQuarters(companies, holdings, DEFAULT_DEVIATION_TOLERANCE, 1);
+    logTest(
+      "The quarter limit keeps the most recent quarters, still seeing earlier GP marks",
+      latestOnly.length === 1 && latestOnly[0].quarter === "2026-Q2"
+        && row(latestOnly[0], "alpha")?.flags.join(",") === "unchanged_gp_mark"
+    );
+    logTest("No marks means nothing to reconcile", reconcileQuarters(companies, [], DEFAULT_DEVIATION_TOLERANCE, 8).length === 0);
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
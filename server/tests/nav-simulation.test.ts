@@ -0,0 +1,254 @@
+/**
+ * NAV Simulation Tests
+ *
+ * Checks the Monte Carlo NAV engine behind covenant breach probabilities:
+ * - Reproducibility from the seed
+ * - Breach probability rising with the starting LTV, draws and distributions
+ * - Exact NAV paths when volatility is zero
+ * - Sector mapping, horizons and input validation
+ * - The path budget for runs made while serving a request
+ *
+ * Run: tsx server/tests/nav-simulation.test.ts
+ */
+
+import {
+  simulateNavPaths,
+  interactivePathCount,
+  DEFAULT_SECTOR_ASSUMPTIONS,
+  MAX_SIMULATION_PATHS,
+  type NavSimulationInput,
+} from "../services/navSimulation";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+// $200m fund, $30m drawn (15% LTV) against a 20% covenant over three years
+const base: NavSimulationInput = {
+  fundNav: 200_000_000,
+  loanBalance: 30_000_000,
+  maxLtv: 20,
+  termMonths: 36,
+  paths: 2000,
+  seed: 42,
+};
+
+// A single sector with no volatility, so every path is the same known curve
+const flat: NavSimulationInput = {
+  ...base,
+  paths: 100,
+  sectorWeights: { flat: 1 },
+  sectorAssumptions: { flat: { volatility: 0, drift: 0.12, marketLoading: 0 } },
+};
+
+function thrown(fn: () => unknown): Error | null {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error as Error;
+  }
+}
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  NAV Simulation Tests                                    ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== REPRODUCIBILITY =====
+    const first = simulateNavPaths(base);
+    const again = simulateNavPaths(base);
+    const otherSeed = simulateNavPaths({ ...base, seed: 43 });
+
+    logTest(
+      "The same inputs and seed give an identical result",
+      JSON.stringify(first) === JSON.stringify(again) && first.seed === 42
+    );
+    logTest(
+      "A different seed gives different paths",
+      JSON.stringify(first.navBands) !== JSON.stringify(otherSeed.navBands)
+    );
+    logTest(
+      "A seed is generated when none is given",
+      Number.isInteger(simulateNavPaths({ ...base, paths: 100, seed: undefined }).seed)
+    );
+
+    // ===== BREACH PROBABILITY =====
+    const byLoan = [20_000_000, 30_000_000, 35_000_000].map(loanBalance =>
+      simulateNavPaths({ ...base, loanBalance }).breachProbability
+    );
+    logTest(
+      "Breach probability rises with the starting LTV",
+      byLoan[0] < byLoan[1] && byLoan[1] < byLoan[2] && byLoan[0] >= 0 && byLoan[2] <= 100,
+      undefined,
+      `10% LTV ${byLoan[0]}%, 15% ${byLoan[1]}%, 17.5% ${byLoan[2]}%`
+    );
+
+    const alreadyBreached = simulateNavPaths({ ...base, loanBalance: 50_000_000 });
+    logTest(
+      "Starting above the covenant is a certain breach in month 0",
+      alreadyBreached.breachProbability === 100 && alreadyBreached.medianMonthsToBreach === 0
+    );
+
+    logTest(
+      "Cumulative breach probability never falls across horizons and matches the term figure",
+      first.horizons.every((h, i) => i === 0 || h.breachProbability >= first.horizons[i - 1].breachProbability)
+        && first.horizons[first.horizons.length - 1].breachProbability === first.breachProbability
+        && first.horizons.every(h => h.ltvAboveMaxProbability <= h.breachProbability),
+      undefined,
+      first.horizons.map(h => `m${h.month}: ${h.breachProbability}%`).join(", ")
+    );
+
+    const withDraw = simulateNavPaths({ ...base, drawSchedule: [{ month: 6, amount: 5_000_000 }] });
+    const withDistribution = simulateNavPaths({ ...base, distributionSchedule: [{ month: 6, amount: 20_000_000 }] });
+    logTest(
+      "A later draw or a distribution out of NAV raises the breach probability",
+      withDraw.breachProbability > first.breachProbability && withDistribution.breachProbability > first.breachProbability,
+      undefined,
+      `base ${first.breachProbability}%, draw ${withDraw.breachProbability}%, distribution ${withDistribution.breachProbability}%`
+    );
+
+    // ===== ZERO VOLATILITY =====
+    const steady = simulateNavPaths(flat);
+    const expectedYearOne = Math.round(200_000_000 * Math.exp(0.12));
+    logTest(
+      "With no volatility NAV compounds at the drift on every path",
+      Math.abs(steady.navBands[12].p5 - expectedYearOne) <= 1 && steady.navBands[12].p95 === steady.navBands[12].p5
+        && steady.breachProbability === 0 && steady.medianMonthsToBreach === null,
+      undefined,
+      `month 12 NAV ${steady.navBands[12].p50}, expected ${expectedYearOne}`
+    );
+
+    const repaid = simulateNavPaths({ ...flat, drawSchedule: [{ month: 12, amount: -50_000_000 }] });
+    logTest(
+      "Repayments larger than the balance floor the loan at zero",
+      repaid.horizons.find(h => h.month === 12)?.ltvPercentiles.p50 === 0
+    );
+
+    const stripped = simulateNavPaths({ ...flat, distributionSchedule: [{ month: 12, amount: 80_000_000 }] });
+    const afterDistribution = 200_000_000 * Math.exp(0.12) - 80_000_000;
+    const ltvAfter = Number((30_000_000 / afterDistribution * 100).toFixed(2));
+    logTest(
+      "A distribution reduces NAV by its amount and can push LTV through the covenant",
+      Math.abs(stripped.navBands[12].p50 - Math.round(afterDistribution)) <= 1
+        && stripped.horizons.find(h => h.month === 12)?.ltvPercentiles.p50 === ltvAfter
+        && stripped.breachProbability === 100 && stripped.medianMonthsToBreach === 12,
+      undefined,
+      `month 12 LTV ${stripped.horizons.find(h => h.month === 12)?.ltvPercentiles.p50}%, expected ${ltvAfter}%`
+    );
+
+    // ===== SECTORS AND HORIZONS =====
+    const mixed = simulateNavPaths({
+      ...base,
+      paths: 100,
+      sectorWeights: { "Healthcare Services": 30, Tech: 50, Widgets: 20, Empty: 0 },
+    });
+    const sector = (name: string) => mixed.sectors.find(s => s.sector === name);
+    logTest(
+      "Sector weights are normalised and names matched to the closest default",
+      mixed.sectors.map(s => s.sector).join(",") === "Healthcare Services,Tech,Widgets"
+        && sector("Tech")?.weight === 0.5
+        && sector("Tech")?.volatility === DEFAULT_SECTOR_ASSUMPTIONS.technology.volatility
+        && sector("Healthcare Services")?.volatility === DEFAULT_SECTOR_ASSUMPTIONS.healthcare.volatility
+        && sector("Widgets")?.marketLoading === 0.8,
+      undefined,
+      mixed.sectors.map(s => `${s.sector} ${s.weight} vol ${s.volatility}`).join(", ")
+    );
+
+    const diversified = simulateNavPaths({ ...base, paths: 100 });
+    logTest(
+      "No sector mix simulates one diversified sector",
+      diversified.sectors.length === 1 && diversified.sectors[0].sector === "diversified"
+    );
+
+    logTest(
+      "Default horizons are each year end and the term",
+      simulateNavPaths({ ...base, paths: 100, termMonths: 30 }).horizons.map(h => h.month).join(",") === "12,24,30"
+        && first.horizons.map(h => h.month).join(",") === "12,24,36"
+    );
+    logTest(
+      "Requested horizons are de-duplicated, sorted and kept within the term",
+      simulateNavPaths({ ...base, paths: 100, horizons: [18, 6, 6, 0, 48] }).horizons.map(h => h.month).join(",") === "6,18"
+    );
+    logTest(
+      "NAV bands run monthly from month 0",
+      first.navBands.length === 37 && first.navBands[0].p50 === 200_000_000 && first.navBands[36].month === 36
+    );
+
+    // ===== VALIDATION =====
+    logTest(
+      "Zero NAV, a term over 240 months and fewer than 100 paths are rejected",
+      /greater than zero/.test(thrown(() => simulateNavPaths({ ...base, fundNav: 0 }))?.message ?? "")
+        && /between 1 and 240/.test(thrown(() => simulateNavPaths({ ...base, termMonths: 241 }))?.message ?? "")
+        && /At least 100 paths/.test(thrown(() => simulateNavPaths({ ...base, paths: 50 }))?.message ?? "")
+    );
+    logTest(
+      "Path counts above the maximum are capped",
+      simulateNavPaths({ ...base, termMonths: 1, paths: 50_000 }).paths === MAX_SIMULATION_PATHS
+    );
+
+    // ===== INTERACTIVE BUDGET =====
+    logTest(
+      "Interactive runs default to 5,000 paths",
+      interactivePathCount(undefined, undefined) === 5000 && interactivePathCount(undefined, 36) === 5000
+    );
+    logTest(
+      "Interactive path counts shrink with the term to stay within the budget",
+      interactivePathCount(20_000, 36) === 10_000 && interactivePathCount(20_000, 240) === 1500
+        && interactivePathCount(1000, 240) === 1000,
+      undefined,
+      `36m ${interactivePathCount(20_000, 36)}, 240m ${interactivePathCount(20_000, 240)}`
+    );
+    logTest(
+      "Interactive path counts never drop below the 100-path minimum",
+      interactivePathCount(50, 36) === 100
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,264 @@
+/**
+ * Quiet Hours & Digest Tests
+ *
+ * Checks quiet hours evaluated in the preference's timezone and digest scheduling:
+ * - Windows inside a day and wrapping midnight, to the minute, end minute excluded
+ * - Timezone and daylight saving handling, with unknown zones falling back to UTC
+ * - When daily and weekly digests come due
+ * - Grouping held items by facility and type, and the plain-text rendering
+ * - Validation of the quiet-hours settings
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/notification-digests.test.ts
+ */
+
+import {
+  isInQuietHours,
+  nextQuietHoursEnd,
+  digestDueAt,
+  buildDigest,
+  renderDigestText,
+  validateQuietHoursSettings,
+} from "../services/notificationDigests";
+import type { NotificationDigestItem, NotificationPreference } from "@shared/schema";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+function preference(overrides: Partial<NotificationPreference> = {}): NotificationPreference {
+  return {
+    id: "pref-1",
+    userId: "user-1",
+    channel: "email",
+    enabled: true,
+    contactInfo: "ops@alphanav.test",
+    notificationTypes: null,
+    quietHoursStart: "22:00",
+    quietHoursEnd: "07:30",
+    timezone: "America/New_York",
+    digestFrequency: "daily",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function digestItem(id: string, overrides: Partial<NotificationDigestItem>): NotificationDigestItem {
+  return {
+    id,
+    preferenceId: "pref-1",
+    userId: "user-1",
+    channel: "email",
+    recipient: "ops@alphanav.test",
+    notificationId: null,
+    type: "payment_reminder",
+    message: `Message ${id}`,
+    facilityId: null,
+    scheduledFor: new Date("2026-01-16T12:30:00Z"),
+    digestedAt: null,
+    deliveryId: null,
+    createdAt: new Date("2026-01-15T23:00:00Z"),
+    ...overrides,
+  };
+}
+
+const at = (iso: string) => new Date(iso);
+const iso = (date: Date | null) => date?.toISOString() ?? "null";
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Quiet Hours & Digest Tests                              ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== QUIET HOURS =====
+    // New York, 22:00-07:30; January is UTC-5
+    const newYork = preference();
+    logTest(
+      "A window wrapping midnight starts on its start minute",
+      isInQuietHours(newYork, at("2026-01-16T03:00:00Z")) && !isInQuietHours(newYork, at("2026-01-16T02:59:00Z"))
+    );
+    logTest(
+      "The end minute itself is outside the window",
+      isInQuietHours(newYork, at("2026-01-16T12:29:00Z")) && !isInQuietHours(newYork, at("2026-01-16T12:30:00Z"))
+    );
+    logTest(
+      "Quiet hours follow the local clock through daylight saving",
+      isInQuietHours(newYork, at("2026-07-16T02:00:00Z")) && !isInQuietHours(newYork, at("2026-07-16T11:30:00Z"))
+        && isInQuietHours(newYork, at("2026-07-16T11:29:00Z"))
+    );
+
+    const tokyoLunch = preference({ quietHoursStart: "12:00", quietHoursEnd: "13:00", timezone: "Asia/Tokyo" });
+    logTest(
+      "A window inside one day is evaluated in the preference's timezone",
+      isInQuietHours(tokyoLunch, at("2026-01-16T03:15:00Z")) && !isInQuietHours(tokyoLunch, at("2026-01-16T12:15:00Z"))
+    );
+
+    logTest(
+      "No window when either end is missing, malformed or both are equal",
+      !isInQuietHours(preference({ quietHoursStart: null }), at("2026-01-16T03:00:00Z"))
+        && !isInQuietHours(preference({ quietHoursEnd: "25:00" }), at("2026-01-16T03:00:00Z"))
+        && !isInQuietHours(preference({ quietHoursEnd: "22:00" }), at("2026-01-16T03:00:00Z"))
+        && nextQuietHoursEnd(preference({ quietHoursStart: "7pm" })) === null
+    );
+
+    logTest(
+      "Without a timezone, New York is assumed",
+      isInQuietHours(preference({ timezone: null }), at("2026-01-16T03:00:00Z"))
+    );
+
+    const originalWarn = console.warn;
+    console.warn = () => undefined;
+    const unknownZone = preference({ timezone: "Mars/Olympus_Mons" });
+    const utcFallback = isInQuietHours(unknownZone, at("2026-01-16T22:30:00Z")) && !isInQuietHours(unknownZone, at("2026-01-16T12:00:00Z"));
+    console.warn = originalWarn;
+    logTest("An unknown timezone falls back to UTC", utcFallback);
+
+    // ===== DIGEST SCHEDULING =====
+    logTest(
+      "A daily digest is due when these quiet hours end",
+      iso(digestDueAt(newYork, at("2026-01-16T03:00:45Z"))) === "2026-01-16T12:30:00.000Z",
+      undefined,
+      iso(digestDueAt(newYork, at("2026-01-16T03:00:45Z")))
+    );
+    logTest(
+      "At the end minute, the next end is a day later",
+      iso(nextQuietHoursEnd(newYork, at("2026-01-16T12:30:00Z"))) === "2026-01-17T12:30:00.000Z"
+    );
+
+    // Clocks go forward at 02:00 on 8 March 2026: 07:30 that morning is 11:30 UTC
+    const overDst = digestDueAt(newYork, at("2026-03-08T03:00:00Z"));
+    logTest(
+      "The end time is local wall-clock time across a daylight saving change",
+      iso(overDst) === "2026-03-08T11:30:00.000Z",
+      undefined,
+      iso(overDst)
+    );
+
+    const weekly = preference({ digestFrequency: "weekly" });
+    // Thursday 15 January 2026, 22:00 in New York
+    logTest(
+      "A weekly digest is due at the end of Monday's quiet hours",
+      iso(digestDueAt(weekly, at("2026-01-16T03:00:00Z"))) === "2026-01-19T12:30:00.000Z",
+      undefined,
+      iso(digestDueAt(weekly, at("2026-01-16T03:00:00Z")))
+    );
+    logTest(
+      "Held on Sunday night, a weekly digest goes out on Monday morning",
+      iso(digestDueAt(weekly, at("2026-01-19T04:00:00Z"))) === "2026-01-19T12:30:00.000Z"
+    );
+    logTest(
+      "Held on Monday night, a weekly digest waits for the following Monday",
+      iso(digestDueAt(weekly, at("2026-01-20T03:00:00Z"))) === "2026-01-26T12:30:00.000Z"
+    );
+    logTest(
+      "Weekly scheduling keeps the local time across a daylight saving change",
+      iso(digestDueAt(weekly, at("2026-03-06T03:00:00Z"))) === "2026-03-09T11:30:00.000Z",
+      undefined,
+      iso(digestDueAt(weekly, at("2026-03-06T03:00:00Z")))
+    );
+    logTest(
+      "No digest time without quiet hours",
+      digestDueAt(preference({ quietHoursStart: null, digestFrequency: "weekly" }), at("2026-01-16T03:00:00Z")) === null
+    );
+
+    // ===== DIGEST CONTENT =====
+    const facilityNames = new Map([["fac-b", "Fund B"], ["fac-a", "Fund A"]]);
+    const items = [
+      digestItem("1", { facilityId: "fac-b", type: "payment_reminder", createdAt: at("2026-01-16T01:00:00Z") }),
+      digestItem("2", { facilityId: "fac-b", type: "covenant_warning", createdAt: at("2026-01-16T02:00:00Z") }),
+      digestItem("3", { facilityId: null, type: "system" }),
+      digestItem("4", { facilityId: "fac-a", type: "payment_reminder" }),
+      digestItem("5", { facilityId: "fac-b", type: "payment_reminder", createdAt: at("2026-01-15T23:30:00Z") }),
+      digestItem("6", { facilityId: "fac-unknown", type: "payment_reminder" }),
+    ];
+    const digest = buildDigest(items, facilityNames, "daily");
+
+    logTest(
+      "Items are grouped by facility name, with unmatched facilities under General, listed last",
+      digest.groups.map(g => g.facilityName).join(",") === "Fund A,Fund B,General" && digest.itemCount === 6,
+      undefined,
+      digest.groups.map(g => `${g.facilityName} (${g.items.length})`).join(", ")
+    );
+
+    const fundB = digest.groups.find(g => g.facilityName === "Fund B");
+    logTest(
+      "Within a facility, items are ordered by type then time",
+      fundB?.items.map(i => i.message).join(",") === "Message 2,Message 5,Message 1",
+      undefined,
+      fundB?.items.map(i => `${i.type}: ${i.message}`).join(", ")
+    );
+
+    const text = renderDigestText(digest);
+    logTest(
+      "The text digest has a count header and labelled type sections",
+      text.startsWith("AlphaNAV daily digest: 6 notifications from your quiet hours")
+        && text.includes("Fund B\n  Covenant warning (1)\n  - Message 2\n  Payment reminder (2)\n  - Message 5\n  - Message 1"),
+      undefined,
+      text.split("\n").slice(0, 4).join(" | ")
+    );
+    logTest(
+      "A single held item reads as one notification",
+      renderDigestText(buildDigest([items[0]], facilityNames, "weekly")).startsWith("AlphaNAV weekly digest: 1 notification from")
+    );
+
+    // ===== VALIDATION =====
+    logTest(
+      "Quiet-hours settings are validated",
+      validateQuietHoursSettings({ quietHoursStart: "22:00", quietHoursEnd: "7:30", timezone: "Europe/London", digestFrequency: "weekly" }) === null
+        && /quietHoursStart/.test(validateQuietHoursSettings({ quietHoursStart: "10pm" }) ?? "")
+        && /quietHoursEnd/.test(validateQuietHoursSettings({ quietHoursEnd: "24:00" }) ?? "")
+        && /Unknown timezone/.test(validateQuietHoursSettings({ timezone: "Mars/Olympus_Mons" }) ?? "")
+        && /digestFrequency/.test(validateQuietHoursSettings({ digestFrequency: "hourly" }) ?? "")
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,181 @@
+/**
+ * Notification Escalation Tests
+ *
+ * Checks when an unread alert is due for its next escalation step:
+ * - The default policy's recipient, relationship manager and operations head steps
+ * - Step delays measured from the original alert, not the last escalation
+ * - Policies matched by notification type or by priority, first match winning
+ * - Exhausted policies and alerts no policy covers
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/notification-escalation.test.ts
+ */
+
+import {
+  dueEscalationStep,
+  DEFAULT_ESCALATION_POLICY,
+  type EscalationPolicyConfig,
+} from "../services/notificationEscalation";
+import type { Notification } from "@shared/schema";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+const createdAt = new Date("2026-06-01T08:00:00Z");
+const hoursAfter = (hours: number) => new Date(createdAt.getTime() + hours * 60 * 60 * 1000);
+
+function notification(overrides: Partial<Notification> = {}): Notification {
+  return {
+    id: "notification-1",
+    userId: "user-gp",
+    type: "covenant_breach",
+    title: "Covenant breach: LTV",
+    message: "LTV of 27.5% exceeds the 25% maximum",
+    relatedEntityType: "covenant",
+    relatedEntityId: "covenant-1",
+    actionUrl: null,
+    isRead: false,
+    priority: "high",
+    escalationStep: 0,
+    lastEscalatedAt: null,
+    escalatedFromId: null,
+    createdAt,
+    ...overrides,
+  };
+}
+
+// Overdue payment alerts go to operations after two days, without a recipient reminder
+const paymentPolicy: EscalationPolicyConfig = {
+  id: "policy-payments",
+  name: "Overdue payments",
+  notificationTypes: ["payment_due"],
+  priorities: [],
+  steps: [{ afterHours: 48, target: "operations_head", channels: ["email"] }],
+  operationsHeadUserId: "user-ops-head",
+};
+
+const defaults = [DEFAULT_ESCALATION_POLICY];
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Notification Escalation Tests                           ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== DEFAULT POLICY =====
+    logTest(
+      "A breach alert is not escalated before the first step's delay",
+      dueEscalationStep(notification(), defaults, hoursAfter(3.99)) === null
+    );
+
+    const first = dueEscalationStep(notification(), defaults, hoursAfter(4));
+    logTest(
+      "After four hours the recipient is re-sent the alert by SMS",
+      first?.policy === DEFAULT_ESCALATION_POLICY && first.step.target === "recipient" && first.step.channels.join(",") === "sms",
+      undefined,
+      JSON.stringify(first?.step)
+    );
+
+    const second = notification({ escalationStep: 1, lastEscalatedAt: hoursAfter(4) });
+    logTest(
+      "The relationship manager is brought in at twelve hours",
+      dueEscalationStep(second, defaults, hoursAfter(11.5)) === null
+        && dueEscalationStep(second, defaults, hoursAfter(12))?.step.target === "relationship_manager"
+    );
+
+    const third = dueEscalationStep(notification({ escalationStep: 2 }), defaults, hoursAfter(24));
+    logTest(
+      "The operations head is brought in at twenty-four hours by SMS and email",
+      third?.step.target === "operations_head" && third.step.channels.join(",") === "sms,email"
+    );
+
+    logTest(
+      "Once every step has been taken there is nothing more to escalate",
+      dueEscalationStep(notification({ escalationStep: 3 }), defaults, hoursAfter(240)) === null
+    );
+
+    // ===== STEP TIMING =====
+    const late = notification({ escalationStep: 1, lastEscalatedAt: hoursAfter(11) });
+    logTest(
+      "Step delays run from the original alert, so a late first step doesn't hold back the next",
+      dueEscalationStep(late, defaults, hoursAfter(12))?.step.target === "relationship_manager"
+    );
+
+    // ===== POLICY MATCHING =====
+    logTest(
+      "The default policy covers urgent alerts of any type",
+      dueEscalationStep(notification({ type: "payment_due", priority: "urgent" }), defaults, hoursAfter(4))?.step.target === "recipient"
+    );
+    logTest(
+      "Alerts of other types below urgent are not escalated",
+      dueEscalationStep(notification({ type: "payment_due", priority: "high" }), defaults, hoursAfter(100)) === null
+    );
+
+    const configured = [paymentPolicy, DEFAULT_ESCALATION_POLICY];
+    const urgentPayment = notification({ type: "payment_due", priority: "urgent" });
+    logTest(
+      "The first policy covering the alert applies, even while its own first step isn't due",
+      dueEscalationStep(urgentPayment, configured, hoursAfter(24)) === null
+        && dueEscalationStep(urgentPayment, configured, hoursAfter(48))?.policy.id === "policy-payments"
+    );
+    logTest(
+      "Alerts the first policy doesn't cover fall through to the next",
+      dueEscalationStep(notification(), configured, hoursAfter(4))?.policy === DEFAULT_ESCALATION_POLICY
+    );
+
+    const empty: EscalationPolicyConfig = { ...paymentPolicy, id: "policy-empty", steps: [] };
+    logTest(
+      "A policy without steps never escalates",
+      dueEscalationStep(notification({ type: "payment_due" }), [empty], hoursAfter(1000)) === null
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,102 @@
+/**
+ * Notification Retry Backoff Tests
+ *
+ * Checks the retry schedule shared by the notification delivery and webhook queues:
+ * - One minute after the first failure, doubling with each further failure
+ * - Capped at an hour
+ * - The full schedule before a delivery is dead-lettered
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/notification-retry.test.ts
+ */
+
+import { retryDelayMs, MAX_DELIVERY_ATTEMPTS } from "../services/notificationDelivery";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+const MINUTE = 60 * 1000;
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Notification Retry Backoff Tests                        ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== BACKOFF =====
+    logTest("The first retry waits one minute", retryDelayMs(1) === MINUTE);
+
+    const schedule = [1, 2, 3, 4, 5].map(attempts => retryDelayMs(attempts) / MINUTE);
+    logTest(
+      "Each further failure doubles the wait",
+      schedule.join(",") === "1,2,4,8,16",
+      undefined,
+      `${schedule.join(", ")} minutes`
+    );
+
+    logTest(
+      "The wait is capped at an hour",
+      retryDelayMs(7) === 60 * MINUTE && retryDelayMs(20) === 60 * MINUTE && retryDelayMs(6) === 32 * MINUTE
+    );
+
+    // ===== DEAD LETTER =====
+    // Attempt n fails and schedules attempt n + 1 until MAX_DELIVERY_ATTEMPTS have failed
+    const retries = Array.from({ length: MAX_DELIVERY_ATTEMPTS - 1 }, (_, i) => retryDelayMs(i + 1));
+    const totalMinutes = retries.reduce((sum, delay) => sum + delay, 0) / MINUTE;
+    logTest(
+      "A failing delivery is retried five times over 31 minutes before it is dead-lettered",
+      MAX_DELIVERY_ATTEMPTS === 6 && retries.length === 5 && totalMinutes === 31,
+      undefined,
+      `${retries.length} retries over ${totalMinutes} minutes`
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
@@ -0,0 +1,216 @@
+/**
+ * Reference Rate Tests
+ *
+ * Checks the floating-rate reset inputs:
+ * - Fixings CSV parsing (headers, ISO and US dates, percent rates, bad rows)
+ * - Floor and cap bounds on the all-in rate
+ * - Period rate resolution from recorded resets and the latest prior fixing
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/reference-rates.test.ts
+ */
+
+import {
+  applyRateBounds,
+  buildFloatingRateResolver,
+  parseFixingsCsv,
+} from "../services/referenceRates";
+import type { FacilityRateReset } from "@shared/schema";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+function reset(periodStart: string, overrides: Partial<FacilityRateReset> = {}): FacilityRateReset {
+  return {
+    id: `reset-${periodStart}`,
+    facilityId: "facility-1",
+    periodStart: day(periodStart),
+    periodEnd: day("2026-12-31"),
+    rateName: "SOFR",
+    fixingDate: day(periodStart),
+    referenceRateBps: 500,
+    spreadBps: 300,
+    allInRateBps: 800,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Reference Rate Tests                                    ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== FIXINGS CSV =====
+    const nyFed = parseFixingsCsv([
+      "Effective Date,Rate Type,Rate (%),1st Percentile (%),Volume ($Billions)",
+      "03/28/2026,SOFR,4.33,4.28,2103",
+      "03/27/2026,SOFR,4.31%,4.27,2044",
+      "",
+    ].join("\n"));
+    logTest(
+      "NY Fed download: the rate column skips 'Rate Type' and US dates parse as UTC",
+      nyFed.errors.length === 0 && nyFed.fixings.length === 2
+        && nyFed.fixings[0].fixingDate.toISOString() === "2026-03-28T00:00:00.000Z"
+        && nyFed.fixings[0].rateBps === 433 && nyFed.fixings[1].rateBps === 431,
+      undefined,
+      JSON.stringify(nyFed)
+    );
+
+    const headerless = parseFixingsCsv("\n2026-01-02,5.31\n2026-01-03,-0.05\n");
+    logTest(
+      "Without a header the first two columns are date and rate",
+      headerless.errors.length === 0 && headerless.fixings.length === 2
+        && headerless.fixings[0].fixingDate.toISOString() === "2026-01-02T00:00:00.000Z"
+        && headerless.fixings[0].rateBps === 531 && headerless.fixings[1].rateBps === -5,
+      undefined,
+      JSON.stringify(headerless)
+    );
+
+    const bad = parseFixingsCsv("date,rate\n2026-01-02,5.3\nyesterday,5.3\n2026-01-05,abc\n2026-01-06,75\n");
+    logTest(
+      "Bad dates and out-of-range rates are reported by line and skipped",
+      bad.fixings.length === 1
+        && bad.errors.map(e => e.line).join(",") === "3,4,5"
+        && bad.errors[0].message === 'Invalid date "yesterday"' && bad.errors[2].message === 'Invalid rate "75"',
+      undefined,
+      JSON.stringify(bad.errors)
+    );
+
+    const noRateColumn = parseFixingsCsv("Effective Date,Volume\n2026-01-02,100\n");
+    logTest(
+      "A header without a rate column is rejected",
+      noRateColumn.fixings.length === 0 && noRateColumn.errors.length === 1 && noRateColumn.errors[0].line === 1
+    );
+
+    const empty = parseFixingsCsv("\n\n");
+    logTest("An empty file yields no fixings and no errors", empty.fixings.length === 0 && empty.errors.length === 0);
+
+    // ===== FLOOR AND CAP =====
+    logTest(
+      "Without bounds the all-in rate is fixing plus spread",
+      JSON.stringify(applyRateBounds({ fixingBps: 430, spreadBps: 300 })) === JSON.stringify({ referenceRateBps: 430, allInRateBps: 730 })
+    );
+    logTest(
+      "The floor applies to the reference rate before the spread",
+      JSON.stringify(applyRateBounds({ fixingBps: 25, spreadBps: 300, floorBps: 100 }))
+        === JSON.stringify({ referenceRateBps: 100, allInRateBps: 400 })
+    );
+    logTest(
+      "A negative fixing is floored at a zero floor",
+      applyRateBounds({ fixingBps: -10, spreadBps: 300, floorBps: 0 }).allInRateBps === 300
+    );
+    logTest(
+      "The cap applies to the all-in rate and leaves the reference rate alone",
+      JSON.stringify(applyRateBounds({ fixingBps: 700, spreadBps: 300, floorBps: 100, capBps: 900 }))
+        === JSON.stringify({ referenceRateBps: 700, allInRateBps: 900 })
+    );
+    logTest(
+      "Null bounds are ignored",
+      applyRateBounds({ fixingBps: 700, spreadBps: 300, floorBps: null, capBps: null }).allInRateBps === 1000
+    );
+
+    // ===== PERIOD RESOLUTION =====
+    const fixings = [
+      { fixingDate: day("2026-01-02"), rateBps: 430 },
+      { fixingDate: day("2026-03-31"), rateBps: 410 },
+      { fixingDate: day("2026-04-01"), rateBps: 405 },
+    ];
+    const resolve = buildFloatingRateResolver(
+      { spreadBps: 275, rateFloorBps: 50, rateCapBps: 700 },
+      [reset("2026-01-01", { fixingDate: day("2025-12-31"), referenceRateBps: 450, spreadBps: 250, allInRateBps: 700 })],
+      fixings
+    );
+
+    const recorded = resolve(day("2026-01-01"));
+    logTest(
+      "A period that has reset uses the recorded reset, not today's spread or fixings",
+      recorded?.allInRateBps === 700 && recorded.spreadBps === 250
+        && recorded.fixingDate.toISOString() === "2025-12-31T00:00:00.000Z",
+      undefined,
+      JSON.stringify(recorded)
+    );
+
+    const onTheDay = resolve(day("2026-04-01"));
+    logTest(
+      "A fixing published on the period start applies to that period",
+      onTheDay?.referenceRateBps === 405 && onTheDay.allInRateBps === 680 && onTheDay.spreadBps === 275,
+      undefined,
+      JSON.stringify(onTheDay)
+    );
+
+    const between = resolve(day("2026-02-01"));
+    logTest(
+      "Otherwise the latest fixing before the period start applies, subject to the cap",
+      between?.fixingDate.toISOString() === "2026-01-02T00:00:00.000Z" && between.allInRateBps === 700,
+      undefined,
+      JSON.stringify(between)
+    );
+
+    const projected = resolve(day("2027-01-01"));
+    logTest(
+      "Future periods are projected flat at the most recent fixing",
+      projected?.referenceRateBps === 405 && projected.fixingDate.toISOString() === "2026-04-01T00:00:00.000Z"
+    );
+
+    logTest("A period before the first fixing has no rate", resolve(day("2025-12-01")) === null);
+
+    const noSpread = buildFloatingRateResolver({ spreadBps: null, rateFloorBps: null, rateCapBps: null }, [], fixings);
+    logTest(
+      "A missing spread resolves to the bare reference rate",
+      noSpread(day("2026-02-01"))?.allInRateBps === 430 && noSpread(day("2026-02-01"))?.spreadBps === 0
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
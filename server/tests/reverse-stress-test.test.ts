@@ -0,0 +1,306 @@
+/**
+ * Reverse Stress Test Tests
+ *
+ * Checks the breaking-point solver against hand-computed LTV limits:
+ * - Maximum NAV decline, single-holding write-down and additional draw
+ * - Cash excluded from declines and the largest holdings solved first
+ * - Covenants already in breach, unaffected by a stress, or not stressable
+ * - Formula covenants and the tightest limit across covenants
+ * - The proposed-facility wrapper used during underwriting
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/reverse-stress-test.test.ts
+ */
+
+import {
+  solveReverseStress,
+  reverseStressProposedFacility,
+  type ReverseStressCovenant,
+  type ReverseStressHolding,
+} from "../services/reverseStressTest";
+import type { CovenantFormulaContext } from "../services/covenantFormula";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+// $200m NAV including $10m cash, $30m drawn of a $50m commitment: 15% LTV
+const context: CovenantFormulaContext = {
+  outstanding_balance: 30_000_000,
+  commitment: 50_000_000,
+  undrawn_commitment: 20_000_000,
+  nav: 200_000_000,
+  holdings_value: 190_000_000,
+  holdings_count: 7,
+  top_holding_value: 60_000_000,
+  top_sector_value: 100_000_000,
+  cash: 10_000_000,
+  accrued_interest: 0,
+  accrued_fees: 0,
+  interest_rate_bps: 850,
+  ltv_ratio: 15,
+};
+
+const holdings: ReverseStressHolding[] = [
+  { companyId: "c-small-1", companyName: "Small One", sector: "Consumer", value: 5_000_000 },
+  { companyId: "c-alpha", companyName: "Alpha", sector: "Technology", value: 60_000_000 },
+  { companyId: "c-beta", companyName: "Beta", sector: "Technology", value: 40_000_000 },
+  { companyId: "c-gamma", companyName: "Gamma", sector: "Healthcare", value: 35_000_000 },
+  { companyId: "c-delta", companyName: "Delta", sector: "Industrials", value: 30_000_000 },
+  { companyId: "c-epsilon", companyName: "Epsilon", sector: "Energy", value: 20_000_000 },
+  { companyId: "c-zero", companyName: "Written Off", sector: "Energy", value: 0 },
+];
+
+// Max 20% LTV, stored in tenths of a percent
+const ltvCovenant: ReverseStressCovenant = {
+  covenantId: "cov-ltv",
+  covenantType: "ltv_ratio",
+  source: "covenant",
+  thresholdValue: 200,
+  thresholdOperator: "less_than_equal",
+  formula: null,
+};
+
+const drawCapacity = 20_000_000;
+
+// The LTV covenant value rounds to a tenth of a percent, so it trips above 20.05%
+const BREACH_LTV = 0.2005;
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Reverse Stress Test Tests                               ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== LTV BREAKING POINTS =====
+    const solved = solveReverseStress({ context, holdings, covenants: [ltvCovenant], drawCapacity });
+    const ltv = solved.covenants[0];
+
+    logTest(
+      "Baseline value and status come from the current LTV",
+      ltv.baselineValue === 150 && ltv.baselineStatus === "compliant" && ltv.stressable
+    );
+
+    const breakingNav = 30_000_000 / BREACH_LTV;
+    const expectedDecline = (1 - breakingNav / 200_000_000) * 100;
+    logTest(
+      "Max NAV decline is where LTV first exceeds the covenant, floored to 0.1%",
+      ltv.maxNavDeclinePercent === Math.floor(expectedDecline * 10) / 10
+        && Math.abs(ltv.breakingNav! - breakingNav) <= 200_000_000 * 0.0001,
+      undefined,
+      `${ltv.maxNavDeclinePercent}% (exact ${expectedDecline.toFixed(3)}%), breaking NAV ${ltv.breakingNav}`
+    );
+
+    const expectedDraw = 200_000_000 * BREACH_LTV - 30_000_000;
+    logTest(
+      "Max additional draw is within a dollar of the breaking balance",
+      Math.abs(ltv.maxAdditionalDraw! - expectedDraw) <= 1,
+      undefined,
+      `${ltv.maxAdditionalDraw}, exact ${expectedDraw}`
+    );
+
+    const writedowns = ltv.maxHoldingWritedowns;
+    logTest(
+      "The five largest holdings are solved, largest first, skipping zero values",
+      writedowns.map(w => w.companyName).join(",") === "Alpha,Beta,Gamma,Delta,Epsilon",
+      undefined,
+      writedowns.map(w => w.companyName).join(", ")
+    );
+
+    const alphaLoss = 200_000_000 - breakingNav;
+    const alpha = writedowns[0];
+    logTest(
+      "A holding large enough to trip the covenant gets its maximum write-down",
+      alpha.maxWritedownPercent === Math.floor(alphaLoss / 60_000_000 * 1000) / 10
+        && Math.abs(alpha.maxWritedownAmount! - alphaLoss) < 60_000_000 * 0.0001,
+      undefined,
+      `${alpha.maxWritedownPercent}% / ${alpha.maxWritedownAmount}, exact loss ${Math.round(alphaLoss)}`
+    );
+    logTest(
+      "Holdings that can be written off entirely without a breach report null",
+      writedowns.slice(1).every(w => w.maxWritedownPercent === null && w.maxWritedownAmount === null)
+    );
+
+    logTest(
+      "Single-covenant totals equal that covenant's limits",
+      solved.maxNavDeclinePercent === ltv.maxNavDeclinePercent && solved.maxAdditionalDraw === ltv.maxAdditionalDraw
+    );
+
+    // ===== EDGE CASES =====
+    const lightlyDrawn = solveReverseStress({
+      context: { ...context, outstanding_balance: 1_000_000 },
+      holdings,
+      covenants: [ltvCovenant],
+      drawCapacity,
+    }).covenants[0];
+    logTest(
+      "Cash is never written down, so a small loan survives the worst decline",
+      lightlyDrawn.maxNavDeclinePercent === null && lightlyDrawn.breakingNav === null
+        && lightlyDrawn.maxAdditionalDraw === null,
+      undefined,
+      `decline ${lightlyDrawn.maxNavDeclinePercent}, draw ${lightlyDrawn.maxAdditionalDraw}`
+    );
+
+    const breached = solveReverseStress({
+      context: { ...context, outstanding_balance: 45_000_000 },
+      holdings,
+      covenants: [ltvCovenant],
+      drawCapacity,
+    }).covenants[0];
+    logTest(
+      "A covenant already in breach has no headroom",
+      breached.baselineStatus === "breach" && breached.maxNavDeclinePercent === 0 && breached.maxAdditionalDraw === 0
+        && breached.maxHoldingWritedowns.every(w => w.maxWritedownPercent === 0)
+    );
+
+    const unstressable = solveReverseStress({
+      context,
+      holdings,
+      covenants: [{ ...ltvCovenant, covenantId: "cov-dscr", covenantType: "debt_service_coverage", thresholdValue: 150 }],
+      drawCapacity,
+    }).covenants[0];
+    logTest(
+      "A non-LTV covenant without a formula is reported but not stressed",
+      !unstressable.stressable && unstressable.baselineValue === null && unstressable.baselineStatus === null
+        && unstressable.maxNavDeclinePercent === null && unstressable.maxHoldingWritedowns.length === 0
+    );
+
+    // ===== FORMULA COVENANTS =====
+    const minimumCash: ReverseStressCovenant = {
+      covenantId: "cov-cash",
+      covenantType: "minimum_liquidity",
+      source: "covenant",
+      thresholdValue: 5,
+      thresholdOperator: "greater_than_equal",
+      formula: "cash / 1000000",
+    };
+    // Holdings at least 5x the balance: trips when holdings_value < 150m
+    const assetCoverage: ReverseStressCovenant = {
+      covenantId: "cov-coverage",
+      covenantType: "asset_coverage",
+      source: "covenant",
+      thresholdValue: 500,
+      thresholdOperator: "greater_than_equal",
+      formula: "holdings_value / outstanding_balance * 100",
+    };
+    const multi = solveReverseStress({ context, holdings, covenants: [ltvCovenant, minimumCash, assetCoverage], drawCapacity });
+    const [, cash, coverage] = multi.covenants;
+
+    logTest(
+      "A formula covenant the stresses don't move has no breaking points",
+      cash.baselineValue === 10 && cash.maxNavDeclinePercent === null && cash.maxAdditionalDraw === null
+        && cash.maxHoldingWritedowns.every(w => w.maxWritedownPercent === null)
+    );
+
+    // holdings_value / balance * 100 rounds below 500 once it is under 499.5
+    const coverageDecline = (190_000_000 - 30_000_000 * 4.995) / 200_000_000 * 100;
+    const coverageDraw = 190_000_000 / 4.995 - 30_000_000;
+    logTest(
+      "Formula covenants are re-evaluated under each stress",
+      coverage.baselineValue === 633
+        && coverage.maxNavDeclinePercent === Math.floor(coverageDecline * 10) / 10
+        && Math.abs(coverage.maxAdditionalDraw! - coverageDraw) <= 1,
+      undefined,
+      `decline ${coverage.maxNavDeclinePercent}% (exact ${coverageDecline.toFixed(3)}%), draw ${coverage.maxAdditionalDraw} (exact ${Math.round(coverageDraw)})`
+    );
+    logTest(
+      "Totals are the tightest limits across covenants",
+      multi.maxNavDeclinePercent === Math.min(ltv.maxNavDeclinePercent!, coverage.maxNavDeclinePercent!)
+        && multi.maxAdditionalDraw === Math.min(ltv.maxAdditionalDraw!, coverage.maxAdditionalDraw!),
+      undefined,
+      `decline ${multi.maxNavDeclinePercent}%, draw ${multi.maxAdditionalDraw}`
+    );
+
+    // Constant until holdings are wiped out, when the division fails
+    const divideByZero = solveReverseStress({
+      context: { ...context, cash: 0, holdings_value: 200_000_000 },
+      holdings,
+      covenants: [{ ...assetCoverage, thresholdValue: 1, formula: "holdings_count + 0 / holdings_value" }],
+      drawCapacity,
+    }).covenants[0];
+    logTest(
+      "A formula that can no longer be evaluated under stress counts as a breach",
+      divideByZero.baselineStatus === "compliant" && divideByZero.maxNavDeclinePercent === 99.9
+        && divideByZero.maxAdditionalDraw === null,
+      undefined,
+      `decline ${divideByZero.maxNavDeclinePercent}`
+    );
+
+    // ===== PROPOSED FACILITY =====
+    const proposed = reverseStressProposedFacility({
+      fundNav: 100_000_000,
+      facilitySize: 10_000_000,
+      maxLtv: 25,
+      largestHoldingPercent: 30,
+    });
+    const proposedLtv = proposed.covenants[0];
+    const proposedDecline = (1 - 10_000_000 / 0.2505 / 100_000_000) * 100;
+    logTest(
+      "Proposed facilities are tested against their max LTV with draws up to NAV",
+      proposedLtv.source === "proposed" && proposedLtv.thresholdValue === 250 && proposed.drawCapacity === 100_000_000
+        && proposed.maxNavDeclinePercent === Math.floor(proposedDecline * 10) / 10
+        && Math.abs(proposed.maxAdditionalDraw! - (100_000_000 * 0.2505 - 10_000_000)) <= 1,
+      undefined,
+      `decline ${proposed.maxNavDeclinePercent}%, draw ${proposed.maxAdditionalDraw}`
+    );
+    logTest(
+      "The proposed largest holding is solved as a single write-down",
+      proposedLtv.maxHoldingWritedowns.length === 1 && proposedLtv.maxHoldingWritedowns[0].value === 30_000_000
+        && proposedLtv.maxHoldingWritedowns[0].maxWritedownPercent === null
+    );
+
+    const withCash = reverseStressProposedFacility({ fundNav: 100_000_000, facilitySize: 10_000_000, maxLtv: 25, cash: 150_000_000 });
+    logTest(
+      "Proposed cash is capped at the fund NAV",
+      withCash.cash === 100_000_000 && withCash.maxNavDeclinePercent === null
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
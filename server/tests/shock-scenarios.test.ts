@@ -0,0 +1,364 @@
+/**
+ * Shock Scenario Tests
+ *
+ * Checks hypothetical shocks propagated through a facility's holdings:
+ * - Sector, geography, named-holding and top-N shocks, compounding and the base shock
+ * - Cash left unshocked and unexplained NAV taking the base shock
+ * - Stressed NAV, LTV and covenant values (LTV, formula and unstressable covenants)
+ * - LTV limits from a covenant or the policy maximum, and breach counting
+ * - Facilities without NAV and the portfolio summary
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/shock-scenarios.test.ts
+ */
+
+import {
+  applyShockScenario,
+  getStandardShockScenarios,
+  summarizeShockScenario,
+  uniformShockScenario,
+  POLICY_MAX_LTV,
+  type FacilityExposure,
+  type HoldingExposure,
+  type ShockScenario,
+} from "../services/shockScenarios";
+import type { CovenantFormulaContext } from "../services/covenantFormula";
+import type { Covenant, Facility, PortfolioCompany } from "@shared/schema";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+function facility(overrides: Partial<Facility> & Pick<Facility, "id" | "outstandingBalance" | "ltvRatio">): Facility {
+  return {
+    prospectId: null,
+    advisorDealId: null,
+    gpUserId: null,
+    relationshipManagerId: null,
+    fundName: `Fund ${overrides.id}`,
+    lenderName: "NAV IQ Capital",
+    principalAmount: 50_000_000,
+    interestRate: 850,
+    rateType: "fixed",
+    referenceRate: "SOFR",
+    spreadBps: null,
+    rateFloorBps: null,
+    rateCapBps: null,
+    pikRateBps: 0,
+    prepaymentPenaltyBps: 0,
+    prepaymentPenaltyUntil: null,
+    maturityDate: new Date("2030-12-31T00:00:00Z"),
+    status: "active",
+    paymentSchedule: "quarterly",
+    dayCountConvention: "ACT/360",
+    amortizationType: "bullet",
+    customAmortization: null,
+    borrowingBaseTerms: null,
+    originationDate: new Date("2025-01-01T00:00:00Z"),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function holding(
+  id: string,
+  value: number,
+  overrides: Partial<PortfolioCompany> = {},
+  isCash = false
+): HoldingExposure {
+  return {
+    company: {
+      id,
+      prospectId: null,
+      facilityId: "fac-a",
+      companyName: id,
+      industry: null,
+      sector: null,
+      geography: null,
+      assetClass: null,
+      isListed: false,
+      investmentDate: null,
+      investmentAmount: null,
+      ownershipPercentage: null,
+      currentValue: value,
+      valuationDate: null,
+      status: "active",
+      exitDate: null,
+      exitValue: null,
+      extractedFrom: null,
+      extractionConfidence: null,
+      metadata: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    },
+    value,
+    isCash,
+  };
+}
+
+function covenant(overrides: Partial<Covenant> & Pick<Covenant, "id" | "covenantType">): Covenant {
+  return {
+    facilityId: "fac-a",
+    thresholdOperator: "less_than_equal",
+    thresholdValue: 0,
+    currentValue: null,
+    status: "compliant",
+    lastChecked: null,
+    nextCheckDate: null,
+    checkFrequency: "quarterly",
+    formula: null,
+    testDates: null,
+    curePeriodDays: 0,
+    maxEquityCures: 0,
+    breachDate: null,
+    cureDeadline: null,
+    cureStatus: null,
+    sourceClauseId: null,
+    breachNotified: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+// $200m NAV: $150m in four holdings, $10m cash and $40m not broken out. $30m drawn: 15% LTV
+const context: CovenantFormulaContext = {
+  outstanding_balance: 30_000_000,
+  commitment: 50_000_000,
+  undrawn_commitment: 20_000_000,
+  nav: 200_000_000,
+  holdings_value: 150_000_000,
+  holdings_count: 4,
+  top_holding_value: 60_000_000,
+  top_sector_value: 60_000_000,
+  cash: 10_000_000,
+  accrued_interest: 0,
+  accrued_fees: 0,
+  interest_rate_bps: 850,
+  ltv_ratio: 15,
+};
+
+const ltvCovenant = covenant({ id: "cov-ltv", covenantType: "ltv_covenant", thresholdValue: 250 });
+const concentration = covenant({
+  id: "cov-concentration",
+  covenantType: "concentration_limit",
+  thresholdValue: 300,
+  formula: "top_holding_value / nav * 1000",
+});
+const liquidity = covenant({
+  id: "cov-liquidity",
+  covenantType: "minimum_liquidity",
+  thresholdOperator: "greater_than_equal",
+  thresholdValue: 10_000_000,
+  currentValue: 12_000_000,
+});
+
+const exposureA: FacilityExposure = {
+  facility: facility({ id: "fac-a", outstandingBalance: 30_000_000, ltvRatio: 15 }),
+  context,
+  holdings: [
+    holding("Alpha", 60_000_000, { sector: "Software", geography: "North America" }),
+    holding("Beta", 40_000_000, { sector: "Healthcare Technology", geography: "Europe" }),
+    holding("Gamma", 30_000_000, { sector: "Industrials", geography: "Western Europe" }),
+    holding("Cash", 10_000_000, { companyName: "Cash and equivalents" }, true),
+    holding("Delta", 20_000_000, { sector: "Consumer", geography: "United States" }),
+  ],
+  covenants: [ltvCovenant, concentration, liquidity].map(c => ({
+    covenant: c,
+    thresholdValue: c.thresholdValue,
+    thresholdOperator: c.thresholdOperator,
+  })),
+};
+
+// No recorded NAV or holdings: NAV is backed out of the 20% LTV
+const exposureB: FacilityExposure = {
+  facility: facility({ id: "fac-b", outstandingBalance: 10_000_000, ltvRatio: 20 }),
+  context: { ...context, nav: 0, holdings_value: 0, cash: 0, outstanding_balance: 10_000_000 },
+  holdings: [],
+  covenants: [],
+};
+
+const exposureC: FacilityExposure = {
+  facility: facility({ id: "fac-c", outstandingBalance: 5_000_000, ltvRatio: 0 }),
+  context: { ...context, nav: 0 },
+  holdings: [],
+  covenants: [],
+};
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Shock Scenario Tests                                    ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== HOLDING SHOCKS =====
+    const tech = getStandardShockScenarios().find(s => s.name === "Tech Drawdown with Concentration Write-down")!;
+    const techA = applyShockScenario(tech, exposureA)!;
+    const losses = new Map(techA.largestLosses.map(h => [h.companyId, h]));
+
+    logTest(
+      "A sector shock and a top-holdings write-down compound",
+      losses.get("Alpha")?.stressedValue === 19_500_000 && losses.get("Alpha")?.shockPercent === -67.5,
+      undefined,
+      JSON.stringify(losses.get("Alpha"))
+    );
+    logTest(
+      "Between equally specific sector keys the first listed applies",
+      losses.get("Beta")?.stressedValue === 14_000_000,
+      undefined,
+      JSON.stringify(losses.get("Beta"))
+    );
+    logTest(
+      "Unshocked holdings and cash keep their value when the scenario has no base shock",
+      !losses.has("Delta") && !losses.has("Cash") && losses.get("Gamma")?.stressedValue === 15_000_000
+    );
+    logTest(
+      "Largest losses are listed biggest first",
+      techA.largestLosses.map(h => h.companyId).join(",") === "Alpha,Beta,Gamma"
+    );
+
+    // ===== NAV, LTV AND COVENANTS =====
+    logTest(
+      "Stressed NAV falls by the holdings' losses",
+      techA.baselineNav === 200_000_000 && techA.stressedNav === 118_500_000 && techA.navChangePercent === -40.7,
+      undefined,
+      `${techA.stressedNav}, ${techA.navChangePercent}%`
+    );
+    logTest(
+      "LTV is stressed against the reduced NAV, to one decimal",
+      techA.baselineLtv === 15 && techA.stressedLtv === 25.3
+    );
+
+    const [ltvResult, concentrationResult, liquidityResult] = techA.covenants;
+    logTest(
+      "The LTV covenant is tested in tenths of a percent and breaches",
+      ltvResult.baselineValue === 150 && ltvResult.baselineStatus === "compliant"
+        && ltvResult.stressedValue === 253 && ltvResult.stressedStatus === "breach",
+      undefined,
+      JSON.stringify(ltvResult)
+    );
+    logTest(
+      "Formula covenants see the stressed holdings: written-down top holdings ease concentration",
+      concentrationResult.baselineValue === 300 && concentrationResult.baselineStatus === "warning"
+        && concentrationResult.stressedValue === 169 && concentrationResult.stressedStatus === "compliant",
+      undefined,
+      JSON.stringify(concentrationResult)
+    );
+    logTest(
+      "Covenants without a data source keep their baseline and are not stressed",
+      liquidityResult.baselineValue === 12_000_000 && liquidityResult.stressedValue === null && liquidityResult.stressedStatus === null
+    );
+    logTest(
+      "The LTV covenant sets the limit and its breach is counted once",
+      techA.ltvLimit === 25 && techA.ltvLimitSource === "covenant" && techA.ltvBreach && techA.breachCount === 1
+    );
+
+    // ===== BASE SHOCK AND UNEXPLAINED NAV =====
+    const europe = getStandardShockScenarios().find(s => s.name === "European Recession")!;
+    const europeA = applyShockScenario(europe, exposureA)!;
+    logTest(
+      "Geography shocks match within longer labels; other holdings and unexplained NAV take the base shock",
+      europeA.stressedNav === 200_000_000 - 3_000_000 - 10_000_000 - 7_500_000 - 1_000_000 - 2_000_000,
+      undefined,
+      String(europeA.stressedNav)
+    );
+
+    const named: ShockScenario = { name: "Delta fraud", holdingShocks: [{ companyName: "  DELTA ", shock: -80 }] };
+    const namedA = applyShockScenario(named, exposureA)!;
+    logTest(
+      "Named holding shocks match the company name loosely",
+      namedA.largestLosses.length === 1 && namedA.largestLosses[0].stressedValue === 4_000_000
+    );
+
+    const wipeout = applyShockScenario(uniformShockScenario("Beyond total loss", -150), exposureA)!;
+    logTest(
+      "Shocks beyond -100% floor holdings and unexplained NAV at zero, leaving cash",
+      wipeout.stressedNav === 10_000_000 && wipeout.largestLosses.every(h => h.stressedValue === 0),
+      undefined,
+      String(wipeout.stressedNav)
+    );
+
+    // ===== FACILITIES WITHOUT NAV =====
+    const uniformB = applyShockScenario(uniformShockScenario("Down 20", -20), exposureB)!;
+    logTest(
+      "Without NAV or holdings the base shock applies to NAV backed out of the LTV",
+      uniformB.baselineNav === 50_000_000 && uniformB.stressedNav === 40_000_000 && uniformB.stressedLtv === 25
+        && uniformB.holdingsCount === 0,
+      undefined,
+      JSON.stringify({ baseline: uniformB.baselineNav, stressed: uniformB.stressedNav, ltv: uniformB.stressedLtv })
+    );
+    logTest(
+      "Without an LTV covenant the policy maximum applies and counts as a breach when exceeded",
+      uniformB.ltvLimit === POLICY_MAX_LTV && uniformB.ltvLimitSource === "policy" && !uniformB.ltvBreach
+        && applyShockScenario(uniformShockScenario("Down 75", -75), exposureB)!.breachCount === 1
+    );
+    logTest("A facility with no NAV and no LTV is skipped", applyShockScenario(tech, exposureC) === null);
+
+    // ===== PORTFOLIO SUMMARY =====
+    const summary = summarizeShockScenario(tech, [exposureB, exposureC, exposureA]);
+    logTest(
+      "The summary covers facilities with NAV, most breaches first",
+      summary.facilities.map(f => f.facilityId).join(",") === "fac-a,fac-b"
+        && summary.totalExposure === 40_000_000 && summary.facilitiesAtRisk === 1 && summary.breachCount === 1,
+      undefined,
+      summary.facilities.map(f => `${f.facilityId}:${f.breachCount}`).join(", ")
+    );
+    logTest(
+      "Portfolio NAV decline and average stressed LTV",
+      summary.baselineNav === 250_000_000 && summary.stressedNav === 168_500_000
+        && summary.navDecline === 32.6 && summary.avgLtv === 22.7,
+      undefined,
+      JSON.stringify({ decline: summary.navDecline, avgLtv: summary.avgLtv })
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
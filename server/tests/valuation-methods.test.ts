@@ -0,0 +1,282 @@
+/**
+ * Valuation Methods Tests
+ *
+ * Checks the deterministic valuation toolkit against hand-computed values:
+ * - EV/EBITDA and EV/Revenue comparables bridged to the fund's equity stake
+ * - Discounted cash flow, given or projected from EBITDA, and its range
+ * - Last round and cost weights that depend on how recent they are
+ * - The reported fair value fallback and the weighted blend
+ * - Sector matching for the multiple tables
+ *
+ * Run: tsx server/tests/valuation-methods.test.ts
+ */
+
+import {
+  runValuationMethods,
+  discountedCashFlowValue,
+  resolveSectorMultiples,
+  type BlendedValuation,
+  type ValuationMethod,
+} from "../services/valuationMethods";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+const asOf = new Date(Date.UTC(2026, 5, 30));
+const monthsAgo = (months: number) => new Date(Date.UTC(2026, 5 - months, 30));
+
+const method = (valuation: BlendedValuation, name: ValuationMethod) => valuation.methods.find(m => m.method === name);
+const range = (valuation?: { low: number; mid: number; high: number }) =>
+  valuation ? `${valuation.low}/${valuation.mid}/${valuation.high}` : "missing";
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Valuation Methods Tests                                 ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== COMPARABLES =====
+    // Software: EV/EBITDA 14 / 18 / 24x, EV/Revenue 4 / 6 / 9x; $20m net debt, 40% stake
+    const comps = runValuationMethods({
+      sector: "Enterprise Software",
+      ebitda: 10_000_000,
+      revenue: 50_000_000,
+      netDebt: 20_000_000,
+      ownershipPercent: 40,
+      asOf,
+    });
+    const ebitdaComps = method(comps, "ev_ebitda");
+    const revenueComps = method(comps, "ev_revenue");
+
+    logTest(
+      "EV/EBITDA: sector multiples less net debt, times ownership",
+      range(ebitdaComps) === "48000000/64000000/88000000" && ebitdaComps?.inputs.segment === "software",
+      undefined,
+      range(ebitdaComps)
+    );
+    logTest(
+      "EV/Revenue: sector multiples less net debt, times ownership",
+      range(revenueComps) === "72000000/112000000/172000000",
+      undefined,
+      range(revenueComps)
+    );
+    logTest(
+      "Weights are renormalised over the methods that apply",
+      ebitdaComps?.weight === 72.7 && revenueComps?.weight === 27.3
+    );
+    logTest(
+      "The blend is the weighted average of each end of the range",
+      comps.mid === Math.round((64_000_000 * 40 + 112_000_000 * 15) / 55)
+        && comps.low === Math.round((48_000_000 * 40 + 72_000_000 * 15) / 55),
+      undefined,
+      range(comps)
+    );
+
+    const userMultiple = runValuationMethods({ sector: "software", ebitda: 10_000_000, evEbitdaMultiple: 20, asOf });
+    const scaled = method(userMultiple, "ev_ebitda");
+    logTest(
+      "A user multiple replaces the median and keeps the sector spread around it",
+      scaled?.mid === 200_000_000 && scaled?.low === Math.round(10_000_000 * 14 * 20 / 18)
+        && scaled?.high === Math.round(10_000_000 * 24 * 20 / 18),
+      undefined,
+      range(scaled)
+    );
+
+    const lossMaking = runValuationMethods({ sector: "software", ebitda: -2_000_000, revenue: 50_000_000, asOf });
+    logTest(
+      "Negative EBITDA drops EV/EBITDA and revenue comps take its weight",
+      lossMaking.methods.length === 1 && method(lossMaking, "ev_revenue")?.weight === 100
+        && method(lossMaking, "ev_revenue")!.notes[0].includes("EBITDA is not positive")
+    );
+
+    const underwater = runValuationMethods({ sector: "energy", ebitda: 1_000_000, netDebt: 50_000_000, asOf });
+    logTest(
+      "Net debt above enterprise value floors equity at zero",
+      range(method(underwater, "ev_ebitda")) === "0/0/0"
+    );
+
+    // ===== DCF =====
+    logTest(
+      "DCF discounts each year and a Gordon growth terminal value",
+      Math.abs(discountedCashFlowValue([100], 10, 0) - 1000) < 1e-9
+        && Math.abs(discountedCashFlowValue([100, 110], 10, 2) - (100 / 1.1 + 110 / 1.21 + 110 * 1.02 / 0.08 / 1.21)) < 1e-9
+    );
+
+    let rejected = false;
+    try {
+      discountedCashFlowValue([100], 5, 5);
+    } catch {
+      rejected = true;
+    }
+    logTest("DCF rejects a WACC at or below terminal growth", rejected);
+
+    const givenFlows = [5_000_000, 6_000_000, 7_000_000];
+    const dcf = method(runValuationMethods({ dcf: { wacc: 12, terminalGrowth: 3, projectedCashFlows: givenFlows }, asOf }), "dcf");
+    logTest(
+      "DCF range flexes WACC by a point and growth by half a point",
+      dcf?.mid === Math.round(discountedCashFlowValue(givenFlows, 12, 3))
+        && dcf?.low === Math.round(discountedCashFlowValue(givenFlows, 13, 2.5))
+        && dcf?.high === Math.round(discountedCashFlowValue(givenFlows, 11, 3.5)),
+      undefined,
+      range(dcf)
+    );
+
+    const projected = method(runValuationMethods({
+      ebitda: 10_000_000,
+      revenueGrowthRate: 10,
+      dcf: { wacc: 12, terminalGrowth: 3 },
+      asOf,
+    }), "dcf");
+    const expectedFlows = [1, 2, 3, 4, 5].map(year => 5_000_000 * Math.pow(1.1, year));
+    logTest(
+      "Without cash flows, five years are projected from half of EBITDA at the growth rate",
+      projected?.mid === Math.round(discountedCashFlowValue(expectedFlows, 12, 3)) && projected?.inputs.years === 5,
+      undefined,
+      range(projected)
+    );
+
+    const tight = method(runValuationMethods({ dcf: { wacc: 6, terminalGrowth: 5, projectedCashFlows: givenFlows }, asOf }), "dcf");
+    logTest(
+      "The high case keeps growth half a point under its WACC",
+      tight?.high === Math.round(discountedCashFlowValue(givenFlows, 5, 4.5))
+    );
+
+    logTest(
+      "DCF is skipped with no cash flows and no positive EBITDA",
+      !method(runValuationMethods({ ebitda: -1, dcf: { wacc: 12, terminalGrowth: 3 }, asOf }), "dcf")
+    );
+
+    // ===== ROUNDS, COST AND FALLBACK =====
+    const recentRound = runValuationMethods({
+      ebitda: 10_000_000,
+      netDebt: 20_000_000,
+      ownershipPercent: 25,
+      lastRound: { postMoneyValuation: 400_000_000, date: monthsAgo(6) },
+      asOf,
+    });
+    const round = method(recentRound, "last_round");
+    logTest(
+      "A recent round is equity: scaled by ownership, not net debt, with a 10% range",
+      range(round) === "90000000/100000000/110000000",
+      undefined,
+      range(round)
+    );
+    logTest(
+      "A round in the last 12 months takes at least 30 weight",
+      round?.weight === Math.round(30 / 70 * 1000) / 10
+    );
+
+    const oldRound = method(runValuationMethods({
+      lastRound: { postMoneyValuation: 400_000_000, date: monthsAgo(24) },
+      ebitda: 10_000_000,
+      asOf,
+    }), "last_round");
+    logTest(
+      "An older round widens to 20% and keeps its default weight",
+      range(oldRound) === "320000000/400000000/480000000" && oldRound?.weight === 20
+    );
+
+    const newInvestment = runValuationMethods({
+      ebitda: 10_000_000,
+      cost: { amount: 50_000_000, investmentDate: monthsAgo(3) },
+      asOf,
+    });
+    const oldInvestment = runValuationMethods({
+      ebitda: 10_000_000,
+      cost: { amount: 50_000_000, investmentDate: monthsAgo(30) },
+      asOf,
+    });
+    logTest(
+      "Cost weighs 20 in the first year after investment, 5 after",
+      method(newInvestment, "cost")?.weight === Math.round(20 / 60 * 1000) / 10
+        && method(oldInvestment, "cost")?.weight === Math.round(5 / 45 * 1000) / 10
+        && range(method(newInvestment, "cost")) === "45000000/50000000/55000000"
+    );
+
+    const fallback = runValuationMethods({ cost: { amount: 10_000_000 }, reportedFairValue: 15_000_000, asOf });
+    logTest(
+      "With only cost, the last reported fair value joins the blend",
+      method(fallback, "reported_fair_value")?.mid === 15_000_000 && method(fallback, "reported_fair_value")?.weight === 92.3
+        && fallback.mid === Math.round((10_000_000 * 5 + 15_000_000 * 60) / 65),
+      undefined,
+      range(fallback)
+    );
+    logTest(
+      "Reported fair value is ignored once comparables apply",
+      !method(runValuationMethods({ revenue: 10_000_000, reportedFairValue: 15_000_000, asOf }), "reported_fair_value")
+    );
+
+    const custom = runValuationMethods({
+      ebitda: 10_000_000,
+      revenue: 50_000_000,
+      methodWeights: { ev_ebitda: 0, ev_revenue: 10 },
+      asOf,
+    });
+    logTest(
+      "Method weights can be overridden",
+      method(custom, "ev_ebitda")?.weight === 0 && method(custom, "ev_revenue")?.weight === 100
+        && custom.mid === method(custom, "ev_revenue")?.mid
+    );
+
+    const empty = runValuationMethods({ asOf });
+    logTest(
+      "No applicable method values at zero",
+      empty.methods.length === 0 && range(empty) === "0/0/0"
+    );
+
+    // ===== SECTORS =====
+    logTest(
+      "Sectors match the longest table entry, then the industry, then the default",
+      resolveSectorMultiples("Healthcare_Services").segment === "healthcare"
+        && resolveSectorMultiples(null, "B2B Software").segment === "software"
+        && resolveSectorMultiples("Widgets", "Gadgets").segment === "default"
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
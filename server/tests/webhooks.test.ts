@@ -0,0 +1,159 @@
+/**
+ * Webhook Tests
+ *
+ * Checks the pieces of outbound webhooks a receiving client relies on:
+ * - Signatures a client can verify from the secret, timestamp and raw body
+ * - Signatures that change with the secret, timestamp or any byte of the body
+ * - Webhook secret format
+ * - Event types and the API scope each one requires
+ *
+ * Pure functions only; DATABASE_URL must be set for the module import but no
+ * queries are made.
+ *
+ * Run: tsx server/tests/webhooks.test.ts
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import {
+  generateWebhookSecret,
+  isWebhookEventType,
+  signWebhookPayload,
+  WEBHOOK_EVENT_SCOPES,
+  WEBHOOK_EVENT_TYPES,
+} from "../services/webhooks";
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+  details?: string;
+}
+
+const results: TestResult[] = [];
+
+function logTest(name: string, passed: boolean, error?: string, details?: string) {
+  results.push({ name, passed, error, details });
+  const emoji = passed ? "✓" : "✗";
+  const color = passed ? "\x1b[32m" : "\x1b[31m";
+  console.log(`${color}${emoji}\x1b[0m ${name}`);
+  if (error) console.log(`  Error: ${error}`);
+  if (details) console.log(`  Details: ${details}`);
+}
+
+// What a client does with the X-AlphaNAV-Signature header, as documented in the service
+function clientVerifies(secret: string, header: string, rawBody: string): boolean {
+  const parts = Object.fromEntries(header.split(",").map(part => part.split("=", 2) as [string, string]));
+  const expected = createHmac("sha256", secret).update(`${parts.t}.${rawBody}`).digest();
+  const received = Buffer.from(parts.v1 ?? "", "hex");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+const secret = "whsec_0f1e2d3c4b5a69788796a5b4c3d2e1f00f1e2d3c4b5a6978";
+const timestamp = 1_780_000_000;
+const body = JSON.stringify({
+  id: "evt_1",
+  type: "covenant.breached",
+  data: { facilityId: "facility-1", covenantType: "ltv_covenant", currentValue: 275 },
+});
+
+async function runTests() {
+  console.log("\n╔══════════════════════════════════════════════════════════╗");
+  console.log("║  Webhook Tests                                           ║");
+  console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+  try {
+    // ===== SIGNATURES =====
+    const signature = signWebhookPayload(secret, timestamp, body);
+    const header = `t=${timestamp},v1=${signature}`;
+
+    logTest(
+      "The signature is a hex SHA-256 HMAC",
+      /^[0-9a-f]{64}$/.test(signature),
+      undefined,
+      signature
+    );
+    logTest(
+      "A client holding the secret verifies the header against the raw body",
+      clientVerifies(secret, header, body)
+    );
+    logTest(
+      "Signing is deterministic for the same secret, timestamp and body",
+      signWebhookPayload(secret, timestamp, body) === signature
+    );
+    logTest(
+      "A different secret does not verify",
+      !clientVerifies(generateWebhookSecret(), header, body)
+        && signWebhookPayload(`${secret}x`, timestamp, body) !== signature
+    );
+    logTest(
+      "The timestamp is signed, so a replayed body with a fresh timestamp does not verify",
+      !clientVerifies(secret, `t=${timestamp + 300},v1=${signature}`, body)
+    );
+    logTest(
+      "Any change to the body breaks the signature, including re-serialised JSON",
+      !clientVerifies(secret, header, body.replace("275", "265"))
+        && !clientVerifies(secret, header, JSON.stringify(JSON.parse(body), null, 2))
+    );
+    logTest(
+      "Non-ASCII bodies are signed as UTF-8",
+      clientVerifies(secret, `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, '{"fund":"Fonds Équité €"}')}`, '{"fund":"Fonds Équité €"}')
+    );
+
+    // ===== SECRETS =====
+    const generated = generateWebhookSecret();
+    logTest(
+      "Webhook secrets are prefixed and carry 24 random bytes",
+      /^whsec_[0-9a-f]{48}$/.test(generated) && generated !== generateWebhookSecret(),
+      undefined,
+      generated
+    );
+
+    // ===== EVENT TYPES =====
+    logTest(
+      "Every event type maps to a read scope",
+      WEBHOOK_EVENT_TYPES.length === Object.keys(WEBHOOK_EVENT_SCOPES).length
+        && WEBHOOK_EVENT_TYPES.every(type => WEBHOOK_EVENT_SCOPES[type].startsWith("read:"))
+    );
+    logTest(
+      "Covenant breaches need the covenants scope",
+      WEBHOOK_EVENT_SCOPES["covenant.breached"] === "read:covenants"
+    );
+    logTest(
+      "Only known event types are accepted",
+      isWebhookEventType("draw_request.approved") && !isWebhookEventType("draw_request.rejected")
+        && !isWebhookEventType("toString") && !isWebhookEventType("")
+    );
+
+    // ===== SUMMARY =====
+    console.log("\n╔══════════════════════════════════════════════════════════╗");
+    console.log("║  Test Summary                                            ║");
+    console.log("╚══════════════════════════════════════════════════════════╝\n");
+
+    const totalTests = results.length;
+    const passedTests = results.filter(r => r.passed).length;
+    const failedTests = totalTests - passedTests;
+
+    console.log(`Total Tests: ${totalTests}`);
+    console.log(`\x1b[32mPassed: ${passedTests}\x1b[0m`);
+    if (failedTests > 0) {
+      console.log(`\x1b[31mFailed: ${failedTests}\x1b[0m\n`);
+
+      console.log("Failed Tests:");
+      results.filter(r => !r.passed).forEach(r => {
+        console.log(`  - ${r.name}`);
+        if (r.error) console.log(`    ${r.error}`);
+      });
+    }
+
+    console.log("\n");
+    process.exit(failedTests > 0 ? 1 : 0);
+
+  } catch (error) {
+    console.error("\n❌ Test execution failed:");
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+// Run tests
+runTests();
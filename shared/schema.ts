@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, integer, boolean, index, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, integer, boolean, index, uniqueIndex, numeric } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -262,6 +262,8 @@ export const portfolioCompanies = pgTable("portfolio_companies", {
   industry: text("industry"),
   sector: text("sector"),
   geography: text("geography"),
+  assetClass: text("asset_class"), // buyout, growth, venture, credit, real_assets, secondaries, cash
+  isListed: boolean("is_listed").notNull().default(false), // Publicly traded; usually ineligible for the borrowing base
   investmentDate: timestamp("investment_date"),
   investmentAmount: integer("investment_amount"),
   ownershipPercentage: numeric("ownership_percentage", { precision: 5, scale: 2 }),
@@ -299,6 +301,9 @@ export const portfolioHoldings = pgTable("portfolio_holdings", {
   unrealizedGain: integer("unrealized_gain"),
   percentageOfNAV: numeric("percentage_of_nav", { precision: 5, scale: 2 }),
   source: text("source"), // quarterly-report, valuation-update, etc
+  basis: text("basis").notNull().default("gp_reported"), // gp_reported, model
+  valuationDetails: jsonb("valuation_details"), // Model marks: methods, weights and range behind the value
+  createdBy: varchar("created_by"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => [
   index("idx_portfolio_holdings_company_id").on(table.companyId),
@@ -345,6 +350,8 @@ export const creditDocuments = pgTable("credit_documents", {
   facilityId: varchar("facility_id"),
   documentId: varchar("document_id"), // Link to uploaded_documents
   documentType: text("document_type").notNull(), // loan_agreement, term_sheet, credit_agreement, etc
+  previousVersionId: varchar("previous_version_id"), // Earlier draft/version of the same agreement
+  versionLabel: text("version_label"), // e.g. "v3", "Execution version"
   parties: jsonb("parties"), // Lender, borrower, guarantors
   effectiveDate: timestamp("effective_date"),
   maturityDate: timestamp("maturity_date"),
@@ -400,6 +407,11 @@ export const clauseOccurrences = pgTable("clause_occurrences", {
   pageNumber: integer("page_number"),
   sectionNumber: text("section_number"),
   confidence: integer("confidence"),
+  reviewStatus: text("review_status").notNull().default("pending"), // 'pending', 'promoted', 'dismissed'
+  covenantId: varchar("covenant_id"), // Monitored covenant created from this clause
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => [
   index("idx_clause_occurrences_credit_document_id").on(table.creditDocumentId),
@@ -562,15 +574,28 @@ export const facilities = pgTable("facilities", {
   prospectId: varchar("prospect_id"),
   advisorDealId: varchar("advisor_deal_id"),
   gpUserId: varchar("gp_user_id"), // Links facility to the GP user who owns it
+  relationshipManagerId: varchar("relationship_manager_id"), // Operations user who owns the relationship; second escalation step for unread alerts
   fundName: text("fund_name").notNull(),
   lenderName: text("lender_name").notNull().default("NAV IQ Capital"),
   principalAmount: integer("principal_amount").notNull(),
   outstandingBalance: integer("outstanding_balance").notNull(),
-  interestRate: integer("interest_rate").notNull(), // Stored as basis points (850 = 8.50%)
+  interestRate: integer("interest_rate").notNull(), // Stored as basis points (850 = 8.50%); all-in rate currently in force for floating facilities
+  rateType: text("rate_type").notNull().default("fixed"), // 'fixed', 'floating'
+  referenceRate: text("reference_rate").notNull().default("SOFR"), // Benchmark for floating facilities
+  spreadBps: integer("spread_bps"), // Margin over the reference rate (floating only)
+  rateFloorBps: integer("rate_floor_bps"), // Minimum reference rate (floating only)
+  rateCapBps: integer("rate_cap_bps"), // Maximum all-in rate (floating only)
+  pikRateBps: integer("pik_rate_bps").notNull().default(0), // PIK interest accrued daily and capitalised on payment dates
+  prepaymentPenaltyBps: integer("prepayment_penalty_bps").notNull().default(0), // Charged on principal repaid before prepaymentPenaltyUntil
+  prepaymentPenaltyUntil: timestamp("prepayment_penalty_until"),
   ltvRatio: integer("ltv_ratio").notNull(), // Stored as percentage (15 = 15%)
   maturityDate: timestamp("maturity_date").notNull(),
   status: text("status").notNull().default("active"), // 'active', 'prepaid', 'defaulted', 'matured'
   paymentSchedule: text("payment_schedule").notNull().default("quarterly"), // 'monthly', 'quarterly', 'semi-annual', 'annual'
+  dayCountConvention: text("day_count_convention").notNull().default("ACT/360"), // 'ACT/360', '30/360', 'ACT/365'
+  amortizationType: text("amortization_type").notNull().default("bullet"), // 'bullet', 'straight_line', 'custom'
+  customAmortization: jsonb("custom_amortization"), // [{date, amount}] principal repayments when amortizationType is 'custom'
+  borrowingBaseTerms: jsonb("borrowing_base_terms"), // Eligibility, advance rates and concentration caps from the term sheet; null uses defaults
   originationDate: timestamp("origination_date").notNull().defaultNow(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -602,6 +627,14 @@ export const covenants = pgTable("covenants", {
   lastChecked: timestamp("last_checked"),
   nextCheckDate: timestamp("next_check_date"),
   checkFrequency: text("check_frequency").notNull().default("quarterly"), // 'monthly', 'quarterly', 'annual'
+  formula: text("formula"), // Computes currentValue when set, e.g. 'outstanding_balance / nav * 1000'
+  testDates: jsonb("test_dates"), // Recurring test dates as 'MM-DD' (e.g. quarter ends); overrides checkFrequency
+  curePeriodDays: integer("cure_period_days").notNull().default(0),
+  maxEquityCures: integer("max_equity_cures").notNull().default(0), // Over the life of the facility
+  breachDate: timestamp("breach_date"),
+  cureDeadline: timestamp("cure_deadline"),
+  cureStatus: text("cure_status"), // 'in_cure', 'cured', 'equity_cured', 'cure_failed'
+  sourceClauseId: varchar("source_clause_id"), // Clause occurrence this covenant was promoted from
   breachNotified: boolean("breach_notified").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -619,6 +652,107 @@ export const insertCovenantSchema = createInsertSchema(covenants).omit({
 export type InsertCovenant = z.infer<typeof insertCovenantSchema>;
 export type Covenant = typeof covenants.$inferSelect;
 
+// Equity cures (sponsor equity contributed to cure a covenant breach)
+// The amount counts towards NAV and cash in the covenant's formula until the next test date
+export const covenantEquityCures = pgTable("covenant_equity_cures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  covenantId: varchar("covenant_id").notNull(),
+  facilityId: varchar("facility_id").notNull(),
+  amount: integer("amount").notNull(),
+  cureDate: timestamp("cure_date").notNull(),
+  appliesUntil: timestamp("applies_until").notNull(), // Next test date after the cure
+  curedValue: integer("cured_value"), // Covenant value with the cure applied
+  notes: text("notes"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_covenant_equity_cures_covenant_id").on(table.covenantId),
+]);
+
+export const insertCovenantEquityCureSchema = createInsertSchema(covenantEquityCures).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCovenantEquityCure = z.infer<typeof insertCovenantEquityCureSchema>;
+export type CovenantEquityCure = typeof covenantEquityCures.$inferSelect;
+
+// Covenant waivers (lender consent to a breach, or an extended cure period, until an expiry date)
+export const covenantWaivers = pgTable("covenant_waivers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  covenantId: varchar("covenant_id").notNull(),
+  facilityId: varchar("facility_id").notNull(),
+  waiverType: text("waiver_type").notNull().default("waiver"), // 'waiver', 'cure_extension'
+  status: text("status").notNull().default("requested"), // 'requested', 'approved', 'rejected', 'withdrawn'
+  reason: text("reason").notNull(),
+  effectiveDate: timestamp("effective_date").notNull(),
+  expiryDate: timestamp("expiry_date").notNull(),
+  documentReference: text("document_reference"), // Signed waiver letter
+  requestedBy: varchar("requested_by").notNull(),
+  requestedAt: timestamp("requested_at").notNull().defaultNow(),
+  decidedBy: varchar("decided_by"),
+  decidedAt: timestamp("decided_at"),
+  decisionComments: text("decision_comments"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_covenant_waivers_covenant_status").on(table.covenantId, table.status),
+]);
+
+export const insertCovenantWaiverSchema = createInsertSchema(covenantWaivers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertCovenantWaiver = z.infer<typeof insertCovenantWaiverSchema>;
+export type CovenantWaiver = typeof covenantWaivers.$inferSelect;
+
+// Covenant amendments (threshold in force from an effective date, optionally until an end date)
+export const covenantAmendments = pgTable("covenant_amendments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  covenantId: varchar("covenant_id").notNull(),
+  facilityId: varchar("facility_id").notNull(),
+  thresholdValue: integer("threshold_value").notNull(),
+  thresholdOperator: text("threshold_operator"), // Unchanged when null
+  effectiveDate: timestamp("effective_date").notNull(),
+  endDate: timestamp("end_date"), // Temporary reset; the prior threshold resumes after it
+  reason: text("reason").notNull(),
+  documentReference: text("document_reference"), // Amendment agreement
+  createdBy: varchar("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_covenant_amendments_covenant_effective").on(table.covenantId, table.effectiveDate),
+]);
+
+export const insertCovenantAmendmentSchema = createInsertSchema(covenantAmendments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCovenantAmendment = z.infer<typeof insertCovenantAmendmentSchema>;
+export type CovenantAmendment = typeof covenantAmendments.$inferSelect;
+
+// Covenant test history (one row per check, with the threshold in force on the test date)
+export const covenantTests = pgTable("covenant_tests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  covenantId: varchar("covenant_id").notNull(),
+  facilityId: varchar("facility_id").notNull(),
+  testDate: timestamp("test_date").notNull(),
+  value: integer("value").notNull(),
+  thresholdValue: integer("threshold_value").notNull(),
+  thresholdOperator: text("threshold_operator").notNull(),
+  status: text("status").notNull(), // 'compliant', 'warning', 'breach'
+  amendmentId: varchar("amendment_id"), // Amendment that set the threshold, if any
+  waiverId: varchar("waiver_id"), // Approved waiver in force, if any
+  notificationSuppressed: boolean("notification_suppressed").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_covenant_tests_covenant_date").on(table.covenantId, table.testDate),
+]);
+
+export type CovenantTest = typeof covenantTests.$inferSelect;
+
 // ML Breach Predictions - predictive model for covenant breaches
 export const breachPredictions = pgTable("breach_predictions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -629,6 +763,7 @@ export const breachPredictions = pgTable("breach_predictions", {
   breachProbability: numeric("breach_probability", { precision: 5, scale: 2 }).notNull(), // 0.00 to 100.00
   riskScore: integer("risk_score").notNull(), // 0-100
   contributingFactors: jsonb("contributing_factors"), // Factors driving the prediction
+  features: jsonb("features"), // Feature vector used by the model (becomes training data once resolved)
   modelVersion: text("model_version").notNull(),
   modelConfidence: numeric("model_confidence", { precision: 5, scale: 2 }), // Model's self-assessed confidence
   actualBreachOccurred: boolean("actual_breach_occurred"), // True outcome for model training
@@ -707,8 +842,12 @@ export const cashFlows = pgTable("cash_flows", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   facilityId: varchar("facility_id").notNull(),
   dueDate: timestamp("due_date").notNull(),
+  periodStart: timestamp("period_start"), // Interest accrual period (set for generated schedules)
+  periodEnd: timestamp("period_end"),
   principal: integer("principal").notNull(),
   interest: integer("interest").notNull(),
+  interestRateBps: integer("interest_rate_bps"), // All-in rate the interest was accrued at
+  referenceRateBps: integer("reference_rate_bps"), // Benchmark fixing in force (floating facilities)
   totalDue: integer("total_due").notNull(),
   paidAmount: integer("paid_amount").notNull().default(0),
   paidDate: timestamp("paid_date"),
@@ -729,17 +868,184 @@ export const insertCashFlowSchema = createInsertSchema(cashFlows).omit({
 export type InsertCashFlow = z.infer<typeof insertCashFlowSchema>;
 export type CashFlow = typeof cashFlows.$inferSelect;
 
+// Facility accrual ledger (daily interest accrual, PIK, fees and payments)
+// Each entry records the change it made and the running balances after it
+export const facilityLedgerEntries = pgTable("facility_ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  facilityId: varchar("facility_id").notNull(),
+  entryDate: timestamp("entry_date").notNull(), // Accrual day, or effective date of the event
+  entryType: text("entry_type").notNull(), // 'opening_balance', 'interest_accrual', 'pik_capitalization', 'fee', 'payment', 'draw', 'balance_adjustment'
+  description: text("description"),
+  rateBps: integer("rate_bps"), // Cash interest rate applied (accrual entries)
+  principalDelta: integer("principal_delta").notNull().default(0),
+  interestDelta: integer("interest_delta").notNull().default(0),
+  pikDelta: integer("pik_delta").notNull().default(0),
+  feesDelta: integer("fees_delta").notNull().default(0),
+  principalBalance: integer("principal_balance").notNull(),
+  accruedInterest: integer("accrued_interest").notNull(),
+  accruedPik: integer("accrued_pik").notNull(),
+  accruedFees: integer("accrued_fees").notNull(),
+  relatedEntityType: text("related_entity_type"), // 'cash_flow', 'draw_request'
+  relatedEntityId: varchar("related_entity_id"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_facility_ledger_facility_date").on(table.facilityId, table.entryDate),
+]);
+
+export const insertFacilityLedgerEntrySchema = createInsertSchema(facilityLedgerEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertFacilityLedgerEntry = z.infer<typeof insertFacilityLedgerEntrySchema>;
+export type FacilityLedgerEntry = typeof facilityLedgerEntries.$inferSelect;
+
+// Facility NAV history (collateral NAV observations used to recompute LTV)
+export const facilityNavHistory = pgTable("facility_nav_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  facilityId: varchar("facility_id").notNull(),
+  asOfDate: timestamp("as_of_date").notNull(),
+  navValue: integer("nav_value").notNull(),
+  source: text("source").notNull(), // 'fund_admin_sync', 'manual', 'valuation_model'
+  sourceReference: text("source_reference"), // Statement file name, sync log or valuation run
+  notes: text("notes"),
+  ltvRatio: integer("ltv_ratio"), // LTV computed when this NAV was recorded (percent)
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_facility_nav_history_facility_date").on(table.facilityId, table.asOfDate),
+]);
+
+export const insertFacilityNavHistorySchema = createInsertSchema(facilityNavHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertFacilityNavHistory = z.infer<typeof insertFacilityNavHistorySchema>;
+export type FacilityNavHistory = typeof facilityNavHistory.$inferSelect;
+
+// Borrowing base certificates issued per facility per reporting period
+export const borrowingBaseCertificates = pgTable("borrowing_base_certificates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  facilityId: varchar("facility_id").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  grossNav: integer("gross_nav").notNull(),
+  ineligibleValue: integer("ineligible_value").notNull(),
+  concentrationHaircut: integer("concentration_haircut").notNull(),
+  eligibleNav: integer("eligible_nav").notNull(), // After eligibility and concentration caps
+  borrowingBase: integer("borrowing_base").notNull(), // Eligible NAV at advance rates
+  outstandingBalance: integer("outstanding_balance").notNull(),
+  availability: integer("availability").notNull(), // Borrowing base less outstanding (negative = shortfall)
+  terms: jsonb("terms").notNull(), // Terms applied, so the certificate reproduces if the facility's terms change
+  holdings: jsonb("holdings").notNull(), // Per-holding eligibility, haircuts and advance
+  concentrations: jsonb("concentrations").notNull(),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_borrowing_base_certificates_facility_period").on(table.facilityId, table.periodEnd),
+]);
+
+export const insertBorrowingBaseCertificateSchema = createInsertSchema(borrowingBaseCertificates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertBorrowingBaseCertificate = z.infer<typeof insertBorrowingBaseCertificateSchema>;
+export type BorrowingBaseCertificate = typeof borrowingBaseCertificates.$inferSelect;
+
+// Quarterly compliance certificates submitted by GPs, recomputed on receipt and signed off by operations
+export const complianceCertificates = pgTable("compliance_certificates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  facilityId: varchar("facility_id").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  status: text("status").notNull().default("submitted"), // 'submitted', 'approved', 'rejected'
+  reportedNav: integer("reported_nav").notNull(),
+  reportedBorrowingBase: integer("reported_borrowing_base"),
+  reportedHoldings: jsonb("reported_holdings").notNull(), // [{companyId?, companyName, fairValue}]
+  reportedCovenants: jsonb("reported_covenants").notNull(), // [{covenantId, reportedValue}] in stored covenant units
+  attestation: jsonb("attestation").notNull(), // {officerName, officerTitle, statement, attestedAt}
+  verification: jsonb("verification").notNull(), // Server-recomputed figures with any mismatches
+  mismatchCount: integer("mismatch_count").notNull().default(0),
+  submittedBy: varchar("submitted_by").notNull(),
+  reviewedBy: varchar("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewComments: text("review_comments"),
+  generatedDocumentId: varchar("generated_document_id"), // Archived copy once approved
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_compliance_certificates_facility_period").on(table.facilityId, table.periodEnd),
+  index("idx_compliance_certificates_status").on(table.status),
+]);
+
+export const insertComplianceCertificateSchema = createInsertSchema(complianceCertificates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertComplianceCertificate = z.infer<typeof insertComplianceCertificateSchema>;
+export type ComplianceCertificate = typeof complianceCertificates.$inferSelect;
+
+// Reference rate fixings (e.g. daily SOFR) loaded from published rate files
+export const referenceRateFixings = pgTable("reference_rate_fixings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rateName: text("rate_name").notNull().default("SOFR"),
+  fixingDate: timestamp("fixing_date").notNull(),
+  rateBps: integer("rate_bps").notNull(), // Stored as basis points (531 = 5.31%)
+  source: text("source").notNull().default("csv_import"), // 'csv_import', 'manual'
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_reference_rate_fixings_name_date").on(table.rateName, table.fixingDate),
+]);
+
+export const insertReferenceRateFixingSchema = createInsertSchema(referenceRateFixings).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertReferenceRateFixing = z.infer<typeof insertReferenceRateFixingSchema>;
+export type ReferenceRateFixing = typeof referenceRateFixings.$inferSelect;
+
+// Facility rate resets (fixing history for floating-rate facilities, one per interest period)
+export const facilityRateResets = pgTable("facility_rate_resets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  facilityId: varchar("facility_id").notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  rateName: text("rate_name").notNull(),
+  fixingDate: timestamp("fixing_date").notNull(), // Date of the fixing applied to the period
+  referenceRateBps: integer("reference_rate_bps").notNull(), // After floor
+  spreadBps: integer("spread_bps").notNull(),
+  allInRateBps: integer("all_in_rate_bps").notNull(), // After cap
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_facility_rate_resets_facility_period").on(table.facilityId, table.periodStart),
+]);
+
+export const insertFacilityRateResetSchema = createInsertSchema(facilityRateResets).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertFacilityRateReset = z.infer<typeof insertFacilityRateResetSchema>;
+export type FacilityRateReset = typeof facilityRateResets.$inferSelect;
+
 // Draw requests (capital deployment requests from GPs)
 export const drawRequests = pgTable("draw_requests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   facilityId: varchar("facility_id").notNull(),
   requestedAmount: integer("requested_amount").notNull(),
   purpose: text("purpose").notNull(),
-  status: text("status").notNull().default("pending"), // 'pending', 'approved', 'rejected', 'disbursed'
+  status: text("status").notNull().default("pending"), // 'pending', 'credit_approved', 'approved', 'rejected', 'disbursed'
   requestedBy: text("requested_by").notNull(),
   requestDate: timestamp("request_date").notNull().defaultNow(),
-  approvedBy: text("approved_by"),
+  creditApprovedBy: text("credit_approved_by"), // First approval step (credit officer)
+  creditApprovedDate: timestamp("credit_approved_date"),
+  approvedBy: text("approved_by"), // Final approval step (treasury)
   approvedDate: timestamp("approved_date"),
+  precheck: jsonb("precheck"), // Pro-forma LTV, commitment and covenant check at the latest decision
   disbursedDate: timestamp("disbursed_date"),
   rejectionReason: text("rejection_reason"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -797,10 +1103,14 @@ export const notifications = pgTable("notifications", {
   actionUrl: text("action_url"),
   isRead: boolean("is_read").notNull().default(false),
   priority: text("priority").notNull().default("normal"), // 'low', 'normal', 'high', 'urgent'
+  escalationStep: integer("escalation_step").notNull().default(0), // Escalation policy steps already taken while unread
+  lastEscalatedAt: timestamp("last_escalated_at"),
+  escalatedFromId: varchar("escalated_from_id"), // Set on the copies sent to escalation targets; reading one acknowledges the original
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => [
   index("idx_notifications_user_id_is_read").on(table.userId, table.isRead),
   index("idx_notifications_created_at").on(table.createdAt),
+  index("idx_notifications_escalated_from_id").on(table.escalatedFromId),
 ]);
 
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
@@ -815,23 +1125,27 @@ export type Notification = typeof notifications.$inferSelect;
 export const notificationDeliveries = pgTable("notification_deliveries", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   notificationId: varchar("notification_id"),
+  userId: varchar("user_id"), // Recipient's account
   channel: text("channel").notNull(), // slack, sms, email, in_app
   recipient: text("recipient").notNull(), // Slack channel, phone number, email
   messageTemplate: text("message_template"),
   messageContent: text("message_content").notNull(),
-  status: text("status").notNull().default("pending"), // pending, sent, failed, delivered, read
-  provider: text("provider"), // twilio, slack, resend
+  status: text("status").notNull().default("pending"), // pending, sending, retrying, sent, dead_letter, delivered, read
+  provider: text("provider"), // twilio, slack, smtp
   providerMessageId: text("provider_message_id"),
   deliveredAt: timestamp("delivered_at"),
   readAt: timestamp("read_at"),
-  error: text("error"),
-  retryCount: integer("retry_count").default(0),
-  metadata: jsonb("metadata"),
+  error: text("error"), // Last send error; kept on dead-lettered deliveries
+  retryCount: integer("retry_count").default(0), // Failed attempts so far
+  nextAttemptAt: timestamp("next_attempt_at"), // When the queue worker should (re)try; null once sent or dead-lettered
+  lastAttemptAt: timestamp("last_attempt_at"),
+  metadata: jsonb("metadata"), // Channel metadata needed to re-send (type, userId, notificationId, ...)
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => [
   index("idx_notification_deliveries_notification_id").on(table.notificationId),
   index("idx_notification_deliveries_status").on(table.status),
   index("idx_notification_deliveries_channel").on(table.channel),
+  index("idx_notification_deliveries_status_next_attempt").on(table.status, table.nextAttemptAt),
 ]);
 
 export const insertNotificationDeliverySchema = createInsertSchema(notificationDeliveries).omit({
@@ -852,7 +1166,8 @@ export const notificationPreferences = pgTable("notification_preferences", {
   notificationTypes: jsonb("notification_types"), // Which types to receive on this channel
   quietHoursStart: text("quiet_hours_start"), // HH:MM format
   quietHoursEnd: text("quiet_hours_end"), // HH:MM format
-  timezone: text("timezone").default("America/New_York"),
+  timezone: text("timezone").default("America/New_York"), // IANA zone quiet hours are evaluated in
+  digestFrequency: text("digest_frequency").notNull().default("daily"), // 'daily', 'weekly' - when quiet-hours digests go out
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 }, (table) => [
@@ -868,6 +1183,57 @@ export const insertNotificationPreferenceSchema = createInsertSchema(notificatio
 export type InsertNotificationPreference = z.infer<typeof insertNotificationPreferenceSchema>;
 export type NotificationPreference = typeof notificationPreferences.$inferSelect;
 
+// Low-urgency notifications held during a preference's quiet hours, sent as one digest
+export const notificationDigestItems = pgTable("notification_digest_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  preferenceId: varchar("preference_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  channel: text("channel").notNull(),
+  recipient: text("recipient").notNull(),
+  notificationId: varchar("notification_id"),
+  type: text("type").notNull(),
+  message: text("message").notNull(),
+  facilityId: varchar("facility_id"), // Resolved from the notification's related entity, for grouping
+  scheduledFor: timestamp("scheduled_for").notNull(), // End of quiet hours (daily) or the Monday after (weekly)
+  digestedAt: timestamp("digested_at"),
+  deliveryId: varchar("delivery_id"), // Digest delivery this item went out in
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_notification_digest_items_pending").on(table.digestedAt, table.scheduledFor),
+  index("idx_notification_digest_items_preference_id").on(table.preferenceId),
+]);
+
+export const insertNotificationDigestItemSchema = createInsertSchema(notificationDigestItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertNotificationDigestItem = z.infer<typeof insertNotificationDigestItemSchema>;
+export type NotificationDigestItem = typeof notificationDigestItems.$inferSelect;
+
+// Escalation policies for unacknowledged alerts: re-send louder, then widen the audience
+export const escalationPolicies = pgTable("escalation_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  notificationTypes: jsonb("notification_types").notNull(), // Notification types the policy covers, e.g. ['covenant_breach']
+  priorities: jsonb("priorities").notNull(), // Any notification at these priorities is covered too, e.g. ['urgent']
+  steps: jsonb("steps").notNull(), // [{afterHours, target: 'recipient'|'relationship_manager'|'operations_head', channels}]
+  operationsHeadUserId: varchar("operations_head_user_id"), // Final escalation target; admins when unset
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertEscalationPolicySchema = createInsertSchema(escalationPolicies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertEscalationPolicy = z.infer<typeof insertEscalationPolicySchema>;
+export type EscalationPolicy = typeof escalationPolicies.$inferSelect;
+
 // Audit logs (track all important actions)
 export const auditLogs = pgTable("audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1032,6 +1398,8 @@ export const apiClients = pgTable("api_clients", {
   rateLimit: integer("rate_limit").default(1000), // Requests per hour
   environment: text("environment").default("production"), // production, sandbox
   webhookUrl: text("webhook_url"),
+  webhookSecret: varchar("webhook_secret"), // HMAC-SHA256 signing key for webhook payloads; kept raw so it can sign
+  webhookEvents: jsonb("webhook_events"), // Subscribed event types; null = all events
   contactEmail: text("contact_email"),
   createdBy: varchar("created_by").notNull(),
   lastUsed: timestamp("last_used"),
@@ -1103,6 +1471,36 @@ export const insertApiUsageLogSchema = createInsertSchema(apiUsageLogs).omit({
 export type InsertApiUsageLog = z.infer<typeof insertApiUsageLogSchema>;
 export type ApiUsageLog = typeof apiUsageLogs.$inferSelect;
 
+// Outbound webhook deliveries (one row per event per subscribed API client)
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  apiClientId: varchar("api_client_id").notNull(),
+  eventId: varchar("event_id").notNull(), // Shared by every client's delivery of the same event
+  eventType: text("event_type").notNull(), // covenant.breached, draw_request.approved, ...
+  url: text("url").notNull(), // Endpoint at the time the event was queued
+  payload: jsonb("payload").notNull(), // Event body as signed and sent
+  status: text("status").notNull().default("pending"), // pending, sending, retrying, delivered, dead_letter
+  attempts: integer("attempts").notNull().default(0),
+  responseStatus: integer("response_status"), // HTTP status of the last attempt
+  responseBody: text("response_body"), // Truncated body of the last response
+  error: text("error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("idx_webhook_deliveries_client_created").on(table.apiClientId, table.createdAt),
+  index("idx_webhook_deliveries_status_next_attempt").on(table.status, table.nextAttemptAt),
+]);
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
 // Fund Admin Integrations - Connect to SS&C, Alter Domus, Apex, etc
 export const fundAdminConnections = pgTable("fund_admin_connections", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1818,13 +2216,17 @@ export const ltvCalculations = pgTable("ltv_calculations", {
   requestedFacilitySize: integer("requested_facility_size"),
   
   // Baseline Calculation
-  maxFacilitySize: integer("max_facility_size"), // NAV * targetLtv
+  maxFacilitySize: integer("max_facility_size"), // NAV * targetLtv, capped at the borrowing base
+  borrowingBase: integer("borrowing_base"), // From the prospect's holdings, when extracted
   recommendedFacilitySize: integer("recommended_facility_size"),
   baselineLtv: numeric("baseline_ltv", { precision: 5, scale: 2 }),
   
   // Stress Testing Scenarios
   scenarios: jsonb("scenarios"), // [{name: "-20% Downturn", navStress: -20, newNav: 158400000, newLtv: 15.8}]
   breachProbability: numeric("breach_probability", { precision: 5, scale: 2 }), // % chance of LTV breach
+  simulation: jsonb("simulation"), // Monte Carlo result: {seed, paths, horizons: [{month, breachProbability}], navBands}
+  simulationSeed: integer("simulation_seed"), // Re-run with this seed to reproduce the result
+  reverseStress: jsonb("reverse_stress"), // Breaking points: {maxNavDeclinePercent, maxAdditionalDraw, covenants: [...]}
   
   // Pricing Recommendation
   recommendedSofr: integer("recommended_sofr"), // basis points (e.g., 600 = SOFR + 600 bps)